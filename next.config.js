@@ -8,7 +8,8 @@ const nextConfig = {
   reactStrictMode: false,
 
   // Puppeteer/Chromium 相关包不进行 bundle（用于 Vercel serverless）
-  serverExternalPackages: ['@sparticuz/chromium', 'puppeteer-core'],
+  // better-sqlite3 为原生模块，pg 可选依赖较多，同样不进行 bundle
+  serverExternalPackages: ['@sparticuz/chromium', 'puppeteer-core', 'better-sqlite3', 'pg'],
 
   // Next.js 16 使用 Turbopack，配置 SVG 加载
   turbopack: {
@@ -43,22 +43,27 @@ import {
   Users,
   Video,
 } from 'lucide-react';
-import { GripVertical, KeyRound, MessageSquare } from 'lucide-react';
+import { GripVertical, HeartPulse, KeyRound, MessageSquare, Scale, ShieldCheck } from 'lucide-react';
 import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 
 import { AdminConfig, AdminConfigResult } from '@/lib/admin.types';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
 
+import AdaptiveWeightConfig from '@/components/AdaptiveWeightConfig';
 import AIRecommendConfig from '@/components/AIRecommendConfig';
 import CacheManager from '@/components/CacheManager';
 import DataMigration from '@/components/DataMigration';
 import ImportExportModal from '@/components/ImportExportModal';
+import LiveChannelHealthPanel from '@/components/LiveChannelHealthPanel';
+import LiveRecordingPanel from '@/components/LiveRecordingPanel';
+import SourceHealthMonitor from '@/components/SourceHealthMonitor';
 import SourceTestModule from '@/components/SourceTestModule';
 import { TelegramAuthConfig } from '@/components/TelegramAuthConfig';
 import { OIDCAuthConfig } from '@/components/OIDCAuthConfig';
 import TVBoxSecurityConfig from '@/components/TVBoxSecurityConfig';
 import TrustedNetworkConfig from '@/components/TrustedNetworkConfig';
+import TwoFactorPolicyConfig from '@/components/TwoFactorPolicyConfig';
 import DanmuApiConfig from '@/components/DanmuApiConfig';
 import { TVBoxTokenCell, TVBoxTokenModal } from '@/components/TVBoxTokenManager';
 import YouTubeConfig from '@/components/YouTubeConfig';
@@ -326,6 +331,7 @@ interface DataSource {
   is_adult?: boolean;
   type?: 'vod' | 'shortdrama'; // 视频源类型：vod=普通视频，shortdrama=短剧
   weight?: number; // 优先级权重：0-100，数字越大优先级越高，默认50
+  quarantined?: boolean; // 健康检测连续失败被自动隔离
 }
 
 // 直播源数据类型
@@ -599,6 +605,26 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
     await withLoading(`unbanUser_${uname}`, () => handleUserAction('unban', uname));
   };
 
+  // 撤销用户的全部登录会话（封禁后立即踢下线，无需等待 cookie 过期）
+  const handleRevokeSessions = async (uname: string) => {
+    await withLoading(`revokeSessions_${uname}`, async () => {
+      try {
+        const res = await fetch('/api/admin/user', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ targetUsername: uname, action: 'revokeSessions' }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || `操作失败: ${res.status}`);
+        }
+        showSuccess(`已强制下线 ${uname} 的所有设备，5 秒内生效`, showAlert);
+      } catch (err) {
+        showError(err instanceof Error ? err.message : '操作失败', showAlert);
+      }
+    });
+  };
+
   const handleSetAdmin = async (uname: string) => {
     await withLoading(`setAdmin_${uname}`, () => handleUserAction('setAdmin', uname));
   };
@@ -1734,6 +1760,15 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
                                     解封
                                   </button>
                                 ))}
+                              {user.role !== 'owner' && user.banned && (
+                                <button
+                                  onClick={() => handleRevokeSessions(user.username)}
+                                  disabled={isLoading(`revokeSessions_${user.username}`)}
+                                  className={`${buttonStyles.roundedDanger} ${isLoading(`revokeSessions_${user.username}`) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                >
+                                  强制下线
+                                </button>
+                              )}
                             </>
                           )}
                           {/* 删除用户按钮 - 放在最后，使用更明显的红色样式 */}
@@ -3382,6 +3417,14 @@ const VideoSourceConfig = ({
           >
             {!source.disabled ? '启用中' : '已禁用'}
           </span>
+          {source.quarantined && !source.disabled && (
+            <span
+              className='ml-1 px-2 py-1 text-xs rounded-full bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+              title='健康检测连续失败，已暂停参与搜索，可在「源健康监控」中解除'
+            >
+              已隔离
+            </span>
+          )}
         </td>
         <td className='px-6 py-4 whitespace-nowrap text-center'>
           <button
@@ -6422,7 +6465,7 @@ const LiveSourceConfig = ({
             />
             <input
               type='text'
-              placeholder='节目单地址（选填）'
+              placeholder='节目单地址（选填，多个用逗号分隔，支持 .gz / .xz）'
               value={newLiveSource.epg}
               onChange={(e) =>
                 setNewLiveSource((prev) => ({ ...prev, epg: e.target.value }))
@@ -6666,6 +6709,12 @@ const LiveSourceConfig = ({
         </div>
       )}
 
+      {/* 频道可用性检测 */}
+      <LiveChannelHealthPanel config={config} refreshConfig={refreshConfig} />
+
+      {/* 直播录制 */}
+      <LiveRecordingPanel config={config} refreshConfig={refreshConfig} />
+
       {/* 通用弹窗组件 */}
       <AlertModal
         isOpen={alertModal.isOpen}
@@ -7726,6 +7775,8 @@ function AdminPageClient() {
     userConfig: false,
     videoSource: false,
     sourceTest: false,
+    sourceHealth: false,
+    adaptiveWeight: false,
     liveSource: false,
     siteConfig: false,
     categoryConfig: false,
@@ -7739,6 +7790,7 @@ function AdminPageClient() {
     watchRoomConfig: false,
     tvboxSecurityConfig: false,
     trustedNetworkConfig: false,
+    twoFactorPolicy: false,
     danmuApiConfig: false,
     telegramAuthConfig: false,
     oidcAuthConfig: false,
@@ -7934,6 +7986,30 @@ function AdminPageClient() {
               <SourceTestModule />
             </CollapsibleTab>
 
+            {/* 源健康监控标签 */}
+            <CollapsibleTab
+              title='源健康监控'
+              icon={
+                <HeartPulse size={20} className='text-gray-600 dark:text-gray-400' />
+              }
+              isExpanded={expandedTabs.sourceHealth}
+              onToggle={() => toggleTab('sourceHealth')}
+            >
+              <SourceHealthMonitor config={config} refreshConfig={fetchConfig} />
+            </CollapsibleTab>
+
+            {/* 自适应源权重标签 */}
+            <CollapsibleTab
+              title='自适应源权重'
+              icon={
+                <Scale size={20} className='text-gray-600 dark:text-gray-400' />
+              }
+              isExpanded={expandedTabs.adaptiveWeight}
+              onToggle={() => toggleTab('adaptiveWeight')}
+            >
+              <AdaptiveWeightConfig config={config} refreshConfig={fetchConfig} />
+            </CollapsibleTab>
+
             {/* 直播源配置标签 */}
             <CollapsibleTab
               title='直播源配置'
@@ -8113,6 +8189,23 @@ function AdminPageClient() {
               </CollapsibleTab>
             )}
 
+            {/* 双重验证策略 - 仅站长可见 */}
+            {role === 'owner' && (
+              <CollapsibleTab
+                title='双重验证策略'
+                icon={
+                  <ShieldCheck
+                    size={20}
+                    className='text-emerald-600 dark:text-emerald-400'
+                  />
+                }
+                isExpanded={expandedTabs.twoFactorPolicy}
+                onToggle={() => toggleTab('twoFactorPolicy')}
+              >
+                <TwoFactorPolicyConfig config={config} refreshConfig={fetchConfig} />
+              </CollapsibleTab>
+            )}
+
             {/* 弹幕API配置 - 仅站长可见 */}
             {role === 'owner' && (
               <CollapsibleTab
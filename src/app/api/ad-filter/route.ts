@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 
+import { normalizeAdFilterRules } from '@/lib/ad-filter';
 import { getConfig } from '@/lib/config';
 
 export const runtime = 'nodejs';
@@ -7,10 +8,10 @@ export const dynamic = 'force-dynamic'; // 禁用缓存
 
 /**
  * GET /api/ad-filter
- * 获取自定义去广告代码配置（公开接口，无需认证）
+ * 获取自定义去广告规则（公开接口，无需认证）
  * 支持两种模式：
  * - 不带参数：只返回版本号，用于检查更新
- * - ?full=true：返回完整代码和版本号
+ * - ?full=true：返回完整规则和版本号
  */
 export async function GET(request: Request) {
   try {
@@ -21,9 +22,9 @@ export async function GET(request: Request) {
     const version = config.SiteConfig?.CustomAdFilterVersion || 0;
 
     if (full) {
-      // 返回完整代码和版本号
+      // 返回完整规则和版本号
       return NextResponse.json({
-        code: config.SiteConfig?.CustomAdFilterCode || '',
+        rules: normalizeAdFilterRules(config.SiteConfig?.CustomAdFilterRules),
         version,
       });
     } else {
@@ -33,7 +34,7 @@ export async function GET(request: Request) {
       });
     }
   } catch (error) {
-    console.error('获取去广告代码配置失败:', error);
+    console.error('获取去广告规则失败:', error);
     return NextResponse.json(
       { error: '获取配置失败', details: (error as Error).message },
       { status: 500 }
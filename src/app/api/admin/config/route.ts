@@ -3,6 +3,7 @@
 import { revalidatePath } from 'next/cache';
 import { NextRequest, NextResponse } from 'next/server';
 
+import { validateAdFilterRules } from '@/lib/ad-filter';
 import { AdminConfig, AdminConfigResult } from '@/lib/admin.types';
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { clearConfigCache, getConfig } from '@/lib/config';
@@ -92,6 +93,15 @@ export async function POST(request: NextRequest) {
   try {
     const newConfig: AdminConfig = await request.json();
 
+    // 去广告规则会在服务器端代理中执行，保存前严格校验
+    if (newConfig.SiteConfig?.CustomAdFilterRules) {
+      try {
+        newConfig.SiteConfig.CustomAdFilterRules = validateAdFilterRules(newConfig.SiteConfig.CustomAdFilterRules);
+      } catch (err) {
+        return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+      }
+    }
+
     // 保存新配置
     await db.saveAdminConfig(newConfig);
 
@@ -103,7 +113,7 @@ export async function POST(request: NextRequest) {
 
     // 🔥 添加 no-cache headers，防止 Docker 环境下 Next.js Router Cache 问题
     // 参考：https://github.com/vercel/next.js/issues/61184
-    return NextResponse.json(
+    const response = NextResponse.json(
       { success: true },
       {
         headers: {
@@ -113,6 +123,14 @@ export async function POST(request: NextRequest) {
         },
       }
     );
+    // 双重验证策略会影响信任网络自动登录，通知 middleware 刷新信任网络缓存
+    response.cookies.set('tn-version', Date.now().toString(), {
+      httpOnly: false,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 365 * 24 * 60 * 60, // 1 年
+    });
+    return response;
   } catch (error) {
     console.error('保存管理员配置失败:', error);
     return NextResponse.json(
@@ -127,6 +127,10 @@ async function getUserPassword(username: string): Promise<string | null> {
   try {
     // 使用 Redis 存储的直接访问方法
     const storage = (db as any).storage;
+    // SQL 存储的 V1 密码保存在 users 表中
+    if (storage && typeof storage.getV1Password === 'function') {
+      return await storage.getV1Password(username);
+    }
     if (storage && typeof storage.client?.get === 'function') {
       const passwordKey = `u:${username}:pwd`;
       const password = await storage.client.get(passwordKey);
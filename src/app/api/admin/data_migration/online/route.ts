@@ -0,0 +1,131 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { clearConfigCache } from '@/lib/config';
+import {
+  isSameStorageEndpoint,
+  migrateStorage,
+  resolveStorageEndpoint,
+  StorageEndpoint,
+  validateStorageEndpoint,
+} from '@/lib/storage-migration';
+
+export const runtime = 'nodejs';
+
+// 在线迁移：在两个存储后端之间直接流式复制数据，进度以 SSE 事件返回
+export async function POST(req: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行数据迁移' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = getAuthInfoFromCookie(req);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: '未登录' }, { status: 401 });
+  }
+
+  // 只有站长可以执行在线迁移
+  if (authInfo.username !== process.env.USERNAME) {
+    return NextResponse.json({ error: '权限不足，只有站长可以迁移数据' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: '请求体格式错误' }, { status: 400 });
+  }
+
+  const source: StorageEndpoint = body.source || { type: 'current' };
+  const target: StorageEndpoint = body.target;
+
+  const endpointError = validateStorageEndpoint(source) || validateStorageEndpoint(target);
+  if (endpointError) {
+    return NextResponse.json({ error: endpointError }, { status: 400 });
+  }
+  if (isSameStorageEndpoint(source, target)) {
+    return NextResponse.json({ error: '源存储与目标存储不能相同' }, { status: 400 });
+  }
+
+  let sourceStorage;
+  let targetStorage;
+  try {
+    sourceStorage = resolveStorageEndpoint(source);
+    targetStorage = resolveStorageEndpoint(target);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : '无法连接存储' },
+      { status: 400 }
+    );
+  }
+
+  const dryRun = !!body.dryRun;
+  const users = Array.isArray(body.users)
+    ? body.users.filter((u: unknown): u is string => typeof u === 'string')
+    : undefined;
+
+  let streamClosed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const send = (data: unknown) => {
+        if (streamClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        } catch (error) {
+          // 客户端断开后继续在服务端完成迁移，只停止推送进度
+          console.warn('在线迁移进度推送失败:', error);
+          streamClosed = true;
+        }
+      };
+
+      try {
+        console.log(
+          `在线迁移开始: ${source.type} → ${target.type}${dryRun ? '（演练模式）' : ''}`
+        );
+        const summary = await migrateStorage(sourceStorage, targetStorage, {
+          dryRun,
+          verify: body.verify !== false,
+          clearTarget: !!body.clearTarget,
+          users,
+          onProgress: send,
+        });
+
+        // 写入当前存储后，让配置缓存重新从数据库加载
+        if (!dryRun && target.type === 'current') {
+          clearConfigCache();
+        }
+
+        console.log('在线迁移完成:', summary);
+      } catch (error) {
+        console.error('在线迁移失败:', error);
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : '迁移失败',
+        });
+      } finally {
+        if (!streamClosed) {
+          streamClosed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      streamClosed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -21,14 +21,21 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { enabled } = body;
+    const { enabled, serverEnabled, userQuotaMB, totalQuotaMB, maxConcurrentJobs } = body;
+    const toNumber = (value: unknown, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : fallback;
 
     // 获取当前配置
     const config = await getConfig();
+    const current = config.DownloadConfig;
 
     // 更新下载配置
     config.DownloadConfig = {
       enabled: enabled ?? true,
+      serverEnabled: serverEnabled ?? current?.serverEnabled ?? false,
+      userQuotaMB: toNumber(userQuotaMB, current?.userQuotaMB ?? 5120),
+      totalQuotaMB: Math.max(1, toNumber(totalQuotaMB, current?.totalQuotaMB ?? 20480)),
+      maxConcurrentJobs: Math.min(5, Math.max(1, toNumber(maxConcurrentJobs, current?.maxConcurrentJobs ?? 2))),
     };
 
     // 保存到数据库
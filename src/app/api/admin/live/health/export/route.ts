@@ -0,0 +1,41 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAdminRoleFromRequest } from '@/lib/admin-auth';
+import { buildCleanM3U } from '@/lib/live-health';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/live/health/export?key=xxx
+ * 下载剔除失效频道后的 M3U 文件
+ */
+export async function GET(request: NextRequest) {
+  const role = await getAdminRoleFromRequest(request);
+  if (!role) {
+    return NextResponse.json({ error: '权限不足' }, { status: 401 });
+  }
+
+  const key = request.nextUrl.searchParams.get('key');
+  if (!key) {
+    return NextResponse.json({ error: '缺少直播源参数' }, { status: 400 });
+  }
+
+  try {
+    const content = await buildCleanM3U(key);
+    if (content === null) {
+      return NextResponse.json({ error: '频道信息未找到' }, { status: 404 });
+    }
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'audio/x-mpegurl; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(key)}.m3u"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('导出直播源失败:', error);
+    return NextResponse.json({ error: '导出直播源失败' }, { status: 500 });
+  }
+}
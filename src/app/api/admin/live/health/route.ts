@@ -0,0 +1,72 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAdminRoleFromRequest } from '@/lib/admin-auth';
+import { getLiveChannelHealthOverview, runLiveChannelHealthCheck } from '@/lib/live-health';
+
+export const runtime = 'nodejs';
+
+function checkStorage(): NextResponse | null {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持直播频道检测' }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/admin/live/health
+ * 各直播源最近一次频道检测的结果
+ */
+export async function GET(request: NextRequest) {
+  const storageError = checkStorage();
+  if (storageError) return storageError;
+
+  const role = await getAdminRoleFromRequest(request);
+  if (!role) {
+    return NextResponse.json({ error: '权限不足' }, { status: 401 });
+  }
+
+  try {
+    const sources = await getLiveChannelHealthOverview();
+    return NextResponse.json(
+      { sources },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('获取直播频道检测结果失败:', error);
+    return NextResponse.json({ error: '获取直播频道检测结果失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/live/health
+ * body: { action: 'probe', key?: string }  立即检测指定直播源（不传 key 时检测所有启用的直播源）
+ */
+export async function POST(request: NextRequest) {
+  const storageError = checkStorage();
+  if (storageError) return storageError;
+
+  const role = await getAdminRoleFromRequest(request);
+  if (!role) {
+    return NextResponse.json({ error: '权限不足' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body.action !== 'probe') {
+      return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+
+    const sourceKey = typeof body.key === 'string' && body.key ? body.key : undefined;
+    const result = await runLiveChannelHealthCheck({ sourceKey });
+    return NextResponse.json(
+      { ok: true, result },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('直播频道检测失败:', error);
+    return NextResponse.json({ error: '直播频道检测失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAdminRoleFromRequest } from '@/lib/admin-auth';
+import { getSourceHealthOverview, runSourceHealthCheck } from '@/lib/source-health';
+
+export const runtime = 'nodejs';
+
+function checkStorage(): NextResponse | null {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持源健康监控' }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/admin/source-health
+ * 所有视频源的健康概览与检测历史
+ */
+export async function GET(request: NextRequest) {
+  const storageError = checkStorage();
+  if (storageError) return storageError;
+
+  const role = await getAdminRoleFromRequest(request);
+  if (!role) {
+    return NextResponse.json({ error: '权限不足' }, { status: 401 });
+  }
+
+  try {
+    const sources = await getSourceHealthOverview();
+    return NextResponse.json(
+      { sources },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('获取源健康数据失败:', error);
+    return NextResponse.json({ error: '获取源健康数据失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/source-health
+ * body: { action: 'probe' }  立即检测所有启用的视频源
+ */
+export async function POST(request: NextRequest) {
+  const storageError = checkStorage();
+  if (storageError) return storageError;
+
+  const role = await getAdminRoleFromRequest(request);
+  if (!role) {
+    return NextResponse.json({ error: '权限不足' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body.action !== 'probe') {
+      return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+
+    const result = await runSourceHealthCheck();
+    return NextResponse.json(
+      { ok: true, result },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('源健康检测失败:', error);
+    return NextResponse.json({ error: '源健康检测失败' }, { status: 500 });
+  }
+}
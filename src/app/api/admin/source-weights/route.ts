@@ -0,0 +1,37 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAdminRoleFromRequest } from '@/lib/admin-auth';
+import { getConfig } from '@/lib/config';
+import { getSourceWeightDetails } from '@/lib/source-weights';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/source-weights
+ * 每个视频源的管理员权重、学习权重、有效权重和播放统计
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持自适应源权重' }, { status: 400 });
+  }
+
+  const role = await getAdminRoleFromRequest(request);
+  if (!role) {
+    return NextResponse.json({ error: '权限不足' }, { status: 401 });
+  }
+
+  try {
+    const config = await getConfig();
+    const sources = await getSourceWeightDetails(config);
+    return NextResponse.json(
+      { sources },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('获取源权重统计失败:', error);
+    return NextResponse.json({ error: '获取源权重统计失败' }, { status: 500 });
+  }
+}
@@ -21,6 +21,7 @@ const ACTIONS = [
   'userGroup',
   'updateUserGroups',
   'batchUpdateUserGroups',
+  'revokeSessions',
 ] as const;
 
 export async function POST(request: NextRequest) {
@@ -301,6 +302,27 @@ export async function POST(request: NextRequest) {
 
         break;
       }
+      case 'revokeSessions': {
+        if (!targetEntry) {
+          return NextResponse.json(
+            { error: '目标用户不存在' },
+            { status: 404 }
+          );
+        }
+        if (isTargetAdmin && operatorRole !== 'owner') {
+          return NextResponse.json(
+            { error: '仅站长可操作管理员' },
+            { status: 401 }
+          );
+        }
+
+        // 删除该用户的全部登录会话，已登录设备在下次请求时被要求重新登录
+        await db.deleteAllUserSessions(targetUsername!);
+        return NextResponse.json(
+          { ok: true },
+          { headers: { 'Cache-Control': 'no-store' } }
+        );
+      }
       case 'updateUserApis': {
         if (!targetEntry) {
           return NextResponse.json(
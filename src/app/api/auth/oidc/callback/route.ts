@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
+import { createUserSession } from '@/lib/session';
+import { createLoginChallenge, getRequiredTwoFactorStep } from '@/lib/two-factor';
 
 export const runtime = 'nodejs';
 
@@ -33,7 +35,8 @@ async function generateSignature(
 // 生成认证Cookie
 async function generateAuthCookie(
   username: string,
-  role: 'owner' | 'admin' | 'user'
+  role: 'owner' | 'admin' | 'user',
+  sessionId?: string
 ): Promise<string> {
   const authData: any = { role };
 
@@ -43,6 +46,9 @@ async function generateAuthCookie(
     authData.signature = signature;
     authData.timestamp = Date.now();
     authData.loginTime = Date.now();
+    if (sessionId) {
+      authData.sessionId = sessionId;
+    }
   }
 
   return encodeURIComponent(JSON.stringify(authData));
@@ -331,9 +337,29 @@ export async function GET(request: NextRequest) {
     }
 
     if (username) {
+      // 未放行 OIDC 的双重验证时，跳转登录页完成第二步
+      const twoFactorStep = await getRequiredTwoFactorStep(username, userRole, 'oidc');
+      if (twoFactorStep) {
+        const challenge = createLoginChallenge({
+          username,
+          role: userRole,
+          method: 'oidc',
+          step: twoFactorStep,
+        });
+        const response = NextResponse.redirect(
+          new URL(
+            `/login?twofa=${encodeURIComponent(challenge)}&step=${twoFactorStep}`,
+            origin
+          )
+        );
+        response.cookies.delete('oidc_state');
+        return response;
+      }
+
       // 用户已存在,直接登录
       const response = NextResponse.redirect(new URL('/', origin));
-      const cookieValue = await generateAuthCookie(username, userRole);
+      const sessionId = await createUserSession(username, request, 'oidc');
+      const cookieValue = await generateAuthCookie(username, userRole, sessionId);
       const expires = new Date();
       expires.setDate(expires.getDate() + 7);
 
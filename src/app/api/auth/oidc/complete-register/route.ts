@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { clearConfigCache, getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
+import { createUserSession } from '@/lib/session';
 
 export const runtime = 'nodejs';
 
@@ -33,7 +34,8 @@ async function generateSignature(
 // 生成认证Cookie
 async function generateAuthCookie(
   username: string,
-  role: 'owner' | 'admin' | 'user'
+  role: 'owner' | 'admin' | 'user',
+  sessionId?: string
 ): Promise<string> {
   const authData: any = { role };
 
@@ -43,6 +45,9 @@ async function generateAuthCookie(
     authData.signature = signature;
     authData.timestamp = Date.now();
     authData.loginTime = Date.now();
+    if (sessionId) {
+      authData.sessionId = sessionId;
+    }
   }
 
   return encodeURIComponent(JSON.stringify(authData));
@@ -211,7 +216,8 @@ export async function POST(request: NextRequest) {
         message: '注册成功',
         needDelay: storageType === 'upstash' // Upstash 需要延迟等待数据同步
       });
-      const cookieValue = await generateAuthCookie(username, 'user');
+      const sessionId = await createUserSession(username, request, 'oidc');
+      const cookieValue = await generateAuthCookie(username, 'user', sessionId);
       const expires = new Date();
       expires.setDate(expires.getDate() + 7);
 
@@ -7,6 +7,12 @@ import { getConfig, refineConfig } from '@/lib/config';
 import { db } from '@/lib/db';
 import { fetchVideoDetail } from '@/lib/fetchVideoDetail';
 import { refreshLiveChannels } from '@/lib/live';
+import { getLiveChannelHealthSettings, runLiveChannelHealthCheck } from '@/lib/live-health';
+import { ensureLiveRecordingScheduler } from '@/lib/live-recording';
+import { ensureLiveReminderScheduler } from '@/lib/live-reminder';
+import { ensureOfflineDownloadScheduler } from '@/lib/offline-download';
+import { indexSearchResults } from '@/lib/search-index';
+import { getSourceHealthSettings, runSourceHealthCheck } from '@/lib/source-health';
 import { getSpiderJar } from '@/lib/spiderJar';
 import { SearchResult, Favorite, PlayRecord } from '@/lib/types';
 import { recordRequest, getDbQueryCount, resetDbQueryCount } from '@/lib/performance-monitor';
@@ -44,6 +50,19 @@ interface CronStats {
       favoritesErrors: number;
       duration: number;
     };
+    sourceHealth?: {
+      total: number;
+      healthy: number;
+      quarantined: number;
+      reinstated: number;
+      duration: number;
+    };
+    liveChannelHealth?: {
+      sources: number;
+      total: number;
+      healthy: number;
+      duration: number;
+    };
   };
   memoryUsed: number;
   dbQueries: number;
@@ -412,6 +431,64 @@ async function cronJob() {
 
   console.log('✅ 第二组并行任务完成');
 
+  // 第三组：视频源健康检测（放在配置刷新之后，使用最新的源列表）
+  try {
+    const healthConfig = await getConfig();
+    if (getSourceHealthSettings(healthConfig).enabled) {
+      console.log('🩺 执行视频源健康检测...');
+      const healthStart = Date.now();
+      const result = await runSourceHealthCheck();
+      const healthDuration = Date.now() - healthStart;
+
+      if (currentCronStats) {
+        currentCronStats.tasks.sourceHealth = {
+          total: result.total,
+          healthy: result.healthy,
+          quarantined: result.quarantined.length,
+          reinstated: result.reinstated.length,
+          duration: healthDuration
+        };
+      }
+
+      console.log(`✅ 视频源健康检测完成: ${result.healthy}/${result.total} 正常，新隔离 ${result.quarantined.length} 个，恢复 ${result.reinstated.length} 个 (耗时: ${healthDuration}ms)`);
+    } else {
+      console.log('⏭️ 视频源健康检测已禁用，跳过');
+    }
+  } catch (err) {
+    console.error('❌ 视频源健康检测失败:', err);
+  }
+
+  // 第四组：直播频道检测（频道多、耗时长，只检测超过检测间隔的直播源）
+  try {
+    const liveHealthConfig = await getConfig();
+    if (getLiveChannelHealthSettings(liveHealthConfig).enabled) {
+      console.log('📡 执行直播频道检测...');
+      const liveHealthStart = Date.now();
+      const result = await runLiveChannelHealthCheck({ onlyDue: true });
+      const liveHealthDuration = Date.now() - liveHealthStart;
+
+      if (currentCronStats) {
+        currentCronStats.tasks.liveChannelHealth = {
+          sources: result.sources.length,
+          total: result.total,
+          healthy: result.healthy,
+          duration: liveHealthDuration
+        };
+      }
+
+      console.log(`✅ 直播频道检测完成: ${result.sources.length} 个直播源，${result.healthy}/${result.total} 个频道可用 (耗时: ${liveHealthDuration}ms)`);
+    } else {
+      console.log('⏭️ 直播频道检测未启用，跳过');
+    }
+  } catch (err) {
+    console.error('❌ 直播频道检测失败:', err);
+  }
+
+  // 直播录制、节目提醒和离线下载调度器常驻进程内，服务启动后由首次定时任务拉起，继续未完成的任务
+  ensureLiveRecordingScheduler();
+  ensureLiveReminderScheduler();
+  ensureOfflineDownloadScheduler();
+
   // 🚀 阶段2优化：完成性能统计
   if (currentCronStats) {
     currentCronStats.endTime = Date.now();
@@ -604,6 +681,8 @@ async function refreshRecordAndFavorites() {
             // 成功时才缓存结果
             const successPromise = Promise.resolve(detail);
             detailCache.set(key, successPromise);
+            // 刷新到的详情同步收录到本地搜索索引
+            indexSearchResults([detail]).catch((err) => console.error('更新本地搜索索引失败:', err));
             return detail;
           })
           .catch((err) => {
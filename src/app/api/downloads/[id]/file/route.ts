@@ -0,0 +1,76 @@
+/* eslint-disable @typescript-eslint/no-explicit-any, no-console */
+
+import { createReadStream, promises as fs } from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { getOfflineDownloadFile } from '@/lib/offline-download';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/downloads/{id}/file[?download=1]
+ * 已完成的 MP4：支持 Range 请求以便在线播放和拖动进度，download=1 时作为附件下载
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const job = await db.getOfflineDownload(id);
+    if (!job || job.username !== authInfo.username) {
+      return NextResponse.json({ error: '下载任务不存在' }, { status: 404 });
+    }
+    if (job.status !== 'completed') {
+      return NextResponse.json({ error: '视频尚未下载完成' }, { status: 409 });
+    }
+
+    const filePath = getOfflineDownloadFile(job.id);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat) {
+      return NextResponse.json({ error: '文件不存在' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'video/mp4',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=86400',
+    };
+    if (request.nextUrl.searchParams.get('download') === '1') {
+      const filename = `${job.title} ${job.episodeTitle}.mp4`;
+      headers['Content-Disposition'] = `attachment; filename="${encodeURIComponent(filename)}"`;
+    }
+
+    const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+    if (range && (range[1] || range[2])) {
+      // bytes=-500 表示最后 500 字节
+      const start = range[1] ? parseInt(range[1], 10) : Math.max(0, stat.size - parseInt(range[2], 10));
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), stat.size - 1) : stat.size - 1;
+      if (start >= stat.size || start > end) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${stat.size}` } });
+      }
+      return new Response(createReadStream(filePath, { start, end }) as any, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${start}-${end}/${stat.size}`,
+          'Content-Length': (end - start + 1).toString(),
+        },
+      });
+    }
+
+    return new Response(createReadStream(filePath) as any, {
+      headers: { ...headers, 'Content-Length': stat.size.toString() },
+    });
+  } catch (err) {
+    console.error('读取离线下载文件失败', err);
+    return NextResponse.json({ error: '读取离线下载文件失败' }, { status: 500 });
+  }
+}
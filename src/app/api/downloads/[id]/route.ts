@@ -0,0 +1,64 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { removeOfflineDownload, updateOfflineDownload } from '@/lib/offline-download';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/downloads/{id}
+ * body: { action: 'pause' | 'resume' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    if (body.action !== 'pause' && body.action !== 'resume') {
+      return NextResponse.json({ error: '不支持的操作' }, { status: 400 });
+    }
+    const job = await updateOfflineDownload(authInfo.username, id, body.action);
+    return NextResponse.json({ job });
+  } catch (err) {
+    console.error('更新离线下载失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '更新离线下载失败' },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/downloads/{id}
+ * 删除任务及已下载的文件
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    await removeOfflineDownload(authInfo.username, id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('删除离线下载失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '删除离线下载失败' },
+      { status: 400 }
+    );
+  }
+}
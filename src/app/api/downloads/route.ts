@@ -0,0 +1,87 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import {
+  enqueueOfflineDownloads,
+  ensureOfflineDownloadScheduler,
+  getOfflineDownloadSettings,
+  getOfflineDownloadUsage,
+  listUserOfflineDownloads,
+} from '@/lib/offline-download';
+
+export const runtime = 'nodejs';
+
+function getRequestUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持服务器离线下载' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return authInfo.username;
+}
+
+/**
+ * GET /api/downloads
+ * 当前用户的离线下载任务、空间占用，以及功能是否启用
+ */
+export async function GET(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    ensureOfflineDownloadScheduler();
+    const config = await getConfig();
+    const [jobs, usage] = await Promise.all([
+      listUserOfflineDownloads(username),
+      getOfflineDownloadUsage(username),
+    ]);
+    return NextResponse.json(
+      {
+        enabled: getOfflineDownloadSettings(config).enabled,
+        usage,
+        jobs,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('获取离线下载列表失败', err);
+    return NextResponse.json({ error: '获取离线下载列表失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/downloads
+ * body: { source, id, episodes? }，episodes 为集数下标（0 开始），不传时下载整季
+ */
+export async function POST(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const body = await request.json();
+    const source = typeof body.source === 'string' ? body.source : '';
+    const id = typeof body.id === 'string' ? body.id : '';
+    if (!source || !id) {
+      return NextResponse.json({ error: '缺少视频来源或 ID' }, { status: 400 });
+    }
+    const episodes = Array.isArray(body.episodes)
+      ? body.episodes.filter((index: unknown): index is number => typeof index === 'number')
+      : undefined;
+
+    const result = await enqueueOfflineDownloads(username, { source, id, episodes });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('创建离线下载失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '创建离线下载失败' },
+      { status: 400 }
+    );
+  }
+}
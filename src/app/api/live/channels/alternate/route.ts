@@ -0,0 +1,35 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordGoodAlternate } from '@/lib/live-alternates';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/live/channels/alternate
+ * body: { source, channelId, url }，播放器切换到备用地址并播放成功后上报，所有用户共享
+ */
+export async function POST(request: NextRequest) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { source, channelId, url } = body || {};
+    if (typeof source !== 'string' || typeof channelId !== 'string' || typeof url !== 'string') {
+      return NextResponse.json({ error: '参数错误' }, { status: 400 });
+    }
+    await recordGoodAlternate(source, channelId, url);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('记录频道备用地址失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '记录频道备用地址失败' },
+      { status: 400 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getCachedLiveChannels } from '@/lib/live';
+import { getConfig } from '@/lib/config';
+import { getCachedLiveChannels, getChannelUrls } from '@/lib/live';
+import { applyGoodAlternates, getGoodAlternates } from '@/lib/live-alternates';
+import { getDeadChannelUrls, getLiveChannelHealthSettings } from '@/lib/live-health';
 
 export const runtime = 'nodejs';
 
@@ -19,8 +22,32 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: '频道信息未找到' }, { status: 404 });
     }
 
+    // 播放器上报过可用备用地址的频道，把该地址排在最前面
+    let channels = applyGoodAlternates(channelData.channels, await getGoodAlternates(sourceKey));
+
+    // 默认隐藏最近一次批量检测失败的频道，?all=1 时返回全部
+    const config = await getConfig();
+    if (getLiveChannelHealthSettings(config).hideDeadChannels && searchParams.get('all') !== '1') {
+      const deadUrls = await getDeadChannelUrls(sourceKey);
+      const aliveChannels = channels
+        .filter(channel => getChannelUrls(channel).some(url => !deadUrls.has(url)))
+        .map(channel => {
+          // 有备用地址的频道只把失败的地址排到最后
+          if (!channel.alternates?.length || !deadUrls.has(channel.url)) return channel;
+          const [url, ...alternates] = [
+            ...getChannelUrls(channel).filter(u => !deadUrls.has(u)),
+            ...getChannelUrls(channel).filter(u => deadUrls.has(u)),
+          ];
+          return { ...channel, url, alternates };
+        });
+      // 全部失败多半是检测时服务器自身网络异常，此时不做过滤
+      if (aliveChannels.length > 0) {
+        channels = aliveChannels;
+      }
+    }
+
     // 合并EPG logo到频道信息中
-    const channelsWithEpgLogos = channelData.channels.map(channel => {
+    const channelsWithEpgLogos = channels.map(channel => {
       const channelKey = channel.tvgId || channel.name;
       const epgLogo = channelData.epgLogos?.[channelKey];
 
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ProgramSearchSource, searchEpgPrograms } from '@/lib/channel-search';
+import { getConfig } from '@/lib/config';
+import { getCachedLiveChannels } from '@/lib/live';
+import { getDeadChannelUrls, getLiveChannelHealthSettings } from '@/lib/live-health';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_RANGE = 24 * 60 * 60 * 1000; // 默认搜索未来 24 小时
+const MAX_RANGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 在所有启用的直播源节目单中搜索节目
+ * ?q=关键词&from=开始时间戳&to=结束时间戳
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json({ error: '缺少搜索关键词' }, { status: 400 });
+    }
+
+    const now = Date.now();
+    const from = Number(searchParams.get('from')) || now;
+    const to = Number(searchParams.get('to')) || from + DEFAULT_RANGE;
+    if (to <= from) {
+      return NextResponse.json({ error: '时间范围无效' }, { status: 400 });
+    }
+
+    const config = await getConfig();
+    const hideDeadChannels = getLiveChannelHealthSettings(config).hideDeadChannels;
+    const liveSources = (config.LiveConfig || []).filter((source) => !source.disabled);
+
+    const sources: ProgramSearchSource[] = [];
+    for (const liveSource of liveSources) {
+      try {
+        const channelData = await getCachedLiveChannels(liveSource.key);
+        if (!channelData) continue;
+
+        // 与频道列表保持一致，隐藏检测失败的频道
+        let channels = channelData.channels;
+        if (hideDeadChannels) {
+          const deadUrls = await getDeadChannelUrls(liveSource.key);
+          const aliveChannels = channels.filter((channel) => !deadUrls.has(channel.url));
+          if (aliveChannels.length > 0) {
+            channels = aliveChannels;
+          }
+        }
+
+        sources.push({
+          sourceKey: liveSource.key,
+          sourceName: liveSource.name,
+          channels: channels.map((channel) => ({
+            ...channel,
+            logo: channelData.epgLogos?.[channel.tvgId || channel.name] || channel.logo,
+          })),
+          epgs: channelData.epgs,
+        });
+      } catch (error) {
+        // 单个直播源加载失败不影响其他源
+        continue;
+      }
+    }
+
+    const programs = searchEpgPrograms(sources, query, {
+      from,
+      to: Math.min(to, from + MAX_RANGE),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: programs,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: '搜索节目失败' }, { status: 500 });
+  }
+}
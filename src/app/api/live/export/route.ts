@@ -0,0 +1,46 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { buildUserPlaylist, resolveExportUser } from '@/lib/live-export';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/live/export?token=xxx[&format=m3u8][&favorites=1]
+ * 给外部 IPTV 播放器订阅的个人播放列表，需要带 live:read 权限的访问令牌
+ */
+export async function GET(request: NextRequest) {
+  const username = await resolveExportUser(request);
+  if (!username) {
+    return NextResponse.json({ error: '访问令牌无效或缺少直播订阅权限' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const format = searchParams.get('format') === 'm3u8' ? 'm3u8' : 'm3u';
+
+    // 节目单地址沿用同一个令牌，播放器导入播放列表后可自动加载
+    const epgUrl = new URL('/api/live/export/xmltv', request.nextUrl.origin);
+    epgUrl.searchParams.set('token', searchParams.get('token') || '');
+
+    const content = await buildUserPlaylist(username, {
+      epgUrl: searchParams.get('token') ? epgUrl.toString() : undefined,
+      favoritesOnly: searchParams.get('favorites') === '1',
+    });
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': format === 'm3u8'
+          ? 'application/vnd.apple.mpegurl; charset=utf-8'
+          : 'audio/x-mpegurl; charset=utf-8',
+        'Content-Disposition': `inline; filename="live.${format}"`,
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('导出直播播放列表失败:', error);
+    return NextResponse.json({ error: '导出直播播放列表失败' }, { status: 500 });
+  }
+}
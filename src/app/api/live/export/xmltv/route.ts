@@ -0,0 +1,32 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { buildXmltv, resolveExportUser } from '@/lib/live-export';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/live/export/xmltv?token=xxx
+ * 以 XMLTV 格式输出已解析的节目单，与导出播放列表的 tvg-id 对应
+ */
+export async function GET(request: NextRequest) {
+  const username = await resolveExportUser(request);
+  if (!username) {
+    return NextResponse.json({ error: '访问令牌无效或缺少直播订阅权限' }, { status: 401 });
+  }
+
+  try {
+    const content = await buildXmltv();
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('导出节目单失败:', error);
+    return NextResponse.json({ error: '导出节目单失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { normalizeLiveQualityPreference } from '@/lib/live-quality';
+import { LivePreferences } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const MAX_PINNED_GROUPS = 100;
+const MAX_CUSTOM_CHANNELS = 2000;
+
+const EMPTY_PREFERENCES: LivePreferences = {
+  pinnedGroups: [],
+  channelNames: {},
+  channelOrder: [],
+  updatedAt: 0,
+};
+
+function getSessionUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持同步直播偏好' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return authInfo.username;
+}
+
+const toStringList = (value: unknown, limit: number): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && !!item))).slice(0, limit)
+    : [];
+
+/**
+ * GET /api/live/preferences
+ * 当前用户的直播页偏好，未保存过时返回空偏好（updatedAt 为 0）
+ */
+export async function GET(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const preferences = await db.getLivePreferences(username);
+    return NextResponse.json(
+      { preferences: preferences || EMPTY_PREFERENCES },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('获取直播偏好失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/live/preferences
+ * body: { pinnedGroups?, channelNames?, channelOrder?, quality? }，只更新传入的字段
+ */
+export async function POST(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const body = await request.json();
+    const current = (await db.getLivePreferences(username)) || EMPTY_PREFERENCES;
+    const next: LivePreferences = { ...current, updatedAt: Date.now() };
+
+    if (body.pinnedGroups !== undefined) {
+      next.pinnedGroups = toStringList(body.pinnedGroups, MAX_PINNED_GROUPS);
+    }
+    if (body.channelOrder !== undefined) {
+      next.channelOrder = toStringList(body.channelOrder, MAX_CUSTOM_CHANNELS);
+    }
+    if (body.channelNames !== undefined) {
+      if (!body.channelNames || typeof body.channelNames !== 'object' || Array.isArray(body.channelNames)) {
+        return NextResponse.json({ error: '频道名称格式错误' }, { status: 400 });
+      }
+      // 空名称表示恢复默认
+      next.channelNames = Object.fromEntries(
+        Object.entries(body.channelNames as Record<string, unknown>)
+          .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && !!entry[1].trim())
+          .slice(0, MAX_CUSTOM_CHANNELS)
+          .map(([id, name]) => [id, name.trim().slice(0, 100)])
+      );
+    }
+
+    if (body.quality !== undefined) {
+      next.quality = normalizeLiveQualityPreference(body.quality);
+    }
+
+    await db.saveLivePreferences(username, next);
+    return NextResponse.json({ preferences: next });
+  } catch (err) {
+    console.error('保存直播偏好失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+/* eslint-disable @typescript-eslint/no-explicit-any, no-console */
+
+import { createReadStream, promises as fs } from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { getRecordingDir, isRecordingFileName } from '@/lib/live-recording';
+
+export const runtime = 'nodejs';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4',
+};
+
+/**
+ * GET /api/live/recordings/{id}/{file}
+ * 录制文件：index.m3u8 中的分片使用相对地址，直接指向同目录下的文件
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; file: string }> }
+) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, file } = await params;
+  if (!isRecordingFileName(file)) {
+    return NextResponse.json({ error: '文件不存在' }, { status: 404 });
+  }
+
+  try {
+    const recording = await db.getLiveRecording(id);
+    if (!recording || recording.username !== authInfo.username) {
+      return NextResponse.json({ error: '录制不存在' }, { status: 404 });
+    }
+
+    const filePath = path.join(getRecordingDir(recording.id), file);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat) {
+      return NextResponse.json({ error: '文件不存在' }, { status: 404 });
+    }
+
+    const isPlaylist = file.endsWith('.m3u8');
+    return new Response(createReadStream(filePath) as any, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+        'Content-Length': stat.size.toString(),
+        // 录制中的播放列表会持续追加，分片写入后不再变化
+        'Cache-Control': isPlaylist ? 'no-store' : 'private, max-age=86400',
+      },
+    });
+  } catch (err) {
+    console.error('读取录制文件失败', err);
+    return NextResponse.json({ error: '读取录制文件失败' }, { status: 500 });
+  }
+}
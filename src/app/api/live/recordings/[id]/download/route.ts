@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-explicit-any, no-console */
+
+import { createReadStream, promises as fs } from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { getRecordingMediaFiles } from '@/lib/live-recording';
+
+export const runtime = 'nodejs';
+
+// 依次读出所有分片，TS 分片直接拼接即可播放，fMP4 在初始化分片后拼接
+async function* concatFiles(files: string[]) {
+  for (const file of files) {
+    yield* createReadStream(file);
+  }
+}
+
+/**
+ * GET /api/live/recordings/{id}/download
+ * 把录制拼接为单个 .ts / .mp4 文件下载
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const recording = await db.getLiveRecording(id);
+    if (!recording || recording.username !== authInfo.username) {
+      return NextResponse.json({ error: '录制不存在' }, { status: 404 });
+    }
+    if (recording.status === 'recording') {
+      return NextResponse.json({ error: '录制尚未结束' }, { status: 409 });
+    }
+
+    const files = await getRecordingMediaFiles(recording);
+    if (files.length === 0) {
+      return NextResponse.json({ error: '录制文件不存在' }, { status: 404 });
+    }
+    const sizes = await Promise.all(files.map((file) => fs.stat(file).then((stat) => stat.size)));
+    const extension = recording.container === 'mp4' ? 'mp4' : 'ts';
+
+    return new Response(Readable.from(concatFiles(files)) as any, {
+      headers: {
+        'Content-Type': extension === 'mp4' ? 'video/mp4' : 'video/mp2t',
+        'Content-Length': sizes.reduce((sum, size) => sum + size, 0).toString(),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(recording.title)}.${extension}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('下载录制失败', err);
+    return NextResponse.json({ error: '下载录制失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import {
+  canUserRecord,
+  ensureLiveRecordingScheduler,
+  getLiveRecordingSettings,
+  getLiveRecordingUsage,
+  listUserRecordings,
+  removeLiveRecording,
+  scheduleLiveRecording,
+} from '@/lib/live-recording';
+
+export const runtime = 'nodejs';
+
+function getRequestUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持直播录制' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return authInfo.username;
+}
+
+/**
+ * GET /api/live/recordings
+ * 当前用户的录制列表、空间占用，以及是否有录制权限
+ */
+export async function GET(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    ensureLiveRecordingScheduler();
+    const config = await getConfig();
+    const [recordings, usage] = await Promise.all([
+      listUserRecordings(username),
+      getLiveRecordingUsage(username),
+    ]);
+    return NextResponse.json(
+      {
+        canRecord: canUserRecord(config, username),
+        maxDurationMinutes: Math.round(getLiveRecordingSettings(config).maxDurationMs / 60000),
+        usage,
+        recordings,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('获取直播录制列表失败', err);
+    return NextResponse.json({ error: '获取直播录制列表失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/live/recordings
+ * body: { sourceKey, channelId, title?, startAt, endAt }，时间为毫秒时间戳；开始时间已过时立即开始录制
+ */
+export async function POST(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const body = await request.json();
+    const sourceKey = typeof body.sourceKey === 'string' ? body.sourceKey : '';
+    const channelId = typeof body.channelId === 'string' ? body.channelId : '';
+    const startAt = Number(body.startAt);
+    const endAt = Number(body.endAt);
+    if (!sourceKey || !channelId || !Number.isFinite(startAt) || !Number.isFinite(endAt)) {
+      return NextResponse.json({ error: '缺少频道或录制时间' }, { status: 400 });
+    }
+
+    const recording = await scheduleLiveRecording(username, {
+      sourceKey,
+      channelId,
+      title: typeof body.title === 'string' ? body.title : undefined,
+      startAt,
+      endAt,
+    });
+    return NextResponse.json({ recording });
+  } catch (err) {
+    console.error('创建直播录制失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '创建直播录制失败' },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/live/recordings?id=<recordingId>
+ * 取消未开始的录制、停止录制中的任务，或删除已结束的录制及其文件
+ */
+export async function DELETE(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: '缺少录制 ID' }, { status: 400 });
+  }
+
+  try {
+    const result = await removeLiveRecording(username, id);
+    return NextResponse.json({ success: true, result });
+  } catch (err) {
+    console.error('删除直播录制失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '删除直播录制失败' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { db } from '@/lib/db';
+import {
+  createLiveReminder,
+  ensureLiveReminderScheduler,
+  getReminderTelegramBot,
+  listUserReminders,
+  REMINDER_LEAD_MINUTES,
+  removeLiveReminder,
+} from '@/lib/live-reminder';
+
+export const runtime = 'nodejs';
+
+function getRequestUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持节目提醒' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return authInfo.username;
+}
+
+/**
+ * GET /api/live/reminders
+ * 当前用户的节目提醒，以及 Telegram 推送是否可用、是否已绑定
+ */
+export async function GET(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    ensureLiveReminderScheduler();
+    const [config, reminders, preferences] = await Promise.all([
+      getConfig(),
+      listUserReminders(username),
+      db.getLivePreferences(username),
+    ]);
+    return NextResponse.json(
+      {
+        reminders,
+        leadMinutes: REMINDER_LEAD_MINUTES,
+        telegram: {
+          available: !!getReminderTelegramBot(config),
+          bound: !!preferences?.telegramChatId,
+        },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('获取节目提醒失败', err);
+    return NextResponse.json({ error: '获取节目提醒失败' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/live/reminders
+ * body: { sourceKey, channelId, title, startAt, endAt }，时间为毫秒时间戳
+ */
+export async function POST(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const body = await request.json();
+    const sourceKey = typeof body.sourceKey === 'string' ? body.sourceKey : '';
+    const channelId = typeof body.channelId === 'string' ? body.channelId : '';
+    const startAt = Number(body.startAt);
+    const endAt = Number(body.endAt);
+    if (!sourceKey || !channelId || !Number.isFinite(startAt) || !Number.isFinite(endAt)) {
+      return NextResponse.json({ error: '缺少频道或节目时间' }, { status: 400 });
+    }
+
+    const reminder = await createLiveReminder(username, {
+      sourceKey,
+      channelId,
+      title: typeof body.title === 'string' ? body.title : '',
+      startAt,
+      endAt,
+    });
+    return NextResponse.json({ reminder });
+  } catch (err) {
+    console.error('创建节目提醒失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '创建节目提醒失败' },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/live/reminders?id=<reminderId>
+ */
+export async function DELETE(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: '缺少提醒 ID' }, { status: 400 });
+  }
+
+  try {
+    await removeLiveReminder(username, id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('删除节目提醒失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '删除节目提醒失败' },
+      { status: 400 }
+    );
+  }
+}
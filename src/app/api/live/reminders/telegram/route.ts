@@ -0,0 +1,58 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { createTelegramBindLink, unbindTelegramChat } from '@/lib/live-reminder';
+
+export const runtime = 'nodejs';
+
+function getRequestUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持节目提醒' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return authInfo.username;
+}
+
+/**
+ * POST /api/live/reminders/telegram
+ * 生成机器人绑定链接，用户在 Telegram 中点击「开始」后即可接收节目提醒
+ */
+export async function POST(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const url = await createTelegramBindLink(username);
+    return NextResponse.json({ url });
+  } catch (err) {
+    console.error('生成 Telegram 绑定链接失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '生成绑定链接失败' },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/live/reminders/telegram
+ * 解除绑定，不再推送 Telegram 提醒
+ */
+export async function DELETE(request: NextRequest) {
+  const username = getRequestUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    await unbindTelegramChat(username);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('解除 Telegram 绑定失败', err);
+    return NextResponse.json({ error: '解除绑定失败' }, { status: 500 });
+  }
+}
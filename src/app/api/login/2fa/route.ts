@@ -0,0 +1,138 @@
+/* eslint-disable no-console,@typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createUserSession } from '@/lib/session';
+import {
+  consumeLoginChallenge,
+  enableTwoFactor,
+  isLoginChallengeConsumed,
+  readLoginChallenge,
+  recordTwoFactorAttempt,
+  resetTwoFactorAttempts,
+  startTwoFactorSetup,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor';
+
+export const runtime = 'nodejs';
+
+// 生成签名
+async function generateSignature(
+  data: string,
+  secret: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// 生成认证Cookie（与登录接口格式一致）
+async function generateAuthCookie(
+  username: string,
+  role: 'owner' | 'admin' | 'user',
+  sessionId?: string
+): Promise<string> {
+  const authData: any = { role };
+
+  if (process.env.PASSWORD) {
+    authData.username = username;
+    authData.signature = await generateSignature(username, process.env.PASSWORD);
+    authData.timestamp = Date.now();
+    authData.loginTime = Date.now();
+    if (sessionId) {
+      authData.sessionId = sessionId;
+    }
+  }
+
+  return encodeURIComponent(JSON.stringify(authData));
+}
+
+/**
+ * POST /api/login/2fa
+ * 登录第二步：
+ *   { challenge, action: 'setup' }  策略要求但尚未绑定时，获取密钥和二维码链接
+ *   { challenge, code }             提交验证码 / 恢复码（setup 挑战下同时完成绑定）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { challenge: token, action, code } = await req.json();
+    const challenge = typeof token === 'string' ? readLoginChallenge(token) : null;
+    if (!challenge || (await isLoginChallengeConsumed(challenge))) {
+      return NextResponse.json({ error: '验证已过期，请重新登录' }, { status: 401 });
+    }
+
+    if (action === 'setup') {
+      if (challenge.step !== 'setup') {
+        return NextResponse.json({ error: '参数错误' }, { status: 400 });
+      }
+      try {
+        const setup = await startTwoFactorSetup(challenge.username);
+        return NextResponse.json(setup);
+      } catch (err) {
+        // 如已在其他设备完成绑定，提示重新登录走验证流程
+        return NextResponse.json(
+          { error: err instanceof Error ? err.message : '无法开始绑定' },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json({ error: '请输入验证码' }, { status: 400 });
+    }
+    if (!(await recordTwoFactorAttempt(challenge.username))) {
+      return NextResponse.json(
+        { error: '尝试次数过多，请 15 分钟后再试' },
+        { status: 429 }
+      );
+    }
+
+    let recoveryCodes: string[] | undefined;
+    if (challenge.step === 'setup') {
+      try {
+        recoveryCodes = await enableTwoFactor(challenge.username, code);
+      } catch (err) {
+        return NextResponse.json(
+          { error: err instanceof Error ? err.message : '验证码错误' },
+          { status: 401 }
+        );
+      }
+    } else if (!(await verifyTwoFactorCode(challenge.username, code))) {
+      return NextResponse.json({ error: '验证码错误' }, { status: 401 });
+    }
+
+    await consumeLoginChallenge(challenge);
+    await resetTwoFactorAttempts(challenge.username);
+
+    const sessionId = await createUserSession(challenge.username, req, challenge.method);
+    const cookieValue = await generateAuthCookie(
+      challenge.username,
+      challenge.role,
+      sessionId
+    );
+    const expires = new Date();
+    expires.setDate(expires.getDate() + 7); // 7天过期
+
+    const response = NextResponse.json({ ok: true, recoveryCodes });
+    response.cookies.set('user_auth', cookieValue, {
+      path: '/',
+      expires,
+      sameSite: 'lax',
+      httpOnly: false,
+      secure: false,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('双重验证接口异常', error);
+    return NextResponse.json({ error: '服务器错误' }, { status: 500 });
+  }
+}
@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
+import { createUserSession } from '@/lib/session';
+import { createLoginChallenge, getRequiredTwoFactorStep } from '@/lib/two-factor';
 
 export const runtime = 'nodejs';
 
@@ -13,6 +15,8 @@ const STORAGE_TYPE =
     | 'redis'
     | 'upstash'
     | 'kvrocks'
+    | 'sqlite'
+    | 'postgres'
     | undefined) || 'localstorage';
 
 // 生成签名
@@ -47,7 +51,8 @@ async function generateAuthCookie(
   username?: string,
   password?: string,
   role?: 'owner' | 'admin' | 'user',
-  includePassword = false
+  includePassword = false,
+  sessionId?: string
 ): Promise<string> {
   const authData: any = { role: role || 'user' };
 
@@ -63,6 +68,9 @@ async function generateAuthCookie(
     authData.signature = signature;
     authData.timestamp = Date.now(); // 添加时间戳防重放攻击
     authData.loginTime = Date.now(); // 添加登入时间记录
+    if (sessionId) {
+      authData.sessionId = sessionId; // 服务端会话，用于设备管理和远程登出
+    }
   }
 
   return encodeURIComponent(JSON.stringify(authData));
@@ -139,13 +147,29 @@ export async function POST(req: NextRequest) {
       username === process.env.USERNAME &&
       password === process.env.PASSWORD
     ) {
+      // 已启用或策略要求双重验证时，先进入第二步，暂不下发cookie
+      const twoFactorStep = await getRequiredTwoFactorStep(username, 'owner', 'password');
+      if (twoFactorStep) {
+        return NextResponse.json({
+          twoFactor: twoFactorStep,
+          challenge: createLoginChallenge({
+            username,
+            role: 'owner',
+            method: 'password',
+            step: twoFactorStep,
+          }),
+        });
+      }
+
       // 验证成功，设置认证cookie
       const response = NextResponse.json({ ok: true });
+      const sessionId = await createUserSession(username, req, 'password');
       const cookieValue = await generateAuthCookie(
         username,
         password,
         'owner',
-        false
+        false,
+        sessionId
       ); // 数据库模式不包含 password
       const expires = new Date();
       expires.setDate(expires.getDate() + 7); // 7天过期
@@ -180,13 +204,29 @@ export async function POST(req: NextRequest) {
         );
       }
 
+      const role = user?.role || 'user';
+      const twoFactorStep = await getRequiredTwoFactorStep(username, role, 'password');
+      if (twoFactorStep) {
+        return NextResponse.json({
+          twoFactor: twoFactorStep,
+          challenge: createLoginChallenge({
+            username,
+            role,
+            method: 'password',
+            step: twoFactorStep,
+          }),
+        });
+      }
+
       // 验证成功，设置认证cookie
       const response = NextResponse.json({ ok: true });
+      const sessionId = await createUserSession(username, req, 'password');
       const cookieValue = await generateAuthCookie(
         username,
         password,
-        user?.role || 'user',
-        false
+        role,
+        false,
+        sessionId
       );
       const expires = new Date();
       expires.setDate(expires.getDate() + 7); // 7天过期
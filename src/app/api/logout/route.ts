@@ -1,8 +1,23 @@
-import { NextResponse } from 'next/server';
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
 
 export const runtime = 'nodejs';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+  // 删除服务端会话，使该 cookie 即使被复制也无法继续使用
+  const authInfo = getAuthInfoFromCookie(request);
+  if (authInfo?.username && authInfo.sessionId) {
+    try {
+      await db.deleteUserSession(authInfo.username, authInfo.sessionId);
+    } catch (error) {
+      console.warn('删除登录会话失败:', error);
+    }
+  }
+
   const response = NextResponse.json({ ok: true });
 
   // 清除新的认证cookie (user_auth)
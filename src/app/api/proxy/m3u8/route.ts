@@ -3,7 +3,7 @@
 import { NextResponse } from "next/server";
 
 import { getConfig } from "@/lib/config";
-import { getBaseUrl, resolveUrl } from "@/lib/live";
+import { getBaseUrl, getLiveRequestHeaders, getLiveSourceUA, resolveUrl } from "@/lib/live";
 
 export const runtime = 'nodejs';
 
@@ -55,7 +55,7 @@ export async function GET(request: Request) {
     stats.errors++;
     return NextResponse.json({ error: 'Source not found' }, { status: 404 });
   }
-  const ua = liveSource.ua || 'AptvPlayer/1.4.10';
+  const ua = getLiveSourceUA(liveSource);
 
   let response: Response | null = null;
   let responseUsed = false;
@@ -70,15 +70,7 @@ export async function GET(request: Request) {
     const agent = isHttps ? httpsAgent : httpAgent;
 
     // 参考 hls.js fetch-loader，构建标准headers
-    const headers: Record<string, string> = {
-      'User-Agent': ua,
-      'Accept': 'application/vnd.apple.mpegurl, application/x-mpegurl, application/octet-stream, */*',
-      'Accept-Encoding': 'identity', // 避免gzip压缩导致的处理复杂性
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Cache-Control': 'no-cache',
-      'Pragma': 'no-cache',
-      'Connection': 'keep-alive'
-    };
+    const headers = getLiveRequestHeaders(ua, 'playlist');
 
     response = await fetch(decodedUrl, {
       cache: 'no-cache',
@@ -3,6 +3,7 @@
 import { NextResponse } from "next/server";
 
 import { getConfig } from "@/lib/config";
+import { getLiveRequestHeaders, getLiveSourceUA } from "@/lib/live";
 
 export const runtime = 'nodejs';
 
@@ -57,7 +58,7 @@ export async function GET(request: Request) {
     segmentStats.activeStreams--;
     return NextResponse.json({ error: 'Source not found' }, { status: 404 });
   }
-  const ua = liveSource.ua || 'AptvPlayer/1.4.10';
+  const ua = getLiveSourceUA(liveSource);
 
   let response: Response | null = null;
   let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
@@ -71,13 +72,7 @@ export async function GET(request: Request) {
 
     response = await fetch(decodedUrl, {
       signal: controller.signal,
-      headers: {
-        'User-Agent': ua,
-        'Accept': 'video/mp2t, video/*, */*',
-        'Accept-Encoding': 'identity',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
+      headers: getLiveRequestHeaders(ua, 'segment'),
       // eslint-disable-next-line @typescript-eslint/ban-ts-comment
       // @ts-ignore - Node.js specific option
       agent: typeof window === 'undefined' ? agent : undefined,
@@ -0,0 +1,108 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { DEFAULT_AD_FILTER_RULES, normalizeAdFilterRules } from '@/lib/ad-filter';
+import { getConfig } from '@/lib/config';
+import { getBaseDomain, getSiteBaseUrl, getVodPlaylist, NotPlaylistError } from '@/lib/vod-proxy';
+import { buildSignedVodProxyUrl, verifyVodProxySignature } from '@/lib/vod-proxy-sign';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 地址是否与视频源接口同属一个主域名
+function isSourceDomain(url: string, api: string): boolean {
+  try {
+    return getBaseDomain(new URL(url).hostname) === getBaseDomain(new URL(api).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/proxy/vod/{source}/index.m3u8?url=xxx&sig=xxx
+ * 点播 m3u8 代理：解析主播放列表、补全分片和密钥地址、按站点规则去广告
+ * 分片本身不经过代理，直接从源站加载
+ *
+ * 无需登录（TVBox 和投屏设备没有 Cookie），因此只接受本站签名的地址（见 vod-proxy-sign），
+ * 只代理已配置、未禁用且未被健康检测隔离的视频源；
+ * 不是 m3u8 时只跳转到视频源自己域名下的地址，避免被用作任意跳转
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ source: string; filename: string }> }
+) {
+  const { source } = await params;
+  const { searchParams } = new URL(request.url);
+  const url = searchParams.get('url');
+
+  if (!url || !/^https?:\/\//i.test(url)) {
+    return NextResponse.json({ error: '缺少或无效的 url 参数' }, { status: 400 });
+  }
+  if (!verifyVodProxySignature(source, url, searchParams.get('sig'))) {
+    return NextResponse.json(
+      { error: '代理地址签名无效' },
+      { status: 403, headers: { 'Access-Control-Allow-Origin': '*' } }
+    );
+  }
+
+  const config = await getConfig();
+  const sourceConfig = config.SourceConfig.find((s) => s.key === source);
+  if (!sourceConfig || sourceConfig.disabled || sourceConfig.quarantined) {
+    return NextResponse.json(
+      { error: '视频源不存在、已禁用或已隔离' },
+      { status: 404, headers: { 'Access-Control-Allow-Origin': '*' } }
+    );
+  }
+
+  const customRules = normalizeAdFilterRules(config.SiteConfig?.CustomAdFilterRules);
+  const siteBaseUrl = getSiteBaseUrl(request);
+
+  try {
+    const playlist = await getVodPlaylist(url, {
+      source,
+      rules: customRules.length > 0 ? customRules : DEFAULT_AD_FILTER_RULES,
+      rulesVersion: customRules.length > 0 ? config.SiteConfig?.CustomAdFilterVersion : 0,
+      proxyUrl: (playlistUrl) => buildSignedVodProxyUrl(siteBaseUrl, source, playlistUrl),
+    });
+
+    return new Response(playlist.content, {
+      headers: {
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Expose-Headers': 'X-Ad-Removed-Count',
+        'Cache-Control': 'public, max-age=60',
+        'X-Ad-Removed-Count': String(playlist.removedCount),
+      },
+    });
+  } catch (error) {
+    // 不是 m3u8（如 mp4 直链），属于该视频源时交给播放器直接播放原地址
+    if (error instanceof NotPlaylistError) {
+      if (isSourceDomain(error.url, sourceConfig.api)) {
+        return NextResponse.redirect(error.url, 302);
+      }
+      return NextResponse.json(
+        { error: '不是 m3u8 播放列表' },
+        { status: 400, headers: { 'Access-Control-Allow-Origin': '*' } }
+      );
+    }
+    console.error('[VOD Proxy] 获取播放列表失败:', url, error);
+    const isTimeout = error instanceof Error && error.name === 'AbortError';
+    return NextResponse.json(
+      { error: isTimeout ? '请求源站超时' : '获取播放列表失败' },
+      { status: isTimeout ? 504 : 502, headers: { 'Access-Control-Allow-Origin': '*' } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Range',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { clearConfigCache, getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
+import { createUserSession } from '@/lib/session';
 
 export const runtime = 'nodejs';
 
@@ -13,6 +14,8 @@ const STORAGE_TYPE =
     | 'redis'
     | 'upstash'
     | 'kvrocks'
+    | 'sqlite'
+    | 'postgres'
     | undefined) || 'localstorage';
 
 // 生成签名
@@ -47,7 +50,8 @@ async function generateAuthCookie(
   username?: string,
   password?: string,
   role?: 'owner' | 'admin' | 'user',
-  includePassword = false
+  includePassword = false,
+  sessionId?: string
 ): Promise<string> {
   const authData: any = { role: role || 'user' };
 
@@ -62,6 +66,9 @@ async function generateAuthCookie(
     const signature = await generateSignature(username, process.env.PASSWORD);
     authData.signature = signature;
     authData.timestamp = Date.now(); // 添加时间戳防重放攻击
+    if (sessionId) {
+      authData.sessionId = sessionId;
+    }
   }
 
   return encodeURIComponent(JSON.stringify(authData));
@@ -177,11 +184,13 @@ export async function POST(req: NextRequest) {
         needDelay: storageType === 'upstash' // Upstash 需要延迟等待数据同步
       });
       
+      const sessionId = await createUserSession(username, req, 'register');
       const cookieValue = await generateAuthCookie(
         username,
         password,
         'user',
-        false
+        false,
+        sessionId
       );
       const expires = new Date();
       expires.setDate(expires.getDate() + 7); // 7天过期
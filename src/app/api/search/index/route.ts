@@ -0,0 +1,59 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getAvailableApiSites, getConfig } from '@/lib/config';
+import { querySearchIndex } from '@/lib/search-index';
+import { yellowWords } from '@/lib/yellow';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 本地搜索索引查询（即时返回，不请求上游源）
+ * 参数：q 关键词（支持拼音 / 首字母），可选 year、type（movie|tv）、area、limit
+ */
+export async function GET(request: NextRequest) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q')?.trim();
+  if (!query) {
+    return NextResponse.json({ results: [] });
+  }
+
+  const type = searchParams.get('type');
+  const limit = parseInt(searchParams.get('limit') || '', 10);
+
+  try {
+    const config = await getConfig();
+    const apiSites = await getAvailableApiSites(authInfo.username);
+    const hits = await querySearchIndex(query, {
+      sources: apiSites.map((site) => site.key),
+      year: searchParams.get('year') || undefined,
+      type: type === 'movie' || type === 'tv' ? type : undefined,
+      area: searchParams.get('area') || undefined,
+      requireEpisodes: true,
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, 100) : undefined,
+    });
+
+    const results = hits
+      .map((hit) => hit.result)
+      .filter((result) =>
+        config.SiteConfig.DisableYellowFilter ||
+        !yellowWords.some((word: string) => (result.type_name || '').includes(word))
+      );
+
+    return NextResponse.json(
+      { results },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    console.error('查询本地搜索索引失败:', error);
+    return NextResponse.json({ error: '查询本地搜索索引失败' }, { status: 500 });
+  }
+}
@@ -6,7 +6,10 @@ import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getAvailableApiSites, getCacheTime, getConfig } from '@/lib/config';
 import { searchFromApi } from '@/lib/downstream';
 import { generateSearchVariants } from '@/lib/downstream';
+import { getUserRegion } from '@/lib/networkDetection';
 import { recordRequest, getDbQueryCount, resetDbQueryCount } from '@/lib/performance-monitor';
+import { resolvePinyinTitles } from '@/lib/search-index';
+import { getEffectiveSourceWeights } from '@/lib/source-weights';
 import { yellowWords } from '@/lib/yellow';
 
 export const runtime = 'nodejs';
@@ -74,7 +77,12 @@ export async function GET(request: NextRequest) {
   const apiSites = await getAvailableApiSites(authInfo.username);
 
   // 优化：预计算搜索变体，智能生成（普通查询1个，需要变体的2个）
-  const searchVariants = generateSearchVariants(query);
+  // 拼音 / 首字母输入先通过本地索引映射为真实标题
+  const pinyinTitles = await resolvePinyinTitles(
+    query,
+    apiSites.map((site) => site.key)
+  ).catch(() => []);
+  const searchVariants = generateSearchVariants(query, pinyinTitles);
 
   // 获取所有启用的 Emby 源
   const { embyManager } = await import('@/lib/emby-manager');
@@ -152,6 +160,11 @@ export async function GET(request: NextRequest) {
         return !yellowWords.some((word: string) => typeName.includes(word));
       });
     }
+    // 按有效权重排序（稳定排序，同权重保持源的原有顺序；Emby 等无权重来源按默认 50 处理）
+    const weights = await getEffectiveSourceWeights(config, getUserRegion(request));
+    flattenedResults.sort(
+      (a, b) => (weights[b.source] ?? 50) - (weights[a.source] ?? 50)
+    );
     const cacheTime = await getCacheTime();
 
     if (flattenedResults.length === 0) {
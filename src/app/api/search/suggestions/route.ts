@@ -5,7 +5,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { AdminConfig } from '@/lib/admin.types';
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getAvailableApiSites, getConfig } from '@/lib/config';
-import { searchFromApi } from '@/lib/downstream';
+import { generateSearchVariants, searchFromApi } from '@/lib/downstream';
+import { getSearchIndexSuggestions, SearchIndexMatch } from '@/lib/search-index';
 import { yellowWords } from '@/lib/yellow';
 
 export const runtime = 'nodejs';
@@ -50,6 +51,18 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// 本地索引匹配方式对应的建议类型和分数（与实时建议的分数区间一致）
+const INDEX_MATCH_SCORES: Record<
+  SearchIndexMatch,
+  { type: 'exact' | 'related' | 'suggestion'; score: number }
+> = {
+  exact: { type: 'exact', score: 2.0 },
+  prefix: { type: 'related', score: 1.8 },
+  contains: { type: 'related', score: 1.5 },
+  pinyin: { type: 'related', score: 1.5 },
+  fuzzy: { type: 'suggestion', score: 1.0 },
+};
+
 async function generateSuggestions(config: AdminConfig, query: string, username: string): Promise<
   Array<{
     text: string;
@@ -60,6 +73,33 @@ async function generateSuggestions(config: AdminConfig, query: string, username:
   const queryLower = query.toLowerCase();
 
   const apiSites = await getAvailableApiSites(username);
+
+  // 优先使用本地索引即时返回，同时在后台执行一次实时搜索补充索引
+  const indexSuggestions = await getSearchIndexSuggestions(
+    query,
+    apiSites.map((site) => site.key),
+    (result) =>
+      config.SiteConfig.DisableYellowFilter ||
+      !yellowWords.some((word: string) => (result.type_name || '').includes(word))
+  ).catch(() => []);
+  if (indexSuggestions.length > 0) {
+    if (apiSites.length > 0) {
+      // 拼音输入用命中的真实标题刷新，上游源不认识拼音
+      const pinyinTitles = indexSuggestions
+        .filter((suggestion) => suggestion.match === 'pinyin')
+        .map((suggestion) => suggestion.text);
+      searchFromApi(
+        apiSites[0],
+        query,
+        generateSearchVariants(query, pinyinTitles)
+      ).catch(() => undefined);
+    }
+    return indexSuggestions.map(({ text, match }) => {
+      const { type, score } = INDEX_MATCH_SCORES[match];
+      return { text, type, score };
+    });
+  }
+
   let realKeywords: string[] = [];
 
   if (apiSites.length > 0) {
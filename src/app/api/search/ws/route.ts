@@ -4,11 +4,15 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getAvailableApiSites, getConfig } from '@/lib/config';
-import { searchFromApi } from '@/lib/downstream';
+import { generateSearchVariants, searchFromApi } from '@/lib/downstream';
+import { querySearchIndex, resolvePinyinTitles } from '@/lib/search-index';
 import { yellowWords } from '@/lib/yellow';
 
 export const runtime = 'nodejs';
 
+// 本地索引先行返回的结果数量
+const INDEX_RESULT_LIMIT = 30;
+
 export async function GET(request: NextRequest) {
   const authInfo = getAuthInfoFromCookie(request);
   if (!authInfo || !authInfo.username) {
@@ -70,6 +74,40 @@ export async function GET(request: NextRequest) {
         return; // 连接已关闭，提前退出
       }
 
+      // 先返回本地索引中的结果，实时搜索结果到达后由前端按源替换
+      try {
+        const indexHits = await querySearchIndex(query, {
+          sources: apiSites.map((site) => site.key),
+          requireEpisodes: true,
+          limit: INDEX_RESULT_LIMIT,
+        });
+        const indexResults = indexHits
+          .map((hit) => hit.result)
+          .filter((result) =>
+            config.SiteConfig.DisableYellowFilter ||
+            !yellowWords.some((word: string) => (result.type_name || '').includes(word))
+          );
+        if (indexResults.length > 0) {
+          const indexEvent = `data: ${JSON.stringify({
+            type: 'index_result',
+            results: indexResults,
+            timestamp: Date.now()
+          })}\n\n`;
+          if (!safeEnqueue(encoder.encode(indexEvent))) {
+            return;
+          }
+        }
+      } catch (error) {
+        console.warn('查询本地搜索索引失败:', error);
+      }
+
+      // 拼音 / 首字母输入映射为真实标题后再请求各个源
+      const pinyinTitles = await resolvePinyinTitles(
+        query,
+        apiSites.map((site) => site.key)
+      ).catch(() => []);
+      const searchVariants = generateSearchVariants(query, pinyinTitles);
+
       // 记录已完成的源数量
       let completedSources = 0;
       const allResults: any[] = [];
@@ -79,7 +117,7 @@ export async function GET(request: NextRequest) {
         try {
           // 添加超时控制
           const searchPromise = Promise.race([
-            searchFromApi(site, query),
+            searchFromApi(site, query, searchVariants),
             new Promise((_, reject) =>
               setTimeout(() => reject(new Error(`${site.name} timeout`)), 20000)
             ),
@@ -3,6 +3,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getConfig } from '@/lib/config';
+import { getTwoFactorPolicy } from '@/lib/two-factor';
 import { CURRENT_VERSION } from '@/lib/version'
 
 export const runtime = 'nodejs';
@@ -20,7 +21,12 @@ export async function GET(request: NextRequest) {
   // 内部请求：只返回特定配置
   if (isInternalRequest && requestedKey === 'TrustedNetworkConfig') {
     return NextResponse.json({
-      TrustedNetworkConfig: config.TrustedNetworkConfig || null,
+      TrustedNetworkConfig: config.TrustedNetworkConfig
+        ? {
+          ...config.TrustedNetworkConfig,
+          requireTwoFactor: !getTwoFactorPolicy(config).trustedNetworkBypass,
+        }
+        : null,
     });
   }
 
@@ -29,6 +35,10 @@ export async function GET(request: NextRequest) {
     StorageType: process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage',
     Version: CURRENT_VERSION,
     DownloadEnabled: config.DownloadConfig?.enabled ?? true,
+    ServerDownloadEnabled:
+      (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') !== 'localstorage' &&
+      (config.DownloadConfig?.enabled ?? true) &&
+      (config.DownloadConfig?.serverEnabled ?? false),
   };
 
   // 添加 Telegram 登录配置（仅公开必要信息）
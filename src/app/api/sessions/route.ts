@@ -0,0 +1,89 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { listUserSessions, toPublicUserSession } from '@/lib/session';
+
+export const runtime = 'nodejs';
+
+function clearAuthCookie(response: NextResponse) {
+  response.cookies.set('user_auth', '', {
+    path: '/',
+    expires: new Date(0),
+    sameSite: 'lax',
+    httpOnly: false,
+    secure: false,
+  });
+}
+
+function getSessionAuth(
+  request: NextRequest
+): { username: string; sessionId?: string } | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持设备管理' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (authInfo.apiTokenId) {
+    return NextResponse.json({ error: '不能使用访问令牌管理登录设备' }, { status: 403 });
+  }
+  return { username: authInfo.username, sessionId: authInfo.sessionId };
+}
+
+/**
+ * GET /api/sessions
+ * 列出当前用户已登录的设备
+ */
+export async function GET(request: NextRequest) {
+  const auth = getSessionAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const sessions = await listUserSessions(auth.username);
+    return NextResponse.json({
+      sessions: sessions.map((s) => toPublicUserSession(s, auth.sessionId)),
+    });
+  } catch (err) {
+    console.error('获取登录设备失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/sessions?id=xxx   登出指定设备
+ * DELETE /api/sessions?all=1    登出所有设备（包括当前设备）
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = getSessionAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+  const all = searchParams.get('all') === '1';
+  if (!id && !all) {
+    return NextResponse.json({ error: '缺少会话 ID' }, { status: 400 });
+  }
+
+  try {
+    if (all) {
+      await db.deleteAllUserSessions(auth.username);
+    } else if (id) {
+      await db.deleteUserSession(auth.username, id);
+    }
+
+    const response = NextResponse.json({ ok: true });
+    if (all || id === auth.sessionId) {
+      clearAuthCookie(response);
+    }
+    return response;
+  } catch (err) {
+    console.error('登出设备失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { checkUserSession, isValidAuthSignature } from '@/lib/session';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/sessions/verify
+ * 供 middleware 校验登录会话是否被撤销（middleware 运行在 Edge，无法直接访问存储）
+ * body: { username, signature, sessionId?, ip, userAgent }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { username, signature, sessionId, ip, userAgent } = await request.json();
+    if (
+      typeof username !== 'string' ||
+      typeof signature !== 'string' ||
+      !isValidAuthSignature(username, signature)
+    ) {
+      return NextResponse.json({ valid: false }, { status: 401 });
+    }
+
+    const valid = await checkUserSession({
+      username,
+      sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+      ip: typeof ip === 'string' ? ip : '',
+      userAgent: typeof userAgent === 'string' ? userAgent : '',
+    });
+    return NextResponse.json({ valid }, { status: valid ? 200 : 401 });
+  } catch (err) {
+    console.error('校验登录会话失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -146,7 +146,7 @@ async function getShortDramaListInternal(
 
     // 筛选出所有启用的短剧源
     const shortDramaSources = config.SourceConfig.filter(
-      source => source.type === 'shortdrama' && !source.disabled
+      source => source.type === 'shortdrama' && !source.disabled && !source.quarantined
     );
 
     // 如果没有配置短剧源，使用默认源
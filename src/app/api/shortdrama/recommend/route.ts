@@ -129,7 +129,7 @@ async function getRecommendedShortDramasInternal(
 
     // 筛选出所有启用的短剧源
     const shortDramaSources = config.SourceConfig.filter(
-      source => source.type === 'shortdrama' && !source.disabled
+      source => source.type === 'shortdrama' && !source.disabled && !source.quarantined
     );
 
     console.log(`📺 找到 ${shortDramaSources.length} 个配置的短剧源`);
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { API_CONFIG, getAvailableApiSites } from '@/lib/config';
 import { recordRequest, getDbQueryCount, resetDbQueryCount } from '@/lib/performance-monitor';
+import { indexSearchResults } from '@/lib/search-index';
 
 export const runtime = 'nodejs';
 
@@ -118,6 +119,7 @@ export async function GET(request: NextRequest) {
       vod_year?: string;
       year?: string;
       type_name?: string;
+      vod_area?: string;
       vod_remarks?: string;
       remarks?: string;
     };
@@ -144,10 +146,22 @@ export async function GET(request: NextRequest) {
         poster: String(r.vod_pic ?? r.pic ?? ''),
         year: String(r.vod_year ?? r.year ?? ''),
         type_name: String(r.type_name ?? ''),
+        area: String(r.vod_area ?? ''),
         remarks: String(r.vod_remarks ?? r.remarks ?? ''),
       }))
       .filter((r) => r.id && r.title);
 
+    // 浏览到的条目收录到本地搜索索引（没有剧集列表，仅用于建议和后续搜索补全）
+    indexSearchResults(
+      items.map((item) => ({
+        ...item,
+        episodes: [],
+        episodes_titles: [],
+        source: source.key,
+        source_name: source.name,
+      }))
+    ).catch((err) => console.error('更新本地搜索索引失败:', err));
+
     const meta = {
       page: Number(data.page ?? page),
       pagecount: Number(data.pagecount ?? data.pageCount ?? 1),
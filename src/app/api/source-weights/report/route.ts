@@ -0,0 +1,61 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { getUserRegion } from '@/lib/networkDetection';
+import {
+  getAdaptiveWeightSettings,
+  normalizePlaybackOutcome,
+  recordPlaybackOutcome,
+} from '@/lib/source-weights';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/source-weights/report
+ * 播放器上报一次播放结果，只记录源和播放指标，不记录用户
+ * body: { source, ttffMs, stalls, fatal, switched }
+ * 页面关闭时通过 navigator.sendBeacon 发送，Content-Type 可能是 text/plain
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    const outcome = normalizePlaybackOutcome(body);
+    if (!outcome) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    const config = await getConfig();
+    // 只统计配置中的视频源（Emby、网盘等来源没有权重）
+    if (
+      !getAdaptiveWeightSettings(config).enabled ||
+      !config.SourceConfig.some((s) => s.key === outcome.source)
+    ) {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    await recordPlaybackOutcome(outcome, getUserRegion(request));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('记录播放结果失败:', error);
+    return NextResponse.json({ error: '记录播放结果失败' }, { status: 500 });
+  }
+}
@@ -4,13 +4,15 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getConfig } from '@/lib/config';
+import { getUserRegion } from '@/lib/networkDetection';
+import { getEffectiveSourceWeights } from '@/lib/source-weights';
 
 export const runtime = 'nodejs';
 
 /**
  * 获取源权重映射
  * 返回格式: { [sourceKey]: weight }
- * 用于播放页在优选时按权重排序源
+ * 用于播放页在优选时按权重排序源，权重已混合播放效果统计（见 /api/source-weights/report）
  */
 export async function GET(request: NextRequest) {
   const authInfo = getAuthInfoFromCookie(request);
@@ -21,20 +23,14 @@ export async function GET(request: NextRequest) {
   try {
     const config = await getConfig();
 
-    // 构建源权重映射
-    const weights: Record<string, number> = {};
-    for (const source of config.SourceConfig) {
-      if (!source.disabled) {
-        weights[source.key] = source.weight ?? 50; // 默认权重 50
-      }
-    }
+    const weights = await getEffectiveSourceWeights(config, getUserRegion(request));
 
     return NextResponse.json(
       { weights },
       {
         headers: {
-          // 缓存 5 分钟，权重配置不会频繁变化
-          'Cache-Control': 'public, max-age=300, s-maxage=300',
+          // 缓存 5 分钟；按地区统计时结果因用户网络而异，不能走共享缓存
+          'Cache-Control': 'private, max-age=300',
         },
       }
     );
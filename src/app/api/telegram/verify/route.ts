@@ -3,7 +3,9 @@ import crypto from 'crypto';
 
 import { getTelegramToken, verifyAndConsumeTelegramToken } from '@/lib/telegram-tokens';
 import { db } from '@/lib/db';
+import { createUserSession } from '@/lib/session';
 import { clearConfigCache, getConfig } from '@/lib/config';
+import { createLoginChallenge, getRequiredTwoFactorStep } from '@/lib/two-factor';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -261,6 +263,42 @@ export async function GET(request: Request) {
       }
     }
 
+    // 已启用或策略要求双重验证时，跳转登录页完成第二步，不直接下发登录态
+    const latestConfig = await getConfig();
+    const userRole =
+      username === process.env.USERNAME
+        ? 'owner'
+        : latestConfig.UserConfig.Users.find((u) => u.username === username)?.role || 'user';
+    const twoFactorStep = await getRequiredTwoFactorStep(username, userRole, 'telegram');
+    if (twoFactorStep) {
+      console.log(`[Verify ${requestId}] Two-factor required, redirecting to login page:`, twoFactorStep);
+      const challenge = createLoginChallenge({
+        username,
+        role: userRole,
+        method: 'telegram',
+        step: twoFactorStep,
+      });
+      const loginUrl = `/login?twofa=${encodeURIComponent(challenge)}&step=${twoFactorStep}`;
+      return new NextResponse(
+        `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>双重验证</title>
+</head>
+<body>
+  <script>
+    window.location.replace(${JSON.stringify(loginUrl)});
+  </script>
+</body>
+</html>`,
+        {
+          status: 200,
+          headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        }
+      );
+    }
+
     // 准备认证数据
     console.log(`[Verify ${requestId}] Preparing auth data for user:`, username);
     console.log(`[Verify ${requestId}] PASSWORD env:`, process.env.PASSWORD ? 'SET' : 'NOT SET');
@@ -273,6 +311,10 @@ export async function GET(request: Request) {
       authData.signature = signature;
       authData.timestamp = Date.now();
       authData.loginTime = Date.now();
+      const sessionId = await createUserSession(username, request, 'telegram');
+      if (sessionId) {
+        authData.sessionId = sessionId;
+      }
     }
     const authDataString = JSON.stringify(authData);
     console.log(`[Verify ${requestId}] Auth data string length:`, authDataString.length);
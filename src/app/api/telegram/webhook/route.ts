@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 
 import { getTelegramToken, deleteTelegramToken } from '@/lib/telegram-tokens';
 import { db } from '@/lib/db';
+import { bindTelegramChat, isTelegramBindPayload } from '@/lib/live-reminder';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -24,6 +25,23 @@ export async function POST(request: Request) {
     // 自动设置 webhook 到当前域名（如果不匹配）
     await autoSetWebhook(request, telegramConfig.botToken);
 
+    // 处理节目提醒绑定：/start remind_<token>
+    const startPayload = update.message?.text?.startsWith('/start ')
+      ? update.message.text.split(' ')[1] || ''
+      : '';
+    if (isTelegramBindPayload(startPayload)) {
+      const chatId = update.message.chat.id;
+      const username = await bindTelegramChat(startPayload, chatId);
+      await sendTelegramMessage(
+        telegramConfig.botToken,
+        chatId,
+        username
+          ? '🔔 绑定成功，节目开始前会在这里提醒你。'
+          : '❌ 绑定链接已过期或无效，请返回网站重新操作。'
+      );
+      return NextResponse.json({ ok: true });
+    }
+
     // 处理 /start 命令
     if (update.message?.text?.startsWith('/start ')) {
       const chatId = update.message.chat.id;
@@ -0,0 +1,113 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  API_TOKEN_SCOPES,
+  createApiToken,
+  toPublicApiToken,
+} from '@/lib/api-token';
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { ApiTokenScope } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+// 令牌管理只允许浏览器会话操作，防止令牌自我续期或提权
+function getSessionUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持访问令牌' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (authInfo.apiTokenId) {
+    return NextResponse.json({ error: '不能使用访问令牌管理令牌' }, { status: 403 });
+  }
+  return authInfo.username;
+}
+
+/**
+ * GET /api/tokens
+ * 列出当前用户的访问令牌（不含明文和哈希）
+ */
+export async function GET(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const tokens = await db.getApiTokens(username);
+    return NextResponse.json({ tokens: tokens.map(toPublicApiToken) });
+  } catch (err) {
+    console.error('获取访问令牌失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tokens
+ * body: { name, scopes, expiresInDays? }，明文令牌只在此处返回一次
+ */
+export async function POST(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 50) {
+      return NextResponse.json({ error: '令牌名称不能为空且不超过50个字符' }, { status: 400 });
+    }
+
+    const scopes: ApiTokenScope[] = Array.isArray(body.scopes)
+      ? body.scopes.filter((s: unknown): s is ApiTokenScope =>
+        API_TOKEN_SCOPES.includes(s as ApiTokenScope)
+      )
+      : [];
+    if (scopes.length === 0) {
+      return NextResponse.json({ error: '请至少选择一个权限范围' }, { status: 400 });
+    }
+
+    let expiresInDays: number | null = null;
+    if (body.expiresInDays !== undefined && body.expiresInDays !== null) {
+      expiresInDays = Number(body.expiresInDays);
+      if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 3650) {
+        return NextResponse.json({ error: '有效期必须为 1-3650 天' }, { status: 400 });
+      }
+    }
+
+    const { token, record } = await createApiToken(username, { name, scopes, expiresInDays });
+    return NextResponse.json({ token, record: toPublicApiToken(record) });
+  } catch (err) {
+    console.error('创建访问令牌失败', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : '创建访问令牌失败' },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tokens?id=<tokenId>
+ * 撤销指定令牌
+ */
+export async function DELETE(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: '缺少令牌 ID' }, { status: 400 });
+  }
+
+  try {
+    await db.deleteApiToken(username, id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('撤销访问令牌失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
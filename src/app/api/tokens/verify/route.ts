@@ -0,0 +1,29 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { verifyApiToken } from '@/lib/api-token';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/tokens/verify
+ * 供 middleware 校验 Bearer 令牌（middleware 运行在 Edge，无法直接访问存储）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: '缺少令牌' }, { status: 400 });
+    }
+
+    const result = await verifyApiToken(token);
+    if (!result) {
+      return NextResponse.json({ error: '访问令牌无效或已过期' }, { status: 401 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('校验访问令牌失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
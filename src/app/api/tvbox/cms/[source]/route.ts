@@ -0,0 +1,114 @@
+/* eslint-disable no-console,@typescript-eslint/no-explicit-any */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { applyVideoProxy, getConfig } from '@/lib/config';
+import { filterTVBoxSources, isTVBoxTokenAllowed, resolveTVBoxUser } from '@/lib/tvbox-access';
+import { DEFAULT_USER_AGENT } from '@/lib/user-agent';
+import { getSiteBaseUrl, rewriteVodPlayUrl } from '@/lib/vod-proxy';
+import { buildSignedVodProxyUrl } from '@/lib/vod-proxy-sign';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FETCH_TIMEOUT = 15000;
+
+/**
+ * GET /api/tvbox/cms/{source}?ac=detail&...
+ * TVBox 订阅中苹果 CMS JSON 站点的转发接口：
+ * 参数（token、filter 除外）原样转发给视频源，返回的 vod_play_url 中的 m3u8 地址改为经过点播去广告代理，
+ * 使 TVBox 浏览 → 详情 → 播放的完整流程都能去广告
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ source: string }> }
+) {
+  const { source } = await params;
+  const { searchParams } = new URL(request.url);
+  const config = await getConfig();
+
+  // 与订阅接口一致：开启 Token 验证时需要全局 Token 或用户专属 Token
+  const token = searchParams.get('token');
+  const user = resolveTVBoxUser(config, token);
+  if (!isTVBoxTokenAllowed(config, token, user)) {
+    return NextResponse.json({ code: 401, msg: '无效的访问token', list: [] }, { status: 401 });
+  }
+
+  const sourceConfig = config.SourceConfig.find((s) => s.key === source);
+  if (!sourceConfig || sourceConfig.disabled || !sourceConfig.api) {
+    return NextResponse.json({ code: 404, msg: '视频源不存在或已禁用', list: [] }, { status: 404 });
+  }
+  // 与订阅接口一致的成人内容过滤和用户源限制，订阅中看不到的源也不能直接访问
+  const filterAdult = searchParams.get('filter') !== 'off';
+  if (filterTVBoxSources([sourceConfig], config, user, filterAdult).length === 0) {
+    return NextResponse.json({ code: 403, msg: '无权访问该视频源', list: [] }, { status: 403 });
+  }
+
+  // detail 中的 JSON 扩展配置可以覆盖接口地址（与订阅接口一致）
+  let api = sourceConfig.api;
+  try {
+    const ext = JSON.parse(sourceConfig.detail || '');
+    if (typeof ext?.api === 'string' && ext.api) api = ext.api;
+  } catch {
+    // detail 不是 JSON
+  }
+
+  // 服务器端请求视频源时与站内搜索一样使用视频代理配置
+  const [site] = applyVideoProxy([{ key: sourceConfig.key, name: sourceConfig.name, api }], config);
+  let upstream: URL;
+  try {
+    upstream = new URL(site.api);
+  } catch {
+    return NextResponse.json({ code: 400, msg: '视频源接口地址无效', list: [] }, { status: 400 });
+  }
+  searchParams.forEach((value, key) => {
+    if (key !== 'token' && key !== 'filter') upstream.searchParams.set(key, value);
+  });
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const response = await fetch(upstream.toString(), {
+      signal: controller.signal,
+      headers: { 'User-Agent': DEFAULT_USER_AGENT, Accept: 'application/json, text/plain, */*' },
+    });
+    if (!response.ok) {
+      return NextResponse.json({ code: response.status, msg: '视频源请求失败', list: [] }, { status: 502 });
+    }
+
+    const text = (await response.text()).replace(/^\uFEFF/, '');
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // 非 JSON（如 XML 接口）原样返回
+      return new Response(text, {
+        headers: { 'Content-Type': response.headers.get('Content-Type') || 'text/plain; charset=utf-8' },
+      });
+    }
+
+    if (Array.isArray(data?.list)) {
+      const siteBaseUrl = getSiteBaseUrl(request);
+      data.list.forEach((item: any) => {
+        if (typeof item?.vod_play_url === 'string' && item.vod_play_url) {
+          item.vod_play_url = rewriteVodPlayUrl(item.vod_play_url, (url) =>
+            buildSignedVodProxyUrl(siteBaseUrl, sourceConfig.key, url)
+          );
+        }
+      });
+    }
+
+    return NextResponse.json(data, {
+      headers: { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'public, max-age=60' },
+    });
+  } catch (error) {
+    const isTimeout = error instanceof Error && error.name === 'AbortError';
+    console.error('[TVBox CMS] 请求视频源失败:', sourceConfig.key, error);
+    return NextResponse.json(
+      { code: isTimeout ? 504 : 502, msg: isTimeout ? '请求视频源超时' : '请求视频源失败', list: [] },
+      { status: isTimeout ? 504 : 502 }
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -5,6 +5,12 @@ import { getSpiderJarFromBlob, uploadSpiderJarToBlob } from '@/lib/blobStorage';
 import { getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
 import { getSpiderJar, getCandidates } from '@/lib/spiderJar';
+import {
+  filterTVBoxSources,
+  isTVBoxTokenAllowed,
+  resolveTVBoxAdultAccess,
+  resolveTVBoxUser,
+} from '@/lib/tvbox-access';
 import { DEFAULT_USER_AGENT } from '@/lib/user-agent';
 
 // Helper function to get base URL with SITE_BASE env support
@@ -185,32 +191,18 @@ export async function GET(request: NextRequest) {
     const securityConfig = config.TVBoxSecurityConfig;
     const proxyConfig = config.TVBoxProxyConfig; // 🔑 读取代理配置
 
-    // 🔑 新增：基于用户 Token 的身份识别
-    let currentUser: { username: string; tvboxEnabledSources?: string[]; showAdultContent?: boolean } | null = null;
-
-    // 优先尝试用户专属 Token（支持用户级源限制）
-    if (token) {
-      const user = config.UserConfig.Users.find(u => u.tvboxToken === token);
-      if (user) {
-        currentUser = {
-          username: user.username,
-          tvboxEnabledSources: user.tvboxEnabledSources,
-          showAdultContent: user.showAdultContent
-        };
-        console.log(`[TVBox] 识别到用户 ${user.username}，源限制:`, user.tvboxEnabledSources || '无限制');
-      }
+    // 🔑 新增：基于用户 Token 的身份识别（优先尝试用户专属 Token，支持用户级源限制）
+    const currentUser = resolveTVBoxUser(config, token);
+    if (currentUser) {
+      console.log(`[TVBox] 识别到用户 ${currentUser.username}，源限制:`, currentUser.tvboxEnabledSources || '无限制');
     }
 
-    // Token验证（兼容旧的全局 Token 模式）
-    if (securityConfig?.enableAuth) {
-      const validToken = securityConfig.token;
-      // 如果不是用户专属 Token，则必须是全局 Token
-      if (!currentUser && (!token || token !== validToken)) {
-        return NextResponse.json({
-          error: 'Invalid token. Please add ?token=YOUR_TOKEN to the URL',
-          hint: '请在URL中添加 ?token=你的密钥 参数'
-        }, { status: 401 });
-      }
+    // Token验证（兼容旧的全局 Token 模式）：如果不是用户专属 Token，则必须是全局 Token
+    if (!isTVBoxTokenAllowed(config, token, currentUser)) {
+      return NextResponse.json({
+        error: 'Invalid token. Please add ?token=YOUR_TOKEN to the URL',
+        hint: '请在URL中添加 ?token=你的密钥 参数'
+      }, { status: 401 });
     }
     
     // IP白名单检查（从数据库配置读取）
@@ -308,54 +300,18 @@ export async function GET(request: NextRequest) {
     // 🔑 成人内容过滤：确定成人内容显示权限，优先级：用户 > 用户组 > 全局
     // 🛡️ 纵深防御第一层：filter 参数控制（默认启用过滤，只有显式传 filter=off 才关闭）
     const shouldFilterAdult = filterParam !== 'off'; // 默认启用过滤
-    let showAdultContent = config.SiteConfig.ShowAdultContent;
-
-    if (currentUser) {
-      // 用户级别优先
-      if (currentUser.showAdultContent !== undefined) {
-        showAdultContent = currentUser.showAdultContent;
-      }
-      // 如果用户没有设置，检查用户组设置
-      else {
-        const user = config.UserConfig.Users.find(u => u.username === currentUser!.username);
-        if (user?.tags && user.tags.length > 0 && config.UserConfig.Tags) {
-          // 如果用户有多个用户组，只要有一个用户组允许就允许（取并集）
-          const hasAnyTagAllowAdult = user.tags.some(tagName => {
-            const tagConfig = config.UserConfig.Tags?.find(t => t.name === tagName);
-            return tagConfig?.showAdultContent === true;
-          });
-          if (hasAnyTagAllowAdult) {
-            showAdultContent = true;
-          } else {
-            // 检查是否有任何用户组明确禁止
-            const hasAnyTagDenyAdult = user.tags.some(tagName => {
-              const tagConfig = config.UserConfig.Tags?.find(t => t.name === tagName);
-              return tagConfig?.showAdultContent === false;
-            });
-            if (hasAnyTagDenyAdult) {
-              showAdultContent = false;
-            }
-          }
-        }
-      }
-    }
-
-    // 应用过滤逻辑：filter 参数和用户权限都要满足
+    const showAdultContent = resolveTVBoxAdultAccess(config, currentUser);
     if (shouldFilterAdult && !showAdultContent) {
-      enabledSources = enabledSources.filter(source => !source.is_adult);
-      console.log(`[TVBox] 🛡️ 成人内容过滤已启用（filter=${filterParam || 'default'}, showAdultContent=${showAdultContent}），剩余源数量: ${enabledSources.length}`);
+      console.log(`[TVBox] 🛡️ 成人内容过滤已启用（filter=${filterParam || 'default'}, showAdultContent=${showAdultContent}）`);
     } else if (!shouldFilterAdult) {
       console.log(`[TVBox] ⚠️ 成人内容过滤已通过 filter=off 显式关闭`);
     } else if (showAdultContent) {
       console.log(`[TVBox] ℹ️ 用户有成人内容访问权限，未过滤成人源`);
     }
 
-    // 🔑 新增：应用用户的源限制（如果有）
-    if (currentUser?.tvboxEnabledSources && currentUser.tvboxEnabledSources.length > 0) {
-      const allowedSourceKeys = new Set(currentUser.tvboxEnabledSources);
-      enabledSources = enabledSources.filter(source => allowedSourceKeys.has(source.key));
-      console.log(`[TVBox] 用户 ${currentUser.username} 限制后的源数量: ${enabledSources.length}`);
-    }
+    // 应用成人内容过滤和用户的源限制（与 /api/tvbox/cms 转发接口一致）
+    enabledSources = filterTVBoxSources(enabledSources, config, currentUser, shouldFilterAdult);
+    console.log(`[TVBox] 过滤后的源数量: ${enabledSources.length}`);
 
     // 跟踪全局 spider jar（从 detail 字段中提取）
     let globalSpiderJar = '';
@@ -521,9 +477,18 @@ export async function GET(request: NextRequest) {
           return ["电影", "电视剧", "综艺", "动漫", "纪录片", "短剧"];
         });
 
-        // 🔑 Cloudflare Worker 代理：为每个源生成唯一的代理路径
         let finalApi = source.api;
-        if (proxyConfig?.enabled && proxyConfig.proxyUrl) {
+        if (type === 1 && !siteJar && source.key) {
+          // 苹果 CMS JSON 站点经本站转发，详情中的 m3u8 播放地址改为走点播去广告代理
+          // （XML 和 CSP 站点仍直连或走 Cloudflare Worker 代理，不做去广告）
+          // 转发接口按同样的 token 和 filter 参数判断用户能否访问该源
+          const cmsQuery = new URLSearchParams();
+          if (token) cmsQuery.set('token', token);
+          if (!shouldFilterAdult) cmsQuery.set('filter', 'off');
+          const cmsQueryString = cmsQuery.toString();
+          finalApi = `${baseUrl}/api/tvbox/cms/${encodeURIComponent(source.key)}${cmsQueryString ? `?${cmsQueryString}` : ''}`;
+        } else if (proxyConfig?.enabled && proxyConfig.proxyUrl) {
+          // 🔑 Cloudflare Worker 代理：为每个源生成唯一的代理路径
           // 🔍 检查并提取真实 API 地址（如果已有代理，先去除旧代理）
           let realApiUrl = source.api;
           const urlMatch = source.api.match(/[?&]url=([^&]+)/);
@@ -564,7 +529,7 @@ export async function GET(request: NextRequest) {
           key: source.key || source.name,
           name: source.name,
           type: type, // 使用智能判断的type
-          api: finalApi, // 🔑 使用代理后的 API 地址（如果启用）
+          api: finalApi, // 🔑 使用本站转发或代理后的 API 地址
           searchable: 1, // 可搜索
           quickSearch: 1, // 支持快速搜索
           filterable: 1, // 支持分类筛选
@@ -3,8 +3,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getConfig } from '@/lib/config';
-import { searchFromApi } from '@/lib/downstream';
+import { generateSearchVariants, searchFromApi } from '@/lib/downstream';
+import { matchPinyin } from '@/lib/pinyin';
+import { resolvePinyinTitles } from '@/lib/search-index';
 import { rankSearchResults } from '@/lib/search-ranking';
+import { getSiteBaseUrl, isM3U8Url } from '@/lib/vod-proxy';
+import { buildSignedVodProxyUrl } from '@/lib/vod-proxy-sign';
 import { yellowWords } from '@/lib/yellow';
 
 export const runtime = 'nodejs';
@@ -80,6 +84,9 @@ export async function GET(request: NextRequest) {
       `[TVBox Search Proxy] source=${sourceKey}, query="${query}", filter=${filterParam}, strict=${strictMode}`
     );
 
+    // 遥控器输入的拼音 / 首字母（xyj、xiyouji）先映射为真实标题
+    const pinyinTitles = await resolvePinyinTitles(query).catch(() => []);
+
     // 从上游API搜索
     let results = await searchFromApi(
       {
@@ -88,7 +95,8 @@ export async function GET(request: NextRequest) {
         api: targetSource.api,
         detail: targetSource.detail,
       },
-      query
+      query,
+      generateSearchVariants(query, pinyinTitles)
     );
 
     console.log(
@@ -139,6 +147,9 @@ export async function GET(request: NextRequest) {
         // 完全匹配
         if (title === queryLower) return true;
 
+        // 拼音 / 首字母匹配
+        if (matchPinyin(title, query)) return true;
+
         // 开头匹配
         if (title.startsWith(queryLower)) return true;
 
@@ -162,6 +173,13 @@ export async function GET(request: NextRequest) {
       `[TVBox Search Proxy] Completed in ${processingTime}ms, returning ${results.length} results`
     );
 
+    // m3u8 播放地址经过点播代理，TVBox 无法运行前端去广告逻辑，由服务器端去广告
+    const siteBaseUrl = getSiteBaseUrl(request);
+    const toPlayUrl = (url: string) =>
+      isM3U8Url(url)
+        ? buildSignedVodProxyUrl(siteBaseUrl, targetSource.key, url)
+        : url;
+
     // 返回TVBox兼容的格式
     // TVBox期望的搜索API返回格式通常是MacCMS标准格式
     const response = {
@@ -187,7 +205,7 @@ export async function GET(request: NextRequest) {
           type_name: r.type_name || '',
           // 保留原始数据以便详情页使用
           vod_play_from: r.episodes ? 'LunaTV' : '',
-          vod_play_url: r.episodes ? r.episodes.join('#') : '',
+          vod_play_url: r.episodes ? r.episodes.map(toPlayUrl).join('#') : '',
         };
       }),
     };
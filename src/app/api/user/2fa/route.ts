@@ -0,0 +1,115 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor';
+
+export const runtime = 'nodejs';
+
+// 双重验证只允许浏览器会话管理，访问令牌不能关闭或重置
+function getSessionUser(request: NextRequest): string | NextResponse {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json({ error: '本地存储模式不支持双重验证' }, { status: 400 });
+  }
+
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (authInfo.apiTokenId) {
+    return NextResponse.json({ error: '不能使用访问令牌管理双重验证' }, { status: 403 });
+  }
+  return authInfo.username;
+}
+
+/**
+ * GET /api/user/2fa
+ * 当前用户的双重验证状态
+ */
+export async function GET(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    return NextResponse.json(await getTwoFactorStatus(username));
+  } catch (err) {
+    console.error('获取双重验证状态失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/2fa
+ * body: { action: 'setup' }                          生成密钥和二维码链接
+ *       { action: 'enable', code }                   确认绑定，返回恢复码
+ *       { action: 'disable', code }                  关闭（策略强制时不允许）
+ *       { action: 'regenerateRecoveryCodes', code }  重新生成恢复码
+ */
+export async function POST(request: NextRequest) {
+  const username = getSessionUser(request);
+  if (typeof username !== 'string') return username;
+
+  try {
+    const body = await request.json();
+    const action = body.action;
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+
+    if (action === 'setup') {
+      try {
+        return NextResponse.json(await startTwoFactorSetup(username));
+      } catch (err) {
+        return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+      }
+    }
+
+    if (!code) {
+      return NextResponse.json({ error: '请输入验证码' }, { status: 400 });
+    }
+
+    switch (action) {
+      case 'enable': {
+        try {
+          const recoveryCodes = await enableTwoFactor(username, code);
+          return NextResponse.json({ ok: true, recoveryCodes });
+        } catch (err) {
+          return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+        }
+      }
+      case 'disable': {
+        const status = await getTwoFactorStatus(username);
+        if (status.required) {
+          return NextResponse.json(
+            { error: '站点策略要求您的账户启用双重验证，无法关闭' },
+            { status: 403 }
+          );
+        }
+        if (!(await verifyTwoFactorCode(username, code))) {
+          return NextResponse.json({ error: '验证码错误' }, { status: 401 });
+        }
+        await disableTwoFactor(username);
+        return NextResponse.json({ ok: true });
+      }
+      case 'regenerateRecoveryCodes': {
+        if (!(await verifyTwoFactorCode(username, code))) {
+          return NextResponse.json({ error: '验证码错误' }, { status: 401 });
+        }
+        const recoveryCodes = await regenerateRecoveryCodes(username);
+        return NextResponse.json({ ok: true, recoveryCodes });
+      }
+      default:
+        return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+  } catch (err) {
+    console.error('双重验证操作失败', err);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -37,8 +37,8 @@ export async function GET(request: NextRequest) {
     if (!db.isStatsSupported()) {
       return NextResponse.json(
         {
-          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash 或 Kvrocks',
-          supportedTypes: ['redis', 'upstash', 'kvrocks']
+          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash、Kvrocks、SQLite 或 Postgres',
+          supportedTypes: ['redis', 'upstash', 'kvrocks', 'sqlite', 'postgres']
         },
         { status: 400 }
       );
@@ -138,8 +138,8 @@ export async function POST(request: NextRequest) {
     if (!db.isStatsSupported()) {
       return NextResponse.json(
         {
-          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash 或 Kvrocks',
-          supportedTypes: ['redis', 'upstash', 'kvrocks']
+          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash、Kvrocks、SQLite 或 Postgres',
+          supportedTypes: ['redis', 'upstash', 'kvrocks', 'sqlite', 'postgres']
         },
         { status: 400 }
       );
@@ -222,8 +222,8 @@ export async function PUT(request: NextRequest) {
     if (!db.isStatsSupported()) {
       return NextResponse.json(
         {
-          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash 或 Kvrocks',
-          supportedTypes: ['redis', 'upstash', 'kvrocks']
+          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash、Kvrocks、SQLite 或 Postgres',
+          supportedTypes: ['redis', 'upstash', 'kvrocks', 'sqlite', 'postgres']
         },
         { status: 400 }
       );
@@ -314,8 +314,8 @@ export async function DELETE(request: NextRequest) {
     if (!db.isStatsSupported()) {
       return NextResponse.json(
         {
-          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash 或 Kvrocks',
-          supportedTypes: ['redis', 'upstash', 'kvrocks']
+          error: '当前存储类型不支持播放统计功能，请使用 Redis、Upstash、Kvrocks、SQLite 或 Postgres',
+          supportedTypes: ['redis', 'upstash', 'kvrocks', 'sqlite', 'postgres']
         },
         { status: 400 }
       );
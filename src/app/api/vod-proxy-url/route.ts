@@ -0,0 +1,54 @@
+import ipaddr from 'ipaddr.js';
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getAvailableApiSites } from '@/lib/config';
+import { getSiteBaseUrl, isM3U8Url } from '@/lib/vod-proxy';
+import { buildSignedVodProxyUrl } from '@/lib/vod-proxy-sign';
+
+export const runtime = 'nodejs';
+
+// 内网、本机地址不签名，避免通过代理访问服务器所在的内部网络
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (ipaddr.isValid(host)) {
+    return ipaddr.process(host).range() !== 'unicast';
+  }
+  return !host.includes('.') || /\.(localhost|local|internal|lan)$/.test(host);
+}
+
+/**
+ * GET /api/vod-proxy-url?source=xxx&url=xxx
+ * 为播放页签发点播代理地址（Chromecast 投屏等无法运行前端去广告的场景）
+ * 需要登录，且只能为当前用户可用的视频源签名
+ */
+export async function GET(request: NextRequest) {
+  const authInfo = getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const source = searchParams.get('source') || '';
+  const url = searchParams.get('url') || '';
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return NextResponse.json({ error: '无效的 url 参数' }, { status: 400 });
+  }
+  if (!/^https?:$/.test(parsed.protocol) || !isM3U8Url(url) || isPrivateHostname(parsed.hostname)) {
+    return NextResponse.json({ error: '该地址不能经过代理' }, { status: 400 });
+  }
+
+  const sites = await getAvailableApiSites(authInfo.username);
+  if (!sites.some((site) => site.key === source)) {
+    return NextResponse.json({ error: '无权访问该视频源' }, { status: 403 });
+  }
+
+  return NextResponse.json(
+    { url: buildSignedVodProxyUrl(getSiteBaseUrl(request), source, url) },
+    { headers: { 'Cache-Control': 'private, no-store' } }
+  );
+}
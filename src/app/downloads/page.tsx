@@ -0,0 +1,20 @@
+'use client';
+
+import OfflineDownloadLibrary from '@/components/OfflineDownloadLibrary';
+import PageLayout from '@/components/PageLayout';
+
+export default function DownloadsPage() {
+  return (
+    <PageLayout activePath='/downloads'>
+      <div className='container mx-auto px-4 py-6'>
+        <div className='mb-6'>
+          <h1 className='text-2xl font-bold text-gray-900 dark:text-gray-100'>离线下载</h1>
+          <p className='mt-1 text-sm text-gray-500 dark:text-gray-400'>
+            在服务器上下载的视频，关闭浏览器后仍会继续下载
+          </p>
+        </div>
+        <OfflineDownloadLibrary />
+      </div>
+    </PageLayout>
+  );
+}
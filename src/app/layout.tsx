@@ -9,6 +9,7 @@ import './globals.css';
 import { getConfig } from '@/lib/config';
 
 import { GlobalErrorIndicator } from '../components/GlobalErrorIndicator';
+import { LiveReminderNotifier } from '../components/LiveReminderNotifier';
 import { SessionTracker } from '../components/SessionTracker';
 import { SiteProvider } from '../components/SiteProvider';
 import { ThemeProvider } from '../components/ThemeProvider';
@@ -148,6 +149,7 @@ export default async function RootLayout({
                     <SessionTracker />
                     {children}
                     <GlobalErrorIndicator />
+                    <LiveReminderNotifier />
                   </SiteProvider>
                   <DownloadPanel />
                   <ChatFloatingWindow />
@@ -5,13 +5,25 @@
 import { Suspense, useCallback, useEffect, useRef, useState } from 'react';
 
 import Hls from 'hls.js';
-import { Heart, Menu, Radio, RefreshCw, Search, Tv, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { Bell, CircleDot, Heart, LayoutGrid, ListVideo, Menu, Radio, RefreshCw, Search, Tv, X, ChevronDown, ChevronUp } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Tabs, Tab, Box } from '@mui/material';
 
 import {
   debounce,
+  ProgramSearchResult,
 } from '@/lib/channel-search';
+import { buildCatchupUrl, isCatchupAvailable, LiveCatchup } from '@/lib/live-catchup';
+import {
+  DEFAULT_LIVE_QUALITY_PREFERENCE,
+  findCappedLevel,
+  formatAudioTrackLabel,
+  formatVariantDetail,
+  formatVariantLabel,
+  LIVE_QUALITY_CAP_OPTIONS,
+  normalizeLiveQualityPreference,
+} from '@/lib/live-quality';
+import { matchPinyin } from '@/lib/pinyin';
 import {
   isMobile,
   isTablet,
@@ -21,13 +33,20 @@ import {
 import {
   deleteFavorite,
   generateStorageKey,
+  getLivePreferences,
   isFavorited as checkIsFavorited,
   saveFavorite,
+  saveLivePreferences,
   subscribeToDataUpdates,
 } from '@/lib/db.client';
 import { parseCustomTimeFormat } from '@/lib/time';
+import type { LiveQualityPreference, LiveRecording, LiveReminder } from '@/lib/types';
 
 import EpgScrollableRow from '@/components/EpgScrollableRow';
+import LiveMultiView, { MULTI_VIEW_SIZE, MultiViewTile } from '@/components/LiveMultiView';
+import LiveProgramSearch from '@/components/LiveProgramSearch';
+import { LivePlaylistExportModal } from '@/components/LivePlaylistExportModal';
+import { LiveReminderModal } from '@/components/LiveReminderModal';
 import PageLayout from '@/components/PageLayout';
 import { useLiveSync } from '@/hooks/useLiveSync';
 import { useTabsDragScroll } from '@/hooks/useTabsDragScroll';
@@ -49,6 +68,8 @@ interface LiveChannel {
   logo: string;
   group: string;
   url: string;
+  alternates?: string[]; // 备用播放地址，主地址失败时依次尝试
+  catchup?: LiveCatchup; // 回看配置
 }
 
 // 直播源接口
@@ -96,6 +117,7 @@ interface GroupSummary {
 // 常量定义
 const RECENT_GROUPS_STORAGE_KEY = 'liveRecentGroups';
 const PINNED_GROUPS_STORAGE_KEY = 'livePinnedGroups';
+const QUALITY_PREFERENCE_STORAGE_KEY = 'live-quality-preference';
 const MAX_RECENT_GROUPS = 8;
 const HEALTH_CHECK_CACHE_MS = 3 * 60 * 1000; // 3分钟缓存
 const HEALTH_CHECK_BATCH_SIZE = 12; // 每次检测12个频道
@@ -236,6 +258,19 @@ function LivePageClient() {
     }
     return false;
   });
+  // 🎚️ 默认画质上限和音轨偏好
+  const [qualityPreference, setQualityPreference] = useState<LiveQualityPreference>(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const saved = localStorage.getItem(QUALITY_PREFERENCE_STORAGE_KEY);
+        if (saved) return normalizeLiveQualityPreference(JSON.parse(saved));
+      } catch {
+        // 忽略损坏的本地记录
+      }
+    }
+    return DEFAULT_LIVE_QUALITY_PREFERENCE;
+  });
+  const qualityPreferenceRef = useRef(qualityPreference);
   const [corsSupport, setCorsSupport] = useState<Map<string, boolean>>(new Map());
   const corsSupportRef = useRef<Map<string, boolean>>(new Map());
   const [playbackMode, setPlaybackMode] = useState<'direct' | 'proxy'>('proxy');
@@ -260,7 +295,7 @@ function LivePageClient() {
   const [selectedGroup, setSelectedGroup] = useState<string>('');
 
   // Tab 切换
-  const [activeTab, setActiveTab] = useState<'channels' | 'sources'>('channels');
+  const [activeTab, setActiveTab] = useState<'channels' | 'programs' | 'sources'>('channels');
 
   // 频道列表收起状态
   const [isChannelListCollapsed, setIsChannelListCollapsed] = useState(false);
@@ -284,6 +319,25 @@ function LivePageClient() {
   const [groupSortMode, setGroupSortMode] = useState<GroupSortMode>('default');
   const [recentGroups, setRecentGroups] = useState<string[]>([]);
   const [pinnedGroups, setPinnedGroups] = useState<string[]>([]);
+  const [showExportModal, setShowExportModal] = useState(false);
+
+  // 多画面模式（2×2 网格）
+  const [isMultiView, setIsMultiView] = useState(false);
+  const [multiViewTiles, setMultiViewTiles] = useState<Array<MultiViewTile | null>>([]);
+  const [multiViewActiveIndex, setMultiViewActiveIndex] = useState(0);
+  const [playlistExportAvailable, setPlaylistExportAvailable] = useState(false);
+
+  // 直播录制（服务端 DVR）
+  const [recordingAllowed, setRecordingAllowed] = useState(false);
+  const [liveRecordings, setLiveRecordings] = useState<LiveRecording[]>([]);
+  const [showRecordMenu, setShowRecordMenu] = useState(false);
+  const [liveActionMessage, setLiveActionMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 节目提醒
+  const [liveReminders, setLiveReminders] = useState<LiveReminder[]>([]);
+  const [reminderTelegram, setReminderTelegram] = useState({ available: false, bound: false });
+  const [showReminderModal, setShowReminderModal] = useState(false);
+  const reminderStartHandlerRef = useRef<(reminder: LiveReminder) => void>(() => undefined);
 
   // 新增：频道健康检测状态
   const [channelHealthMap, setChannelHealthMap] = useState<Record<string, ChannelHealthInfo>>({});
@@ -323,6 +377,32 @@ function LivePageClient() {
   const [dvrSeekableRange, setDvrSeekableRange] = useState(0);
   const [enableDvrMode, setEnableDvrMode] = useState(false); // 用户手动启用DVR模式
 
+  // 正在回看的节目（为空表示直播），ref 供播放器初始化时同步读取
+  const [catchupProgram, setCatchupProgram] = useState<{
+    start: string;
+    end: string;
+    title: string;
+  } | null>(null);
+  const catchupProgramRef = useRef<typeof catchupProgram>(null);
+
+  // 当前频道正在使用的地址下标（0 为主地址，之后为备用地址）
+  const alternateIndexRef = useRef(0);
+  const reportedAlternateRef = useRef('');
+  const getActiveChannelUrl = (channel: LiveChannel) =>
+    [channel.url, ...(channel.alternates || [])][alternateIndexRef.current] || channel.url;
+
+  // 切换频道（包括观影室同步、切换直播源）时退出回看
+  // 需要在播放器初始化的 effect 之前执行，保证新频道按直播模式加载
+  useEffect(() => {
+    catchupProgramRef.current = null;
+    setCatchupProgram(null);
+  }, [currentChannel?.id]);
+
+  // 切换频道时从主地址开始播放
+  useEffect(() => {
+    alternateIndexRef.current = 0;
+  }, [currentSource?.key, currentChannel?.id]);
+
   // EPG数据清洗函数 - 去除重叠的节目，保留时间较短的，只显示今日节目
   const cleanEpgData = (programs: Array<{ start: string; end: string; title: string }>) => {
     if (!programs || programs.length === 0) return programs;
@@ -628,7 +708,9 @@ function LivePageClient() {
         name: channel.name,
         logo: channel.logo,
         group: channel.group || '其他',
-        url: channel.url
+        url: channel.url,
+        alternates: channel.alternates,
+        catchup: channel.catchup,
       }));
 
       setCurrentChannels(channels);
@@ -977,6 +1059,320 @@ function LivePageClient() {
     }
   };
 
+  // 回看节目单中已结束的节目
+  const handlePlayCatchup = (program: { start: string; end: string; title: string }) => {
+    if (!currentChannel) return;
+    const url = buildCatchupUrl(
+      currentChannel.url,
+      currentChannel.catchup,
+      parseCustomTimeFormat(program.start),
+      parseCustomTimeFormat(program.end)
+    );
+    if (!url) return;
+
+    cleanupPlayer();
+    setUnsupportedType(null);
+    catchupProgramRef.current = program;
+    setCatchupProgram(program);
+    setVideoUrl(url);
+  };
+
+  // 退出回看，回到直播
+  const handleBackToLive = () => {
+    if (!currentChannel) return;
+    cleanupPlayer();
+    catchupProgramRef.current = null;
+    setCatchupProgram(null);
+    setVideoUrl(getActiveChannelUrl(currentChannel));
+  };
+
+  // 获取录制权限和已预约的录制
+  const fetchLiveRecordings = async () => {
+    try {
+      const response = await fetch('/api/live/recordings');
+      if (!response.ok) return;
+      const data = await response.json();
+      setRecordingAllowed(!!data.canRecord);
+      setLiveRecordings(data.recordings || []);
+    } catch (err) {
+      console.error('获取直播录制失败:', err);
+    }
+  };
+
+  // 保存画质偏好，服务端存储时同步到账号
+  const updateQualityPreference = (patch: Partial<LiveQualityPreference>, sync = true) => {
+    const next = normalizeLiveQualityPreference({ ...qualityPreferenceRef.current, ...patch });
+    qualityPreferenceRef.current = next;
+    setQualityPreference(next);
+    localStorage.setItem(QUALITY_PREFERENCE_STORAGE_KEY, JSON.stringify(next));
+    if (sync) {
+      saveLivePreferences({ quality: next }).catch((err) => {
+        console.error('同步画质偏好失败:', err);
+      });
+    }
+  };
+
+  const showLiveActionMessage = (type: 'success' | 'error', text: string) => {
+    setLiveActionMessage({ type, text });
+    setTimeout(() => setLiveActionMessage(null), 4000);
+  };
+
+  // 创建录制任务，开始时间已过时服务端立即开始录制
+  const scheduleRecording = async (startAt: number, endAt: number, title?: string) => {
+    if (!currentSource || !currentChannel) return;
+    setShowRecordMenu(false);
+    try {
+      const response = await fetch('/api/live/recordings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceKey: currentSource.key,
+          channelId: currentChannel.id,
+          title,
+          startAt,
+          endAt,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '创建录制失败');
+      }
+      setLiveRecordings((prev) => [data.recording, ...prev]);
+      showLiveActionMessage(
+        'success',
+        startAt <= Date.now() ? '已开始录制，可在私人影库「直播录制」中查看' : '已预约录制'
+      );
+    } catch (err) {
+      showLiveActionMessage('error', err instanceof Error ? err.message : '创建录制失败');
+    }
+  };
+
+  const handleRecordProgram = (program: { start: string; end: string; title: string }) => {
+    scheduleRecording(
+      parseCustomTimeFormat(program.start).getTime(),
+      parseCustomTimeFormat(program.end).getTime(),
+      program.title
+    );
+  };
+
+  const isProgramScheduled = (program: { start: string; end: string }) => {
+    const start = parseCustomTimeFormat(program.start).getTime();
+    const end = parseCustomTimeFormat(program.end).getTime();
+    return liveRecordings.some(
+      (recording) =>
+        recording.channelUrl === currentChannel?.url &&
+        (recording.status === 'scheduled' || recording.status === 'recording') &&
+        recording.startAt < end &&
+        recording.endAt > start
+    );
+  };
+
+  // 获取节目提醒和 Telegram 绑定状态
+  const fetchLiveReminders = async () => {
+    try {
+      const response = await fetch('/api/live/reminders');
+      if (!response.ok) return;
+      const data = await response.json();
+      setLiveReminders(data.reminders || []);
+      setReminderTelegram(data.telegram || { available: false, bound: false });
+    } catch (err) {
+      console.error('获取节目提醒失败:', err);
+    }
+  };
+
+  const findProgramReminder = (program: { start: string }) => {
+    const start = parseCustomTimeFormat(program.start).getTime();
+    return liveReminders.find(
+      (reminder) =>
+        reminder.sourceKey === currentSource?.key &&
+        reminder.channelId === currentChannel?.id &&
+        reminder.startAt === start
+    );
+  };
+
+  const isProgramReminded = (program: { start: string }) => !!findProgramReminder(program);
+
+  const removeReminder = async (reminder: LiveReminder) => {
+    try {
+      const response = await fetch(`/api/live/reminders?id=${encodeURIComponent(reminder.id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '取消提醒失败');
+      }
+      setLiveReminders((prev) => prev.filter((r) => r.id !== reminder.id));
+      window.dispatchEvent(new CustomEvent('liveRemindersUpdated'));
+    } catch (err) {
+      showLiveActionMessage('error', err instanceof Error ? err.message : '取消提醒失败');
+    }
+  };
+
+  // 为任意直播源的频道创建提醒（节目单和节目搜索共用）
+  const createReminder = async (input: {
+    sourceKey: string;
+    channelId: string;
+    title: string;
+    startAt: number;
+    endAt: number;
+  }) => {
+    try {
+      const response = await fetch('/api/live/reminders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '设置提醒失败');
+      }
+      setLiveReminders((prev) =>
+        [...prev.filter((r) => r.id !== data.reminder.id), data.reminder].sort((a, b) => a.startAt - b.startAt)
+      );
+      window.dispatchEvent(new CustomEvent('liveRemindersUpdated'));
+      showLiveActionMessage('success', `已设置提醒：${input.title}`);
+    } catch (err) {
+      showLiveActionMessage('error', err instanceof Error ? err.message : '设置提醒失败');
+    }
+  };
+
+  // 设置提醒，已设置时取消
+  const handleRemindProgram = async (program: { start: string; end: string; title: string }) => {
+    if (!currentSource || !currentChannel) return;
+    const existing = findProgramReminder(program);
+    if (existing) {
+      await removeReminder(existing);
+      return;
+    }
+    await createReminder({
+      sourceKey: currentSource.key,
+      channelId: currentChannel.id,
+      title: program.title,
+      startAt: parseCustomTimeFormat(program.start).getTime(),
+      endAt: parseCustomTimeFormat(program.end).getTime(),
+    });
+  };
+
+  // 节目搜索结果的提醒状态按源、频道和开始时间匹配
+  const findSearchResultReminder = (program: ProgramSearchResult) =>
+    liveReminders.find(
+      (reminder) =>
+        reminder.sourceKey === program.sourceKey &&
+        reminder.channelId === program.channelId &&
+        reminder.startAt === program.startAt
+    );
+
+  const handleRemindSearchResult = async (program: ProgramSearchResult) => {
+    const existing = findSearchResultReminder(program);
+    if (existing) {
+      await removeReminder(existing);
+      return;
+    }
+    await createReminder({
+      sourceKey: program.sourceKey,
+      channelId: program.channelId,
+      title: program.title,
+      startAt: program.startAt,
+      endAt: program.endAt,
+    });
+  };
+
+  const toMultiViewTile = (channel: LiveChannel): MultiViewTile | null =>
+    currentSource
+      ? {
+        sourceKey: currentSource.key,
+        channelId: channel.id,
+        tvgId: channel.tvgId,
+        name: channel.name,
+        url: channel.url,
+      }
+      : null;
+
+  // 进入多画面时停止主播放器，当前频道放在第一个画面
+  const enterMultiView = () => {
+    cleanupPlayer();
+    setIsVideoLoading(false);
+    const firstTile = currentChannel ? toMultiViewTile(currentChannel) : null;
+    setMultiViewTiles([firstTile, ...Array(MULTI_VIEW_SIZE - 1).fill(null)]);
+    setMultiViewActiveIndex(0);
+    setIsMultiView(true);
+  };
+
+  const exitMultiView = () => {
+    setIsMultiView(false);
+    setMultiViewTiles([]);
+  };
+
+  // 多画面下点击频道：选中的画面为空时填入，否则填入第一个空位，没有空位时替换选中的画面
+  const assignChannelToMultiView = (channel: LiveChannel) => {
+    const tile = toMultiViewTile(channel);
+    if (!tile) return;
+    const emptyIndex = multiViewTiles.findIndex((t) => !t);
+    const target = !multiViewTiles[multiViewActiveIndex] || emptyIndex < 0 ? multiViewActiveIndex : emptyIndex;
+    setMultiViewTiles((prev) => prev.map((t, index) => (index === target ? tile : t)));
+  };
+
+  const handleChannelClick = (channel: LiveChannel) => {
+    if (isMultiView) {
+      assignChannelToMultiView(channel);
+      return;
+    }
+    handleChannelChange(channel);
+  };
+
+  const removeMultiViewTile = (index: number) => {
+    setMultiViewTiles((prev) => prev.map((t, i) => (i === index ? null : t)));
+  };
+
+  // 单独播放某个画面的频道并退出多画面
+  const expandMultiViewTile = (index: number) => {
+    const tile = multiViewTiles[index];
+    exitMultiView();
+    if (tile) {
+      switchToSourceChannel(tile.sourceKey, tile.channelId);
+    }
+  };
+
+  // 切换到指定直播源的频道；其他直播源的频道通过 URL 参数重新加载直播页
+  const switchToSourceChannel = (sourceKey: string, channelId: string) => {
+    setIsMultiView(false);
+    if (currentSource?.key === sourceKey) {
+      if (currentChannel?.id === channelId) return;
+      const channel = currentChannels.find((c) => c.id === channelId);
+      if (channel) {
+        handleChannelChange(channel);
+        return;
+      }
+    }
+    window.location.assign(
+      `/live?source=${encodeURIComponent(sourceKey)}&id=${encodeURIComponent(channelId)}`
+    );
+  };
+
+  const switchToReminderChannel = (reminder: LiveReminder) => {
+    setShowReminderModal(false);
+    switchToSourceChannel(reminder.sourceKey, reminder.channelId);
+  };
+  reminderStartHandlerRef.current = switchToReminderChannel;
+
+  // 提醒的节目开始时自动切台（事件由全局的 LiveReminderNotifier 发出）
+  useEffect(() => {
+    const handleReminderStart = (event: Event) => {
+      const reminder = (event as CustomEvent<LiveReminder>).detail;
+      if (reminder) reminderStartHandlerRef.current(reminder);
+    };
+    window.addEventListener('liveReminderStart', handleReminderStart);
+    return () => window.removeEventListener('liveReminderStart', handleReminderStart);
+  }, []);
+
+  // 判断节目是否可以回看
+  const canPlayCatchup = (program: { start: string; end: string }) =>
+    isCatchupAvailable(
+      currentChannel?.catchup,
+      parseCustomTimeFormat(program.start),
+      parseCustomTimeFormat(program.end)
+    );
+
   // 滚动到指定频道位置的函数
   const scrollToChannel = (channel: LiveChannel) => {
     if (!channelListRef.current) return;
@@ -1129,7 +1525,7 @@ function LivePageClient() {
         ref={ref}
         key={channel.id}
         data-channel-id={channel.id}
-        onClick={() => handleChannelChange(channel)}
+        onClick={() => handleChannelClick(channel)}
         disabled={isDisabled}
         className={`w-full p-3 rounded-lg text-left transition-all duration-200 ${isDisabled
           ? 'opacity-50 cursor-not-allowed'
@@ -1367,6 +1763,10 @@ function LivePageClient() {
   const persistPinnedGroups = (nextGroups: string[]) => {
     if (typeof window === 'undefined') return;
     localStorage.setItem(PINNED_GROUPS_STORAGE_KEY, JSON.stringify(nextGroups));
+    // 同步到服务端，导出的播放列表按置顶分组排序
+    saveLivePreferences({ pinnedGroups: nextGroups }).catch((err) => {
+      console.error('同步置顶分组失败:', err);
+    });
   };
 
   // 新增：添加到最近访问
@@ -1437,7 +1837,8 @@ function LivePageClient() {
     const normalizedQuery = query.toLowerCase();
     const results = currentChannels.filter(channel =>
       channel.name.toLowerCase().includes(normalizedQuery) ||
-      channel.group.toLowerCase().includes(normalizedQuery)
+      channel.group.toLowerCase().includes(normalizedQuery) ||
+      !!matchPinyin(channel.name, query) // 拼音 / 首字母，如 hnws → 湖南卫视
     );
     setCurrentSourceSearchResults(results);
   };
@@ -1544,6 +1945,29 @@ function LivePageClient() {
       localStorage.getItem(PINNED_GROUPS_STORAGE_KEY),
     );
     setPinnedGroups(savedPinnedGroups);
+
+    const serverStorage =
+      ((window as any).RUNTIME_CONFIG?.STORAGE_TYPE || 'localstorage') !== 'localstorage';
+    setPlaylistExportAvailable(serverStorage);
+    if (serverStorage) {
+      fetchLiveRecordings();
+      fetchLiveReminders();
+    }
+
+    // 服务端存储时以服务端的置顶分组为准，首次使用则上传本地记录
+    getLivePreferences().then((preferences) => {
+      if (preferences?.quality) {
+        updateQualityPreference(preferences.quality, false);
+      }
+      if (preferences && preferences.updatedAt > 0) {
+        setPinnedGroups(preferences.pinnedGroups);
+        localStorage.setItem(PINNED_GROUPS_STORAGE_KEY, JSON.stringify(preferences.pinnedGroups));
+      } else if (savedPinnedGroups.length > 0) {
+        saveLivePreferences({ pinnedGroups: savedPinnedGroups }).catch((err) => {
+          console.error('同步置顶分组失败:', err);
+        });
+      }
+    });
   }, []);
 
   // 只在用户开始搜索时才加载跨源数据，而不是页面加载时就加载
@@ -1693,7 +2117,128 @@ function LivePageClient() {
   let flvNetworkRetryCount = 0;
   const MAX_FLV_NETWORK_RETRIES = 3;
 
-  function m3u8Loader(video: HTMLVideoElement, url: string) {
+  // 当前地址无法播放时静默切换到下一个备用地址，没有可用的备用地址时返回 false
+  const failoverToNextAlternate = (): boolean => {
+    const channel = currentChannelRef.current;
+    if (!channel?.alternates?.length || catchupProgramRef.current) return false;
+
+    const urls = [channel.url, ...channel.alternates];
+    const nextIndex = alternateIndexRef.current + 1;
+    if (nextIndex >= urls.length) return false;
+
+    console.warn(`频道 ${channel.name} 切换到备用地址 ${nextIndex}/${urls.length - 1}`);
+    alternateIndexRef.current = nextIndex;
+    keyLoadErrorCount = 0;
+    lastErrorTime = 0;
+    hlsNetworkRetryCount = 0;
+    flvNetworkRetryCount = 0;
+    setUnsupportedType(null);
+    setIsVideoLoading(true);
+    setVideoUrl(urls[nextIndex]);
+    return true;
+  };
+
+  // 备用地址播放成功后上报，之后所有用户优先使用该地址
+  const reportGoodAlternate = () => {
+    const channel = currentChannelRef.current;
+    const source = currentSourceRef.current;
+    if (!channel || !source || alternateIndexRef.current === 0 || catchupProgramRef.current) return;
+
+    const url = getActiveChannelUrl(channel);
+    const reportKey = `${source.key}|${channel.id}|${url}`;
+    if (reportedAlternateRef.current === reportKey) return;
+    reportedAlternateRef.current = reportKey;
+
+    fetch('/api/live/channels/alternate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source: source.key, channelId: channel.id, url }),
+    }).catch((err) => console.error('上报可用备用地址失败:', err));
+  };
+
+  // 按偏好限制自动码率的最高画质，并选择偏好的音轨
+  function applyQualityPreference(hls: Hls) {
+    const preference = qualityPreferenceRef.current;
+    const cappedLevel = findCappedLevel(hls.levels, isMobile ? preference.mobileMaxHeight : preference.maxHeight);
+    hls.autoLevelCapping = cappedLevel;
+
+    if (preference.audioLanguage && hls.audioTracks.length > 1) {
+      const preferredTrack = hls.audioTracks.findIndex(
+        (track) => track.lang === preference.audioLanguage || track.name === preference.audioLanguage
+      );
+      if (preferredTrack >= 0 && preferredTrack !== hls.audioTrack) {
+        hls.audioTrack = preferredTrack;
+      }
+    }
+  }
+
+  // 主播放列表有多个码率 / 音轨时在控制栏显示画质和音轨菜单
+  function updateStreamControls(art: any, hls: Hls) {
+    if (!art?.controls) return;
+    ['live-quality', 'live-audio'].forEach((name) => {
+      try {
+        art.controls.remove(name);
+      } catch (e) {
+        // 忽略错误，可能控件不存在
+      }
+    });
+
+    if (hls.levels.length > 1) {
+      const manualLevel = hls.manualLevel;
+      // 按分辨率、码率从高到低排列，保留在 hls.levels 中的下标
+      const variants = hls.levels
+        .map((level, index) => ({ level, index }))
+        .sort((a, b) => (b.level.height || 0) - (a.level.height || 0) || b.level.bitrate - a.level.bitrate);
+      art.controls.add({
+        name: 'live-quality',
+        position: 'right',
+        index: 10,
+        html: manualLevel >= 0 && hls.levels[manualLevel] ? formatVariantLabel(hls.levels[manualLevel]) : '自动',
+        selector: [
+          { html: '自动', label: '自动', level: -1, default: manualLevel < 0 },
+          ...variants.map(({ level, index }) => {
+            const label = formatVariantLabel(level);
+            const detail = formatVariantDetail(level);
+            return {
+              html: detail ? `${label} <span style="opacity:.6;font-size:12px">${detail}</span>` : label,
+              label,
+              level: index,
+              default: manualLevel === index,
+            };
+          }),
+        ],
+        onSelect(item: any) {
+          // -1 恢复自动码率（仍受画质上限限制）
+          hls.currentLevel = item.level;
+          return item.label;
+        },
+      });
+    }
+
+    if (hls.audioTracks.length > 1) {
+      art.controls.add({
+        name: 'live-audio',
+        position: 'right',
+        index: 11,
+        html: '音轨',
+        selector: hls.audioTracks.map((track, index) => ({
+          html: formatAudioTrackLabel(track, index),
+          track: index,
+          default: index === hls.audioTrack,
+        })),
+        onSelect(item: any) {
+          hls.audioTrack = item.track;
+          const track = hls.audioTracks[item.track];
+          if (track) {
+            updateQualityPreference({ audioLanguage: track.lang || track.name });
+          }
+          return '音轨';
+        },
+      });
+    }
+  }
+
+  function m3u8Loader(video: HTMLVideoElement, url: string, art?: any) {
     if (!Hls) {
       console.error('HLS.js 未加载');
       return;
@@ -1777,14 +2322,70 @@ function LivePageClient() {
     };
 
     const hls = new Hls(hlsConfig);
+    const failedAudioTracks = new Set<number>();
 
     hls.loadSource(url);
     hls.attachMedia(video);
     video.hls = hls;
 
+    hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      applyQualityPreference(hls);
+      updateStreamControls(art, hls);
+    });
+
+    hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, () => {
+      applyQualityPreference(hls);
+      updateStreamControls(art, hls);
+    });
+
+    // 移除失效码率后下标会变化，重新计算画质上限
+    hls.on(Hls.Events.LEVELS_UPDATED, () => {
+      hls.autoLevelCapping = findCappedLevel(
+        hls.levels,
+        isMobile ? qualityPreferenceRef.current.mobileMaxHeight : qualityPreferenceRef.current.maxHeight
+      );
+      updateStreamControls(art, hls);
+    });
+
     hls.on(Hls.Events.ERROR, function (event: any, data: any) {
       console.error('HLS Error:', event, data);
 
+      // 某个码率的播放列表或分片 404 时移除该码率，由其余码率继续播放
+      if (
+        (data.details === Hls.ErrorDetails.LEVEL_LOAD_ERROR ||
+          data.details === Hls.ErrorDetails.FRAG_LOAD_ERROR) &&
+        data.response?.code === 404 &&
+        hls.levels.length > 1
+      ) {
+        const failedLevel = typeof data.level === 'number' ? data.level : data.frag?.level;
+        if (typeof failedLevel === 'number' && failedLevel >= 0 && hls.levels[failedLevel]) {
+          console.warn(`码率 ${formatVariantLabel(hls.levels[failedLevel])} 不可用，已移除`);
+          hls.removeLevel(failedLevel);
+          if (data.fatal) {
+            hls.startLoad();
+          }
+          return;
+        }
+      }
+
+      // 备用音轨 404 时切回其他音轨
+      if (
+        data.details === Hls.ErrorDetails.AUDIO_TRACK_LOAD_ERROR &&
+        data.response?.code === 404 &&
+        hls.audioTracks.length > 1
+      ) {
+        failedAudioTracks.add(hls.audioTrack);
+        const fallbackTrack = hls.audioTracks.findIndex((_, index) => !failedAudioTracks.has(index));
+        if (fallbackTrack >= 0) {
+          console.warn('音轨不可用，切换到其他音轨');
+          hls.audioTrack = fallbackTrack;
+          if (data.fatal) {
+            hls.startLoad();
+          }
+          return;
+        }
+      }
+
       // 使用最新版本的错误详情类型
       if (data.details === Hls.ErrorDetails.KEY_LOAD_ERROR) {
         const currentTime = Date.now();
@@ -1801,6 +2402,8 @@ function LivePageClient() {
         
         // 如果短时间内keyLoadError次数过多，认为这个频道不可用
         if (keyLoadErrorCount >= MAX_KEY_ERRORS) {
+          hls.destroy();
+          if (failoverToNextAlternate()) return;
           console.error('Too many keyLoadErrors, marking channel as unavailable');
           setUnsupportedType('channel-unavailable');
           setIsVideoLoading(false);
@@ -1852,19 +2455,36 @@ function LivePageClient() {
       // 处理其他特定错误类型
       if (data.details === Hls.ErrorDetails.BUFFER_INCOMPATIBLE_CODECS_ERROR) {
         console.error('Incompatible codecs error - fatal');
+        hls.destroy();
+        if (failoverToNextAlternate()) return;
         setUnsupportedType('codec-incompatible');
         setIsVideoLoading(false);
-        hls.destroy();
         return;
       }
 
       if (data.fatal) {
         switch (data.type) {
           case Hls.ErrorTypes.NETWORK_ERROR:
+            // 有备用地址时主播放列表加载失败直接切换，不再重试
+            if (
+              data.details === Hls.ErrorDetails.MANIFEST_LOAD_ERROR ||
+              data.details === Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT ||
+              data.details === Hls.ErrorDetails.MANIFEST_PARSING_ERROR
+            ) {
+              if (failoverToNextAlternate()) {
+                hls.destroy();
+                return;
+              }
+            }
+
             hlsNetworkRetryCount++;
             console.log(`Network error (${hlsNetworkRetryCount}/${MAX_HLS_NETWORK_RETRIES}), attempting to recover...`);
 
             if (hlsNetworkRetryCount >= MAX_HLS_NETWORK_RETRIES) {
+              if (failoverToNextAlternate()) {
+                hls.destroy();
+                return;
+              }
               console.error('Too many network errors, marking as unavailable');
               setUnsupportedType('network-error');
               setIsVideoLoading(false);
@@ -1911,9 +2531,10 @@ function LivePageClient() {
             
           default:
             console.log('Fatal error, destroying HLS instance');
+            hls.destroy();
+            if (failoverToNextAlternate()) break;
             setUnsupportedType('fatal-error');
             setIsVideoLoading(false);
-            hls.destroy();
             break;
         }
       }
@@ -2012,9 +2633,6 @@ function LivePageClient() {
         console.log(`FLV 网络错误 (${flvNetworkRetryCount}/${MAX_FLV_NETWORK_RETRIES})，尝试重新加载...`);
 
         if (flvNetworkRetryCount >= MAX_FLV_NETWORK_RETRIES) {
-          console.error('FLV 网络错误过多，标记为不可用');
-          setUnsupportedType('network-error');
-          setIsVideoLoading(false);
           try {
             flvPlayer.unload();
             flvPlayer.detachMediaElement();
@@ -2022,6 +2640,10 @@ function LivePageClient() {
           } catch (e) {
             console.warn('销毁 FLV 实例出错:', e);
           }
+          if (failoverToNextAlternate()) return;
+          console.error('FLV 网络错误过多，标记为不可用');
+          setUnsupportedType('network-error');
+          setIsVideoLoading(false);
           return;
         }
 
@@ -2063,7 +2685,8 @@ function LivePageClient() {
         !Hls ||
         !videoUrl ||
         !artRef.current ||
-        !currentChannel
+        !currentChannel ||
+        isMultiView
       ) {
         return;
       }
@@ -2095,6 +2718,10 @@ function LivePageClient() {
       if (isFlvUrl) {
         targetUrl = videoUrl;  // FLV 直连
         console.log(`🎬 播放模式: ⚡ FLV直连 | URL: ${targetUrl.substring(0, 100)}...`);
+      } else if (catchupProgramRef.current) {
+        // 回看地址统一走代理
+        targetUrl = `/api/proxy/m3u8?url=${encodeURIComponent(videoUrl)}&moontv-source=${currentSourceRef.current?.key || ''}`;
+        console.log(`🎬 播放模式: ⏪ 回看 | URL: ${targetUrl.substring(0, 100)}...`);
       } else {
         const useDirect = await shouldUseDirectPlayback(videoUrl);
         targetUrl = useDirect
@@ -2125,7 +2752,7 @@ function LivePageClient() {
           url: targetUrl,
           poster: currentChannel.logo,
           volume: 0.7,
-          isLive: !enableDvrMode, // 根据用户设置决定是否为直播模式
+          isLive: !enableDvrMode && !catchupProgramRef.current, // 回看或用户启用DVR时显示进度条
           muted: false,
           autoplay: true,
           pip: true,
@@ -2168,8 +2795,8 @@ function LivePageClient() {
           setError(null);
           setIsVideoLoading(false);
 
-          // 延迟检测是否支持 DVR/时移回放（仅在未启用DVR模式时检测）
-          if (!enableDvrMode) {
+          // 延迟检测是否支持 DVR/时移回放（仅在未启用DVR模式且非回看时检测）
+          if (!enableDvrMode && !catchupProgramRef.current) {
             setTimeout(() => {
               if (artPlayerRef.current && artPlayerRef.current.video) {
                 const video = artPlayerRef.current.video;
@@ -2208,6 +2835,7 @@ function LivePageClient() {
 
         artPlayerRef.current.on('canplay', () => {
           setIsVideoLoading(false);
+          reportGoodAlternate();
         });
 
         artPlayerRef.current.on('waiting', () => {
@@ -2266,7 +2894,7 @@ function LivePageClient() {
     };
 
     loadAndInit();
-  }, [Hls, videoUrl, currentChannel, loading, directPlaybackEnabled]);
+  }, [Hls, videoUrl, currentChannel, loading, directPlaybackEnabled, isMultiView]);
 
   // 清理播放器资源
   useEffect(() => {
@@ -2539,6 +3167,43 @@ function LivePageClient() {
                   )}
                 </button>
               )}
+              {/* 多画面 */}
+              <button
+                onClick={isMultiView ? exitMultiView : enterMultiView}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full shrink-0 border whitespace-nowrap cursor-pointer hover:opacity-80 active:scale-95 transition-all duration-150 ${isMultiView
+                  ? 'bg-green-100 dark:bg-green-900/40 border-green-300 dark:border-green-700 text-green-700 dark:text-green-300'
+                  : 'bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                title={isMultiView ? '退出多画面' : '多画面同时观看最多四个频道'}
+              >
+                <LayoutGrid className='w-3.5 h-3.5' />
+                <span>{isMultiView ? '退出多画面' : '多画面'}</span>
+              </button>
+              {/* 导出播放列表 - 仅服务端存储可用 */}
+              {playlistExportAvailable && (
+                <button
+                  onClick={() => setShowExportModal(true)}
+                  className='inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full shrink-0 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 whitespace-nowrap cursor-pointer hover:opacity-80 active:scale-95 transition-all duration-150'
+                  title='导出 M3U 播放列表到其他播放器'
+                >
+                  <ListVideo className='w-3.5 h-3.5' />
+                  <span>导出</span>
+                </button>
+              )}
+              {/* 我的节目提醒 - 仅服务端存储可用 */}
+              {playlistExportAvailable && (
+                <button
+                  onClick={() => {
+                    fetchLiveReminders();
+                    setShowReminderModal(true);
+                  }}
+                  className='inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full shrink-0 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 whitespace-nowrap cursor-pointer hover:opacity-80 active:scale-95 transition-all duration-150'
+                  title='我的节目提醒'
+                >
+                  <Bell className='w-3.5 h-3.5' />
+                  <span>提醒{liveReminders.length > 0 ? ` ${liveReminders.length}` : ''}</span>
+                </button>
+              )}
             </div>
           </h1>
         </div>
@@ -2596,6 +3261,19 @@ function LivePageClient() {
                   className='bg-black w-full h-full rounded-xl overflow-hidden shadow-lg border border-white/0 dark:border-white/30'
                 ></div>
 
+                {/* 多画面网格，覆盖在已停止的主播放器上 */}
+                {isMultiView && (
+                  <div className='absolute inset-0 z-650 shadow-lg'>
+                    <LiveMultiView
+                      tiles={multiViewTiles}
+                      activeIndex={multiViewActiveIndex}
+                      onActivate={setMultiViewActiveIndex}
+                      onRemove={removeMultiViewTile}
+                      onExpand={expandMultiViewTile}
+                    />
+                  </div>
+                )}
+
                 {/* 不支持的直播类型提示 */}
                 {unsupportedType && (
                   <div className='absolute inset-0 bg-black/90 backdrop-blur-sm rounded-xl overflow-hidden shadow-lg border border-white/0 dark:border-white/30 flex items-center justify-center z-600 transition-all duration-300'>
@@ -2657,7 +3335,8 @@ function LivePageClient() {
                             setUnsupportedType(null);
                             // 重试当前频道
                             if (currentChannel) {
-                              const newUrl = currentChannel.url;
+                              alternateIndexRef.current = 0;
+                              const newUrl = catchupProgramRef.current ? videoUrl : currentChannel.url;
                               setVideoUrl('');
                               setTimeout(() => setVideoUrl(newUrl), 100);
                             }
@@ -2696,7 +3375,7 @@ function LivePageClient() {
                           setEnableDvrMode(true);
                           setDvrDetected(false); // 隐藏提示
                           if (currentChannel) {
-                            const currentUrl = currentChannel.url;
+                            const currentUrl = getActiveChannelUrl(currentChannel);
                             setVideoUrl('');
                             setTimeout(() => setVideoUrl(currentUrl), 100);
                           }
@@ -2755,6 +3434,17 @@ function LivePageClient() {
                   >
                     频道
                   </div>
+                  <div
+                    onClick={() => setActiveTab('programs')}
+                    className={`flex-1 py-3 px-6 text-center cursor-pointer transition-all duration-200 font-medium
+                      ${activeTab === 'programs'
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-gray-700 hover:text-green-600 bg-black/5 dark:bg-white/5 dark:text-gray-300 dark:hover:text-green-400 hover:bg-black/3 dark:hover:bg-white/3'
+                      }
+                    `.trim()}
+                  >
+                    节目
+                  </div>
                   <div
                     onClick={() => setActiveTab('sources')}
                     className={`flex-1 py-3 px-6 text-center cursor-pointer transition-all duration-200 font-medium
@@ -2937,7 +3627,7 @@ function LivePageClient() {
                             return (
                               <button
                                 key={channel.id}
-                                onClick={() => handleChannelChange(channel)}
+                                onClick={() => handleChannelClick(channel)}
                                 disabled={isDisabled}
                                 className={`w-full p-3 rounded-lg text-left transition-all duration-200 ${
                                   isDisabled
@@ -3041,6 +3731,17 @@ function LivePageClient() {
                   </>
                 )}
 
+                {/* 节目搜索 Tab 内容 */}
+                {activeTab === 'programs' && (
+                  <LiveProgramSearch
+                    currentSourceKey={currentSource?.key}
+                    currentChannelId={currentChannel?.id}
+                    onPlay={(program) => switchToSourceChannel(program.sourceKey, program.channelId)}
+                    onRemind={playlistExportAvailable ? handleRemindSearchResult : undefined}
+                    isReminded={(program) => !!findSearchResultReminder(program)}
+                  />
+                )}
+
                 {/* 直播源 Tab 内容 */}
                 {activeTab === 'sources' && (
                   <div className='flex flex-col h-full mt-4'>
@@ -3134,6 +3835,34 @@ function LivePageClient() {
                           </label>
                         </div>
                       </div>
+
+                      {/* 🎚️ 默认画质上限 */}
+                      <div className='flex items-center gap-3 pt-2 flex-wrap'>
+                        <label className='flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300'>
+                          画质上限
+                          <select
+                            value={qualityPreference.maxHeight}
+                            onChange={(e) => updateQualityPreference({ maxHeight: Number(e.target.value) })}
+                            className='text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                          >
+                            {LIVE_QUALITY_CAP_OPTIONS.map((cap) => (
+                              <option key={cap} value={cap}>{cap ? `${cap}p` : '不限'}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className='flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300'>
+                          手机
+                          <select
+                            value={qualityPreference.mobileMaxHeight}
+                            onChange={(e) => updateQualityPreference({ mobileMaxHeight: Number(e.target.value) })}
+                            className='text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                          >
+                            {LIVE_QUALITY_CAP_OPTIONS.map((cap) => (
+                              <option key={cap} value={cap}>{cap ? `${cap}p` : '不限'}</option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
                     </div>
 
                     {/* 搜索结果统计 */}
@@ -3314,10 +4043,51 @@ function LivePageClient() {
                       >
                         <FavoriteIcon filled={favorited} />
                       </button>
+                      {/* 手动录制当前频道 */}
+                      {recordingAllowed && (
+                        <div className='relative shrink-0'>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setShowRecordMenu(!showRecordMenu);
+                            }}
+                            className='p-1 rounded-full text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors'
+                            title='录制当前频道'
+                          >
+                            <CircleDot className='w-5 h-5' />
+                          </button>
+                          {showRecordMenu && (
+                            <div className='absolute right-0 top-full mt-1 z-20 w-32 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700'>
+                              {[30, 60, 120].map((minutes) => (
+                                <button
+                                  key={minutes}
+                                  onClick={() => {
+                                    const now = Date.now();
+                                    scheduleRecording(now, now + minutes * 60 * 1000);
+                                  }}
+                                  className='w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                >
+                                  录制 {minutes} 分钟
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <p className='text-sm text-gray-500 dark:text-gray-400 truncate'>
                       {currentSource?.name} {' > '} {currentChannel.group}
                     </p>
+                    {liveActionMessage && (
+                      <p
+                        className={`text-xs mt-1 ${liveActionMessage.type === 'success'
+                          ? 'text-green-600 dark:text-green-400'
+                          : 'text-red-500 dark:text-red-400'
+                          }`}
+                      >
+                        {liveActionMessage.text}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -3328,6 +4098,14 @@ function LivePageClient() {
               programs={epgData?.programs || []}
               currentTime={new Date()}
               isLoading={isEpgLoading}
+              canPlayProgram={currentChannel.catchup ? canPlayCatchup : undefined}
+              onPlayProgram={handlePlayCatchup}
+              replayingProgram={catchupProgram}
+              onBackToLive={handleBackToLive}
+              onRecordProgram={recordingAllowed ? handleRecordProgram : undefined}
+              isProgramScheduled={isProgramScheduled}
+              onRemindProgram={playlistExportAvailable ? handleRemindProgram : undefined}
+              isProgramReminded={isProgramReminded}
             />
           </div>
         )}
@@ -3651,6 +4429,23 @@ function LivePageClient() {
           </div>
         </div>
       )}
+
+      {/* 导出播放列表弹窗 */}
+      <LivePlaylistExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+      />
+
+      {/* 节目提醒弹窗 */}
+      <LiveReminderModal
+        isOpen={showReminderModal}
+        onClose={() => setShowReminderModal(false)}
+        reminders={liveReminders}
+        telegram={reminderTelegram}
+        onRemove={removeReminder}
+        onWatch={switchToReminderChannel}
+        onRefresh={fetchLiveReminders}
+      />
     </PageLayout>
   );
 }
@@ -2,13 +2,14 @@
 
 'use client';
 
-import { AlertCircle, CheckCircle, User, Lock, Sparkles, UserPlus, Send } from 'lucide-react';
+import { AlertCircle, CheckCircle, User, Lock, Sparkles, UserPlus, Send, ShieldCheck } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Suspense, useEffect, useState } from 'react';
 
 import { CURRENT_VERSION } from '@/lib/version';
 import { checkForUpdates, UpdateStatus } from '@/lib/version_check';
 
+import { QrCode } from '@/components/QrCode';
 import { useSite } from '@/components/SiteProvider';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { OIDCProviderLogo, detectProvider, getProviderButtonStyle, getProviderButtonText } from '@/components/OIDCProviderLogos';
@@ -92,8 +93,49 @@ function LoginPageClient() {
   const [oidcButtonText, setOidcButtonText] = useState('使用OIDC登录');
   const [oidcIssuer, setOidcIssuer] = useState<string>('');
 
+  // 双重验证（密码 / OIDC 通过后的第二步）
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState('');
+  const [twoFactorStep, setTwoFactorStep] = useState<'verify' | 'setup'>('verify');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
   const { siteName } = useSite();
 
+  // OIDC 回调跳转过来时携带第二步验证参数
+  useEffect(() => {
+    const challenge = searchParams.get('twofa');
+    if (challenge) {
+      setTwoFactorChallenge(challenge);
+      setTwoFactorStep(searchParams.get('step') === 'setup' ? 'setup' : 'verify');
+    }
+  }, [searchParams]);
+
+  // 策略要求但尚未绑定时，获取绑定用的密钥
+  useEffect(() => {
+    if (!twoFactorChallenge || twoFactorStep !== 'setup' || twoFactorSetup) return;
+
+    const fetchSetup = async () => {
+      try {
+        const res = await fetch('/api/login/2fa', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ challenge: twoFactorChallenge, action: 'setup' }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || '获取双重验证密钥失败');
+          return;
+        }
+        setTwoFactorSetup(data);
+      } catch (error) {
+        setError('网络错误，请稍后重试');
+      }
+    };
+
+    fetchSetup();
+  }, [twoFactorChallenge, twoFactorStep, twoFactorSetup]);
+
   // 获取 Bing 每日壁纸（通过代理 API）
   useEffect(() => {
     const fetchBingWallpaper = async () => {
@@ -161,6 +203,68 @@ function LoginPageClient() {
     fetchTelegramConfig();
   }, []);
 
+  // 登录成功：记录登入时间并跳转
+  const completeLogin = async () => {
+    const loginTime = Date.now();
+    try {
+      await fetch('/api/user/my-stats', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ loginTime })
+      });
+      // 更新 localStorage 记录
+      localStorage.setItem('lastRecordedLogin', loginTime.toString());
+    } catch (error) {
+      console.log('记录登入时间失败:', error);
+      // 登入时间记录失败不影响正常登录流程
+    }
+
+    const redirect = searchParams.get('redirect') || '/';
+    router.replace(redirect);
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!twoFactorCode.trim()) return;
+
+    try {
+      setLoading(true);
+      const res = await fetch('/api/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challenge: twoFactorChallenge, code: twoFactorCode.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setError(data.error ?? '服务器错误');
+        return;
+      }
+
+      // 首次绑定：先展示恢复码，确认保存后再跳转
+      if (data.recoveryCodes?.length) {
+        setRecoveryCodes(data.recoveryCodes);
+        return;
+      }
+      await completeLogin();
+    } catch (error) {
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetTwoFactor = () => {
+    setTwoFactorChallenge('');
+    setTwoFactorCode('');
+    setTwoFactorSetup(null);
+    setRecoveryCodes([]);
+    setError(null);
+    router.replace('/login');
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError(null);
@@ -179,23 +283,13 @@ function LoginPageClient() {
       });
 
       if (res.ok) {
-        // 记录登入时间
-        const loginTime = Date.now();
-        try {
-          await fetch('/api/user/my-stats', {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ loginTime })
-          });
-          // 更新 localStorage 记录
-          localStorage.setItem('lastRecordedLogin', loginTime.toString());
-        } catch (error) {
-          console.log('记录登入时间失败:', error);
-          // 登入时间记录失败不影响正常登录流程
+        const data = await res.json().catch(() => ({}));
+        if (data.twoFactor && data.challenge) {
+          setTwoFactorStep(data.twoFactor);
+          setTwoFactorChallenge(data.challenge);
+          return;
         }
-
-        const redirect = searchParams.get('redirect') || '/';
-        router.replace(redirect);
+        await completeLogin();
       } else if (res.status === 401) {
         setError('密码错误');
       } else {
@@ -295,6 +389,101 @@ function LoginPageClient() {
           <p className='text-gray-600 dark:text-gray-400 text-xs sm:text-sm font-medium'>欢迎回来，请登录您的账户</p>
         </div>
 
+        {twoFactorChallenge ? (
+          recoveryCodes.length > 0 ? (
+            /* 首次绑定后的恢复码 */
+            <div className='space-y-4 sm:space-y-5'>
+              <div className='flex items-center gap-2 text-green-700 dark:text-green-400'>
+                <CheckCircle className='h-5 w-5 shrink-0' />
+                <p className='text-sm font-semibold'>双重验证已启用</p>
+              </div>
+              <p className='text-xs sm:text-sm text-gray-600 dark:text-gray-400'>
+                请妥善保存以下恢复码。手机丢失时可用任一恢复码代替验证码登录，每个恢复码只能使用一次，关闭后将无法再次查看。
+              </p>
+              <div className='grid grid-cols-2 gap-2 p-3 rounded-lg bg-gray-50 dark:bg-zinc-800/80 font-mono text-sm text-gray-900 dark:text-gray-100 select-all'>
+                {recoveryCodes.map((code) => (
+                  <span key={code}>{code}</span>
+                ))}
+              </div>
+              <button
+                type='button'
+                onClick={completeLogin}
+                className='inline-flex w-full justify-center items-center gap-2 rounded-lg sm:rounded-xl bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 py-2.5 sm:py-3.5 text-sm sm:text-base font-semibold text-white shadow-lg shadow-green-500/30 transition-all duration-300'
+              >
+                我已保存，继续
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleTwoFactorSubmit} className='space-y-4 sm:space-y-6'>
+              <div className='flex items-center gap-2 text-gray-800 dark:text-gray-200'>
+                <ShieldCheck className='h-5 w-5 text-green-600 dark:text-green-400 shrink-0' />
+                <p className='text-sm sm:text-base font-semibold'>
+                  {twoFactorStep === 'setup' ? '绑定双重验证' : '双重验证'}
+                </p>
+              </div>
+
+              {twoFactorStep === 'setup' ? (
+                <div className='space-y-3'>
+                  <p className='text-xs sm:text-sm text-gray-600 dark:text-gray-400'>
+                    管理员要求您的账户启用双重验证。请使用验证器 App（如 Google Authenticator、Microsoft Authenticator）扫描二维码，然后输入显示的 6 位验证码。
+                  </p>
+                  {twoFactorSetup ? (
+                    <div className='flex flex-col items-center gap-2'>
+                      <QrCode value={twoFactorSetup.otpauthUrl} size={176} className='rounded-lg' />
+                      <p className='text-[11px] sm:text-xs text-gray-500 dark:text-gray-400 break-all text-center'>
+                        无法扫码？手动输入密钥：<span className='font-mono select-all'>{twoFactorSetup.secret}</span>
+                      </p>
+                    </div>
+                  ) : (
+                    !error && (
+                      <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>加载中...</p>
+                    )
+                  )}
+                </div>
+              ) : (
+                <p className='text-xs sm:text-sm text-gray-600 dark:text-gray-400'>
+                  请输入验证器 App 中显示的 6 位验证码，或使用一个恢复码。
+                </p>
+              )}
+
+              <input
+                id='twoFactorCode'
+                type='text'
+                inputMode={twoFactorStep === 'setup' ? 'numeric' : 'text'}
+                autoComplete='one-time-code'
+                autoFocus
+                className='block w-full px-3 sm:px-4 py-2.5 sm:py-3.5 rounded-lg sm:rounded-xl border-0 text-center tracking-widest font-mono text-gray-900 dark:text-gray-100 shadow-sm ring-2 ring-white/60 dark:ring-white/10 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-green-500 dark:focus:ring-green-400 focus:outline-none text-base bg-white/80 dark:bg-zinc-800/80 backdrop-blur'
+                placeholder={twoFactorStep === 'setup' ? '6 位验证码' : '验证码或恢复码'}
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+              />
+
+              {error && (
+                <div className='flex items-center gap-2 p-2.5 sm:p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 animate-slide-down'>
+                  <AlertCircle className='h-4 w-4 text-red-600 dark:text-red-400 shrink-0' />
+                  <p className='text-xs sm:text-sm text-red-600 dark:text-red-400'>{error}</p>
+                </div>
+              )}
+
+              <button
+                type='submit'
+                disabled={!twoFactorCode.trim() || loading || (twoFactorStep === 'setup' && !twoFactorSetup)}
+                className='inline-flex w-full justify-center items-center gap-2 rounded-lg sm:rounded-xl bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 py-2.5 sm:py-3.5 text-sm sm:text-base font-semibold text-white shadow-lg shadow-green-500/30 transition-all duration-300 disabled:cursor-not-allowed disabled:opacity-50'
+              >
+                <ShieldCheck className='h-4 w-4 sm:h-5 sm:w-5' />
+                {loading ? '验证中...' : '验证'}
+              </button>
+
+              <button
+                type='button'
+                onClick={resetTwoFactor}
+                className='w-full text-center text-xs sm:text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              >
+                返回重新登录
+              </button>
+            </form>
+          )
+        ) : (
         <form onSubmit={handleSubmit} className='space-y-4 sm:space-y-6'>
           {shouldAskUsername && (
             <div className='group'>
@@ -375,9 +564,10 @@ function LoginPageClient() {
             </div>
           )}
         </form>
+        )}
 
         {/* Telegram Magic Link 登录 */}
-        {telegramEnabled && (
+        {telegramEnabled && !twoFactorChallenge && (
           <div className='mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-gray-200 dark:border-gray-700'>
             <p className='text-center text-gray-600 dark:text-gray-400 text-xs sm:text-sm mb-3 sm:mb-4'>
               或使用 Telegram 登录
@@ -438,7 +628,7 @@ function LoginPageClient() {
         )}
 
         {/* OIDC 登录 */}
-        {oidcEnabled && shouldAskUsername && (
+        {oidcEnabled && shouldAskUsername && !twoFactorChallenge && (
           <div className='mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-gray-200 dark:border-gray-700'>
             <div className='relative'>
               <div className='absolute inset-0 flex items-center'>
@@ -33,6 +33,7 @@ import VideoCoverDisplay from '@/components/play/VideoCoverDisplay';
 import PlayErrorDisplay from '@/components/play/PlayErrorDisplay';
 import Toast, { ToastProps } from '@/components/play/Toast';
 import DanmuSettingsPanel from '@/components/play/DanmuSettingsPanel';
+import { AdFilterRule, applyAdFilterRules, DEFAULT_AD_FILTER_RULES, normalizeAdFilterRules } from '@/lib/ad-filter';
 import artplayerPluginChromecast from '@/lib/artplayer-plugin-chromecast';
 import artplayerPluginLiquidGlass from '@/lib/artplayer-plugin-liquid-glass';
 import { ClientCache } from '@/lib/client-cache';
@@ -50,6 +51,13 @@ import {
 import { getDoubanDetails, getDoubanComments, getDoubanActorMovies } from '@/lib/douban.client';
 import { SearchResult } from '@/lib/types';
 import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
+import { isM3U8Url, isVodProxySource } from '@/lib/vod-proxy';
+import {
+  findStableWorkEntries,
+  findWorkEntries,
+  splitWorkEntryKey,
+  WorkRef,
+} from '@/lib/work-identity';
 import { useWatchRoomContextSafe } from '@/components/WatchRoomProvider';
 import { useWatchRoomSync } from './hooks/useWatchRoomSync';
 
@@ -71,7 +79,7 @@ interface WakeLockSentinel {
 function PlayPageClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { createTask, setShowDownloadPanel } = useDownload();
+  const { createTask, createBatchTasks, setShowDownloadPanel } = useDownload();
   const watchRoom = useWatchRoomContextSafe();
   const [toast, setToast] = useState<ToastProps | null>(null)
 
@@ -149,6 +157,7 @@ function PlayPageClient() {
 
   // 下载功能启用状态
   const [downloadEnabled, setDownloadEnabled] = useState(true);
+  const [serverDownloadEnabled, setServerDownloadEnabled] = useState(false);
 
   // 视频分辨率状态
   const [videoResolution, setVideoResolution] = useState<{ width: number; height: number } | null>(null);
@@ -170,10 +179,9 @@ function PlayPageClient() {
   });
   const blockAdEnabledRef = useRef(blockAdEnabled);
 
-  // 自定义去广告代码
-  const [customAdFilterCode, setCustomAdFilterCode] = useState<string>('');
-  const [customAdFilterVersion, setCustomAdFilterVersion] = useState<number>(1);
-  const customAdFilterCodeRef = useRef(customAdFilterCode);
+  // 自定义去广告规则（为空时使用默认规则）
+  const [customAdFilterRules, setCustomAdFilterRules] = useState<AdFilterRule[]>([]);
+  const customAdFilterRulesRef = useRef(customAdFilterRules);
 
 
   // Anime4K超分相关状态
@@ -207,6 +215,7 @@ function PlayPageClient() {
         if (response.ok) {
           const config = await response.json();
           setDownloadEnabled(config.DownloadEnabled ?? true);
+          setServerDownloadEnabled(config.ServerDownloadEnabled ?? false);
         }
       } catch (error) {
         console.error('获取服务器配置失败:', error);
@@ -358,6 +367,26 @@ function PlayPageClient() {
   const detailRef = useRef<SearchResult | null>(detail);
   const currentEpisodeIndexRef = useRef(currentEpisodeIndex);
 
+  // 🎬 当前作品身份：换源后仍能找到同一作品的播放记录和收藏
+  const getCurrentWorkRef = (): WorkRef => ({
+    title: detailRef.current?.title || videoTitleRef.current,
+    year: detailRef.current?.year || videoYearRef.current,
+    douban_id: videoDoubanIdRef.current || detailRef.current?.douban_id || undefined,
+    work_id: detailRef.current?.work_id,
+    work_key: detailRef.current?.work_key,
+    total_episodes: detailRef.current?.episodes?.length,
+  });
+
+  // ⚖️ 当前播放地址的播放效果（离开该地址时上报，用于自适应源权重）
+  const playbackOutcomeRef = useRef<{
+    source: string;
+    url: string;
+    startedAt: number;
+    ttffMs: number | null;
+    stalls: number;
+    fatal: boolean;
+  } | null>(null);
+
   // ArtPlayer ref
   const artPlayerRef = useRef<any>(null);
   const artRef = useRef<HTMLDivElement | null>(null);
@@ -388,7 +417,7 @@ function PlayPageClient() {
   // ✅ 合并所有 ref 同步的 useEffect - 减少不必要的渲染
   useEffect(() => {
     blockAdEnabledRef.current = blockAdEnabled;
-    customAdFilterCodeRef.current = customAdFilterCode;
+    customAdFilterRulesRef.current = customAdFilterRules;
     externalDanmuEnabledRef.current = externalDanmuEnabled;
     needPreferRef.current = needPrefer;
     currentSourceRef.current = currentSource;
@@ -401,7 +430,7 @@ function PlayPageClient() {
     availableSourcesRef.current = availableSources;
   }, [
     blockAdEnabled,
-    customAdFilterCode,
+    customAdFilterRules,
     externalDanmuEnabled,
     needPrefer,
     currentSource,
@@ -527,59 +556,59 @@ function PlayPageClient() {
     }
   }, [detail, currentEpisodeIndex, artPlayerRef.current]);
 
-  // 获取自定义去广告代码
+  // 获取自定义去广告规则
   useEffect(() => {
-    const fetchAdFilterCode = async () => {
+    const fetchAdFilterRules = async () => {
       try {
-        // 从缓存读取去广告代码和版本号
-        const cachedCode = localStorage.getItem('customAdFilterCode');
+        // 旧版自定义代码已不再执行，清理残留缓存
+        localStorage.removeItem('customAdFilterCode');
+
+        // 从缓存读取去广告规则和版本号
+        const cachedRules = localStorage.getItem('customAdFilterRules');
         const cachedVersion = localStorage.getItem('customAdFilterVersion');
 
-        if (cachedCode && cachedVersion) {
-          setCustomAdFilterCode(cachedCode);
-          setCustomAdFilterVersion(parseInt(cachedVersion));
-          console.log('使用缓存的去广告代码');
+        if (cachedRules && cachedVersion) {
+          setCustomAdFilterRules(normalizeAdFilterRules(JSON.parse(cachedRules)));
+          console.log('使用缓存的去广告规则');
         }
 
         // 从 window.RUNTIME_CONFIG 获取版本号
         const version = (window as any).RUNTIME_CONFIG?.CUSTOM_AD_FILTER_VERSION || 0;
 
-        // 如果版本号为 0，说明去广告未设置，清空缓存并跳过
+        // 如果版本号为 0，说明未设置自定义规则，清空缓存并使用默认规则
         if (version === 0) {
-          localStorage.removeItem('customAdFilterCode');
+          localStorage.removeItem('customAdFilterRules');
           localStorage.removeItem('customAdFilterVersion');
-          setCustomAdFilterCode('');
-          setCustomAdFilterVersion(0);
+          setCustomAdFilterRules([]);
           return;
         }
 
-        // 如果缓存版本号与服务器版本号不一致，获取最新代码
-        if (!cachedVersion || parseInt(cachedVersion) !== version) {
-          console.log('检测到去广告代码更新（版本 ' + version + '），获取最新代码');
+        // 如果缓存版本号与服务器版本号不一致，获取最新规则
+        if (!cachedRules || !cachedVersion || parseInt(cachedVersion) !== version) {
+          console.log('检测到去广告规则更新（版本 ' + version + '），获取最新规则');
 
-          // 获取完整代码
           const fullResponse = await fetch('/api/ad-filter?full=true');
           if (!fullResponse.ok) {
-            console.warn('获取完整去广告代码失败，使用缓存');
+            console.warn('获取去广告规则失败，使用缓存');
             return;
           }
 
-          const { code, version: newVersion } = await fullResponse.json();
+          const { rules, version: newVersion } = await fullResponse.json();
+          const normalized = normalizeAdFilterRules(rules);
 
           // 更新缓存和状态
-          localStorage.setItem('customAdFilterCode', code || '');
+          localStorage.setItem('customAdFilterRules', JSON.stringify(normalized));
           localStorage.setItem('customAdFilterVersion', String(newVersion || 0));
-          setCustomAdFilterCode(code || '');
-          setCustomAdFilterVersion(newVersion || 0);
+          setCustomAdFilterRules(normalized);
 
-          console.log('去广告代码已更新到版本 ' + newVersion);
+          console.log('去广告规则已更新到版本 ' + newVersion);
         }
       } catch (error) {
-        console.error('获取自定义去广告代码失败:', error);
+        console.error('获取自定义去广告规则失败:', error);
       }
     };
 
-    fetchAdFilterCode();
+    fetchAdFilterRules();
   }, []);
 
   // WebGPU支持检测
@@ -836,6 +865,8 @@ function PlayPageClient() {
   // 播放进度保存相关
   const saveIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastSaveTimeRef = useRef<number>(0);
+  // 已合并过其他源播放记录的记录键，换源后首次保存时才需要再次合并
+  const mergedPlayRecordKeyRef = useRef<string | null>(null);
 
   // 🚀 连续切换源防抖和资源管理
   const episodeSwitchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -1333,6 +1364,50 @@ function PlayPageClient() {
     }
   };
 
+  // 上报当前播放地址的播放效果（只包含源和播放指标）
+  const reportPlaybackOutcome = (switched: boolean) => {
+    const outcome = playbackOutcomeRef.current;
+    playbackOutcomeRef.current = null;
+    if (!outcome) return;
+
+    // 未出画面且很快离开（如切集、误点），没有参考价值
+    if (!switched && !outcome.fatal && outcome.ttffMs === null && Date.now() - outcome.startedAt < 5000) {
+      return;
+    }
+
+    const body = JSON.stringify({
+      source: outcome.source,
+      ttffMs: outcome.ttffMs,
+      stalls: outcome.stalls,
+      fatal: outcome.fatal,
+      switched,
+    });
+    try {
+      if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
+        navigator.sendBeacon('/api/source-weights/report', body);
+      } else {
+        fetch('/api/source-weights/report', { method: 'POST', body, keepalive: true }).catch(() => undefined);
+      }
+    } catch (_) {
+      // 上报失败不影响播放
+    }
+  };
+
+  // 开始记录新播放地址的播放效果（同一地址重建播放器时继续沿用）
+  const beginPlaybackOutcome = (source: string, url: string) => {
+    const current = playbackOutcomeRef.current;
+    if (current && current.source === source && current.url === url) return;
+    reportPlaybackOutcome(false);
+    playbackOutcomeRef.current = {
+      source,
+      url,
+      startedAt: Date.now(),
+      ttffMs: null,
+      stalls: 0,
+      fatal: false,
+    };
+  };
+
   // 按权重排序源（权重高的在前）
   const sortSourcesByWeight = (sources: SearchResult[], weights: Record<string, number>): SearchResult[] => {
     return [...sources].sort((a, b) => {
@@ -2262,87 +2337,28 @@ function PlayPageClient() {
     }
   };
 
-  // 去广告相关函数
-  function filterAdsFromM3U8(m3u8Content: string): string {
+  // 去广告相关函数：按后台配置的规则过滤，未配置时使用默认规则
+  function filterAdsFromM3U8(m3u8Content: string, playlistUrl?: string): string {
     if (!m3u8Content) return '';
 
-    // 如果有自定义去广告代码，优先使用
-    const customCode = customAdFilterCodeRef.current;
-    if (customCode && customCode.trim()) {
-      try {
-        // 移除 TypeScript 类型注解,转换为纯 JavaScript
-        const jsCode = customCode
-          .replace(/(\w+)\s*:\s*(string|number|boolean|any|void|never|unknown|object)\s*([,)])/g, '$1$3')
-          .replace(/\)\s*:\s*(string|number|boolean|any|void|never|unknown|object)\s*\{/g, ') {')
-          .replace(/(const|let|var)\s+(\w+)\s*:\s*(string|number|boolean|any|void|never|unknown|object)\s*=/g, '$1 $2 =');
-
-        // 创建并执行自定义函数
-        // eslint-disable-next-line no-new-func
-        const customFunction = new Function('type', 'm3u8Content',
-          jsCode + '\nreturn filterAdsFromM3U8(type, m3u8Content);'
-        );
-        const result = customFunction(currentSourceRef.current, m3u8Content);
-        console.log('✅ 使用自定义去广告代码');
-        return result;
-      } catch (err) {
-        console.error('执行自定义去广告代码失败,降级使用默认规则:', err);
-        // 继续使用默认规则
-      }
-    }
-
-    // 默认去广告规则
-    if (!m3u8Content) return '';
-
-    // 广告关键字列表
-    const adKeywords = [
-      'sponsor',
-      '/ad/',
-      '/ads/',
-      'advert',
-      'advertisement',
-      '/adjump',
-      'redtraffic'
-    ];
-
-    // 按行分割M3U8内容
-    const lines = m3u8Content.split('\n');
-    const filteredLines = [];
-
-    let i = 0;
-    while (i < lines.length) {
-      const line = lines[i];
-
-      // 跳过 #EXT-X-DISCONTINUITY 标识
-      if (line.includes('#EXT-X-DISCONTINUITY')) {
-        i++;
-        continue;
-      }
-
-      // 如果是 EXTINF 行，检查下一行 URL 是否包含广告关键字
-      if (line.includes('#EXTINF:')) {
-        // 检查下一行 URL 是否包含广告关键字
-        if (i + 1 < lines.length) {
-          const nextLine = lines[i + 1];
-          const containsAdKeyword = adKeywords.some(keyword =>
-            nextLine.toLowerCase().includes(keyword.toLowerCase())
-          );
-
-          if (containsAdKeyword) {
-            // 跳过 EXTINF 行和 URL 行
-            i += 2;
-            continue;
-          }
-        }
-      }
-
-      // 保留当前行
-      filteredLines.push(line);
-      i++;
+    const rules = customAdFilterRulesRef.current.length > 0
+      ? customAdFilterRulesRef.current
+      : DEFAULT_AD_FILTER_RULES;
+    const result = applyAdFilterRules(m3u8Content, rules, {
+      source: currentSourceRef.current,
+      baseUrl: playlistUrl,
+    });
+    if (result.removedCount > 0) {
+      console.log(`🛡️ 去广告：移除 ${result.removedCount} 个分片（${Math.round(result.removedDuration)} 秒）`);
     }
-
-    return filteredLines.join('\n');
+    return result.content;
   }
 
+  // 片头片尾识别使用与播放器相同的去广告结果，识别出的时间才与实际播放时间一致
+  const skipDetectionPlaylistFilterRef = useRef(
+    (content: string, url: string) => (blockAdEnabledRef.current ? filterAdsFromM3U8(content, url) : content)
+  );
+
   const formatTime = (seconds: number): string => {
     if (seconds === 0) return '00:00';
 
@@ -2382,7 +2398,7 @@ function PlayPageClient() {
             // 如果是m3u8文件，处理内容以移除广告分段
             if (response.data && typeof response.data === 'string') {
               // 过滤掉广告段 - 实现更精确的广告过滤逻辑
-              response.data = filterAdsFromM3U8(response.data);
+              response.data = filterAdsFromM3U8(response.data, context.url);
             }
             return onSuccess(response, stats, context, null);
           };
@@ -2921,7 +2937,9 @@ function PlayPageClient() {
       try {
         const allRecords = await getAllPlayRecords();
         const key = generateStorageKey(currentSource, currentId);
-        const record = allRecords[key];
+        // 当前源没有记录时，沿用同一作品在其他源的进度
+        const record =
+          allRecords[key] || findWorkEntries(allRecords, getCurrentWorkRef())[0]?.[1];
 
         if (record) {
           const targetIndex = record.index - 1;
@@ -2959,6 +2977,9 @@ function PlayPageClient() {
       // 🚀 设置换源标识，防止useEffect重复处理弹幕
       isSourceChangingRef.current = true;
 
+      // 记录旧源的播放效果（用户主动换源）
+      reportPlaybackOutcome(true);
+
       // 显示换源加载状态
       setVideoLoadingStage('sourceChanging');
       setIsVideoLoading(true);
@@ -3386,11 +3407,13 @@ function PlayPageClient() {
     }
 
     try {
-      // 获取现有播放记录以保持原始集数
-      const existingRecord = await getAllPlayRecords().then(records => {
-        const key = generateStorageKey(currentSourceRef.current, currentIdRef.current);
-        return records[key];
-      }).catch(() => null);
+      // 获取现有播放记录以保持原始集数（当前源没有时取同一作品在其他源的记录）
+      const currentKey = generateStorageKey(currentSourceRef.current, currentIdRef.current);
+      const workRef = getCurrentWorkRef();
+      const allRecords = await getAllPlayRecords().catch(() => ({}));
+      const needsMerge = mergedPlayRecordKeyRef.current !== currentKey;
+      const sameWorkRecords = needsMerge ? findWorkEntries(allRecords, workRef, currentKey) : [];
+      const existingRecord = allRecords[currentKey] || sameWorkRecords[0]?.[1];
 
       const currentTotalEpisodes = detailRef.current?.episodes.length || 1;
 
@@ -3421,8 +3444,17 @@ function PlayPageClient() {
         remarks: remarksToSave, // 优先使用搜索结果的 remarks，因为详情接口可能没有
         douban_id: videoDoubanIdRef.current || detailRef.current?.douban_id || undefined, // 添加豆瓣ID
         type: searchType || undefined, // 保存内容类型（anime/tv/movie）用于继续播放时正确请求详情
+        work_id: workRef.work_id,
+        work_key: workRef.work_key,
       });
 
+      // 同一作品只保留一条播放记录（换源后首次保存时把旧源的记录合并到当前源）
+      for (const [key] of sameWorkRecords) {
+        const parts = splitWorkEntryKey(key);
+        if (parts) await deletePlayRecord(parts[0], parts[1]);
+      }
+      mergedPlayRecordKeyRef.current = currentKey;
+
       lastSaveTimeRef.current = Date.now();
       console.log('播放进度已保存:', {
         title: videoTitleRef.current,
@@ -3439,6 +3471,7 @@ function PlayPageClient() {
     // 页面即将卸载时保存播放进度和清理资源
     const handleBeforeUnload = () => {
       saveCurrentPlayProgress();
+      reportPlaybackOutcome(false);
       releaseWakeLock();
       cleanupPlayer(); // 不await，让它异步执行
     };
@@ -3494,14 +3527,16 @@ function PlayPageClient() {
           shortdramaId ? `shortdrama+${shortdramaId}` : null, // 短剧收藏
         ].filter(Boolean);
 
-        // 检查是否任一key已被收藏
-        const fav = possibleKeys.some(key => !!favorites[key as string]);
+        // 检查是否任一key已被收藏，或在其他源收藏过同一作品（按豆瓣 ID，与取消收藏的范围一致）
+        const fav =
+          possibleKeys.some(key => !!favorites[key as string]) ||
+          findStableWorkEntries(favorites, getCurrentWorkRef()).length > 0;
         setFavorited(fav);
       } catch (err) {
         console.error('检查收藏状态失败:', err);
       }
     })();
-  }, [currentSource, currentId, videoDoubanId, shortdramaId]);
+  }, [currentSource, currentId, videoDoubanId, shortdramaId, detail]);
 
   // 监听收藏数据更新事件（支持豆瓣/Bangumi等虚拟源）
   useEffect(() => {
@@ -3518,14 +3553,16 @@ function PlayPageClient() {
           shortdramaId ? `shortdrama+${shortdramaId}` : null, // 短剧收藏
         ].filter(Boolean);
 
-        // 检查是否任一key已被收藏
-        const isFav = possibleKeys.some(key => !!favorites[key as string]);
+        // 检查是否任一key已被收藏，或在其他源收藏过同一作品（按豆瓣 ID，与取消收藏的范围一致）
+        const isFav =
+          possibleKeys.some(key => !!favorites[key as string]) ||
+          findStableWorkEntries(favorites, getCurrentWorkRef()).length > 0;
         setFavorited(isFav);
       }
     );
 
     return unsubscribe;
-  }, [currentSource, currentId, videoDoubanId, shortdramaId]);
+  }, [currentSource, currentId, videoDoubanId, shortdramaId, detail]);
 
   // 自动更新收藏的集数和片源信息（支持豆瓣/Bangumi/短剧等虚拟源）
   useEffect(() => {
@@ -3608,6 +3645,8 @@ function PlayPageClient() {
             releaseDate: favoriteToUpdate.releaseDate,
             remarks: favoriteToUpdate.remarks,
             type: contentType,
+            work_id: detail.work_id || favoriteToUpdate.work_id,
+            work_key: detail.work_key || favoriteToUpdate.work_key,
           });
 
           console.log('✅ 收藏数据更新成功');
@@ -3632,8 +3671,13 @@ function PlayPageClient() {
 
     try {
       if (favorited) {
-        // 如果已收藏，删除收藏
+        // 如果已收藏，删除收藏（包括在其他源收藏的同一作品，只按豆瓣 ID 匹配，避免误删同名作品）
         await deleteFavorite(currentSourceRef.current, currentIdRef.current);
+        const favorites = await getAllFavorites();
+        for (const [key] of findStableWorkEntries(favorites, getCurrentWorkRef())) {
+          const parts = splitWorkEntryKey(key);
+          if (parts) await deleteFavorite(parts[0], parts[1]);
+        }
         setFavorited(false);
       } else {
         // 根据 type_name 推断内容类型
@@ -3666,6 +3710,8 @@ function PlayPageClient() {
           save_time: Date.now(),
           search_title: searchTitle,
           type: contentType,
+          work_id: detailRef.current?.work_id,
+          work_key: detailRef.current?.work_key,
         });
         setFavorited(true);
       }
@@ -3747,6 +3793,8 @@ function PlayPageClient() {
         '投屏策略': isIOS || isSafari ? '🍎 AirPlay (WebKit)' : isChrome ? '📺 Chromecast (Cast API)' : '❌ 不支持投屏'
       });
 
+      beginPlaybackOutcome(currentSourceRef.current, videoUrl);
+
       // 🚀 优化连续切换：防抖机制 + 资源管理
       if (artPlayerRef.current && !loading) {
         try {
@@ -4025,6 +4073,9 @@ function PlayPageClient() {
                       break;
                     default:
                       console.log('无法恢复的错误');
+                      if (playbackOutcomeRef.current) {
+                        playbackOutcomeRef.current.fatal = true;
+                      }
                       hls.destroy();
                       break;
                   }
@@ -4347,6 +4398,23 @@ function PlayPageClient() {
               artplayerPluginChromecast({
                 title: videoTitle ? `${videoTitle}${currentEpisodeIndex >= 0 ? ` - 第${currentEpisodeIndex + 1}集` : ''}` : undefined,
                 poster: videoCover || undefined,
+                resolveUrl: async (url) => {
+                  const source = currentSourceRef.current;
+                  if (!isM3U8Url(url) || !isVodProxySource(source)) return url;
+                  // 代理地址需要服务器签名，获取失败时投屏原地址
+                  try {
+                    const response = await fetch(
+                      `/api/vod-proxy-url?source=${encodeURIComponent(source)}&url=${encodeURIComponent(url)}`
+                    );
+                    if (response.ok) {
+                      const data = await response.json();
+                      if (data.url) return data.url;
+                    }
+                  } catch (error) {
+                    console.warn('获取投屏代理地址失败:', error);
+                  }
+                  return url;
+                },
                 onStateChange: (state) => {
                   console.log('Chromecast state changed:', state);
                 },
@@ -5067,6 +5135,21 @@ function PlayPageClient() {
           }
         });
 
+        // 记录首帧耗时和出画面后的卡顿次数
+        artPlayerRef.current.on('video:playing', () => {
+          const outcome = playbackOutcomeRef.current;
+          if (outcome && outcome.ttffMs === null) {
+            outcome.ttffMs = Date.now() - outcome.startedAt;
+          }
+        });
+
+        artPlayerRef.current.on('video:waiting', () => {
+          const outcome = playbackOutcomeRef.current;
+          if (outcome && outcome.ttffMs !== null && !artPlayerRef.current?.video?.seeking) {
+            outcome.stalls++;
+          }
+        });
+
         // 监听视频可播放事件，这时恢复播放进度更可靠
         artPlayerRef.current.on('video:canplay', () => {
           // 🔥 重置 video:ended 处理标志，因为这是新视频
@@ -5206,6 +5289,9 @@ function PlayPageClient() {
         // 监听播放器错误
         artPlayerRef.current.on('error', (err: any) => {
           console.error('播放器错误:', err);
+          if (playbackOutcomeRef.current) {
+            playbackOutcomeRef.current.fatal = true;
+          }
           if (artPlayerRef.current.currentTime > 0) {
             return;
           }
@@ -5339,6 +5425,9 @@ function PlayPageClient() {
       // 清理Anime4K
       cleanupAnime4K();
 
+      // 上报最后一个播放地址的播放效果
+      reportPlaybackOutcome(false);
+
       // 销毁播放器实例
       cleanupPlayer();
     };
@@ -5495,6 +5584,8 @@ function PlayPageClient() {
                         isSettingMode={isSkipSettingOpen}
                         onSettingModeChange={setIsSkipSettingOpen}
                         onNextEpisode={handleNextEpisode}
+                        episodes={detail.episodes}
+                        filterPlaylist={skipDetectionPlaylistFilterRef.current}
                       />
                     )}
 
@@ -5762,6 +5853,46 @@ function PlayPageClient() {
                   sourceSearchLoading={sourceSearchLoading}
                   sourceSearchError={sourceSearchError}
                   precomputedVideoInfo={precomputedVideoInfo}
+                  hasSubtitles={!!detail?.subtitles?.some((list) => list?.length > 0)}
+                  onBatchDownload={
+                    downloadEnabled && (detail?.episodes?.length || 0) > 1
+                      ? async (episodeIndexes, options) => {
+                        const items = episodeIndexes
+                          .filter((index) => detail?.episodes[index]?.includes('.m3u8'))
+                          .map((index) => ({
+                            url: detail!.episodes[index],
+                            episode: index + 1,
+                            episodeTitle: detail?.episodes_titles?.[index],
+                            subtitles: detail?.subtitles?.[index] || [],
+                          }));
+                        if (items.length === 0) {
+                          setToast({ message: '所选剧集均不是 M3U8 格式，无法下载', type: 'error', onClose: () => setToast(null) });
+                          return;
+                        }
+                        if (items.length < episodeIndexes.length) {
+                          setToast({
+                            message: `${episodeIndexes.length - items.length} 集不是 M3U8 格式，已跳过`,
+                            type: 'info',
+                            onClose: () => setToast(null),
+                          });
+                        }
+                        // 逐集下载耗时较长，不等待完成，进度在下载管理中查看
+                        createBatchTasks(items, {
+                          title: videoTitle || '视频',
+                          source: detail?.source_name || currentSource,
+                          output: options.output,
+                          includeSubtitles: options.includeSubtitles,
+                        }).catch((error) => {
+                          console.error('批量下载失败:', error);
+                          setToast({
+                            message: '批量下载失败: ' + (error as Error).message,
+                            type: 'error',
+                            onClose: () => setToast(null),
+                          });
+                        });
+                      }
+                      : undefined
+                  }
                 />
               </div>
             </div>
@@ -6103,6 +6234,35 @@ function PlayPageClient() {
         episodesTitles={detail?.episodes_titles || []}
         videoTitle={videoTitle || '视频'}
         currentEpisodeIndex={currentEpisodeIndex}
+        onServerDownload={
+          serverDownloadEnabled && detail?.episodes?.length && !isDirectPlay
+            ? async (episodeIndexes) => {
+              try {
+                const response = await fetch('/api/downloads', {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ source: currentSource, id: currentId, episodes: episodeIndexes }),
+                });
+                const data = await response.json();
+                if (!response.ok) {
+                  throw new Error(data.error || '添加离线下载失败');
+                }
+                setToast({
+                  message: `已添加 ${data.jobs.length} 集到离线下载${data.skipped ? `，跳过 ${data.skipped} 集` : ''}`,
+                  type: 'success',
+                  onClose: () => setToast(null),
+                });
+              } catch (error) {
+                console.error('添加离线下载失败:', error);
+                setToast({
+                  message: error instanceof Error ? error.message : '添加离线下载失败',
+                  type: 'error',
+                  onClose: () => setToast(null),
+                });
+              }
+            }
+            : undefined
+        }
         onDownload={async (episodeIndexes) => {
           if (!detail?.episodes || detail.episodes.length === 0) {
             // 单集视频，直接下载当前
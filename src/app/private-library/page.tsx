@@ -8,10 +8,11 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 
 import CapsuleSwitch from '@/components/CapsuleSwitch';
+import LiveRecordingLibrary from '@/components/LiveRecordingLibrary';
 import PageLayout from '@/components/PageLayout';
 import VideoCard from '@/components/VideoCard';
 
-type LibrarySourceType = 'emby' | `emby:${string}` | `emby_${string}`;
+type LibrarySourceType = 'emby' | `emby:${string}` | `emby_${string}` | 'recordings';
 
 interface EmbySourceOption {
   key: string;
@@ -50,9 +51,15 @@ export default function PrivateLibraryPage() {
     return { EMBY_ENABLED: false };
   }, []);
 
+  // 直播录制保存在服务端，本地存储模式下不可用
+  const recordingsEnabled = (runtimeConfig.STORAGE_TYPE || 'localstorage') !== 'localstorage';
+
   // 解析URL中的source参数（支持 emby:emby1 格式）
   const parseSourceParam = (sourceParam: string | null): { sourceType: LibrarySourceType; embyKey?: string } => {
-    if (!sourceParam) return { sourceType: 'emby' };
+    if (!sourceParam) {
+      // 未配置 Emby 时默认打开直播录制
+      return { sourceType: !runtimeConfig.EMBY_ENABLED && recordingsEnabled ? 'recordings' : 'emby' };
+    }
 
     if (sourceParam.includes(':')) {
       const [type, key] = sourceParam.split(':');
@@ -383,6 +390,12 @@ export default function PrivateLibraryPage() {
         abortControllerRef.current.abort();
       }
 
+      // 直播录制由独立组件加载
+      if (sourceType === 'recordings') {
+        setLoading(false);
+        return;
+      }
+
       // 如果选择了 emby 但未配置或没有embyKey，不发起请求
       if (sourceType === 'emby' && (!runtimeConfig.EMBY_ENABLED || !embyKey)) {
         setLoading(false);
@@ -527,12 +540,13 @@ export default function PrivateLibraryPage() {
           )}
         </div>
 
-        {/* 第一级：源类型选择（仅 Emby） */}
+        {/* 第一级：源类型选择（Emby / 直播录制） */}
         {mounted && (
           <div className='mb-6 flex justify-center'>
             <CapsuleSwitch
               options={[
                 ...(runtimeConfig.EMBY_ENABLED ? [{ label: 'Emby', value: 'emby' }] : []),
+                ...(recordingsEnabled ? [{ label: '直播录制', value: 'recordings' }] : []),
               ]}
               active={sourceType}
               onChange={(value) => setSourceType(value as LibrarySourceType)}
@@ -741,7 +755,9 @@ export default function PrivateLibraryPage() {
           </div>
         )}
 
-        {loading ? (
+        {sourceType === 'recordings' ? (
+          <LiveRecordingLibrary />
+        ) : loading ? (
           // Emby 加载骨架屏 - 海报卡片样式
           <div className='grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4'>
             {Array.from({ length: pageSize }).map((_, index) => (
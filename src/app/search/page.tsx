@@ -13,6 +13,7 @@ import {
   subscribeToDataUpdates,
 } from '@/lib/db.client';
 import { SearchResult } from '@/lib/types';
+import { clusterByWork } from '@/lib/work-identity';
 
 import PageLayout from '@/components/PageLayout';
 import SearchResultFilter, { SearchFilterCategory } from '@/components/SearchResultFilter';
@@ -62,6 +63,8 @@ function SearchPageClient() {
   const [completedSources, setCompletedSources] = useState(0);
   const pendingResultsRef = useRef<SearchResult[]>([]);
   const flushTimerRef = useRef<number | null>(null);
+  // 本地索引先行返回的结果（source+id），对应源的实时结果到达后被替换
+  const indexResultKeysRef = useRef<Set<string>>(new Set());
   const [useFluidSearch, setUseFluidSearch] = useState(true);
   // 虚拟化开关状态
   const [useVirtualization, setUseVirtualization] = useState(() => {
@@ -204,6 +207,19 @@ function SearchPageClient() {
   };
 
   // 在“无排序”场景用于每个源批次的预排序：完全匹配标题优先，其次年份倒序，未知年份最后
+  // 合并实时结果：移除同一源中由本地索引先行返回的结果，避免重复
+  const mergeLiveResults = (prev: SearchResult[], incoming: SearchResult[]) => {
+    if (indexResultKeysRef.current.size === 0) return prev.concat(incoming);
+    const liveSources = new Set(incoming.map((item) => item.source));
+    return prev
+      .filter(
+        (item) =>
+          !liveSources.has(item.source) ||
+          !indexResultKeysRef.current.has(`${item.source}+${item.id}`)
+      )
+      .concat(incoming);
+  };
+
   const sortBatchForNoOrder = (items: SearchResult[]) => {
     const q = currentQueryRef.current.trim();
     return items.slice().sort((a, b) => {
@@ -243,29 +259,11 @@ function SearchPageClient() {
     return order === 'asc' ? aNum - bNum : bNum - aNum;
   };
 
-  // 聚合后的结果（按标题和年份分组）
-  const aggregatedResults = useMemo(() => {
-    const map = new Map<string, SearchResult[]>();
-    const keyOrder: string[] = []; // 记录键出现的顺序
-
-    searchResults.forEach((item) => {
-      // 使用 title + year + type 作为键，year 必然存在，但依然兜底 'unknown'
-      const key = `${item.title.replaceAll(' ', '')}-${item.year || 'unknown'
-        }-${item.episodes.length === 1 ? 'movie' : 'tv'}`;
-      const arr = map.get(key) || [];
-
-      // 如果是新的键，记录其顺序
-      if (arr.length === 0) {
-        keyOrder.push(key);
-      }
-
-      arr.push(item);
-      map.set(key, arr);
-    });
-
-    // 按出现顺序返回聚合结果
-    return keyOrder.map(key => [key, map.get(key)!] as [string, SearchResult[]]);
-  }, [searchResults]);
+  // 聚合后的结果（按作品身份分组：豆瓣 ID 或规范化后的标题 + 年份 + 类型）
+  const aggregatedResults = useMemo(
+    () => clusterByWork(searchResults),
+    [searchResults]
+  );
 
   // 当聚合结果变化时，如果某个聚合已存在，则调用其卡片 ref 的 set 方法增量更新
   useEffect(() => {
@@ -551,6 +549,7 @@ function SearchPageClient() {
       setCompletedSources(0);
       // 清理缓冲
       pendingResultsRef.current = [];
+      indexResultKeysRef.current = new Set();
       if (flushTimerRef.current) {
         clearTimeout(flushTimerRef.current);
         flushTimerRef.current = null;
@@ -592,6 +591,18 @@ function SearchPageClient() {
                 setTotalSources(payload.totalSources || 0);
                 setCompletedSources(0);
                 break;
+              case 'index_result': {
+                if (Array.isArray(payload.results) && payload.results.length > 0) {
+                  const indexed = payload.results as SearchResult[];
+                  indexResultKeysRef.current = new Set(
+                    indexed.map((item) => `${item.source}+${item.id}`)
+                  );
+                  startTransition(() => {
+                    setSearchResults((prev) => prev.concat(indexed));
+                  });
+                }
+                break;
+              }
               case 'source_result': {
                 setCompletedSources((prev) => prev + 1);
                 if (Array.isArray(payload.results) && payload.results.length > 0) {
@@ -607,7 +618,7 @@ function SearchPageClient() {
                       const toAppend = pendingResultsRef.current;
                       pendingResultsRef.current = [];
                       startTransition(() => {
-                        setSearchResults((prev) => prev.concat(toAppend));
+                        setSearchResults((prev) => mergeLiveResults(prev, toAppend));
                       });
                       flushTimerRef.current = null;
                     }, 80);
@@ -629,7 +640,7 @@ function SearchPageClient() {
                     flushTimerRef.current = null;
                   }
                   startTransition(() => {
-                    setSearchResults((prev) => prev.concat(toAppend));
+                    setSearchResults((prev) => mergeLiveResults(prev, toAppend));
                   });
                 }
                 setIsLoading(false);
@@ -653,7 +664,7 @@ function SearchPageClient() {
               flushTimerRef.current = null;
             }
             startTransition(() => {
-              setSearchResults((prev) => prev.concat(toAppend));
+              setSearchResults((prev) => mergeLiveResults(prev, toAppend));
             });
           }
           try { es.close(); } catch { }
@@ -0,0 +1,270 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { AlertCircle, CheckCircle, RefreshCw, Scale } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { AdminConfig } from '@/lib/admin.types';
+import type { SourceWeightDetail } from '@/lib/source-weights';
+import { SourcePlaybackStats } from '@/lib/types';
+
+interface AdaptiveWeightConfigProps {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}
+
+const formatRate = (value: number, total: number) =>
+  total > 0 ? `${Math.round((value / total) * 100)}%` : '-';
+
+function describeStats(stats?: SourcePlaybackStats) {
+  if (!stats || stats.samples < 0.5) {
+    return { samples: '-', ttff: '-', fatal: '-', switched: '-', stalls: '-' };
+  }
+  return {
+    samples: stats.samples.toFixed(1),
+    ttff: stats.started > 0 ? `${(stats.ttffTotalMs / stats.started / 1000).toFixed(1)}s` : '-',
+    fatal: formatRate(stats.fatal, stats.samples),
+    switched: formatRate(stats.switched, stats.samples),
+    stalls: stats.started > 0 ? (stats.stalls / stats.started).toFixed(1) : '-',
+  };
+}
+
+const AdaptiveWeightConfig = ({ config, refreshConfig }: AdaptiveWeightConfigProps) => {
+  const [sources, setSources] = useState<SourceWeightDetail[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [settings, setSettings] = useState({
+    enabled: true,
+    blend: 0.5,
+    perRegion: false,
+  });
+
+  // 从config加载设置
+  useEffect(() => {
+    const cfg = config?.AdaptiveWeightConfig;
+    setSettings({
+      enabled: cfg?.enabled ?? true,
+      blend: cfg?.blend ?? 0.5,
+      perRegion: cfg?.perRegion ?? false,
+    });
+  }, [config]);
+
+  // 显示消息
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const fetchDetails = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/source-weights');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取源权重统计失败');
+      }
+      setSources(data.sources || []);
+    } catch (error: any) {
+      console.error('获取源权重统计失败:', error);
+      showMessage('error', error.message || '获取源权重统计失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDetails();
+  }, [config]);
+
+  // 保存配置
+  const handleSave = async () => {
+    if (!config) {
+      showMessage('error', '配置未加载');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updatedConfig = {
+        ...config,
+        AdaptiveWeightConfig: {
+          enabled: settings.enabled,
+          blend: Math.min(1, Math.max(0, settings.blend)),
+          perRegion: settings.perRegion,
+        },
+      };
+
+      const response = await fetch('/api/admin/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updatedConfig),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || '保存失败');
+      }
+
+      showMessage('success', '自适应源权重配置已保存');
+      await refreshConfig();
+    } catch (error: any) {
+      console.error('保存配置失败:', error);
+      showMessage('error', error.message || '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* 标题和说明 */}
+      <div className='flex items-start gap-3'>
+        <Scale className='w-6 h-6 text-indigo-500 shrink-0 mt-1' />
+        <div className='flex-1'>
+          <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+            自适应源权重
+          </h3>
+          <p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+            播放器匿名上报首帧耗时、卡顿、播放失败和换源情况，服务端据此计算学习权重，并按样本量与管理员设置的权重混合，用于播放选源和搜索结果排序。统计按 7 天半衰期衰减
+          </p>
+        </div>
+      </div>
+
+      {/* 设置 */}
+      <div className='space-y-4'>
+        <label className='flex items-center gap-3'>
+          <input
+            type='checkbox'
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+            className='w-4 h-4 text-indigo-600 rounded border-gray-300 dark:border-gray-600'
+          />
+          <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            启用自适应源权重
+          </span>
+        </label>
+        <label className='flex items-center gap-3'>
+          <input
+            type='checkbox'
+            checked={settings.perRegion}
+            onChange={(e) => setSettings({ ...settings, perRegion: e.target.checked })}
+            className='w-4 h-4 text-indigo-600 rounded border-gray-300 dark:border-gray-600'
+          />
+          <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            按用户网络地区（国内 / 国际）分别计算
+          </span>
+        </label>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            学习权重最大占比：{Math.round(settings.blend * 100)}%
+          </label>
+          <input
+            type='range'
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(settings.blend * 100)}
+            onChange={(e) => setSettings({ ...settings, blend: Number(e.target.value) / 100 })}
+            className='w-full max-w-md accent-indigo-600'
+          />
+          <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
+            样本越多占比越接近该值；设为 0 等同于只使用管理员权重
+          </p>
+        </div>
+      </div>
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`flex items-center gap-2 p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle className='w-5 h-5 shrink-0' />
+          ) : (
+            <AlertCircle className='w-5 h-5 shrink-0' />
+          )}
+          <span className='text-sm'>{message.text}</span>
+        </div>
+      )}
+
+      {/* 操作按钮 */}
+      <div className='flex flex-wrap gap-3'>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className='px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded-lg font-medium transition-colors'
+        >
+          {saving ? '保存中...' : '保存配置'}
+        </button>
+        <button
+          onClick={fetchDetails}
+          disabled={loading}
+          className='flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors'
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          刷新统计
+        </button>
+      </div>
+
+      {/* 权重明细 */}
+      <div className='overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              {['名称', '管理员权重', '学习权重', '可信度', '有效权重', '样本数', '平均首帧', '失败率', '换源率', '每次卡顿'].map((label) => (
+                <th
+                  key={label}
+                  className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap'
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+            {sources.map((source) => {
+              const stats = describeStats(source.stats.global);
+              return (
+                <tr key={source.key} className='hover:bg-gray-50 dark:hover:bg-gray-800 text-sm text-gray-900 dark:text-gray-100'>
+                  <td className='px-4 py-3 whitespace-nowrap'>{source.name}</td>
+                  <td className='px-4 py-3 whitespace-nowrap'>{source.adminWeight}</td>
+                  <td className='px-4 py-3 whitespace-nowrap'>{source.learnedWeight ?? '-'}</td>
+                  <td className='px-4 py-3 whitespace-nowrap'>
+                    {source.learnedWeight === null ? '-' : `${Math.round(source.confidence * 100)}%`}
+                  </td>
+                  <td className='px-4 py-3 whitespace-nowrap font-semibold text-indigo-600 dark:text-indigo-400'>
+                    {source.effectiveWeight}
+                  </td>
+                  <td
+                    className='px-4 py-3 whitespace-nowrap'
+                    title={`国内 ${describeStats(source.stats.domestic).samples} / 国际 ${describeStats(source.stats.international).samples}`}
+                  >
+                    {stats.samples}
+                  </td>
+                  <td className='px-4 py-3 whitespace-nowrap'>{stats.ttff}</td>
+                  <td className='px-4 py-3 whitespace-nowrap'>{stats.fatal}</td>
+                  <td className='px-4 py-3 whitespace-nowrap'>{stats.switched}</td>
+                  <td className='px-4 py-3 whitespace-nowrap'>{stats.stalls}</td>
+                </tr>
+              );
+            })}
+            {sources.length === 0 && (
+              <tr>
+                <td colSpan={10} className='px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400'>
+                  {loading ? '加载中...' : '暂无视频源'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AdaptiveWeightConfig;
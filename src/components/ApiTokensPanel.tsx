@@ -0,0 +1,333 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { Check, Copy, KeyRound, Plus, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import type { ApiTokenScope } from '@/lib/types';
+
+interface ApiTokensPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  role?: 'owner' | 'admin' | 'user';
+}
+
+interface ApiTokenItem {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  createdAt: number;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+}
+
+const SCOPE_OPTIONS: { value: ApiTokenScope; label: string; adminOnly?: boolean }[] = [
+  { value: 'playrecords:read', label: '读取播放记录' },
+  { value: 'favorites:write', label: '读写收藏' },
+  { value: 'search', label: '搜索与详情' },
+  { value: 'live:read', label: '直播播放列表订阅' },
+  { value: 'admin', label: '管理接口', adminOnly: true },
+];
+
+const EXPIRY_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+  { value: 365, label: '1 年' },
+  { value: null, label: '永不过期' },
+];
+
+const formatTime = (time: number | null) =>
+  time ? new Date(time).toLocaleString('zh-CN') : '从未';
+
+export const ApiTokensPanel: React.FC<ApiTokensPanelProps> = ({
+  isOpen,
+  onClose,
+  role,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [tokens, setTokens] = useState<ApiTokenItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['playrecords:read']);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const canUseAdminScope = role === 'owner' || role === 'admin';
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  // Body 滚动锁定
+  useEffect(() => {
+    if (isOpen) {
+      const body = document.body;
+      const html = document.documentElement;
+      const originalBodyOverflow = body.style.overflow;
+      const originalHtmlOverflow = html.style.overflow;
+
+      body.style.overflow = 'hidden';
+      html.style.overflow = 'hidden';
+
+      return () => {
+        body.style.overflow = originalBodyOverflow;
+        html.style.overflow = originalHtmlOverflow;
+      };
+    }
+  }, [isOpen]);
+
+  const fetchTokens = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/tokens');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取访问令牌失败');
+      }
+      setTokens(data.tokens || []);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取访问令牌失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setCreatedToken('');
+      fetchTokens();
+    }
+  }, [isOpen]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError('');
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '创建访问令牌失败');
+      }
+      setCreatedToken(data.token);
+      setCopied(false);
+      setName('');
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '创建访问令牌失败');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiTokenItem) => {
+    if (!confirm(`确定撤销令牌「${token.name}」吗？使用该令牌的客户端将在 30 秒内失去访问权限。`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/tokens?id=${encodeURIComponent(token.id)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '撤销访问令牌失败');
+      }
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '撤销访问令牌失败');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('复制失败:', err);
+    }
+  };
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+
+      {/* 令牌面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-xl max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-1001 flex flex-col overflow-hidden'>
+        <div className='p-6 overflow-y-auto' data-panel-content>
+          {/* 标题栏 */}
+          <div className='flex items-center justify-between mb-2'>
+            <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200 flex items-center gap-2'>
+              <KeyRound className='w-5 h-5' />
+              访问令牌
+            </h3>
+            <button
+              onClick={onClose}
+              className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+              aria-label='Close'
+            >
+              <X className='w-full h-full' />
+            </button>
+          </div>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mb-5'>
+            供脚本或第三方客户端通过 <code className='font-mono'>Authorization: Bearer &lt;令牌&gt;</code> 调用接口
+          </p>
+
+          {/* 新建令牌 */}
+          <div className='space-y-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+            <input
+              type='text'
+              className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400'
+              placeholder='令牌名称，如「手机客户端」'
+              value={name}
+              maxLength={50}
+              onChange={(e) => setName(e.target.value)}
+              disabled={creating}
+            />
+
+            <div className='flex flex-wrap gap-2'>
+              {SCOPE_OPTIONS.filter((o) => !o.adminOnly || canUseAdminScope).map((option) => (
+                <label
+                  key={option.value}
+                  className={`px-3 py-1 rounded-full text-xs cursor-pointer border transition-colors ${scopes.includes(option.value)
+                    ? 'bg-green-50 dark:bg-green-900/20 border-green-500 text-green-700 dark:text-green-300'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400'
+                    }`}
+                >
+                  <input
+                    type='checkbox'
+                    className='hidden'
+                    checked={scopes.includes(option.value)}
+                    onChange={() => toggleScope(option.value)}
+                    disabled={creating}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+
+            <div className='flex items-center gap-3'>
+              <select
+                className='flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                value={expiresInDays === null ? '' : String(expiresInDays)}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                disabled={creating}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value === null ? '' : String(option.value)}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreate}
+                disabled={creating || !name.trim() || scopes.length === 0}
+                className='px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1'
+              >
+                <Plus className='w-4 h-4' />
+                {creating ? '创建中...' : '创建'}
+              </button>
+            </div>
+          </div>
+
+          {/* 新建成功后展示明文令牌（仅一次） */}
+          {createdToken && (
+            <div className='mt-4 p-3 rounded-md border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20'>
+              <p className='text-xs text-yellow-800 dark:text-yellow-200 mb-2'>
+                请立即复制并妥善保存，关闭后将无法再次查看此令牌
+              </p>
+              <div className='flex items-center gap-2'>
+                <code className='flex-1 font-mono text-xs break-all text-gray-900 dark:text-gray-100'>
+                  {createdToken}
+                </code>
+                <button
+                  onClick={handleCopy}
+                  className='p-1.5 rounded-md hover:bg-yellow-100 dark:hover:bg-yellow-800/40 text-yellow-800 dark:text-yellow-200'
+                  aria-label='Copy'
+                >
+                  {copied ? <Check className='w-4 h-4' /> : <Copy className='w-4 h-4' />}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className='mt-4 text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+
+          {/* 令牌列表 */}
+          <div className='mt-5 space-y-2'>
+            {loading && tokens.length === 0 ? (
+              <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>加载中...</p>
+            ) : tokens.length === 0 ? (
+              <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>暂无访问令牌</p>
+            ) : (
+              tokens.map((token) => {
+                const expired = token.expiresAt !== null && token.expiresAt <= Date.now();
+                return (
+                  <div
+                    key={token.id}
+                    className='flex items-start justify-between gap-3 p-3 rounded-md bg-gray-50 dark:bg-gray-800/60'
+                  >
+                    <div className='min-w-0 text-xs text-gray-600 dark:text-gray-400 space-y-0.5'>
+                      <div className='flex items-center gap-2'>
+                        <span className='text-sm font-medium text-gray-900 dark:text-gray-100 truncate'>
+                          {token.name}
+                        </span>
+                        <code className='font-mono'>{token.prefix}…</code>
+                        {expired && <span className='text-red-500'>已过期</span>}
+                      </div>
+                      <div>
+                        {token.scopes
+                          .map((s) => SCOPE_OPTIONS.find((o) => o.value === s)?.label || s)
+                          .join(' · ')}
+                      </div>
+                      <div>
+                        过期：{token.expiresAt ? formatTime(token.expiresAt) : '永不'} · 最后使用：{formatTime(token.lastUsedAt)}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className='shrink-0 p-1.5 rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20'
+                      aria-label='Revoke'
+                    >
+                      <Trash2 className='w-4 h-4' />
+                    </button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </>,
+    document.body
+  );
+};
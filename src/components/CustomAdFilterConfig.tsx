@@ -2,9 +2,15 @@
 
 'use client';
 
-import { AlertCircle, CheckCircle, Code, Info } from 'lucide-react';
+import { AlertCircle, CheckCircle, FlaskConical, Info, ShieldCheck } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
+import {
+  AdFilterResult,
+  applyAdFilterRules,
+  DEFAULT_AD_FILTER_RULES,
+  validateAdFilterRules,
+} from '@/lib/ad-filter';
 import { AdminConfig } from '@/lib/admin.types';
 
 interface CustomAdFilterConfigProps {
@@ -12,22 +18,50 @@ interface CustomAdFilterConfigProps {
   refreshConfig: () => Promise<void>;
 }
 
+// 示例规则：覆盖每种条件的写法
+const exampleRules = [
+  ...DEFAULT_AD_FILTER_RULES,
+  {
+    id: 'short-inserted-runs',
+    name: '插播的短片段（两个 DISCONTINUITY 之间总时长不超过 30 秒且换了域名）',
+    enabled: true,
+    target: 'run',
+    maxDuration: 30,
+    hostChange: true,
+  },
+  {
+    id: 'source-specific',
+    name: '仅对指定播放源生效的规则',
+    enabled: false,
+    target: 'segment',
+    sources: ['example_source'],
+    urlPattern: '/\\/adv\\d+\\.ts/i',
+    maxDuration: 5,
+  },
+];
+
+const formatRules = (rules: unknown) => JSON.stringify(rules, null, 2);
+
 const CustomAdFilterConfig = ({ config, refreshConfig }: CustomAdFilterConfigProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
-  const [filterSettings, setFilterSettings] = useState({
-    customAdFilterCode: '',
-    customAdFilterVersion: 1,
-  });
+  const [rulesText, setRulesText] = useState('');
+
+  // 规则测试
+  const [testPlaylist, setTestPlaylist] = useState('');
+  const [testSource, setTestSource] = useState('');
+  const [testUrl, setTestUrl] = useState('');
+  const [testResult, setTestResult] = useState<AdFilterResult | null>(null);
+  const [testError, setTestError] = useState('');
+
+  const legacyCode = config?.SiteConfig?.CustomAdFilterCode?.trim() || '';
 
   // 从config加载设置
   useEffect(() => {
     if (config?.SiteConfig) {
-      setFilterSettings({
-        customAdFilterCode: config.SiteConfig.CustomAdFilterCode || '',
-        customAdFilterVersion: config.SiteConfig.CustomAdFilterVersion || 1,
-      });
+      const rules = config.SiteConfig.CustomAdFilterRules || [];
+      setRulesText(rules.length > 0 ? formatRules(rules) : '');
     }
   }, [config]);
 
@@ -37,37 +71,55 @@ const CustomAdFilterConfig = ({ config, refreshConfig }: CustomAdFilterConfigPro
     setTimeout(() => setMessage(null), 3000);
   };
 
-  // 保存配置
-  const handleSave = async () => {
-    setIsLoading(true);
+  // 解析编辑框中的规则，留空表示使用默认规则
+  const parseRules = () => {
+    if (!rulesText.trim()) return [];
+    let parsed: unknown;
     try {
-      if (!config) {
-        throw new Error('配置未加载');
-      }
+      parsed = JSON.parse(rulesText);
+    } catch {
+      throw new Error('规则不是有效的 JSON');
+    }
+    return validateAdFilterRules(parsed);
+  };
+
+  const saveRules = async (rules: ReturnType<typeof parseRules>, successText: string) => {
+    if (!config) {
+      throw new Error('配置未加载');
+    }
 
-      // 合并完整的 AdminConfig（参考 MoonTVPlus）
-      const updatedConfig = {
-        ...config,
-        SiteConfig: {
-          ...config.SiteConfig,
-          CustomAdFilterCode: filterSettings.customAdFilterCode,
-          CustomAdFilterVersion: filterSettings.customAdFilterVersion,
-        }
-      };
-
-      const response = await fetch('/api/admin/config', {
-        method: 'POST',  // 改为 POST
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updatedConfig)  // 发送完整配置
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        throw new Error(error.error || '保存失败');
+    // 合并完整的 AdminConfig；版本号递增让浏览器刷新缓存，规则为空时置 0 恢复默认规则
+    const updatedConfig = {
+      ...config,
+      SiteConfig: {
+        ...config.SiteConfig,
+        CustomAdFilterRules: rules,
+        CustomAdFilterCode: '',
+        CustomAdFilterVersion: rules.length > 0 ? (config.SiteConfig.CustomAdFilterVersion || 0) + 1 : 0,
       }
+    };
+
+    const response = await fetch('/api/admin/config', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updatedConfig)
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || '保存失败');
+    }
 
-      showMessage('success', '自定义去广告配置已保存');
-      await refreshConfig();
+    showMessage('success', successText);
+    await refreshConfig();
+  };
+
+  // 保存配置
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      const rules = parseRules();
+      await saveRules(rules, rules.length > 0 ? `已保存 ${rules.length} 条去广告规则` : '已恢复为默认规则');
     } catch (error: any) {
       showMessage('error', error.message || '保存失败');
     } finally {
@@ -75,50 +127,12 @@ const CustomAdFilterConfig = ({ config, refreshConfig }: CustomAdFilterConfigPro
     }
   };
 
-  // 重置输入框（不保存）
-  const handleReset = () => {
-    setFilterSettings({
-      customAdFilterCode: '',
-      customAdFilterVersion: 1,
-    });
-  };
-
   // 恢复默认并保存到数据库
   const handleRestoreDefault = async () => {
     setIsLoading(true);
     try {
-      if (!config) {
-        throw new Error('配置未加载');
-      }
-
-      // 合并完整的 AdminConfig，重置自定义去广告配置
-      const updatedConfig = {
-        ...config,
-        SiteConfig: {
-          ...config.SiteConfig,
-          CustomAdFilterCode: '',
-          CustomAdFilterVersion: 1,
-        }
-      };
-
-      const response = await fetch('/api/admin/config', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updatedConfig)
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        throw new Error(error.error || '恢复默认失败');
-      }
-
-      setFilterSettings({
-        customAdFilterCode: '',
-        customAdFilterVersion: 1,
-      });
-
-      showMessage('success', '已恢复为默认配置');
-      await refreshConfig();
+      await saveRules([], '已恢复为默认规则');
+      setRulesText('');
     } catch (error: any) {
       showMessage('error', error.message || '恢复默认失败');
     } finally {
@@ -126,139 +140,188 @@ const CustomAdFilterConfig = ({ config, refreshConfig }: CustomAdFilterConfigPro
     }
   };
 
-  // 默认示例代码
-  const defaultExample = `// 自定义去广告函数
-// 参数: type (播放源key), m3u8Content (m3u8文件内容)
-// 返回: 过滤后的m3u8内容
-
-function filterAdsFromM3U8(type, m3u8Content) {
-  if (!m3u8Content) return '';
-
-  // 广告关键字列表
-  const adKeywords = [
-    'sponsor',
-    '/ad/',
-    '/ads/',
-    'advert',
-    'advertisement',
-    '/adjump',
-    'redtraffic'
-  ];
-
-  // 按行分割M3U8内容
-  const lines = m3u8Content.split('\\n');
-  const filteredLines = [];
-
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i];
-
-    // 跳过 #EXT-X-DISCONTINUITY 标识
-    if (line.includes('#EXT-X-DISCONTINUITY')) {
-      i++;
-      continue;
-    }
-
-    // 如果是 EXTINF 行，检查下一行 URL 是否包含广告关键字
-    if (line.includes('#EXTINF:')) {
-      // 检查下一行 URL 是否包含广告关键字
-      if (i + 1 < lines.length) {
-        const nextLine = lines[i + 1];
-        const containsAdKeyword = adKeywords.some(keyword =>
-          nextLine.toLowerCase().includes(keyword.toLowerCase())
-        );
-
-        if (containsAdKeyword) {
-          // 跳过 EXTINF 行和 URL 行
-          i += 2;
-          continue;
-        }
+  // 用编辑框中（未保存）的规则测试粘贴的播放列表
+  const handleTest = () => {
+    setTestError('');
+    setTestResult(null);
+    try {
+      if (!testPlaylist.trim().startsWith('#EXTM3U')) {
+        throw new Error('请粘贴以 #EXTM3U 开头的 m3u8 内容');
+      }
+      if (testPlaylist.includes('#EXT-X-STREAM-INF')) {
+        throw new Error('这是主播放列表，请粘贴包含分片的子播放列表');
       }
+      const rules = parseRules();
+      setTestResult(
+        applyAdFilterRules(testPlaylist, rules.length > 0 ? rules : DEFAULT_AD_FILTER_RULES, {
+          source: testSource.trim() || undefined,
+          baseUrl: testUrl.trim() || undefined,
+        })
+      );
+    } catch (error: any) {
+      setTestError(error.message || '测试失败');
     }
+  };
 
-    // 保留当前行
-    filteredLines.push(line);
-    i++;
-  }
-
-  return filteredLines.join('\\n');
-}`;
+  const ruleNames = (() => {
+    try {
+      const rules = parseRules();
+      return new Map((rules.length > 0 ? rules : DEFAULT_AD_FILTER_RULES).map((rule) => [rule.id, rule.name || rule.id]));
+    } catch {
+      return new Map<string, string>();
+    }
+  })();
 
   return (
     <div className='space-y-6'>
       {/* 标题和说明 */}
       <div className='flex items-start gap-3'>
-        <Code className='w-6 h-6 text-purple-500 shrink-0 mt-1' />
+        <ShieldCheck className='w-6 h-6 text-purple-500 shrink-0 mt-1' />
         <div className='flex-1'>
           <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
-            自定义去广告代码
+            自定义去广告规则
           </h3>
           <p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
-            编写自定义 JavaScript 代码来实现更强力的去广告功能
+            用声明式规则描述要移除的广告分片，播放页和服务器端代理使用同一套规则
           </p>
         </div>
       </div>
 
+      {/* 旧版代码提示 */}
+      {legacyCode && (
+        <div className='bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4'>
+          <div className='flex items-start gap-3'>
+            <AlertCircle className='w-5 h-5 text-yellow-600 dark:text-yellow-400 shrink-0 mt-0.5' />
+            <p className='text-sm text-yellow-800 dark:text-yellow-200'>
+              检测到旧版自定义去广告 JavaScript 代码，出于安全考虑已不再执行。请将其改写为下面的规则，保存后旧代码会被清除。
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* 信息提示 */}
       <div className='bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4'>
         <div className='flex items-start gap-3'>
           <Info className='w-5 h-5 text-blue-600 dark:text-blue-400 shrink-0 mt-0.5' />
           <div className='text-sm text-blue-800 dark:text-blue-200'>
-            <p className='font-medium mb-2'>使用说明：</p>
+            <p className='font-medium mb-2'>规则格式（JSON 数组，每条规则中填写的条件需要同时满足）：</p>
             <ul className='space-y-1 list-disc list-inside'>
-              <li>函数名必须为 <code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>filterAdsFromM3U8</code></li>
-              <li>接收两个参数：<code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>type</code>（播放源key）和 <code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>m3u8Content</code>（m3u8内容）</li>
-              <li>必须返回过滤后的 m3u8 内容字符串</li>
-              <li>如果代码执行失败，将自动降级使用默认去广告规则</li>
-              <li>修改代码后记得更新版本号，让浏览器刷新缓存</li>
+              <li><code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>target</code>：<code>segment</code> 按单个分片匹配，<code>run</code> 按两个 #EXT-X-DISCONTINUITY 之间的整段匹配</li>
+              <li><code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>urlPattern</code>：分片地址包含的关键字（不区分大小写），或 <code>/正则/i</code> 形式（不支持反向引用和 <code>(a+)+</code> 这类嵌套重复）</li>
+              <li><code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>minDuration</code> / <code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>maxDuration</code>：时长范围（秒），run 规则按整段总时长计算</li>
+              <li><code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>hostChange</code>：分片域名与正片主体域名不同</li>
+              <li><code className='px-1 py-0.5 bg-blue-100 dark:bg-blue-800 rounded'>sources</code>：只对这些播放源 key 生效，不填则对全部播放源生效</li>
+              <li>超过总时长一半的段不会被 run 规则移除；命中全部分片时不做过滤</li>
+              <li>留空保存即使用默认规则（常见广告关键字）</li>
             </ul>
           </div>
         </div>
       </div>
 
-      {/* 版本号 */}
-      <div>
-        <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
-          代码版本号
-        </label>
-        <input
-          type='number'
-          min='1'
-          value={filterSettings.customAdFilterVersion}
-          onChange={(e) => setFilterSettings({
-            ...filterSettings,
-            customAdFilterVersion: parseInt(e.target.value) || 1
-          })}
-          className='w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent'
-          placeholder='1'
-        />
-        <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
-          每次修改代码后建议递增版本号
-        </p>
-      </div>
-
-      {/* 代码编辑器 */}
+      {/* 规则编辑器 */}
       <div>
         <div className='flex items-center justify-between mb-2'>
           <label className='block text-sm font-medium text-gray-700 dark:text-gray-300'>
-            自定义代码
+            去广告规则
           </label>
           <button
-            onClick={() => setFilterSettings({ ...filterSettings, customAdFilterCode: defaultExample })}
+            onClick={() => setRulesText(formatRules(exampleRules))}
             className='text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300'
           >
-            载入示例代码
+            载入示例规则
           </button>
         </div>
         <textarea
-          value={filterSettings.customAdFilterCode}
-          onChange={(e) => setFilterSettings({ ...filterSettings, customAdFilterCode: e.target.value })}
-          className='w-full h-96 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none'
-          placeholder={defaultExample}
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          className='w-full h-80 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none'
+          placeholder={formatRules(DEFAULT_AD_FILTER_RULES)}
+          spellCheck={false}
+        />
+      </div>
+
+      {/* 规则测试 */}
+      <div className='rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3'>
+        <div className='flex items-center gap-2'>
+          <FlaskConical className='w-5 h-5 text-purple-500' />
+          <h4 className='text-sm font-semibold text-gray-900 dark:text-gray-100'>规则测试</h4>
+          <span className='text-xs text-gray-500 dark:text-gray-400'>使用编辑框中的规则（无需保存）</span>
+        </div>
+        <textarea
+          value={testPlaylist}
+          onChange={(e) => setTestPlaylist(e.target.value)}
+          className='w-full h-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-xs focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none'
+          placeholder='粘贴 m3u8 播放列表内容（#EXTM3U 开头）'
+          spellCheck={false}
         />
-        <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
-          支持纯 JavaScript 代码，不支持 TypeScript 类型注解
-        </p>
+        <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+          <input
+            type='text'
+            value={testSource}
+            onChange={(e) => setTestSource(e.target.value)}
+            className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+            placeholder='播放源 key（可选，用于 sources 规则）'
+          />
+          <input
+            type='text'
+            value={testUrl}
+            onChange={(e) => setTestUrl(e.target.value)}
+            className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+            placeholder='播放列表地址（可选，用于解析相对路径的域名）'
+          />
+        </div>
+        <button
+          onClick={handleTest}
+          className='px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm font-medium transition-colors'
+        >
+          测试
+        </button>
+
+        {testError && (
+          <p className='text-sm text-red-600 dark:text-red-400'>{testError}</p>
+        )}
+
+        {testResult && (
+          <div className='space-y-2'>
+            <p className='text-sm text-gray-700 dark:text-gray-300'>
+              共 {testResult.segments.length} 个分片，
+              {testResult.allRemoved
+                ? '规则命中了全部分片，实际播放时不会过滤'
+                : `将移除 ${testResult.removedCount} 个（${Math.round(testResult.removedDuration)} 秒）`}
+            </p>
+            <div className='max-h-80 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700'>
+              <table className='w-full text-xs'>
+                <thead className='sticky top-0 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400'>
+                  <tr>
+                    <th className='px-2 py-1.5 text-left font-medium'>#</th>
+                    <th className='px-2 py-1.5 text-left font-medium'>段</th>
+                    <th className='px-2 py-1.5 text-left font-medium'>时长</th>
+                    <th className='px-2 py-1.5 text-left font-medium'>地址</th>
+                    <th className='px-2 py-1.5 text-left font-medium'>结果</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {testResult.segments.map((segment) => (
+                    <tr
+                      key={segment.index}
+                      className={segment.removedBy
+                        ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                        : 'text-gray-700 dark:text-gray-300'}
+                    >
+                      <td className='px-2 py-1'>{segment.index + 1}</td>
+                      <td className='px-2 py-1'>{segment.run + 1}</td>
+                      <td className='px-2 py-1 whitespace-nowrap'>{segment.duration.toFixed(1)}s</td>
+                      <td className='px-2 py-1 font-mono break-all'>{segment.uri}</td>
+                      <td className='px-2 py-1 whitespace-nowrap'>
+                        {segment.removedBy ? `移除（${ruleNames.get(segment.removedBy) || segment.removedBy}）` : '保留'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* 消息提示 */}
@@ -287,7 +350,7 @@ function filterAdsFromM3U8(type, m3u8Content) {
           {isLoading ? '保存中...' : '保存配置'}
         </button>
         <button
-          onClick={handleReset}
+          onClick={() => setRulesText('')}
           disabled={isLoading}
           className='px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors'
         >
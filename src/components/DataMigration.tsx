@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 'use client';
 
-import { AlertCircle, AlertTriangle, CheckCircle, Download, FileCheck, Lock, Upload } from 'lucide-react';
+import { AlertCircle, AlertTriangle, ArrowRightLeft, CheckCircle, Download, FileCheck, Lock, Upload } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 
@@ -22,6 +22,30 @@ interface AlertModalProps {
   timer?: number;
 }
 
+type OnlineStorageType = 'current' | 'redis' | 'upstash' | 'kvrocks' | 'sqlite' | 'postgres';
+
+interface OnlineEndpoint {
+  type: OnlineStorageType;
+  url: string;
+  token: string;
+}
+
+const ONLINE_STORAGE_OPTIONS: { value: OnlineStorageType; label: string }[] = [
+  { value: 'current', label: '当前存储' },
+  { value: 'redis', label: 'Redis' },
+  { value: 'upstash', label: 'Upstash' },
+  { value: 'kvrocks', label: 'Kvrocks' },
+  { value: 'sqlite', label: 'SQLite' },
+  { value: 'postgres', label: 'Postgres' },
+];
+
+// 将端点表单转换为请求参数（空连接串表示使用服务端环境变量）
+const toEndpointPayload = (endpoint: OnlineEndpoint) => ({
+  type: endpoint.type,
+  url: endpoint.type !== 'current' && endpoint.url.trim() ? endpoint.url.trim() : undefined,
+  token: endpoint.type === 'upstash' && endpoint.token.trim() ? endpoint.token.trim() : undefined,
+});
+
 const AlertModal = ({
   isOpen,
   onClose,
@@ -161,6 +185,15 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // 在线迁移
+  const [onlineSource, setOnlineSource] = useState<OnlineEndpoint>({ type: 'current', url: '', token: '' });
+  const [onlineTarget, setOnlineTarget] = useState<OnlineEndpoint>({ type: 'kvrocks', url: '', token: '' });
+  const [onlineDryRun, setOnlineDryRun] = useState(true);
+  const [onlineClearTarget, setOnlineClearTarget] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState<{ index: number; total: number } | null>(null);
+  const [migrationLogs, setMigrationLogs] = useState<string[]>([]);
+
   const showAlert = (config: Omit<typeof alertModal, 'isOpen'>) => {
     setAlertModal({ ...config, isOpen: true });
   };
@@ -325,6 +358,170 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
     }
   };
 
+  // 处理在线迁移进度事件
+  const handleMigrationEvent = (event: any) => {
+    const appendLog = (line: string) => setMigrationLogs(prev => [...prev, line]);
+
+    switch (event.type) {
+      case 'start':
+        setMigrationProgress({ index: 0, total: event.totalUsers });
+        appendLog(`${event.dryRun ? '[演练] ' : ''}共 ${event.totalUsers} 个用户待迁移`);
+        break;
+      case 'user': {
+        setMigrationProgress({ index: event.index, total: event.total });
+        const d = event.digest;
+        appendLog(
+          `✓ ${event.username}: 播放记录 ${d.playRecords.count}，收藏 ${d.favorites.count}，跳过配置 ${d.skipConfigs.count + d.episodeSkipConfigs.count}，搜索历史 ${d.searchHistory.count}`
+        );
+        break;
+      }
+      case 'user-error':
+        setMigrationProgress({ index: event.index, total: event.total });
+        appendLog(`✗ ${event.username}: ${event.error}`);
+        break;
+      case 'admin-config':
+        appendLog(event.migrated ? '✓ 管理员配置已迁移' : `管理员配置校验和: ${event.checksum || '无'}`);
+        break;
+      case 'verify':
+        if (!event.ok) {
+          appendLog(`⚠ 校验失败 ${event.username}: ${event.mismatches.join('；')}`);
+        }
+        break;
+      case 'done': {
+        const summary = event.summary;
+        const verifyText = summary.verified === null
+          ? '未校验'
+          : summary.verified ? '校验通过' : `校验失败 ${summary.mismatchedUsers.length} 个`;
+        appendLog(
+          `完成：成功 ${summary.migratedUsers}/${summary.totalUsers}，失败 ${summary.failedUsers.length}，${verifyText}，耗时 ${(summary.durationMs / 1000).toFixed(1)}s`
+        );
+        showAlert({
+          type: summary.failedUsers.length > 0 || summary.verified === false ? 'warning' : 'success',
+          title: summary.dryRun ? '演练完成' : '迁移完成',
+          message: summary.dryRun
+            ? `共 ${summary.totalUsers} 个用户、${summary.totals.playRecords} 条播放记录、${summary.totals.favorites} 条收藏可迁移`
+            : `成功迁移 ${summary.migratedUsers}/${summary.totalUsers} 个用户，${verifyText}`,
+        });
+        break;
+      }
+      case 'error':
+        appendLog(`✗ ${event.error}`);
+        showAlert({ type: 'error', title: '迁移失败', message: event.error });
+        break;
+    }
+  };
+
+  // 在线迁移
+  const handleOnlineMigrate = async () => {
+    try {
+      setIsMigrating(true);
+      setMigrationLogs([]);
+      setMigrationProgress(null);
+
+      const response = await fetch('/api/admin/data_migration/online', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          source: toEndpointPayload(onlineSource),
+          target: toEndpointPayload(onlineTarget),
+          dryRun: onlineDryRun,
+          clearTarget: onlineClearTarget,
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `迁移失败: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const chunks = buffer.split('\n\n');
+        buffer = chunks.pop() || '';
+        for (const chunk of chunks) {
+          const line = chunk.trim();
+          if (line.startsWith('data: ')) {
+            handleMigrationEvent(JSON.parse(line.slice(6)));
+          }
+        }
+      }
+    } catch (error) {
+      showAlert({
+        type: 'error',
+        title: '迁移失败',
+        message: error instanceof Error ? error.message : '迁移过程中发生错误',
+      });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const startOnlineMigrate = () => {
+    if (onlineDryRun) {
+      handleOnlineMigrate();
+      return;
+    }
+    showAlert({
+      type: 'warning',
+      title: '确认迁移',
+      message: onlineClearTarget
+        ? '将清空目标存储后写入源存储的全部数据，此操作不可撤销'
+        : '将把源存储的数据写入目标存储，同名数据会被覆盖',
+      confirmText: '开始迁移',
+      showConfirm: true,
+      onConfirm: handleOnlineMigrate,
+    });
+  };
+
+  const renderEndpointFields = (
+    label: string,
+    endpoint: OnlineEndpoint,
+    onChange: (endpoint: OnlineEndpoint) => void
+  ) => (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+      <select
+        value={endpoint.type}
+        onChange={(e) => onChange({ ...endpoint, type: e.target.value as OnlineStorageType })}
+        className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+        disabled={isMigrating}
+      >
+        {ONLINE_STORAGE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {endpoint.type !== 'current' && (
+        <input
+          type="text"
+          value={endpoint.url}
+          onChange={(e) => onChange({ ...endpoint, url: e.target.value })}
+          placeholder={endpoint.type === 'sqlite' ? '数据库文件路径（留空使用环境变量）' : '连接地址（留空使用环境变量）'}
+          className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+          disabled={isMigrating}
+        />
+      )}
+      {endpoint.type === 'upstash' && (
+        <input
+          type="password"
+          value={endpoint.token}
+          onChange={(e) => onChange({ ...endpoint, token: e.target.value })}
+          placeholder="Upstash Token"
+          className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+          disabled={isMigrating}
+        />
+      )}
+    </div>
+  );
+
   return (
     <>
       <div className="max-w-6xl mx-auto space-y-6">
@@ -483,6 +680,89 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
             </div>
           </div>
         </div>
+
+        {/* 在线迁移 */}
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-6 bg-white dark:bg-gray-800 hover:shadow-sm transition-shadow">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-8 h-8 rounded-lg bg-purple-50 dark:bg-purple-900/20 flex items-center justify-center">
+              <ArrowRightLeft className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">在线迁移</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">在两个存储后端之间直接复制数据，无需下载备份文件</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderEndpointFields('源存储', onlineSource, setOnlineSource)}
+            {renderEndpointFields('目标存储', onlineTarget, setOnlineTarget)}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6 mt-4 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={onlineDryRun}
+                onChange={(e) => setOnlineDryRun(e.target.checked)}
+                disabled={isMigrating}
+              />
+              演练模式（只统计，不写入）
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={onlineClearTarget}
+                onChange={(e) => setOnlineClearTarget(e.target.checked)}
+                disabled={isMigrating || onlineDryRun}
+              />
+              <span className="text-red-600 dark:text-red-400">迁移前清空目标存储</span>
+            </label>
+          </div>
+
+          {migrationProgress && migrationProgress.total > 0 && (
+            <div className="mt-4">
+              <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+                <span>用户进度</span>
+                <span>{migrationProgress.index}/{migrationProgress.total}</span>
+              </div>
+              <div className="w-full h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all duration-300"
+                  style={{ width: `${(migrationProgress.index / migrationProgress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {migrationLogs.length > 0 && (
+            <div className="mt-4 max-h-60 overflow-y-auto rounded-lg bg-gray-50 dark:bg-gray-900/50 p-3 font-mono text-xs text-gray-700 dark:text-gray-300 space-y-1">
+              {migrationLogs.map((line, index) => (
+                <div key={index}>{line}</div>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={startOnlineMigrate}
+            disabled={isMigrating}
+            className={`w-full px-4 py-2.5 rounded-lg font-medium transition-colors mt-6 ${isMigrating
+              ? 'bg-gray-100 dark:bg-gray-700 cursor-not-allowed text-gray-500 dark:text-gray-400'
+              : 'bg-purple-600 hover:bg-purple-700 text-white'
+              }`}
+          >
+            {isMigrating ? (
+              <div className="flex items-center justify-center gap-2">
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                迁移中...
+              </div>
+            ) : (
+              <div className="flex items-center justify-center gap-2">
+                <ArrowRightLeft className="w-4 h-4" />
+                {onlineDryRun ? '开始演练' : '开始迁移'}
+              </div>
+            )}
+          </button>
+        </div>
       </div>
 
       {/* 弹窗组件 */}
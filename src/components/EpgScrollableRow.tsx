@@ -1,6 +1,6 @@
 /* eslint-disable react-hooks/exhaustive-deps */
 
-import { Clock, Target, Tv } from 'lucide-react';
+import { Bell, BellRing, CircleDot, Clock, History, Radio, Target, Tv } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 
 import { formatTimeToHHMM, parseCustomTimeFormat } from '@/lib/time';
@@ -15,12 +15,28 @@ interface EpgScrollableRowProps {
   programs: EpgProgram[];
   currentTime?: Date;
   isLoading?: boolean;
+  canPlayProgram?: (program: EpgProgram) => boolean; // 节目是否可以回看（不传则不可点击）
+  onPlayProgram?: (program: EpgProgram) => void;
+  replayingProgram?: EpgProgram | null; // 正在回看的节目
+  onBackToLive?: () => void;
+  onRecordProgram?: (program: EpgProgram) => void; // 预约录制（不传则不显示录制按钮）
+  isProgramScheduled?: (program: EpgProgram) => boolean; // 节目是否已预约录制
+  onRemindProgram?: (program: EpgProgram) => void; // 设置或取消节目提醒（不传则不显示提醒按钮）
+  isProgramReminded?: (program: EpgProgram) => boolean; // 节目是否已设置提醒
 }
 
 export default function EpgScrollableRow({
   programs,
   currentTime = new Date(),
   isLoading = false,
+  canPlayProgram,
+  onPlayProgram,
+  replayingProgram,
+  onBackToLive,
+  onRecordProgram,
+  isProgramScheduled,
+  onRemindProgram,
+  isProgramReminded,
 }: EpgScrollableRowProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isHovered, setIsHovered] = useState(false);
@@ -193,17 +209,29 @@ export default function EpgScrollableRow({
           <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
           今日节目单
         </h4>
-        {currentPlayingIndex !== -1 && (
-          <button
-            onClick={scrollToCurrentProgram}
-            className="flex items-center gap-1 sm:gap-1.5 px-2 sm:px-2.5 py-1.5 sm:py-2 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-green-600 dark:hover:text-green-400 bg-gray-300/50 dark:bg-gray-800 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-green-300 dark:hover:border-green-700 transition-all duration-200"
-            title="滚动到当前播放位置"
-          >
-            <Target className="w-2.5 h-2.5 sm:w-3 sm:h-3" />
-            <span className="hidden sm:inline">当前播放</span>
-            <span className="sm:hidden">当前</span>
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {replayingProgram && onBackToLive && (
+            <button
+              onClick={onBackToLive}
+              className="flex items-center gap-1 sm:gap-1.5 px-2 sm:px-2.5 py-1.5 sm:py-2 text-xs font-medium text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/40 rounded-lg border border-purple-300 dark:border-purple-700 transition-all duration-200"
+              title="返回直播"
+            >
+              <Radio className="w-2.5 h-2.5 sm:w-3 sm:h-3" />
+              <span>返回直播</span>
+            </button>
+          )}
+          {currentPlayingIndex !== -1 && (
+            <button
+              onClick={scrollToCurrentProgram}
+              className="flex items-center gap-1 sm:gap-1.5 px-2 sm:px-2.5 py-1.5 sm:py-2 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-green-600 dark:hover:text-green-400 bg-gray-300/50 dark:bg-gray-800 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-green-300 dark:hover:border-green-700 transition-all duration-200"
+              title="滚动到当前播放位置"
+            >
+              <Target className="w-2.5 h-2.5 sm:w-3 sm:h-3" />
+              <span className="hidden sm:inline">当前播放</span>
+              <span className="sm:hidden">当前</span>
+            </button>
+          )}
+        </div>
       </div>
 
       <div
@@ -220,11 +248,24 @@ export default function EpgScrollableRow({
             const isPlaying = index === currentPlayingIndex;
             const isFinishedProgram = index < currentPlayingIndex;
             const isUpcomingProgram = index > currentPlayingIndex;
+            const isReplaying =
+              !!replayingProgram &&
+              replayingProgram.start === program.start &&
+              replayingProgram.end === program.end;
+            const isReplayable = !isPlaying && !!onPlayProgram && !!canPlayProgram?.(program);
+            const isRecordable = !!onRecordProgram && (isPlaying || isUpcomingProgram);
+            const isScheduled = isRecordable && !!isProgramScheduled?.(program);
+            const isRemindable = !!onRemindProgram && isUpcomingProgram;
+            const isReminded = isRemindable && !!isProgramReminded?.(program);
 
             return (
               <div
                 key={index}
-                className={`shrink-0 w-36 sm:w-48 p-2 sm:p-3 rounded-lg border transition-all duration-200 flex flex-col min-h-[100px] sm:min-h-[120px] ${isPlaying
+                onClick={isReplayable ? () => onPlayProgram?.(program) : undefined}
+                title={isReplayable ? `回看：${program.title}` : undefined}
+                className={`shrink-0 w-36 sm:w-48 p-2 sm:p-3 rounded-lg border transition-all duration-200 flex flex-col min-h-[100px] sm:min-h-[120px] ${isReplayable ? 'cursor-pointer hover:border-purple-400 dark:hover:border-purple-600' : ''} ${isReplaying
+                  ? 'bg-purple-500/10 dark:bg-purple-500/20 border-purple-500/40'
+                  : isPlaying
                   ? 'bg-green-500/10 dark:bg-green-500/20 border-green-500/30'
                   : isFinishedProgram
                     ? 'bg-gray-300/50 dark:bg-gray-800 border-gray-300 dark:border-gray-700'
@@ -274,8 +315,23 @@ export default function EpgScrollableRow({
                   {program.title}
                 </div>
 
+                {/* 回看状态在底部 */}
+                {isReplaying ? (
+                  <div className="mt-auto pt-1 sm:pt-2 flex items-center gap-1 sm:gap-1.5 shrink-0">
+                    <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-purple-500 rounded-full animate-pulse"></div>
+                    <span className="text-xs text-purple-600 dark:text-purple-400 font-medium">
+                      正在回看
+                    </span>
+                  </div>
+                ) : isReplayable && (
+                  <div className="mt-auto pt-1 sm:pt-2 flex items-center gap-1 shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    <History className="w-3 h-3" />
+                    <span>回看</span>
+                  </div>
+                )}
+
                 {/* 正在播放状态在底部 */}
-                {isPlaying && (
+                {isPlaying && !replayingProgram && (
                   <div className="mt-auto pt-1 sm:pt-2 flex items-center gap-1 sm:gap-1.5 shrink-0">
                     <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-green-500 rounded-full animate-pulse"></div>
                     <span className="text-xs text-green-600 dark:text-green-400 font-medium">
@@ -283,6 +339,43 @@ export default function EpgScrollableRow({
                     </span>
                   </div>
                 )}
+
+                {/* 录制按钮：正在播放和未开始的节目可预约 */}
+                {isRecordable && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (!isScheduled) onRecordProgram?.(program);
+                    }}
+                    disabled={isScheduled}
+                    className={`mt-1 self-start inline-flex items-center gap-1 text-xs shrink-0 transition-colors ${isScheduled
+                      ? 'text-red-500 dark:text-red-400 cursor-default'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400'
+                      }`}
+                    title={isScheduled ? '已预约录制' : `录制：${program.title}`}
+                  >
+                    <CircleDot className="w-3 h-3" />
+                    <span>{isScheduled ? '已预约' : '录制'}</span>
+                  </button>
+                )}
+
+                {/* 提醒按钮：未开始的节目可设置提醒，再次点击取消 */}
+                {isRemindable && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemindProgram?.(program);
+                    }}
+                    className={`mt-1 self-start inline-flex items-center gap-1 text-xs shrink-0 transition-colors ${isReminded
+                      ? 'text-amber-500 dark:text-amber-400 hover:text-amber-600'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-amber-500 dark:hover:text-amber-400'
+                      }`}
+                    title={isReminded ? '取消提醒' : `提醒我：${program.title}`}
+                  >
+                    {isReminded ? <BellRing className="w-3 h-3" /> : <Bell className="w-3 h-3" />}
+                    <span>{isReminded ? '已提醒' : '提醒'}</span>
+                  </button>
+                )}
               </div>
             );
           })}
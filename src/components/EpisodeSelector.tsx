@@ -9,6 +9,8 @@ import React, {
   useState,
 } from 'react';
 
+import type { BatchOutputMode } from '@/lib/download';
+import { supportsDirectoryAccess } from '@/lib/download/stream-saver-fallback';
 import { SearchResult } from '@/lib/types';
 import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
 
@@ -42,6 +44,13 @@ interface EpisodeSelectorProps {
   sourceSearchError?: string | null;
   /** 预计算的测速结果，避免重复测速 */
   precomputedVideoInfo?: Map<string, VideoInfo>;
+  /** 批量下载回调，不传时不显示批量下载入口 */
+  onBatchDownload?: (
+    episodeIndexes: number[],
+    options: { output: BatchOutputMode; includeSubtitles: boolean }
+  ) => void | Promise<void>;
+  /** 当前视频是否带字幕，用于显示「附带字幕」选项 */
+  hasSubtitles?: boolean;
 }
 
 /**
@@ -61,6 +70,8 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   sourceSearchLoading = false,
   sourceSearchError = null,
   precomputedVideoInfo,
+  onBatchDownload,
+  hasSubtitles = false,
 }) => {
   const router = useRouter();
   const pageCount = Math.ceil(totalEpisodes / episodesPerPage);
@@ -319,13 +330,52 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
     [descending, pageCount]
   );
 
+  // 批量下载多选模式
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchSelected, setBatchSelected] = useState<Set<number>>(new Set());
+  const [batchOutput, setBatchOutput] = useState<BatchOutputMode>('zip');
+  const [batchSubtitles, setBatchSubtitles] = useState(true);
+  const [batchSubmitting, setBatchSubmitting] = useState(false);
+  const [canPickFolder, setCanPickFolder] = useState(false);
+
+  useEffect(() => {
+    setCanPickFolder(supportsDirectoryAccess());
+  }, []);
+
   const handleEpisodeClick = useCallback(
     (episodeNumber: number) => {
+      if (batchMode) {
+        setBatchSelected((prev) => {
+          const next = new Set(prev);
+          if (next.has(episodeNumber)) {
+            next.delete(episodeNumber);
+          } else {
+            next.add(episodeNumber);
+          }
+          return next;
+        });
+        return;
+      }
       onChange?.(episodeNumber);
     },
-    [onChange]
+    [batchMode, onChange]
   );
 
+  const handleBatchDownload = async () => {
+    if (!onBatchDownload || batchSelected.size === 0) return;
+    setBatchSubmitting(true);
+    try {
+      await onBatchDownload(Array.from(batchSelected).sort((a, b) => a - b), {
+        output: batchOutput,
+        includeSubtitles: hasSubtitles && batchSubtitles,
+      });
+      setBatchMode(false);
+      setBatchSelected(new Set());
+    } finally {
+      setBatchSubmitting(false);
+    }
+  };
+
   const handleSourceClick = useCallback(
     (source: SearchResult) => {
       onSourceChange?.(source.source, source.id, source.title);
@@ -431,6 +481,35 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
                 })}
               </div>
             </div>
+            {/* 批量下载按钮 */}
+            {onBatchDownload && (
+              <button
+                className={`shrink-0 w-8 h-8 sm:w-9 sm:h-9 rounded-lg flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95 transform translate-y-[-4px]
+                  ${batchMode
+                    ? 'text-white bg-green-500 hover:bg-green-600'
+                    : 'text-gray-700 hover:text-green-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-green-400 dark:hover:bg-white/20'
+                  }`.trim()}
+                onClick={() => {
+                  setBatchMode((prev) => !prev);
+                  setBatchSelected(new Set());
+                }}
+                title={batchMode ? '退出批量下载' : '批量下载'}
+              >
+                <svg
+                  className='w-4 h-4'
+                  fill='none'
+                  stroke='currentColor'
+                  viewBox='0 0 24 24'
+                >
+                  <path
+                    strokeLinecap='round'
+                    strokeLinejoin='round'
+                    strokeWidth='2'
+                    d='M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4'
+                  />
+                </svg>
+              </button>
+            )}
             {/* 向上/向下按钮 */}
             <button
               className='shrink-0 w-8 h-8 sm:w-9 sm:h-9 rounded-lg flex items-center justify-center text-gray-700 hover:text-green-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-green-400 dark:hover:bg-white/20 transition-all duration-200 hover:scale-105 active:scale-95 transform translate-y-[-4px]'
@@ -464,7 +543,9 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
               );
               return episodes;
             })().map((episodeNumber) => {
-              const isActive = episodeNumber === value;
+              const isActive = batchMode
+                ? batchSelected.has(episodeNumber - 1)
+                : episodeNumber === value;
               return (
                 <button
                   key={episodeNumber}
@@ -501,6 +582,66 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
               );
             })}
           </div>
+
+          {/* 批量下载操作栏 */}
+          {batchMode && (
+            <div className='shrink-0 -mx-4 px-4 py-3 border-t border-gray-300 dark:border-gray-700 space-y-2'>
+              <div className='flex items-center justify-between text-xs sm:text-sm text-gray-700 dark:text-gray-300'>
+                <span>已选 {batchSelected.size} 集</span>
+                <div className='flex gap-3'>
+                  <button
+                    className='hover:text-green-600 dark:hover:text-green-400'
+                    onClick={() =>
+                      setBatchSelected((prev) => {
+                        const next = new Set(prev);
+                        for (let i = currentStart; i <= currentEnd; i++) {
+                          next.add(i - 1);
+                        }
+                        return next;
+                      })
+                    }
+                  >
+                    全选本页
+                  </button>
+                  <button
+                    className='hover:text-green-600 dark:hover:text-green-400'
+                    onClick={() => setBatchSelected(new Set())}
+                  >
+                    清空
+                  </button>
+                </div>
+              </div>
+              <div className='flex items-center gap-2'>
+                <select
+                  value={batchOutput}
+                  onChange={(e) => setBatchOutput(e.target.value as BatchOutputMode)}
+                  className='flex-1 min-w-0 px-2 py-1.5 text-xs sm:text-sm rounded-lg bg-white/80 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                >
+                  <option value='zip'>打包为 ZIP</option>
+                  {canPickFolder && <option value='folder'>保存到文件夹</option>}
+                  <option value='files'>逐集单独保存</option>
+                </select>
+                {hasSubtitles && (
+                  <label className='flex items-center gap-1 text-xs sm:text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap cursor-pointer'>
+                    <input
+                      type='checkbox'
+                      checked={batchSubtitles}
+                      onChange={(e) => setBatchSubtitles(e.target.checked)}
+                      className='accent-green-600'
+                    />
+                    附带字幕
+                  </label>
+                )}
+                <button
+                  onClick={handleBatchDownload}
+                  disabled={batchSelected.size === 0 || batchSubmitting}
+                  className='px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg bg-green-500 hover:bg-green-600 text-white disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap'
+                >
+                  {batchSubmitting ? '准备中...' : '下载'}
+                </button>
+              </div>
+            </div>
+          )}
         </>
       )}
 
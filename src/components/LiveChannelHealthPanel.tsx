@@ -0,0 +1,329 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { AlertCircle, CheckCircle, Download, Radio, RefreshCw } from 'lucide-react';
+import { Fragment, useEffect, useState } from 'react';
+
+import { AdminConfig } from '@/lib/admin.types';
+import type { LiveChannelHealthSummary } from '@/lib/live-health';
+import { LiveChannelErrorClass, LiveChannelHealth } from '@/lib/types';
+
+interface LiveChannelHealthPanelProps {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}
+
+const ERROR_CLASS_LABELS: Record<LiveChannelErrorClass, string> = {
+  timeout: '超时',
+  network: '网络错误',
+  http: 'HTTP 错误',
+  manifest: '播放列表无效',
+  empty: '内容为空',
+};
+
+const formatTime = (timestamp: number | null) =>
+  timestamp ? new Date(timestamp).toLocaleString('zh-CN', { hour12: false }) : '-';
+
+function describeFailure(health: LiveChannelHealth): string {
+  const label = health.errorClass ? ERROR_CLASS_LABELS[health.errorClass] : '失败';
+  return health.error && health.error !== label ? `${label}：${health.error}` : label;
+}
+
+const LiveChannelHealthPanel = ({ config, refreshConfig }: LiveChannelHealthPanelProps) => {
+  const [sources, setSources] = useState<LiveChannelHealthSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [probing, setProbing] = useState<string | null>(null); // 正在检测的直播源 key，'*' 表示全部
+  const [saving, setSaving] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [settings, setSettings] = useState({
+    enabled: false,
+    intervalHours: 12,
+    hideDeadChannels: true,
+  });
+
+  // 从config加载设置
+  useEffect(() => {
+    const cfg = config?.LiveChannelHealthConfig;
+    setSettings({
+      enabled: cfg?.enabled ?? false,
+      intervalHours: cfg?.intervalHours ?? 12,
+      hideDeadChannels: cfg?.hideDeadChannels ?? true,
+    });
+  }, [config]);
+
+  // 显示消息
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const fetchHealth = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/live/health');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取频道检测结果失败');
+      }
+      setSources(data.sources || []);
+    } catch (error: any) {
+      console.error('获取频道检测结果失败:', error);
+      showMessage('error', error.message || '获取频道检测结果失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHealth();
+  }, []);
+
+  // 保存配置
+  const handleSave = async () => {
+    if (!config) {
+      showMessage('error', '配置未加载');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updatedConfig = {
+        ...config,
+        LiveChannelHealthConfig: {
+          enabled: settings.enabled,
+          intervalHours: Math.max(1, Math.floor(settings.intervalHours) || 1),
+          hideDeadChannels: settings.hideDeadChannels,
+        },
+      };
+
+      const response = await fetch('/api/admin/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updatedConfig),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || '保存失败');
+      }
+
+      showMessage('success', '频道检测配置已保存');
+      await refreshConfig();
+    } catch (error: any) {
+      console.error('保存配置失败:', error);
+      showMessage('error', error.message || '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleProbe = async (key?: string) => {
+    setProbing(key || '*');
+    try {
+      const response = await fetch('/api/admin/live/health', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'probe', key }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '检测失败');
+      }
+      const { total, healthy } = data.result;
+      showMessage('success', `检测完成：${healthy}/${total} 个频道可用`);
+      await fetchHealth();
+    } catch (error: any) {
+      showMessage('error', error.message || '检测失败');
+    } finally {
+      setProbing(null);
+    }
+  };
+
+  const handleExport = (key: string) => {
+    window.open(`/api/admin/live/health/export?key=${encodeURIComponent(key)}`, '_blank');
+  };
+
+  return (
+    <div className='space-y-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg'>
+      {/* 标题和说明 */}
+      <div className='flex items-start gap-3'>
+        <Radio className='w-5 h-5 text-teal-500 shrink-0 mt-0.5' />
+        <div className='flex-1'>
+          <h4 className='text-sm font-semibold text-gray-900 dark:text-gray-100'>
+            频道可用性检测
+          </h4>
+          <p className='text-xs text-gray-600 dark:text-gray-400 mt-1'>
+            由服务器逐个请求频道地址，校验 m3u8 播放列表和分片并记录码率、分辨率；失效频道默认不在直播页显示，可导出剔除失效频道后的 M3U
+          </p>
+        </div>
+      </div>
+
+      {/* 设置 */}
+      <div className='grid grid-cols-1 md:grid-cols-3 gap-4 items-end'>
+        <label className='flex items-center gap-3'>
+          <input
+            type='checkbox'
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+            className='w-4 h-4 text-teal-600 rounded border-gray-300 dark:border-gray-600'
+          />
+          <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            定时任务中自动检测
+          </span>
+        </label>
+        <label className='flex items-center gap-3'>
+          <input
+            type='checkbox'
+            checked={settings.hideDeadChannels}
+            onChange={(e) => setSettings({ ...settings, hideDeadChannels: e.target.checked })}
+            className='w-4 h-4 text-teal-600 rounded border-gray-300 dark:border-gray-600'
+          />
+          <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            直播页隐藏失效频道
+          </span>
+        </label>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            自动检测间隔（小时）
+          </label>
+          <input
+            type='number'
+            min={1}
+            value={settings.intervalHours}
+            onChange={(e) => setSettings({ ...settings, intervalHours: Number(e.target.value) })}
+            className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-teal-500 focus:border-transparent'
+          />
+        </div>
+      </div>
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`flex items-center gap-2 p-3 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle className='w-5 h-5 shrink-0' />
+          ) : (
+            <AlertCircle className='w-5 h-5 shrink-0' />
+          )}
+          <span className='text-sm'>{message.text}</span>
+        </div>
+      )}
+
+      {/* 操作按钮 */}
+      <div className='flex flex-wrap gap-3'>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className='px-3 py-1.5 text-sm bg-teal-600 hover:bg-teal-700 disabled:bg-teal-400 text-white rounded-lg font-medium transition-colors'
+        >
+          {saving ? '保存中...' : '保存配置'}
+        </button>
+        <button
+          onClick={() => handleProbe()}
+          disabled={probing !== null}
+          className='flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors'
+        >
+          <RefreshCw className={`w-4 h-4 ${probing === '*' ? 'animate-spin' : ''}`} />
+          {probing === '*' ? '检测中...' : '检测全部直播源'}
+        </button>
+      </div>
+
+      {/* 检测结果 */}
+      <div className='overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>直播源</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>可用频道</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>上次检测</th>
+              <th className='px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>操作</th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+            {sources.map((source) => (
+              <Fragment key={source.key}>
+                <tr className='hover:bg-gray-50 dark:hover:bg-gray-800'>
+                  <td className='px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {source.name}
+                    {source.disabled && (
+                      <span className='ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'>已禁用</span>
+                    )}
+                  </td>
+                  <td className='px-4 py-3 whitespace-nowrap text-sm'>
+                    {source.checkedAt ? (
+                      <button
+                        onClick={() => setExpanded(expanded === source.key ? null : source.key)}
+                        disabled={source.deadChannels.length === 0}
+                        className={source.deadChannels.length > 0
+                          ? 'text-red-600 dark:text-red-400 hover:underline'
+                          : 'text-green-600 dark:text-green-400'}
+                        title={source.deadChannels.length > 0 ? '查看失效频道' : undefined}
+                      >
+                        {source.healthy}/{source.total}
+                      </button>
+                    ) : (
+                      <span className='text-gray-500 dark:text-gray-400'>未检测</span>
+                    )}
+                  </td>
+                  <td className='px-4 py-3 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400'>
+                    {formatTime(source.checkedAt)}
+                  </td>
+                  <td className='px-4 py-3 whitespace-nowrap text-right space-x-2'>
+                    <button
+                      onClick={() => handleProbe(source.key)}
+                      disabled={probing !== null}
+                      className='px-3 py-1 text-xs font-medium rounded-lg bg-teal-100 dark:bg-teal-900/20 text-teal-800 dark:text-teal-300 hover:bg-teal-200 dark:hover:bg-teal-900/40 disabled:opacity-50 transition-colors'
+                    >
+                      {probing === source.key ? '检测中...' : '检测频道'}
+                    </button>
+                    <button
+                      onClick={() => handleExport(source.key)}
+                      className='inline-flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors'
+                    >
+                      <Download className='w-3 h-3' />
+                      导出 M3U
+                    </button>
+                  </td>
+                </tr>
+                {expanded === source.key && (
+                  <tr>
+                    <td colSpan={4} className='px-4 py-3 bg-gray-50 dark:bg-gray-900'>
+                      <ul className='space-y-1 max-h-64 overflow-y-auto'>
+                        {source.deadChannels.map((channel) => (
+                          <li key={channel.url} className='flex items-center justify-between gap-4 text-xs'>
+                            <span className='text-gray-900 dark:text-gray-100 truncate' title={channel.url}>
+                              {channel.name}
+                            </span>
+                            <span className='text-red-600 dark:text-red-400 whitespace-nowrap'>
+                              {describeFailure(channel.health)}
+                              {channel.health.consecutiveFailures > 1 && `（连续 ${channel.health.consecutiveFailures} 次）`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {sources.length === 0 && (
+              <tr>
+                <td colSpan={4} className='px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400'>
+                  {loading ? '加载中...' : '暂无直播源'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LiveChannelHealthPanel;
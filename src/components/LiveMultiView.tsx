@@ -0,0 +1,258 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import Hls from 'hls.js';
+import { Maximize2, Plus, Volume2, VolumeX, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+import { findCappedLevel } from '@/lib/live-quality';
+import { parseCustomTimeFormat } from '@/lib/time';
+
+export const MULTI_VIEW_SIZE = 4;
+
+// 声音焦点画面和其他画面的画质上限，四路同时播放时控制总带宽
+const FOCUSED_MAX_HEIGHT = 720;
+const BACKGROUND_MAX_HEIGHT = 480;
+const EPG_REFRESH_INTERVAL = 60 * 1000;
+
+export interface MultiViewTile {
+  sourceKey: string;
+  channelId: string;
+  tvgId: string;
+  name: string;
+  url: string;
+}
+
+interface NowPlaying {
+  title: string;
+  startAt: number;
+  endAt: number;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+const isFlvUrl = (url: string) => {
+  const lower = url.toLowerCase();
+  return lower.includes('.flv') || lower.includes('/flv');
+};
+
+// 单个画面：独立的 hls.js 实例，非焦点画面静音并限制画质
+function MultiViewPlayer({ tile, focused }: { tile: MultiViewTile; focused: boolean }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+  const degradeRef = useRef(0); // 卡顿后额外下调的档位数
+  const focusedRef = useRef(focused);
+  const [error, setError] = useState('');
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null);
+
+  const applyLevelCap = () => {
+    const hls = hlsRef.current;
+    if (!hls || hls.levels.length === 0) return;
+    const cap = findCappedLevel(hls.levels, focusedRef.current ? FOCUSED_MAX_HEIGHT : BACKGROUND_MAX_HEIGHT);
+    const base = cap >= 0 ? cap : hls.levels.length - 1;
+    hls.autoLevelCapping = Math.max(0, base - degradeRef.current);
+  };
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    setError('');
+    degradeRef.current = 0;
+
+    if (isFlvUrl(tile.url)) {
+      setError('多画面暂不支持 FLV 直播流');
+      return;
+    }
+    if (!Hls.isSupported()) {
+      setError('当前浏览器不支持多画面播放');
+      return;
+    }
+
+    const src = `/api/proxy/m3u8?url=${encodeURIComponent(tile.url)}&moontv-source=${encodeURIComponent(tile.sourceKey)}`;
+    const hls = new Hls({
+      enableWorker: true,
+      lowLatencyMode: false,
+      maxBufferLength: 10,
+      backBufferLength: 10,
+      capLevelToPlayerSize: true,
+      startLevel: 0,
+    });
+    hlsRef.current = hls;
+    hls.loadSource(src);
+    hls.attachMedia(video);
+
+    hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      applyLevelCap();
+      video.play().catch(() => {
+        // 浏览器禁止有声自动播放时先静音播放
+        video.muted = true;
+        video.play().catch(() => undefined);
+      });
+    });
+
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      // 缓冲卡顿时逐档降低画质
+      if (data.details === Hls.ErrorDetails.BUFFER_STALLED_ERROR && hls.levels.length > 1) {
+        degradeRef.current++;
+        applyLevelCap();
+        return;
+      }
+      if (!data.fatal) return;
+      if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+        hls.recoverMediaError();
+        return;
+      }
+      console.error('多画面播放失败:', data);
+      setError('频道暂时无法播放');
+      hls.destroy();
+      hlsRef.current = null;
+    });
+
+    return () => {
+      hls.destroy();
+      hlsRef.current = null;
+    };
+  }, [tile.url, tile.sourceKey]);
+
+  // 声音焦点切换
+  useEffect(() => {
+    focusedRef.current = focused;
+    applyLevelCap();
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = !focused;
+    if (focused && video.paused) {
+      video.play().catch(() => undefined);
+    }
+  }, [focused]);
+
+  // 角标显示的正在播出节目
+  useEffect(() => {
+    if (!tile.tvgId) {
+      setNowPlaying(null);
+      return;
+    }
+    let cancelled = false;
+    let programs: NowPlaying[] = [];
+
+    const updateNowPlaying = () => {
+      const now = Date.now();
+      setNowPlaying(programs.find((program) => program.startAt <= now && program.endAt > now) || null);
+    };
+
+    const fetchEpg = async () => {
+      try {
+        const response = await fetch(
+          `/api/live/epg?source=${encodeURIComponent(tile.sourceKey)}&tvgId=${encodeURIComponent(tile.tvgId)}`
+        );
+        if (!response.ok) return;
+        const result = await response.json();
+        if (cancelled) return;
+        programs = (result.data?.programs || []).map((program: { start: string; end: string; title: string }) => ({
+          title: program.title,
+          startAt: parseCustomTimeFormat(program.start).getTime(),
+          endAt: parseCustomTimeFormat(program.end).getTime(),
+        }));
+        updateNowPlaying();
+      } catch (err) {
+        console.error('获取多画面节目单失败:', err);
+      }
+    };
+
+    fetchEpg();
+    const timer = setInterval(updateNowPlaying, EPG_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [tile.sourceKey, tile.tvgId]);
+
+  return (
+    <>
+      <video ref={videoRef} className='w-full h-full object-contain bg-black' muted={!focused} playsInline />
+      {error && (
+        <div className='absolute inset-0 flex items-center justify-center text-sm text-gray-300 bg-black/80'>
+          {error}
+        </div>
+      )}
+      <div className='absolute left-0 right-0 bottom-0 px-2 py-1.5 bg-linear-to-t from-black/80 to-transparent pointer-events-none'>
+        <p className='text-xs font-medium text-white truncate'>{tile.name}</p>
+        {nowPlaying && (
+          <p className='text-[11px] text-white/80 truncate'>
+            {formatClock(nowPlaying.startAt)}-{formatClock(nowPlaying.endAt)} {nowPlaying.title}
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
+
+interface LiveMultiViewProps {
+  tiles: Array<MultiViewTile | null>;
+  activeIndex: number;
+  onActivate: (index: number) => void;
+  onRemove: (index: number) => void;
+  onExpand: (index: number) => void;
+}
+
+/**
+ * 多画面直播：2×2 网格同时播放最多四个频道
+ * 选中的画面拥有声音焦点，频道列表中点击频道会填入空位或替换选中的画面
+ */
+export default function LiveMultiView({ tiles, activeIndex, onActivate, onRemove, onExpand }: LiveMultiViewProps) {
+  return (
+    <div className='grid grid-cols-2 grid-rows-2 gap-1 w-full h-full p-1 bg-black rounded-xl overflow-hidden'>
+      {tiles.map((tile, index) => {
+        const active = index === activeIndex;
+        return (
+          <div
+            key={index}
+            onClick={() => onActivate(index)}
+            className={`group relative min-h-0 rounded-md overflow-hidden cursor-pointer bg-gray-900 ring-2 transition-shadow ${active ? 'ring-green-500' : 'ring-transparent hover:ring-white/30'
+              }`}
+          >
+            {tile ? (
+              <>
+                <MultiViewPlayer tile={tile} focused={active} />
+                <div className='absolute top-1 left-1 p-1 rounded-full bg-black/50 text-white pointer-events-none'>
+                  {active ? <Volume2 className='w-3.5 h-3.5' /> : <VolumeX className='w-3.5 h-3.5 opacity-70' />}
+                </div>
+                <div className={`absolute top-1 right-1 flex gap-1 transition-opacity ${active ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onExpand(index);
+                    }}
+                    className='p-1 rounded-full bg-black/60 text-white hover:bg-black/80'
+                    title='单独播放此频道'
+                    aria-label='Expand'
+                  >
+                    <Maximize2 className='w-3.5 h-3.5' />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove(index);
+                    }}
+                    className='p-1 rounded-full bg-black/60 text-white hover:bg-black/80'
+                    title='关闭此画面'
+                    aria-label='Close'
+                  >
+                    <X className='w-3.5 h-3.5' />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className='absolute inset-0 flex flex-col items-center justify-center gap-1 text-gray-500'>
+                <Plus className='w-6 h-6' />
+                <span className='text-xs'>{active ? '在频道列表中选择频道' : '空闲画面'}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { ArrowDown, ArrowUp, Check, Copy, ListVideo, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import { getAllFavorites, getLivePreferences, saveLivePreferences } from '@/lib/db.client';
+
+interface LivePlaylistExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface FavoriteChannel {
+  id: string; // 直播页的频道 id
+  title: string;
+  sourceName: string;
+}
+
+// 收藏 key 形如 live_<直播源>+live_<频道 id>
+function parseLiveFavoriteKey(key: string): string | null {
+  const index = key.indexOf('+live_');
+  if (!key.startsWith('live_') || index === -1) return null;
+  return key.slice(index + '+live_'.length) || null;
+}
+
+export const LivePlaylistExportModal: React.FC<LivePlaylistExportModalProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [channels, setChannels] = useState<FavoriteChannel[]>([]);
+  const [channelNames, setChannelNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState('');
+  const [token, setToken] = useState('');
+  const [copiedUrl, setCopiedUrl] = useState('');
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  const loadChannels = async () => {
+    setLoading(true);
+    try {
+      const [favorites, preferences] = await Promise.all([getAllFavorites(), getLivePreferences()]);
+      const order = preferences?.channelOrder || [];
+      const list = Object.entries(favorites)
+        .filter(([, favorite]) => favorite.origin === 'live')
+        .map(([key, favorite]) => ({
+          id: parseLiveFavoriteKey(key) || '',
+          title: favorite.title,
+          sourceName: favorite.source_name,
+        }))
+        .filter((channel) => channel.id);
+      // 按已保存的顺序排列，新收藏的频道排在后面
+      const position = new Map(order.map((id, index) => [id, index]));
+      list.sort((a, b) => (position.get(a.id) ?? order.length) - (position.get(b.id) ?? order.length));
+      setChannels(list);
+      setChannelNames(preferences?.channelNames || {});
+      setDirty(false);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载收藏频道失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadChannels();
+    }
+  }, [isOpen]);
+
+  const moveChannel = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= channels.length) return;
+    setChannels((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setDirty(true);
+  };
+
+  const handleRename = (id: string, name: string) => {
+    setChannelNames((prev) => ({ ...prev, [id]: name }));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await saveLivePreferences({
+        channelNames,
+        channelOrder: channels.map((channel) => channel.id),
+      });
+      setDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedUrl(url);
+      setTimeout(() => setCopiedUrl(''), 2000);
+    } catch (err) {
+      console.error('复制失败:', err);
+    }
+  };
+
+  if (!isOpen || !mounted) return null;
+
+  const origin = window.location.origin;
+  const tokenParam = encodeURIComponent(token.trim() || '<令牌>');
+  const exportUrls = [
+    { label: 'M3U 播放列表', url: `${origin}/api/live/export?token=${tokenParam}` },
+    { label: 'M3U8 播放列表', url: `${origin}/api/live/export?token=${tokenParam}&format=m3u8` },
+    { label: '仅收藏频道', url: `${origin}/api/live/export?token=${tokenParam}&favorites=1` },
+    { label: 'XMLTV 节目单', url: `${origin}/api/live/export/xmltv?token=${tokenParam}` },
+  ];
+
+  return createPortal(
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+
+      {/* 导出面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-xl max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-1001 flex flex-col overflow-hidden'>
+        <div className='p-6 overflow-y-auto' data-panel-content>
+          {/* 标题栏 */}
+          <div className='flex items-center justify-between mb-2'>
+            <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200 flex items-center gap-2'>
+              <ListVideo className='w-5 h-5' />
+              导出播放列表
+            </h3>
+            <button
+              onClick={onClose}
+              className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+              aria-label='Close'
+            >
+              <X className='w-full h-full' />
+            </button>
+          </div>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mb-5'>
+            在 Kodi、TiviMate、VLC 等播放器中订阅以下地址。令牌请在用户菜单「访问令牌」中创建，并勾选「直播播放列表订阅」权限
+          </p>
+
+          {/* 订阅地址 */}
+          <div className='space-y-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+            <input
+              type='text'
+              className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400'
+              placeholder='粘贴访问令牌以生成完整地址（仅在本地使用，不会保存）'
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+            />
+            {exportUrls.map(({ label, url }) => (
+              <div key={label} className='flex items-center gap-2'>
+                <span className='w-24 shrink-0 text-xs text-gray-600 dark:text-gray-400'>{label}</span>
+                <code className='flex-1 min-w-0 font-mono text-xs truncate text-gray-900 dark:text-gray-100' title={url}>
+                  {url}
+                </code>
+                <button
+                  onClick={() => handleCopy(url)}
+                  disabled={!token.trim()}
+                  className='p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40'
+                  aria-label='Copy'
+                >
+                  {copiedUrl === url ? <Check className='w-4 h-4' /> : <Copy className='w-4 h-4' />}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className='mt-4 text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+
+          {/* 收藏频道：重命名与排序 */}
+          <div className='mt-5'>
+            <div className='flex items-center justify-between mb-2'>
+              <h4 className='text-sm font-medium text-gray-800 dark:text-gray-200'>
+                收藏频道（导出到「我的收藏」分组）
+              </h4>
+              <button
+                onClick={handleSave}
+                disabled={saving || !dirty}
+                className='px-3 py-1 text-xs font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {saving ? '保存中...' : '保存'}
+              </button>
+            </div>
+            <div className='space-y-2'>
+              {loading && channels.length === 0 ? (
+                <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>加载中...</p>
+              ) : channels.length === 0 ? (
+                <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>
+                  暂无收藏频道，可在直播页点击收藏按钮添加
+                </p>
+              ) : (
+                channels.map((channel, index) => (
+                  <div
+                    key={channel.id}
+                    className='flex items-center gap-2 p-2 rounded-md bg-gray-50 dark:bg-gray-800/60'
+                  >
+                    <div className='flex flex-col'>
+                      <button
+                        onClick={() => moveChannel(index, -1)}
+                        disabled={index === 0}
+                        className='p-0.5 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-30'
+                        aria-label='Move up'
+                      >
+                        <ArrowUp className='w-3.5 h-3.5' />
+                      </button>
+                      <button
+                        onClick={() => moveChannel(index, 1)}
+                        disabled={index === channels.length - 1}
+                        className='p-0.5 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-30'
+                        aria-label='Move down'
+                      >
+                        <ArrowDown className='w-3.5 h-3.5' />
+                      </button>
+                    </div>
+                    <input
+                      type='text'
+                      className='flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400'
+                      placeholder={channel.title}
+                      value={channelNames[channel.id] || ''}
+                      maxLength={100}
+                      onChange={(e) => handleRename(channel.id, e.target.value)}
+                    />
+                    <span className='shrink-0 max-w-[6rem] truncate text-xs text-gray-500 dark:text-gray-400'>
+                      {channel.sourceName}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>,
+    document.body
+  );
+};
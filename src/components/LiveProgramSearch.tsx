@@ -0,0 +1,233 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps,@next/next/no-img-element */
+
+'use client';
+
+import { Bell, BellRing, Play, Search, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+import type { ProgramSearchResult } from '@/lib/channel-search';
+
+type ProgramRange = 'now' | 'tonight' | 'today' | 'next24h';
+
+const RANGE_OPTIONS: { value: ProgramRange; label: string }[] = [
+  { value: 'now', label: '正在播出' },
+  { value: 'tonight', label: '今晚' },
+  { value: 'today', label: '今天' },
+  { value: 'next24h', label: '未来24小时' },
+];
+
+// 按本地时间计算搜索范围，「今晚」为 18:00 到次日 02:00
+function getRange(range: ProgramRange): { from: number; to: number } {
+  const now = new Date();
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const hour = 60 * 60 * 1000;
+  switch (range) {
+    case 'now':
+      return { from: now.getTime(), to: now.getTime() + 1 };
+    case 'tonight':
+      return { from: Math.max(now.getTime(), startOfDay + 18 * hour), to: startOfDay + 26 * hour };
+    case 'today':
+      return { from: now.getTime(), to: startOfDay + 24 * hour };
+    case 'next24h':
+    default:
+      return { from: now.getTime(), to: now.getTime() + 24 * hour };
+  }
+}
+
+function formatTimeSlot(startAt: number, endAt: number): string {
+  const start = new Date(startAt);
+  const time = (d: Date) => d.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
+  const isToday = start.toDateString() === new Date().toDateString();
+  const date = isToday ? '' : `${start.toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' })} `;
+  return `${date}${time(start)} - ${time(new Date(endAt))}`;
+}
+
+interface LiveProgramSearchProps {
+  currentSourceKey?: string;
+  currentChannelId?: string;
+  onPlay: (program: ProgramSearchResult) => void;
+  onRemind?: (program: ProgramSearchResult) => void;
+  isReminded?: (program: ProgramSearchResult) => boolean;
+}
+
+/**
+ * 节目搜索：在所有启用的直播源节目单中按节目名搜索
+ */
+export default function LiveProgramSearch({
+  currentSourceKey,
+  currentChannelId,
+  onPlay,
+  onRemind,
+  isReminded,
+}: LiveProgramSearchProps) {
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<ProgramRange>('next24h');
+  const [results, setResults] = useState<ProgramSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const keyword = query.trim();
+    if (!keyword) {
+      requestIdRef.current++;
+      setResults([]);
+      setError('');
+      setLoading(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const requestId = ++requestIdRef.current;
+      const { from, to } = getRange(range);
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ q: keyword, from: String(from), to: String(to) });
+        const response = await fetch(`/api/live/epg/search?${params.toString()}`);
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || '搜索节目失败');
+        }
+        if (requestId !== requestIdRef.current) return;
+        setResults(data.data || []);
+        setError('');
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('搜索节目失败:', err);
+        setResults([]);
+        setError(err instanceof Error ? err.message : '搜索节目失败');
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query, range]);
+
+  const now = Date.now();
+
+  return (
+    <div className='flex flex-col h-full mt-4'>
+      {/* 搜索框 */}
+      <div className='mb-3 -mx-6 px-6 shrink-0'>
+        <div className='relative'>
+          <Search className='absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400' />
+          <input
+            type='text'
+            placeholder='搜索节目，如：足球、新闻联播...'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className='w-full pl-10 pr-8 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent'
+          />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className='absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'
+            >
+              <X className='w-4 h-4' />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* 时间范围 */}
+      <div className='mb-3 -mx-6 px-6 shrink-0 flex flex-wrap gap-2'>
+        {RANGE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setRange(option.value)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${range === option.value
+              ? 'bg-green-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {query.trim() && !loading && !error && results.length > 0 && (
+        <div className='mb-2 text-xs text-gray-500 dark:text-gray-400 shrink-0'>
+          找到 {results.length} 个节目
+        </div>
+      )}
+
+      <div className='flex-1 overflow-y-auto space-y-1 pb-20'>
+        {!query.trim() ? (
+          <div className='text-center py-8 text-sm text-gray-500 dark:text-gray-400'>
+            在所有直播源的节目单中搜索节目
+          </div>
+        ) : loading && results.length === 0 ? (
+          <div className='text-center py-8 text-sm text-gray-500 dark:text-gray-400'>搜索中...</div>
+        ) : error ? (
+          <div className='text-center py-8 text-sm text-red-500'>{error}</div>
+        ) : results.length === 0 ? (
+          <div className='text-center py-8 text-sm text-gray-500 dark:text-gray-400'>
+            没有找到相关节目
+          </div>
+        ) : (
+          results.map((program) => {
+            const live = program.startAt <= now && program.endAt > now;
+            const isCurrent =
+              program.sourceKey === currentSourceKey && program.channelId === currentChannelId;
+            const reminded = isReminded?.(program) ?? false;
+            return (
+              <div
+                key={`${program.sourceKey}-${program.channelId}-${program.startAt}`}
+                className={`flex items-center gap-3 px-2 py-2 rounded-lg transition-colors ${isCurrent
+                  ? 'bg-green-500/10 dark:bg-green-500/20'
+                  : 'hover:bg-gray-200/50 dark:hover:bg-white/10'
+                  }`}
+              >
+                <div className='w-10 h-10 bg-gray-300 dark:bg-gray-700 rounded-lg flex items-center justify-center shrink-0 overflow-hidden'>
+                  {program.channelLogo ? (
+                    <img
+                      src={`/api/proxy/logo?url=${encodeURIComponent(program.channelLogo)}&source=${program.sourceKey}`}
+                      alt={program.channelName}
+                      className='w-full h-full rounded object-contain'
+                      loading='lazy'
+                    />
+                  ) : (
+                    <span className='text-xs text-gray-500 dark:text-gray-400'>
+                      {program.channelName.slice(0, 2)}
+                    </span>
+                  )}
+                </div>
+                <div className='flex-1 min-w-0'>
+                  <p className='text-sm font-medium text-gray-900 dark:text-gray-100 truncate' title={program.title}>
+                    {program.title}
+                  </p>
+                  <p className='text-xs text-gray-500 dark:text-gray-400 truncate'>
+                    {live && <span className='mr-1 text-red-500'>● 直播中</span>}
+                    {formatTimeSlot(program.startAt, program.endAt)} · {program.channelName} · {program.sourceName}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onPlay(program)}
+                  className='p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  title='切换到该频道'
+                  aria-label='Play'
+                >
+                  <Play className='w-4 h-4' />
+                </button>
+                {onRemind && program.startAt > now && (
+                  <button
+                    onClick={() => onRemind(program)}
+                    className={`p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 ${reminded
+                      ? 'text-amber-500'
+                      : 'text-gray-600 dark:text-gray-300'
+                      }`}
+                    title={reminded ? '取消提醒' : '开播提醒'}
+                    aria-label='Remind'
+                  >
+                    {reminded ? <BellRing className='w-4 h-4' /> : <Bell className='w-4 h-4' />}
+                  </button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import Hls from 'hls.js';
+import { Download, Play, Square, Trash2, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import type { LiveRecording, LiveRecordingStatus } from '@/lib/types';
+
+interface LiveRecordingUsage {
+  userBytes: number;
+  totalBytes: number;
+  userQuotaBytes: number;
+  totalQuotaBytes: number;
+}
+
+const STATUS_LABELS: Record<LiveRecordingStatus, { label: string; className: string }> = {
+  scheduled: { label: '已预约', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  recording: { label: '录制中', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  completed: { label: '已完成', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  failed: { label: '失败', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  cancelled: { label: '已取消', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes <= 0) return '0 B';
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), sizes.length - 1);
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(1))} ${sizes[i]}`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0
+    ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+    : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+function formatTimeRange(startAt: number, endAt: number): string {
+  const start = new Date(startAt);
+  const end = new Date(endAt);
+  const date = start.toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' });
+  const time = (d: Date) => d.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `${date} ${time(start)} - ${time(end)}`;
+}
+
+// 录制回放：录制中的播放列表为 EVENT 类型，hls.js 会持续刷新
+function RecordingPlayer({ recording, onClose }: { recording: LiveRecording; onClose: () => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const src = `/api/live/recordings/${encodeURIComponent(recording.id)}/index.m3u8`;
+
+    if (Hls.isSupported()) {
+      const hls = new Hls();
+      hls.loadSource(src);
+      hls.attachMedia(video);
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) {
+          console.error('录制回放失败:', data);
+        }
+      });
+      return () => hls.destroy();
+    }
+
+    // Safari 原生支持 HLS
+    video.src = src;
+    return () => {
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, [recording.id]);
+
+  return createPortal(
+    <>
+      <div
+        className='fixed inset-0 bg-black/70 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-4xl bg-black rounded-xl shadow-xl z-1001 overflow-hidden'>
+        <div className='flex items-center justify-between px-4 py-2 bg-gray-900 text-gray-100'>
+          <span className='text-sm font-medium truncate'>
+            {recording.title} · {recording.channelName}
+          </span>
+          <button
+            onClick={onClose}
+            className='w-7 h-7 p-1 rounded-full flex items-center justify-center text-gray-400 hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+        <video ref={videoRef} className='w-full aspect-video bg-black' controls autoPlay playsInline />
+      </div>
+    </>,
+    document.body
+  );
+}
+
+export default function LiveRecordingLibrary() {
+  const [recordings, setRecordings] = useState<LiveRecording[]>([]);
+  const [usage, setUsage] = useState<LiveRecordingUsage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [playing, setPlaying] = useState<LiveRecording | null>(null);
+  const [busyId, setBusyId] = useState('');
+
+  const fetchRecordings = async () => {
+    try {
+      const response = await fetch('/api/live/recordings');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取录制列表失败');
+      }
+      setRecordings(data.recordings || []);
+      setUsage(data.usage || null);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取录制列表失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecordings();
+  }, []);
+
+  // 有预约或录制中的任务时定时刷新状态和大小
+  const hasActive = recordings.some((r) => r.status === 'scheduled' || r.status === 'recording');
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(fetchRecordings, 15000);
+    return () => clearInterval(timer);
+  }, [hasActive]);
+
+  const handleRemove = async (recording: LiveRecording) => {
+    const confirmText =
+      recording.status === 'scheduled'
+        ? `取消预约「${recording.title}」？`
+        : recording.status === 'recording'
+          ? `停止录制「${recording.title}」？已录制的内容会保留`
+          : `删除录制「${recording.title}」及其文件？`;
+    if (!window.confirm(confirmText)) return;
+
+    setBusyId(recording.id);
+    try {
+      const response = await fetch(`/api/live/recordings?id=${encodeURIComponent(recording.id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '操作失败');
+      }
+      await fetchRecordings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='space-y-3'>
+        {Array.from({ length: 4 }).map((_, index) => (
+          <div key={index} className='animate-pulse bg-gray-200 dark:bg-gray-700 rounded-lg h-20' />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {usage && (
+        <div className='mb-4 text-xs text-gray-500 dark:text-gray-400'>
+          已使用 {formatBytes(usage.userBytes)}
+          {usage.userQuotaBytes > 0 && ` / ${formatBytes(usage.userQuotaBytes)}`}
+          （全站 {formatBytes(usage.totalBytes)} / {formatBytes(usage.totalQuotaBytes)}）
+        </div>
+      )}
+
+      {error && (
+        <div className='bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-4'>
+          <p className='text-red-800 dark:text-red-200'>{error}</p>
+        </div>
+      )}
+
+      {recordings.length === 0 ? (
+        <div className='text-center py-12'>
+          <p className='text-gray-500 dark:text-gray-400'>
+            暂无录制，可在直播页的节目单中预约录制
+          </p>
+        </div>
+      ) : (
+        <div className='space-y-3'>
+          {recordings.map((recording) => {
+            const status = STATUS_LABELS[recording.status];
+            const playable = recording.segments > 0;
+            return (
+              <div
+                key={recording.id}
+                className='flex items-center gap-3 p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700'
+              >
+                <div className='flex-1 min-w-0'>
+                  <div className='flex items-center gap-2'>
+                    <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                    <span className='font-medium text-gray-900 dark:text-gray-100 truncate'>
+                      {recording.title}
+                    </span>
+                  </div>
+                  <div className='mt-1 text-xs text-gray-500 dark:text-gray-400 truncate'>
+                    {recording.channelName} · {formatTimeRange(recording.startAt, recording.endAt)}
+                    {playable && ` · ${formatDuration(recording.duration)} · ${formatBytes(recording.bytes)}`}
+                  </div>
+                  {recording.error && (
+                    <div className='mt-1 text-xs text-red-500 truncate' title={recording.error}>
+                      {recording.error}
+                    </div>
+                  )}
+                </div>
+
+                <div className='flex items-center gap-1 shrink-0'>
+                  {playable && (
+                    <button
+                      onClick={() => setPlaying(recording)}
+                      className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      aria-label='Play'
+                      title='播放'
+                    >
+                      <Play className='w-4 h-4' />
+                    </button>
+                  )}
+                  {playable && recording.status !== 'recording' && (
+                    <a
+                      href={`/api/live/recordings/${encodeURIComponent(recording.id)}/download`}
+                      className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      aria-label='Download'
+                      title='下载'
+                    >
+                      <Download className='w-4 h-4' />
+                    </a>
+                  )}
+                  <button
+                    onClick={() => handleRemove(recording)}
+                    disabled={busyId === recording.id}
+                    className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40'
+                    aria-label={recording.status === 'recording' ? 'Stop' : 'Delete'}
+                    title={
+                      recording.status === 'scheduled'
+                        ? '取消预约'
+                        : recording.status === 'recording'
+                          ? '停止录制'
+                          : '删除'
+                    }
+                  >
+                    {recording.status === 'recording' ? (
+                      <Square className='w-4 h-4' />
+                    ) : (
+                      <Trash2 className='w-4 h-4' />
+                    )}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {playing && <RecordingPlayer recording={playing} onClose={() => setPlaying(null)} />}
+    </div>
+  );
+}
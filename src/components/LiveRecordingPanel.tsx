@@ -0,0 +1,238 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+'use client';
+
+import { AlertCircle, CheckCircle, CircleDot } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { AdminConfig } from '@/lib/admin.types';
+
+interface LiveRecordingPanelProps {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}
+
+// 逗号或换行分隔的列表
+const parseList = (value: string) =>
+  Array.from(new Set(value.split(/[,，\n]/).map((item) => item.trim()).filter(Boolean)));
+
+const LiveRecordingPanel = ({ config, refreshConfig }: LiveRecordingPanelProps) => {
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [settings, setSettings] = useState({
+    enabled: false,
+    allowedUsers: '',
+    allowedTags: [] as string[],
+    totalQuotaMB: 10240,
+    userQuotaMB: 2048,
+    maxDurationMinutes: 240,
+  });
+
+  const userTags = config?.UserConfig?.Tags?.map((tag) => tag.name) || [];
+
+  // 从config加载设置
+  useEffect(() => {
+    const cfg = config?.LiveRecordingConfig;
+    setSettings({
+      enabled: cfg?.enabled ?? false,
+      allowedUsers: (cfg?.allowedUsers ?? []).join(', '),
+      allowedTags: cfg?.allowedTags ?? [],
+      totalQuotaMB: cfg?.totalQuotaMB ?? 10240,
+      userQuotaMB: cfg?.userQuotaMB ?? 2048,
+      maxDurationMinutes: cfg?.maxDurationMinutes ?? 240,
+    });
+  }, [config]);
+
+  // 显示消息
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const toggleTag = (tag: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      allowedTags: prev.allowedTags.includes(tag)
+        ? prev.allowedTags.filter((t) => t !== tag)
+        : [...prev.allowedTags, tag],
+    }));
+  };
+
+  // 保存配置
+  const handleSave = async () => {
+    if (!config) {
+      showMessage('error', '配置未加载');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updatedConfig = {
+        ...config,
+        LiveRecordingConfig: {
+          enabled: settings.enabled,
+          allowedUsers: parseList(settings.allowedUsers),
+          allowedTags: settings.allowedTags,
+          totalQuotaMB: Math.max(1, Math.floor(settings.totalQuotaMB) || 1),
+          userQuotaMB: Math.max(0, Math.floor(settings.userQuotaMB) || 0),
+          maxDurationMinutes: Math.max(1, Math.floor(settings.maxDurationMinutes) || 1),
+        },
+      };
+
+      const response = await fetch('/api/admin/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updatedConfig),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || '保存失败');
+      }
+
+      showMessage('success', '直播录制配置已保存');
+      await refreshConfig();
+    } catch (error: any) {
+      console.error('保存配置失败:', error);
+      showMessage('error', error.message || '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-red-500 focus:border-transparent';
+
+  return (
+    <div className='space-y-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg'>
+      {/* 标题和说明 */}
+      <div className='flex items-start gap-3'>
+        <CircleDot className='w-5 h-5 text-red-500 shrink-0 mt-0.5' />
+        <div className='flex-1'>
+          <h4 className='text-sm font-semibold text-gray-900 dark:text-gray-100'>
+            直播录制
+          </h4>
+          <p className='text-xs text-gray-600 dark:text-gray-400 mt-1'>
+            由服务器按节目单时间录制直播流，录制文件保存在 LIVE_RECORDING_DIR 目录（默认 /tmp/live-recordings），可在私人影库中回放和下载。启用后站长和管理员始终可以录制
+          </p>
+        </div>
+      </div>
+
+      {/* 设置 */}
+      <label className='flex items-center gap-3'>
+        <input
+          type='checkbox'
+          checked={settings.enabled}
+          onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          className='w-4 h-4 text-red-600 rounded border-gray-300 dark:border-gray-600'
+        />
+        <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          启用直播录制
+        </span>
+      </label>
+
+      <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            总空间上限（MB）
+          </label>
+          <input
+            type='number'
+            min={1}
+            value={settings.totalQuotaMB}
+            onChange={(e) => setSettings({ ...settings, totalQuotaMB: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            每用户空间上限（MB，0 为不限）
+          </label>
+          <input
+            type='number'
+            min={0}
+            value={settings.userQuotaMB}
+            onChange={(e) => setSettings({ ...settings, userQuotaMB: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            单次最长录制（分钟）
+          </label>
+          <input
+            type='number'
+            min={1}
+            value={settings.maxDurationMinutes}
+            onChange={(e) => setSettings({ ...settings, maxDurationMinutes: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+          允许录制的用户（逗号分隔）
+        </label>
+        <input
+          type='text'
+          value={settings.allowedUsers}
+          onChange={(e) => setSettings({ ...settings, allowedUsers: e.target.value })}
+          placeholder='user1, user2'
+          className={inputClassName}
+        />
+      </div>
+
+      {userTags.length > 0 && (
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+            允许录制的用户组
+          </label>
+          <div className='flex flex-wrap gap-2'>
+            {userTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${settings.allowedTags.includes(tag)
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`flex items-center gap-2 p-3 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle className='w-5 h-5 shrink-0' />
+          ) : (
+            <AlertCircle className='w-5 h-5 shrink-0' />
+          )}
+          <span className='text-sm'>{message.text}</span>
+        </div>
+      )}
+
+      <div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className='px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-lg font-medium transition-colors'
+        >
+          {saving ? '保存中...' : '保存配置'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LiveRecordingPanel;
@@ -0,0 +1,219 @@
+'use client';
+
+import { Bell, Play, Send, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import type { LiveReminder } from '@/lib/types';
+
+interface LiveReminderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reminders: LiveReminder[];
+  telegram: { available: boolean; bound: boolean };
+  onRemove: (reminder: LiveReminder) => void;
+  onWatch: (reminder: LiveReminder) => void;
+  onRefresh: () => void;
+}
+
+const formatProgramTime = (startAt: number, endAt: number) => {
+  const start = new Date(startAt);
+  const date = start.toLocaleDateString('zh-CN', { month: '2-digit', day: '2-digit' });
+  const time = (d: Date) => d.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `${date} ${time(start)} - ${time(new Date(endAt))}`;
+};
+
+export const LiveReminderModal: React.FC<LiveReminderModalProps> = ({
+  isOpen,
+  onClose,
+  reminders,
+  telegram,
+  onRemove,
+  onWatch,
+  onRefresh,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [bindUrl, setBindUrl] = useState('');
+  const [telegramBusy, setTelegramBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setBindUrl('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  // 已绑定后清除绑定链接
+  useEffect(() => {
+    if (telegram.bound) setBindUrl('');
+  }, [telegram.bound]);
+
+  const handleBind = async () => {
+    setTelegramBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/live/reminders/telegram', { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '生成绑定链接失败');
+      }
+      setBindUrl(data.url);
+      window.open(data.url, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '生成绑定链接失败');
+    } finally {
+      setTelegramBusy(false);
+    }
+  };
+
+  const handleUnbind = async () => {
+    setTelegramBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/live/reminders/telegram', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('解除绑定失败');
+      }
+      onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '解除绑定失败');
+    } finally {
+      setTelegramBusy(false);
+    }
+  };
+
+  if (!isOpen || !mounted) return null;
+
+  const now = Date.now();
+
+  return createPortal(
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+
+      {/* 提醒面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-1001 flex flex-col overflow-hidden'>
+        <div className='p-6 overflow-y-auto' data-panel-content>
+          {/* 标题栏 */}
+          <div className='flex items-center justify-between mb-2'>
+            <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200 flex items-center gap-2'>
+              <Bell className='w-5 h-5' />
+              我的提醒
+            </h3>
+            <button
+              onClick={onClose}
+              className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+              aria-label='Close'
+            >
+              <X className='w-full h-full' />
+            </button>
+          </div>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mb-5'>
+            在节目单中点击未开始节目的「提醒」添加。节目开始前会在站内通知，直播页打开时到点自动切换到对应频道
+          </p>
+
+          {/* Telegram 推送 */}
+          {telegram.available && (
+            <div className='mb-5 p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+              <div className='flex items-center justify-between gap-3'>
+                <div className='min-w-0'>
+                  <p className='text-sm font-medium text-gray-800 dark:text-gray-200'>Telegram 推送</p>
+                  <p className='text-xs text-gray-500 dark:text-gray-400'>
+                    {telegram.bound ? '已绑定，提醒会同时发送到 Telegram' : '绑定后即使没有打开网站也能收到提醒'}
+                  </p>
+                </div>
+                <button
+                  onClick={telegram.bound ? handleUnbind : handleBind}
+                  disabled={telegramBusy}
+                  className={`shrink-0 inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-50 ${telegram.bound
+                    ? 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    : 'text-white bg-sky-500 hover:bg-sky-600'
+                    }`}
+                >
+                  <Send className='w-3.5 h-3.5' />
+                  {telegram.bound ? '解除绑定' : '绑定'}
+                </button>
+              </div>
+              {bindUrl && (
+                <div className='mt-3 text-xs text-gray-600 dark:text-gray-400'>
+                  在 Telegram 中点击「开始」完成绑定（10 分钟内有效），然后
+                  <button onClick={onRefresh} className='ml-1 text-sky-600 dark:text-sky-400 hover:underline'>
+                    刷新状态
+                  </button>
+                  <a
+                    href={bindUrl}
+                    target='_blank'
+                    rel='noopener noreferrer'
+                    className='block mt-1 font-mono truncate text-sky-600 dark:text-sky-400'
+                  >
+                    {bindUrl}
+                  </a>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className='mb-4 text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+
+          {/* 提醒列表 */}
+          <div className='space-y-2'>
+            {reminders.length === 0 ? (
+              <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-6'>暂无提醒</p>
+            ) : (
+              reminders.map((reminder) => {
+                const started = reminder.startAt <= now;
+                return (
+                  <div
+                    key={reminder.id}
+                    className='flex items-center gap-2 p-3 rounded-md bg-gray-50 dark:bg-gray-800/60'
+                  >
+                    <div className='flex-1 min-w-0'>
+                      <p className='text-sm font-medium text-gray-900 dark:text-gray-100 truncate' title={reminder.title}>
+                        {reminder.title}
+                      </p>
+                      <p className='text-xs text-gray-500 dark:text-gray-400 truncate'>
+                        {reminder.channelName} · {formatProgramTime(reminder.startAt, reminder.endAt)}
+                        {started && <span className='ml-1 text-green-600 dark:text-green-400'>播出中</span>}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => onWatch(reminder)}
+                      className='p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                      title='切换到该频道'
+                      aria-label='Watch'
+                    >
+                      <Play className='w-4 h-4' />
+                    </button>
+                    <button
+                      onClick={() => onRemove(reminder)}
+                      className='p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                      title='取消提醒'
+                      aria-label='Delete'
+                    >
+                      <Trash2 className='w-4 h-4' />
+                    </button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </>,
+    document.body
+  );
+};
@@ -0,0 +1,167 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { Bell, X } from 'lucide-react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useEffect, useRef, useState } from 'react';
+
+import type { LiveReminder } from '@/lib/types';
+
+const NOTIFIED_STORAGE_KEY = 'live-reminders-notified';
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+const CHECK_INTERVAL = 15 * 1000;
+const START_WINDOW = 2 * 60 * 1000; // 开始后多久内仍触发自动切台
+
+const formatStartTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+/**
+ * 节目提醒站内通知
+ * 节目开始前弹出通知卡片；节目开始时广播 liveReminderStart 事件，直播页收到后自动切换频道。
+ * 直播页增删提醒后广播 liveRemindersUpdated 事件，这里重新拉取列表。
+ */
+export function LiveReminderNotifier() {
+  const pathname = usePathname();
+  const router = useRouter();
+  const [reminders, setReminders] = useState<LiveReminder[]>([]);
+  const [leadMinutes, setLeadMinutes] = useState(5);
+  const [notices, setNotices] = useState<LiveReminder[]>([]);
+  const notifiedRef = useRef<Set<string>>(new Set());
+  const startedRef = useRef<Set<string>>(new Set());
+
+  const isEnabled = () => {
+    if (typeof window === 'undefined' || pathname === '/login') return false;
+    if (((window as any).RUNTIME_CONFIG?.STORAGE_TYPE || 'localstorage') === 'localstorage') return false;
+    // 未登录时不请求（兼容 user_auth 和 auth cookie）
+    return document.cookie.split(';').some((cookie) => {
+      const trimmed = cookie.trim();
+      return trimmed.startsWith('user_auth=') || trimmed.startsWith('auth=');
+    });
+  };
+
+  const fetchReminders = async () => {
+    try {
+      const response = await fetch('/api/live/reminders');
+      if (!response.ok) return;
+      const data = await response.json();
+      const list: LiveReminder[] = data.reminders || [];
+      setReminders(list);
+      setLeadMinutes(data.leadMinutes ?? 5);
+
+      // 只保留仍存在的提醒，避免记录无限增长
+      const ids = new Set(list.map((r) => r.id));
+      notifiedRef.current = new Set(Array.from(notifiedRef.current).filter((id) => ids.has(id)));
+      localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(Array.from(notifiedRef.current)));
+    } catch (err) {
+      console.error('获取节目提醒失败:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!isEnabled()) return;
+
+    try {
+      const saved = JSON.parse(localStorage.getItem(NOTIFIED_STORAGE_KEY) || '[]');
+      if (Array.isArray(saved)) notifiedRef.current = new Set(saved);
+    } catch {
+      // 忽略损坏的本地记录
+    }
+
+    fetchReminders();
+    const timer = setInterval(fetchReminders, REFRESH_INTERVAL);
+    const handleUpdated = () => fetchReminders();
+    window.addEventListener('liveRemindersUpdated', handleUpdated);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('liveRemindersUpdated', handleUpdated);
+    };
+  }, [pathname]);
+
+  useEffect(() => {
+    if (reminders.length === 0) return;
+
+    const check = () => {
+      const now = Date.now();
+      const due: LiveReminder[] = [];
+      reminders.forEach((reminder) => {
+        if (reminder.endAt <= now) return;
+        if (!notifiedRef.current.has(reminder.id) && reminder.startAt - leadMinutes * 60 * 1000 <= now) {
+          notifiedRef.current.add(reminder.id);
+          due.push(reminder);
+        }
+        if (
+          !startedRef.current.has(reminder.id) &&
+          reminder.startAt <= now &&
+          now - reminder.startAt < START_WINDOW
+        ) {
+          startedRef.current.add(reminder.id);
+          window.dispatchEvent(new CustomEvent('liveReminderStart', { detail: reminder }));
+        }
+      });
+      if (due.length > 0) {
+        localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(Array.from(notifiedRef.current)));
+        setNotices((prev) => [...prev, ...due]);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [reminders, leadMinutes]);
+
+  const dismiss = (id: string) => {
+    setNotices((prev) => prev.filter((notice) => notice.id !== id));
+  };
+
+  const handleWatch = (reminder: LiveReminder) => {
+    dismiss(reminder.id);
+    if (pathname === '/live') {
+      // 直播页已打开，交给直播页切换频道
+      window.dispatchEvent(new CustomEvent('liveReminderStart', { detail: reminder }));
+      return;
+    }
+    router.push(
+      `/live?source=${encodeURIComponent(reminder.sourceKey)}&id=${encodeURIComponent(reminder.channelId)}`
+    );
+  };
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div className='fixed bottom-20 md:bottom-6 right-4 z-[9998] flex flex-col gap-2 w-72 max-w-[calc(100vw-2rem)]'>
+      {notices.map((notice) => (
+        <div
+          key={notice.id}
+          className='p-3 rounded-xl shadow-lg bg-white/95 dark:bg-gray-800/95 border border-gray-200 dark:border-gray-700 backdrop-blur-sm'
+        >
+          <div className='flex items-start gap-2'>
+            <Bell className='w-4 h-4 mt-0.5 shrink-0 text-amber-500' />
+            <div className='flex-1 min-w-0'>
+              <p className='text-sm font-medium text-gray-900 dark:text-gray-100 truncate' title={notice.title}>
+                {notice.title}
+              </p>
+              <p className='text-xs text-gray-500 dark:text-gray-400 truncate'>
+                {notice.channelName} · {formatStartTime(notice.startAt)}{' '}
+                {notice.startAt <= Date.now() ? '已开始' : '即将开始'}
+              </p>
+            </div>
+            <button
+              onClick={() => dismiss(notice.id)}
+              className='p-0.5 rounded-full text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
+              aria-label='Close'
+            >
+              <X className='w-4 h-4' />
+            </button>
+          </div>
+          <button
+            onClick={() => handleWatch(notice)}
+            className='mt-2 w-full px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors'
+          >
+            去观看
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
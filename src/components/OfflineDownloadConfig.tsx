@@ -16,12 +16,20 @@ const DownloadConfig: React.FC<DownloadConfigProps> = ({
   refreshConfig,
 }) => {
   const [enabled, setEnabled] = useState(true);
+  const [serverEnabled, setServerEnabled] = useState(false);
+  const [userQuotaMB, setUserQuotaMB] = useState(5120);
+  const [totalQuotaMB, setTotalQuotaMB] = useState(20480);
+  const [maxConcurrentJobs, setMaxConcurrentJobs] = useState(2);
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   useEffect(() => {
     if (config?.DownloadConfig) {
       setEnabled(config.DownloadConfig.enabled ?? true);
+      setServerEnabled(config.DownloadConfig.serverEnabled ?? false);
+      setUserQuotaMB(config.DownloadConfig.userQuotaMB ?? 5120);
+      setTotalQuotaMB(config.DownloadConfig.totalQuotaMB ?? 20480);
+      setMaxConcurrentJobs(config.DownloadConfig.maxConcurrentJobs ?? 2);
     }
   }, [config]);
 
@@ -33,7 +41,7 @@ const DownloadConfig: React.FC<DownloadConfigProps> = ({
       const response = await fetch('/api/admin/download-config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ enabled }),
+        body: JSON.stringify({ enabled, serverEnabled, userQuotaMB, totalQuotaMB, maxConcurrentJobs }),
       });
 
       if (!response.ok) {
@@ -115,6 +123,70 @@ const DownloadConfig: React.FC<DownloadConfigProps> = ({
         </button>
       </div>
 
+      {/* 服务器离线下载 */}
+      <div className='p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-4'>
+        <div className='flex items-center justify-between'>
+          <div>
+            <h3 className='text-lg font-semibold text-gray-900 dark:text-white'>
+              服务器离线下载
+            </h3>
+            <p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+              由服务器下载整季剧集并转为 MP4，关闭页面后继续下载，服务重启后自动续传；需要数据库存储，文件保存在 OFFLINE_DOWNLOAD_DIR（默认 /tmp/offline-downloads）
+            </p>
+          </div>
+          <button
+            onClick={() => setServerEnabled(!serverEnabled)}
+            className={`relative inline-flex h-7 w-12 shrink-0 ml-4 items-center rounded-full transition-colors ${
+              serverEnabled
+                ? 'bg-green-600 dark:bg-green-600'
+                : 'bg-gray-200 dark:bg-gray-700'
+            }`}
+          >
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+                serverEnabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {serverEnabled && (
+          <div className='grid grid-cols-1 sm:grid-cols-3 gap-4'>
+            <label className='block'>
+              <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>每用户空间（MB，0 为不限）</span>
+              <input
+                type='number'
+                min={0}
+                value={userQuotaMB}
+                onChange={(e) => setUserQuotaMB(Math.max(0, Number(e.target.value) || 0))}
+                className='mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100'
+              />
+            </label>
+            <label className='block'>
+              <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>全站空间（MB）</span>
+              <input
+                type='number'
+                min={1}
+                value={totalQuotaMB}
+                onChange={(e) => setTotalQuotaMB(Math.max(1, Number(e.target.value) || 1))}
+                className='mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100'
+              />
+            </label>
+            <label className='block'>
+              <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>同时下载任务数</span>
+              <input
+                type='number'
+                min={1}
+                max={5}
+                value={maxConcurrentJobs}
+                onChange={(e) => setMaxConcurrentJobs(Math.min(5, Math.max(1, Number(e.target.value) || 1)))}
+                className='mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100'
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
       {/* 保存按钮 */}
       <div className='flex justify-end'>
         <button
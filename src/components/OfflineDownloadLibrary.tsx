@@ -0,0 +1,320 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps,@next/next/no-img-element */
+
+'use client';
+
+import { Download, Pause, Play, RotateCw, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import type { OfflineDownloadJob, OfflineDownloadStatus } from '@/lib/types';
+
+interface OfflineDownloadUsage {
+  userBytes: number;
+  totalBytes: number;
+  userQuotaBytes: number;
+  totalQuotaBytes: number;
+}
+
+const STATUS_LABELS: Record<OfflineDownloadStatus, { label: string; className: string }> = {
+  queued: { label: '排队中', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+  downloading: { label: '下载中', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  paused: { label: '已暂停', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  completed: { label: '已完成', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  failed: { label: '失败', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes <= 0) return '0 B';
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), sizes.length - 1);
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(1))} ${sizes[i]}`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0
+    ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+    : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+const fileUrl = (job: OfflineDownloadJob) => `/api/downloads/${encodeURIComponent(job.id)}/file`;
+
+function DownloadPlayer({ job, onClose }: { job: OfflineDownloadJob; onClose: () => void }) {
+  return createPortal(
+    <>
+      <div
+        className='fixed inset-0 bg-black/70 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-4xl bg-black rounded-xl shadow-xl z-1001 overflow-hidden'>
+        <div className='flex items-center justify-between px-4 py-2 bg-gray-900 text-gray-100'>
+          <span className='text-sm font-medium truncate'>
+            {job.title} · {job.episodeTitle}
+          </span>
+          <button
+            onClick={onClose}
+            className='w-7 h-7 p-1 rounded-full flex items-center justify-center text-gray-400 hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+        <video src={fileUrl(job)} className='w-full aspect-video bg-black' controls autoPlay playsInline />
+      </div>
+    </>,
+    document.body
+  );
+}
+
+/**
+ * 服务器离线下载列表：按剧集分组显示进度，已完成的视频可在线播放或下载到本地
+ */
+export default function OfflineDownloadLibrary() {
+  const [jobs, setJobs] = useState<OfflineDownloadJob[]>([]);
+  const [usage, setUsage] = useState<OfflineDownloadUsage | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [playing, setPlaying] = useState<OfflineDownloadJob | null>(null);
+  const [busyId, setBusyId] = useState('');
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/downloads');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取离线下载列表失败');
+      }
+      setJobs(data.jobs || []);
+      setUsage(data.usage || null);
+      setEnabled(data.enabled !== false);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取离线下载列表失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  // 有排队或下载中的任务时定时刷新进度
+  const hasActive = jobs.some((job) => job.status === 'queued' || job.status === 'downloading');
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(fetchJobs, 5000);
+    return () => clearInterval(timer);
+  }, [hasActive]);
+
+  const runAction = async (job: OfflineDownloadJob, request: () => Promise<Response>) => {
+    setBusyId(job.id);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '操作失败');
+      }
+      await fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const handleToggle = (job: OfflineDownloadJob) => {
+    const action = job.status === 'queued' || job.status === 'downloading' ? 'pause' : 'resume';
+    runAction(job, () =>
+      fetch(`/api/downloads/${encodeURIComponent(job.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+    );
+  };
+
+  const handleRemove = (job: OfflineDownloadJob) => {
+    if (!window.confirm(`删除「${job.title} ${job.episodeTitle}」及已下载的文件？`)) return;
+    runAction(job, () => fetch(`/api/downloads/${encodeURIComponent(job.id)}`, { method: 'DELETE' }));
+  };
+
+  // 同一部剧的剧集放在一组
+  const groups: { key: string; title: string; cover: string; meta: string; jobs: OfflineDownloadJob[] }[] = [];
+  jobs.forEach((job) => {
+    const key = `${job.source}+${job.videoId}`;
+    let group = groups.find((g) => g.key === key);
+    if (!group) {
+      group = {
+        key,
+        title: job.title,
+        cover: job.cover,
+        meta: [job.year, job.sourceName].filter(Boolean).join(' · '),
+        jobs: [],
+      };
+      groups.push(group);
+    }
+    group.jobs.push(job);
+  });
+
+  if (loading) {
+    return (
+      <div className='space-y-3'>
+        {Array.from({ length: 4 }).map((_, index) => (
+          <div key={index} className='animate-pulse bg-gray-200 dark:bg-gray-700 rounded-lg h-20' />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {!enabled && (
+        <div className='bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 mb-4'>
+          <p className='text-sm text-yellow-800 dark:text-yellow-200'>
+            管理员未开启服务器离线下载，已完成的视频仍可播放，排队中的任务不会继续下载
+          </p>
+        </div>
+      )}
+
+      {usage && (
+        <div className='mb-4 text-xs text-gray-500 dark:text-gray-400'>
+          已使用 {formatBytes(usage.userBytes)}
+          {usage.userQuotaBytes > 0 && ` / ${formatBytes(usage.userQuotaBytes)}`}
+          （全站 {formatBytes(usage.totalBytes)} / {formatBytes(usage.totalQuotaBytes)}）
+        </div>
+      )}
+
+      {error && (
+        <div className='bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-4'>
+          <p className='text-red-800 dark:text-red-200'>{error}</p>
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className='text-center py-12'>
+          <p className='text-gray-500 dark:text-gray-400'>
+            暂无离线下载，可在播放页的下载选集中选择「离线到服务器」
+          </p>
+        </div>
+      ) : (
+        <div className='space-y-6'>
+          {groups.map((group) => {
+            const completed = group.jobs.filter((job) => job.status === 'completed').length;
+            return (
+              <div key={group.key} className='rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 overflow-hidden'>
+                <div className='flex items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700'>
+                  {group.cover && (
+                    <img src={group.cover} alt={group.title} className='w-10 h-14 rounded object-cover shrink-0' loading='lazy' />
+                  )}
+                  <div className='flex-1 min-w-0'>
+                    <p className='font-medium text-gray-900 dark:text-gray-100 truncate'>{group.title}</p>
+                    <p className='text-xs text-gray-500 dark:text-gray-400 truncate'>
+                      {group.meta && `${group.meta} · `}已完成 {completed}/{group.jobs.length} 集
+                    </p>
+                  </div>
+                </div>
+
+                <div className='divide-y divide-gray-100 dark:divide-gray-700/60'>
+                  {group.jobs.map((job) => {
+                    const status = STATUS_LABELS[job.status];
+                    const active = job.status === 'queued' || job.status === 'downloading';
+                    const percent = job.totalSegments > 0 ? Math.floor((job.doneSegments / job.totalSegments) * 100) : 0;
+                    return (
+                      <div key={job.id} className='flex items-center gap-3 px-4 py-3'>
+                        <div className='flex-1 min-w-0'>
+                          <div className='flex items-center gap-2'>
+                            <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                              {status.label}
+                            </span>
+                            <span className='text-sm text-gray-900 dark:text-gray-100 truncate'>{job.episodeTitle}</span>
+                          </div>
+                          {job.status === 'completed' ? (
+                            <div className='mt-1 text-xs text-gray-500 dark:text-gray-400'>
+                              {formatDuration(job.duration)} · {formatBytes(job.bytes)}
+                            </div>
+                          ) : (
+                            job.totalSegments > 0 && (
+                              <div className='mt-1.5 flex items-center gap-2'>
+                                <div className='flex-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden'>
+                                  <div className='h-full bg-green-500 transition-all' style={{ width: `${percent}%` }} />
+                                </div>
+                                <span className='text-xs text-gray-500 dark:text-gray-400 shrink-0'>
+                                  {percent}% · {formatBytes(job.bytes)}
+                                </span>
+                              </div>
+                            )
+                          )}
+                          {job.error && (
+                            <div className='mt-1 text-xs text-red-500 truncate' title={job.error}>
+                              {job.error}
+                            </div>
+                          )}
+                        </div>
+
+                        <div className='flex items-center gap-1 shrink-0'>
+                          {job.status === 'completed' ? (
+                            <>
+                              <button
+                                onClick={() => setPlaying(job)}
+                                className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                aria-label='Play'
+                                title='播放'
+                              >
+                                <Play className='w-4 h-4' />
+                              </button>
+                              <a
+                                href={`${fileUrl(job)}?download=1`}
+                                className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                aria-label='Download'
+                                title='下载到本地'
+                              >
+                                <Download className='w-4 h-4' />
+                              </a>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => handleToggle(job)}
+                              disabled={busyId === job.id}
+                              className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40'
+                              aria-label={active ? 'Pause' : 'Resume'}
+                              title={active ? '暂停' : job.status === 'failed' ? '重试' : '继续'}
+                            >
+                              {active ? (
+                                <Pause className='w-4 h-4' />
+                              ) : job.status === 'failed' ? (
+                                <RotateCw className='w-4 h-4' />
+                              ) : (
+                                <Play className='w-4 h-4' />
+                              )}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleRemove(job)}
+                            disabled={busyId === job.id}
+                            className='p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40'
+                            aria-label='Delete'
+                            title='删除'
+                          >
+                            <Trash2 className='w-4 h-4' />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {playing && <DownloadPlayer job={playing} onClose={() => setPlaying(null)} />}
+    </div>
+  );
+}
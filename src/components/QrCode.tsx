@@ -0,0 +1,44 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { encodeQrCode } from '@/lib/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// 静区宽度（模块数）
+const QUIET_ZONE = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 192, className }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const segments: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          segments.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+        }
+      });
+    });
+    return { path: segments.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering='crispEdges'
+      className={className}
+      role='img'
+      aria-label='QR Code'
+    >
+      <rect width={dimension} height={dimension} fill='#ffffff' />
+      <path d={path} fill='#000000' />
+    </svg>
+  );
+};
@@ -0,0 +1,223 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { LogOut, MonitorSmartphone, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import type { SessionLoginMethod } from '@/lib/types';
+
+interface SessionsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface SessionItem {
+  id: string;
+  device: string;
+  loginMethod: SessionLoginMethod;
+  ip: string;
+  createdAt: number;
+  lastSeenAt: number;
+  current: boolean;
+}
+
+const LOGIN_METHOD_LABELS: Record<SessionLoginMethod, string> = {
+  password: '密码登录',
+  register: '注册登录',
+  oidc: 'OIDC 登录',
+  telegram: 'Telegram 登录',
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString('zh-CN');
+
+export const SessionsPanel: React.FC<SessionsPanelProps> = ({ isOpen, onClose }) => {
+  const [mounted, setMounted] = useState(false);
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  // Body 滚动锁定
+  useEffect(() => {
+    if (isOpen) {
+      const body = document.body;
+      const html = document.documentElement;
+      const originalBodyOverflow = body.style.overflow;
+      const originalHtmlOverflow = html.style.overflow;
+
+      body.style.overflow = 'hidden';
+      html.style.overflow = 'hidden';
+
+      return () => {
+        body.style.overflow = originalBodyOverflow;
+        html.style.overflow = originalHtmlOverflow;
+      };
+    }
+  }, [isOpen]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/sessions');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取登录设备失败');
+      }
+      setSessions(data.sessions || []);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取登录设备失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSessions();
+    }
+  }, [isOpen]);
+
+  const revoke = async (query: string, key: string) => {
+    setRevoking(key);
+    try {
+      const response = await fetch(`/api/sessions?${query}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '登出设备失败');
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '登出设备失败');
+      return false;
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevoke = async (session: SessionItem) => {
+    if (session.current) {
+      if (!confirm('这是当前设备，登出后需要重新登录，确定继续吗？')) return;
+    }
+    const ok = await revoke(`id=${encodeURIComponent(session.id)}`, session.id);
+    if (!ok) return;
+    if (session.current) {
+      window.location.href = '/login';
+      return;
+    }
+    setSessions((prev) => prev.filter((s) => s.id !== session.id));
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('确定登出所有设备吗？包括当前设备在内，所有设备都需要重新登录。')) {
+      return;
+    }
+    const ok = await revoke('all=1', 'all');
+    if (ok) {
+      window.location.href = '/login';
+    }
+  };
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+
+      {/* 设备面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-xl max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-1001 flex flex-col overflow-hidden'>
+        <div className='p-6 overflow-y-auto' data-panel-content>
+          {/* 标题栏 */}
+          <div className='flex items-center justify-between mb-2'>
+            <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200 flex items-center gap-2'>
+              <MonitorSmartphone className='w-5 h-5' />
+              我的设备
+            </h3>
+            <button
+              onClick={onClose}
+              className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+              aria-label='Close'
+            >
+              <X className='w-full h-full' />
+            </button>
+          </div>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mb-5'>
+            登出后对应设备将在 5 秒内失去登录状态
+          </p>
+
+          {error && (
+            <div className='mb-4 text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+
+          {/* 设备列表 */}
+          <div className='space-y-2'>
+            {loading && sessions.length === 0 ? (
+              <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>加载中...</p>
+            ) : sessions.length === 0 ? (
+              <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>暂无登录设备</p>
+            ) : (
+              sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className='flex items-start justify-between gap-3 p-3 rounded-md bg-gray-50 dark:bg-gray-800/60'
+                >
+                  <div className='min-w-0 text-xs text-gray-600 dark:text-gray-400 space-y-0.5'>
+                    <div className='flex items-center gap-2'>
+                      <span className='text-sm font-medium text-gray-900 dark:text-gray-100 truncate'>
+                        {session.device}
+                      </span>
+                      {session.current && (
+                        <span className='px-1.5 py-0.5 rounded text-[10px] bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'>
+                          当前设备
+                        </span>
+                      )}
+                    </div>
+                    <div>
+                      {LOGIN_METHOD_LABELS[session.loginMethod] || session.loginMethod} · IP {session.ip}
+                    </div>
+                    <div>
+                      登录：{formatTime(session.createdAt)} · 最近活跃：{formatTime(session.lastSeenAt)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={revoking !== null}
+                    className='shrink-0 px-2 py-1 rounded-md text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50'
+                  >
+                    登出
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {sessions.length > 0 && (
+            <button
+              onClick={handleRevokeAll}
+              disabled={revoking !== null}
+              className='mt-5 w-full px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2'
+            >
+              <LogOut className='w-4 h-4' />
+              {revoking === 'all' ? '正在登出...' : '登出所有设备'}
+            </button>
+          )}
+        </div>
+      </div>
+    </>,
+    document.body
+  );
+};
@@ -10,6 +10,12 @@ import {
   saveSkipConfig,
   SkipSegment,
 } from '@/lib/db.client';
+import {
+  AUTO_APPLY_CONFIDENCE,
+  detectSkipSegments,
+  SkipDetectionProposal,
+  SkipDetectionResult,
+} from '@/lib/skip-detection';
 
 interface SkipControllerProps {
   source: string;
@@ -22,6 +28,33 @@ interface SkipControllerProps {
   isSettingMode?: boolean;
   onSettingModeChange?: (isOpen: boolean) => void;
   onNextEpisode?: () => void; // 新增：跳转下一集的回调
+  episodes?: string[]; // 全部剧集地址，用于自动识别片头片尾
+  filterPlaylist?: (content: string, url: string) => string; // 与播放器一致的播放列表处理（去广告）
+}
+
+// 自动识别结果缓存，每部剧只分析一次
+interface CachedSkipDetection {
+  result: SkipDetectionResult;
+  handled: boolean; // 已应用或已忽略
+}
+
+const getDetectionCacheKey = (source: string, id: string) => `skipDetection_${source}+${id}`;
+
+function loadCachedDetection(source: string, id: string): CachedSkipDetection | null {
+  try {
+    const raw = localStorage.getItem(getDetectionCacheKey(source, id));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveCachedDetection(source: string, id: string, cached: CachedSkipDetection) {
+  try {
+    localStorage.setItem(getDetectionCacheKey(source, id), JSON.stringify(cached));
+  } catch (err) {
+    console.warn('保存片头片尾识别结果失败:', err);
+  }
 }
 
 export default function SkipController({
@@ -35,8 +68,11 @@ export default function SkipController({
   isSettingMode = false,
   onSettingModeChange,
   onNextEpisode,
+  episodes,
+  filterPlaylist,
 }: SkipControllerProps) {
   const [skipConfig, setSkipConfig] = useState<EpisodeSkipConfig | null>(null);
+  const [skipConfigLoaded, setSkipConfigLoaded] = useState(false);
   const [showSkipButton, setShowSkipButton] = useState(false);
   const [currentSkipSegment, setCurrentSkipSegment] = useState<SkipSegment | null>(null);
   const [newSegment, setNewSegment] = useState<Partial<SkipSegment>>({});
@@ -300,6 +336,8 @@ export default function SkipController({
       setSkipConfig(config);
     } catch (err) {
       console.error('❌ 加载跳过配置失败:', err);
+    } finally {
+      setSkipConfigLoaded(true);
     }
   }, [source, id]);
 
@@ -741,9 +779,165 @@ export default function SkipController({
 
   // 初始化加载配置
   useEffect(() => {
+    setSkipConfigLoaded(false);
     loadSkipConfig();
   }, [loadSkipConfig]);
 
+  // ==================== 🔍 片头片尾自动识别 ====================
+  const [detection, setDetection] = useState<CachedSkipDetection | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  const [detectionProgress, setDetectionProgress] = useState(0);
+  const [detectionError, setDetectionError] = useState('');
+  const [autoDetectEnabled, setAutoDetectEnabled] = useState(() =>
+    typeof window !== 'undefined' && localStorage.getItem('enableAutoSkipDetection') === 'true'
+  );
+  const detectionAbortRef = useRef<AbortController | null>(null);
+  const autoDetectedRef = useRef<string | null>(null);
+
+  // 切换剧集时读取缓存并取消进行中的分析
+  useEffect(() => {
+    detectionAbortRef.current?.abort();
+    detectionAbortRef.current = null;
+    setDetecting(false);
+    setDetectionError('');
+    setDetection(loadCachedDetection(source, id));
+  }, [source, id]);
+
+  useEffect(() => {
+    return () => detectionAbortRef.current?.abort();
+  }, []);
+
+  const detectionProposals = useMemo(
+    () =>
+      [detection?.result.opening, detection?.result.ending].filter(
+        (proposal): proposal is SkipDetectionProposal => !!proposal
+      ),
+    [detection]
+  );
+
+  // 应用识别结果：替换同类型的已有片段，自动跳过等开关沿用用户全局设置
+  const applyDetection = useCallback(
+    async (proposals: SkipDetectionProposal[], silent = false) => {
+      if (proposals.length === 0) return;
+      const { autoSkip, autoNextEpisode } = batchSettingsRef.current;
+      const replacedTypes = new Set(proposals.map((proposal) => proposal.segment.type));
+      const segments: SkipSegment[] = [
+        ...(skipConfig?.segments || []).filter((segment) => !replacedTypes.has(segment.type)),
+        ...proposals.map((proposal) => ({
+          ...proposal.segment,
+          autoSkip,
+          ...(proposal.segment.type === 'ending' ? { autoNextEpisode } : {}),
+        })),
+      ];
+
+      try {
+        const updatedConfig: EpisodeSkipConfig = {
+          source,
+          id,
+          title,
+          segments,
+          updated_time: Date.now(),
+        };
+        await saveSkipConfig(source, id, updatedConfig);
+        setSkipConfig(updatedConfig);
+
+        setDetection((prev) => {
+          if (!prev) return prev;
+          const next = { ...prev, handled: true };
+          saveCachedDetection(source, id, next);
+          return next;
+        });
+
+        if (artPlayerRef.current?.notice) {
+          artPlayerRef.current.notice.show = silent ? '已自动识别并应用片头片尾' : '已应用识别的片头片尾';
+        }
+      } catch (err) {
+        console.error('应用识别结果失败:', err);
+        if (!silent) alert('保存失败，请重试');
+      }
+    },
+    [skipConfig, source, id, title, artPlayerRef]
+  );
+
+  const dismissDetection = useCallback(() => {
+    setDetection((prev) => {
+      if (!prev) return prev;
+      const next = { ...prev, handled: true };
+      saveCachedDetection(source, id, next);
+      return next;
+    });
+  }, [source, id]);
+
+  // 分析当前集及相邻几集；auto=true 时高置信度结果直接应用
+  const runDetection = useCallback(
+    async (auto = false) => {
+      if (!episodes || episodes.length < 2) {
+        setDetectionError('至少需要两集才能识别片头片尾');
+        return;
+      }
+
+      // 当前集优先，其次是后面几集，最后是前面几集
+      const candidates = [episodeIndex, episodeIndex + 1, episodeIndex + 2, episodeIndex - 1, episodeIndex - 2]
+        .filter((index) => index >= 0 && index < episodes.length && episodes[index])
+        .map((index) => episodes[index]);
+
+      detectionAbortRef.current?.abort();
+      const controller = new AbortController();
+      detectionAbortRef.current = controller;
+      setDetecting(true);
+      setDetectionProgress(0);
+      setDetectionError('');
+
+      try {
+        const result = await detectSkipSegments(candidates, {
+          signal: controller.signal,
+          filterPlaylist,
+          onProgress: (done, total) => setDetectionProgress(Math.round((done / Math.max(1, total)) * 100)),
+        });
+        const cached: CachedSkipDetection = { result, handled: false };
+        saveCachedDetection(source, id, cached);
+        setDetection(cached);
+        console.log('🔍 [SkipController] 片头片尾识别结果:', result);
+
+        if (!result.opening && !result.ending) {
+          setDetectionError('未找到各集共有的片头或片尾');
+        } else if (auto) {
+          const confident = [result.opening, result.ending].filter(
+            (proposal): proposal is SkipDetectionProposal =>
+              !!proposal && proposal.confidence >= AUTO_APPLY_CONFIDENCE
+          );
+          await applyDetection(confident, true);
+        }
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('片头片尾识别失败:', err);
+        setDetectionError((err as Error).message || '识别失败');
+      } finally {
+        if (detectionAbortRef.current === controller) {
+          detectionAbortRef.current = null;
+          setDetecting(false);
+        }
+      }
+    },
+    [episodes, episodeIndex, filterPlaylist, source, id, applyDetection]
+  );
+
+  const cancelDetection = useCallback(() => {
+    detectionAbortRef.current?.abort();
+    detectionAbortRef.current = null;
+    setDetecting(false);
+  }, []);
+
+  // 开启自动识别后，没有跳过配置且未分析过的剧在开始播放后自动分析一次
+  useEffect(() => {
+    if (!autoDetectEnabled || !skipConfigLoaded || skipConfig || detection || detecting) return;
+    if (!episodes || episodes.length < 2 || duration <= 0) return;
+    const key = `${source}+${id}`;
+    if (autoDetectedRef.current === key) return;
+    autoDetectedRef.current = key;
+    runDetection(true);
+  }, [autoDetectEnabled, skipConfigLoaded, skipConfig, detection, detecting, episodes, duration, source, id, runDetection]);
+
   // 🔑 确保每次 source/id 变化时，都从 localStorage 读取用户全局设置
   useEffect(() => {
     const savedEnableAutoSkip = localStorage.getItem('enableAutoSkip');
@@ -885,6 +1079,37 @@ export default function SkipController({
         </div>
       )}
 
+      {/* 自动识别结果待确认 - 与跳过按钮共用左上角位置 */}
+      {!showSkipButton && !isSettingMode && detection && !detection.handled && detectionProposals.length > 0 && (
+        <div className="absolute top-4 left-4 z-30 max-w-xs bg-black/80 text-white px-4 py-3 rounded-lg backdrop-blur-sm border border-white/20 shadow-lg animate-fade-in">
+          <div className="text-sm font-medium mb-1">🔍 识别到各集共有的片段</div>
+          <div className="text-xs text-gray-300 space-y-0.5 mb-2">
+            {detectionProposals.map((proposal) => (
+              <p key={proposal.segment.type}>
+                {proposal.segment.type === 'opening'
+                  ? `片头 ${secondsToTime(proposal.segment.start)} - ${secondsToTime(proposal.segment.end)}`
+                  : `片尾 剩余 ${secondsToTime(proposal.segment.remainingTime || 0)} 时开始`}
+                <span className="ml-1 text-gray-400">（置信度 {Math.round(proposal.confidence * 100)}%）</span>
+              </p>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => applyDetection(detectionProposals)}
+              className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-xs font-medium transition-colors"
+            >
+              应用
+            </button>
+            <button
+              onClick={dismissDetection}
+              className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-xs font-medium transition-colors"
+            >
+              忽略
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 设置模式面板 - 增强版批量设置 */}
       {isSettingMode && (
         <div
@@ -963,6 +1188,76 @@ export default function SkipController({
               </p>
             </div>
 
+            {/* 自动识别 */}
+            <div className="bg-linear-to-br from-amber-50/80 to-orange-50/80 dark:from-amber-900/30 dark:to-orange-900/30 p-5 rounded-xl mb-6 border border-amber-100/50 dark:border-amber-800/50 shadow-sm backdrop-blur-sm">
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <h4 className="font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+                  <span className="text-xl">🔍</span>
+                  自动识别片头片尾
+                </h4>
+                {detecting ? (
+                  <button
+                    onClick={cancelDetection}
+                    className="px-3 py-1.5 bg-gray-400 hover:bg-gray-500 text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    取消（{detectionProgress}%）
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => runDetection()}
+                    disabled={!episodes || episodes.length < 2}
+                    className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    {detection ? '重新识别' : '开始识别'}
+                  </button>
+                )}
+              </div>
+
+              <label className="flex items-center space-x-2 mb-2">
+                <input
+                  type="checkbox"
+                  checked={autoDetectEnabled}
+                  onChange={(e) => {
+                    setAutoDetectEnabled(e.target.checked);
+                    localStorage.setItem('enableAutoSkipDetection', String(e.target.checked));
+                  }}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  未设置跳过配置时自动识别，置信度 ≥ {Math.round(AUTO_APPLY_CONFIDENCE * 100)}% 直接应用
+                </span>
+              </label>
+
+              {detectionError && !detecting && (
+                <p className="text-xs text-red-600 dark:text-red-400 mb-2">{detectionError}</p>
+              )}
+
+              {detection && detectionProposals.length > 0 && !detecting && (
+                <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1 mb-2">
+                  {detectionProposals.map((proposal) => (
+                    <p key={proposal.segment.type}>
+                      {proposal.segment.type === 'opening'
+                        ? `🎬 片头 ${secondsToTime(proposal.segment.start)} - ${secondsToTime(proposal.segment.end)}`
+                        : `🎭 片尾 剩余 ${secondsToTime(proposal.segment.remainingTime || 0)} 时开始`}
+                      <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                        置信度 {Math.round(proposal.confidence * 100)}% · {proposal.matchedEpisodes}/{detection.result.analyzedEpisodes} 集匹配 · {proposal.method === 'hash' ? '分片比对' : '音频指纹'}
+                      </span>
+                    </p>
+                  ))}
+                  <button
+                    onClick={() => applyDetection(detectionProposals)}
+                    className="mt-1 px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    ✅ 应用识别结果
+                  </button>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                比较当前集与相邻几集开头 4 分钟、结尾 3 分钟的内容（需要下载这些分片），找出各集共有的片头片尾
+              </p>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* 片头设置 */}
               <div className="space-y-4 bg-linear-to-br from-green-50/50 to-emerald-50/50 dark:from-green-900/20 dark:to-emerald-900/20 p-4 rounded-xl border border-green-100/50 dark:border-green-800/50 backdrop-blur-sm">
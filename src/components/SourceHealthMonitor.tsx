@@ -0,0 +1,381 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { AlertCircle, CheckCircle, HeartPulse, RefreshCw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { AdminConfig } from '@/lib/admin.types';
+import type { SourceHealthSummary } from '@/lib/source-health';
+import { SourceHealthErrorClass, SourceHealthRecord } from '@/lib/types';
+
+interface SourceHealthMonitorProps {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}
+
+const ERROR_CLASS_LABELS: Record<SourceHealthErrorClass, string> = {
+  timeout: '超时',
+  network: '网络错误',
+  http: 'HTTP 错误',
+  parse: '解析失败',
+  api: '接口错误',
+  unplayable: '播放地址不可用',
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${Math.round(value * 100)}%`;
+
+const formatTime = (timestamp: number | null) =>
+  timestamp ? new Date(timestamp).toLocaleString('zh-CN', { hour12: false }) : '-';
+
+function describeRecord(record: SourceHealthRecord): string {
+  const lines = [
+    formatTime(record.timestamp),
+    record.ok ? '✅ 正常' : `❌ ${record.errorClass ? ERROR_CLASS_LABELS[record.errorClass] : '失败'}`,
+    `延迟 ${record.latencyMs}ms，结果 ${record.resultCount} 条`,
+  ];
+  if (record.playableChecked > 0) {
+    lines.push(`播放地址 ${record.playableOk}/${record.playableChecked} 可用`);
+  }
+  if (record.error) {
+    lines.push(record.error);
+  }
+  return lines.join('\n');
+}
+
+const SourceHealthMonitor = ({ config, refreshConfig }: SourceHealthMonitorProps) => {
+  const [sources, setSources] = useState<SourceHealthSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [probing, setProbing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [reinstating, setReinstating] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [settings, setSettings] = useState({
+    enabled: true,
+    probeKeyword: '爱情',
+    failureThreshold: 3,
+    autoQuarantine: true,
+  });
+
+  // 从config加载设置
+  useEffect(() => {
+    const cfg = config?.SourceHealthConfig;
+    setSettings({
+      enabled: cfg?.enabled ?? true,
+      probeKeyword: cfg?.probeKeyword || '爱情',
+      failureThreshold: cfg?.failureThreshold ?? 3,
+      autoQuarantine: cfg?.autoQuarantine ?? true,
+    });
+  }, [config]);
+
+  // 显示消息
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const fetchHealth = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/source-health');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取源健康数据失败');
+      }
+      setSources(data.sources || []);
+    } catch (error: any) {
+      console.error('获取源健康数据失败:', error);
+      showMessage('error', error.message || '获取源健康数据失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHealth();
+  }, []);
+
+  // 保存配置
+  const handleSave = async () => {
+    if (!config) {
+      showMessage('error', '配置未加载');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updatedConfig = {
+        ...config,
+        SourceHealthConfig: {
+          enabled: settings.enabled,
+          probeKeyword: settings.probeKeyword.trim() || '爱情',
+          failureThreshold: Math.max(1, Math.floor(settings.failureThreshold) || 1),
+          autoQuarantine: settings.autoQuarantine,
+        },
+      };
+
+      const response = await fetch('/api/admin/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updatedConfig),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || '保存失败');
+      }
+
+      showMessage('success', '源健康监控配置已保存');
+      await refreshConfig();
+    } catch (error: any) {
+      console.error('保存配置失败:', error);
+      showMessage('error', error.message || '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleProbe = async () => {
+    setProbing(true);
+    try {
+      const response = await fetch('/api/admin/source-health', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'probe' }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '检测失败');
+      }
+      const { total, healthy, quarantined, reinstated } = data.result;
+      showMessage(
+        'success',
+        `检测完成：${healthy}/${total} 正常，新隔离 ${quarantined.length} 个，恢复 ${reinstated.length} 个`
+      );
+      await Promise.all([fetchHealth(), refreshConfig()]);
+    } catch (error: any) {
+      showMessage('error', error.message || '检测失败');
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  const handleReinstate = async (key: string) => {
+    setReinstating(key);
+    try {
+      const response = await fetch('/api/admin/source', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'reinstate', key }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '操作失败');
+      }
+      showMessage('success', '已解除隔离');
+      await Promise.all([fetchHealth(), refreshConfig()]);
+    } catch (error: any) {
+      showMessage('error', error.message || '操作失败');
+    } finally {
+      setReinstating(null);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* 标题和说明 */}
+      <div className='flex items-start gap-3'>
+        <HeartPulse className='w-6 h-6 text-rose-500 shrink-0 mt-1' />
+        <div className='flex-1'>
+          <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+            源健康监控
+          </h3>
+          <p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+            定时任务会用探测关键词搜索每个启用的视频源并抽检播放地址，连续失败达到阈值的源将被隔离（不参与搜索），恢复后自动解除
+          </p>
+        </div>
+      </div>
+
+      {/* 设置 */}
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+        <label className='flex items-center gap-3'>
+          <input
+            type='checkbox'
+            checked={settings.enabled}
+            onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+            className='w-4 h-4 text-rose-600 rounded border-gray-300 dark:border-gray-600'
+          />
+          <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            定时任务中执行健康检测
+          </span>
+        </label>
+        <label className='flex items-center gap-3'>
+          <input
+            type='checkbox'
+            checked={settings.autoQuarantine}
+            onChange={(e) => setSettings({ ...settings, autoQuarantine: e.target.checked })}
+            className='w-4 h-4 text-rose-600 rounded border-gray-300 dark:border-gray-600'
+          />
+          <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            自动隔离 / 恢复视频源
+          </span>
+        </label>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            探测关键词
+          </label>
+          <input
+            type='text'
+            value={settings.probeKeyword}
+            onChange={(e) => setSettings({ ...settings, probeKeyword: e.target.value })}
+            className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-rose-500 focus:border-transparent'
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            连续失败隔离阈值
+          </label>
+          <input
+            type='number'
+            min={1}
+            value={settings.failureThreshold}
+            onChange={(e) => setSettings({ ...settings, failureThreshold: Number(e.target.value) })}
+            className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-rose-500 focus:border-transparent'
+          />
+        </div>
+      </div>
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`flex items-center gap-2 p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle className='w-5 h-5 shrink-0' />
+          ) : (
+            <AlertCircle className='w-5 h-5 shrink-0' />
+          )}
+          <span className='text-sm'>{message.text}</span>
+        </div>
+      )}
+
+      {/* 操作按钮 */}
+      <div className='flex flex-wrap gap-3'>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className='px-4 py-2 bg-rose-600 hover:bg-rose-700 disabled:bg-rose-400 text-white rounded-lg font-medium transition-colors'
+        >
+          {saving ? '保存中...' : '保存配置'}
+        </button>
+        <button
+          onClick={handleProbe}
+          disabled={probing}
+          className='flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors'
+        >
+          <RefreshCw className={`w-4 h-4 ${probing ? 'animate-spin' : ''}`} />
+          {probing ? '检测中...' : '立即检测'}
+        </button>
+      </div>
+
+      {/* 健康列表 */}
+      <div className='overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg'>
+        <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+          <thead className='bg-gray-50 dark:bg-gray-900'>
+            <tr>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>名称</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>状态</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>通过率</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>播放可用率</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>平均延迟</th>
+              <th className='px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>检测历史（左侧最新）</th>
+              <th className='px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>操作</th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+            {sources.map((source) => (
+              <tr key={source.key} className='hover:bg-gray-50 dark:hover:bg-gray-800'>
+                <td className='px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  <div>{source.name}</div>
+                  <div className='text-xs text-gray-500 dark:text-gray-400'>
+                    上次检测：{formatTime(source.lastCheckedAt)}
+                  </div>
+                </td>
+                <td className='px-4 py-3 whitespace-nowrap text-xs'>
+                  {source.disabled ? (
+                    <span className='px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'>已禁用</span>
+                  ) : source.quarantined ? (
+                    <span
+                      className='px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+                      title={`隔离时间：${formatTime(source.quarantinedAt)}`}
+                    >
+                      已隔离
+                    </span>
+                  ) : source.consecutiveFailures > 0 ? (
+                    <span className='px-2 py-1 rounded-full bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'>
+                      连续失败 {source.consecutiveFailures} 次
+                    </span>
+                  ) : source.lastCheckedAt ? (
+                    <span className='px-2 py-1 rounded-full bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300'>正常</span>
+                  ) : (
+                    <span className='text-gray-500 dark:text-gray-400'>未检测</span>
+                  )}
+                </td>
+                <td className='px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {formatPercent(source.successRate)}
+                </td>
+                <td className='px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {formatPercent(source.playableRate)}
+                </td>
+                <td className='px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                  {source.avgLatencyMs === null ? '-' : `${source.avgLatencyMs}ms`}
+                </td>
+                <td className='px-4 py-3'>
+                  <div className='flex gap-0.5'>
+                    {source.history.map((record) => (
+                      <span
+                        key={record.timestamp}
+                        title={describeRecord(record)}
+                        className={`w-1.5 h-5 rounded-sm ${
+                          record.ok
+                            ? record.latencyMs > 5000
+                              ? 'bg-yellow-400'
+                              : 'bg-green-500'
+                            : 'bg-red-500'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                </td>
+                <td className='px-4 py-3 whitespace-nowrap text-right'>
+                  {source.quarantined && (
+                    <button
+                      onClick={() => handleReinstate(source.key)}
+                      disabled={reinstating === source.key}
+                      className='px-3 py-1 text-xs font-medium rounded-lg bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 hover:bg-amber-200 dark:hover:bg-amber-900/40 disabled:opacity-50 transition-colors'
+                    >
+                      {reinstating === source.key ? '处理中...' : '解除隔离'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {sources.length === 0 && (
+              <tr>
+                <td colSpan={7} className='px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400'>
+                  {loading ? '加载中...' : '暂无视频源'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SourceHealthMonitor;
@@ -0,0 +1,287 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { ShieldCheck, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import { QrCode } from './QrCode';
+
+interface TwoFactorPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// setup：扫码绑定；disable / regenerate：需输入验证码确认
+type PanelMode = 'idle' | 'setup' | 'disable' | 'regenerate';
+
+export const TwoFactorPanel: React.FC<TwoFactorPanelProps> = ({ isOpen, onClose }) => {
+  const [mounted, setMounted] = useState(false);
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<PanelMode>('idle');
+  const [setupData, setSetupData] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  // Body 滚动锁定
+  useEffect(() => {
+    if (isOpen) {
+      const body = document.body;
+      const html = document.documentElement;
+      const originalBodyOverflow = body.style.overflow;
+      const originalHtmlOverflow = html.style.overflow;
+
+      body.style.overflow = 'hidden';
+      html.style.overflow = 'hidden';
+
+      return () => {
+        body.style.overflow = originalBodyOverflow;
+        html.style.overflow = originalHtmlOverflow;
+      };
+    }
+  }, [isOpen]);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/user/2fa');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '获取双重验证状态失败');
+      }
+      setStatus(data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取双重验证状态失败');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('idle');
+      setSetupData(null);
+      setCode('');
+      setRecoveryCodes([]);
+      fetchStatus();
+    }
+  }, [isOpen]);
+
+  const postAction = async (body: Record<string, string>) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/user/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || '操作失败');
+      }
+      setError('');
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    const data = await postAction({ action: 'setup' });
+    if (data) {
+      setSetupData(data);
+      setCode('');
+      setMode('setup');
+    }
+  };
+
+  const handleConfirm = async () => {
+    const action =
+      mode === 'setup' ? 'enable' : mode === 'disable' ? 'disable' : 'regenerateRecoveryCodes';
+    const data = await postAction({ action, code: code.trim() });
+    if (!data) return;
+
+    setMode('idle');
+    setSetupData(null);
+    setCode('');
+    setRecoveryCodes(data.recoveryCodes || []);
+    fetchStatus();
+  };
+
+  const handleCancel = () => {
+    setMode('idle');
+    setSetupData(null);
+    setCode('');
+    setError('');
+  };
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-1000'
+        onClick={onClose}
+        style={{ touchAction: 'none' }}
+      />
+
+      {/* 双重验证面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-1001 flex flex-col overflow-hidden'>
+        <div className='p-6 overflow-y-auto' data-panel-content>
+          {/* 标题栏 */}
+          <div className='flex items-center justify-between mb-2'>
+            <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200 flex items-center gap-2'>
+              <ShieldCheck className='w-5 h-5' />
+              双重验证
+            </h3>
+            <button
+              onClick={onClose}
+              className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+              aria-label='Close'
+            >
+              <X className='w-full h-full' />
+            </button>
+          </div>
+          <p className='text-xs text-gray-500 dark:text-gray-400 mb-5'>
+            启用后，使用密码登录时还需输入验证器 App 中的 6 位验证码
+          </p>
+
+          {error && (
+            <div className='mb-4 text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+
+          {/* 新生成的恢复码（只展示一次） */}
+          {recoveryCodes.length > 0 && (
+            <div className='mb-5 p-4 rounded-md border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20'>
+              <p className='text-sm font-medium text-green-800 dark:text-green-300 mb-2'>
+                请保存以下恢复码，关闭后将无法再次查看。每个恢复码只能使用一次。
+              </p>
+              <div className='grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-gray-100 select-all'>
+                {recoveryCodes.map((c) => (
+                  <span key={c}>{c}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!status ? (
+            !error && (
+              <p className='text-sm text-center text-gray-500 dark:text-gray-400 py-4'>加载中...</p>
+            )
+          ) : mode === 'idle' ? (
+            <div className='space-y-4'>
+              <div className='flex items-center justify-between p-3 rounded-md bg-gray-50 dark:bg-gray-800/60'>
+                <span className='text-sm text-gray-700 dark:text-gray-300'>当前状态</span>
+                <span
+                  className={`text-sm font-medium ${status.enabled ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}
+                >
+                  {status.enabled
+                    ? `已启用（剩余 ${status.recoveryCodesRemaining} 个恢复码）`
+                    : '未启用'}
+                </span>
+              </div>
+
+              {status.required && (
+                <p className='text-xs text-amber-600 dark:text-amber-400'>
+                  站点策略要求您的账户启用双重验证
+                </p>
+              )}
+
+              {status.enabled ? (
+                <div className='flex gap-2'>
+                  <button
+                    onClick={() => setMode('regenerate')}
+                    className='flex-1 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors'
+                  >
+                    重新生成恢复码
+                  </button>
+                  {!status.required && (
+                    <button
+                      onClick={() => setMode('disable')}
+                      className='flex-1 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 rounded-md transition-colors'
+                    >
+                      关闭双重验证
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <button
+                  onClick={handleStartSetup}
+                  disabled={loading}
+                  className='w-full px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {loading ? '生成中...' : '启用双重验证'}
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className='space-y-4'>
+              {mode === 'setup' && setupData && (
+                <div className='flex flex-col items-center gap-2'>
+                  <p className='text-sm text-gray-600 dark:text-gray-400 self-start'>
+                    使用验证器 App 扫描二维码，然后输入显示的 6 位验证码完成绑定
+                  </p>
+                  <QrCode value={setupData.otpauthUrl} size={176} className='rounded-lg' />
+                  <p className='text-xs text-gray-500 dark:text-gray-400 break-all text-center'>
+                    无法扫码？手动输入密钥：<span className='font-mono select-all'>{setupData.secret}</span>
+                  </p>
+                </div>
+              )}
+              {mode !== 'setup' && (
+                <p className='text-sm text-gray-600 dark:text-gray-400'>
+                  {mode === 'disable'
+                    ? '请输入验证码或恢复码以关闭双重验证'
+                    : '请输入验证码或恢复码，旧的恢复码将全部失效'}
+                </p>
+              )}
+
+              <input
+                type='text'
+                autoComplete='one-time-code'
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={mode === 'setup' ? '6 位验证码' : '验证码或恢复码'}
+                className='w-full px-3 py-2 text-center tracking-widest font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-green-500'
+              />
+
+              <div className='flex gap-2'>
+                <button
+                  onClick={handleCancel}
+                  className='flex-1 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors'
+                >
+                  取消
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  disabled={loading || !code.trim()}
+                  className='flex-1 px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {loading ? '验证中...' : '确认'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>,
+    document.body
+  );
+};
@@ -0,0 +1,173 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+'use client';
+
+import { AlertCircle, CheckCircle, ShieldCheck } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { AdminConfig } from '@/lib/admin.types';
+
+interface TwoFactorPolicyConfigProps {
+  config: AdminConfig | null;
+  refreshConfig: () => Promise<void>;
+}
+
+type PolicyKey = 'requireForAdmins' | 'trustedNetworkBypass' | 'oidcBypass';
+
+const POLICY_OPTIONS: Array<{ key: PolicyKey; label: string; description: string }> = [
+  {
+    key: 'requireForAdmins',
+    label: '强制站长和管理员启用双重验证',
+    description: '未绑定的站长 / 管理员在下次密码登录时需先完成绑定，且无法自行关闭',
+  },
+  {
+    key: 'trustedNetworkBypass',
+    label: '信任网络跳过双重验证',
+    description: '关闭后信任网络不再自动登录，已自动登录的设备需重新通过密码和验证码登录',
+  },
+  {
+    key: 'oidcBypass',
+    label: 'OIDC 登录跳过双重验证',
+    description: '身份提供商通常已有自己的多因素认证；关闭后 OIDC 登录也需输入验证码',
+  },
+];
+
+const TwoFactorPolicyConfig = ({ config, refreshConfig }: TwoFactorPolicyConfigProps) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [settings, setSettings] = useState<Record<PolicyKey, boolean>>({
+    requireForAdmins: false,
+    trustedNetworkBypass: true,
+    oidcBypass: true,
+  });
+
+  // 从config加载设置
+  useEffect(() => {
+    const policy = config?.UserConfig?.TwoFactor;
+    setSettings({
+      requireForAdmins: policy?.RequireForAdmins ?? false,
+      trustedNetworkBypass: policy?.TrustedNetworkBypass ?? true,
+      oidcBypass: policy?.OIDCBypass ?? true,
+    });
+  }, [config]);
+
+  // 显示消息
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  // 保存配置
+  const handleSave = async () => {
+    if (!config) {
+      showMessage('error', '配置未加载');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const updatedConfig = {
+        ...config,
+        UserConfig: {
+          ...config.UserConfig,
+          TwoFactor: {
+            RequireForAdmins: settings.requireForAdmins,
+            TrustedNetworkBypass: settings.trustedNetworkBypass,
+            OIDCBypass: settings.oidcBypass,
+          },
+        },
+      };
+
+      const response = await fetch('/api/admin/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updatedConfig),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || '保存失败');
+      }
+
+      showMessage('success', '双重验证策略已保存');
+      await refreshConfig();
+    } catch (error: any) {
+      console.error('保存配置失败:', error);
+      showMessage('error', error.message || '保存失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* 标题和说明 */}
+      <div className='flex items-start gap-3'>
+        <ShieldCheck className='w-6 h-6 text-emerald-500 shrink-0 mt-1' />
+        <div className='flex-1'>
+          <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+            双重验证策略
+          </h3>
+          <p className='text-sm text-gray-600 dark:text-gray-400 mt-1'>
+            用户可在「用户菜单 → 双重验证」中绑定验证器 App（TOTP），密码登录时需额外输入 6 位验证码或恢复码
+          </p>
+        </div>
+      </div>
+
+      {/* 策略开关 */}
+      <div className='space-y-4'>
+        {POLICY_OPTIONS.map((option) => (
+          <div key={option.key} className='flex items-start gap-3'>
+            <label className='relative inline-flex items-center cursor-pointer shrink-0'>
+              <input
+                type='checkbox'
+                checked={settings[option.key]}
+                onChange={(e) => setSettings({ ...settings, [option.key]: e.target.checked })}
+                className='sr-only peer'
+              />
+              <div className="w-11 h-6 bg-gray-300 dark:bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-emerald-300 dark:peer-focus:ring-emerald-800 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-600"></div>
+            </label>
+            <div>
+              <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+                {option.label}
+              </span>
+              <p className='text-xs text-gray-500 dark:text-gray-400 mt-0.5'>
+                {option.description}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 消息提示 */}
+      {message && (
+        <div className={`flex items-center gap-2 p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle className='w-5 h-5 shrink-0' />
+          ) : (
+            <AlertCircle className='w-5 h-5 shrink-0' />
+          )}
+          <span className='text-sm'>{message.text}</span>
+        </div>
+      )}
+
+      {/* 操作按钮 */}
+      <div className='flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700'>
+        <button
+          onClick={handleSave}
+          disabled={isLoading}
+          className='px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-lg font-medium transition-colors'
+        >
+          {isLoading ? '保存中...' : '保存配置'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorPolicyConfig;
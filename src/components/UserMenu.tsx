@@ -8,13 +8,17 @@ import {
   Calendar,
   Check,
   ChevronDown,
+  HardDriveDownload,
   ExternalLink,
   Heart,
   KeyRound,
+  KeySquare,
   LogOut,
+  MonitorSmartphone,
   PlayCircle,
   Settings,
   Shield,
+  ShieldCheck,
   Tv,
   User,
   Users,
@@ -41,6 +45,9 @@ import {
 } from '@/lib/db.client';
 import type { Favorite } from '@/lib/types';
 
+import { ApiTokensPanel } from './ApiTokensPanel';
+import { SessionsPanel } from './SessionsPanel';
+import { TwoFactorPanel } from './TwoFactorPanel';
 import { VersionPanel } from './VersionPanel';
 import VideoCard from './VideoCard';
 
@@ -55,6 +62,9 @@ export const UserMenu: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
   const [isVersionPanelOpen, setIsVersionPanelOpen] = useState(false);
+  const [isApiTokensOpen, setIsApiTokensOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
   const [isWatchingUpdatesOpen, setIsWatchingUpdatesOpen] = useState(false);
   const [isContinueWatchingOpen, setIsContinueWatchingOpen] = useState(false);
   const [isFavoritesOpen, setIsFavoritesOpen] = useState(false);
@@ -200,6 +210,7 @@ export const UserMenu: React.FC = () => {
       // 预加载播放统计（所有登录用户，且非 localstorage 存储）
       if (authInfo?.username && storageType !== 'localstorage') {
         router.prefetch('/play-stats');
+        router.prefetch('/downloads');
       }
       // 预加载 TVBox 配置（所有人都能访问）
       router.prefetch('/tvbox');
@@ -666,6 +677,11 @@ export const UserMenu: React.FC = () => {
     router.push('/play-stats');
   };
 
+  const handleOfflineDownloads = () => {
+    setIsOpen(false);
+    router.push('/downloads');
+  };
+
   const handleTVBoxConfig = () => {
     setIsOpen(false);
     router.refresh();
@@ -1003,6 +1019,15 @@ export const UserMenu: React.FC = () => {
   const showChangePassword =
     authInfo?.role !== 'owner' && storageType !== 'localstorage';
 
+  // 检查是否显示访问令牌按钮（登录用户且非localstorage存储）
+  const showApiTokens = authInfo?.username && storageType !== 'localstorage';
+
+  // 检查是否显示登录设备按钮（登录用户且非localstorage存储）
+  const showSessions = authInfo?.username && storageType !== 'localstorage';
+
+  // 检查是否显示双重验证按钮（登录用户且非localstorage存储）
+  const showTwoFactor = authInfo?.username && storageType !== 'localstorage';
+
   // 检查是否显示播放统计按钮（所有登录用户，且非localstorage存储）
   const showPlayStats = authInfo?.username && storageType !== 'localstorage';
 
@@ -1161,6 +1186,17 @@ export const UserMenu: React.FC = () => {
             </button>
           )}
 
+          {/* 离线下载按钮 */}
+          {showPlayStats && (
+            <button
+              onClick={handleOfflineDownloads}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-[background-color] duration-150 ease-in-out text-sm'
+            >
+              <HardDriveDownload className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>离线下载</span>
+            </button>
+          )}
+
           {/* 上映日程按钮 */}
           <button
             onClick={handleReleaseCalendar}
@@ -1190,6 +1226,48 @@ export const UserMenu: React.FC = () => {
             </button>
           )}
 
+          {/* 登录设备按钮 */}
+          {showSessions && (
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                setIsSessionsOpen(true);
+              }}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-[background-color] duration-150 ease-in-out text-sm'
+            >
+              <MonitorSmartphone className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>我的设备</span>
+            </button>
+          )}
+
+          {/* 双重验证按钮 */}
+          {showTwoFactor && (
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                setIsTwoFactorOpen(true);
+              }}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-[background-color] duration-150 ease-in-out text-sm'
+            >
+              <ShieldCheck className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>双重验证</span>
+            </button>
+          )}
+
+          {/* 访问令牌按钮 */}
+          {showApiTokens && (
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                setIsApiTokensOpen(true);
+              }}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-[background-color] duration-150 ease-in-out text-sm'
+            >
+              <KeySquare className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>访问令牌</span>
+            </button>
+          )}
+
           {/* 修改密码按钮 */}
           {showChangePassword && (
             <button
@@ -2520,6 +2598,25 @@ export const UserMenu: React.FC = () => {
         mounted &&
         createPortal(favoritesPanel, document.body)}
 
+      {/* 登录设备面板 */}
+      <SessionsPanel
+        isOpen={isSessionsOpen}
+        onClose={() => setIsSessionsOpen(false)}
+      />
+
+      {/* 双重验证面板 */}
+      <TwoFactorPanel
+        isOpen={isTwoFactorOpen}
+        onClose={() => setIsTwoFactorOpen(false)}
+      />
+
+      {/* 访问令牌面板 */}
+      <ApiTokensPanel
+        isOpen={isApiTokensOpen}
+        onClose={() => setIsApiTokensOpen(false)}
+        role={authInfo?.role}
+      />
+
       {/* 版本面板 */}
       <VersionPanel
         isOpen={isVersionPanelOpen}
@@ -17,6 +17,8 @@ interface DownloadEpisodeSelectorProps {
   currentEpisodeIndex: number;
   /** 下载回调 - 支持批量下载 */
   onDownload: (episodeIndexes: number[]) => void;
+  /** 离线到服务器回调，不传时不显示该按钮 */
+  onServerDownload?: (episodeIndexes: number[]) => void;
 }
 
 /**
@@ -30,6 +32,7 @@ const DownloadEpisodeSelector: React.FC<DownloadEpisodeSelectorProps> = ({
   videoTitle,
   currentEpisodeIndex,
   onDownload,
+  onServerDownload,
 }) => {
   // 多选状态 - 使用 Set 存储选中的集数索引
   const [selectedEpisodes, setSelectedEpisodes] = useState<Set<number>>(
@@ -109,6 +112,12 @@ const DownloadEpisodeSelector: React.FC<DownloadEpisodeSelectorProps> = ({
     onClose();
   };
 
+  const handleServerDownload = () => {
+    const episodeIndexes = Array.from(selectedEpisodes).sort((a, b) => a - b);
+    onServerDownload?.(episodeIndexes);
+    onClose();
+  };
+
   const currentStart = currentPage * episodesPerPage;
   const currentEnd = Math.min(currentStart + episodesPerPage - 1, totalEpisodes - 1);
 
@@ -286,6 +295,16 @@ const DownloadEpisodeSelector: React.FC<DownloadEpisodeSelectorProps> = ({
             >
               取消
             </button>
+            {onServerDownload && (
+              <button
+                onClick={handleServerDownload}
+                disabled={selectedEpisodes.size === 0}
+                className='flex-1 sm:flex-none px-4 py-2 sm:py-2.5 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 rounded-lg transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-500 active:scale-95'
+                title='由服务器下载并转为 MP4，关闭页面后继续下载'
+              >
+                离线到服务器
+              </button>
+            )}
             <button
               onClick={handleDownload}
               disabled={selectedEpisodes.size === 0}
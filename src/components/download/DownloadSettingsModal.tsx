@@ -3,7 +3,12 @@
 import React from 'react';
 import type { DownloadSettings } from '@/contexts/DownloadContext';
 import type { StreamSaverMode, StreamModeSupport } from '@/lib/download';
-import { getStreamModeName, getStreamModeDescription } from '@/lib/download';
+import {
+  DEFAULT_EPISODE_NAME_TEMPLATE,
+  formatEpisodeFilename,
+  getStreamModeDescription,
+  getStreamModeName,
+} from '@/lib/download';
 
 interface DownloadSettingsModalProps {
   isOpen: boolean;
@@ -229,6 +234,29 @@ export function DownloadSettingsModal({
                 </label>
               </div>
             </div>
+
+            {/* 批量下载命名模板 */}
+            <div>
+              <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                批量下载命名模板
+              </label>
+              <input
+                type='text'
+                value={settings.nameTemplate ?? DEFAULT_EPISODE_NAME_TEMPLATE}
+                onChange={(e) => setSettings({ ...settings, nameTemplate: e.target.value })}
+                placeholder={DEFAULT_EPISODE_NAME_TEMPLATE}
+                className='w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              />
+              <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
+                可用变量：{'{title}'} 片名、{'{season}'} 季、{'{ep}'} 集、{'{source}'} 来源、{'{name}'} 分集标题；预览：
+                {formatEpisodeFilename(settings.nameTemplate ?? '', {
+                  title: '示例剧集',
+                  season: 1,
+                  episode: 3,
+                  source: '示例源',
+                })}
+              </p>
+            </div>
           </div>
 
           {/* 底部按钮 */}
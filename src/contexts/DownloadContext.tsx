@@ -2,7 +2,14 @@
 
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
 import { M3U8DownloadTask, parseM3U8, downloadM3U8Video, PauseResumeController, StreamSaverMode } from '@/lib/download';
-import type { DownloadProgress } from '@/lib/download';
+import type { BatchDownloadItem, BatchDownloadOptions, DownloadProgress } from '@/lib/download';
+import {
+  createBatchOutputTarget,
+  DEFAULT_EPISODE_NAME_TEMPLATE,
+  detectSeasonNumber,
+  formatEpisodeFilename,
+  saveEpisodeSubtitles,
+} from '@/lib/download/batch-download';
 import { getBestStreamMode, detectStreamModeSupport, type StreamModeSupport } from '@/lib/download/stream-mode-detector';
 
 export interface DownloadSettings {
@@ -10,6 +17,7 @@ export interface DownloadSettings {
   maxRetries: number; // 最大重试次数
   streamMode: StreamSaverMode; // 下载模式
   defaultType: 'TS' | 'MP4'; // 默认格式
+  nameTemplate?: string; // 批量下载文件命名模板
 }
 
 interface DownloadContextType {
@@ -20,6 +28,7 @@ interface DownloadContextType {
   setSettings: (settings: DownloadSettings) => void;
   streamModeSupport: StreamModeSupport;
   createTask: (url: string, title: string, type?: 'TS' | 'MP4') => Promise<void>;
+  createBatchTasks: (items: BatchDownloadItem[], options: BatchDownloadOptions) => Promise<void>;
   startTask: (taskId: string) => Promise<void>;
   pauseTask: (taskId: string) => void;
   cancelTask: (taskId: string) => void;
@@ -46,6 +55,7 @@ export function DownloadProvider({ children }: { children: React.ReactNode }) {
         maxRetries: 3,
         streamMode: 'disabled' as StreamSaverMode,
         defaultType: 'TS' as 'TS' | 'MP4',
+        nameTemplate: DEFAULT_EPISODE_NAME_TEMPLATE,
       };
     }
 
@@ -65,6 +75,7 @@ export function DownloadProvider({ children }: { children: React.ReactNode }) {
       maxRetries: 3,
       streamMode: bestMode,
       defaultType: 'TS' as 'TS' | 'MP4',
+      nameTemplate: DEFAULT_EPISODE_NAME_TEMPLATE,
     };
   });
 
@@ -177,6 +188,98 @@ export function DownloadProvider({ children }: { children: React.ReactNode }) {
     [tasks, updateTask, settings]
   );
 
+  /**
+   * 批量下载多集：按命名模板命名，逐集下载并写入同一个 ZIP 或文件夹，可附带字幕
+   */
+  const createBatchTasks = useCallback(
+    async (items: BatchDownloadItem[], options: BatchDownloadOptions) => {
+      if (items.length === 0) return;
+
+      const season = options.season ?? detectSeasonNumber(options.title);
+      const padWidth = Math.max(2, String(Math.max(...items.map(item => item.episode))).length);
+      const type = settings.defaultType;
+
+      // 先打开输出位置，文件选择器必须紧跟用户点击
+      const target = options.output === 'files'
+        ? null
+        : await createBatchOutputTarget(options.output, `${options.title} S${String(season).padStart(2, '0')}`);
+      if (options.output !== 'files' && !target) return;
+
+      setShowDownloadPanel(true);
+
+      try {
+        for (const item of items) {
+          const filename = formatEpisodeFilename(
+            settings.nameTemplate || DEFAULT_EPISODE_NAME_TEMPLATE,
+            {
+              title: options.title,
+              season,
+              episode: item.episode,
+              source: options.source,
+              episodeTitle: item.episodeTitle,
+            },
+            padWidth
+          );
+
+          let taskId = '';
+          try {
+            const m3u8Task = await parseM3U8(item.url);
+            taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+            const task: M3U8DownloadTask = {
+              ...m3u8Task,
+              id: taskId,
+              title: filename,
+              type,
+              status: 'downloading',
+            };
+            setTasks(prev => [...prev, task]);
+
+            const pauseController = new PauseResumeController();
+            const abortController = new AbortController();
+            taskControllers.current.set(taskId, { pauseController, abortController });
+
+            const output = target ? await target.createFile(`${filename}.${type.toLowerCase()}`) : undefined;
+            await downloadM3U8Video(
+              task,
+              (progress: DownloadProgress) => {
+                updateTask(taskId, {
+                  finishNum: progress.current,
+                  downloadIndex: progress.current,
+                });
+              },
+              abortController.signal,
+              pauseController,
+              settings.concurrency,
+              settings.streamMode,
+              settings.maxRetries,
+              undefined,
+              output
+            );
+            updateTask(taskId, { status: 'done' });
+          } catch (error) {
+            // 单集失败或被取消不影响后续剧集
+            console.error('批量下载失败:', filename, error);
+            if (taskId) updateTask(taskId, { status: 'error' });
+            continue;
+          } finally {
+            if (taskId) taskControllers.current.delete(taskId);
+          }
+
+          if (options.includeSubtitles && item.subtitles?.length) {
+            await saveEpisodeSubtitles(item.subtitles, filename, target);
+          }
+        }
+
+        await target?.close();
+      } catch (error) {
+        console.error('批量下载中止:', error);
+        await target?.abort(error).catch(() => undefined);
+        throw error;
+      }
+    },
+    [settings, updateTask]
+  );
+
   const pauseTask = useCallback(
     (taskId: string) => {
       const controllers = taskControllers.current.get(taskId);
@@ -236,6 +339,7 @@ export function DownloadProvider({ children }: { children: React.ReactNode }) {
         setSettings,
         streamModeSupport,
         createTask,
+        createBatchTasks,
         startTask,
         pauseTask,
         cancelTask,
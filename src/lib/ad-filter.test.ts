@@ -0,0 +1,133 @@
+import {
+  AdFilterRule,
+  applyAdFilterRules,
+  DEFAULT_AD_FILTER_RULES,
+  normalizeAdFilterRules,
+  validateAdFilterRules,
+} from './ad-filter';
+
+const PLAYLIST = [
+  '#EXTM3U',
+  '#EXT-X-TARGETDURATION:10',
+  '#EXTINF:10,',
+  'seg-001.ts',
+  '#EXTINF:10,',
+  'seg-002.ts',
+  '#EXT-X-DISCONTINUITY',
+  '#EXTINF:5,',
+  'https://ads.example.net/adjump/ad-1.ts',
+  '#EXTINF:5,',
+  'https://ads.example.net/adjump/ad-2.ts',
+  '#EXT-X-DISCONTINUITY',
+  '#EXTINF:10,',
+  'seg-003.ts',
+  '#EXTINF:10,',
+  'seg-004.ts',
+  '#EXT-X-ENDLIST',
+].join('\n');
+
+const context = { source: 'demo', baseUrl: 'https://video.example.com/vod/index.m3u8' };
+
+describe('validateAdFilterRules', () => {
+  it('accepts keyword and regex patterns and fills defaults', () => {
+    const rules = validateAdFilterRules([
+      { urlPattern: 'adjump' },
+      { id: 'short', target: 'run', urlPattern: '/\\/ad-\\d+\\.ts$/i', maxDuration: 30 },
+    ]);
+    expect(rules).toEqual([
+      { id: 'rule-1', name: '', enabled: true, target: 'segment', urlPattern: 'adjump' },
+      { id: 'short', name: '', enabled: true, target: 'run', urlPattern: '/\\/ad-\\d+\\.ts$/i', maxDuration: 30 },
+    ]);
+  });
+
+  it('keeps the default rules valid', () => {
+    expect(validateAdFilterRules(DEFAULT_AD_FILTER_RULES)).toHaveLength(1);
+  });
+
+  it('rejects rules without any condition', () => {
+    expect(() => validateAdFilterRules([{ name: 'empty' }])).toThrow('至少需要一个匹配条件');
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(() =>
+      validateAdFilterRules([
+        { id: 'a', urlPattern: 'x' },
+        { id: 'a', urlPattern: 'y' },
+      ])
+    ).toThrow('规则 id 重复');
+  });
+
+  it.each(['/(a+)+$/', '/(\\w|\\d)*x/', '/((ab)*c)+/', '/(a)\\1/', '/(?<x>a)\\k<x>/'])(
+    'rejects regex %s that may backtrack catastrophically',
+    (urlPattern) => {
+      expect(() => validateAdFilterRules([{ urlPattern }])).toThrow('可能导致匹配极慢');
+    }
+  );
+
+  it.each(['/(ad|promo)\\/\\d+\\.ts/i', '/[(+*]+x/', '/(ts)?\\d+/', '(a+)+'])('accepts safe pattern %s', (urlPattern) => {
+    expect(() => validateAdFilterRules([{ urlPattern }])).not.toThrow();
+  });
+});
+
+describe('normalizeAdFilterRules', () => {
+  it('drops invalid and unsafe rules instead of throwing', () => {
+    const rules = normalizeAdFilterRules([{ urlPattern: '/(a+)+$/' }, { urlPattern: 'adjump' }, 'oops']);
+    expect(rules.map((rule) => rule.urlPattern)).toEqual(['adjump']);
+  });
+
+  it('returns an empty list for non-arrays', () => {
+    expect(normalizeAdFilterRules(undefined)).toEqual([]);
+  });
+});
+
+describe('applyAdFilterRules', () => {
+  it('removes matching segments and merges the surrounding discontinuities', () => {
+    const result = applyAdFilterRules(PLAYLIST, DEFAULT_AD_FILTER_RULES, context);
+    expect(result.removedCount).toBe(2);
+    expect(result.removedDuration).toBe(10);
+    expect(result.content).not.toContain('adjump');
+    expect(result.content.match(/#EXT-X-DISCONTINUITY/g)).toHaveLength(1);
+    expect(result.content).toContain('seg-004.ts');
+  });
+
+  it('removes a whole discontinuity run by duration and host change', () => {
+    const rules: AdFilterRule[] = [
+      { id: 'run', name: '', enabled: true, target: 'run', maxDuration: 15, hostChange: true },
+    ];
+    const result = applyAdFilterRules(PLAYLIST, rules, context);
+    expect(result.segments.filter((seg) => seg.removedBy === 'run').map((seg) => seg.run)).toEqual([1, 1]);
+  });
+
+  it('only applies source-scoped rules to that source', () => {
+    const rules: AdFilterRule[] = [
+      { id: 'scoped', name: '', enabled: true, target: 'segment', urlPattern: 'adjump', sources: ['other'] },
+    ];
+    expect(applyAdFilterRules(PLAYLIST, rules, context).removedCount).toBe(0);
+    expect(applyAdFilterRules(PLAYLIST, rules, { ...context, source: 'other' }).removedCount).toBe(2);
+  });
+
+  it('leaves the playlist untouched when every segment matches', () => {
+    const rules: AdFilterRule[] = [{ id: 'all', name: '', enabled: true, target: 'segment', urlPattern: '.ts' }];
+    const result = applyAdFilterRules(PLAYLIST, rules, context);
+    expect(result.allRemoved).toBe(true);
+    expect(result.content).toBe(PLAYLIST);
+  });
+
+  it('leaves master playlists untouched', () => {
+    const master = '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nadjump/index.m3u8';
+    expect(applyAdFilterRules(master, DEFAULT_AD_FILTER_RULES, context).content).toBe(master);
+  });
+
+  it('skips playlists with too many lines', () => {
+    const huge = ['#EXTM3U', ...Array.from({ length: 30000 }, (_, i) => `#EXTINF:1,\nadjump-${i}.ts`)].join('\n');
+    const result = applyAdFilterRules(huge, DEFAULT_AD_FILTER_RULES, context);
+    expect(result.removedCount).toBe(0);
+    expect(result.content).toBe(huge);
+  });
+
+  it('only matches the beginning of very long segment URIs', () => {
+    const longUri = `seg-${'x'.repeat(5000)}-adjump.ts`;
+    const playlist = `#EXTM3U\n#EXTINF:10,\nseg-1.ts\n#EXTINF:10,\n${longUri}\n#EXT-X-ENDLIST`;
+    expect(applyAdFilterRules(playlist, DEFAULT_AD_FILTER_RULES, context).removedCount).toBe(0);
+  });
+});
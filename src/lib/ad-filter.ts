@@ -0,0 +1,381 @@
+/**
+ * 去广告规则引擎
+ * 按声明式规则过滤 m3u8 中的广告分片，不执行任何自定义代码；
+ * 不依赖浏览器或 Node 专有 API，播放页和服务器端 m3u8 代理共用
+ */
+
+import type { AdFilterRule } from './admin.types';
+
+export type { AdFilterRule } from './admin.types';
+
+/**
+ * 默认规则：沿用原来内置的广告关键字
+ */
+export const DEFAULT_AD_FILTER_RULES: AdFilterRule[] = [
+  {
+    id: 'default-keywords',
+    name: '常见广告关键字',
+    enabled: true,
+    target: 'segment',
+    urlPattern: '/sponsor|\\/ads?\\/|advert|\\/adjump|redtraffic/i',
+  },
+];
+
+const MAX_PATTERN_LENGTH = 300;
+const MAX_RULES = 100;
+// 服务器端 m3u8 代理无需登录即可访问，限制匹配规模，避免超大播放列表拖慢正则匹配
+const MAX_PLAYLIST_LINES = 50000;
+const MAX_MATCH_LENGTH = 2048;
+
+export interface AdFilterSegment {
+  index: number;
+  uri: string;
+  duration: number;
+  /** 第几段（以 #EXT-X-DISCONTINUITY 分隔，从 0 开始） */
+  run: number;
+  host: string;
+  /** 命中的规则 id，未命中时为空 */
+  removedBy?: string;
+}
+
+export interface AdFilterResult {
+  content: string;
+  segments: AdFilterSegment[];
+  removedCount: number;
+  removedDuration: number;
+  /** 规则命中了全部分片，为避免无法播放未做过滤 */
+  allRemoved?: boolean;
+}
+
+export interface AdFilterContext {
+  /** 当前播放源 key，用于按播放源生效的规则 */
+  source?: string;
+  /** m3u8 自身地址，用于解析相对路径的分片域名 */
+  baseUrl?: string;
+}
+
+/**
+ * 检查正则是否可能出现灾难性回溯（ReDoS）
+ * 不允许反向引用，也不允许重复的分组内再含重复或分支，如 (a+)+、(a|ab)*；
+ * 判断偏保守，分片地址匹配用不到这些写法
+ */
+function isSafeRegex(source: string): boolean {
+  // 每层分组记录其中是否出现过重复和分支，栈底为整个表达式
+  const groups: { repeated: boolean; alternation: boolean }[] = [{ repeated: false, alternation: false }];
+  const isRepeat = (index: number) => source[index] === '*' || source[index] === '+' || source[index] === '{';
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    const current = groups[groups.length - 1];
+    if (ch === '\\') {
+      if (/[1-9k]/.test(source[i + 1] || '')) return false;
+      i++;
+    } else if (inClass) {
+      if (ch === ']') inClass = false;
+    } else if (ch === '[') {
+      inClass = true;
+    } else if (ch === '(') {
+      groups.push({ repeated: false, alternation: false });
+    } else if (ch === '|') {
+      current.alternation = true;
+    } else if (ch === ')') {
+      if (groups.length === 1) return false;
+      groups.pop();
+      if (isRepeat(i + 1) && (current.repeated || current.alternation)) return false;
+      if (current.repeated || isRepeat(i + 1)) groups[groups.length - 1].repeated = true;
+    } else if (isRepeat(i)) {
+      current.repeated = true;
+    }
+  }
+  return true;
+}
+
+/**
+ * 解析 urlPattern：/正则/flags 按正则处理，否则按不区分大小写的关键字处理
+ */
+function compilePattern(pattern: string): RegExp {
+  const match = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (match) {
+    // 去掉 g / y，避免 test() 带状态
+    return new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+  }
+  return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? num : NaN;
+}
+
+/**
+ * 校验单条规则，返回规范化后的规则或错误信息
+ */
+function checkRule(raw: unknown, index: number): AdFilterRule | string {
+  const label = `第 ${index + 1} 条规则`;
+  if (!raw || typeof raw !== 'object') {
+    return `${label}格式不正确`;
+  }
+  const input = raw as Record<string, unknown>;
+
+  const target = input.target ?? 'segment';
+  if (target !== 'segment' && target !== 'run') {
+    return `${label}的 target 只能是 segment 或 run`;
+  }
+
+  const rule: AdFilterRule = {
+    id: typeof input.id === 'string' && input.id.trim() ? input.id.trim() : `rule-${index + 1}`,
+    name: typeof input.name === 'string' ? input.name.trim() : '',
+    enabled: input.enabled !== false,
+    target,
+  };
+
+  if (input.sources !== undefined) {
+    if (!Array.isArray(input.sources) || input.sources.some((s) => typeof s !== 'string')) {
+      return `${label}的 sources 必须是字符串数组`;
+    }
+    const sources = (input.sources as string[]).map((s) => s.trim()).filter(Boolean);
+    if (sources.length > 0) rule.sources = sources;
+  }
+
+  if (input.urlPattern !== undefined && input.urlPattern !== '') {
+    if (typeof input.urlPattern !== 'string') {
+      return `${label}的 urlPattern 必须是字符串`;
+    }
+    if (input.urlPattern.length > MAX_PATTERN_LENGTH) {
+      return `${label}的 urlPattern 过长（最多 ${MAX_PATTERN_LENGTH} 个字符）`;
+    }
+    try {
+      compilePattern(input.urlPattern);
+    } catch {
+      return `${label}的 urlPattern 不是有效的正则表达式`;
+    }
+    const regexSource = input.urlPattern.match(/^\/(.+)\/([a-z]*)$/)?.[1];
+    if (regexSource && !isSafeRegex(regexSource)) {
+      return `${label}的 urlPattern 含有嵌套重复或反向引用，可能导致匹配极慢，请改用更简单的写法`;
+    }
+    rule.urlPattern = input.urlPattern;
+  }
+
+  const minDuration = toOptionalNumber(input.minDuration);
+  const maxDuration = toOptionalNumber(input.maxDuration);
+  if (Number.isNaN(minDuration) || Number.isNaN(maxDuration)) {
+    return `${label}的时长必须是非负数字`;
+  }
+  if (minDuration !== undefined && maxDuration !== undefined && minDuration > maxDuration) {
+    return `${label}的 minDuration 不能大于 maxDuration`;
+  }
+  if (minDuration !== undefined) rule.minDuration = minDuration;
+  if (maxDuration !== undefined) rule.maxDuration = maxDuration;
+
+  if (input.hostChange !== undefined && typeof input.hostChange !== 'boolean') {
+    return `${label}的 hostChange 必须是 true 或 false`;
+  }
+  if (input.hostChange) rule.hostChange = true;
+
+  // 没有任何条件的规则会删掉所有分片
+  if (!rule.urlPattern && rule.minDuration === undefined && rule.maxDuration === undefined && !rule.hostChange) {
+    return `${label}至少需要一个匹配条件（urlPattern、minDuration、maxDuration 或 hostChange）`;
+  }
+
+  return rule;
+}
+
+/**
+ * 严格校验规则列表，有错误时抛出，用于后台保存前检查
+ */
+export function validateAdFilterRules(input: unknown): AdFilterRule[] {
+  if (!Array.isArray(input)) {
+    throw new Error('规则必须是数组');
+  }
+  if (input.length > MAX_RULES) {
+    throw new Error(`规则最多 ${MAX_RULES} 条`);
+  }
+  const ids = new Set<string>();
+  return input.map((raw, index) => {
+    const rule = checkRule(raw, index);
+    if (typeof rule === 'string') {
+      throw new Error(rule);
+    }
+    if (ids.has(rule.id)) {
+      throw new Error(`规则 id 重复：${rule.id}`);
+    }
+    ids.add(rule.id);
+    return rule;
+  });
+}
+
+/**
+ * 宽松读取规则列表，忽略无效规则，用于播放时读取配置
+ */
+export function normalizeAdFilterRules(input: unknown): AdFilterRule[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .slice(0, MAX_RULES)
+    .map((raw, index) => checkRule(raw, index))
+    .filter((rule): rule is AdFilterRule => typeof rule !== 'string');
+}
+
+function getHost(uri: string, baseUrl?: string): string {
+  try {
+    return new URL(uri, baseUrl).host;
+  } catch {
+    // 没有 baseUrl 的相对路径，与 m3u8 同域
+    return '';
+  }
+}
+
+interface ParsedSegment extends AdFilterSegment {
+  /** 属于该分片的行（#EXTINF、#EXT-X-BYTERANGE 和地址行） */
+  lines: number[];
+}
+
+function parseSegments(lines: string[], baseUrl?: string): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+  let ownLines: number[] = [];
+  let duration = 0;
+  let run = 0;
+
+  lines.forEach((raw, lineIndex) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8).split(',')[0]) || 0;
+      ownLines.push(lineIndex);
+    } else if (line.startsWith('#EXT-X-BYTERANGE')) {
+      ownLines.push(lineIndex);
+    } else if (line.startsWith('#EXT-X-DISCONTINUITY') && !line.startsWith('#EXT-X-DISCONTINUITY-SEQUENCE')) {
+      if (segments.length > 0 && segments[segments.length - 1].run === run) run++;
+    } else if (!line.startsWith('#')) {
+      segments.push({
+        index: segments.length,
+        uri: line,
+        duration,
+        run,
+        host: getHost(line, baseUrl),
+        lines: [...ownLines, lineIndex],
+      });
+      ownLines = [];
+      duration = 0;
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * 按规则过滤 m3u8，返回过滤后的内容以及每个分片的命中情况
+ * 主播放列表（只有子播放列表）原样返回；所有分片都被命中时视为规则有误，原样返回
+ */
+export function applyAdFilterRules(
+  content: string,
+  rules: AdFilterRule[],
+  context: AdFilterContext = {}
+): AdFilterResult {
+  const lines = content.split(/\r?\n/);
+  const unchanged: AdFilterResult = { content, segments: [], removedCount: 0, removedDuration: 0 };
+  if (!content || content.includes('#EXT-X-STREAM-INF') || lines.length > MAX_PLAYLIST_LINES) {
+    return unchanged;
+  }
+
+  const segments = parseSegments(lines, context.baseUrl);
+  if (segments.length === 0) {
+    return unchanged;
+  }
+
+  const activeRules = rules.filter(
+    (rule) => rule.enabled && (!rule.sources?.length || (context.source && rule.sources.includes(context.source)))
+  );
+
+  // 正片主体域名：按时长统计最多的域名
+  const hostDurations = new Map<string, number>();
+  segments.forEach((seg) => hostDurations.set(seg.host, (hostDurations.get(seg.host) || 0) + seg.duration));
+  const mainHost = Array.from(hostDurations.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  const totalDuration = segments.reduce((sum, seg) => sum + seg.duration, 0);
+
+  const runs = new Map<number, ParsedSegment[]>();
+  segments.forEach((seg) => {
+    const list = runs.get(seg.run) || [];
+    list.push(seg);
+    runs.set(seg.run, list);
+  });
+
+  const inRange = (value: number, rule: AdFilterRule) =>
+    (rule.minDuration === undefined || value >= rule.minDuration) &&
+    (rule.maxDuration === undefined || value <= rule.maxDuration);
+
+  for (const rule of activeRules) {
+    let pattern: RegExp | null = null;
+    try {
+      pattern = rule.urlPattern ? compilePattern(rule.urlPattern) : null;
+    } catch {
+      continue;
+    }
+
+    if (rule.target === 'segment') {
+      for (const seg of segments) {
+        if (seg.removedBy) continue;
+        if (pattern && !pattern.test(seg.uri.slice(0, MAX_MATCH_LENGTH))) continue;
+        if (!inRange(seg.duration, rule)) continue;
+        if (rule.hostChange && seg.host === mainHost) continue;
+        seg.removedBy = rule.id;
+      }
+      continue;
+    }
+
+    Array.from(runs.values()).forEach((runSegments) => {
+      const runDuration = runSegments.reduce((sum, seg) => sum + seg.duration, 0);
+      // 超过一半时长的段必然是正片
+      if (runDuration > totalDuration / 2) return;
+      if (pattern && !runSegments.some((seg) => pattern?.test(seg.uri.slice(0, MAX_MATCH_LENGTH)))) return;
+      if (!inRange(runDuration, rule)) return;
+      if (rule.hostChange && runSegments.some((seg) => seg.host === mainHost)) return;
+      runSegments.forEach((seg) => {
+        if (!seg.removedBy) seg.removedBy = rule.id;
+      });
+    });
+  }
+
+  const removed = segments.filter((seg) => seg.removedBy);
+  const result = segments.map(({ lines: _lines, ...seg }) => seg);
+  if (removed.length === 0) {
+    return { content, segments: result, removedCount: 0, removedDuration: 0 };
+  }
+  if (removed.length === segments.length) {
+    return { ...unchanged, segments: result, allRemoved: true };
+  }
+
+  // 重新拼接：去掉被删分片自身的行，删除广告段后相邻的 DISCONTINUITY 合并为一个
+  const droppedLines = new Set<number>();
+  const segmentStart = new Map<number, ParsedSegment>();
+  segments.forEach((seg) => {
+    segmentStart.set(seg.lines[0], seg);
+    if (seg.removedBy) seg.lines.forEach((lineIndex) => droppedLines.add(lineIndex));
+  });
+
+  const output: string[] = [];
+  let keptSegment = false;
+  let pendingDiscontinuity = false;
+  lines.forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#EXT-X-DISCONTINUITY') && !trimmed.startsWith('#EXT-X-DISCONTINUITY-SEQUENCE')) {
+      if (keptSegment) pendingDiscontinuity = true;
+      return;
+    }
+    if (droppedLines.has(lineIndex)) return;
+    if (segmentStart.has(lineIndex)) {
+      if (pendingDiscontinuity) output.push('#EXT-X-DISCONTINUITY');
+      pendingDiscontinuity = false;
+      keptSegment = true;
+    }
+    output.push(line);
+  });
+
+  return {
+    content: output.join('\n'),
+    segments: result,
+    removedCount: removed.length,
+    removedDuration: removed.reduce((sum, seg) => sum + seg.duration, 0),
+  };
+}
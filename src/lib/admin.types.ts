@@ -21,8 +21,9 @@ export interface AdminConfig {
     TMDBApiKey?: string;
     TMDBLanguage?: string;
     EnableTMDBActorSearch?: boolean;
-    // 自定义去广告代码
-    CustomAdFilterCode?: string;
+    // 自定义去广告规则
+    CustomAdFilterRules?: AdFilterRule[];
+    CustomAdFilterCode?: string; // 旧版自定义去广告代码，已不再执行，仅保留以便迁移
     CustomAdFilterVersion?: number;
     // 默认用户组
     DefaultUserTags?: string[];
@@ -31,6 +32,11 @@ export interface AdminConfig {
     AllowRegister?: boolean; // 是否允许用户注册，默认 true
     AutoCleanupInactiveUsers?: boolean; // 是否自动清理非活跃用户，默认 false
     InactiveUserDays?: number; // 非活跃用户保留天数，默认 7
+    TwoFactor?: {
+      RequireForAdmins?: boolean; // 站长和管理员必须启用双重验证，默认 false
+      TrustedNetworkBypass?: boolean; // 信任网络自动登录跳过双重验证，默认 true
+      OIDCBypass?: boolean; // OIDC 登录跳过双重验证，默认 true
+    };
     Users: {
       username: string;
       role: 'user' | 'admin' | 'owner';
@@ -59,6 +65,7 @@ export interface AdminConfig {
     is_adult?: boolean;
     type?: 'vod' | 'shortdrama'; // 视频源类型：vod=普通视频，shortdrama=短剧（系统会自动查找"短剧"分类）
     weight?: number; // 优先级权重：0-100，数字越大优先级越高，默认50。播放时先按权重排序，同权重再按测速结果
+    quarantined?: boolean; // 健康检测连续失败被自动隔离（不参与搜索和播放），恢复后自动解除
   }[];
   CustomCategories: {
     name?: string;
@@ -198,6 +205,10 @@ export interface AdminConfig {
   };
   DownloadConfig?: {
     enabled: boolean;                    // 是否启用下载功能（全局开关）
+    serverEnabled?: boolean;             // 是否启用服务器离线下载（默认关闭，需要数据库存储）
+    userQuotaMB?: number;                // 每个用户的离线下载空间（MB，0 表示不限，默认 5120）
+    totalQuotaMB?: number;               // 全站离线下载空间（MB，默认 20480）
+    maxConcurrentJobs?: number;          // 同时下载的任务数（默认 2）
   };
   WatchRoomConfig?: {
     enabled: boolean;                    // 是否启用观影室功能
@@ -215,6 +226,30 @@ export interface AdminConfig {
     recentDays: number;                  // 最近活跃的天数定义（默认 30）
     onlyRefreshOngoing: boolean;         // 仅刷新连载中的剧集（默认 true）
   };
+  SourceHealthConfig?: {
+    enabled: boolean;                    // 是否在定时任务中检测视频源健康状态（默认启用）
+    probeKeyword: string;                // 检测使用的搜索关键词
+    failureThreshold: number;            // 连续失败多少次后自动隔离（默认 3）
+    autoQuarantine: boolean;             // 是否自动隔离 / 恢复（关闭时只记录历史）
+  };
+  AdaptiveWeightConfig?: {
+    enabled: boolean;                    // 是否根据播放效果自动调整源权重（默认启用）
+    blend: number;                       // 学习权重的最大占比 0-1（默认 0.5，其余为管理员设置的权重）
+    perRegion: boolean;                  // 是否按用户网络地区（国内 / 国际）分别统计
+  };
+  LiveChannelHealthConfig?: {
+    enabled: boolean;                    // 是否在定时任务中检测直播频道（默认关闭，频道数量通常较多）
+    intervalHours: number;               // 两次自动检测的最小间隔（小时，默认 12）
+    hideDeadChannels: boolean;           // 频道列表是否默认隐藏检测失败的频道（默认启用）
+  };
+  LiveRecordingConfig?: {
+    enabled: boolean;                    // 是否启用直播录制（默认关闭）
+    allowedUsers: string[];              // 允许录制的用户（站长和管理员始终允许）
+    allowedTags: string[];               // 允许录制的用户组
+    totalQuotaMB: number;                // 所有录制文件的总配额（MB，默认 10240）
+    userQuotaMB: number;                 // 单个用户的录制配额（MB，默认 2048，0 表示不限）
+    maxDurationMinutes: number;          // 单次录制的最长时长（分钟，默认 240）
+  };
   TrustedNetworkConfig?: {
     enabled: boolean;                    // 是否启用信任网络模式（内网免登录）
     trustedIPs: string[];               // 信任的IP/CIDR列表（如 192.168.0.0/16, 10.0.0.0/8）
@@ -232,3 +267,23 @@ export interface AdminConfigResult {
   Role: 'owner' | 'admin';
   Config: AdminConfig;
 }
+
+/**
+ * 去广告规则：同一条规则里填写的条件需要同时满足
+ */
+export interface AdFilterRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** 作用对象：segment 单个分片；run 两个 #EXT-X-DISCONTINUITY 之间的整段分片 */
+  target: 'segment' | 'run';
+  /** 只对这些播放源生效（source key），为空时对全部播放源生效 */
+  sources?: string[];
+  /** 分片地址包含的关键字（不区分大小写），或 /正则/ 形式 */
+  urlPattern?: string;
+  /** 时长范围（秒）：segment 为单个分片时长，run 为整段总时长 */
+  minDuration?: number;
+  maxDuration?: number;
+  /** 分片域名与正片主体域名不同 */
+  hostChange?: boolean;
+}
@@ -0,0 +1,52 @@
+import { getRequiredTokenScope, isApiTokenAllowed } from './api-token-scope';
+
+describe('getRequiredTokenScope', () => {
+  it.each([
+    ['/api/playrecords', 'GET', 'playrecords:read'],
+    ['/api/favorites', 'POST', 'favorites:write'],
+    ['/api/favorites/', 'DELETE', 'favorites:write'],
+    ['/api/search', 'GET', 'search'],
+    ['/api/search/suggestions', 'GET', 'search'],
+    ['/api/detail', 'GET', 'search'],
+    ['/api/admin/config', 'POST', 'admin'],
+  ])('%s %s requires %s', (pathname, method, scope) => {
+    expect(getRequiredTokenScope(pathname, method)).toBe(scope);
+  });
+
+  it.each([
+    ['/api/playrecords', 'POST'],
+    ['/api/search', 'POST'],
+    ['/api/searchx', 'GET'],
+    ['/api/administrator', 'GET'],
+    ['/api/tokens', 'POST'],
+    ['/api/sessions', 'GET'],
+  ])('denies %s %s for every token', (pathname, method) => {
+    expect(getRequiredTokenScope(pathname, method)).toBeNull();
+  });
+});
+
+describe('isApiTokenAllowed', () => {
+  it('requires the matching scope', () => {
+    expect(isApiTokenAllowed(['search'], '/api/search', 'GET')).toBe(true);
+    expect(isApiTokenAllowed(['search'], '/api/playrecords', 'GET')).toBe(
+      false
+    );
+    expect(
+      isApiTokenAllowed(
+        ['playrecords:read', 'favorites:write', 'search', 'live:read'],
+        '/api/admin/users',
+        'GET'
+      )
+    ).toBe(false);
+  });
+
+  it('denies unlisted endpoints even with every scope', () => {
+    expect(
+      isApiTokenAllowed(
+        ['playrecords:read', 'favorites:write', 'search', 'live:read', 'admin'],
+        '/api/tokens',
+        'GET'
+      )
+    ).toBe(false);
+  });
+});
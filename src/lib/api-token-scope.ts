@@ -0,0 +1,24 @@
+import type { ApiTokenScope } from './types';
+
+// 令牌可访问的接口及所需权限范围，未列出的接口一律拒绝
+// 供中间件使用，不能依赖 Node 专有模块
+const API_TOKEN_SCOPE_RULES: { pattern: RegExp; methods?: string[]; scope: ApiTokenScope }[] = [
+  { pattern: /^\/api\/playrecords\/?$/, methods: ['GET'], scope: 'playrecords:read' },
+  { pattern: /^\/api\/favorites\/?$/, scope: 'favorites:write' },
+  { pattern: /^\/api\/search(\/|$)/, methods: ['GET'], scope: 'search' },
+  { pattern: /^\/api\/detail\/?$/, methods: ['GET'], scope: 'search' },
+  { pattern: /^\/api\/admin(\/|$)/, scope: 'admin' },
+];
+
+export function getRequiredTokenScope(pathname: string, method: string): ApiTokenScope | null {
+  const rule = API_TOKEN_SCOPE_RULES.find(
+    (r) => r.pattern.test(pathname) && (!r.methods || r.methods.includes(method))
+  );
+  return rule ? rule.scope : null;
+}
+
+// 令牌是否可以访问该接口
+export function isApiTokenAllowed(scopes: ApiTokenScope[], pathname: string, method: string): boolean {
+  const requiredScope = getRequiredTokenScope(pathname, method);
+  return !!requiredScope && scopes.includes(requiredScope);
+}
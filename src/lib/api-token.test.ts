@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+
+import { createApiToken, hashApiToken, verifyApiToken } from './api-token';
+import { getConfig } from './config';
+import { db } from './db';
+import { ApiToken } from './types';
+
+jest.mock('./db', () => ({
+  db: {
+    getApiTokens: jest.fn(),
+    getApiTokenOwner: jest.fn(),
+    saveApiToken: jest.fn(),
+  },
+}));
+jest.mock('./config', () => ({ getConfig: jest.fn() }));
+
+const mockDb = db as unknown as jest.Mocked<
+  Pick<typeof db, 'getApiTokens' | 'getApiTokenOwner' | 'saveApiToken'>
+>;
+const mockGetConfig = getConfig as jest.Mock;
+
+function setUsers(
+  users: { username: string; role: string; banned?: boolean }[]
+) {
+  mockGetConfig.mockResolvedValue({ UserConfig: { Users: users } });
+}
+
+function storeToken(
+  username: string,
+  token: string,
+  overrides: Partial<ApiToken> = {}
+) {
+  const record: ApiToken = {
+    id: 't1',
+    name: 'test',
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, 10),
+    scopes: ['search', 'admin'],
+    createdAt: Date.now(),
+    expiresAt: null,
+    lastUsedAt: null,
+    ...overrides,
+  };
+  mockDb.getApiTokenOwner.mockResolvedValue(username);
+  mockDb.getApiTokens.mockResolvedValue([record]);
+  return record;
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockDb.saveApiToken.mockResolvedValue(undefined);
+  mockDb.getApiTokens.mockResolvedValue([]);
+});
+
+describe('createApiToken', () => {
+  it('stores only the hash and returns the plaintext once', async () => {
+    setUsers([{ username: 'alice', role: 'admin' }]);
+    const { token, record } = await createApiToken('alice', {
+      name: 'ci',
+      scopes: ['search', 'search', 'admin'],
+    });
+    expect(token.startsWith('mtv_')).toBe(true);
+    expect(record.tokenHash).toBe(hashApiToken(token));
+    expect(record.scopes).toEqual(['search', 'admin']);
+    expect(JSON.stringify(mockDb.saveApiToken.mock.calls[0])).not.toContain(
+      token
+    );
+  });
+
+  it('refuses admin scope for normal users', async () => {
+    setUsers([{ username: 'bob', role: 'user' }]);
+    await expect(
+      createApiToken('bob', { name: 'x', scopes: ['admin'] })
+    ).rejects.toThrow('普通用户不能创建管理权限的令牌');
+  });
+
+  it('refuses banned users', async () => {
+    setUsers([{ username: 'bob', role: 'user', banned: true }]);
+    await expect(
+      createApiToken('bob', { name: 'x', scopes: ['search'] })
+    ).rejects.toThrow('用户不存在或已被封禁');
+  });
+});
+
+describe('verifyApiToken', () => {
+  const token = 'mtv_abcdefghijklmnop';
+
+  it('rejects tokens without the prefix', async () => {
+    expect(await verifyApiToken('abcdefghijklmnop')).toBeNull();
+    expect(mockDb.getApiTokenOwner).not.toHaveBeenCalled();
+  });
+
+  it('returns the owner and scopes of a valid token', async () => {
+    setUsers([{ username: 'alice', role: 'admin' }]);
+    storeToken('alice', token);
+    expect(await verifyApiToken(token)).toEqual({
+      username: 'alice',
+      role: 'admin',
+      tokenId: 't1',
+      scopes: ['search', 'admin'],
+    });
+  });
+
+  it('drops the admin scope after the user is demoted', async () => {
+    setUsers([{ username: 'alice', role: 'user' }]);
+    storeToken('alice', token);
+    expect((await verifyApiToken(token))?.scopes).toEqual(['search']);
+  });
+
+  it('rejects expired tokens and banned users', async () => {
+    setUsers([{ username: 'alice', role: 'admin' }]);
+    storeToken('alice', token, { expiresAt: Date.now() - 1000 });
+    expect(await verifyApiToken(token)).toBeNull();
+
+    setUsers([{ username: 'alice', role: 'admin', banned: true }]);
+    storeToken('alice', token);
+    expect(await verifyApiToken(token)).toBeNull();
+  });
+
+  it('throttles lastUsedAt writes', async () => {
+    setUsers([{ username: 'alice', role: 'admin' }]);
+    storeToken('alice', token, { lastUsedAt: Date.now() - 1000 });
+    await verifyApiToken(token);
+    expect(mockDb.saveApiToken).not.toHaveBeenCalled();
+
+    storeToken('alice', token, { lastUsedAt: Date.now() - 5 * 60 * 1000 });
+    await verifyApiToken(token);
+    expect(mockDb.saveApiToken).toHaveBeenCalledTimes(1);
+  });
+});
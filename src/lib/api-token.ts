@@ -0,0 +1,143 @@
+/* eslint-disable no-console */
+
+import { createHash, randomBytes } from 'crypto';
+
+import { getConfig } from './config';
+import { db } from './db';
+import { ApiToken, ApiTokenScope } from './types';
+
+// 明文令牌前缀，便于识别和在日志中过滤
+export const API_TOKEN_PREFIX = 'mtv_';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = [
+  'playrecords:read',
+  'favorites:write',
+  'search',
+  'live:read',
+  'admin',
+];
+
+// 每个用户最多可创建的令牌数量
+export const MAX_API_TOKENS_PER_USER = 20;
+
+// lastUsedAt 的最小写入间隔，避免每个请求都写库
+const LAST_USED_WRITE_INTERVAL = 60 * 1000;
+
+export type ApiTokenRole = 'owner' | 'admin' | 'user';
+
+// 返回给前端的令牌信息（不含哈希）
+export type PublicApiToken = Omit<ApiToken, 'tokenHash'>;
+
+export interface VerifiedApiToken {
+  username: string;
+  role: ApiTokenRole;
+  tokenId: string;
+  scopes: ApiTokenScope[];
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+  };
+}
+
+// 解析用户当前角色，用户不存在或被封禁时返回 null
+async function resolveUserRole(username: string): Promise<ApiTokenRole | null> {
+  if (username === process.env.USERNAME) {
+    return 'owner';
+  }
+  const config = await getConfig();
+  const user = config.UserConfig.Users.find((u) => u.username === username);
+  if (!user || user.banned) {
+    return null;
+  }
+  return user.role === 'admin' ? 'admin' : 'user';
+}
+
+export async function createApiToken(
+  username: string,
+  options: { name: string; scopes: ApiTokenScope[]; expiresInDays?: number | null }
+): Promise<{ token: string; record: ApiToken }> {
+  const role = await resolveUserRole(username);
+  if (!role) {
+    throw new Error('用户不存在或已被封禁');
+  }
+  if (options.scopes.includes('admin') && role === 'user') {
+    throw new Error('普通用户不能创建管理权限的令牌');
+  }
+
+  const existing = await db.getApiTokens(username);
+  if (existing.length >= MAX_API_TOKENS_PER_USER) {
+    throw new Error(`最多只能创建 ${MAX_API_TOKENS_PER_USER} 个访问令牌`);
+  }
+
+  const token = `${API_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const now = Date.now();
+  const record: ApiToken = {
+    id: randomBytes(8).toString('hex'),
+    name: options.name,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    scopes: Array.from(new Set(options.scopes)),
+    createdAt: now,
+    expiresAt: options.expiresInDays ? now + options.expiresInDays * 24 * 60 * 60 * 1000 : null,
+    lastUsedAt: null,
+  };
+
+  await db.saveApiToken(username, record);
+  return { token, record };
+}
+
+// 校验明文令牌：检查过期、用户状态，并刷新最后使用时间
+export async function verifyApiToken(token: string): Promise<VerifiedApiToken | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const tokenHash = hashApiToken(token);
+  const username = await db.getApiTokenOwner(tokenHash);
+  if (!username) {
+    return null;
+  }
+
+  const record = (await db.getApiTokens(username)).find((t) => t.tokenHash === tokenHash);
+  if (!record) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (record.expiresAt && record.expiresAt <= now) {
+    return null;
+  }
+
+  const role = await resolveUserRole(username);
+  if (!role) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now - record.lastUsedAt >= LAST_USED_WRITE_INTERVAL) {
+    try {
+      await db.saveApiToken(username, { ...record, lastUsedAt: now });
+    } catch (error) {
+      console.warn('更新访问令牌使用时间失败:', error);
+    }
+  }
+
+  return {
+    username,
+    role,
+    tokenId: record.id,
+    // 用户被降级后，已有令牌的管理权限随之失效
+    scopes: role === 'user' ? record.scopes.filter((s) => s !== 'admin') : record.scopes,
+  };
+}
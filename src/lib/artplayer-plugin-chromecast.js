@@ -153,8 +153,10 @@ export default function artplayerPluginChromecast(option = {}) {
     })
   }
 
-  const castVideo = (art, session) => {
-    const url = option.url || art.option.url
+  const castVideo = async (art, session) => {
+    const rawUrl = option.url || art.option.url
+    // 投屏设备无法运行页面上的去广告逻辑，允许调用方改写为服务器端代理地址（可异步获取）
+    const url = option.resolveUrl ? await option.resolveUrl(rawUrl) : rawUrl
     const mediaInfo = new window.chrome.cast.media.MediaInfo(url, option.mimeType || getMimeType(url))
 
     // Set stream type
@@ -9,6 +9,8 @@ export function getAuthInfoFromCookie(request: NextRequest): {
   loginTime?: number;
   trustedNetwork?: boolean;
   role?: 'owner' | 'admin' | 'user';
+  sessionId?: string; // 服务端登录会话 ID
+  apiTokenId?: string; // 通过 Bearer 访问令牌认证时由 middleware 注入
 } | null {
   // 尝试新的 cookie 名称 user_auth，如果没有则尝试旧的 auth
   const authCookie = request.cookies.get('user_auth') || request.cookies.get('auth');
@@ -35,6 +37,7 @@ export function getAuthInfoFromBrowserCookie(): {
   loginTime?: number;
   trustedNetwork?: boolean;
   role?: 'owner' | 'admin' | 'user';
+  sessionId?: string;
 } | null {
   if (typeof window === 'undefined') {
     return null;
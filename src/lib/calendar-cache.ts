@@ -58,7 +58,7 @@ export class CalendarCacheManager {
         } else {
           throw new Error('Upstash存储没有可用的set方法');
         }
-      } else if (storageType === 'kvrocks' || storageType === 'redis') {
+      } else if (storageType === 'kvrocks' || storageType === 'redis' || storageType === 'sqlite' || storageType === 'postgres') {
         // KVRocks/标准Redis
         if (storage.withRetry && storage.client?.set) {
           await storage.withRetry(() => storage.client.set(CALENDAR_DATA_KEY, dataStr));
@@ -111,7 +111,7 @@ export class CalendarCacheManager {
         } else {
           throw new Error('Upstash存储没有可用的get方法');
         }
-      } else if (storageType === 'kvrocks' || storageType === 'redis') {
+      } else if (storageType === 'kvrocks' || storageType === 'redis' || storageType === 'sqlite' || storageType === 'postgres') {
         // KVRocks/标准Redis
         if (storage.withRetry && storage.client?.get) {
           dataStr = await storage.withRetry(() => storage.client.get(CALENDAR_DATA_KEY));
@@ -189,7 +189,7 @@ export class CalendarCacheManager {
           await storage.del(CALENDAR_DATA_KEY);
           await storage.del(CALENDAR_TIME_KEY);
         }
-      } else if (storageType === 'kvrocks' || storageType === 'redis') {
+      } else if (storageType === 'kvrocks' || storageType === 'redis' || storageType === 'sqlite' || storageType === 'postgres') {
         if (storage.withRetry && storage.client?.del) {
           await storage.withRetry(() => storage.client.del(CALENDAR_DATA_KEY));
           await storage.withRetry(() => storage.client.del(CALENDAR_TIME_KEY));
@@ -227,7 +227,7 @@ export class CalendarCacheManager {
         } else if (storage.get) {
           timeStr = await storage.get(CALENDAR_TIME_KEY);
         }
-      } else if (storageType === 'kvrocks' || storageType === 'redis') {
+      } else if (storageType === 'kvrocks' || storageType === 'redis' || storageType === 'sqlite' || storageType === 'postgres') {
         if (storage.withRetry && storage.client?.get) {
           timeStr = await storage.withRetry(() => storage.client.get(CALENDAR_TIME_KEY));
         } else if (storage.client?.get) {
@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // 智能频道搜索相关的工具函数和类型定义
 
+import { matchPinyin } from './pinyin';
+import { parseCustomTimeFormat } from './time';
+
 // 直播频道接口
 export interface LiveChannel {
   id: string;
@@ -226,6 +229,19 @@ export function searchChannels(channels: AggregatedChannel[], searchQuery: strin
   const query = searchQuery.toLowerCase().trim();
   const normalizedQuery = basicNormalize(query);
 
+  // 拼音匹配结果缓存，排序时复用
+  const pinyinMatched = new Map<string, boolean>();
+  const matchesPinyin = (channel: AggregatedChannel): boolean => {
+    let matched = pinyinMatched.get(channel.id);
+    if (matched === undefined) {
+      matched =
+        !!matchPinyin(channel.displayName, query) ||
+        channel.sources.some((source) => !!matchPinyin(source.channel.name, query));
+      pinyinMatched.set(channel.id, matched);
+    }
+    return matched;
+  };
+
   return channels.filter(channel => {
     // 1. 精确匹配显示名称
     if (channel.displayName.toLowerCase().includes(query)) {
@@ -255,7 +271,10 @@ export function searchChannels(channels: AggregatedChannel[], searchQuery: strin
 
     if (sourceMatch) return true;
 
-    // 5. 相似度匹配（低阈值，用于模糊搜索）
+    // 5. 拼音 / 首字母匹配（遥控器输入 hnws → 湖南卫视）
+    if (matchesPinyin(channel)) return true;
+
+    // 6. 相似度匹配（低阈值，用于模糊搜索）
     const similarity = calculateSimilarity(normalizedDisplayName, normalizedQuery);
     return similarity > 0.3;
   }).sort((a, b) => {
@@ -266,6 +285,12 @@ export function searchChannels(channels: AggregatedChannel[], searchQuery: strin
     if (aExactMatch && !bExactMatch) return -1;
     if (!aExactMatch && bExactMatch) return 1;
     
+    // 其次是拼音命中的频道
+    const aPinyinMatch = matchesPinyin(a);
+    const bPinyinMatch = matchesPinyin(b);
+    if (aPinyinMatch && !bPinyinMatch) return -1;
+    if (!aPinyinMatch && bPinyinMatch) return 1;
+
     // 都是精确匹配或都不是，按源数量和名称排序
     if (a.sources.length !== b.sources.length) {
       return b.sources.length - a.sources.length;
@@ -274,6 +299,97 @@ export function searchChannels(channels: AggregatedChannel[], searchQuery: strin
   });
 }
 
+// 节目搜索结果（节目单中匹配的一档节目）
+export interface ProgramSearchResult {
+  sourceKey: string;
+  sourceName: string;
+  channelId: string;
+  channelName: string;
+  channelLogo: string;
+  title: string;
+  startAt: number;       // 开始时间（毫秒时间戳）
+  endAt: number;         // 结束时间（毫秒时间戳）
+}
+
+// 参与节目搜索的直播源数据
+export interface ProgramSearchSource {
+  sourceKey: string;
+  sourceName: string;
+  channels: LiveChannel[];
+  epgs: { [tvgId: string]: Array<{ start: string; end: string; title: string }> };
+}
+
+/**
+ * 搜索节目单中的节目标题（跨直播源）
+ * @param sources 直播源频道及节目单
+ * @param searchQuery 搜索关键词
+ * @param range 时间范围，只返回与该范围有重叠的节目
+ * @param limit 最多返回条数
+ * @returns 正在播出的排在前面，其余按开始时间排序
+ */
+export function searchEpgPrograms(
+  sources: ProgramSearchSource[],
+  searchQuery: string,
+  range: { from: number; to: number },
+  limit = 200
+): ProgramSearchResult[] {
+  const query = searchQuery.toLowerCase().trim();
+  if (!query) return [];
+  const normalizedQuery = basicNormalize(query);
+
+  const matchesTitle = (title: string) =>
+    title.toLowerCase().includes(query) ||
+    (!!normalizedQuery && basicNormalize(title).includes(normalizedQuery)) ||
+    !!matchPinyin(title, query);
+
+  const results: ProgramSearchResult[] = [];
+  const seen = new Set<string>();
+
+  for (const source of sources) {
+    for (const channel of source.channels) {
+      if (!channel.tvgId) continue;
+      const programs = source.epgs[channel.tvgId];
+      if (!programs?.length) continue;
+
+      for (const program of programs) {
+        if (!program.title || !matchesTitle(program.title)) continue;
+        const startAt = parseCustomTimeFormat(program.start).getTime();
+        const endAt = parseCustomTimeFormat(program.end).getTime();
+        if (isNaN(startAt) || isNaN(endAt)) continue;
+        if (endAt <= range.from || startAt >= range.to) continue;
+
+        // 同一源中多个频道共用 tvg-id 时只保留第一个
+        const key = `${source.sourceKey}|${channel.tvgId}|${startAt}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        results.push({
+          sourceKey: source.sourceKey,
+          sourceName: source.sourceName,
+          channelId: channel.id,
+          channelName: channel.name,
+          channelLogo: channel.logo,
+          title: program.title,
+          startAt,
+          endAt,
+        });
+      }
+    }
+  }
+
+  const now = Date.now();
+  const isLive = (program: ProgramSearchResult) => program.startAt <= now && program.endAt > now;
+  return results
+    .sort((a, b) => {
+      const aLive = isLive(a);
+      const bLive = isLive(b);
+      if (aLive !== bLive) return aLive ? -1 : 1;
+      if (a.startAt !== b.startAt) return a.startAt - b.startAt;
+      return a.channelName.localeCompare(b.channelName, 'zh-CN');
+    })
+    .slice(0, limit);
+}
+
 /**
  * 高亮匹配的文本（返回HTML字符串）
  * @param text 原始文本
@@ -673,7 +673,7 @@ export async function getCacheTime(): Promise<number> {
 }
 
 // Helper function to apply VideoProxyConfig to API sites
-function applyVideoProxy(sites: ApiSite[], config: AdminConfig): ApiSite[] {
+export function applyVideoProxy(sites: ApiSite[], config: AdminConfig): ApiSite[] {
   const proxyConfig = config.VideoProxyConfig;
 
   // If proxy is not enabled, return sites as-is
@@ -762,9 +762,9 @@ export async function getAvailableApiSites(user?: string): Promise<ApiSite[]> {
     }
   }
 
-  // 过滤掉禁用的源，如果未启用成人内容则同时过滤掉成人资源
+  // 过滤掉禁用和被健康检测隔离的源，如果未启用成人内容则同时过滤掉成人资源
   const allApiSites = config.SourceConfig.filter((s) => {
-    if (s.disabled) return false;
+    if (s.disabled || s.quarantined) return false;
     if (!showAdultContent && s.is_adult) return false;
     return true;
   });
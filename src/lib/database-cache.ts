@@ -98,7 +98,7 @@ export class DatabaseCacheManager {
           console.error('❌ Upstash键获取失败:', error);
           return null;
         }
-      } else if (storageType === 'kvrocks' || storageType === 'redis') {
+      } else if (storageType === 'kvrocks' || storageType === 'redis' || storageType === 'sqlite' || storageType === 'postgres') {
         // KVRocks/标准Redis (带重试机制) - 保持不变
         console.log('🔍 使用KVRocks/标准Redis方式获取键...');
         if (typeof storage.withRetry === 'function' && storage.client?.keys) {
@@ -155,7 +155,7 @@ export class DatabaseCacheManager {
           console.error('❌ Upstash批量获取失败:', error);
           return null;
         }
-      } else if (storageType === 'kvrocks' || storageType === 'redis') {
+      } else if (storageType === 'kvrocks' || storageType === 'redis' || storageType === 'sqlite' || storageType === 'postgres') {
         // KVRocks/标准Redis (带重试机制) - 保持不变
         if (typeof storage.withRetry === 'function' && storage.client?.mGet) {
           values = await storage.withRetry(() => storage.client.mGet(allCacheKeys));
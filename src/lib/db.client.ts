@@ -15,7 +15,7 @@
  */
 
 import { getAuthInfoFromBrowserCookie } from './auth';
-import { UserPlayStat, SkipSegment, EpisodeSkipConfig } from './types';
+import { UserPlayStat, SkipSegment, EpisodeSkipConfig, LivePreferences } from './types';
 import type { PlayRecord } from './types';
 import { forceClearWatchingUpdatesCache } from './watching-updates';
 
@@ -49,6 +49,8 @@ export interface Favorite {
   type?: string; // 内容类型（movie/tv/variety/shortdrama等）
   releaseDate?: string; // 上映日期 (YYYY-MM-DD)，用于即将上映内容
   remarks?: string; // 备注信息（如"X天后上映"、"已上映"等）
+  work_id?: string; // 作品 ID（见 work-identity.ts）
+  work_key?: string;
 }
 
 // ---- 缓存数据结构 ----
@@ -91,6 +93,8 @@ const STORAGE_TYPE = (() => {
       | 'redis'
       | 'upstash'
       | 'kvrocks'
+      | 'sqlite'
+      | 'postgres'
       | undefined) ||
     'localstorage';
   return raw;
@@ -2083,6 +2087,47 @@ export async function deleteSkipConfig(
   }
 }
 
+// ---- 直播页个人偏好 ----
+
+/**
+ * 获取直播页个人偏好（置顶分组、频道重命名与排序），本地存储模式或请求失败时返回 null
+ */
+export async function getLivePreferences(): Promise<LivePreferences | null> {
+  if (typeof window === 'undefined' || STORAGE_TYPE === 'localstorage') {
+    return null;
+  }
+  try {
+    const response = await fetch('/api/live/preferences');
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.preferences || null;
+  } catch (err) {
+    console.error('获取直播偏好失败:', err);
+    return null;
+  }
+}
+
+/**
+ * 保存直播页个人偏好，只更新传入的字段；本地存储模式下不做任何事
+ */
+export async function saveLivePreferences(
+  patch: Partial<Omit<LivePreferences, 'updatedAt'>>
+): Promise<LivePreferences | null> {
+  if (typeof window === 'undefined' || STORAGE_TYPE === 'localstorage') {
+    return null;
+  }
+  const response = await fetch('/api/live/preferences', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || '保存直播偏好失败');
+  }
+  return data.preferences || null;
+}
+
 // ---- 豆瓣数据缓存导出函数 ----
 
 /**
@@ -2,47 +2,86 @@
 
 import { AdminConfig } from './admin.types';
 import { KvrocksStorage } from './kvrocks.db';
+import { PostgresStorage } from './postgres.db';
 import { RedisStorage } from './redis.db';
+import { SqliteStorage } from './sqlite.db';
 import {
+  ApiToken,
   ContentStat,
   EpisodeSkipConfig,
   Favorite,
   IStorage,
+  LiveChannelHealthReport,
+  LivePreferences,
+  LiveRecording,
+  LiveReminder,
+  OfflineDownloadJob,
   PlayRecord,
   PlayStatsResult,
+  SearchIndexEntry,
+  SourceHealthState,
+  SourcePlaybackStats,
+  TwoFactorSecret,
   UserPlayStat,
+  UserSession,
 } from './types';
 import { UpstashRedisStorage } from './upstash.db';
 import { incrementDbQuery } from './performance-monitor';
 
-// storage type 常量: 'localstorage' | 'redis' | 'upstash'，默认 'localstorage'
+// storage type 常量: 'localstorage' | 'redis' | 'upstash' | 'kvrocks' | 'sqlite' | 'postgres'，默认 'localstorage'
 const STORAGE_TYPE =
   (process.env.NEXT_PUBLIC_STORAGE_TYPE as
     | 'localstorage'
     | 'redis'
     | 'upstash'
     | 'kvrocks'
+    | 'sqlite'
+    | 'postgres'
     | undefined) || 'localstorage';
 
-// 创建存储实例
-function createStorage(): IStorage {
-  switch (STORAGE_TYPE) {
+// 可持久化的存储后端类型（不含 localstorage）
+export const PERSISTENT_STORAGE_TYPES = [
+  'redis',
+  'upstash',
+  'kvrocks',
+  'sqlite',
+  'postgres',
+] as const;
+export type PersistentStorageType = (typeof PERSISTENT_STORAGE_TYPES)[number];
+
+// 按类型创建存储实例，connection 为空时读取对应的环境变量
+export function createStorageInstance(
+  type: PersistentStorageType,
+  connection?: { url?: string; token?: string }
+): IStorage {
+  switch (type) {
     case 'redis':
-      return new RedisStorage();
+      return new RedisStorage(connection?.url);
     case 'upstash':
-      return new UpstashRedisStorage();
+      return new UpstashRedisStorage(connection?.url, connection?.token);
     case 'kvrocks':
-      return new KvrocksStorage();
-    case 'localstorage':
+      return new KvrocksStorage(connection?.url);
+    case 'sqlite':
+      return new SqliteStorage(connection?.url);
+    case 'postgres':
+      return new PostgresStorage(connection?.url);
     default:
-      return null as unknown as IStorage;
+      throw new Error(`不支持的存储类型: ${type}`);
+  }
+}
+
+// 创建存储实例
+function createStorage(): IStorage {
+  if (!(PERSISTENT_STORAGE_TYPES as readonly string[]).includes(STORAGE_TYPE)) {
+    return null as unknown as IStorage;
   }
+  return createStorageInstance(STORAGE_TYPE as PersistentStorageType);
 }
 
 // 单例存储实例
 let storageInstance: IStorage | null = null;
 
-function getStorage(): IStorage {
+export function getStorage(): IStorage {
   if (!storageInstance) {
     storageInstance = createStorage();
   }
@@ -413,6 +452,318 @@ export class DbManager {
     return {};
   }
 
+  // ---------- 个人访问令牌 ----------
+  async getApiTokens(userName: string): Promise<ApiToken[]> {
+    incrementDbQuery();
+    if (typeof this.storage.getApiTokens === 'function') {
+      return this.storage.getApiTokens(userName);
+    }
+    return [];
+  }
+
+  async saveApiToken(userName: string, token: ApiToken): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setApiToken !== 'function') {
+      throw new Error('当前存储类型不支持访问令牌');
+    }
+    await this.storage.setApiToken(userName, token);
+  }
+
+  async deleteApiToken(userName: string, tokenId: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteApiToken === 'function') {
+      await this.storage.deleteApiToken(userName, tokenId);
+    }
+  }
+
+  async getApiTokenOwner(tokenHash: string): Promise<string | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getApiTokenOwner === 'function') {
+      return this.storage.getApiTokenOwner(tokenHash);
+    }
+    return null;
+  }
+
+  // ---------- 登录会话 ----------
+  supportsUserSessions(): boolean {
+    return !!this.storage && typeof this.storage.setUserSession === 'function';
+  }
+
+  async getUserSessions(userName: string): Promise<UserSession[]> {
+    incrementDbQuery();
+    if (typeof this.storage.getUserSessions === 'function') {
+      return this.storage.getUserSessions(userName);
+    }
+    return [];
+  }
+
+  async getUserSession(userName: string, sessionId: string): Promise<UserSession | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getUserSession === 'function') {
+      return this.storage.getUserSession(userName, sessionId);
+    }
+    return null;
+  }
+
+  async saveUserSession(userName: string, session: UserSession): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setUserSession === 'function') {
+      await this.storage.setUserSession(userName, session);
+    }
+  }
+
+  async deleteUserSession(userName: string, sessionId: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteUserSession === 'function') {
+      await this.storage.deleteUserSession(userName, sessionId);
+    }
+  }
+
+  async deleteAllUserSessions(userName: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteAllUserSessions === 'function') {
+      await this.storage.deleteAllUserSessions(userName);
+    }
+  }
+
+  // ---------- 双重验证 ----------
+  async getTwoFactor(userName: string): Promise<TwoFactorSecret | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getTwoFactor === 'function') {
+      return this.storage.getTwoFactor(userName);
+    }
+    return null;
+  }
+
+  async saveTwoFactor(userName: string, data: TwoFactorSecret): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setTwoFactor !== 'function') {
+      throw new Error('当前存储类型不支持双重验证');
+    }
+    await this.storage.setTwoFactor(userName, data);
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteTwoFactor === 'function') {
+      await this.storage.deleteTwoFactor(userName);
+    }
+  }
+
+  // ---------- 直播页个人偏好 ----------
+  async getLivePreferences(userName: string): Promise<LivePreferences | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getLivePreferences === 'function') {
+      return this.storage.getLivePreferences(userName);
+    }
+    return null;
+  }
+
+  async saveLivePreferences(userName: string, prefs: LivePreferences): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setLivePreferences !== 'function') {
+      throw new Error('当前存储类型不支持保存直播偏好');
+    }
+    await this.storage.setLivePreferences(userName, prefs);
+  }
+
+  // ---------- 视频源健康状态 ----------
+  async getAllSourceHealth(): Promise<Record<string, SourceHealthState>> {
+    incrementDbQuery();
+    if (typeof this.storage.getAllSourceHealth === 'function') {
+      return this.storage.getAllSourceHealth();
+    }
+    return {};
+  }
+
+  async saveSourceHealth(sourceKey: string, state: SourceHealthState): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setSourceHealth === 'function') {
+      await this.storage.setSourceHealth(sourceKey, state);
+    }
+  }
+
+  async deleteSourceHealth(sourceKey: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteSourceHealth === 'function') {
+      await this.storage.deleteSourceHealth(sourceKey);
+    }
+  }
+
+  // ---------- 直播频道健康状态 ----------
+  async getLiveChannelHealth(sourceKey: string): Promise<LiveChannelHealthReport | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getLiveChannelHealth === 'function') {
+      return this.storage.getLiveChannelHealth(sourceKey);
+    }
+    return null;
+  }
+
+  async getAllLiveChannelHealth(): Promise<Record<string, LiveChannelHealthReport>> {
+    incrementDbQuery();
+    if (typeof this.storage.getAllLiveChannelHealth === 'function') {
+      return this.storage.getAllLiveChannelHealth();
+    }
+    return {};
+  }
+
+  async saveLiveChannelHealth(sourceKey: string, report: LiveChannelHealthReport): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setLiveChannelHealth === 'function') {
+      await this.storage.setLiveChannelHealth(sourceKey, report);
+    }
+  }
+
+  async deleteLiveChannelHealth(sourceKey: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteLiveChannelHealth === 'function') {
+      await this.storage.deleteLiveChannelHealth(sourceKey);
+    }
+  }
+
+  // ---------- 直播录制任务 ----------
+  async getLiveRecording(recordingId: string): Promise<LiveRecording | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getLiveRecording === 'function') {
+      return this.storage.getLiveRecording(recordingId);
+    }
+    return null;
+  }
+
+  async getAllLiveRecordings(): Promise<Record<string, LiveRecording>> {
+    incrementDbQuery();
+    if (typeof this.storage.getAllLiveRecordings === 'function') {
+      return this.storage.getAllLiveRecordings();
+    }
+    return {};
+  }
+
+  async saveLiveRecording(recording: LiveRecording): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setLiveRecording !== 'function') {
+      throw new Error('当前存储类型不支持直播录制');
+    }
+    await this.storage.setLiveRecording(recording.id, recording);
+  }
+
+  async deleteLiveRecording(recordingId: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteLiveRecording === 'function') {
+      await this.storage.deleteLiveRecording(recordingId);
+    }
+  }
+
+  // ---------- 服务器离线下载 ----------
+  async getOfflineDownload(jobId: string): Promise<OfflineDownloadJob | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getOfflineDownload === 'function') {
+      return this.storage.getOfflineDownload(jobId);
+    }
+    return null;
+  }
+
+  async getAllOfflineDownloads(): Promise<Record<string, OfflineDownloadJob>> {
+    incrementDbQuery();
+    if (typeof this.storage.getAllOfflineDownloads === 'function') {
+      return this.storage.getAllOfflineDownloads();
+    }
+    return {};
+  }
+
+  async saveOfflineDownload(job: OfflineDownloadJob): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setOfflineDownload !== 'function') {
+      throw new Error('当前存储类型不支持服务器离线下载');
+    }
+    await this.storage.setOfflineDownload(job.id, job);
+  }
+
+  async deleteOfflineDownload(jobId: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteOfflineDownload === 'function') {
+      await this.storage.deleteOfflineDownload(jobId);
+    }
+  }
+
+  // ---------- 节目提醒 ----------
+  async getLiveReminder(reminderId: string): Promise<LiveReminder | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getLiveReminder === 'function') {
+      return this.storage.getLiveReminder(reminderId);
+    }
+    return null;
+  }
+
+  async getAllLiveReminders(): Promise<Record<string, LiveReminder>> {
+    incrementDbQuery();
+    if (typeof this.storage.getAllLiveReminders === 'function') {
+      return this.storage.getAllLiveReminders();
+    }
+    return {};
+  }
+
+  async saveLiveReminder(reminder: LiveReminder): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setLiveReminder !== 'function') {
+      throw new Error('当前存储类型不支持节目提醒');
+    }
+    await this.storage.setLiveReminder(reminder.id, reminder);
+  }
+
+  async deleteLiveReminder(reminderId: string): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteLiveReminder === 'function') {
+      await this.storage.deleteLiveReminder(reminderId);
+    }
+  }
+
+  // ---------- 播放效果统计 ----------
+  async getSourcePlaybackStats(statsKey: string): Promise<SourcePlaybackStats | null> {
+    incrementDbQuery();
+    if (typeof this.storage.getSourcePlaybackStats === 'function') {
+      return this.storage.getSourcePlaybackStats(statsKey);
+    }
+    return null;
+  }
+
+  async getAllSourcePlaybackStats(): Promise<Record<string, SourcePlaybackStats>> {
+    incrementDbQuery();
+    if (typeof this.storage.getAllSourcePlaybackStats === 'function') {
+      return this.storage.getAllSourcePlaybackStats();
+    }
+    return {};
+  }
+
+  async saveSourcePlaybackStats(statsKey: string, stats: SourcePlaybackStats): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setSourcePlaybackStats === 'function') {
+      await this.storage.setSourcePlaybackStats(statsKey, stats);
+    }
+  }
+
+  // ---------- 本地搜索索引 ----------
+  async getSearchIndexEntries(): Promise<Record<string, SearchIndexEntry>> {
+    incrementDbQuery();
+    if (typeof this.storage.getSearchIndexEntries === 'function') {
+      return this.storage.getSearchIndexEntries();
+    }
+    return {};
+  }
+
+  async saveSearchIndexEntries(entries: Record<string, SearchIndexEntry>): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.setSearchIndexEntries === 'function') {
+      await this.storage.setSearchIndexEntries(entries);
+    }
+  }
+
+  async deleteSearchIndexEntries(keys: string[]): Promise<void> {
+    incrementDbQuery();
+    if (typeof this.storage.deleteSearchIndexEntries === 'function') {
+      await this.storage.deleteSearchIndexEntries(keys);
+    }
+  }
+
   // ---------- 数据清理 ----------
   async clearAllData(): Promise<void> {
     incrementDbQuery();
@@ -539,7 +890,10 @@ export class DbManager {
   // 删除 V1 用户密码数据（用于 V1→V2 迁移）
   async deleteV1Password(userName: string): Promise<void> {
     incrementDbQuery();
-    if (typeof (this.storage as any).client !== 'undefined') {
+    if (typeof (this.storage as any).deleteV1Password === 'function') {
+      // SQL 存储的 V1 密码保存在 users 表中
+      await (this.storage as any).deleteV1Password(userName);
+    } else if (typeof (this.storage as any).client !== 'undefined') {
       await (this.storage as any).client.del(`u:${userName}:pwd`);
     }
   }
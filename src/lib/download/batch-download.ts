@@ -0,0 +1,237 @@
+/* eslint-disable no-console */
+/**
+ * 批量剧集下载
+ * 文件命名模板、字幕打包，以及 ZIP / 文件夹两种输出方式
+ */
+
+import {
+  createAdaptiveWriteStream,
+  createDirectoryFileStream,
+  pickDownloadDirectory,
+} from './stream-saver-fallback';
+import { ZipWriter } from './zip-writer';
+
+export const DEFAULT_EPISODE_NAME_TEMPLATE = '{title} S{season}E{ep} [{source}]';
+
+/**
+ * files：每集单独保存（沿用下载设置中的保存方式）
+ * zip：打包为一个 ZIP
+ * folder：写入用户选择的文件夹
+ */
+export type BatchOutputMode = 'files' | 'zip' | 'folder';
+
+export interface BatchSubtitle {
+  url: string;
+  language?: string;
+  label?: string;
+}
+
+export interface BatchDownloadItem {
+  url: string;
+  /** 集数（1 开始） */
+  episode: number;
+  episodeTitle?: string;
+  subtitles?: BatchSubtitle[];
+}
+
+export interface BatchDownloadOptions {
+  title: string;
+  /** 来源名称，用于 {source} */
+  source: string;
+  /** 不传时从标题中识别，识别不到为第 1 季 */
+  season?: number;
+  output: BatchOutputMode;
+  includeSubtitles: boolean;
+}
+
+export interface EpisodeNameVars {
+  title: string;
+  season: number;
+  episode: number;
+  source: string;
+  episodeTitle?: string;
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+};
+
+function parseChineseNumber(text: string): number {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  // 只需要处理到几十季：十、十二、二十、二十三
+  const [tens, ones] = text.split('十');
+  if (ones === undefined) return CHINESE_DIGITS[text] || 0;
+  return (tens ? CHINESE_DIGITS[tens] || 0 : 1) * 10 + (ones ? CHINESE_DIGITS[ones] || 0 : 0);
+}
+
+/**
+ * 从标题中识别季数：第二季、第2季、Season 2、S02
+ */
+export function detectSeasonNumber(title: string): number {
+  const match =
+    title.match(/第\s*([\d一二三四五六七八九十]+)\s*[季部]/) ||
+    title.match(/season\s*(\d+)/i) ||
+    title.match(/\bS(\d{1,2})\b/);
+  const season = match ? parseChineseNumber(match[1]) : 0;
+  return season > 0 ? season : 1;
+}
+
+/**
+ * 去掉文件系统不允许的字符
+ */
+export function sanitizeFilename(name: string): string {
+  return name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, 200) || 'video';
+}
+
+/**
+ * 按模板生成文件名（不含扩展名）
+ * 支持 {title} {season} {ep} {source} {name}，季和集补零到 padWidth 位
+ */
+export function formatEpisodeFilename(template: string, vars: EpisodeNameVars, padWidth = 2): string {
+  const values: Record<string, string> = {
+    title: vars.title,
+    season: String(vars.season).padStart(2, '0'),
+    ep: String(vars.episode).padStart(padWidth, '0'),
+    source: vars.source,
+    name: vars.episodeTitle || `第${vars.episode}集`,
+  };
+  const name = (template.trim() || DEFAULT_EPISODE_NAME_TEMPLATE).replace(
+    /\{(\w+)\}/g,
+    (placeholder, key: string) => (key in values ? values[key] : placeholder)
+  );
+  // 来源为空时去掉残留的空括号
+  return sanitizeFilename(name.replace(/\[\s*\]|\(\s*\)/g, ''));
+}
+
+/**
+ * 批量下载的输出目标
+ */
+export interface BatchOutputTarget {
+  createFile(filename: string): Promise<WritableStream<Uint8Array>>;
+  writeFile(filename: string, data: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(reason?: unknown): Promise<void>;
+}
+
+/**
+ * 打开 ZIP 或文件夹输出，用户取消时返回 null
+ * 文件选择器需要用户手势，必须在点击后尽早调用，不要放在解析 m3u8 之后
+ */
+export async function createBatchOutputTarget(
+  mode: Exclude<BatchOutputMode, 'files'>,
+  archiveName: string
+): Promise<BatchOutputTarget | null> {
+  if (mode === 'folder') {
+    const directory = await pickDownloadDirectory();
+    if (!directory) return null;
+    return {
+      createFile: (filename) => createDirectoryFileStream(directory, filename),
+      writeFile: async (filename, data) => {
+        const writer = (await createDirectoryFileStream(directory, filename)).getWriter();
+        await writer.write(data);
+        await writer.close();
+      },
+      close: async () => undefined,
+      abort: async () => undefined,
+    };
+  }
+
+  const filename = `${sanitizeFilename(archiveName)}.zip`;
+  let stream: WritableStream<Uint8Array>;
+  try {
+    stream = await createAdaptiveWriteStream(filename);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'USE_SERVICE_WORKER') {
+      const { createWriteStream } = await import('./stream-saver');
+      stream = createWriteStream(filename);
+    } else if (error instanceof Error && error.message === '用户取消下载') {
+      return null;
+    } else {
+      throw error;
+    }
+  }
+
+  const zip = new ZipWriter(stream);
+  return {
+    createFile: async (name) => zip.addEntry(name),
+    writeFile: (name, data) => zip.addFile(name, data),
+    close: () => zip.close(),
+    abort: (reason) => zip.abort(reason),
+  };
+}
+
+/**
+ * 字幕扩展名：按 URL 判断，识别不到时按 vtt 处理
+ */
+function getSubtitleExtension(url: string): string {
+  const match = url.match(/\.(vtt|srt|ass|ssa)(?:$|[?#])/i);
+  return match ? match[1].toLowerCase() : 'vtt';
+}
+
+/**
+ * 生成与视频同名的字幕文件名，例如 "xxx S01E01.chi.vtt"，同语言重复时追加序号
+ */
+export function getSubtitleFilename(
+  baseName: string,
+  subtitle: BatchSubtitle,
+  used: Set<string>
+): string {
+  const language = sanitizeFilename(subtitle.language || 'und').replace(/\s/g, '_');
+  let filename = `${baseName}.${language}.${getSubtitleExtension(subtitle.url)}`;
+  for (let i = 2; used.has(filename); i++) {
+    filename = `${baseName}.${language}${i}.${getSubtitleExtension(subtitle.url)}`;
+  }
+  used.add(filename);
+  return filename;
+}
+
+function saveBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
+
+/**
+ * 下载一集的全部字幕，写入输出目标；没有输出目标时逐个触发浏览器下载
+ * 字幕失败不影响视频，返回成功保存的数量
+ */
+export async function saveEpisodeSubtitles(
+  subtitles: BatchSubtitle[],
+  baseName: string,
+  target: BatchOutputTarget | null
+): Promise<number> {
+  const used = new Set<string>();
+  let saved = 0;
+  for (const subtitle of subtitles) {
+    if (!subtitle?.url) continue;
+    try {
+      const response = await fetch(subtitle.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = new Uint8Array(await response.arrayBuffer());
+      const filename = getSubtitleFilename(baseName, subtitle, used);
+      if (target) {
+        await target.writeFile(filename, data);
+      } else {
+        saveBlob(new Blob([data], { type: 'text/plain' }), filename);
+      }
+      saved++;
+    } catch (error) {
+      console.warn(`字幕下载失败（${subtitle.label || subtitle.language || subtitle.url}）:`, error);
+    }
+  }
+  return saved;
+}
@@ -18,6 +18,19 @@ export {
   applyURL,
 } from './m3u8-downloader';
 
+// 批量下载：命名模板、字幕、ZIP / 文件夹输出
+export type {
+  BatchDownloadItem,
+  BatchDownloadOptions,
+  BatchOutputMode,
+  BatchSubtitle,
+} from './batch-download';
+export {
+  DEFAULT_EPISODE_NAME_TEMPLATE,
+  detectSeasonNumber,
+  formatEpisodeFilename,
+} from './batch-download';
+
 // 从检测器导出
 export type { StreamModeSupport } from './stream-mode-detector';
 export {
@@ -152,17 +152,26 @@ function extractSubPlaylistUrl(m3u8Content: string, baseUrl: string): string | n
   return playlists[0].url;
 }
 
+async function fetchPlaylistText(url: string): Promise<string> {
+  const response = await fetch(url);
+  return response.text();
+}
+
 /**
  * 解析M3U8文件（支持主播放列表自动解析）
+ * fetchText 用于获取播放列表内容，服务端调用时可传入带超时和 User-Agent 的实现
  */
-export async function parseM3U8(url: string, depth = 0): Promise<M3U8Task> {
+export async function parseM3U8(
+  url: string,
+  fetchText: (url: string) => Promise<string> = fetchPlaylistText,
+  depth = 0
+): Promise<M3U8Task> {
   // 防止无限递归
   if (depth > 5) {
     throw new Error('M3U8 解析层级过深，可能存在循环引用');
   }
 
-  const response = await fetch(url);
-  const m3u8Str = await response.text();
+  const m3u8Str = await fetchText(url);
 
   if (m3u8Str.substring(0, 7).toUpperCase() !== '#EXTM3U') {
     throw new Error('无效的 m3u8 链接');
@@ -177,7 +186,7 @@ export async function parseM3U8(url: string, depth = 0): Promise<M3U8Task> {
     }
     
     // 递归解析子播放列表
-    return parseM3U8(subPlaylistUrl, depth + 1);
+    return parseM3U8(subPlaylistUrl, fetchText, depth + 1);
   }
 
   const task: M3U8Task = {
@@ -373,7 +382,8 @@ export async function downloadM3U8Video(
   concurrency = 6, // 默认6个并发
   streamMode: StreamSaverMode = 'disabled', // 边下边存模式
   maxRetries = 3, // 最大重试次数
-  completeStreamRef?: { current: (() => Promise<void>) | null } // 完成流函数引用（用于边下边存模式立即保存）
+  completeStreamRef?: { current: (() => Promise<void>) | null }, // 完成流函数引用（用于边下边存模式立即保存）
+  outputStream?: WritableStream<Uint8Array> // 指定输出流（批量下载写入 ZIP 或文件夹时使用），优先于 streamMode
 ): Promise<void> {
   const { startSegment, endSegment } = task.rangeDownload;
   const totalSegments = endSegment - startSegment + 1;
@@ -392,7 +402,7 @@ export async function downloadM3U8Video(
   // 写入锁：确保写入操作的串行化，避免多线程并发写入导致数据丢失
   let writeLock: Promise<void> = Promise.resolve();
   
-  if (streamMode !== 'disabled') {
+  if (outputStream || streamMode !== 'disabled') {
     try {
       // 移除标题中已有的视频扩展名，避免重复
       const cleanTitle = task.title.replace(/\.(mp4|ts|m3u8)$/i, '');
@@ -407,7 +417,9 @@ export async function downloadM3U8Video(
       let stream: WritableStream<Uint8Array> | null = null;
 
       // 根据用户选择的模式创建写入流
-      if (streamMode === 'service-worker') {
+      if (outputStream) {
+        stream = outputStream;
+      } else if (streamMode === 'service-worker') {
         // 使用 Service Worker 模式
         const { createWriteStream } = await import('./stream-saver');
         stream = createWriteStream(filename);
@@ -509,7 +521,7 @@ export async function downloadM3U8Video(
   };
 
   // 如果提供了完成流函数引用，设置完成流的函数（需要在 completedCount 和 writer 初始化后设置）
-  if (completeStreamRef && streamMode !== 'disabled' && writer) {
+  if (completeStreamRef && writer) {
     completeStreamRef.current = async () => {
       if (!writer) return;
 
@@ -669,7 +681,7 @@ export async function downloadM3U8Video(
       console.error(`片段 ${index + 1} 下载失败（已重试 ${maxRetries} 次）:`, error);
       
       // 边下边存模式下，失败的片段标记为 'failed' 并加入队列
-      if (streamMode !== 'disabled' && writer) {
+      if (writer) {
         // 标记为失败，以便按顺序跳过
         pendingWrites.set(index, 'failed');
 
@@ -16,6 +16,63 @@ export function supportsFileSystemAccess(): boolean {
   );
 }
 
+function wrapFileSystemWritable(writable: any): WritableStream<Uint8Array> {
+  return new WritableStream({
+    async write(chunk: Uint8Array) {
+      await writable.write(chunk);
+    },
+    async close() {
+      await writable.close();
+    },
+    async abort(reason: any) {
+      await writable.abort(reason);
+    },
+  });
+}
+
+/**
+ * 检查是否支持选择文件夹（showDirectoryPicker）
+ */
+export function supportsDirectoryAccess(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'showDirectoryPicker' in window &&
+    typeof (window as any).showDirectoryPicker === 'function'
+  );
+}
+
+/**
+ * 请求用户选择一个文件夹，用于批量下载时把多个文件直接写进去
+ * 用户取消或不支持时返回 null
+ */
+export async function pickDownloadDirectory(): Promise<any | null> {
+  if (!supportsDirectoryAccess()) {
+    return null;
+  }
+
+  try {
+    return await (window as any).showDirectoryPicker({ mode: 'readwrite' });
+  } catch (err: any) {
+    if (err.name === 'AbortError') {
+      console.log('用户取消了文件夹选择');
+      return null;
+    }
+    console.error('选择文件夹失败:', err);
+    return null;
+  }
+}
+
+/**
+ * 在已选择的文件夹中创建（或覆盖）文件并返回写入流
+ */
+export async function createDirectoryFileStream(
+  directoryHandle: any,
+  filename: string
+): Promise<WritableStream<Uint8Array>> {
+  const fileHandle = await directoryHandle.getFileHandle(filename, { create: true });
+  return wrapFileSystemWritable(await fileHandle.createWritable());
+}
+
 /**
  * 使用 File System Access API 创建写入流
  */
@@ -34,31 +91,21 @@ export async function createFileSystemWriteStream(
     else if (filename.toLowerCase().endsWith('.ts')) acceptExt = '.ts';
     const options: any = {
       suggestedName: filename,
-      types: [
-        {
-          description: 'Video files',
-          accept: {
-            'video/*': [acceptExt],
+      types: filename.toLowerCase().endsWith('.zip')
+        ? [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+        : [
+          {
+            description: 'Video files',
+            accept: {
+              'video/*': [acceptExt],
+            },
           },
-        },
-      ],
+        ],
     };
 
     // 请求用户选择保存位置
     const fileHandle = await (window as any).showSaveFilePicker(options);
-    const writable = await fileHandle.createWritable();
-
-    return new WritableStream({
-      async write(chunk: Uint8Array) {
-        await writable.write(chunk);
-      },
-      async close() {
-        await writable.close();
-      },
-      async abort(reason: any) {
-        await writable.abort(reason);
-      },
-    });
+    return wrapFileSystemWritable(await fileHandle.createWritable());
   } catch (err: any) {
     if (err.name === 'AbortError') {
       console.log('用户取消了文件保存');
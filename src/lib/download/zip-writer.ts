@@ -0,0 +1,286 @@
+/**
+ * 流式 ZIP 打包
+ * 视频本身已经压缩，这里只做存储（STORE）不再压缩，边下边写，不占用额外内存
+ * 使用数据描述符 + ZIP64，单个文件或整个压缩包超过 4GB 也能正常解压
+ */
+
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  let c = crc ^ MAX_UINT32;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_UINT32) >>> 0;
+}
+
+/**
+ * 按字段顺序拼二进制结构，数字一律小端序
+ */
+class ByteBuilder {
+  private parts: Array<[number, number]> = [];
+  private extra: Uint8Array[] = [];
+  private size = 0;
+
+  u16(value: number): this {
+    this.parts.push([2, value]);
+    this.size += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.parts.push([4, value]);
+    this.size += 4;
+    return this;
+  }
+
+  // JS 数字在 2^53 内是精确的，足够表示文件大小和偏移
+  u64(value: number): this {
+    return this.u32(value % 0x100000000).u32(Math.floor(value / 0x100000000));
+  }
+
+  bytes(data: Uint8Array): this {
+    this.parts.push([-1, this.extra.length]);
+    this.extra.push(data);
+    this.size += data.length;
+    return this;
+  }
+
+  build(): Uint8Array {
+    const out = new Uint8Array(this.size);
+    const view = new DataView(out.buffer);
+    let offset = 0;
+    for (const [kind, value] of this.parts) {
+      if (kind === 2) {
+        view.setUint16(offset, value, true);
+        offset += 2;
+      } else if (kind === 4) {
+        view.setUint32(offset, value >>> 0, true);
+        offset += 4;
+      } else {
+        const data = this.extra[value];
+        out.set(data, offset);
+        offset += data.length;
+      }
+    }
+    return out;
+  }
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntryRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+// bit 3：大小和 CRC 写在数据后面的描述符里；bit 11：文件名为 UTF-8
+const ENTRY_FLAGS = 0x0808;
+const ZIP64_VERSION = 45;
+// 标记为 Unix 创建：部分解压工具只有这样才按 UTF-8 解析中央目录里的文件名
+const VERSION_MADE_BY = (3 << 8) | ZIP64_VERSION;
+const FILE_MODE = (0o100644 << 16) >>> 0;
+
+export class ZipWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private offset = 0;
+  private entries: ZipEntryRecord[] = [];
+  private entryOpen = false;
+  private closed = false;
+
+  constructor(stream: WritableStream<Uint8Array>) {
+    this.writer = stream.getWriter();
+  }
+
+  private async write(data: Uint8Array): Promise<void> {
+    await this.writer.write(data);
+    this.offset += data.length;
+  }
+
+  /**
+   * 新建一个文件条目，返回该文件的写入流；同一时间只能写一个文件，关闭后才能写下一个
+   * 写入流被中止时仍会补上描述符，保证压缩包结构完整（该文件内容不完整）
+   */
+  addEntry(name: string): WritableStream<Uint8Array> {
+    if (this.closed) {
+      throw new Error('压缩包已关闭');
+    }
+    if (this.entryOpen) {
+      throw new Error('上一个文件尚未写入完成');
+    }
+    this.entryOpen = true;
+
+    const { time, date } = toDosDateTime(new Date());
+    const record: ZipEntryRecord = {
+      name: new TextEncoder().encode(name),
+      crc: 0,
+      size: 0,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    let headerWritten: Promise<void> | null = null;
+    const ensureHeader = () => {
+      if (!headerWritten) {
+        // 大小未知，本地头里用 0xFFFFFFFF 占位并附带 ZIP64 扩展，描述符使用 8 字节大小
+        const header = new ByteBuilder()
+          .u32(0x04034b50)
+          .u16(ZIP64_VERSION)
+          .u16(ENTRY_FLAGS)
+          .u16(0) // STORE
+          .u16(time)
+          .u16(date)
+          .u32(0)
+          .u32(MAX_UINT32)
+          .u32(MAX_UINT32)
+          .u16(record.name.length)
+          .u16(20)
+          .bytes(record.name)
+          .u16(0x0001)
+          .u16(16)
+          .u64(0)
+          .u64(0)
+          .build();
+        headerWritten = this.write(header);
+      }
+      return headerWritten;
+    };
+
+    const finish = async () => {
+      await ensureHeader();
+      const descriptor = new ByteBuilder()
+        .u32(0x08074b50)
+        .u32(record.crc)
+        .u64(record.size)
+        .u64(record.size)
+        .build();
+      await this.write(descriptor);
+      this.entries.push(record);
+      this.entryOpen = false;
+    };
+
+    return new WritableStream<Uint8Array>({
+      write: async (chunk) => {
+        await ensureHeader();
+        record.crc = updateCrc32(record.crc, chunk);
+        record.size += chunk.length;
+        await this.write(chunk);
+      },
+      close: finish,
+      abort: finish,
+    });
+  }
+
+  /**
+   * 写入一个完整的小文件（如字幕）
+   */
+  async addFile(name: string, data: Uint8Array): Promise<void> {
+    const writer = this.addEntry(name).getWriter();
+    await writer.write(data);
+    await writer.close();
+  }
+
+  /**
+   * 写入中央目录并关闭输出流
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    if (this.entryOpen) {
+      throw new Error('还有文件尚未写入完成');
+    }
+    this.closed = true;
+
+    const centralStart = this.offset;
+    for (const entry of this.entries) {
+      const needsZip64 = entry.size >= MAX_UINT32 || entry.offset >= MAX_UINT32;
+      const header = new ByteBuilder()
+        .u32(0x02014b50)
+        .u16(VERSION_MADE_BY)
+        .u16(ZIP64_VERSION)
+        .u16(ENTRY_FLAGS)
+        .u16(0)
+        .u16(entry.time)
+        .u16(entry.date)
+        .u32(entry.crc)
+        .u32(needsZip64 ? MAX_UINT32 : entry.size)
+        .u32(needsZip64 ? MAX_UINT32 : entry.size)
+        .u16(entry.name.length)
+        .u16(needsZip64 ? 28 : 0)
+        .u16(0)
+        .u16(0)
+        .u16(0)
+        .u32(FILE_MODE)
+        .u32(needsZip64 ? MAX_UINT32 : entry.offset)
+        .bytes(entry.name);
+      if (needsZip64) {
+        header.u16(0x0001).u16(24).u64(entry.size).u64(entry.size).u64(entry.offset);
+      }
+      await this.write(header.build());
+    }
+    const centralSize = this.offset - centralStart;
+
+    const needsZip64End =
+      this.entries.length >= MAX_UINT16 || centralStart >= MAX_UINT32 || centralSize >= MAX_UINT32;
+    if (needsZip64End) {
+      const zip64EndOffset = this.offset;
+      const zip64End = new ByteBuilder()
+        .u32(0x06064b50)
+        .u64(44)
+        .u16(ZIP64_VERSION)
+        .u16(ZIP64_VERSION)
+        .u32(0)
+        .u32(0)
+        .u64(this.entries.length)
+        .u64(this.entries.length)
+        .u64(centralSize)
+        .u64(centralStart)
+        .u32(0x07064b50) // ZIP64 结束目录定位符
+        .u32(0)
+        .u64(zip64EndOffset)
+        .u32(1)
+        .build();
+      await this.write(zip64End);
+    }
+
+    const end = new ByteBuilder()
+      .u32(0x06054b50)
+      .u16(0)
+      .u16(0)
+      .u16(Math.min(this.entries.length, MAX_UINT16))
+      .u16(Math.min(this.entries.length, MAX_UINT16))
+      .u32(needsZip64End ? MAX_UINT32 : centralSize)
+      .u32(needsZip64End ? MAX_UINT32 : centralStart)
+      .u16(0)
+      .build();
+    await this.write(end);
+    await this.writer.close();
+  }
+
+  async abort(reason?: unknown): Promise<void> {
+    this.closed = true;
+    await this.writer.abort(reason);
+  }
+}
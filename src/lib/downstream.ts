@@ -1,15 +1,26 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { API_CONFIG, ApiSite, getConfig } from '@/lib/config';
+import { isPinyinQuery } from '@/lib/pinyin';
 import { getCachedSearchPage, setCachedSearchPage } from '@/lib/search-cache';
+import { indexSearchResults } from '@/lib/search-index';
 import { SearchResult } from '@/lib/types';
 import { cleanHtmlTags } from '@/lib/utils';
+import { getWorkIdentity } from '@/lib/work-identity';
 // 使用轻量级 switch-chinese 库（93.8KB vs opencc-js 5.6MB）
 import stcasc, { ChineseType } from 'switch-chinese';
 
 // 创建模块级别的繁简转换器实例
 const converter = stcasc();
 
+// 附加跨源作品身份，标题在服务端统一为简体后再规范化
+function withWorkIdentity(result: SearchResult): SearchResult {
+  return {
+    ...result,
+    ...getWorkIdentity(result, (text) => converter.simplized(text)),
+  };
+}
+
 interface ApiSearchItem {
   vod_id: string;
   vod_name: string;
@@ -20,6 +31,7 @@ interface ApiSearchItem {
   vod_year?: string;
   vod_content?: string;
   vod_douban_id?: number;
+  vod_area?: string;
   type_name?: string;
 }
 
@@ -119,17 +131,22 @@ async function searchWithCache(
           : 'unknown',
         desc: cleanHtmlTags(item.vod_content || ''),
         type_name: item.type_name,
+        area: item.vod_area,
         douban_id: item.vod_douban_id,
         remarks: item.vod_remarks, // 传递备注信息（如"已完结"等）
       };
     });
 
     // 过滤掉集数为 0 的结果
-    const results = allResults.filter((result: SearchResult) => result.episodes.length > 0);
+    const results = allResults
+      .filter((result: SearchResult) => result.episodes.length > 0)
+      .map(withWorkIdentity);
 
     const pageCount = page === 1 ? data.pagecount || 1 : undefined;
     // 写入缓存（成功）
     setCachedSearchPage(apiSite.key, query, page, 'ok', results, pageCount);
+    // 收录到本地搜索索引（不阻塞搜索）
+    indexSearchResults(results).catch((error) => console.error('更新本地搜索索引失败:', error));
     return { results, pageCount };
   } catch (error: any) {
     clearTimeout(timeoutId);
@@ -398,13 +415,23 @@ function generateNumberVariant(query: string): string | null {
  * - 数字查询（第X季/末尾数字）：返回 [原始, 数字变体]
  * - 标点查询（中文冒号等）：返回 [原始, 标点变体]
  * - 空格查询（多词搜索）：返回 [原始, 去空格变体]
+ * - 拼音查询（xyj / xiyouji）：返回本地索引映射出的真实标题，上游源大多不支持拼音搜索
  *
  * @param originalQuery 原始查询
+ * @param pinyinTitles 拼音查询对应的真实标题（由 resolvePinyinTitles 预先解析）
  * @returns 按优先级排序的搜索变体数组（最多2个）
  */
-export function generateSearchVariants(originalQuery: string): string[] {
+export function generateSearchVariants(
+  originalQuery: string,
+  pinyinTitles: string[] = []
+): string[] {
   const trimmed = originalQuery.trim();
 
+  // 0. 拼音 / 首字母：用真实标题搜索（第一个变体也用于后续分页），只映射出一个标题时保留原始输入兜底
+  if (pinyinTitles.length > 0 && isPinyinQuery(trimmed)) {
+    return pinyinTitles.length >= 2 ? pinyinTitles.slice(0, 2) : [pinyinTitles[0], trimmed];
+  }
+
   // 1. 智能检测：数字变体（最高优先级的变体）
   const numberVariant = generateNumberVariant(trimmed);
   if (numberVariant) {
@@ -541,7 +568,7 @@ export async function getDetailFromApi(
     episodes = matches.map((link: string) => link.replace(/^\$/, ''));
   }
 
-  return {
+  return withWorkIdentity({
     id: id.toString(),
     title: videoDetail.vod_name,
     poster: videoDetail.vod_pic?.trim() || '', // 确保poster为有效字符串，过滤空白
@@ -555,9 +582,10 @@ export async function getDetailFromApi(
       : 'unknown',
     desc: cleanHtmlTags(videoDetail.vod_content),
     type_name: videoDetail.type_name,
+    area: videoDetail.vod_area,
     douban_id: videoDetail.vod_douban_id,
     remarks: videoDetail.vod_remarks, // 传递备注信息（如"已完结"等）
-  };
+  });
 }
 
 async function handleSpecialSourceDetail(
@@ -624,7 +652,7 @@ async function handleSpecialSourceDetail(
   const yearMatch = html.match(/>(\d{4})</);
   const yearText = yearMatch ? yearMatch[1] : 'unknown';
 
-  return {
+  return withWorkIdentity({
     id,
     title: titleText,
     poster: coverUrl,
@@ -638,5 +666,5 @@ async function handleSpecialSourceDetail(
     type_name: '',
     douban_id: 0,
     remarks: undefined, // HTML解析无法获取remarks信息
-  };
+  });
 }
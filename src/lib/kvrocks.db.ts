@@ -3,12 +3,12 @@
 import { BaseRedisStorage } from './redis-base.db';
 
 export class KvrocksStorage extends BaseRedisStorage {
-  constructor() {
+  constructor(url?: string) {
     const config = {
-      url: process.env.KVROCKS_URL!,
+      url: url || process.env.KVROCKS_URL!,
       clientName: 'Kvrocks'
     };
-    const globalSymbol = Symbol.for('__MOONTV_KVROCKS_CLIENT__');
+    const globalSymbol = Symbol.for(url ? `__MOONTV_KVROCKS_CLIENT__:${url}` : '__MOONTV_KVROCKS_CLIENT__');
     super(config, globalSymbol);
   }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/* eslint-disable no-console */
+
+/**
+ * 频道备用地址
+ *
+ * 播放器主地址失败时会依次尝试备用地址，切换成功后上报可用的地址。服务端按直播源记录
+ * 「主地址 -> 最近可用地址」，之后所有用户拿到的频道列表都把该地址排在最前面。
+ */
+
+import { db } from './db';
+import { getCachedLiveChannels, getChannelUrls, LiveChannels } from './live';
+
+const GOOD_ALTERNATES_TTL = 7 * 24 * 60 * 60; // 记录保留 7 天（秒）
+
+type GoodAlternates = Record<string, string>; // 主地址 -> 最近可用地址
+
+const goodAlternatesKey = (sourceKey: string) => `live_good_alternates:${sourceKey}`;
+
+function isPersistentStorage(): boolean {
+  return (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') !== 'localstorage';
+}
+
+// 本地存储模式没有服务端存储，只保存在进程内
+function getMemoryStore(): Map<string, GoodAlternates> {
+  const holder = globalThis as typeof globalThis & { __liveGoodAlternates?: Map<string, GoodAlternates> };
+  if (!holder.__liveGoodAlternates) {
+    holder.__liveGoodAlternates = new Map();
+  }
+  return holder.__liveGoodAlternates;
+}
+
+export async function getGoodAlternates(sourceKey: string): Promise<GoodAlternates> {
+  const memory = getMemoryStore();
+  const cached = memory.get(sourceKey);
+  if (cached) return cached;
+  if (!isPersistentStorage()) return {};
+
+  try {
+    const stored = await db.getCache(goodAlternatesKey(sourceKey));
+    const data: GoodAlternates = stored && typeof stored === 'object' ? stored : {};
+    memory.set(sourceKey, data);
+    return data;
+  } catch (error) {
+    console.error('读取频道备用地址记录失败:', error);
+    return {};
+  }
+}
+
+/**
+ * 把最近可用的地址调到最前面，其余地址保持原有顺序
+ */
+export function applyGoodAlternates(
+  channels: LiveChannels['channels'],
+  goodAlternates: GoodAlternates
+): LiveChannels['channels'] {
+  return channels.map((channel) => {
+    const good = goodAlternates[channel.url];
+    if (!good || !channel.alternates?.includes(good)) return channel;
+    const urls = getChannelUrls(channel);
+    return {
+      ...channel,
+      url: good,
+      alternates: urls.filter((url) => url !== good),
+    };
+  });
+}
+
+/**
+ * 记录播放器切换成功的地址；切回主地址时删除记录
+ */
+export async function recordGoodAlternate(sourceKey: string, channelId: string, url: string): Promise<void> {
+  const channelData = await getCachedLiveChannels(sourceKey);
+  const channel = channelData?.channels.find((c) => c.id === channelId);
+  if (!channel) {
+    throw new Error('频道不存在');
+  }
+  if (!getChannelUrls(channel).includes(url)) {
+    throw new Error('不是该频道的播放地址');
+  }
+
+  const current = await getGoodAlternates(sourceKey);
+  if ((current[channel.url] || channel.url) === url) return;
+
+  const next: GoodAlternates = { ...current };
+  if (url === channel.url) {
+    delete next[channel.url];
+  } else {
+    next[channel.url] = url;
+  }
+
+  // 只保留当前频道列表中仍存在的主地址
+  const primaryUrls = new Set(channelData?.channels.map((c) => c.url));
+  Object.keys(next).forEach((primary) => {
+    if (!primaryUrls.has(primary)) delete next[primary];
+  });
+
+  getMemoryStore().set(sourceKey, next);
+  if (isPersistentStorage()) {
+    await db.setCache(goodAlternatesKey(sourceKey), next, GOOD_ALTERNATES_TTL);
+  }
+}
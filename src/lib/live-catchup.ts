@@ -0,0 +1,223 @@
+/**
+ * 直播回看（catch-up / 时移）
+ *
+ * 解析 M3U 中的 catchup、catchup-source、catchup-days 属性，并按节目时间展开回看地址。
+ * 前后端通用，不依赖任何服务端模块。
+ *
+ * 支持的模式：
+ * - default：catchup-source 即完整的回看地址模板
+ * - append：在频道地址后拼接 catchup-source（常见于 ?playseek=... 形式）
+ * - shift：在频道地址后追加 utc / lutc 参数
+ * - flussonic：改写为 Flussonic 的 index-<开始>-<时长>.m3u8 / timeshift_abs-<开始>.ts
+ */
+
+export type LiveCatchupMode = 'default' | 'append' | 'shift' | 'flussonic';
+
+export interface LiveCatchup {
+  mode: LiveCatchupMode;
+  source?: string; // 回看地址模板
+  days?: number; // 可回看天数
+}
+
+// 未声明 catchup-days 时默认可回看 7 天
+const DEFAULT_CATCHUP_DAYS = 7;
+
+function readAttribute(line: string, name: string): string | undefined {
+  return line.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+}
+
+function normalizeMode(value: string): LiveCatchupMode | null {
+  switch (value.trim().toLowerCase()) {
+    case 'default':
+      return 'default';
+    case 'append':
+      return 'append';
+    case 'shift':
+    case 'timeshift':
+      return 'shift';
+    case 'flussonic':
+    case 'flussonic-hls':
+    case 'flussonic-ts':
+    case 'fs':
+      return 'flussonic';
+    default:
+      return null;
+  }
+}
+
+/**
+ * 从 #EXTINF（或 #EXTM3U 头部）解析回看属性
+ * 频道行未声明的属性继承头部的默认值，无法回看时返回 undefined
+ */
+export function parseCatchupAttributes(
+  line: string,
+  defaults?: LiveCatchup
+): LiveCatchup | undefined {
+  const modeAttr = readAttribute(line, 'catchup') ?? readAttribute(line, 'catchup-type');
+  const source = readAttribute(line, 'catchup-source') ?? defaults?.source;
+  const daysAttr = readAttribute(line, 'catchup-days') ?? readAttribute(line, 'timeshift');
+
+  let mode = modeAttr !== undefined ? normalizeMode(modeAttr) : defaults?.mode ?? null;
+  // 只给了 catchup-source 时按模板是否以 ? / & 开头推断
+  if (!mode && modeAttr === undefined && source) {
+    mode = /^[?&]/.test(source) ? 'append' : 'default';
+  }
+  if (!mode) return undefined;
+  if ((mode === 'default' || mode === 'append') && !source) return undefined;
+
+  const days = daysAttr !== undefined ? parseInt(daysAttr, 10) : defaults?.days;
+  return {
+    mode,
+    ...(source ? { source } : {}),
+    days: days && days > 0 ? days : DEFAULT_CATCHUP_DAYS,
+  };
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+/**
+ * 按格式串格式化时间，同时兼容 Kodi（YmdHMS）和 Java（yyyyMMddHHmmss）两种写法
+ */
+function formatDate(date: Date, format: string, utc: boolean): string {
+  const parts = utc
+    ? {
+        y: date.getUTCFullYear(),
+        mo: date.getUTCMonth() + 1,
+        d: date.getUTCDate(),
+        h: date.getUTCHours(),
+        mi: date.getUTCMinutes(),
+        s: date.getUTCSeconds(),
+      }
+    : {
+        y: date.getFullYear(),
+        mo: date.getMonth() + 1,
+        d: date.getDate(),
+        h: date.getHours(),
+        mi: date.getMinutes(),
+        s: date.getSeconds(),
+      };
+  return format.replace(/yyyy|MM|dd|HH|mm|ss|[YmdHMS]/g, (token) => {
+    switch (token) {
+      case 'yyyy':
+      case 'Y':
+        return pad(parts.y, 4);
+      case 'MM':
+      case 'm':
+        return pad(parts.mo);
+      case 'dd':
+      case 'd':
+        return pad(parts.d);
+      case 'HH':
+      case 'H':
+        return pad(parts.h);
+      case 'mm':
+      case 'M':
+        return pad(parts.mi);
+      default:
+        return pad(parts.s);
+    }
+  });
+}
+
+/**
+ * 展开回看模板中的占位符
+ *
+ * - ${start} / {utc} / ${utc}：节目开始的 Unix 时间戳（秒），${end} / {utcend} 同理
+ * - ${timestamp} / ${now} / {lutc}：当前时间戳；{duration} / {duration:60}：节目时长（可带除数）
+ * - {offset} / {offset:60}：开始时间距现在的秒数（可带除数）
+ * - {utc:YmdHMS} / {utcend:YmdHMS}、{Y}{m}{d}{H}{M}{S}：UTC 日期
+ * - ${(b)yyyyMMddHHmmss} / ${(e)yyyyMMddHHmmss}：本地时间的开始 / 结束日期
+ */
+export function expandCatchupTemplate(
+  template: string,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): string {
+  const startTs = Math.floor(start.getTime() / 1000);
+  const endTs = Math.floor(end.getTime() / 1000);
+  const nowTs = Math.floor(now.getTime() / 1000);
+  const divide = (value: number, divider?: string) =>
+    Math.floor(value / (divider ? parseInt(divider, 10) || 1 : 1)).toString();
+
+  return template
+    .replace(/\$\{\((b|e)\)([^}]+)\}/g, (_, which: string, format: string) =>
+      formatDate(which === 'b' ? start : end, format, false)
+    )
+    .replace(/\$?\{(utc|utcend|start|end):([^}]+)\}/g, (_, key: string, format: string) =>
+      formatDate(key === 'utc' || key === 'start' ? start : end, format, true)
+    )
+    .replace(/\$?\{duration(?::(\d+))?\}/g, (_, divider?: string) => divide(endTs - startTs, divider))
+    .replace(/\$?\{offset(?::(\d+))?\}/g, (_, divider?: string) => divide(nowTs - startTs, divider))
+    .replace(/\$?\{(utc|start)\}/g, startTs.toString())
+    .replace(/\$?\{(utcend|end)\}/g, endTs.toString())
+    .replace(/\$?\{(lutc|now|timestamp)\}/g, nowTs.toString())
+    .replace(/\{([YmdHMS])\}/g, (_, token: string) => formatDate(start, token, true));
+}
+
+function appendQuery(url: string, query: string): string {
+  return url + (url.includes('?') ? '&' : '?') + query;
+}
+
+// Flussonic：.../index.m3u8 → .../index-<开始>-<时长>.m3u8，其他（mpegts）→ .../timeshift_abs-<开始>.ts
+function buildFlussonicUrl(channelUrl: string, start: number, duration: number): string {
+  const queryIndex = channelUrl.indexOf('?');
+  const base = queryIndex === -1 ? channelUrl : channelUrl.slice(0, queryIndex);
+  const suffix = queryIndex === -1 ? '' : channelUrl.slice(queryIndex);
+  const hlsMatch = base.match(/^(.*\/)([^/]+)\.m3u8$/);
+  if (hlsMatch) {
+    const name = hlsMatch[2] === 'mono' || hlsMatch[2] === 'video' ? hlsMatch[2] : 'index';
+    return `${hlsMatch[1]}${name}-${start}-${duration}.m3u8${suffix}`;
+  }
+  const streamBase = base.replace(/\/(mpegts|[^/]+\.ts)$/, '');
+  return `${streamBase.replace(/\/$/, '')}/timeshift_abs-${start}.ts${suffix}`;
+}
+
+/**
+ * 判断节目是否在可回看的时间窗口内（已结束且未超出回看天数）
+ */
+export function isCatchupAvailable(
+  catchup: LiveCatchup | undefined,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): boolean {
+  if (!catchup) return false;
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return false;
+  const days = catchup.days || DEFAULT_CATCHUP_DAYS;
+  return end <= now && start.getTime() >= now.getTime() - days * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * 生成指定节目的回看地址，频道不支持回看时返回 null
+ */
+export function buildCatchupUrl(
+  channelUrl: string,
+  catchup: LiveCatchup | undefined,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): string | null {
+  if (!catchup || !channelUrl) return null;
+  const startTs = Math.floor(start.getTime() / 1000);
+  const duration = Math.max(0, Math.floor((end.getTime() - start.getTime()) / 1000));
+
+  switch (catchup.mode) {
+    case 'default':
+      return catchup.source ? expandCatchupTemplate(catchup.source, start, end, now) : null;
+    case 'append': {
+      if (!catchup.source) return null;
+      const expanded = expandCatchupTemplate(catchup.source, start, end, now);
+      // 频道地址已带查询参数时，把模板开头的 ? 换成 &
+      return channelUrl.includes('?') && expanded.startsWith('?')
+        ? channelUrl + '&' + expanded.slice(1)
+        : channelUrl + expanded;
+    }
+    case 'shift':
+      return appendQuery(channelUrl, `utc=${startTs}&lutc=${Math.floor(now.getTime() / 1000)}`);
+    case 'flussonic':
+      return buildFlussonicUrl(channelUrl, startTs, duration);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,189 @@
+/* eslint-disable no-console */
+
+import { NextRequest } from 'next/server';
+
+import { verifyApiToken } from './api-token';
+import { getConfig } from './config';
+import { db } from './db';
+import { formatM3UEntry, formatM3UHeader, getCachedLiveChannels, LiveChannels } from './live';
+import { getDeadChannelUrls, getLiveChannelHealthSettings } from './live-health';
+import { LivePreferences } from './types';
+
+// 导出播放列表中收藏频道所在的分组名
+export const FAVORITES_GROUP_TITLE = '我的收藏';
+
+type LiveChannel = LiveChannels['channels'][number];
+
+interface ExportSource {
+  key: string;
+  name: string;
+  ua?: string;
+  channels: LiveChannel[];
+  epgs: LiveChannels['epgs'];
+  epgLogos: LiveChannels['epgLogos'];
+}
+
+/**
+ * 解析导出接口的请求用户
+ * IPTV 播放器无法携带登录 cookie，统一使用带 live:read 权限的访问令牌（?token= 或 Authorization 头）
+ */
+export async function resolveExportUser(request: NextRequest): Promise<string | null> {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') return null;
+
+  const token =
+    request.nextUrl.searchParams.get('token') ||
+    request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return null;
+
+  const verified = await verifyApiToken(token);
+  return verified && verified.scopes.includes('live:read') ? verified.username : null;
+}
+
+// 频道在节目单中的 id，与 loadEpg 映射节目时使用的 key 一致
+const epgChannelId = (channel: LiveChannel) => channel.tvgId || channel.name;
+
+async function loadExportSources(): Promise<ExportSource[]> {
+  const config = await getConfig();
+  const hideDead = getLiveChannelHealthSettings(config).hideDeadChannels;
+  const sources: ExportSource[] = [];
+
+  for (const live of (config.LiveConfig || []).filter((l) => !l.disabled)) {
+    try {
+      const channelData = await getCachedLiveChannels(live.key);
+      if (!channelData) continue;
+      const deadUrls = hideDead ? await getDeadChannelUrls(live.key) : new Set<string>();
+      sources.push({
+        key: live.key,
+        name: live.name,
+        ua: live.ua,
+        channels: channelData.channels.filter((channel) => !deadUrls.has(channel.url)),
+        epgs: channelData.epgs,
+        epgLogos: channelData.epgLogos,
+      });
+    } catch (error) {
+      console.error(`导出时加载直播源 ${live.name} 失败:`, error);
+    }
+  }
+  return sources;
+}
+
+// 按自定义顺序排序，未出现在顺序中的频道保持原有相对顺序排在后面
+function sortByCustomOrder<T extends { channel: LiveChannel }>(items: T[], order: string[]): T[] {
+  const position = new Map(order.map((id, index) => [id, index]));
+  return items
+    .map((item, index) => ({ item, rank: position.get(item.channel.id) ?? order.length + index }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+}
+
+/**
+ * 生成用户的合并播放列表
+ * 顺序：我的收藏 → 置顶分组 → 其余分组（按直播源配置顺序），频道名使用用户的自定义名称
+ */
+export async function buildUserPlaylist(
+  username: string,
+  options: { epgUrl?: string; favoritesOnly?: boolean } = {}
+): Promise<string> {
+  const [sources, preferences, favorites] = await Promise.all([
+    loadExportSources(),
+    db.getLivePreferences(username),
+    db.getAllFavorites(username),
+  ]);
+  const prefs: Pick<LivePreferences, 'pinnedGroups' | 'channelNames' | 'channelOrder'> =
+    preferences || { pinnedGroups: [], channelNames: {}, channelOrder: [] };
+
+  const entries = sources.flatMap((source) =>
+    source.channels.map((channel) => ({ source, channel }))
+  );
+  // 收藏的 key 为 live_<直播源>+live_<频道 id>
+  const favoriteEntries = sortByCustomOrder(
+    entries.filter(({ source, channel }) => !!favorites[`live_${source.key}+live_${channel.id}`]),
+    prefs.channelOrder
+  );
+
+  const lines = [formatM3UHeader(options.epgUrl)];
+  const pushEntry = ({ source, channel }: (typeof entries)[number], group?: string) => {
+    lines.push(
+      ...formatM3UEntry(channel, {
+        name: prefs.channelNames[channel.id],
+        group,
+        tvgId: epgChannelId(channel),
+        ua: source.ua,
+      })
+    );
+  };
+
+  favoriteEntries.forEach((entry) => pushEntry(entry, FAVORITES_GROUP_TITLE));
+  if (options.favoritesOnly) {
+    return lines.join('\n') + '\n';
+  }
+
+  const groups = new Map<string, typeof entries>();
+  entries.forEach((entry) => {
+    const list = groups.get(entry.channel.group);
+    if (list) {
+      list.push(entry);
+    } else {
+      groups.set(entry.channel.group, [entry]);
+    }
+  });
+  const pinned = prefs.pinnedGroups.filter((group) => groups.has(group));
+  const rest = Array.from(groups.keys()).filter((group) => !pinned.includes(group));
+  for (const group of [...pinned, ...rest]) {
+    sortByCustomOrder(groups.get(group) || [], prefs.channelOrder).forEach((entry) => pushEntry(entry));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * 把已解析的节目单输出为 XMLTV，频道 id 与导出播放列表中的 tvg-id 对应
+ */
+export async function buildXmltv(): Promise<string> {
+  const sources = await loadExportSources();
+  const channelLines: string[] = [];
+  const programmeLines: string[] = [];
+  const seen = new Set<string>();
+
+  for (const source of sources) {
+    for (const channel of source.channels) {
+      const id = epgChannelId(channel);
+      const programmes = source.epgs[id];
+      // 多个直播源里的同一频道只输出一次
+      if (seen.has(id) || !programmes || programmes.length === 0) continue;
+      seen.add(id);
+
+      const logo = source.epgLogos[id] || channel.logo;
+      channelLines.push(
+        `  <channel id="${escapeXml(id)}">`,
+        `    <display-name>${escapeXml(channel.name)}</display-name>`,
+        ...(logo ? [`    <icon src="${escapeXml(logo)}" />`] : []),
+        '  </channel>'
+      );
+      for (const programme of programmes) {
+        programmeLines.push(
+          `  <programme start="${escapeXml(programme.start)}" stop="${escapeXml(programme.end)}" channel="${escapeXml(id)}">`,
+          `    <title>${escapeXml(programme.title)}</title>`,
+          '  </programme>'
+        );
+      }
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tv generator-info-name="MoonTV">',
+    ...channelLines,
+    ...programmeLines,
+    '</tv>',
+    '',
+  ].join('\n');
+}
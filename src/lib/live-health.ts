@@ -0,0 +1,513 @@
+/* eslint-disable no-console */
+
+import { AdminConfig } from './admin.types';
+import { getConfig } from './config';
+import { db } from './db';
+import {
+  formatM3UEntry,
+  formatM3UHeader,
+  getCachedLiveChannels,
+  LiveChannels,
+  resolveUrl,
+} from './live';
+import { LiveChannelErrorClass, LiveChannelHealth, LiveChannelHealthReport } from './types';
+
+const DEFAULT_UA = 'AptvPlayer/1.4.10';
+const PROBE_TIMEOUT = 8000;
+const PROBE_CONCURRENCY = 10;
+const SNIFF_BYTES = 2048;
+// 播放列表一般只有几 KB，超过这个大小基本不是正常的 m3u8
+const MAX_MANIFEST_BYTES = 512 * 1024;
+
+export type StreamType = 'm3u8' | 'mp4' | 'flv' | 'unknown';
+
+export interface LiveChannelHealthSettings {
+  enabled: boolean;
+  intervalHours: number;
+  hideDeadChannels: boolean;
+}
+
+export interface LiveChannelHealthRunResult {
+  total: number;
+  healthy: number;
+  sources: { key: string; name: string; total: number; healthy: number }[];
+}
+
+export interface LiveChannelHealthSummary {
+  key: string;
+  name: string;
+  disabled: boolean;
+  channelNumber: number;
+  checkedAt: number | null;
+  total: number;
+  healthy: number;
+  // 失败的频道（按连续失败次数倒序），供管理面板展示
+  deadChannels: { name: string; url: string; health: LiveChannelHealth }[];
+}
+
+export function getLiveChannelHealthSettings(config: AdminConfig): LiveChannelHealthSettings {
+  const cfg = config.LiveChannelHealthConfig;
+  return {
+    enabled: cfg?.enabled ?? false,
+    intervalHours: Math.max(1, cfg?.intervalHours ?? 12),
+    hideDeadChannels: cfg?.hideDeadChannels ?? true,
+  };
+}
+
+// ---------- 流类型识别（单频道预检与批量检测共用） ----------
+
+export function detectTypeFromContentType(contentType: string | null): StreamType {
+  if (!contentType) return 'unknown';
+  const lowerContentType = contentType.toLowerCase();
+
+  if (
+    lowerContentType.includes('application/vnd.apple.mpegurl') ||
+    lowerContentType.includes('application/x-mpegurl') ||
+    lowerContentType.includes('audio/mpegurl') ||
+    lowerContentType.includes('mpegurl')
+  ) {
+    return 'm3u8';
+  }
+
+  if (lowerContentType.includes('video/mp4')) {
+    return 'mp4';
+  }
+
+  if (
+    lowerContentType.includes('video/x-flv') ||
+    lowerContentType.includes('application/x-flv') ||
+    lowerContentType.includes('flv')
+  ) {
+    return 'flv';
+  }
+
+  return 'unknown';
+}
+
+export function detectTypeFromUrl(rawUrl: string): StreamType {
+  const lowerUrl = rawUrl.toLowerCase();
+
+  if (lowerUrl.includes('.m3u8')) return 'm3u8';
+  if (lowerUrl.includes('.mp4')) return 'mp4';
+  if (lowerUrl.includes('.flv')) return 'flv';
+
+  return 'unknown';
+}
+
+// 按文件头识别：FLV 以 "FLV" 开头，MP4 第 4-7 字节为 "ftyp"，M3U8 以 #EXTM3U 开头
+export function sniffTypeFromBytes(bytes: Uint8Array): StreamType {
+  if (bytes.length >= 3 && bytes[0] === 0x46 && bytes[1] === 0x4c && bytes[2] === 0x56) {
+    return 'flv';
+  }
+
+  if (
+    bytes.length >= 12 &&
+    bytes[4] === 0x66 &&
+    bytes[5] === 0x74 &&
+    bytes[6] === 0x79 &&
+    bytes[7] === 0x70
+  ) {
+    return 'mp4';
+  }
+
+  const textHead = new TextDecoder('utf-8').decode(bytes).trimStart().toUpperCase();
+  if (textHead.startsWith('#EXTM3U')) {
+    return 'm3u8';
+  }
+
+  return 'unknown';
+}
+
+// 持续读取直到累计达到 limit 字节或流结束
+async function readChunks(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  limit: number,
+  chunks: Uint8Array[] = []
+): Promise<Uint8Array[]> {
+  let totalLength = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  while (totalLength < limit) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+    chunks.push(value);
+    totalLength += value.byteLength;
+  }
+  return chunks;
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const merged = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return merged;
+}
+
+async function cancelReader(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  try {
+    await reader.cancel();
+  } catch {
+    // ignore
+  }
+}
+
+export async function sniffTypeFromBody(response: Response): Promise<StreamType> {
+  const reader = response.body?.getReader();
+  if (!reader) return 'unknown';
+
+  try {
+    const chunks = await readChunks(reader, SNIFF_BYTES);
+    return chunks.length > 0 ? sniffTypeFromBytes(concatChunks(chunks)) : 'unknown';
+  } finally {
+    await cancelReader(reader);
+  }
+}
+
+// ---------- 单频道检测 ----------
+
+async function fetchWithTimeout(url: string, ua: string): Promise<Response> {
+  return fetch(url, {
+    cache: 'no-store',
+    redirect: 'follow',
+    headers: { 'User-Agent': ua },
+    signal: AbortSignal.timeout(PROBE_TIMEOUT),
+  });
+}
+
+function classifyFetchError(error: any): LiveChannelErrorClass {
+  return error?.name === 'TimeoutError' || error?.name === 'AbortError' ? 'timeout' : 'network';
+}
+
+function readPlaylistAttribute(line: string, name: string): string | undefined {
+  return line.match(new RegExp(`[:,]${name}=("[^"]*"|[^,]*)`))?.[1]?.replace(/"/g, '');
+}
+
+interface MediaPlaylistInfo {
+  segments: { url: string; duration: number }[];
+  bitrate?: number; // #EXT-X-BITRATE（kbps）换算后的 bps
+}
+
+function parseMediaPlaylist(text: string, baseUrl: string): MediaPlaylistInfo {
+  const info: MediaPlaylistInfo = { segments: [] };
+  let duration = 0;
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (line.startsWith('#EXT-X-BITRATE:')) {
+      const kbps = parseInt(line.slice('#EXT-X-BITRATE:'.length), 10);
+      if (kbps > 0) info.bitrate = kbps * 1000;
+    } else if (!line.startsWith('#')) {
+      info.segments.push({ url: resolveUrl(baseUrl, line), duration });
+      duration = 0;
+    }
+  }
+  return info;
+}
+
+// 主播放列表：取带宽最高的一路作为频道的码率 / 分辨率（录制时也按此选择码流）
+export function pickBestVariant(text: string, baseUrl: string) {
+  const lines = text.split('\n').map((line) => line.trim());
+  let best: { url: string; bandwidth: number; resolution?: string } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF')) continue;
+    const uri = lines.slice(i + 1).find((line) => line && !line.startsWith('#'));
+    if (!uri) continue;
+    const bandwidth = parseInt(readPlaylistAttribute(lines[i], 'BANDWIDTH') || '0', 10) || 0;
+    if (!best || bandwidth > best.bandwidth) {
+      best = {
+        url: resolveUrl(baseUrl, uri),
+        bandwidth,
+        resolution: readPlaylistAttribute(lines[i], 'RESOLUTION'),
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * 校验 m3u8 内容：主播放列表会继续拉取最高码率的子列表，
+ * 最后请求最新的一个分片，确认分片可访问并按大小估算码率
+ */
+async function validateManifest(
+  text: string,
+  manifestUrl: string,
+  ua: string,
+  health: LiveChannelHealth
+): Promise<void> {
+  if (!text.trimStart().toUpperCase().startsWith('#EXTM3U')) {
+    health.errorClass = 'manifest';
+    health.error = '返回内容不是 m3u8 播放列表';
+    return;
+  }
+
+  let mediaText = text;
+  let mediaUrl = manifestUrl;
+  const variant = text.includes('#EXT-X-STREAM-INF') ? pickBestVariant(text, manifestUrl) : null;
+  if (variant) {
+    if (variant.bandwidth > 0) health.bitrate = variant.bandwidth;
+    if (variant.resolution) health.resolution = variant.resolution;
+    const response = await fetchWithTimeout(variant.url, ua);
+    if (!response.ok) {
+      await response.body?.cancel();
+      health.errorClass = 'http';
+      health.error = `子播放列表不可访问 (HTTP ${response.status})`;
+      return;
+    }
+    mediaText = await response.text();
+    mediaUrl = response.url || variant.url;
+  }
+
+  const media = parseMediaPlaylist(mediaText, mediaUrl);
+  if (media.segments.length === 0) {
+    health.errorClass = 'manifest';
+    health.error = '播放列表中没有分片';
+    return;
+  }
+  health.manifestValid = true;
+  if (!health.bitrate && media.bitrate) health.bitrate = media.bitrate;
+
+  const segment = media.segments[media.segments.length - 1];
+  const response = await fetchWithTimeout(segment.url, ua);
+  await response.body?.cancel();
+  if (!response.ok) {
+    health.errorClass = 'http';
+    health.error = `分片不可访问 (HTTP ${response.status})`;
+    return;
+  }
+  const size = parseInt(response.headers.get('Content-Length') || '0', 10);
+  if (!health.bitrate && size > 0 && segment.duration > 0) {
+    health.bitrate = Math.round((size * 8) / segment.duration);
+  }
+  health.ok = true;
+}
+
+/**
+ * 检测单个直播频道：可访问性、流类型，m3u8 额外校验播放列表并获取码率 / 分辨率
+ */
+export async function probeLiveChannel(url: string, ua: string = DEFAULT_UA): Promise<LiveChannelHealth> {
+  const health: LiveChannelHealth = {
+    ok: false,
+    checkedAt: Date.now(),
+    latencyMs: 0,
+    streamType: detectTypeFromUrl(url),
+    manifestValid: null,
+    consecutiveFailures: 0,
+  };
+
+  const startedAt = Date.now();
+  try {
+    const response = await fetchWithTimeout(url, ua);
+    health.latencyMs = Date.now() - startedAt;
+    if (!response.ok) {
+      await response.body?.cancel();
+      health.errorClass = 'http';
+      health.error = `HTTP ${response.status}`;
+      return health;
+    }
+
+    const headerType = detectTypeFromContentType(response.headers.get('Content-Type'));
+    if (headerType !== 'unknown') {
+      health.streamType = headerType;
+    } else if (detectTypeFromUrl(response.url) !== 'unknown') {
+      health.streamType = detectTypeFromUrl(response.url);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      health.errorClass = 'empty';
+      health.error = '返回内容为空';
+      return health;
+    }
+
+    let chunks: Uint8Array[];
+    try {
+      chunks = await readChunks(reader, SNIFF_BYTES);
+      if (chunks.length > 0 && health.streamType === 'unknown') {
+        health.streamType = sniffTypeFromBytes(concatChunks(chunks));
+      }
+      if (chunks.length > 0 && health.streamType === 'm3u8') {
+        chunks = await readChunks(reader, MAX_MANIFEST_BYTES, chunks);
+      }
+    } finally {
+      await cancelReader(reader);
+    }
+
+    if (chunks.length === 0) {
+      health.errorClass = 'empty';
+      health.error = '返回内容为空';
+      return health;
+    }
+
+    if (health.streamType !== 'm3u8') {
+      // flv / mp4 / ts 等直连流只要能读到数据就算可用
+      health.ok = true;
+      return health;
+    }
+
+    health.manifestValid = false;
+    const text = new TextDecoder('utf-8').decode(concatChunks(chunks));
+    await validateManifest(text, response.url || url, ua, health);
+    return health;
+  } catch (error: any) {
+    if (!health.latencyMs) health.latencyMs = Date.now() - startedAt;
+    health.errorClass = classifyFetchError(error);
+    health.error = health.errorClass === 'timeout' ? '请求超时' : error?.message || '网络错误';
+    return health;
+  }
+}
+
+// ---------- 批量检测 ----------
+
+function isPersistentStorage(): boolean {
+  return (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') !== 'localstorage';
+}
+
+async function probeSourceChannels(
+  sourceKey: string,
+  ua: string,
+  channels: LiveChannels['channels'],
+  prev: LiveChannelHealthReport | null
+): Promise<LiveChannelHealthReport> {
+  // 同一地址可能出现在多个分组里，只检测一次，频道名取第一次出现的
+  const names = new Map<string, string>();
+  channels.forEach((channel) => {
+    if (!names.has(channel.url)) names.set(channel.url, channel.name);
+  });
+  const urls = Array.from(names.keys());
+  const results: Record<string, LiveChannelHealth> = {};
+
+  for (let i = 0; i < urls.length; i += PROBE_CONCURRENCY) {
+    const batch = urls.slice(i, i + PROBE_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (url) => {
+        const health = await probeLiveChannel(url, ua);
+        health.name = names.get(url);
+        health.consecutiveFailures = health.ok
+          ? 0
+          : (prev?.channels[url]?.consecutiveFailures || 0) + 1;
+        results[url] = health;
+      })
+    );
+  }
+
+  const report: LiveChannelHealthReport = {
+    checkedAt: Date.now(),
+    total: urls.length,
+    healthy: Object.values(results).filter((health) => health.ok).length,
+    channels: results,
+  };
+  await db.saveLiveChannelHealth(sourceKey, report);
+  console.log(`📡 直播源 ${sourceKey} 频道检测完成: ${report.healthy}/${report.total} 可用`);
+  return report;
+}
+
+/**
+ * 批量检测直播源的全部频道
+ * - sourceKey：只检测指定直播源（管理面板手动触发）
+ * - onlyDue：跳过距上次检测不足 intervalHours 的直播源（定时任务使用）
+ */
+export async function runLiveChannelHealthCheck(
+  options: { sourceKey?: string; onlyDue?: boolean } = {}
+): Promise<LiveChannelHealthRunResult> {
+  const config = await getConfig();
+  const settings = getLiveChannelHealthSettings(config);
+  const reports = await db.getAllLiveChannelHealth();
+  const result: LiveChannelHealthRunResult = { total: 0, healthy: 0, sources: [] };
+
+  const sources = (config.LiveConfig || []).filter((live) =>
+    options.sourceKey ? live.key === options.sourceKey : !live.disabled
+  );
+  const dueBefore = Date.now() - settings.intervalHours * 60 * 60 * 1000;
+
+  for (const live of sources) {
+    const prev = reports[live.key] || null;
+    if (options.onlyDue && prev && prev.checkedAt > dueBefore) {
+      continue;
+    }
+    try {
+      const channelData = await getCachedLiveChannels(live.key);
+      if (!channelData) {
+        console.warn(`📡 直播源 ${live.name} 没有可检测的频道，跳过`);
+        continue;
+      }
+      const report = await probeSourceChannels(live.key, live.ua || DEFAULT_UA, channelData.channels, prev);
+      result.total += report.total;
+      result.healthy += report.healthy;
+      result.sources.push({ key: live.key, name: live.name, total: report.total, healthy: report.healthy });
+    } catch (error) {
+      console.error(`📡 直播源 ${live.name} 频道检测失败:`, error);
+    }
+  }
+
+  // 清理已删除直播源的检测报告
+  if (!options.sourceKey) {
+    const existingKeys = new Set((config.LiveConfig || []).map((live) => live.key));
+    await Promise.all(
+      Object.keys(reports)
+        .filter((key) => !existingKeys.has(key))
+        .map((key) => db.deleteLiveChannelHealth(key))
+    );
+  }
+
+  return result;
+}
+
+/**
+ * 最近一次检测失败的频道地址；未检测过的频道不算失败
+ */
+export async function getDeadChannelUrls(sourceKey: string): Promise<Set<string>> {
+  if (!isPersistentStorage()) return new Set();
+  const report = await db.getLiveChannelHealth(sourceKey);
+  if (!report) return new Set();
+  return new Set(
+    Object.entries(report.channels)
+      .filter(([, health]) => !health.ok)
+      .map(([url]) => url)
+  );
+}
+
+/**
+ * 管理面板使用的直播频道健康概览（按配置中的直播源顺序）
+ */
+export async function getLiveChannelHealthOverview(): Promise<LiveChannelHealthSummary[]> {
+  const [config, reports] = await Promise.all([getConfig(), db.getAllLiveChannelHealth()]);
+  return (config.LiveConfig || []).map((live) => {
+    const report = reports[live.key];
+    const deadChannels = Object.entries(report?.channels || {})
+      .filter(([, health]) => !health.ok)
+      .sort(([, a], [, b]) => b.consecutiveFailures - a.consecutiveFailures)
+      .map(([url, health]) => ({ name: health.name || url, url, health }));
+    return {
+      key: live.key,
+      name: live.name,
+      disabled: !!live.disabled,
+      channelNumber: live.channelNumber || 0,
+      checkedAt: report?.checkedAt ?? null,
+      total: report?.total || 0,
+      healthy: report?.healthy || 0,
+      deadChannels,
+    };
+  });
+}
+
+// ---------- 导出 ----------
+
+/**
+ * 生成剔除失效频道后的 M3U 内容（保留 EPG 地址、台标、分组和回看属性）
+ */
+export async function buildCleanM3U(sourceKey: string): Promise<string | null> {
+  const channelData = await getCachedLiveChannels(sourceKey);
+  if (!channelData) return null;
+  const deadUrls = await getDeadChannelUrls(sourceKey);
+
+  const lines = [formatM3UHeader(channelData.epgUrl)];
+  for (const channel of channelData.channels) {
+    if (!deadUrls.has(channel.url)) {
+      lines.push(...formatM3UEntry(channel));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
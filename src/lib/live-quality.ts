@@ -0,0 +1,123 @@
+// 直播画质 / 音轨相关的工具函数
+// 码率和音轨信息来自 hls.js 解析后的主播放列表（EXT-X-STREAM-INF / EXT-X-MEDIA）
+
+import { LiveQualityPreference } from './types';
+
+export const DEFAULT_LIVE_QUALITY_PREFERENCE: LiveQualityPreference = {
+  maxHeight: 0,
+  mobileMaxHeight: 0,
+};
+
+// 画质上限选项，0 表示不限
+export const LIVE_QUALITY_CAP_OPTIONS = [0, 2160, 1080, 720, 480, 360];
+
+interface VariantInfo {
+  height?: number;
+  width?: number;
+  bitrate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  frameRate?: number;
+}
+
+interface AudioTrackInfo {
+  name?: string;
+  lang?: string;
+  audioCodec?: string;
+  channels?: string;
+}
+
+const CODEC_NAMES: Array<[RegExp, string]> = [
+  [/^(avc1|avc3)/i, 'H.264'],
+  [/^(hvc1|hev1)/i, 'H.265'],
+  [/^(dvh1|dvhe)/i, 'Dolby Vision'],
+  [/^av01/i, 'AV1'],
+  [/^vp0?9/i, 'VP9'],
+  [/^mp4a\.40\.(5|29)/i, 'HE-AAC'],
+  [/^mp4a/i, 'AAC'],
+  [/^ac-3/i, 'AC-3'],
+  [/^ec-3/i, 'E-AC-3'],
+  [/^opus/i, 'Opus'],
+];
+
+/**
+ * 将 CODECS 属性中的编码转为可读名称，未知编码原样返回
+ */
+export function describeCodec(codec?: string): string {
+  if (!codec) return '';
+  const first = codec.split(',')[0].trim();
+  const matched = CODEC_NAMES.find(([pattern]) => pattern.test(first));
+  return matched ? matched[1] : first;
+}
+
+export function formatBitrate(bitrate?: number): string {
+  if (!bitrate || bitrate <= 0) return '';
+  return bitrate >= 1000000
+    ? `${parseFloat((bitrate / 1000000).toFixed(1))} Mbps`
+    : `${Math.round(bitrate / 1000)} kbps`;
+}
+
+/**
+ * 码率的简短名称（如 1080p、720p50），没有分辨率时使用码率
+ */
+export function formatVariantLabel(variant: VariantInfo): string {
+  if (variant.height) {
+    const fps = variant.frameRate && variant.frameRate > 30 ? Math.round(variant.frameRate) : '';
+    return `${variant.height}p${fps}`;
+  }
+  return formatBitrate(variant.bitrate) || '未知';
+}
+
+/**
+ * 码率的详细信息（码率 · 视频编码）
+ */
+export function formatVariantDetail(variant: VariantInfo): string {
+  return [formatBitrate(variant.bitrate), describeCodec(variant.videoCodec)].filter(Boolean).join(' · ');
+}
+
+export function formatAudioTrackLabel(track: AudioTrackInfo, index: number): string {
+  const name = track.name || track.lang || `音轨 ${index + 1}`;
+  const codec = describeCodec(track.audioCodec);
+  const channels = track.channels && track.channels !== '2' ? `${track.channels}ch` : '';
+  const extra = [codec, channels].filter(Boolean).join(' ');
+  return extra ? `${name} (${extra})` : name;
+}
+
+/**
+ * 找到不超过画质上限的最高码率，返回其下标，用作 hls.js 的 autoLevelCapping
+ * 不限或码率没有分辨率信息时返回 -1；全部超过上限时返回最低分辨率
+ */
+export function findCappedLevel(levels: VariantInfo[], maxHeight: number): number {
+  if (!maxHeight || levels.length === 0 || !levels.some((level) => level.height)) return -1;
+
+  let capped = -1;
+  let lowest = -1;
+  levels.forEach((level, index) => {
+    if (!level.height) return;
+    if (level.height <= maxHeight && (capped < 0 || level.height >= (levels[capped].height || 0))) {
+      capped = index;
+    }
+    if (lowest < 0 || level.height < (levels[lowest].height || 0)) {
+      lowest = index;
+    }
+  });
+  return capped >= 0 ? capped : lowest;
+}
+
+/**
+ * 规范化画质偏好（用于接口入参和本地存储）
+ */
+export function normalizeLiveQualityPreference(value: unknown): LiveQualityPreference {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const toCap = (cap: unknown) =>
+    typeof cap === 'number' && LIVE_QUALITY_CAP_OPTIONS.includes(cap) ? cap : 0;
+
+  const preference: LiveQualityPreference = {
+    maxHeight: toCap(input.maxHeight),
+    mobileMaxHeight: toCap(input.mobileMaxHeight),
+  };
+  if (typeof input.audioLanguage === 'string' && input.audioLanguage.trim()) {
+    preference.audioLanguage = input.audioLanguage.trim().slice(0, 50);
+  }
+  return preference;
+}
@@ -0,0 +1,602 @@
+/* eslint-disable no-console */
+
+/**
+ * 直播录制（服务端 DVR）
+ *
+ * 录制任务保存在存储中，分片文件写入服务器磁盘（LIVE_RECORDING_DIR）。
+ * 进程内调度器每 30 秒检查一次到点的任务；录制时按直播源 UA 与代理相同的请求头拉取
+ * m3u8 和分片，AES-128 加密的分片在写入前解密，最终生成可直接播放的本地 m3u8。
+ * 服务重启后，未结束的录制会在下次调度时继续录制（中间插入 DISCONTINUITY）。
+ */
+
+import { createDecipheriv, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { AdminConfig } from './admin.types';
+import { getConfig } from './config';
+import { db } from './db';
+import { getCachedLiveChannels, getLiveRequestHeaders, getLiveSourceUA, resolveUrl } from './live';
+import { pickBestVariant } from './live-health';
+import { LiveRecording } from './types';
+
+// 录制文件目录（Docker 部署时应挂载为持久化卷）
+export const LIVE_RECORDING_DIR = process.env.LIVE_RECORDING_DIR || '/tmp/live-recordings';
+export const RECORDING_PLAYLIST = 'index.m3u8';
+const RECORDING_INIT_SEGMENT = 'init.mp4';
+
+const SCHEDULER_INTERVAL = 30 * 1000;
+const FETCH_TIMEOUT = 15000;
+const MAX_CONSECUTIVE_FAILURES = 12; // 连续多少次拉取播放列表失败后结束录制
+const MAX_SEEN_SEGMENTS = 1000;
+const MB = 1024 * 1024;
+
+export interface LiveRecordingSettings {
+  enabled: boolean;
+  allowedUsers: string[];
+  allowedTags: string[];
+  totalQuotaBytes: number;
+  userQuotaBytes: number; // 0 表示不限
+  maxDurationMs: number;
+}
+
+export interface LiveRecordingUsage {
+  userBytes: number;
+  totalBytes: number;
+  userQuotaBytes: number;
+  totalQuotaBytes: number;
+}
+
+export function getLiveRecordingSettings(config: AdminConfig): LiveRecordingSettings {
+  const cfg = config.LiveRecordingConfig;
+  return {
+    enabled: cfg?.enabled ?? false,
+    allowedUsers: cfg?.allowedUsers ?? [],
+    allowedTags: cfg?.allowedTags ?? [],
+    totalQuotaBytes: Math.max(1, cfg?.totalQuotaMB ?? 10240) * MB,
+    userQuotaBytes: Math.max(0, cfg?.userQuotaMB ?? 2048) * MB,
+    maxDurationMs: Math.max(1, cfg?.maxDurationMinutes ?? 240) * 60 * 1000,
+  };
+}
+
+/**
+ * 用户是否有录制权限：站长和管理员始终允许，普通用户需在允许列表或允许的用户组中
+ */
+export function canUserRecord(config: AdminConfig, username: string): boolean {
+  const settings = getLiveRecordingSettings(config);
+  if (!settings.enabled) return false;
+  if (username === process.env.USERNAME) return true;
+
+  const user = config.UserConfig.Users.find((u) => u.username === username);
+  if (!user || user.banned) return false;
+  if (user.role === 'admin' || user.role === 'owner') return true;
+  if (settings.allowedUsers.includes(username)) return true;
+  return (user.tags || []).some((tag) => settings.allowedTags.includes(tag));
+}
+
+export function getRecordingDir(recordingId: string): string {
+  return path.join(LIVE_RECORDING_DIR, recordingId);
+}
+
+// 录制目录中允许对外提供的文件：本地播放列表、fMP4 初始化分片和媒体分片
+export function isRecordingFileName(name: string): boolean {
+  return /^(index\.m3u8|init\.mp4|\d{6}\.(ts|m4s))$/.test(name);
+}
+
+function usageOf(recordings: LiveRecording[], username: string, settings: LiveRecordingSettings) {
+  const usage: LiveRecordingUsage = {
+    userBytes: 0,
+    totalBytes: 0,
+    userQuotaBytes: settings.userQuotaBytes,
+    totalQuotaBytes: settings.totalQuotaBytes,
+  };
+  recordings.forEach((recording) => {
+    usage.totalBytes += recording.bytes;
+    if (recording.username === username) usage.userBytes += recording.bytes;
+  });
+  return usage;
+}
+
+function isQuotaExceeded(usage: LiveRecordingUsage): boolean {
+  return (
+    usage.totalBytes >= usage.totalQuotaBytes ||
+    (usage.userQuotaBytes > 0 && usage.userBytes >= usage.userQuotaBytes)
+  );
+}
+
+export async function getLiveRecordingUsage(username: string): Promise<LiveRecordingUsage> {
+  const [config, recordings] = await Promise.all([getConfig(), db.getAllLiveRecordings()]);
+  return usageOf(Object.values(recordings), username, getLiveRecordingSettings(config));
+}
+
+export async function listUserRecordings(username: string): Promise<LiveRecording[]> {
+  const recordings = await db.getAllLiveRecordings();
+  return Object.values(recordings)
+    .filter((recording) => recording.username === username)
+    .sort((a, b) => b.startAt - a.startAt);
+}
+
+/**
+ * 创建录制任务（来自节目单或手动录制）
+ */
+export async function scheduleLiveRecording(
+  username: string,
+  input: { sourceKey: string; channelId: string; title?: string; startAt: number; endAt: number }
+): Promise<LiveRecording> {
+  const config = await getConfig();
+  if (!canUserRecord(config, username)) {
+    throw new Error('没有直播录制权限');
+  }
+  const settings = getLiveRecordingSettings(config);
+
+  const now = Date.now();
+  const startAt = Math.max(input.startAt, now);
+  if (!(input.endAt > startAt)) {
+    throw new Error('录制结束时间必须晚于当前时间和开始时间');
+  }
+  if (input.endAt - startAt > settings.maxDurationMs) {
+    throw new Error(`单次录制不能超过 ${Math.round(settings.maxDurationMs / 60000)} 分钟`);
+  }
+
+  const liveSource = config.LiveConfig?.find((live) => live.key === input.sourceKey && !live.disabled);
+  if (!liveSource) {
+    throw new Error('直播源不存在或已禁用');
+  }
+  const channelData = await getCachedLiveChannels(input.sourceKey);
+  const channel = channelData?.channels.find((c) => c.id === input.channelId);
+  if (!channel) {
+    throw new Error('频道不存在');
+  }
+
+  const recordings = Object.values(await db.getAllLiveRecordings());
+  if (isQuotaExceeded(usageOf(recordings, username, settings))) {
+    throw new Error('录制空间已用完，请先删除不需要的录制');
+  }
+  const duplicate = recordings.find(
+    (r) =>
+      r.username === username &&
+      r.channelUrl === channel.url &&
+      (r.status === 'scheduled' || r.status === 'recording') &&
+      r.startAt < input.endAt &&
+      r.endAt > startAt
+  );
+  if (duplicate) {
+    throw new Error(`该时段已有录制任务：${duplicate.title}`);
+  }
+
+  const recording: LiveRecording = {
+    id: randomBytes(8).toString('hex'),
+    username,
+    sourceKey: input.sourceKey,
+    channelId: channel.id,
+    channelName: channel.name,
+    channelUrl: channel.url,
+    title:
+      input.title?.trim().slice(0, 100) ||
+      `${channel.name} ${new Date(startAt).toLocaleString('zh-CN', { hour12: false })}`,
+    startAt,
+    endAt: input.endAt,
+    status: 'scheduled',
+    createdAt: now,
+    segments: 0,
+    bytes: 0,
+    duration: 0,
+  };
+  await db.saveLiveRecording(recording);
+
+  ensureLiveRecordingScheduler();
+  if (startAt <= now) {
+    void runSchedulerTick();
+  }
+  return recording;
+}
+
+/**
+ * 取消或删除录制：未开始的任务标记为已取消，录制中的任务提前结束，其余直接删除记录和文件
+ */
+export async function removeLiveRecording(
+  username: string,
+  recordingId: string
+): Promise<'cancelled' | 'stopped' | 'deleted'> {
+  const recording = await db.getLiveRecording(recordingId);
+  if (!recording || recording.username !== username) {
+    throw new Error('录制不存在');
+  }
+
+  if (recording.status === 'scheduled') {
+    await db.saveLiveRecording({ ...recording, status: 'cancelled', finishedAt: Date.now() });
+    return 'cancelled';
+  }
+
+  const active = getSchedulerState().active.get(recordingId);
+  if (recording.status === 'recording' && active) {
+    active.abort();
+    return 'stopped';
+  }
+
+  await fs.rm(getRecordingDir(recordingId), { recursive: true, force: true });
+  await db.deleteLiveRecording(recordingId);
+  return 'deleted';
+}
+
+// ---------- 调度器 ----------
+
+interface SchedulerState {
+  timer: ReturnType<typeof setInterval> | null;
+  ticking: boolean;
+  active: Map<string, AbortController>;
+}
+
+// 挂在 globalThis 上，避免开发模式热更新时重复启动
+function getSchedulerState(): SchedulerState {
+  const holder = globalThis as typeof globalThis & { __liveRecordingScheduler?: SchedulerState };
+  if (!holder.__liveRecordingScheduler) {
+    holder.__liveRecordingScheduler = { timer: null, ticking: false, active: new Map() };
+  }
+  return holder.__liveRecordingScheduler;
+}
+
+/**
+ * 启动进程内调度器（幂等），录制接口和定时任务都会调用
+ */
+export function ensureLiveRecordingScheduler(): void {
+  if ((process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') === 'localstorage') return;
+  const state = getSchedulerState();
+  if (state.timer) return;
+  state.timer = setInterval(() => {
+    void runSchedulerTick();
+  }, SCHEDULER_INTERVAL);
+  state.timer.unref?.();
+  void runSchedulerTick();
+}
+
+async function runSchedulerTick(): Promise<void> {
+  const state = getSchedulerState();
+  if (state.ticking) return;
+  state.ticking = true;
+  try {
+    const now = Date.now();
+    const recordings = Object.values(await db.getAllLiveRecordings());
+    for (const recording of recordings) {
+      if (state.active.has(recording.id)) continue;
+      const pending = recording.status === 'scheduled' || recording.status === 'recording';
+      if (!pending) continue;
+
+      if (recording.endAt <= now) {
+        // 服务停止期间错过的任务；录到一半的任务直接收尾
+        await finalizeRecording(recording, recording.status === 'recording' ? undefined : '错过录制时间（服务未运行）');
+      } else if (recording.startAt <= now) {
+        startRecording(recording);
+      }
+    }
+  } catch (error) {
+    console.error('直播录制调度失败:', error);
+  } finally {
+    state.ticking = false;
+  }
+}
+
+function startRecording(recording: LiveRecording): void {
+  const state = getSchedulerState();
+  const controller = new AbortController();
+  state.active.set(recording.id, controller);
+  console.log(`⏺️ 开始录制: ${recording.title} (${recording.channelName})`);
+
+  recordStream(recording, controller.signal)
+    .catch((error) => {
+      console.error(`录制 ${recording.title} 失败:`, error);
+      return error instanceof Error ? error.message : '录制失败';
+    })
+    .then(async (error) => {
+      state.active.delete(recording.id);
+      const latest = await db.getLiveRecording(recording.id);
+      // 录制过程中被删除的任务不再写回
+      if (latest) {
+        await finalizeRecording(latest, error || undefined);
+      }
+    })
+    .catch((error) => console.error('保存录制结果失败:', error));
+}
+
+async function finalizeRecording(recording: LiveRecording, error?: string): Promise<void> {
+  const dir = getRecordingDir(recording.id);
+  const entries = await readPlaylistEntries(dir);
+  if (entries.length > 0) {
+    await writePlaylist(dir, entries, recording.container === 'mp4', true);
+  }
+  await db.saveLiveRecording({
+    ...recording,
+    status: recording.segments > 0 ? 'completed' : 'failed',
+    finishedAt: Date.now(),
+    ...(error ? { error } : {}),
+  });
+  console.log(`⏹️ 录制结束: ${recording.title}，${recording.segments} 个分片${error ? `（${error}）` : ''}`);
+}
+
+// ---------- 本地播放列表 ----------
+
+interface PlaylistEntry {
+  name: string;
+  duration: number;
+  discontinuity?: boolean;
+}
+
+async function readPlaylistEntries(dir: string): Promise<PlaylistEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.join(dir, RECORDING_PLAYLIST), 'utf8');
+  } catch {
+    return [];
+  }
+  const entries: PlaylistEntry[] = [];
+  let duration = 0;
+  let discontinuity = false;
+  for (const line of text.split('\n')) {
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (line.startsWith('#EXT-X-DISCONTINUITY')) {
+      discontinuity = true;
+    } else if (line && !line.startsWith('#')) {
+      entries.push({ name: line.trim(), duration, ...(discontinuity ? { discontinuity } : {}) });
+      duration = 0;
+      discontinuity = false;
+    }
+  }
+  return entries;
+}
+
+async function writePlaylist(
+  dir: string,
+  entries: PlaylistEntry[],
+  fmp4: boolean,
+  ended: boolean
+): Promise<void> {
+  const targetDuration = Math.max(1, ...entries.map((entry) => Math.ceil(entry.duration)));
+  const lines = [
+    '#EXTM3U',
+    `#EXT-X-VERSION:${fmp4 ? 7 : 3}`,
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    `#EXT-X-PLAYLIST-TYPE:${ended ? 'VOD' : 'EVENT'}`,
+    ...(fmp4 ? [`#EXT-X-MAP:URI="${RECORDING_INIT_SEGMENT}"`] : []),
+  ];
+  entries.forEach((entry) => {
+    if (entry.discontinuity) lines.push('#EXT-X-DISCONTINUITY');
+    lines.push(`#EXTINF:${entry.duration.toFixed(3)},`, entry.name);
+  });
+  if (ended) lines.push('#EXT-X-ENDLIST');
+  await fs.writeFile(path.join(dir, RECORDING_PLAYLIST), lines.join('\n') + '\n');
+}
+
+/**
+ * 按播放顺序列出录制的媒体文件（下载时依次拼接为一个 .ts / .mp4 文件）
+ */
+export async function getRecordingMediaFiles(recording: LiveRecording): Promise<string[]> {
+  const dir = getRecordingDir(recording.id);
+  const entries = await readPlaylistEntries(dir);
+  const names = entries.map((entry) => entry.name);
+  if (recording.container === 'mp4') names.unshift(RECORDING_INIT_SEGMENT);
+  return names.map((name) => path.join(dir, name));
+}
+
+// ---------- 录制 ----------
+
+interface RemoteKey {
+  method: string;
+  uri?: string;
+  iv?: Buffer;
+}
+
+interface RemoteSegment {
+  url: string;
+  duration: number;
+  sequence: number;
+  key?: RemoteKey;
+}
+
+interface RemotePlaylist {
+  targetDuration: number;
+  mapUrl?: string;
+  segments: RemoteSegment[];
+  ended: boolean;
+}
+
+function readAttribute(line: string, name: string): string | undefined {
+  return line.match(new RegExp(`[:,]${name}=("[^"]*"|[^,]*)`))?.[1]?.replace(/"/g, '');
+}
+
+function parseRemotePlaylist(text: string, baseUrl: string): RemotePlaylist {
+  const playlist: RemotePlaylist = { targetDuration: 6, segments: [], ended: false };
+  let sequence = 0;
+  let duration = 0;
+  let key: RemoteKey | undefined;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      playlist.targetDuration = parseFloat(line.slice('#EXT-X-TARGETDURATION:'.length)) || 6;
+    } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      sequence = parseInt(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length), 10) || 0;
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      const method = readAttribute(line, 'METHOD') || 'NONE';
+      const uri = readAttribute(line, 'URI');
+      const iv = readAttribute(line, 'IV');
+      key =
+        method === 'NONE'
+          ? undefined
+          : {
+              method,
+              uri: uri ? resolveUrl(baseUrl, uri) : undefined,
+              iv: iv ? Buffer.from(iv.replace(/^0x/i, '').padStart(32, '0'), 'hex') : undefined,
+            };
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const uri = readAttribute(line, 'URI');
+      if (uri) playlist.mapUrl = resolveUrl(baseUrl, uri);
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (line.startsWith('#EXT-X-ENDLIST')) {
+      playlist.ended = true;
+    } else if (!line.startsWith('#')) {
+      playlist.segments.push({ url: resolveUrl(baseUrl, line), duration, sequence, key });
+      sequence++;
+      duration = 0;
+    }
+  }
+  return playlist;
+}
+
+async function fetchBuffer(url: string, ua: string, kind: 'playlist' | 'segment'): Promise<Response> {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    redirect: 'follow',
+    headers: getLiveRequestHeaders(ua, kind),
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+}
+
+// 默认 IV 为 16 字节大端序的媒体序列号
+function sequenceIv(sequence: number): Buffer {
+  const iv = Buffer.alloc(16);
+  iv.writeUInt32BE(sequence >>> 0, 12);
+  return iv;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * 录制直到结束时间、直播流结束、达到配额或被手动停止；返回提前结束的原因
+ */
+async function recordStream(recording: LiveRecording, signal: AbortSignal): Promise<string | null> {
+  const config = await getConfig();
+  const settings = getLiveRecordingSettings(config);
+  const liveSource = config.LiveConfig?.find((live) => live.key === recording.sourceKey);
+  const ua = getLiveSourceUA(liveSource);
+
+  const dir = getRecordingDir(recording.id);
+  await fs.mkdir(dir, { recursive: true });
+  const entries = await readPlaylistEntries(dir);
+  const resumed = entries.length > 0;
+
+  const current: LiveRecording = {
+    ...recording,
+    status: 'recording',
+    startedAt: recording.startedAt || Date.now(),
+  };
+  await db.saveLiveRecording(current);
+
+  const seen = new Set<string>();
+  const keyCache = new Map<string, Buffer>();
+  let mediaUrl = recording.channelUrl;
+  let failures = 0;
+  let nextDiscontinuity = resumed;
+
+  while (!signal.aborted && Date.now() < recording.endAt) {
+    let playlist: RemotePlaylist;
+    try {
+      const response = await fetchBuffer(mediaUrl, ua, 'playlist');
+      const text = await response.text();
+      if (!text.trimStart().toUpperCase().startsWith('#EXTM3U')) {
+        return '仅支持录制 HLS (m3u8) 直播流';
+      }
+      const finalUrl = response.url || mediaUrl;
+      if (text.includes('#EXT-X-STREAM-INF')) {
+        const variant = pickBestVariant(text, finalUrl);
+        if (!variant) return '播放列表中没有可用的码流';
+        mediaUrl = variant.url;
+        continue;
+      }
+      playlist = parseRemotePlaylist(text, finalUrl);
+      failures = 0;
+    } catch (error) {
+      failures++;
+      if (failures >= MAX_CONSECUTIVE_FAILURES) {
+        return `直播流中断：${error instanceof Error ? error.message : error}`;
+      }
+      await sleep(5000, signal);
+      continue;
+    }
+
+    // fMP4 分片需要先保存初始化分片
+    if (playlist.mapUrl && current.container !== 'mp4') {
+      const init = Buffer.from(await (await fetchBuffer(playlist.mapUrl, ua, 'segment')).arrayBuffer());
+      await fs.writeFile(path.join(dir, RECORDING_INIT_SEGMENT), init);
+      current.container = 'mp4';
+      current.bytes += init.length;
+    }
+
+    let added = 0;
+    for (const segment of playlist.segments) {
+      if (signal.aborted || Date.now() >= recording.endAt) break;
+      if (seen.has(segment.url)) continue;
+      seen.add(segment.url);
+
+      try {
+        let data = Buffer.from(await (await fetchBuffer(segment.url, ua, 'segment')).arrayBuffer());
+        if (segment.key) {
+          if (segment.key.method !== 'AES-128' || !segment.key.uri) {
+            return `不支持的加密方式：${segment.key.method}`;
+          }
+          let key = keyCache.get(segment.key.uri);
+          if (!key) {
+            key = Buffer.from(await (await fetchBuffer(segment.key.uri, ua, 'segment')).arrayBuffer());
+            keyCache.set(segment.key.uri, key);
+          }
+          const decipher = createDecipheriv('aes-128-cbc', key, segment.key.iv || sequenceIv(segment.sequence));
+          data = Buffer.concat([decipher.update(data), decipher.final()]);
+        }
+
+        const name = `${String(entries.length).padStart(6, '0')}.${current.container === 'mp4' ? 'm4s' : 'ts'}`;
+        await fs.writeFile(path.join(dir, name), data);
+        entries.push({ name, duration: segment.duration, ...(nextDiscontinuity ? { discontinuity: true } : {}) });
+        nextDiscontinuity = false;
+        current.segments++;
+        current.bytes += data.length;
+        current.duration += segment.duration;
+        added++;
+      } catch (error) {
+        console.warn(`录制分片下载失败 (${recording.title}):`, error);
+      }
+    }
+    if (seen.size > MAX_SEEN_SEGMENTS) {
+      Array.from(seen).slice(0, seen.size - MAX_SEEN_SEGMENTS).forEach((url) => seen.delete(url));
+    }
+
+    if (added > 0) {
+      await writePlaylist(dir, entries, current.container === 'mp4', false);
+      // 录制中被删除的任务直接停止
+      const latest = await db.getLiveRecording(recording.id);
+      if (!latest) return null;
+      await db.saveLiveRecording(current);
+
+      const others = Object.values(await db.getAllLiveRecordings()).filter((r) => r.id !== recording.id);
+      if (isQuotaExceeded(usageOf([...others, current], recording.username, settings))) {
+        return '已达到录制空间配额，录制提前结束';
+      }
+    }
+    if (playlist.ended) break;
+
+    await sleep(Math.max(1000, (playlist.targetDuration * 1000) / 2), signal);
+  }
+
+  await db.saveLiveRecording(current);
+  return signal.aborted ? '已手动停止' : null;
+}
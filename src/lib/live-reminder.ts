@@ -0,0 +1,253 @@
+/* eslint-disable no-console */
+
+/**
+ * 节目提醒
+ *
+ * 用户在节目单中为未开始的节目设置提醒，提醒保存在存储中。进程内调度器每 30 秒检查一次，
+ * 节目开始前 REMINDER_LEAD_MINUTES 分钟通过 TelegramAuthConfig 中的机器人推送给已绑定的用户；
+ * 站内通知和自动切台由前端根据提醒列表完成。节目结束后提醒自动清理。
+ */
+
+import { randomBytes } from 'crypto';
+
+import { AdminConfig } from './admin.types';
+import { getConfig } from './config';
+import { db } from './db';
+import { getCachedLiveChannels } from './live';
+import { LivePreferences, LiveReminder } from './types';
+
+export const REMINDER_LEAD_MINUTES = 5;
+
+const SCHEDULER_INTERVAL = 30 * 1000;
+const MAX_REMINDERS_PER_USER = 200;
+const TELEGRAM_BIND_TTL = 10 * 60; // 绑定链接有效期（秒）
+const TELEGRAM_BIND_PREFIX = 'remind_'; // /start 参数前缀，与登录链接区分
+
+const telegramBindKey = (token: string) => `telegram_reminder_bind:${token}`;
+
+/**
+ * 可用于推送提醒的 Telegram 机器人，未启用 Telegram 登录时返回 null
+ */
+export function getReminderTelegramBot(
+  config: AdminConfig
+): { botToken: string; botUsername: string } | null {
+  const telegram = config.TelegramAuthConfig;
+  if (!telegram?.enabled || !telegram.botToken || !telegram.botUsername) return null;
+  return { botToken: telegram.botToken, botUsername: telegram.botUsername };
+}
+
+export async function listUserReminders(username: string): Promise<LiveReminder[]> {
+  const reminders = await db.getAllLiveReminders();
+  return Object.values(reminders)
+    .filter((reminder) => reminder.username === username)
+    .sort((a, b) => a.startAt - b.startAt);
+}
+
+/**
+ * 为节目单中的节目创建提醒，同一频道同一时间的节目只保留一条
+ */
+export async function createLiveReminder(
+  username: string,
+  input: { sourceKey: string; channelId: string; title: string; startAt: number; endAt: number }
+): Promise<LiveReminder> {
+  const now = Date.now();
+  if (!(input.startAt > now)) {
+    throw new Error('只能为未开始的节目设置提醒');
+  }
+  if (!(input.endAt > input.startAt)) {
+    throw new Error('节目时间无效');
+  }
+
+  const config = await getConfig();
+  const liveSource = config.LiveConfig?.find((live) => live.key === input.sourceKey && !live.disabled);
+  if (!liveSource) {
+    throw new Error('直播源不存在或已禁用');
+  }
+  const channelData = await getCachedLiveChannels(input.sourceKey);
+  const channel = channelData?.channels.find((c) => c.id === input.channelId);
+  if (!channel) {
+    throw new Error('频道不存在');
+  }
+
+  const reminders = await listUserReminders(username);
+  const existing = reminders.find(
+    (r) => r.sourceKey === input.sourceKey && r.channelId === channel.id && r.startAt === input.startAt
+  );
+  if (existing) return existing;
+  if (reminders.length >= MAX_REMINDERS_PER_USER) {
+    throw new Error(`最多只能设置 ${MAX_REMINDERS_PER_USER} 个提醒`);
+  }
+
+  const reminder: LiveReminder = {
+    id: randomBytes(8).toString('hex'),
+    username,
+    sourceKey: input.sourceKey,
+    channelId: channel.id,
+    channelName: channel.name,
+    title: input.title.trim().slice(0, 100) || channel.name,
+    startAt: input.startAt,
+    endAt: input.endAt,
+    createdAt: now,
+  };
+  await db.saveLiveReminder(reminder);
+  ensureLiveReminderScheduler();
+  return reminder;
+}
+
+export async function removeLiveReminder(username: string, reminderId: string): Promise<void> {
+  const reminder = await db.getLiveReminder(reminderId);
+  if (!reminder || reminder.username !== username) {
+    throw new Error('提醒不存在');
+  }
+  await db.deleteLiveReminder(reminderId);
+}
+
+// ---------- Telegram 绑定 ----------
+
+/**
+ * 生成绑定链接：用户在 Telegram 中打开后机器人收到 /start remind_<token>，由 webhook 完成绑定
+ */
+export async function createTelegramBindLink(username: string): Promise<string> {
+  const bot = getReminderTelegramBot(await getConfig());
+  if (!bot) {
+    throw new Error('站点未启用 Telegram 机器人');
+  }
+  const token = randomBytes(16).toString('hex');
+  await db.setCache(telegramBindKey(token), { username }, TELEGRAM_BIND_TTL);
+  return `https://t.me/${bot.botUsername}?start=${TELEGRAM_BIND_PREFIX}${token}`;
+}
+
+export function isTelegramBindPayload(payload: string): boolean {
+  return payload.startsWith(TELEGRAM_BIND_PREFIX);
+}
+
+/**
+ * 处理机器人收到的绑定请求，成功时返回绑定的用户名（链接只能使用一次）
+ */
+export async function bindTelegramChat(payload: string, chatId: number): Promise<string | null> {
+  const token = payload.slice(TELEGRAM_BIND_PREFIX.length);
+  if (!token) return null;
+  const data = await db.getCache(telegramBindKey(token));
+  if (!data?.username) return null;
+  await db.deleteCache(telegramBindKey(token));
+  await updateTelegramChatId(data.username, chatId);
+  return data.username;
+}
+
+export async function unbindTelegramChat(username: string): Promise<void> {
+  await updateTelegramChatId(username, undefined);
+}
+
+async function updateTelegramChatId(username: string, chatId: number | undefined): Promise<void> {
+  const current = await db.getLivePreferences(username);
+  const next: LivePreferences = {
+    pinnedGroups: current?.pinnedGroups || [],
+    channelNames: current?.channelNames || {},
+    channelOrder: current?.channelOrder || [],
+    quality: current?.quality,
+    telegramChatId: chatId,
+    // 只改绑定状态时不更新 updatedAt，避免被直播页当作已同步过的偏好
+    updatedAt: current?.updatedAt || 0,
+  };
+  await db.saveLivePreferences(username, next);
+}
+
+async function sendTelegramMessage(botToken: string, chatId: number, text: string): Promise<boolean> {
+  try {
+    const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: chatId, text, disable_web_page_preview: true }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      console.error('发送 Telegram 提醒失败:', await response.text());
+    }
+    return response.ok;
+  } catch (error) {
+    console.error('发送 Telegram 提醒失败:', error);
+    return false;
+  }
+}
+
+// ---------- 调度器 ----------
+
+interface SchedulerState {
+  timer: ReturnType<typeof setInterval> | null;
+  ticking: boolean;
+}
+
+// 挂在 globalThis 上，避免开发模式热更新时重复启动
+function getSchedulerState(): SchedulerState {
+  const holder = globalThis as typeof globalThis & { __liveReminderScheduler?: SchedulerState };
+  if (!holder.__liveReminderScheduler) {
+    holder.__liveReminderScheduler = { timer: null, ticking: false };
+  }
+  return holder.__liveReminderScheduler;
+}
+
+/**
+ * 启动进程内调度器（幂等），提醒接口和定时任务都会调用
+ */
+export function ensureLiveReminderScheduler(): void {
+  if ((process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') === 'localstorage') return;
+  const state = getSchedulerState();
+  if (state.timer) return;
+  state.timer = setInterval(() => {
+    void runSchedulerTick();
+  }, SCHEDULER_INTERVAL);
+  state.timer.unref?.();
+  void runSchedulerTick();
+}
+
+async function runSchedulerTick(): Promise<void> {
+  const state = getSchedulerState();
+  if (state.ticking) return;
+  state.ticking = true;
+  try {
+    const now = Date.now();
+    const reminders = Object.values(await db.getAllLiveReminders());
+    if (reminders.length === 0) return;
+
+    const config = await getConfig();
+    const bot = getReminderTelegramBot(config);
+    const siteName = config.SiteConfig?.SiteName || 'LunaTV';
+    const chatIds = new Map<string, number | undefined>();
+
+    for (const reminder of reminders) {
+      if (reminder.endAt <= now) {
+        await db.deleteLiveReminder(reminder.id);
+        continue;
+      }
+      if (reminder.notifiedAt || reminder.startAt - REMINDER_LEAD_MINUTES * 60 * 1000 > now) {
+        continue;
+      }
+
+      if (bot) {
+        if (!chatIds.has(reminder.username)) {
+          const preferences = await db.getLivePreferences(reminder.username);
+          chatIds.set(reminder.username, preferences?.telegramChatId);
+        }
+        const chatId = chatIds.get(reminder.username);
+        if (chatId) {
+          const startTime = new Date(reminder.startAt).toLocaleTimeString('zh-CN', {
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false,
+          });
+          const started = reminder.startAt <= now;
+          await sendTelegramMessage(
+            bot.botToken,
+            chatId,
+            `🔔 ${siteName} 节目提醒\n\n${reminder.title}\n${reminder.channelName} · ${startTime} ${started ? '已开始' : '即将开始'}`
+          );
+        }
+      }
+      await db.saveLiveReminder({ ...reminder, notifiedAt: now });
+    }
+  } catch (error) {
+    console.error('节目提醒调度失败:', error);
+  } finally {
+    state.ticking = false;
+  }
+}
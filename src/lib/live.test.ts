@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+import { gzipSync } from 'zlib';
+
+import {
+  getCachedLiveChannels,
+  refreshLiveChannels,
+  splitEpgUrls,
+} from './live';
+
+jest.mock('./config', () => ({ getConfig: jest.fn() }));
+jest.mock('./db', () => ({ db: {} }));
+
+const HOUR = 60 * 60 * 1000;
+
+// XMLTV 时间格式：YYYYMMDDHHMMSS +0000，按当前时间偏移若干小时
+function xmltvTime(offsetHours: number): string {
+  const iso = new Date(Date.now() + offsetHours * HOUR).toISOString();
+  return `${iso.slice(0, 19).replace(/\D/g, '')} +0000`;
+}
+
+function programme(channel: string, startHours: number, title: string): string {
+  return `<programme start="${xmltvTime(startHours)}" stop="${xmltvTime(startHours + 1)}" channel="${channel}"><title lang="zh">${title}</title></programme>`;
+}
+
+function mockFetch(routes: Record<string, string | Buffer | number>) {
+  global.fetch = jest.fn(async (url: string) => {
+    const route = routes[url];
+    if (route === undefined) throw new Error(`unexpected fetch ${url}`);
+    if (typeof route === 'number') return new Response('', { status: route });
+    return new Response(
+      typeof route === 'string' ? route : new Uint8Array(route)
+    );
+  }) as unknown as typeof fetch;
+}
+
+let seq = 0;
+// 每个用例使用不同的直播源 key，避免命中模块内的 EPG 缓存
+async function loadChannels(playlist: string, epg?: string) {
+  seq += 1;
+  const key = `live-${seq}`;
+  const url = `https://live.example.com/${key}.m3u`;
+  mockFetch({ ...routes, [url]: playlist });
+  const count = await refreshLiveChannels({
+    key,
+    name: key,
+    url,
+    epg,
+    from: 'custom',
+  });
+  expect(count).toBeGreaterThan(0);
+  return getCachedLiveChannels(key);
+}
+
+let routes: Record<string, string | Buffer | number> = {};
+
+const PLAYLIST = [
+  '#EXTM3U',
+  '#EXTINF:-1 tvg-id="cctv1",CCTV-1',
+  'https://live.example.com/cctv1.m3u8',
+  '#EXTINF:-1,湖南卫视 HD',
+  'https://live.example.com/hunan.m3u8',
+].join('\n');
+
+beforeEach(() => {
+  routes = {};
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('splitEpgUrls', () => {
+  it('splits on commas and whitespace, keeps http urls and dedupes', () => {
+    expect(
+      splitEpgUrls(
+        'https://a.com/e.xml, https://b.com/e.xml.gz\nftp://c.com/e.xml,https://a.com/e.xml'
+      )
+    ).toEqual(['https://a.com/e.xml', 'https://b.com/e.xml.gz']);
+  });
+});
+
+describe('XMLTV parsing', () => {
+  const EPG = [
+    '<?xml version="1.0" encoding="UTF-8"?><tv>',
+    '<channel id="cctv1"><display-name>CCTV-1</display-name><icon src="https://logo.example.com/cctv1.png?a=1&amp;b=2" /></channel>',
+    '<channel id="hunan"><display-name lang="zh">湖南卫视</display-name></channel>',
+    '<channel id="other"><display-name>无关频道</display-name></channel>',
+    programme('cctv1', -30, '过期节目'),
+    programme('cctv1', 0, '新闻联播 &amp; 天气预报'),
+    programme('cctv1', 1, '<![CDATA[焦点访谈]]>'),
+    programme('hunan', 0, '快乐大本营'),
+    programme('other', 0, '不需要的节目'),
+    '</tv>',
+  ].join('');
+
+  it('maps programmes by tvg-id and channel name, keeping the retention window', async () => {
+    routes['https://epg.example.com/e.xml'] = EPG;
+    const live = await loadChannels(PLAYLIST, 'https://epg.example.com/e.xml');
+
+    expect(live?.epgs.cctv1.map((p) => p.title)).toEqual([
+      '新闻联播 & 天气预报',
+      '焦点访谈',
+    ]);
+    expect(live?.epgs['湖南卫视 HD'].map((p) => p.title)).toEqual([
+      '快乐大本营',
+    ]);
+    expect(Object.keys(live?.epgs || {})).toHaveLength(2);
+    expect(live?.epgLogos?.cctv1).toBe(
+      'https://logo.example.com/cctv1.png?a=1&b=2'
+    );
+  });
+
+  it('decompresses gzip feeds and reads the x-tvg-url header', async () => {
+    routes['https://epg.example.com/e.xml.gz'] = gzipSync(Buffer.from(EPG));
+    const live = await loadChannels(
+      PLAYLIST.replace(
+        '#EXTM3U',
+        '#EXTM3U x-tvg-url="https://epg.example.com/e.xml.gz"'
+      )
+    );
+
+    expect(live?.epgUrl).toBe('https://epg.example.com/e.xml.gz');
+    expect(live?.epgs.cctv1).toHaveLength(2);
+  });
+
+  it('merges several feeds in start order and skips failing ones', async () => {
+    routes['https://a.example.com/e.xml'] =
+      `<tv>${programme('cctv1', 2, '电视剧')}${programme('cctv1', 0, '新闻')}</tv>`;
+    routes['https://b.example.com/e.xml'] =
+      `<tv>${programme('cctv1', 0, '新闻（重复）')}${programme('cctv1', 1, '天气')}</tv>`;
+    routes['https://c.example.com/e.xml'] = 500;
+    const live = await loadChannels(
+      PLAYLIST,
+      'https://a.example.com/e.xml,https://b.example.com/e.xml,https://c.example.com/e.xml'
+    );
+
+    expect(live?.epgs.cctv1.map((p) => p.title)).toEqual([
+      '新闻',
+      '天气',
+      '电视剧',
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('https://c.example.com/e.xml')
+    );
+  });
+
+  it('keeps the channels when every feed fails', async () => {
+    routes['https://epg.example.com/broken.xml'] = 404;
+    const live = await loadChannels(
+      PLAYLIST,
+      'https://epg.example.com/broken.xml'
+    );
+
+    expect(live?.channels).toHaveLength(2);
+    expect(live?.epgs).toEqual({});
+  });
+});
@@ -1,8 +1,15 @@
 /* eslint-disable no-constant-condition */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { spawn } from "child_process";
+import { PassThrough, pipeline, Readable } from "stream";
+import { createGunzip } from "zlib";
+
+import { basicNormalize } from "@/lib/channel-search";
 import { getConfig } from "@/lib/config";
 import { db } from "@/lib/db";
+import { LiveCatchup, parseCatchupAttributes } from "@/lib/live-catchup";
+import { parseCustomTimeFormat } from "@/lib/time";
 
 const defaultUA = 'AptvPlayer/1.4.10';
 const TVBOX_UA = 'okhttp/4.1.0';
@@ -10,6 +17,11 @@ const TVBOX_UA = 'okhttp/4.1.0';
 // 🚀 优化：超时控制
 const FETCH_TIMEOUT = 10000; // 10秒超时
 const EPG_CACHE_TTL = 24 * 60 * 60 * 1000; // EPG缓存24小时
+const EPG_RETENTION_PAST_MS = 24 * 60 * 60 * 1000; // 保留最近一天已播出的节目（回看、全天节目单）
+const EPG_RETENTION_FUTURE_MS = 2 * 24 * 60 * 60 * 1000; // 保留未来两天的节目
+const XZ_MAGIC = Buffer.from([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]);
+// 标签之间断行，但不拆开 <title><![CDATA[...]]></title>
+const XML_TAG_BOUNDARY = /(?<!\]\])>\s*<(?!!\[CDATA\[)/g;
 
 /**
  * 带超时的 fetch 请求
@@ -34,9 +46,16 @@ async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutM
   }
 }
 
-// 🚀 优化：EPG 缓存
+interface EpgProgram {
+  start: string;
+  end: string;
+  title: string;
+}
+
+// 🚀 优化：EPG 缓存（内存 + 存储持久化）
 interface EpgCache {
-  epgs: { [key: string]: { start: string; end: string; title: string }[] };
+  epgUrl: string; // 逗号拼接的全部 EPG 地址，地址变化时缓存失效
+  epgs: { [key: string]: EpgProgram[] };
   logos: { [key: string]: string };
   timestamp: number;
 }
@@ -52,6 +71,8 @@ export interface LiveChannels {
     logo: string;
     group: string;
     url: string;
+    alternates?: string[]; // 备用地址（按优先级排列，不含 url）
+    catchup?: LiveCatchup; // 回看配置（M3U 的 catchup 属性）
   }[];
   epgUrl: string;
   epgs: {
@@ -182,14 +203,7 @@ export async function refreshLiveChannels(liveInfo: {
 
     let result: {
         tvgUrl: string;
-        channels: {
-            id: string;
-            tvgId: string;
-            name: string;
-            logo: string;
-            group: string;
-            url: string;
-        }[];
+        channels: LiveChannels['channels'];
     };
 
     if (isTvBox) {
@@ -222,10 +236,13 @@ export async function refreshLiveChannels(liveInfo: {
         return 0;
     }
 
-    const { epgs, logos } = await parseEpg(
+    // 同一分组中重复出现的频道合并为一个，其余地址作为备用
+    result.channels = mergeChannelAlternates(result.channels);
+
+    const { epgs, logos } = await loadEpg(
+      liveInfo.key,
       epgUrl,
       liveInfo.ua || defaultUA,
-      result.channels.map(channel => channel.tvgId).filter(tvgId => tvgId),
       result.channels
     );
     
@@ -343,24 +360,10 @@ async function processTvBoxContent(content: string, sourceKey: string): Promise<
 }
 
 function parseTvBoxLiveTxt(content: string, sourceKey: string): {
-  channels: {
-    id: string;
-    tvgId: string;
-    name: string;
-    logo: string;
-    group: string;
-    url: string;
-  }[];
+  channels: LiveChannels['channels'];
 } {
   const lines = content.split('\n');
-  const channels: {
-    id: string;
-    tvgId: string;
-    name: string;
-    logo: string;
-    group: string;
-    url: string;
-  }[] = [];
+  const channels: LiveChannels['channels'] = [];
   
   let currentGroup = '默认分组';
   let channelIndex = 0;
@@ -378,11 +381,9 @@ function parseTvBoxLiveTxt(content: string, sourceKey: string): {
     if (parts.length < 2) continue;
 
     const name = parts[0].trim();
-    let url = parts[1].trim();
-
-    if (url.includes('$')) {
-        url = url.split('$')[0].trim();
-    }
+    // 地址部分可能包含逗号，也可能用 # 分隔多个备用地址
+    const [url, ...alternates] = splitAlternateUrls(parts.slice(1).join(',').trim());
+    if (!url) continue;
 
     channels.push({
       id: `${sourceKey}-${channelIndex}`,
@@ -390,7 +391,8 @@ function parseTvBoxLiveTxt(content: string, sourceKey: string): {
       name: name,
       logo: '',
       group: currentGroup,
-      url: url
+      url: url,
+      ...(alternates.length > 0 ? { alternates } : {})
     });
 
     channelIndex++;
@@ -426,6 +428,60 @@ function tryParseJson(content: string): any {
   }
 }
 
+/**
+ * 拆分 # 分隔的多个地址（TVBox 写法），去掉每个地址 $ 后面的线路名称
+ * 只在 # 后紧跟协议头时拆分，避免误拆地址里的锚点
+ */
+export function splitAlternateUrls(raw: string): string[] {
+  const urls = raw
+    .split(/#(?=[a-z][a-z0-9+.-]*:\/\/)/i)
+    .map((url) => url.split('$')[0].trim())
+    .filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+/**
+ * 频道的全部播放地址：主地址在前，备用地址按优先级在后
+ */
+export function getChannelUrls(channel: { url: string; alternates?: string[] }): string[] {
+  return [channel.url, ...(channel.alternates || [])];
+}
+
+/**
+ * 合并同一分组中的重复频道（tvg-id 相同，或标准化后的名称相同），后出现的地址作为备用地址。
+ * 不用 isSameChannel 的包含 / 相似度匹配：CCTV1 和 CCTV13 会被当成同一频道
+ */
+export function mergeChannelAlternates(channels: LiveChannels['channels']): LiveChannels['channels'] {
+  const merged: LiveChannels['channels'] = [];
+  const byKey = new Map<string, LiveChannels['channels'][number]>();
+
+  for (const channel of channels) {
+    const identity = channel.tvgId || basicNormalize(channel.name);
+    if (!identity) {
+      merged.push(channel);
+      continue;
+    }
+    const key = `${channel.group}\u0000${identity}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      const first = { ...channel };
+      byKey.set(key, first);
+      merged.push(first);
+      continue;
+    }
+
+    const urls = getChannelUrls(existing);
+    const extra = getChannelUrls(channel).filter((url) => !urls.includes(url));
+    if (extra.length > 0) {
+      existing.alternates = [...(existing.alternates || []), ...extra];
+    }
+    if (!existing.logo && channel.logo) existing.logo = channel.logo;
+    if (!existing.catchup && channel.catchup) existing.catchup = channel.catchup;
+  }
+
+  return merged;
+}
+
 function normalizeChannelName(name: string): string {
   return name
     .replace(/^\[.*?\]\s*/g, '')
@@ -451,194 +507,366 @@ export interface EpgDebugInfo {
   programmeTagsFound: number;
 }
 
-// Internal function, not exported to avoid conflict if not needed, 
-// but refreshLiveChannels uses it.
-async function parseEpg(
+interface EpgFeed {
+  programmes: Map<string, EpgProgram[]>; // EPG 频道 id -> 节目
+  nameToChannelId: Map<string, string>; // 规范化的频道名 -> EPG 频道 id
+  logos: Map<string, string>; // EPG 频道 id -> 台标
+}
+
+/**
+ * 拆分 EPG 地址，x-tvg-url 和后台配置都允许用逗号或换行分隔多个地址
+ */
+export function splitEpgUrls(epgUrl: string): string[] {
+  return Array.from(
+    new Set(
+      (epgUrl || '')
+        .split(/[,\s]+/)
+        .map(url => url.trim())
+        .filter(url => /^https?:\/\//i.test(url))
+    )
+  );
+}
+
+function isInRetentionWindow(program: EpgProgram, now: number): boolean {
+  const start = parseCustomTimeFormat(program.start).getTime();
+  const end = parseCustomTimeFormat(program.end).getTime();
+  // 时间无法解析时保留，交给前端处理
+  if (isNaN(start) || isNaN(end)) return true;
+  return end >= now - EPG_RETENTION_PAST_MS && start <= now + EPG_RETENTION_FUTURE_MS;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[(.*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 根据开头的魔数判断压缩格式，返回解压后的数据流
+ * gzip 使用 zlib，xz 交给系统的 xzcat（Alpine 镜像的 busybox 自带）
+ */
+async function openEpgStream(body: ReadableStream<Uint8Array>, url: string): Promise<AsyncIterable<Buffer>> {
+  const iterator = Readable.fromWeb(body as any)[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return Readable.from([]);
+
+  const head = Buffer.from(first.value);
+  const input = Readable.from((async function* () {
+    yield head;
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (done) return;
+      yield Buffer.from(value);
+    }
+  })());
+
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    console.log(`[Live] EPG is gzip compressed: ${url}`);
+    return pipeline(input, createGunzip(), () => undefined);
+  }
+
+  if (head.subarray(0, 6).equals(XZ_MAGIC)) {
+    console.log(`[Live] EPG is xz compressed: ${url}`);
+    const xz = spawn('xzcat', [], { stdio: ['pipe', 'pipe', 'ignore'] });
+    const output = new PassThrough();
+    xz.on('error', (error) => output.destroy(new Error(`xz 解压失败（需要系统安装 xzcat）: ${error.message}`)));
+    xz.on('close', (code) => {
+      if (code !== 0 && code !== null) output.destroy(new Error(`xz 解压失败，退出码 ${code}`));
+    });
+    xz.stdin.on('error', () => undefined);
+    input.on('error', (error) => output.destroy(error));
+    input.pipe(xz.stdin);
+    xz.stdout.pipe(output);
+    return output;
+  }
+
+  return input;
+}
+
+/**
+ * 流式解析单个 XMLTV 源，只保留需要的频道和保留窗口内的节目
+ */
+async function parseEpgFeed(
   epgUrl: string,
   ua: string,
-  tvgIds: string[],
-  channels?: { tvgId: string; name: string }[]
-): Promise<{
-  epgs: {
-    [key: string]: {
-      start: string;
-      end: string;
-      title: string;
-    }[]
+  tvgs: Set<string>,
+  channelNames: Set<string>
+): Promise<EpgFeed> {
+  const feed: EpgFeed = {
+    programmes: new Map(),
+    nameToChannelId: new Map(),
+    logos: new Map(),
   };
-  logos: {
-    [key: string]: string;
+  // 通过频道名匹配到的 EPG 频道 id
+  const matchedByName = new Set<string>();
+  const isWanted = (channelId: string) => tvgs.has(channelId) || matchedByName.has(channelId);
+  const now = Date.now();
+
+  console.log(`[Live] Fetching EPG from ${epgUrl} with ${FETCH_TIMEOUT}ms timeout...`);
+  const response = await fetchWithTimeout(epgUrl, {
+    headers: { 'User-Agent': ua },
+  }, FETCH_TIMEOUT);
+
+  if (!response.ok) {
+    throw new Error(`EPG fetch failed: ${response.status}`);
+  }
+  if (!response.body) return feed;
+
+  const stream = await openEpgStream(response.body, epgUrl);
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let currentChannelId = '';
+  let inChannelTag = false;
+  let currentProgram: EpgProgram | null = null;
+  let currentEpgChannelId = '';
+
+  const addDisplayName = (name: string) => {
+    const normalized = normalizeChannelName(decodeXmlEntities(name));
+    if (!feed.nameToChannelId.has(normalized)) {
+      feed.nameToChannelId.set(normalized, currentChannelId);
+    }
+    if (channelNames.has(normalized)) {
+      matchedByName.add(currentChannelId);
+    }
   };
-}> {
-  if (!epgUrl) {
-    return { epgs: {}, logos: {} };
+
+  const pushProgram = (channelId: string, program: EpgProgram) => {
+    if (!isWanted(channelId) || !isInRetentionWindow(program, now)) return;
+    const list = feed.programmes.get(channelId);
+    if (list) {
+      list.push(program);
+    } else {
+      feed.programmes.set(channelId, [program]);
+    }
+  };
+
+  const handleLine = (trimmed: string) => {
+    // 频道定义
+    if (trimmed.startsWith('<channel')) {
+      const idMatch = trimmed.match(/id="([^"]*)"/);
+      if (idMatch) {
+        currentChannelId = decodeXmlEntities(idMatch[1]);
+        inChannelTag = !trimmed.endsWith('/>');
+      }
+    } else if (inChannelTag && trimmed.startsWith('<display-name')) {
+      const nameMatch = trimmed.match(/<display-name[^>]*>(.*?)<\/display-name>/);
+      if (currentChannelId && nameMatch) {
+        addDisplayName(nameMatch[1]);
+      }
+    } else if (inChannelTag && trimmed.startsWith('<icon')) {
+      const iconMatch = trimmed.match(/<icon\s+src="([^"]*)"/);
+      if (currentChannelId && iconMatch && !feed.logos.has(currentChannelId)) {
+        feed.logos.set(currentChannelId, decodeXmlEntities(iconMatch[1]));
+      }
+    } else if (trimmed.startsWith('</channel>')) {
+      inChannelTag = false;
+      currentChannelId = '';
+    }
+    // 节目
+    else if (trimmed.startsWith('<programme')) {
+      const channelIdMatch = trimmed.match(/channel="([^"]*)"/);
+      const startMatch = trimmed.match(/start="([^"]*)"/);
+      const endMatch = trimmed.match(/stop="([^"]*)"/);
+      currentProgram = null;
+      if (channelIdMatch && startMatch && endMatch) {
+        currentProgram = { start: startMatch[1], end: endMatch[1], title: '' };
+        currentEpgChannelId = decodeXmlEntities(channelIdMatch[1]);
+      }
+    } else if (trimmed.startsWith('<title') && currentProgram) {
+      const titleMatch = trimmed.match(/<title(?:\s+[^>]*)?>(.*?)<\/title>/);
+      if (titleMatch) {
+        currentProgram.title = decodeXmlEntities(titleMatch[1]);
+        pushProgram(currentEpgChannelId, currentProgram);
+        currentProgram = null;
+      }
+    } else if (trimmed.startsWith('</programme>')) {
+      currentProgram = null;
+    }
+  };
+
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk, { stream: true });
+    // 单行 / 压缩过的 XML 在标签之间断行，统一按行解析
+    buffer = buffer.replace(XML_TAG_BOUNDARY, '>\n<');
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed) handleLine(trimmed);
+    }
   }
+  buffer += decoder.decode();
+  buffer
+    .replace(XML_TAG_BOUNDARY, '>\n<')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach(handleLine);
+
+  return feed;
+}
 
-  // 🚀 优化：检查缓存
-  const cached = epgCache.get(epgUrl);
-  if (cached && (Date.now() - cached.timestamp) < EPG_CACHE_TTL) {
-    console.log(`[Live] Using cached EPG for ${epgUrl} (age: ${Math.round((Date.now() - cached.timestamp) / 1000 / 60)}min)`);
-    return { epgs: cached.epgs, logos: cached.logos };
+// 多个源的同一频道合并节目，按开始时间排序并去重
+function mergeEpgFeeds(feeds: EpgFeed[]): EpgFeed {
+  const merged: EpgFeed = {
+    programmes: new Map(),
+    nameToChannelId: new Map(),
+    logos: new Map(),
+  };
+  for (const feed of feeds) {
+    feed.programmes.forEach((programs, channelId) => {
+      merged.programmes.set(channelId, (merged.programmes.get(channelId) || []).concat(programs));
+    });
+    feed.nameToChannelId.forEach((channelId, name) => {
+      if (!merged.nameToChannelId.has(name)) merged.nameToChannelId.set(name, channelId);
+    });
+    feed.logos.forEach((logo, channelId) => {
+      if (!merged.logos.has(channelId)) merged.logos.set(channelId, logo);
+    });
   }
+  merged.programmes.forEach((programs, channelId) => {
+    const seen = new Set<string>();
+    const unique = programs.filter(program => {
+      if (seen.has(program.start)) return false;
+      seen.add(program.start);
+      return true;
+    });
+    unique.sort((a, b) =>
+      parseCustomTimeFormat(a.start).getTime() - parseCustomTimeFormat(b.start).getTime()
+    );
+    merged.programmes.set(channelId, unique);
+  });
+  return merged;
+}
 
-  const tvgs = new Set(tvgIds);
-  const result: { [key: string]: { start: string; end: string; title: string }[] } = {};
-  const logos: { [key: string]: string } = {};
+function isPersistentStorage(): boolean {
+  return (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') !== 'localstorage';
+}
 
-  // Stub implementation for EPG parsing to keep file size manageable and safe.
-  // Real implementation follows.
-  const epgDataByChannelId: { [channelId: string]: { start: string; end: string; title: string }[] } = {};
-  const epgNameToChannelId = new Map<string, string>();
-  const epgChannelIdToLogo = new Map<string, string>();
+function getPersistedEpgKey(sourceKey: string): string {
+  return `live_epg:${sourceKey}`;
+}
 
+async function readPersistedEpg(sourceKey: string, epgUrl: string): Promise<EpgCache | null> {
+  if (!isPersistentStorage()) return null;
   try {
-    // 🚀 优化：使用超时控制
-    console.log(`[Live] Fetching EPG from ${epgUrl} with ${FETCH_TIMEOUT}ms timeout...`);
-    const response = await fetchWithTimeout(epgUrl, {
-      headers: { 'User-Agent': ua },
-    }, FETCH_TIMEOUT);
-
-    if (!response.ok) {
-      console.warn(`[Live] EPG fetch failed: ${response.status}, skipping EPG`);
-      return { epgs: {}, logos: {} };
+    const cached = await db.getCache(getPersistedEpgKey(sourceKey));
+    if (
+      cached &&
+      cached.epgUrl === epgUrl &&
+      cached.epgs &&
+      Date.now() - cached.timestamp < EPG_CACHE_TTL
+    ) {
+      return cached as EpgCache;
     }
+  } catch (error) {
+    console.warn('[Live] Failed to read persisted EPG:', error);
+  }
+  return null;
+}
 
-    const reader = response.body?.getReader();
-    if (!reader) return { epgs: {}, logos: {} };
+async function writePersistedEpg(sourceKey: string, data: EpgCache): Promise<void> {
+  if (!isPersistentStorage()) return;
+  try {
+    await db.setCache(getPersistedEpgKey(sourceKey), data, Math.floor(EPG_CACHE_TTL / 1000));
+  } catch (error) {
+    console.warn('[Live] Failed to persist EPG:', error);
+  }
+}
 
-    const decoder = new TextDecoder();
-    let buffer = '';
-    let currentChannelId = '';
-    let inChannelTag = false;
-    let currentProgram: { start: string; end: string; title: string } | null = null;
-    let currentEpgChannelId = '';
+// 去掉已经超出保留窗口的节目（缓存读取时使用）
+function trimEpgs(epgs: EpgCache['epgs']): EpgCache['epgs'] {
+  const now = Date.now();
+  const trimmed: EpgCache['epgs'] = {};
+  for (const [key, programs] of Object.entries(epgs)) {
+    trimmed[key] = programs.filter(program => isInRetentionWindow(program, now));
+  }
+  return trimmed;
+}
 
-    // Streaming parser logic - Support both single-line and multi-line XML formats
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-
-        // Handle <channel> tag - support multi-line format
-        if (trimmed.startsWith('<channel')) {
-           const idMatch = trimmed.match(/id="([^"]*)"/);
-           if (idMatch) {
-               currentChannelId = idMatch[1];
-               inChannelTag = true;
-           }
-
-           // Check if display-name is on the same line (single-line format)
-           const nameMatch = trimmed.match(/<display-name[^>]*>(.*?)<\/display-name>/);
-           if (currentChannelId && nameMatch) {
-               epgNameToChannelId.set(normalizeChannelName(nameMatch[1]), currentChannelId);
-           }
-           const iconMatch = trimmed.match(/<icon\s+src="([^"]*)"/);
-           if (currentChannelId && iconMatch) {
-               epgChannelIdToLogo.set(currentChannelId, iconMatch[1]);
-           }
-
-           // Check if it's a self-closing or closing on same line
-           if (trimmed.includes('</channel>')) {
-               inChannelTag = false;
-               currentChannelId = '';
-           }
-        }
-        // Handle display-name in multi-line format (when inside channel tag)
-        else if (inChannelTag && trimmed.startsWith('<display-name')) {
-           const nameMatch = trimmed.match(/<display-name[^>]*>(.*?)<\/display-name>/);
-           if (currentChannelId && nameMatch) {
-               epgNameToChannelId.set(normalizeChannelName(nameMatch[1]), currentChannelId);
-           }
-        }
-        // Handle icon in multi-line format (when inside channel tag)
-        else if (inChannelTag && trimmed.startsWith('<icon')) {
-           const iconMatch = trimmed.match(/<icon\s+src="([^"]*)"/);
-           if (currentChannelId && iconMatch) {
-               epgChannelIdToLogo.set(currentChannelId, iconMatch[1]);
-           }
-        }
-        // Handle closing </channel> tag
-        else if (trimmed.startsWith('</channel>')) {
-           inChannelTag = false;
-           currentChannelId = '';
-        }
-        // Handle <programme> tag
-        else if (trimmed.startsWith('<programme')) {
-             const channelIdMatch = trimmed.match(/channel="([^"]*)"/);
-             const epgChannelId = channelIdMatch ? channelIdMatch[1] : '';
-             const startMatch = trimmed.match(/start="([^"]*)"/);
-             const endMatch = trimmed.match(/stop="([^"]*)"/);
-             if (epgChannelId && startMatch && endMatch) {
-                 currentProgram = { start: startMatch[1], end: endMatch[1], title: '' };
-                 currentEpgChannelId = epgChannelId;
-                 // Check if title is on the same line (single-line format)
-                 const titleMatch = trimmed.match(/<title(?:\s+[^>]*)?>(.*?)<\/title>/);
-                 if (titleMatch) {
-                     currentProgram.title = titleMatch[1];
-                     if (!epgDataByChannelId[epgChannelId]) epgDataByChannelId[epgChannelId] = [];
-                     epgDataByChannelId[epgChannelId].push({ ...currentProgram });
-                     currentProgram = null;
-                 }
-             }
-        }
-        // Handle <title> tag in multi-line format (when inside programme tag)
-        else if (trimmed.startsWith('<title') && currentProgram) {
-             const titleMatch = trimmed.match(/<title(?:\s+[^>]*)?>(.*?)<\/title>/);
-             if (titleMatch) {
-                 currentProgram.title = titleMatch[1];
-                 if (!epgDataByChannelId[currentEpgChannelId]) epgDataByChannelId[currentEpgChannelId] = [];
-                 epgDataByChannelId[currentEpgChannelId].push({ ...currentProgram });
-                 currentProgram = null;
-             }
-        }
-      }
+/**
+ * 加载直播源的节目单：内存缓存 → 存储中的持久化缓存 → 拉取并解析所有 EPG 地址
+ * 任一地址失败不影响其他地址，全部失败时返回空节目单
+ */
+async function loadEpg(
+  sourceKey: string,
+  epgUrl: string,
+  ua: string,
+  channels: { tvgId: string; name: string }[]
+): Promise<{ epgs: EpgCache['epgs']; logos: EpgCache['logos'] }> {
+  const urls = splitEpgUrls(epgUrl);
+  if (urls.length === 0) {
+    return { epgs: {}, logos: {} };
+  }
+  const cacheKey = `${sourceKey}|${urls.join(',')}`;
+
+  const cached = epgCache.get(cacheKey);
+  if (cached && (Date.now() - cached.timestamp) < EPG_CACHE_TTL) {
+    console.log(`[Live] Using cached EPG for ${sourceKey} (age: ${Math.round((Date.now() - cached.timestamp) / 1000 / 60)}min)`);
+    return { epgs: trimEpgs(cached.epgs), logos: cached.logos };
+  }
+
+  const persisted = await readPersistedEpg(sourceKey, urls.join(','));
+  if (persisted) {
+    console.log(`[Live] Using persisted EPG for ${sourceKey}`);
+    epgCache.set(cacheKey, persisted);
+    return { epgs: trimEpgs(persisted.epgs), logos: persisted.logos };
+  }
+
+  const tvgs = new Set(channels.map(channel => channel.tvgId).filter(Boolean));
+  const channelNames = new Set(channels.map(channel => normalizeChannelName(channel.name)));
+
+  const settled = await Promise.allSettled(
+    urls.map(url => parseEpgFeed(url, ua, tvgs, channelNames))
+  );
+  const feeds: EpgFeed[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      feeds.push(result.value);
+    } else {
+      // 🚀 优化：超时或错误时优雅降级，不影响其他 EPG 源和直播源正常使用
+      const message = (result.reason as Error)?.message || String(result.reason);
+      console.warn(`[Live] EPG source failed, skipping: ${urls[index]} (${message})`);
     }
-  } catch (e) {
-      // 🚀 优化：超时或错误时优雅降级
-      const error = e as Error;
-      if (error.message?.includes('请求超时')) {
-        console.warn(`[Live] EPG fetch timeout (${FETCH_TIMEOUT}ms), skipping EPG: ${epgUrl}`);
-      } else {
-        console.warn(`[Live] EPG parsing error, skipping EPG: ${error.message}`);
-      }
-      // 返回空 EPG，不影响直播源正常使用
-      return { epgs: {}, logos: {} };
-  }
-
-  // Map back to M3U channels
-  if (channels) {
-    for (const channel of channels) {
-      const key = channel.tvgId || channel.name;
-      const normalizedName = normalizeChannelName(channel.name);
-
-      if (channel.tvgId && tvgs.has(channel.tvgId) && epgDataByChannelId[channel.tvgId]) {
-        result[key] = epgDataByChannelId[channel.tvgId];
-        const logoUrl = epgChannelIdToLogo.get(channel.tvgId);
-        if (logoUrl && !logos[key]) logos[key] = logoUrl;
-      } else {
-        const epgChannelId = epgNameToChannelId.get(normalizedName);
-        if (epgChannelId && epgDataByChannelId[epgChannelId]) {
-          result[key] = epgDataByChannelId[epgChannelId];
-          const logoUrl = epgChannelIdToLogo.get(epgChannelId);
-          if (logoUrl && !logos[key]) logos[key] = logoUrl;
-        }
-      }
+  });
+  if (feeds.length === 0) {
+    return { epgs: {}, logos: {} };
+  }
+
+  const merged = mergeEpgFeeds(feeds);
+  const result: EpgCache['epgs'] = {};
+  const logos: EpgCache['logos'] = {};
+
+  // 映射回 M3U 频道：优先 tvg-id，其次按频道名匹配
+  for (const channel of channels) {
+    const key = channel.tvgId || channel.name;
+    let epgChannelId = '';
+    if (channel.tvgId && merged.programmes.has(channel.tvgId)) {
+      epgChannelId = channel.tvgId;
+    } else {
+      epgChannelId = merged.nameToChannelId.get(normalizeChannelName(channel.name)) || '';
+    }
+    const programs = epgChannelId ? merged.programmes.get(epgChannelId) : undefined;
+    if (programs) {
+      result[key] = programs;
+      const logoUrl = merged.logos.get(epgChannelId);
+      if (logoUrl && !logos[key]) logos[key] = logoUrl;
     }
   }
 
-  // 🚀 优化：保存到缓存
-  epgCache.set(epgUrl, {
+  const entry: EpgCache = {
+    epgUrl: urls.join(','),
     epgs: result,
     logos,
-    timestamp: Date.now()
-  });
-  console.log(`[Live] EPG cached for ${epgUrl} (TTL: 24h)`);
+    timestamp: Date.now(),
+  };
+  epgCache.set(cacheKey, entry);
+  await writePersistedEpg(sourceKey, entry);
+  console.log(`[Live] EPG loaded for ${sourceKey}: ${feeds.length}/${urls.length} sources, ${Object.keys(result).length} channels (TTL: 24h)`);
 
   return { epgs: result, logos };
 }
@@ -675,32 +903,22 @@ export async function parseEpgWithDebug(
 
 export function parseM3U(sourceKey: string, m3uContent: string): {
   tvgUrl: string;
-  channels: {
-    id: string;
-    tvgId: string;
-    name: string;
-    logo: string;
-    group: string;
-    url: string;
-  }[];
+  channels: LiveChannels['channels'];
 } {
-  const channels: {
-    id: string;
-    tvgId: string;
-    name: string;
-    logo: string;
-    group: string;
-    url: string;
-  }[] = [];
+  const channels: LiveChannels['channels'] = [];
   const lines = m3uContent.split('\n').map(line => line.trim()).filter(line => line.length > 0);
   let tvgUrl = '';
   let channelIndex = 0;
+  // #EXTM3U 头部声明的回看属性作为所有频道的默认值
+  let catchupDefaults: LiveCatchup | undefined;
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
     if (line.startsWith('#EXTM3U')) {
       const match = line.match(/(?:x-tvg-url|url-tvg)="([^"]*)"/);
-      tvgUrl = match ? match[1].split(',')[0].trim() : '';
+      // 保留全部 EPG 地址（逗号分隔），解析节目单时逐个拉取后合并
+      tvgUrl = match ? splitEpgUrls(match[1]).join(',') : '';
+      catchupDefaults = parseCatchupAttributes(line);
       continue;
     }
     if (line.startsWith('#EXTINF:')) {
@@ -710,13 +928,20 @@ export function parseM3U(sourceKey: string, m3uContent: string): {
       const group = line.match(/group-title="([^"]*)"/)?.[1] || '无分组';
       const title = line.match(/,([^,]*)$/)?.[1].trim() || '';
       const name = title || tvgName || '';
+      const catchup = parseCatchupAttributes(line, catchupDefaults);
 
+      // 跳过 #EXTINF 与地址之间的播放器参数行（#EXTVLCOPT / #KODIPROP）
+      while (i + 1 < lines.length && /^#(EXTVLCOPT|KODIPROP)/.test(lines[i + 1])) {
+        i++;
+      }
       if (i + 1 < lines.length && !lines[i + 1].startsWith('#')) {
-        const url = lines[i + 1];
+        const [url, ...alternates] = splitAlternateUrls(lines[i + 1]);
         if (name && url) {
           channels.push({
             id: `${sourceKey}-${channelIndex}`,
-            tvgId, name, logo, group, url
+            tvgId, name, logo, group, url,
+            ...(alternates.length > 0 ? { alternates } : {}),
+            ...(catchup ? { catchup } : {})
           });
           channelIndex++;
         }
@@ -727,6 +952,72 @@ export function parseM3U(sourceKey: string, m3uContent: string): {
   return { tvgUrl, channels };
 }
 
+// M3U 属性值不支持转义，把双引号换成单引号
+const m3uAttr = (value: string) => value.replace(/"/g, "'");
+
+export function formatM3UHeader(epgUrl?: string): string {
+  return epgUrl ? `#EXTM3U x-tvg-url="${m3uAttr(epgUrl)}"` : '#EXTM3U';
+}
+
+/**
+ * 把频道序列化为 M3U 条目（parseM3U 的逆过程），保留 tvg 属性与回看属性
+ * overrides.name 只改显示名称，tvg-name 仍为原名以便播放器匹配节目单
+ */
+export function formatM3UEntry(
+  channel: LiveChannels['channels'][number],
+  overrides: { name?: string; group?: string; tvgId?: string; ua?: string } = {}
+): string[] {
+  const attrs = [
+    `tvg-id="${m3uAttr(overrides.tvgId ?? channel.tvgId)}"`,
+    `tvg-name="${m3uAttr(channel.name)}"`,
+    `tvg-logo="${m3uAttr(channel.logo)}"`,
+    `group-title="${m3uAttr(overrides.group ?? channel.group)}"`,
+  ];
+  if (channel.catchup) {
+    attrs.push(`catchup="${channel.catchup.mode}"`);
+    if (channel.catchup.source) attrs.push(`catchup-source="${m3uAttr(channel.catchup.source)}"`);
+    if (channel.catchup.days) attrs.push(`catchup-days="${channel.catchup.days}"`);
+  }
+  const lines = [`#EXTINF:-1 ${attrs.join(' ')},${(overrides.name || channel.name).replace(/[\r\n]/g, ' ')}`];
+  if (overrides.ua) {
+    lines.push(`#EXTVLCOPT:http-user-agent=${overrides.ua}`);
+  }
+  lines.push(channel.url);
+  return lines;
+}
+
+// ----------------------------------------------------------------------
+// 直播流请求（m3u8 / 分片代理与服务端录制共用）
+// ----------------------------------------------------------------------
+
+export function getLiveSourceUA(liveSource?: { ua?: string } | null): string {
+  return liveSource?.ua || defaultUA;
+}
+
+/**
+ * 拉取直播播放列表 / 分片时使用的请求头，参考 hls.js fetch-loader
+ */
+export function getLiveRequestHeaders(ua: string, kind: 'playlist' | 'segment'): Record<string, string> {
+  if (kind === 'segment') {
+    return {
+      'User-Agent': ua,
+      'Accept': 'video/mp2t, video/*, */*',
+      'Accept-Encoding': 'identity',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    };
+  }
+  return {
+    'User-Agent': ua,
+    'Accept': 'application/vnd.apple.mpegurl, application/x-mpegurl, application/octet-stream, */*',
+    'Accept-Encoding': 'identity', // 避免gzip压缩导致的处理复杂性
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Cache-Control': 'no-cache',
+    'Pragma': 'no-cache',
+    'Connection': 'keep-alive'
+  };
+}
+
 // ----------------------------------------------------------------------
 // URL Resolution Functions - FULL IMPLEMENTATION RESTORED
 // ----------------------------------------------------------------------
@@ -0,0 +1,519 @@
+/* eslint-disable no-console */
+
+/**
+ * 服务器离线下载
+ *
+ * 播放页提交整季（或选中的若干集）下载，每集一个任务保存在存储中，分片写入服务器磁盘
+ * （OFFLINE_DOWNLOAD_DIR）。进程内队列按提交顺序同时下载若干个任务，AES-128 加密的分片用
+ * AESDecryptor 解密，全部分片下载完成后用 mux.js 转为单个 MP4。已下载的分片保留在磁盘上，
+ * 服务重启、暂停或失败重试后都从未完成的分片继续。
+ */
+
+import { randomBytes } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+
+import { AdminConfig } from './admin.types';
+import { getConfig } from './config';
+import { db } from './db';
+import { AESDecryptor } from './download/aes-decryptor';
+import { M3U8Task, parseM3U8 } from './download/m3u8-downloader';
+import { isTSFormat, StreamingTransmuxer } from './download/mp4-transmuxer';
+import { fetchVideoDetail } from './fetchVideoDetail';
+import { OfflineDownloadJob } from './types';
+import { DEFAULT_USER_AGENT } from './user-agent';
+
+// 下载文件目录（Docker 部署时应挂载为持久化卷）
+export const OFFLINE_DOWNLOAD_DIR = process.env.OFFLINE_DOWNLOAD_DIR || '/tmp/offline-downloads';
+const OUTPUT_FILE = 'video.mp4';
+const PARTS_DIR = 'parts';
+
+const QUEUE_INTERVAL = 30 * 1000;
+const FETCH_TIMEOUT = 30000;
+const SEGMENT_CONCURRENCY = 4; // 单个任务同时下载的分片数
+const SEGMENT_RETRIES = 3;
+const PROGRESS_SAVE_INTERVAL = 5000;
+const MAX_EPISODES_PER_REQUEST = 200;
+const MB = 1024 * 1024;
+
+export interface OfflineDownloadSettings {
+  enabled: boolean;
+  userQuotaBytes: number; // 0 表示不限
+  totalQuotaBytes: number;
+  maxConcurrentJobs: number;
+}
+
+export interface OfflineDownloadUsage {
+  userBytes: number;
+  totalBytes: number;
+  userQuotaBytes: number;
+  totalQuotaBytes: number;
+}
+
+export function getOfflineDownloadSettings(config: AdminConfig): OfflineDownloadSettings {
+  const cfg = config.DownloadConfig;
+  return {
+    enabled: (cfg?.enabled ?? true) && (cfg?.serverEnabled ?? false),
+    userQuotaBytes: Math.max(0, cfg?.userQuotaMB ?? 5120) * MB,
+    totalQuotaBytes: Math.max(1, cfg?.totalQuotaMB ?? 20480) * MB,
+    maxConcurrentJobs: Math.min(5, Math.max(1, cfg?.maxConcurrentJobs ?? 2)),
+  };
+}
+
+export function getOfflineDownloadDir(jobId: string): string {
+  return path.join(OFFLINE_DOWNLOAD_DIR, jobId);
+}
+
+export function getOfflineDownloadFile(jobId: string): string {
+  return path.join(getOfflineDownloadDir(jobId), OUTPUT_FILE);
+}
+
+function usageOf(jobs: OfflineDownloadJob[], username: string, settings: OfflineDownloadSettings) {
+  const usage: OfflineDownloadUsage = {
+    userBytes: 0,
+    totalBytes: 0,
+    userQuotaBytes: settings.userQuotaBytes,
+    totalQuotaBytes: settings.totalQuotaBytes,
+  };
+  jobs.forEach((job) => {
+    usage.totalBytes += job.bytes;
+    if (job.username === username) usage.userBytes += job.bytes;
+  });
+  return usage;
+}
+
+function isQuotaExceeded(usage: OfflineDownloadUsage): boolean {
+  return (
+    usage.totalBytes >= usage.totalQuotaBytes ||
+    (usage.userQuotaBytes > 0 && usage.userBytes >= usage.userQuotaBytes)
+  );
+}
+
+export async function getOfflineDownloadUsage(username: string): Promise<OfflineDownloadUsage> {
+  const [config, jobs] = await Promise.all([getConfig(), db.getAllOfflineDownloads()]);
+  return usageOf(Object.values(jobs), username, getOfflineDownloadSettings(config));
+}
+
+/**
+ * 用户的下载任务：按提交时间倒序，同一次提交的剧集按集数排列
+ */
+export async function listUserOfflineDownloads(username: string): Promise<OfflineDownloadJob[]> {
+  const jobs = await db.getAllOfflineDownloads();
+  return Object.values(jobs)
+    .filter((job) => job.username === username)
+    .sort((a, b) =>
+      a.source === b.source && a.videoId === b.videoId
+        ? a.episodeIndex - b.episodeIndex
+        : b.createdAt - a.createdAt
+    );
+}
+
+/**
+ * 添加下载任务；episodes 为空时下载整季。剧集地址由服务端重新获取详情得到
+ */
+export async function enqueueOfflineDownloads(
+  username: string,
+  input: { source: string; id: string; episodes?: number[] }
+): Promise<{ jobs: OfflineDownloadJob[]; skipped: number }> {
+  const config = await getConfig();
+  const settings = getOfflineDownloadSettings(config);
+  if (!settings.enabled) {
+    throw new Error('服务器离线下载未启用');
+  }
+
+  const detail = await fetchVideoDetail({ source: input.source, id: input.id });
+  const episodes = detail.episodes || [];
+  if (episodes.length === 0) {
+    throw new Error('没有可下载的剧集');
+  }
+
+  const indexes = input.episodes?.length
+    ? Array.from(new Set(input.episodes)).filter(
+      (index) => Number.isInteger(index) && index >= 0 && index < episodes.length
+    )
+    : episodes.map((_, index) => index);
+  if (indexes.length === 0) {
+    throw new Error('所选剧集不存在');
+  }
+  if (indexes.length > MAX_EPISODES_PER_REQUEST) {
+    throw new Error(`一次最多下载 ${MAX_EPISODES_PER_REQUEST} 集`);
+  }
+
+  const allJobs = Object.values(await db.getAllOfflineDownloads());
+  if (isQuotaExceeded(usageOf(allJobs, username, settings))) {
+    throw new Error('离线下载空间已用完，请先删除不需要的视频');
+  }
+
+  // 已在队列中或已下载的剧集不再重复添加
+  const existing = new Set(
+    allJobs
+      .filter((job) => job.username === username && job.source === input.source && job.videoId === input.id)
+      .map((job) => job.episodeIndex)
+  );
+
+  const now = Date.now();
+  const jobs: OfflineDownloadJob[] = [];
+  let skipped = 0;
+  indexes.sort((a, b) => a - b).forEach((index) => {
+    const url = episodes[index];
+    if (existing.has(index) || !/^https?:\/\//i.test(url) || !url.toLowerCase().includes('.m3u8')) {
+      skipped++;
+      return;
+    }
+    jobs.push({
+      id: randomBytes(8).toString('hex'),
+      username,
+      source: input.source,
+      sourceName: detail.source_name || input.source,
+      videoId: input.id,
+      title: detail.title,
+      cover: detail.poster || '',
+      year: detail.year || '',
+      episodeIndex: index,
+      episodeTitle: detail.episodes_titles?.[index] || `第${index + 1}集`,
+      url,
+      status: 'queued',
+      createdAt: now + jobs.length, // 保持提交顺序
+      totalSegments: 0,
+      doneSegments: 0,
+      bytes: 0,
+      duration: 0,
+    });
+  });
+
+  if (jobs.length === 0) {
+    throw new Error(skipped > 0 ? '所选剧集已在下载列表中，或不是 m3u8 格式' : '没有可下载的剧集');
+  }
+
+  for (const job of jobs) {
+    await db.saveOfflineDownload(job);
+  }
+  ensureOfflineDownloadScheduler();
+  void runQueueTick();
+  return { jobs, skipped };
+}
+
+/**
+ * 暂停 / 继续任务；失败的任务继续时从已下载的分片开始重试
+ */
+export async function updateOfflineDownload(
+  username: string,
+  jobId: string,
+  action: 'pause' | 'resume'
+): Promise<OfflineDownloadJob> {
+  const job = await db.getOfflineDownload(jobId);
+  if (!job || job.username !== username) {
+    throw new Error('下载任务不存在');
+  }
+
+  let updated: OfflineDownloadJob;
+  if (action === 'pause') {
+    if (job.status !== 'queued' && job.status !== 'downloading') {
+      throw new Error('任务未在下载');
+    }
+    getQueueState().active.get(jobId)?.abort();
+    updated = { ...job, status: 'paused' };
+  } else {
+    if (job.status !== 'paused' && job.status !== 'failed') {
+      throw new Error('任务无需继续');
+    }
+    updated = { ...job, status: 'queued', error: undefined };
+  }
+
+  await db.saveOfflineDownload(updated);
+  if (action === 'resume') {
+    ensureOfflineDownloadScheduler();
+    void runQueueTick();
+  }
+  return updated;
+}
+
+/**
+ * 删除任务及其文件，下载中的任务先停止
+ */
+export async function removeOfflineDownload(username: string, jobId: string): Promise<void> {
+  const job = await db.getOfflineDownload(jobId);
+  if (!job || job.username !== username) {
+    throw new Error('下载任务不存在');
+  }
+  getQueueState().active.get(jobId)?.abort();
+  await db.deleteOfflineDownload(jobId);
+  await fs.rm(getOfflineDownloadDir(jobId), { recursive: true, force: true });
+}
+
+// ---------- 下载队列 ----------
+
+interface QueueState {
+  timer: ReturnType<typeof setInterval> | null;
+  ticking: boolean;
+  active: Map<string, AbortController>;
+}
+
+// 挂在 globalThis 上，避免开发模式热更新时重复启动
+function getQueueState(): QueueState {
+  const holder = globalThis as typeof globalThis & { __offlineDownloadQueue?: QueueState };
+  if (!holder.__offlineDownloadQueue) {
+    holder.__offlineDownloadQueue = { timer: null, ticking: false, active: new Map() };
+  }
+  return holder.__offlineDownloadQueue;
+}
+
+/**
+ * 启动进程内下载队列（幂等），下载接口和定时任务都会调用
+ */
+export function ensureOfflineDownloadScheduler(): void {
+  if ((process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') === 'localstorage') return;
+  const state = getQueueState();
+  if (state.timer) return;
+  state.timer = setInterval(() => {
+    void runQueueTick();
+  }, QUEUE_INTERVAL);
+  state.timer.unref?.();
+  void runQueueTick();
+}
+
+async function runQueueTick(): Promise<void> {
+  const state = getQueueState();
+  if (state.ticking) return;
+  state.ticking = true;
+  try {
+    const settings = getOfflineDownloadSettings(await getConfig());
+    if (!settings.enabled) return;
+
+    // 状态为下载中但不在本进程中的任务是服务重启前中断的，优先继续
+    const pending = Object.values(await db.getAllOfflineDownloads())
+      .filter((job) => (job.status === 'queued' || job.status === 'downloading') && !state.active.has(job.id))
+      .sort((a, b) => {
+        if (a.status !== b.status) return a.status === 'downloading' ? -1 : 1;
+        return a.createdAt - b.createdAt;
+      });
+    for (const job of pending) {
+      if (state.active.size >= settings.maxConcurrentJobs) break;
+      startJob(job);
+    }
+  } catch (error) {
+    console.error('离线下载队列调度失败:', error);
+  } finally {
+    state.ticking = false;
+  }
+}
+
+function startJob(job: OfflineDownloadJob): void {
+  const state = getQueueState();
+  const controller = new AbortController();
+  state.active.set(job.id, controller);
+  console.log(`📥 开始离线下载: ${job.title} ${job.episodeTitle}`);
+
+  downloadJob(job, controller.signal)
+    .then(
+      () => null,
+      (error) => {
+        console.error(`离线下载 ${job.title} ${job.episodeTitle} 失败:`, error);
+        return error instanceof Error ? error.message : '下载失败';
+      }
+    )
+    .then(async (error) => {
+      state.active.delete(job.id);
+      const latest = await db.getOfflineDownload(job.id);
+      if (latest && controller.signal.aborted) {
+        // 暂停接口写入状态后，下载过程中的进度保存可能又把状态改回下载中
+        if (latest.status === 'downloading') {
+          await db.saveOfflineDownload({ ...latest, status: 'paused' });
+        }
+      } else if (latest && error) {
+        await db.saveOfflineDownload({ ...latest, status: 'failed', error, finishedAt: Date.now() });
+      }
+      void runQueueTick();
+    })
+    .catch((error) => console.error('保存离线下载结果失败:', error));
+}
+
+// ---------- 下载 ----------
+
+function partName(index: number): string {
+  return `${String(index).padStart(6, '0')}.ts`;
+}
+
+// 默认 IV 为 16 字节大端序的分片序号
+function sequenceIv(sequence: number): ArrayBuffer {
+  const iv = new ArrayBuffer(16);
+  new DataView(iv).setUint32(12, sequence >>> 0);
+  return iv;
+}
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+// 请求上游资源：单次请求超时，暂停或删除任务时立即中止
+async function fetchUpstream(url: string, signal: AbortSignal): Promise<Response> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': DEFAULT_USER_AGENT },
+    signal: AbortSignal.any([AbortSignal.timeout(FETCH_TIMEOUT), signal]),
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+}
+
+async function fetchBinary(url: string, signal: AbortSignal): Promise<Buffer> {
+  const response = await fetchUpstream(url, signal);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function fetchText(url: string, signal: AbortSignal): Promise<string> {
+  const response = await fetchUpstream(url, signal);
+  return response.text();
+}
+
+async function fetchSegment(url: string, signal: AbortSignal): Promise<Buffer> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < SEGMENT_RETRIES && !signal.aborted; attempt++) {
+    try {
+      return await fetchBinary(url, signal);
+    } catch (error) {
+      lastError = error;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * (attempt + 1)));
+    }
+  }
+  throw new Error(`分片下载失败：${lastError instanceof Error ? lastError.message : lastError}`);
+}
+
+// 返回分片解密函数，未加密时原样返回
+async function createSegmentDecryptor(
+  task: M3U8Task,
+  signal: AbortSignal
+): Promise<(data: Buffer, index: number) => Buffer> {
+  const method = task.aesConf.method.replace(/"/g, '').toUpperCase();
+  if (!method || method === 'NONE') return (data) => data;
+  if (method !== 'AES-128' || !task.aesConf.uri) {
+    throw new Error(`不支持的加密方式：${task.aesConf.method}`);
+  }
+
+  const decryptor = new AESDecryptor();
+  decryptor.expandKey(toArrayBuffer(await fetchBinary(task.aesConf.uri, signal)));
+  const ivHex = task.aesConf.iv.replace(/^0x/i, '');
+  const fixedIv = ivHex ? toArrayBuffer(Buffer.from(ivHex.padStart(32, '0'), 'hex')) : null;
+  return (data, index) =>
+    Buffer.from(decryptor.decrypt(toArrayBuffer(data), 0, fixedIv || sequenceIv(index), true));
+}
+
+/**
+ * 下载所有分片并转为 MP4；暂停或删除时提前返回，出错时抛出失败原因
+ */
+async function downloadJob(job: OfflineDownloadJob, signal: AbortSignal): Promise<void> {
+  const settings = getOfflineDownloadSettings(await getConfig());
+  const dir = getOfflineDownloadDir(job.id);
+  const partsDir = path.join(dir, PARTS_DIR);
+  await fs.mkdir(partsDir, { recursive: true });
+
+  const current: OfflineDownloadJob = {
+    ...job,
+    status: 'downloading',
+    startedAt: job.startedAt || Date.now(),
+    error: undefined,
+  };
+  await db.saveOfflineDownload(current);
+
+  const task = await parseM3U8(job.url, (url) => fetchText(url, signal));
+  const total = task.tsUrlList.length;
+  if (total === 0) {
+    throw new Error('播放列表中没有视频分片');
+  }
+  const decrypt = await createSegmentDecryptor(task, signal);
+
+  // 已下载的分片（继续下载时跳过）
+  const downloaded = new Set((await fs.readdir(partsDir)).filter((name) => name.endsWith('.ts')));
+  current.totalSegments = total;
+  current.duration = Math.round(task.durationSecond);
+  current.doneSegments = 0;
+  current.bytes = 0;
+  for (const name of Array.from(downloaded)) {
+    current.doneSegments++;
+    current.bytes += (await fs.stat(path.join(partsDir, name))).size;
+  }
+  await db.saveOfflineDownload(current);
+
+  const others = Object.values(await db.getAllOfflineDownloads()).filter((j) => j.id !== job.id);
+  const stop = new AbortController();
+  signal.addEventListener('abort', () => stop.abort(), { once: true });
+
+  let lastSave = Date.now();
+  const saveProgress = async () => {
+    lastSave = Date.now();
+    const latest = await db.getOfflineDownload(job.id);
+    // 下载过程中被暂停或删除
+    if (!latest || latest.status !== 'downloading' || stop.signal.aborted) {
+      stop.abort();
+      return;
+    }
+    await db.saveOfflineDownload(current);
+    if (isQuotaExceeded(usageOf([...others, current], job.username, settings))) {
+      throw new Error('已达到离线下载空间配额');
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (!stop.signal.aborted) {
+      const index = next++;
+      if (index >= total) return;
+      const name = partName(index);
+      if (downloaded.has(name)) continue;
+
+      const data = decrypt(await fetchSegment(task.tsUrlList[index], stop.signal), index);
+      // 先写临时文件再改名，中断时不会留下不完整的分片
+      const tmpFile = path.join(partsDir, `${name}.tmp`);
+      await fs.writeFile(tmpFile, data);
+      await fs.rename(tmpFile, path.join(partsDir, name));
+      current.doneSegments++;
+      current.bytes += data.length;
+
+      if (Date.now() - lastSave >= PROGRESS_SAVE_INTERVAL) {
+        await saveProgress();
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: SEGMENT_CONCURRENCY }, () =>
+      worker().catch((error) => {
+        stop.abort();
+        throw error;
+      })
+    )
+  );
+  if (stop.signal.aborted) return;
+
+  // 转为 MP4
+  const firstPart = await fs.readFile(path.join(partsDir, partName(0)));
+  if (!isTSFormat(new Uint8Array(firstPart))) {
+    throw new Error('暂不支持该视频格式（仅支持 TS 分片）');
+  }
+  const outputFile = path.join(dir, OUTPUT_FILE);
+  const writer = (Writable.toWeb(createWriteStream(outputFile)) as unknown as WritableStream<Uint8Array>).getWriter();
+  const transmuxer = new StreamingTransmuxer(writer, task.durationSecond);
+  for (let index = 0; index < total; index++) {
+    if (signal.aborted) {
+      await writer.abort().catch(() => undefined);
+      await fs.rm(outputFile, { force: true });
+      return;
+    }
+    await transmuxer.pushAndTransmux(new Uint8Array(await fs.readFile(path.join(partsDir, partName(index)))));
+  }
+  await transmuxer.finish();
+  await fs.rm(partsDir, { recursive: true, force: true });
+
+  const latest = await db.getOfflineDownload(job.id);
+  if (!latest) return;
+  await db.saveOfflineDownload({
+    ...current,
+    status: 'completed',
+    doneSegments: total,
+    bytes: (await fs.stat(outputFile)).size,
+    finishedAt: Date.now(),
+  });
+  console.log(`✅ 离线下载完成: ${job.title} ${job.episodeTitle}`);
+}
@@ -0,0 +1,70 @@
+import {
+  getCharPinyin,
+  isPinyinQuery,
+  matchPinyin,
+  matchPinyinForms,
+  normalizePinyinQuery,
+  toPinyin,
+} from './pinyin';
+
+describe('toPinyin', () => {
+  it('converts hanzi to full pinyin and initials', () => {
+    expect(toPinyin('西游记')).toEqual({ full: 'xiyouji', initials: 'xyj' });
+  });
+
+  it('keeps latin letters and digits and drops punctuation', () => {
+    expect(toPinyin('流浪地球2：Ｗandering')).toEqual({
+      full: 'liulangdiqiu2wandering',
+      initials: 'lldq2wandering',
+    });
+  });
+
+  it('skips characters outside the table', () => {
+    expect(getCharPinyin('龘')).toBeNull();
+    expect(toPinyin('龘龙')).toEqual({ full: 'long', initials: 'l' });
+  });
+});
+
+describe('pinyin queries', () => {
+  it('detects pinyin-like input', () => {
+    expect(isPinyinQuery('xyj')).toBe(true);
+    expect(isPinyinQuery("xi'an")).toBe(true);
+    expect(isPinyinQuery('xi you ji')).toBe(true);
+    expect(isPinyinQuery('x')).toBe(false);
+    expect(isPinyinQuery('西游')).toBe(false);
+    expect(isPinyinQuery('2046')).toBe(false);
+  });
+
+  it('normalizes spaces, apostrophes and case', () => {
+    expect(normalizePinyinQuery("Xi You'Ji")).toBe('xiyouji');
+  });
+});
+
+describe('matchPinyinForms', () => {
+  const forms = toPinyin('大话西游');
+
+  it('ranks exact, prefix and contains matches', () => {
+    expect(matchPinyinForms(forms, 'dhxy')).toBe('exact');
+    expect(matchPinyinForms(forms, 'dahuaxiyou')).toBe('exact');
+    expect(matchPinyinForms(forms, 'dahua')).toBe('prefix');
+    expect(matchPinyinForms(forms, 'xiyou')).toBe('contains');
+  });
+
+  it('requires at least three letters for contains matches', () => {
+    expect(matchPinyinForms(forms, 'xy')).toBeNull();
+    expect(matchPinyinForms(forms, 'hxy')).toBe('contains');
+  });
+});
+
+describe('matchPinyin', () => {
+  it('matches titles by pinyin input', () => {
+    expect(matchPinyin('三体', 'santi')).toBe('exact');
+    expect(matchPinyin('三体', 'st')).toBe('exact');
+    expect(matchPinyin('三体', 'san ti')).toBe('exact');
+  });
+
+  it('ignores non-pinyin input', () => {
+    expect(matchPinyin('三体', '三体')).toBeNull();
+    expect(matchPinyin('三体', 'sanguo')).toBeNull();
+  });
+});
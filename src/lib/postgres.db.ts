@@ -0,0 +1,94 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
+
+import type { Pool } from 'pg';
+
+import {
+  BaseSqlStorage,
+  normalizeSqlParams,
+  SqlConnectionConfig,
+  SqlDriver,
+} from './sql-base.db';
+
+// 将 ? 占位符转换为 Postgres 的 $1, $2 ...
+function toPgPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+// 创建 Postgres 驱动（连接池，按需加载 pg）
+function createPostgresDriver(config: SqlConnectionConfig, globalSymbol: symbol): SqlDriver {
+  let driver: SqlDriver | undefined = (global as any)[globalSymbol];
+
+  if (!driver) {
+    if (!config.url) {
+      throw new Error('POSTGRES_URL env variable not set');
+    }
+
+    const poolPromise = (async (): Promise<Pool> => {
+      const pg: any = await import('pg');
+      const PoolClass = pg.Pool || pg.default?.Pool;
+      const pool: Pool = new PoolClass({
+        connectionString: config.url,
+        max: 10,
+        idleTimeoutMillis: 30000,
+        connectionTimeoutMillis: 10000,
+      });
+
+      pool.on('error', (err) => {
+        console.error(`${config.clientName} pool error:`, err);
+      });
+
+      console.log(`${config.clientName} pool created`);
+      return pool;
+    })();
+
+    poolPromise.catch((err) => {
+      console.error(`${config.clientName} initialization failed:`, err);
+    });
+
+    driver = {
+      dialect: 'postgres',
+      async query(sql, params) {
+        const pool = await poolPromise;
+        const result = await pool.query(toPgPlaceholders(sql), normalizeSqlParams(params));
+        return result.rows;
+      },
+      async execute(sql, params) {
+        const pool = await poolPromise;
+        const result = await pool.query(toPgPlaceholders(sql), normalizeSqlParams(params));
+        return result.rowCount ?? 0;
+      },
+      async batch(statements) {
+        const pool = await poolPromise;
+        const client = await pool.connect();
+        try {
+          await client.query('BEGIN');
+          for (const [sql, params] of statements) {
+            await client.query(toPgPlaceholders(sql), normalizeSqlParams(params));
+          }
+          await client.query('COMMIT');
+        } catch (err) {
+          await client.query('ROLLBACK').catch(() => undefined);
+          throw err;
+        } finally {
+          client.release();
+        }
+      },
+    };
+
+    (global as any)[globalSymbol] = driver;
+  }
+
+  return driver;
+}
+
+export class PostgresStorage extends BaseSqlStorage {
+  constructor(url?: string) {
+    const config = {
+      url: url || process.env.POSTGRES_URL!,
+      clientName: 'Postgres'
+    };
+    const globalSymbol = Symbol.for(url ? `__MOONTV_POSTGRES_CLIENT__:${url}` : '__MOONTV_POSTGRES_CLIENT__');
+    super(config, createPostgresDriver(config, globalSymbol));
+  }
+}
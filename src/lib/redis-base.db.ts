@@ -4,13 +4,25 @@ import { createClient, RedisClientType } from 'redis';
 
 import { AdminConfig } from './admin.types';
 import {
+  ApiToken,
   ContentStat,
   EpisodeSkipConfig,
   Favorite,
   IStorage,
+  LiveChannelHealthReport,
+  LivePreferences,
+  LiveRecording,
+  LiveReminder,
+  OfflineDownloadJob,
   PlayRecord,
   PlayStatsResult,
+  SearchIndexEntry,
+  SourceHealthState,
+  SourcePlaybackStats,
+  TwoFactorSecret,
+  UserAccountSnapshot,
   UserPlayStat,
+  UserSession,
 } from './types';
 
 // 搜索历史最大条数
@@ -410,6 +422,22 @@ export abstract class BaseRedisStorage implements IStorage {
       await this.withRetry(() => this.client.del(episodeSkipKeys));
     }
 
+    // 删除个人访问令牌及其反查索引
+    const tokens = await this.getApiTokens(userName);
+    for (const token of tokens) {
+      await this.withRetry(() => this.client.del(this.apiTokenIndexKey(token.tokenHash)));
+    }
+    await this.withRetry(() => this.client.del(this.apiTokensKey(userName)));
+
+    // 删除登录会话
+    await this.withRetry(() => this.client.del(this.sessionsKey(userName)));
+
+    // 删除双重验证密钥
+    await this.withRetry(() => this.client.del(this.twoFactorKey(userName)));
+
+    // 删除直播页个人偏好
+    await this.withRetry(() => this.client.del(this.livePreferencesKey(userName)));
+
     // 删除用户登入统计数据
     const loginStatsKey = `user_login_stats:${userName}`;
     await this.withRetry(() => this.client.del(loginStatsKey));
@@ -809,6 +837,13 @@ export abstract class BaseRedisStorage implements IStorage {
 
       // 删除管理员配置
       await this.withRetry(() => this.client.del(this.adminConfigKey()));
+      await this.withRetry(() => this.client.del(this.sourceHealthKey()));
+      await this.withRetry(() => this.client.del(this.liveChannelHealthKey()));
+      await this.withRetry(() => this.client.del(this.liveRecordingsKey()));
+      await this.withRetry(() => this.client.del(this.liveRemindersKey()));
+      await this.withRetry(() => this.client.del(this.offlineDownloadsKey()));
+      await this.withRetry(() => this.client.del(this.sourcePlaybackStatsKey()));
+      await this.withRetry(() => this.client.del(this.searchIndexKey()));
 
       console.log('所有数据已清空');
     } catch (error) {
@@ -1388,4 +1423,397 @@ export abstract class BaseRedisStorage implements IStorage {
       throw error;
     }
   }
+
+  // ---------- 个人访问令牌 ----------
+  private apiTokensKey(user: string) {
+    return `u:${user}:apitokens`; // Hash: tokenId -> ApiToken JSON
+  }
+
+  private apiTokenIndexKey(tokenHash: string) {
+    return `apitoken:${tokenHash}`;
+  }
+
+  async getApiTokens(userName: string): Promise<ApiToken[]> {
+    const raw = await this.withRetry(() =>
+      this.client.hGetAll(this.apiTokensKey(userName))
+    );
+    return Object.values(raw || {})
+      .map((v) => JSON.parse(v) as ApiToken)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async setApiToken(userName: string, token: ApiToken): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.apiTokensKey(userName), token.id, JSON.stringify(token))
+    );
+    await this.withRetry(() =>
+      this.client.set(this.apiTokenIndexKey(token.tokenHash), userName)
+    );
+  }
+
+  async deleteApiToken(userName: string, tokenId: string): Promise<void> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.apiTokensKey(userName), tokenId)
+    );
+    if (!raw) return;
+    const token = JSON.parse(raw) as ApiToken;
+    await this.withRetry(() => this.client.del(this.apiTokenIndexKey(token.tokenHash)));
+    await this.withRetry(() => this.client.hDel(this.apiTokensKey(userName), tokenId));
+  }
+
+  async getApiTokenOwner(tokenHash: string): Promise<string | null> {
+    const owner = await this.withRetry(() =>
+      this.client.get(this.apiTokenIndexKey(tokenHash))
+    );
+    return owner ? ensureString(owner) : null;
+  }
+
+  // ---------- 登录会话 ----------
+  private sessionsKey(user: string) {
+    return `u:${user}:sessions`; // Hash: sessionId -> UserSession JSON
+  }
+
+  async getUserSessions(userName: string): Promise<UserSession[]> {
+    const raw = await this.withRetry(() =>
+      this.client.hGetAll(this.sessionsKey(userName))
+    );
+    return Object.values(raw || {})
+      .map((v) => JSON.parse(v) as UserSession)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  async getUserSession(userName: string, sessionId: string): Promise<UserSession | null> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.sessionsKey(userName), sessionId)
+    );
+    return raw ? (JSON.parse(raw) as UserSession) : null;
+  }
+
+  async setUserSession(userName: string, session: UserSession): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.sessionsKey(userName), session.id, JSON.stringify(session))
+    );
+  }
+
+  async deleteUserSession(userName: string, sessionId: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.sessionsKey(userName), sessionId));
+  }
+
+  async deleteAllUserSessions(userName: string): Promise<void> {
+    await this.withRetry(() => this.client.del(this.sessionsKey(userName)));
+  }
+
+  // ---------- 双重验证 ----------
+  private twoFactorKey(user: string) {
+    return `u:${user}:2fa`;
+  }
+
+  async getTwoFactor(userName: string): Promise<TwoFactorSecret | null> {
+    const raw = await this.withRetry(() => this.client.get(this.twoFactorKey(userName)));
+    return raw ? (JSON.parse(raw) as TwoFactorSecret) : null;
+  }
+
+  async setTwoFactor(userName: string, data: TwoFactorSecret): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.twoFactorKey(userName), JSON.stringify(data))
+    );
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    await this.withRetry(() => this.client.del(this.twoFactorKey(userName)));
+  }
+
+  // ---------- 直播页个人偏好 ----------
+  private livePreferencesKey(user: string) {
+    return `u:${user}:live_prefs`;
+  }
+
+  async getLivePreferences(userName: string): Promise<LivePreferences | null> {
+    const raw = await this.withRetry(() => this.client.get(this.livePreferencesKey(userName)));
+    return raw ? (JSON.parse(raw) as LivePreferences) : null;
+  }
+
+  async setLivePreferences(userName: string, prefs: LivePreferences): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.livePreferencesKey(userName), JSON.stringify(prefs))
+    );
+  }
+
+  // ---------- 视频源健康状态 ----------
+  private sourceHealthKey() {
+    return 'source_health'; // Hash: sourceKey -> SourceHealthState JSON
+  }
+
+  async getAllSourceHealth(): Promise<Record<string, SourceHealthState>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.sourceHealthKey()));
+    const result: Record<string, SourceHealthState> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as SourceHealthState;
+    });
+    return result;
+  }
+
+  async setSourceHealth(sourceKey: string, state: SourceHealthState): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.sourceHealthKey(), sourceKey, JSON.stringify(state))
+    );
+  }
+
+  async deleteSourceHealth(sourceKey: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.sourceHealthKey(), sourceKey));
+  }
+
+  // ---------- 直播频道健康状态 ----------
+  private liveChannelHealthKey() {
+    return 'live_channel_health'; // Hash: liveSourceKey -> LiveChannelHealthReport JSON
+  }
+
+  async getLiveChannelHealth(sourceKey: string): Promise<LiveChannelHealthReport | null> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.liveChannelHealthKey(), sourceKey)
+    );
+    return raw ? (JSON.parse(raw) as LiveChannelHealthReport) : null;
+  }
+
+  async getAllLiveChannelHealth(): Promise<Record<string, LiveChannelHealthReport>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.liveChannelHealthKey()));
+    const result: Record<string, LiveChannelHealthReport> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as LiveChannelHealthReport;
+    });
+    return result;
+  }
+
+  async setLiveChannelHealth(sourceKey: string, report: LiveChannelHealthReport): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.liveChannelHealthKey(), sourceKey, JSON.stringify(report))
+    );
+  }
+
+  async deleteLiveChannelHealth(sourceKey: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.liveChannelHealthKey(), sourceKey));
+  }
+
+  // ---------- 直播录制任务 ----------
+  private liveRecordingsKey() {
+    return 'live_recordings'; // Hash: recordingId -> LiveRecording JSON
+  }
+
+  async getLiveRecording(recordingId: string): Promise<LiveRecording | null> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.liveRecordingsKey(), recordingId)
+    );
+    return raw ? (JSON.parse(raw) as LiveRecording) : null;
+  }
+
+  async getAllLiveRecordings(): Promise<Record<string, LiveRecording>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.liveRecordingsKey()));
+    const result: Record<string, LiveRecording> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as LiveRecording;
+    });
+    return result;
+  }
+
+  async setLiveRecording(recordingId: string, recording: LiveRecording): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.liveRecordingsKey(), recordingId, JSON.stringify(recording))
+    );
+  }
+
+  async deleteLiveRecording(recordingId: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.liveRecordingsKey(), recordingId));
+  }
+
+  // ---------- 节目提醒 ----------
+  private liveRemindersKey() {
+    return 'live_reminders'; // Hash: reminderId -> LiveReminder JSON
+  }
+
+  async getLiveReminder(reminderId: string): Promise<LiveReminder | null> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.liveRemindersKey(), reminderId)
+    );
+    return raw ? (JSON.parse(raw) as LiveReminder) : null;
+  }
+
+  async getAllLiveReminders(): Promise<Record<string, LiveReminder>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.liveRemindersKey()));
+    const result: Record<string, LiveReminder> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as LiveReminder;
+    });
+    return result;
+  }
+
+  async setLiveReminder(reminderId: string, reminder: LiveReminder): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.liveRemindersKey(), reminderId, JSON.stringify(reminder))
+    );
+  }
+
+  async deleteLiveReminder(reminderId: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.liveRemindersKey(), reminderId));
+  }
+
+  // ---------- 服务器离线下载 ----------
+  private offlineDownloadsKey() {
+    return 'offline_downloads'; // Hash: jobId -> OfflineDownloadJob JSON
+  }
+
+  async getOfflineDownload(jobId: string): Promise<OfflineDownloadJob | null> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.offlineDownloadsKey(), jobId)
+    );
+    return raw ? (JSON.parse(raw) as OfflineDownloadJob) : null;
+  }
+
+  async getAllOfflineDownloads(): Promise<Record<string, OfflineDownloadJob>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.offlineDownloadsKey()));
+    const result: Record<string, OfflineDownloadJob> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as OfflineDownloadJob;
+    });
+    return result;
+  }
+
+  async setOfflineDownload(jobId: string, job: OfflineDownloadJob): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.offlineDownloadsKey(), jobId, JSON.stringify(job))
+    );
+  }
+
+  async deleteOfflineDownload(jobId: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.offlineDownloadsKey(), jobId));
+  }
+
+  // ---------- 播放效果统计 ----------
+  private sourcePlaybackStatsKey() {
+    return 'source_playback_stats'; // Hash: region:sourceKey -> SourcePlaybackStats JSON
+  }
+
+  async getSourcePlaybackStats(statsKey: string): Promise<SourcePlaybackStats | null> {
+    const raw = await this.withRetry(() =>
+      this.client.hGet(this.sourcePlaybackStatsKey(), statsKey)
+    );
+    return raw ? (JSON.parse(raw) as SourcePlaybackStats) : null;
+  }
+
+  async getAllSourcePlaybackStats(): Promise<Record<string, SourcePlaybackStats>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.sourcePlaybackStatsKey()));
+    const result: Record<string, SourcePlaybackStats> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as SourcePlaybackStats;
+    });
+    return result;
+  }
+
+  async setSourcePlaybackStats(statsKey: string, stats: SourcePlaybackStats): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hSet(this.sourcePlaybackStatsKey(), statsKey, JSON.stringify(stats))
+    );
+  }
+
+  // ---------- 本地搜索索引 ----------
+  private searchIndexKey() {
+    return 'search_index'; // Hash: source+id -> SearchIndexEntry JSON
+  }
+
+  async getSearchIndexEntries(): Promise<Record<string, SearchIndexEntry>> {
+    const raw = await this.withRetry(() => this.client.hGetAll(this.searchIndexKey()));
+    const result: Record<string, SearchIndexEntry> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = JSON.parse(value) as SearchIndexEntry;
+    });
+    return result;
+  }
+
+  async setSearchIndexEntries(entries: Record<string, SearchIndexEntry>): Promise<void> {
+    const fields: Record<string, string> = {};
+    Object.entries(entries).forEach(([key, entry]) => {
+      fields[key] = JSON.stringify(entry);
+    });
+    if (Object.keys(fields).length === 0) return;
+    await this.withRetry(() => this.client.hSet(this.searchIndexKey(), fields));
+  }
+
+  async deleteSearchIndexEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.withRetry(() => this.client.hDel(this.searchIndexKey(), keys));
+  }
+
+  // ---------- 账户快照（在线迁移） ----------
+  async getUserAccountSnapshot(userName: string): Promise<UserAccountSnapshot> {
+    const [v1Password, rawInfo, rawStats] = await Promise.all([
+      this.withRetry(() => this.client.get(this.userPwdKey(userName))),
+      this.withRetry(() => this.client.hGetAll(this.userInfoKey(userName))),
+      this.withRetry(() => this.client.get(`user_login_stats:${userName}`)),
+    ]);
+
+    let v2Info: UserAccountSnapshot['v2Info'] = null;
+    if (rawInfo && Object.keys(rawInfo).length > 0) {
+      const info = await this.getUserInfoV2(userName);
+      if (info) {
+        v2Info = {
+          passwordHash: rawInfo.password || null,
+          role: info.role,
+          banned: info.banned,
+          tags: info.tags,
+          oidcSub: info.oidcSub,
+          enabledApis: info.enabledApis,
+          createdAt: info.createdAt,
+        };
+      }
+    }
+
+    return {
+      v1Password: v1Password !== null ? ensureString(v1Password) : null,
+      v2Info,
+      loginStats: rawStats ? JSON.parse(rawStats) : null,
+    };
+  }
+
+  async restoreUserAccountSnapshot(
+    userName: string,
+    snapshot: UserAccountSnapshot
+  ): Promise<void> {
+    if (snapshot.v1Password !== null) {
+      await this.withRetry(() =>
+        this.client.set(this.userPwdKey(userName), snapshot.v1Password!)
+      );
+    }
+
+    const info = snapshot.v2Info;
+    if (info) {
+      const createdAt = info.createdAt || Date.now();
+      const userInfo: Record<string, string> = {
+        role: info.role,
+        banned: info.banned ? 'true' : 'false',
+        created_at: createdAt.toString(),
+      };
+      if (info.passwordHash) userInfo.password = info.passwordHash;
+      if (info.tags && info.tags.length > 0) userInfo.tags = JSON.stringify(info.tags);
+      if (info.enabledApis && info.enabledApis.length > 0) {
+        userInfo.enabledApis = JSON.stringify(info.enabledApis);
+      }
+      if (info.oidcSub) {
+        userInfo.oidcSub = info.oidcSub;
+        await this.withRetry(() => this.client.set(this.oidcSubKey(info.oidcSub!), userName));
+      }
+
+      // 先删除再写入，避免目标库残留旧字段
+      await this.withRetry(() => this.client.del(this.userInfoKey(userName)));
+      await this.withRetry(() => this.client.hSet(this.userInfoKey(userName), userInfo));
+      await this.withRetry(() => this.client.zAdd(this.userListKey(), {
+        score: createdAt,
+        value: userName,
+      }));
+    }
+
+    if (snapshot.loginStats) {
+      await this.withRetry(() =>
+        this.client.set(`user_login_stats:${userName}`, JSON.stringify(snapshot.loginStats))
+      );
+    }
+  }
 }
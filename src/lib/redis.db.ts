@@ -3,12 +3,13 @@
 import { BaseRedisStorage } from './redis-base.db';
 
 export class RedisStorage extends BaseRedisStorage {
-  constructor() {
+  // url 为空时读取环境变量；显式传入时（如在线迁移的目标库）使用独立的全局连接
+  constructor(url?: string) {
     const config = {
-      url: process.env.REDIS_URL!,
+      url: url || process.env.REDIS_URL!,
       clientName: 'Redis'
     };
-    const globalSymbol = Symbol.for('__MOONTV_REDIS_CLIENT__');
+    const globalSymbol = Symbol.for(url ? `__MOONTV_REDIS_CLIENT__:${url}` : '__MOONTV_REDIS_CLIENT__');
     super(config, globalSymbol);
   }
 }
\ No newline at end of file
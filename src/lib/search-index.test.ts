@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  getSearchIndexSuggestions,
+  indexSearchResults,
+  querySearchIndex,
+  resolvePinyinTitles,
+} from './search-index';
+import { SearchResult } from './types';
+
+// switch-chinese 只提供 ESM 的 import 导出，jest 无法解析，测试中用一个小的繁简对照表代替
+jest.mock(
+  'switch-chinese',
+  () => {
+    const table: Record<string, string> = { 遊: '游', 記: '记', 龍: '龙' };
+    return {
+      __esModule: true,
+      default: () => ({
+        simplized: (text: string) =>
+          Array.from(text, (char) => table[char] || char).join(''),
+      }),
+    };
+  },
+  { virtual: true }
+);
+jest.mock('./db', () => ({ db: {} }));
+
+function result(
+  source: string,
+  id: string,
+  title: string,
+  extra: Partial<SearchResult> = {}
+): SearchResult {
+  return {
+    id,
+    title,
+    poster: '',
+    episodes: ['https://v.example.com/1.m3u8', 'https://v.example.com/2.m3u8'],
+    episodes_titles: ['1', '2'],
+    source,
+    source_name: source,
+    year: '2020',
+    ...extra,
+  };
+}
+
+beforeAll(async () => {
+  await indexSearchResults([
+    result('a', '1', '西游记'),
+    result('a', '2', '西游记之大圣归来', {
+      episodes: ['https://v.example.com/m.m3u8'],
+      year: '2015',
+    }),
+    result('b', '3', '大话西游', { area: '香港' }),
+    result('b', '4', '西遊記'),
+    result('c', '5', '流浪地球', { episodes: [], type_name: '科幻片' }),
+    result('c', '6', '三体'),
+  ]);
+});
+
+describe('querySearchIndex', () => {
+  it('ranks exact, prefix and contains title matches', async () => {
+    const hits = await querySearchIndex('西游记');
+    expect(hits.slice(0, 3).map((hit) => [hit.result.id, hit.match])).toEqual([
+      ['1', 'exact'],
+      ['4', 'exact'],
+      ['2', 'prefix'],
+    ]);
+  });
+
+  it('matches pinyin and initials', async () => {
+    expect(
+      (await querySearchIndex('dhxy')).map((hit) => [hit.result.id, hit.match])
+    ).toEqual([['3', 'pinyin']]);
+    expect((await querySearchIndex('santi'))[0].result.id).toBe('6');
+  });
+
+  it('tolerates a typo', async () => {
+    const hits = await querySearchIndex('流浪地求');
+    expect(hits.map((hit) => [hit.result.id, hit.match])).toEqual([
+      ['5', 'fuzzy'],
+    ]);
+  });
+
+  it('filters by source, year, kind, area and episodes', async () => {
+    expect(
+      (await querySearchIndex('西游', { sources: ['b'] })).map(
+        (hit) => hit.result.id
+      )
+    ).toEqual(['4', '3']);
+    expect(
+      (await querySearchIndex('西游', { year: '2015' })).map(
+        (hit) => hit.result.id
+      )
+    ).toEqual(['2']);
+    expect(
+      (await querySearchIndex('西游', { type: 'movie' })).map(
+        (hit) => hit.result.id
+      )
+    ).toEqual(['2']);
+    expect(
+      (await querySearchIndex('西游', { area: '香港' })).map(
+        (hit) => hit.result.id
+      )
+    ).toEqual(['3']);
+    expect(
+      await querySearchIndex('流浪地球', { requireEpisodes: true })
+    ).toEqual([]);
+    expect(
+      (await querySearchIndex('流浪地球', { type: 'movie' })).map(
+        (hit) => hit.result.id
+      )
+    ).toEqual(['5']);
+  });
+
+  it('returns nothing for empty queries', async () => {
+    expect(await querySearchIndex('  ')).toEqual([]);
+  });
+});
+
+describe('indexSearchResults', () => {
+  it('keeps existing episodes when a result without episodes is indexed again', async () => {
+    await indexSearchResults([
+      result('c', '6', '三体', {
+        episodes: [],
+        episodes_titles: [],
+        desc: '新简介',
+      }),
+    ]);
+    const [hit] = await querySearchIndex('三体');
+    expect(hit.result.episodes).toHaveLength(2);
+  });
+});
+
+describe('suggestions and pinyin resolution', () => {
+  it('dedupes suggestions by normalized title', async () => {
+    const suggestions = await getSearchIndexSuggestions('西游记', ['a', 'b']);
+    expect(suggestions.map((s) => s.text)).toEqual([
+      '西游记',
+      '西游记之大圣归来',
+    ]);
+  });
+
+  it('maps pinyin input to real titles', async () => {
+    expect(await resolvePinyinTitles('xyj')).toEqual([
+      '西游记',
+      '西游记之大圣归来',
+    ]);
+    expect(await resolvePinyinTitles('西游记')).toEqual([]);
+  });
+});
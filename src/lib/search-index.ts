@@ -0,0 +1,324 @@
+/* eslint-disable no-console */
+
+/**
+ * 本地搜索索引
+ *
+ * 收录搜索结果、定时任务刷新的详情和源浏览抓取到的条目，持久化到存储后端，
+ * 用于即时返回搜索建议和首屏结果，实时的源搜索在后台补齐。
+ * 支持中文子串、全拼 / 首字母、少量错字匹配，以及按年份、类型、地区筛选。
+ */
+
+import stcasc from 'switch-chinese';
+
+import { db } from './db';
+import {
+  isPinyinQuery,
+  matchPinyinForms,
+  normalizePinyinQuery,
+  PinyinMatch,
+  toPinyin,
+} from './pinyin';
+import { SearchIndexEntry, SearchResult } from './types';
+import { getWorkKind, normalizeWorkTitle, WorkKind } from './work-identity';
+
+// 索引条目上限，超出后淘汰最久未更新的条目
+const MAX_INDEX_ENTRIES = 10000;
+// 简介只保留前 200 字，控制索引体积
+const DESC_MAX_LENGTH = 200;
+// 内容没有变化时，6 小时内不重复写入存储
+const REWRITE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 50;
+
+const converter = stcasc();
+
+export type SearchIndexMatch = 'exact' | 'prefix' | 'contains' | 'pinyin' | 'fuzzy';
+
+export interface SearchIndexQuery {
+  sources?: string[]; // 只返回这些源的条目（用户可访问的源）
+  year?: string;
+  type?: WorkKind;
+  area?: string;
+  requireEpisodes?: boolean; // 只返回有剧集列表的条目（可直接作为搜索结果展示）
+  limit?: number;
+}
+
+export interface SearchIndexHit {
+  result: SearchResult;
+  score: number;
+  match: SearchIndexMatch;
+}
+
+interface IndexedDoc {
+  entry: SearchIndexEntry;
+  title: string; // 繁简统一、去标点后的标题
+  pinyin: string;
+  initials: string;
+}
+
+const docs = new Map<string, IndexedDoc>();
+let loadPromise: Promise<void> | null = null;
+
+function isPersistent(): boolean {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  return storageType !== 'localstorage';
+}
+
+function simplify(text: string): string {
+  return converter.simplized(text);
+}
+
+function buildDoc(entry: SearchIndexEntry): IndexedDoc {
+  const simplified = simplify(entry.result.title || '');
+  const { full, initials } = toPinyin(simplified);
+  return {
+    entry,
+    title: normalizeWorkTitle(simplified),
+    pinyin: full,
+    initials,
+  };
+}
+
+// 首次使用时从存储加载索引，localstorage 模式下只保存在内存中
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      if (!isPersistent()) return;
+      try {
+        const entries = await db.getSearchIndexEntries();
+        Object.entries(entries).forEach(([key, entry]) => {
+          if (entry?.result?.title) {
+            docs.set(key, buildDoc(entry));
+          }
+        });
+        console.log(`🔎 本地搜索索引已加载 ${docs.size} 条`);
+      } catch (error) {
+        console.error('加载本地搜索索引失败:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+function evictOldest(): string[] {
+  if (docs.size <= MAX_INDEX_ENTRIES) return [];
+  const evicted = Array.from(docs.entries())
+    .sort((a, b) => a[1].entry.updatedAt - b[1].entry.updatedAt)
+    .slice(0, docs.size - MAX_INDEX_ENTRIES)
+    .map(([key]) => key);
+  evicted.forEach((key) => docs.delete(key));
+  return evicted;
+}
+
+/**
+ * 把一批结果写入索引（没有剧集列表的条目不会覆盖已有的剧集列表）
+ */
+export async function indexSearchResults(results: SearchResult[]): Promise<void> {
+  if (results.length === 0) return;
+  await ensureLoaded();
+
+  const now = Date.now();
+  const changed: Record<string, SearchIndexEntry> = {};
+
+  for (const result of results) {
+    if (!result?.source || !result.id || !result.title) continue;
+    const key = `${result.source}+${result.id}`;
+    const prev = docs.get(key)?.entry.result;
+
+    const episodes = result.episodes?.length ? result.episodes : prev?.episodes || [];
+    if (
+      prev &&
+      prev.title === result.title &&
+      prev.episodes.length === episodes.length &&
+      now - docs.get(key)!.entry.updatedAt < REWRITE_INTERVAL_MS
+    ) {
+      continue;
+    }
+
+    const entry: SearchIndexEntry = {
+      result: {
+        ...prev,
+        ...result,
+        episodes,
+        episodes_titles: result.episodes?.length
+          ? result.episodes_titles || []
+          : prev?.episodes_titles || [],
+        desc: (result.desc || prev?.desc || '').slice(0, DESC_MAX_LENGTH),
+      },
+      updatedAt: now,
+    };
+    docs.set(key, buildDoc(entry));
+    changed[key] = entry;
+  }
+
+  const evicted = evictOldest();
+  evicted.forEach((key) => delete changed[key]);
+
+  if (!isPersistent()) return;
+  try {
+    if (Object.keys(changed).length > 0) {
+      await db.saveSearchIndexEntries(changed);
+    }
+    if (evicted.length > 0) {
+      await db.deleteSearchIndexEntries(evicted);
+    }
+  } catch (error) {
+    console.error('写入本地搜索索引失败:', error);
+  }
+}
+
+// Damerau-Levenshtein 距离（限制最大距离，超过时提前返回）
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+}
+
+const PINYIN_MATCH_SCORES: Record<PinyinMatch, number> = {
+  exact: 85,
+  prefix: 78,
+  contains: 58,
+};
+
+function matchDoc(
+  doc: IndexedDoc,
+  normalizedQuery: string,
+  pinyinQuery: string | null
+): { score: number; match: SearchIndexMatch } | null {
+  if (normalizedQuery && doc.title.includes(normalizedQuery)) {
+    if (doc.title === normalizedQuery) return { score: 100, match: 'exact' };
+    if (doc.title.startsWith(normalizedQuery)) return { score: 90, match: 'prefix' };
+    return { score: 70, match: 'contains' };
+  }
+
+  if (pinyinQuery) {
+    const matched = matchPinyinForms({ full: doc.pinyin, initials: doc.initials }, pinyinQuery);
+    if (matched) {
+      return { score: PINYIN_MATCH_SCORES[matched], match: 'pinyin' };
+    }
+  }
+
+  // 错字容忍：与标题（或等长前缀）相差不超过 1 个字，5 个字以上允许 2 个
+  if (normalizedQuery.length >= 3) {
+    const maxDistance = normalizedQuery.length >= 5 ? 2 : 1;
+    const distance = Math.min(
+      editDistance(normalizedQuery, doc.title, maxDistance),
+      editDistance(normalizedQuery, doc.title.slice(0, normalizedQuery.length), maxDistance)
+    );
+    if (distance <= maxDistance) {
+      return { score: 50 - distance * 10, match: 'fuzzy' };
+    }
+  }
+
+  return null;
+}
+
+function getEntryKind(result: SearchResult): WorkKind {
+  if (result.episodes.length > 0) {
+    return getWorkKind(result.episodes.length);
+  }
+  // 源浏览抓取的条目没有剧集列表，按分类名判断
+  return /电影|片$/.test(result.type_name || '') ? 'movie' : 'tv';
+}
+
+/**
+ * 在本地索引中搜索，按匹配程度降序返回
+ */
+export async function querySearchIndex(
+  query: string,
+  options: SearchIndexQuery = {}
+): Promise<SearchIndexHit[]> {
+  await ensureLoaded();
+
+  const normalizedQuery = normalizeWorkTitle(query, simplify);
+  const pinyinQuery = isPinyinQuery(query) ? normalizePinyinQuery(query) : null;
+  if (!normalizedQuery && !pinyinQuery) return [];
+
+  const allowedSources = options.sources ? new Set(options.sources) : null;
+  const hits: SearchIndexHit[] = [];
+
+  docs.forEach((doc) => {
+    const result = doc.entry.result;
+    if (allowedSources && !allowedSources.has(result.source)) return;
+    if (options.requireEpisodes && result.episodes.length === 0) return;
+    if (options.year && result.year !== options.year) return;
+    if (options.type && getEntryKind(result) !== options.type) return;
+    if (options.area && !(result.area || '').includes(options.area)) return;
+
+    const matched = matchDoc(doc, normalizedQuery, pinyinQuery);
+    if (matched) {
+      hits.push({ result, ...matched });
+    }
+  });
+
+  return hits
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * 从本地索引生成搜索建议（去重后的标题）
+ */
+export async function getSearchIndexSuggestions(
+  query: string,
+  sources: string[],
+  filter?: (result: SearchResult) => boolean,
+  limit = 8
+): Promise<Array<{ text: string; score: number; match: SearchIndexMatch }>> {
+  const hits = await querySearchIndex(query, { sources, limit: limit * 5 });
+  const seen = new Set<string>();
+  const suggestions: Array<{ text: string; score: number; match: SearchIndexMatch }> = [];
+  for (const hit of hits) {
+    if (filter && !filter(hit.result)) continue;
+    const text = hit.result.title.trim();
+    const dedupeKey = normalizeWorkTitle(text, simplify);
+    if (!text || seen.has(dedupeKey)) continue;
+    seen.add(dedupeKey);
+    suggestions.push({ text, score: hit.score, match: hit.match });
+    if (suggestions.length >= limit) break;
+  }
+  return suggestions;
+}
+
+/**
+ * 把拼音 / 首字母输入映射为索引中的真实标题（如 xyj → 西游记），用于请求上游源
+ * 非拼音输入或索引中没有命中时返回空数组
+ */
+export async function resolvePinyinTitles(
+  query: string,
+  sources?: string[],
+  limit = 2
+): Promise<string[]> {
+  if (!isPinyinQuery(query)) return [];
+  const hits = await querySearchIndex(query, { sources, limit: limit * 10 });
+  const titles: string[] = [];
+  const seen = new Set<string>();
+  for (const hit of hits) {
+    if (hit.match !== 'pinyin') continue;
+    const title = hit.result.title.trim();
+    const dedupeKey = normalizeWorkTitle(title, simplify);
+    if (!title || seen.has(dedupeKey)) continue;
+    seen.add(dedupeKey);
+    titles.push(title);
+    if (titles.length >= limit) break;
+  }
+  return titles;
+}
@@ -7,12 +7,20 @@
  * 1. 完全匹配（标题 === 关键词）：100分
  * 2. 开头匹配（标题以关键词开头）：80分
  * 3. 包含完整关键词（标题包含关键词）：60分
- * 4. 模糊匹配（标题包含关键词的部分字符）：20-40分
- * 5. 年份加分：最新的作品加分（最多+10分）
+ * 4. 拼音 / 首字母匹配（xyj、xiyouji → 西游记）：完全 90分、开头 75分、包含 55分
+ * 5. 模糊匹配（标题包含关键词的部分字符）：20-40分
+ * 6. 年份加分：最新的作品加分（最多+10分）
  */
 
+import { matchPinyin, PinyinMatch } from './pinyin';
 import { SearchResult } from './types';
 
+const PINYIN_SCORES: Record<PinyinMatch, number> = {
+  exact: 90,
+  prefix: 75,
+  contains: 55,
+};
+
 /**
  * 计算字符串的相似度（Levenshtein距离）
  */
@@ -79,6 +87,9 @@ export function calculateRelevanceScore(
   const titleNoSpace = title.replace(/\s+/g, '');
   const keywordNoSpace = keyword.replace(/\s+/g, '');
 
+  // 拼音输入（纯字母）时才会有结果
+  const pinyinMatch = matchPinyin(title, keyword);
+
   let score = 0;
 
   // 1. 完全匹配（100分）
@@ -96,15 +107,19 @@ export function calculateRelevanceScore(
   else if (title.includes(keyword) || titleNoSpace.includes(keywordNoSpace)) {
     score = 60;
   }
-  // 4. 模糊匹配
+  // 4. 拼音 / 首字母匹配
+  else if (pinyinMatch) {
+    score = PINYIN_SCORES[pinyinMatch];
+  }
+  // 5. 模糊匹配
   else {
-    // 4.1 检查是否包含关键词的所有字符（按顺序）
+    // 5.1 检查是否包含关键词的所有字符（按顺序）
     if (containsCharsInOrder(titleNoSpace, keywordNoSpace)) {
       // 计算字符间隔程度，间隔越小分数越高
       const similarity = similarityScore(titleNoSpace, keywordNoSpace);
       score = 20 + similarity * 20; // 20-40分
     }
-    // 4.2 检查是否包含关键词的部分字符
+    // 5.2 检查是否包含关键词的部分字符
     else {
       const matchedChars = keywordNoSpace
         .split('')
@@ -114,7 +129,7 @@ export function calculateRelevanceScore(
     }
   }
 
-  // 5. 年份加分（最新的作品加分，最多+10分）
+  // 6. 年份加分（最新的作品加分，最多+10分）
   const year = parseInt(result.year || '0', 10);
   if (year > 0) {
     const currentYear = new Date().getFullYear();
@@ -131,7 +146,7 @@ export function calculateRelevanceScore(
     }
   }
 
-  // 6. 豆瓣评分加分（如果有）
+  // 7. 豆瓣评分加分（如果有）
   if (result.douban_id && result.douban_id > 0) {
     score += 5; // 有豆瓣信息的作品加5分
   }
@@ -0,0 +1,181 @@
+/* eslint-disable no-console */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { getConfig } from './config';
+import { db } from './db';
+import { SessionLoginMethod, UserSession } from './types';
+
+// 会话有效期，与登录 cookie 的 7 天过期时间保持一致
+export const SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// lastSeenAt / IP 的最小写入间隔，避免每个请求都写库
+const LAST_SEEN_WRITE_INTERVAL = 60 * 1000;
+
+// 返回给前端的会话信息
+export interface PublicUserSession {
+  id: string;
+  device: string;
+  loginMethod: SessionLoginMethod;
+  ip: string;
+  createdAt: number;
+  lastSeenAt: number;
+  current: boolean;
+}
+
+export function getRequestIP(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return (
+    request.headers.get('x-real-ip') ||
+    request.headers.get('cf-connecting-ip') ||
+    'unknown'
+  );
+}
+
+// 从 User-Agent 粗略识别浏览器与系统，如 "Chrome · Windows"
+export function describeUserAgent(userAgent: string): string {
+  if (!userAgent) return '未知设备';
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/MicroMessenger/, '微信'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/okhttp|Dalvik/i, 'Android 应用'],
+    [/curl|wget|python|node/i, '脚本'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/iPhone/, 'iPhone'],
+    [/iPad/, 'iPad'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([re]) => re.test(userAgent))?.[1];
+  const system = systems.find(([re]) => re.test(userAgent))?.[1];
+  return [browser, system].filter(Boolean).join(' · ') || '未知设备';
+}
+
+export function toPublicUserSession(
+  session: UserSession,
+  currentSessionId?: string
+): PublicUserSession {
+  return {
+    id: session.id,
+    device: describeUserAgent(session.userAgent),
+    loginMethod: session.loginMethod,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId,
+  };
+}
+
+// 校验 cookie 签名（与登录接口一致：以 PASSWORD 为密钥对用户名做 HMAC-SHA256）
+export function isValidAuthSignature(username: string, signature: string): boolean {
+  const secret = process.env.PASSWORD;
+  if (!secret || !/^[0-9a-f]{64}$/i.test(signature)) {
+    return false;
+  }
+  const expected = createHmac('sha256', secret).update(username).digest();
+  return timingSafeEqual(expected, Buffer.from(signature, 'hex'));
+}
+
+// 登录成功后创建会话，返回写入 cookie 的会话 ID；当前存储不支持会话时返回 undefined
+export async function createUserSession(
+  username: string,
+  request: Request,
+  loginMethod: SessionLoginMethod
+): Promise<string | undefined> {
+  if (!db.supportsUserSessions()) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const session: UserSession = {
+    id: randomBytes(16).toString('hex'),
+    loginMethod,
+    userAgent: (request.headers.get('user-agent') || '').slice(0, 300),
+    ip: getRequestIP(request),
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + SESSION_TTL,
+  };
+  await db.saveUserSession(username, session);
+
+  // 顺带清理已过期的会话
+  listUserSessions(username).catch((error) => {
+    console.warn('清理过期会话失败:', error);
+  });
+
+  return session.id;
+}
+
+// 列出未过期的会话，过期会话会被删除
+export async function listUserSessions(username: string): Promise<UserSession[]> {
+  const sessions = await db.getUserSessions(username);
+  const now = Date.now();
+  const expired = sessions.filter((s) => s.expiresAt <= now);
+  for (const session of expired) {
+    await db.deleteUserSession(username, session.id);
+  }
+  return sessions.filter((s) => s.expiresAt > now);
+}
+
+// 校验 cookie 对应的会话是否仍然有效，并刷新最后活跃时间
+export async function checkUserSession(params: {
+  username: string;
+  sessionId?: string;
+  ip: string;
+  userAgent: string;
+}): Promise<boolean> {
+  const { username, sessionId, ip, userAgent } = params;
+
+  if (username !== process.env.USERNAME) {
+    const config = await getConfig();
+    const user = config.UserConfig.Users.find((u) => u.username === username);
+    // 新注册用户可能尚未同步进配置，这里只拦截已封禁的用户
+    if (user?.banned) {
+      return false;
+    }
+  }
+
+  if (!db.supportsUserSessions()) {
+    return true;
+  }
+
+  // 启用会话后，不带会话 ID 的旧 cookie 需要重新登录，否则无法被远程登出
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await db.getUserSession(username, sessionId);
+  const now = Date.now();
+  if (!session || session.expiresAt <= now) {
+    return false;
+  }
+
+  const moved = (ip && ip !== session.ip) || (userAgent && userAgent !== session.userAgent);
+  if (moved || now - session.lastSeenAt >= LAST_SEEN_WRITE_INTERVAL) {
+    try {
+      await db.saveUserSession(username, {
+        ...session,
+        ip: ip || session.ip,
+        userAgent: (userAgent || session.userAgent).slice(0, 300),
+        lastSeenAt: now,
+      });
+    } catch (error) {
+      console.warn('更新会话活跃时间失败:', error);
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,249 @@
+/**
+ * @jest-environment node
+ */
+
+import { detectSkipSegments } from './skip-detection';
+
+const SEGMENT = 10; // 每个分片 10 秒
+
+type SegmentBody = (index: number) => Uint8Array<ArrayBuffer>;
+
+// 按分片数生成播放列表，分片内容由 body 决定
+function mockEpisodes(
+  episodes: Record<string, { segments: number; body: SegmentBody }>
+) {
+  global.fetch = jest.fn(async (url: string) => {
+    const [, name, file] =
+      url.match(/^https:\/\/v\.example\.com\/([^/]+)\/(.+)$/) || [];
+    const episode = episodes[name];
+    if (!episode) return new Response('', { status: 404 });
+    if (file === 'index.m3u8') {
+      const lines = ['#EXTM3U', `#EXT-X-TARGETDURATION:${SEGMENT}`];
+      for (let i = 0; i < episode.segments; i++)
+        lines.push(`#EXTINF:${SEGMENT},`, `${i}.ts`);
+      lines.push('#EXT-X-ENDLIST');
+      return new Response(lines.join('\n'));
+    }
+    return new Response(episode.body(parseInt(file, 10)));
+  }) as unknown as typeof fetch;
+}
+
+const episodeUrl = (name: string) => `https://v.example.com/${name}/index.m3u8`;
+const text = (value: string) => new TextEncoder().encode(value);
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('detectSkipSegments', () => {
+  it('finds openings and endings shared byte for byte', async () => {
+    // 前 9 个分片为片头，最后 6 个分片为片尾，各集时长不同
+    const episode = (name: string, segments: number) => ({
+      segments,
+      body: (i: number) =>
+        text(
+          i < 9
+            ? `opening-${i}`
+            : i >= segments - 6
+              ? `ending-${i - segments}`
+              : `${name}-${i}`
+        ),
+    });
+    mockEpisodes({
+      ep1: episode('ep1', 60),
+      ep2: episode('ep2', 62),
+      ep3: episode('ep3', 59),
+    });
+    const onProgress = jest.fn();
+
+    const result = await detectSkipSegments(
+      ['ep1', 'ep2', 'ep3'].map(episodeUrl),
+      { onProgress }
+    );
+
+    expect(result.analyzedEpisodes).toBe(3);
+    expect(result.opening).toMatchObject({
+      segment: { type: 'opening', start: 0, end: 90 },
+      confidence: 1,
+      matchedEpisodes: 3,
+      method: 'hash',
+    });
+    expect(result.ending).toMatchObject({
+      segment: {
+        type: 'ending',
+        start: 540,
+        end: 600,
+        mode: 'remaining',
+        remainingTime: 60,
+      },
+      confidence: 1,
+      method: 'hash',
+    });
+    expect(onProgress).toHaveBeenLastCalledWith(126, 126);
+  });
+
+  it('matches re-encoded openings by their audio', async () => {
+    // 每 0.1 秒音频用一个字节表示：30-90 秒为相同的片头音乐，28 秒处有 0.6 秒相同的转场音效，其余内容各集不同
+    const frameOf = (episode: number, frame: number) => {
+      const shared =
+        (frame >= 300 && frame < 900) || (frame >= 280 && frame < 286);
+      return Math.floor(
+        random((shared ? 0 : episode) * 100003 + frame)() * 256
+      );
+    };
+    const episode = (index: number) => ({
+      segments: 60,
+      body: (i: number) => {
+        const frames = Array.from({ length: SEGMENT * 10 }, (_, k) =>
+          frameOf(index, i * SEGMENT * 10 + k)
+        );
+        return tsSegment(frames, index);
+      },
+    });
+    mockEpisodes({ ep1: episode(1), ep2: episode(2) });
+    global.OfflineAudioContext =
+      FakeAudioContext as unknown as typeof OfflineAudioContext;
+
+    const result = await detectSkipSegments([
+      episodeUrl('ep1'),
+      episodeUrl('ep2'),
+    ]);
+
+    expect(result.opening?.method).toBe('audio');
+    expect(result.opening?.matchedEpisodes).toBe(2);
+    // 音频指纹的边界允许 1 秒误差，但不能被 28 秒处的转场音效带偏
+    const { start = 0, end = 0 } = result.opening?.segment || {};
+    expect(Math.abs(start - 30)).toBeLessThanOrEqual(1);
+    expect(Math.abs(end - 90)).toBeLessThanOrEqual(1);
+    expect(result.opening?.confidence).toBeGreaterThan(0.85);
+    expect(result.ending).toBeUndefined();
+  });
+
+  it('requires at least two episodes that can be analyzed', async () => {
+    mockEpisodes({ ep1: { segments: 30, body: (i) => text(`${i}`) } });
+
+    await expect(detectSkipSegments([episodeUrl('ep1')])).rejects.toThrow(
+      '至少需要两集'
+    );
+    await expect(
+      detectSkipSegments([episodeUrl('ep1'), episodeUrl('missing')])
+    ).rejects.toThrow('可分析的剧集不足两集');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 测试用的最小 TS 分片：PAT + PMT（ADTS 音频流）+ 每个音频包带 PES 头
+// ---------------------------------------------------------------------------
+
+const PMT_PID = 0x100;
+const AUDIO_PID = 0x101;
+const VIDEO_PID = 0x200;
+
+function tsPacket(
+  pid: number,
+  payload: number[],
+  payloadStart: boolean
+): number[] {
+  const header = [0x47, (payloadStart ? 0x40 : 0) | (pid >> 8), pid & 0xff];
+  const stuffing = 188 - 4 - 1 - payload.length;
+  // 用自适应字段填充到 188 字节
+  return [
+    ...header,
+    0x30,
+    stuffing,
+    ...new Array(stuffing).fill(0xff),
+    ...payload,
+  ];
+}
+
+function tsSegment(audio: number[], episode: number): Uint8Array<ArrayBuffer> {
+  const pat = [
+    0,
+    0x00,
+    0xb0,
+    13,
+    0,
+    1,
+    0xc1,
+    0,
+    0,
+    0,
+    1,
+    0xe0 | (PMT_PID >> 8),
+    PMT_PID & 0xff,
+    0,
+    0,
+    0,
+    0,
+  ];
+  const pmt = [
+    0,
+    0x02,
+    0xb0,
+    18,
+    0,
+    1,
+    0xc1,
+    0,
+    0,
+    0xe0,
+    0,
+    0xf0,
+    0,
+    0x0f,
+    0xe0 | (AUDIO_PID >> 8),
+    AUDIO_PID & 0xff,
+    0xf0,
+    0,
+    0,
+    0,
+    0,
+    0,
+  ];
+  const pes = [0, 0, 1, 0xc0, 0, 0, 0x80, 0, 0];
+  return new Uint8Array([
+    ...tsPacket(0, pat, true),
+    ...tsPacket(PMT_PID, pmt, true),
+    // 视频包内容各集不同，保证分片哈希不一致
+    ...tsPacket(VIDEO_PID, [episode], true),
+    ...tsPacket(AUDIO_PID, [...pes, ...audio], true),
+  ]);
+}
+
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 一帧（0.1 秒）的 100Hz 低频音和 4kHz 高频音，分别决定指纹的低频位和高频位
+const FRAME = 800;
+const TONE = Float32Array.from({ length: FRAME }, (_, i) =>
+  Math.sin((2 * Math.PI * 100 * i) / 8000)
+);
+const HISS = Float32Array.from({ length: FRAME }, (_, i) => (i % 2 ? 1 : -1));
+
+// 把每个字节"解码"为 0.1 秒音频：低频和高频音量由字节决定
+class FakeAudioContext {
+  async decodeAudioData(data: ArrayBuffer) {
+    const bytes = new Uint8Array(data);
+    const samples = new Float32Array(bytes.length * FRAME);
+    bytes.forEach((byte, frame) => {
+      const next = random(byte + 1);
+      const tone = next();
+      const hiss = next();
+      for (let i = 0; i < FRAME; i++) {
+        samples[frame * FRAME + i] = tone * TONE[i] + hiss * HISS[i];
+      }
+    });
+    return { getChannelData: () => samples };
+  }
+}
@@ -0,0 +1,615 @@
+/* eslint-disable no-console */
+/**
+ * 片头片尾自动识别
+ * 比较同一部剧几集开头和结尾几分钟的内容，找出各集共有的片段作为片头/片尾：
+ * 1. 分片字节哈希：多集直接复用同一批片头分片时可精确匹配
+ * 2. 音频指纹：从 TS 分片中提取音频解码，按能量变化生成指纹，重新编码过也能匹配
+ * 仅在浏览器中运行
+ */
+
+import { applyURL } from './download';
+import { SkipSegment } from './types';
+
+/** 置信度达到该值时可直接应用，无需用户确认 */
+export const AUTO_APPLY_CONFIDENCE = 0.85;
+
+const OPENING_WINDOW = 240; // 片头在前 4 分钟内查找
+const ENDING_WINDOW = 180; // 片尾在最后 3 分钟内查找
+const MAX_EPISODES = 3;
+const MIN_SEGMENT_LENGTH = 10; // 少于 10 秒的共有片段不算片头片尾
+const TOLERANCE = 3; // 各集识别结果相差 3 秒以内视为一致
+const SEGMENT_CONCURRENCY = 4;
+
+const SAMPLE_RATE = 8000;
+const FRAME_SIZE = 800; // 每帧 0.1 秒
+const FRAMES_PER_SECOND = SAMPLE_RATE / FRAME_SIZE;
+const MATCH_WINDOW = 5 * FRAMES_PER_SECOND;
+const MATCH_THRESHOLD = 0.75; // 随机音频的指纹一致率约 0.5
+
+// ADTS AAC、MPEG-1/2 音频，浏览器可以直接解码
+const AUDIO_STREAM_TYPES = new Set([0x0f, 0x03, 0x04]);
+
+export interface SkipDetectionProposal {
+  segment: SkipSegment;
+  /** 0-1 */
+  confidence: number;
+  /** 找到该片段的集数 */
+  matchedEpisodes: number;
+  method: 'hash' | 'audio';
+}
+
+export interface SkipDetectionResult {
+  opening?: SkipDetectionProposal;
+  ending?: SkipDetectionProposal;
+  analyzedEpisodes: number;
+  analyzedAt: number;
+}
+
+export interface SkipDetectionOptions {
+  signal?: AbortSignal;
+  /** 与播放器一致的播放列表处理（如去广告），保证识别出的时间与实际播放时间对应 */
+  filterPlaylist?: (content: string, url: string) => string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface PlaylistSegment {
+  url: string;
+  start: number;
+  duration: number;
+  sequence: number;
+}
+
+interface MediaPlaylist {
+  segments: PlaylistSegment[];
+  duration: number;
+  key?: { uri: string; iv?: string };
+  /** fMP4 分片无法按 TS 提取音频，只做哈希比较 */
+  fragmented: boolean;
+}
+
+interface WindowData {
+  /** 窗口内第一个分片在整集中的开始时间 */
+  start: number;
+  hashes: Array<{ start: number; end: number; hash: number }>;
+  /** 每帧 2 位的音频指纹，提取失败时为 null */
+  fingerprint: Uint8Array | null;
+}
+
+interface EpisodeData {
+  duration: number;
+  opening: WindowData;
+  ending: WindowData;
+}
+
+interface MatchRange {
+  /** 两集各自时间轴上的范围（秒） */
+  a: [number, number];
+  b: [number, number];
+  quality: number;
+  method: 'hash' | 'audio';
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('已取消', 'AbortError');
+  }
+}
+
+async function fetchMediaPlaylist(url: string, options: SkipDetectionOptions, depth = 0): Promise<MediaPlaylist> {
+  const response = await fetch(url, { signal: options.signal });
+  if (!response.ok) {
+    throw new Error(`播放列表请求失败: HTTP ${response.status}`);
+  }
+  let content = await response.text();
+  if (!content.trimStart().startsWith('#EXTM3U')) {
+    throw new Error('不是 m3u8 播放列表');
+  }
+
+  if (content.includes('#EXT-X-STREAM-INF')) {
+    if (depth >= 3) throw new Error('主播放列表嵌套过深');
+    const lines = content.split(/\r?\n/);
+    const index = lines.findIndex((line) => line.startsWith('#EXT-X-STREAM-INF'));
+    const variant = lines.slice(index + 1).find((line) => line.trim() && !line.startsWith('#'));
+    if (!variant) throw new Error('主播放列表中没有子播放列表');
+    return fetchMediaPlaylist(applyURL(variant.trim(), url), options, depth + 1);
+  }
+
+  if (options.filterPlaylist) {
+    content = options.filterPlaylist(content, url);
+  }
+
+  const playlist: MediaPlaylist = { segments: [], duration: 0, fragmented: false };
+  let sequence = 0;
+  let segmentDuration = 0;
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      sequence = parseInt(line.split(':')[1], 10) || 0;
+    } else if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice(8).split(',')[0]) || 0;
+    } else if (line.startsWith('#EXT-X-MAP')) {
+      playlist.fragmented = true;
+    } else if (line.startsWith('#EXT-X-KEY')) {
+      const method = line.match(/METHOD=([^,\s]+)/)?.[1];
+      const uri = line.match(/URI="([^"]+)"/)?.[1];
+      if (method === 'AES-128' && uri) {
+        playlist.key = { uri: applyURL(uri, url), iv: line.match(/IV=(0x[0-9a-f]+)/i)?.[1] };
+      } else if (method && method !== 'NONE') {
+        throw new Error(`不支持的加密方式: ${method}`);
+      }
+    } else if (line && !line.startsWith('#')) {
+      playlist.segments.push({
+        url: applyURL(line, url),
+        start: playlist.duration,
+        duration: segmentDuration,
+        sequence: sequence++,
+      });
+      playlist.duration += segmentDuration;
+      segmentDuration = 0;
+    }
+  }
+
+  if (playlist.segments.length === 0) {
+    throw new Error('播放列表中没有分片');
+  }
+  return playlist;
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  const clean = hex.replace(/^0x/i, '').padStart(32, '0');
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function decryptSegment(data: ArrayBuffer, key: CryptoKey, ivHex: string | undefined, sequence: number) {
+  // 未指定 IV 时按 HLS 规范使用分片序号
+  const iv = ivHex ? hexToBytes(ivHex) : new Uint8Array(16);
+  if (!ivHex) {
+    new DataView(iv.buffer).setUint32(12, sequence);
+  }
+  return crypto.subtle.decrypt({ name: 'AES-CBC', iv }, key, data);
+}
+
+/**
+ * FNV-1a 32 位哈希
+ */
+function hashBytes(data: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 从 TS 分片中提取音频流（去掉 TS / PES 封装），得到可直接解码的 ADTS / MP3 数据
+ */
+function extractTsAudio(data: Uint8Array): Uint8Array | null {
+  let pmtPid = -1;
+  let audioPid = -1;
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  let offset = 0;
+  while (offset + 188 <= data.length) {
+    if (data[offset] !== 0x47) {
+      offset++;
+      continue;
+    }
+    const packetEnd = offset + 188;
+    const payloadStart = (data[offset + 1] & 0x40) !== 0;
+    const pid = ((data[offset + 1] & 0x1f) << 8) | data[offset + 2];
+    const adaptation = (data[offset + 3] >> 4) & 0x03;
+    let p = offset + 4;
+    offset = packetEnd;
+
+    if (adaptation === 0 || adaptation === 2) continue;
+    if (adaptation === 3) p += data[p] + 1;
+    if (p >= packetEnd) continue;
+
+    if (pid === 0 && payloadStart && pmtPid < 0) {
+      p += data[p] + 1;
+      const sectionEnd = p + 3 + (((data[p + 1] & 0x0f) << 8) | data[p + 2]) - 4;
+      for (let i = p + 8; i + 4 <= Math.min(sectionEnd, packetEnd); i += 4) {
+        const program = (data[i] << 8) | data[i + 1];
+        if (program !== 0) {
+          pmtPid = ((data[i + 2] & 0x1f) << 8) | data[i + 3];
+          break;
+        }
+      }
+    } else if (pid === pmtPid && payloadStart && audioPid < 0) {
+      p += data[p] + 1;
+      const sectionEnd = Math.min(p + 3 + (((data[p + 1] & 0x0f) << 8) | data[p + 2]) - 4, packetEnd);
+      let i = p + 12 + (((data[p + 10] & 0x0f) << 8) | data[p + 11]);
+      while (i + 5 <= sectionEnd) {
+        const esInfoLength = ((data[i + 3] & 0x0f) << 8) | data[i + 4];
+        if (AUDIO_STREAM_TYPES.has(data[i])) {
+          audioPid = ((data[i + 1] & 0x1f) << 8) | data[i + 2];
+          break;
+        }
+        i += 5 + esInfoLength;
+      }
+    } else if (pid === audioPid) {
+      if (payloadStart && data[p] === 0 && data[p + 1] === 0 && data[p + 2] === 1) {
+        p += 9 + data[p + 8];
+      }
+      if (p < packetEnd) {
+        chunks.push(data.subarray(p, packetEnd));
+        total += packetEnd - p;
+      }
+    }
+  }
+
+  if (total === 0) return null;
+  const audio = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of chunks) {
+    audio.set(chunk, position);
+    position += chunk.length;
+  }
+  return audio;
+}
+
+/**
+ * 音频指纹：每 0.1 秒一帧，分别记录低频和高频能量相对上一帧是否增大
+ * 只依赖能量变化方向，不受音量和编码参数影响
+ */
+function computeFingerprint(samples: Float32Array): Uint8Array {
+  const frameCount = Math.floor(samples.length / FRAME_SIZE);
+  const low = new Float64Array(frameCount);
+  const high = new Float64Array(frameCount);
+  let lowpass = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let i = frame * FRAME_SIZE; i < (frame + 1) * FRAME_SIZE; i++) {
+      lowpass += 0.1 * (samples[i] - lowpass);
+      low[frame] += lowpass * lowpass;
+      high[frame] += (samples[i] - lowpass) ** 2;
+    }
+  }
+  const codes = new Uint8Array(Math.max(0, frameCount - 1));
+  for (let frame = 0; frame < codes.length; frame++) {
+    codes[frame] = (low[frame + 1] > low[frame] ? 1 : 0) | (high[frame + 1] > high[frame] ? 2 : 0);
+  }
+  return codes;
+}
+
+async function decodeFingerprint(audio: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(audio.buffer as ArrayBuffer);
+    return computeFingerprint(buffer.getChannelData(0));
+  } catch (error) {
+    console.warn('音频解码失败，仅使用分片哈希比较:', error);
+    return null;
+  }
+}
+
+async function loadWindow(
+  playlist: MediaPlaylist,
+  from: number,
+  to: number,
+  key: CryptoKey | null,
+  options: SkipDetectionOptions,
+  onSegment: () => void
+): Promise<WindowData> {
+  const segments = playlist.segments.filter((seg) => seg.start + seg.duration > from && seg.start < to);
+  const results: Array<{ hash: number; audio: Uint8Array | null } | null> = new Array(segments.length).fill(null);
+
+  for (let i = 0; i < segments.length; i += SEGMENT_CONCURRENCY) {
+    throwIfAborted(options.signal);
+    await Promise.all(
+      segments.slice(i, i + SEGMENT_CONCURRENCY).map(async (seg, offset) => {
+        try {
+          const response = await fetch(seg.url, { signal: options.signal });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          let buffer = await response.arrayBuffer();
+          if (key) {
+            buffer = await decryptSegment(buffer, key, playlist.key?.iv, seg.sequence);
+          }
+          const bytes = new Uint8Array(buffer);
+          results[i + offset] = {
+            hash: hashBytes(bytes),
+            audio: playlist.fragmented ? null : extractTsAudio(bytes),
+          };
+        } catch (error) {
+          if ((error as Error).name === 'AbortError') throw error;
+          console.warn('分片下载失败:', seg.url, error);
+        } finally {
+          onSegment();
+        }
+      })
+    );
+  }
+
+  const hashes: WindowData['hashes'] = [];
+  segments.forEach((seg, i) => {
+    const result = results[i];
+    if (result) hashes.push({ start: seg.start, end: seg.start + seg.duration, hash: result.hash });
+  });
+
+  // 中间缺分片会导致音频时间错位，此时放弃音频指纹
+  const audioParts = results.map((result) => result?.audio);
+  let fingerprint: Uint8Array | null = null;
+  if (segments.length > 0 && audioParts.every((part): part is Uint8Array => !!part)) {
+    const total = audioParts.reduce((sum, part) => sum + part.length, 0);
+    const audio = new Uint8Array(total);
+    let position = 0;
+    audioParts.forEach((part) => {
+      audio.set(part, position);
+      position += part.length;
+    });
+    fingerprint = await decodeFingerprint(audio);
+  }
+
+  return { start: segments[0]?.start ?? from, hashes, fingerprint };
+}
+
+/**
+ * 分片哈希匹配：两集中连续相同的分片
+ */
+function matchByHash(a: WindowData, b: WindowData): MatchRange | null {
+  const positions = new Map<number, number[]>();
+  b.hashes.forEach((item, index) => {
+    positions.set(item.hash, [...(positions.get(item.hash) || []), index]);
+  });
+
+  let best: MatchRange | null = null;
+  for (let i = 0; i < a.hashes.length; i++) {
+    for (const j of positions.get(a.hashes[i].hash) || []) {
+      let length = 0;
+      while (
+        i + length < a.hashes.length &&
+        j + length < b.hashes.length &&
+        a.hashes[i + length].hash === b.hashes[j + length].hash
+      ) {
+        length++;
+      }
+      const range: MatchRange = {
+        a: [a.hashes[i].start, a.hashes[i + length - 1].end],
+        b: [b.hashes[j].start, b.hashes[j + length - 1].end],
+        quality: 1,
+        method: 'hash',
+      };
+      if (!best || range.a[1] - range.a[0] > best.a[1] - best.a[0]) best = range;
+    }
+  }
+  return best && best.a[1] - best.a[0] >= MIN_SEGMENT_LENGTH ? best : null;
+}
+
+/**
+ * 音频指纹匹配：在所有相对偏移下寻找指纹一致率持续高于阈值的最长区间
+ */
+function matchByAudio(a: WindowData, b: WindowData): MatchRange | null {
+  const fa = a.fingerprint;
+  const fb = b.fingerprint;
+  if (!fa || !fb) return null;
+
+  let best: { start: number; end: number; shift: number; score: number } | null = null;
+  for (let shift = -(fb.length - MATCH_WINDOW); shift <= fa.length - MATCH_WINDOW; shift++) {
+    // 重叠区间：a[t] 对应 b[t - shift]
+    const from = Math.max(0, shift);
+    const to = Math.min(fa.length, fb.length + shift);
+    if (to - from < MATCH_WINDOW) continue;
+
+    const agreement = new Float32Array(to - from);
+    for (let t = from; t < to; t++) {
+      const diff = fa[t] ^ fb[t - shift];
+      agreement[t - from] = diff === 0 ? 1 : diff === 3 ? 0 : 0.5;
+    }
+
+    // 滑动窗口平均值超过阈值的窗口连成区间
+    let windowSum = 0;
+    let runStart = -1;
+    let runSum = 0;
+    for (let t = 0; t < agreement.length; t++) {
+      windowSum += agreement[t];
+      if (t >= MATCH_WINDOW) windowSum -= agreement[t - MATCH_WINDOW];
+      if (t < MATCH_WINDOW - 1) continue;
+
+      const windowStart = t - MATCH_WINDOW + 1;
+      const passed = windowSum / MATCH_WINDOW >= MATCH_THRESHOLD;
+      if (passed && runStart < 0) {
+        runStart = windowStart;
+        runSum = 0;
+      }
+      if (passed) runSum += windowSum / MATCH_WINDOW;
+      if (runStart >= 0 && (!passed || t === agreement.length - 1)) {
+        const runEnd = passed ? t + 1 : t;
+        const windows = runEnd - MATCH_WINDOW + 1 - runStart;
+        // 窗口边缘会带进几帧不相关的内容：在首尾一个窗口内，从里向外累加（一致率 - 阈值），取累计和最大处为边界
+        // 不相关内容的一致率约 0.5，累计和整体下降，偶尔几帧碰巧一致不会把边界带出去
+        const edge = Math.min(MATCH_WINDOW, runEnd - runStart);
+        let trimmedStart = runStart + edge - 1;
+        for (let k = trimmedStart, sum = 0, max = -Infinity; k >= runStart; k--) {
+          sum += agreement[k] - MATCH_THRESHOLD;
+          if (sum > max) {
+            max = sum;
+            trimmedStart = k;
+          }
+        }
+        let trimmedEnd = runEnd - edge + 1;
+        for (let k = runEnd - edge, sum = 0, max = -Infinity; k < runEnd; k++) {
+          sum += agreement[k] - MATCH_THRESHOLD;
+          if (sum > max) {
+            max = sum;
+            trimmedEnd = k + 1;
+          }
+        }
+        if (!best || trimmedEnd - trimmedStart > best.end - best.start) {
+          best = { start: from + trimmedStart, end: from + trimmedEnd, shift, score: runSum / Math.max(1, windows) };
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  if (!best || (best.end - best.start) / FRAMES_PER_SECOND < MIN_SEGMENT_LENGTH) return null;
+  return {
+    a: [a.start + best.start / FRAMES_PER_SECOND, a.start + best.end / FRAMES_PER_SECOND],
+    b: [b.start + (best.start - best.shift) / FRAMES_PER_SECOND, b.start + (best.end - best.shift) / FRAMES_PER_SECOND],
+    // 把 [阈值, 1] 映射到 [0.5, 1]
+    quality: 0.5 + ((best.score - MATCH_THRESHOLD) / (1 - MATCH_THRESHOLD)) * 0.5,
+    method: 'audio',
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((x, y) => x - y);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * 汇总所有两两比较结果：取各集起止时间的中位数，并按匹配比例、一致性和匹配质量计算置信度
+ * toTime 把各集时间轴上的时间换算到统一的参照（片尾用剩余时间）
+ */
+function buildConsensus(
+  episodes: EpisodeData[],
+  pick: (episode: EpisodeData) => WindowData,
+  toTime: (time: number, episode: EpisodeData) => number
+): { start: number; end: number; confidence: number; matchedEpisodes: number; method: 'hash' | 'audio' } | null {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const qualities: number[] = [];
+  const matched = new Set<number>();
+  let pairs = 0;
+  let hashMatches = 0;
+
+  for (let i = 0; i < episodes.length; i++) {
+    for (let j = i + 1; j < episodes.length; j++) {
+      pairs++;
+      const a = pick(episodes[i]);
+      const b = pick(episodes[j]);
+      const match = matchByHash(a, b) || matchByAudio(a, b);
+      if (!match) continue;
+      if (match.method === 'hash') hashMatches++;
+      qualities.push(match.quality);
+      matched.add(i).add(j);
+      starts.push(toTime(match.a[0], episodes[i]), toTime(match.b[0], episodes[j]));
+      ends.push(toTime(match.a[1], episodes[i]), toTime(match.b[1], episodes[j]));
+    }
+  }
+
+  if (pairs === 0 || qualities.length === 0) return null;
+
+  const start = median(starts);
+  const end = median(ends);
+  const consistent = starts.filter((value, i) => Math.abs(value - start) <= TOLERANCE && Math.abs(ends[i] - end) <= TOLERANCE).length;
+  const confidence = (qualities.length / pairs) * (consistent / starts.length) * (qualities.reduce((sum, q) => sum + q, 0) / qualities.length);
+
+  return {
+    start,
+    end,
+    confidence: Math.round(confidence * 100) / 100,
+    matchedEpisodes: matched.size,
+    method: hashMatches * 2 >= qualities.length ? 'hash' : 'audio',
+  };
+}
+
+/**
+ * 分析多集（第一个为当前集）的开头和结尾，返回片头片尾建议
+ * 至少需要两集成功加载；单集失败会被跳过
+ */
+export async function detectSkipSegments(
+  episodeUrls: string[],
+  options: SkipDetectionOptions = {}
+): Promise<SkipDetectionResult> {
+  const urls = episodeUrls.filter(Boolean).slice(0, MAX_EPISODES);
+  if (urls.length < 2) {
+    throw new Error('至少需要两集才能识别片头片尾');
+  }
+
+  const playlists: MediaPlaylist[] = [];
+  for (const url of urls) {
+    throwIfAborted(options.signal);
+    try {
+      playlists.push(await fetchMediaPlaylist(url, options));
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      console.warn('跳过无法分析的剧集:', url, error);
+    }
+  }
+  if (playlists.length < 2) {
+    throw new Error('可分析的剧集不足两集');
+  }
+
+  const countSegments = (playlist: MediaPlaylist, from: number, to: number) =>
+    playlist.segments.filter((seg) => seg.start + seg.duration > from && seg.start < to).length;
+  const total = playlists.reduce(
+    (sum, playlist) =>
+      sum +
+      countSegments(playlist, 0, OPENING_WINDOW) +
+      countSegments(playlist, Math.max(OPENING_WINDOW, playlist.duration - ENDING_WINDOW), playlist.duration),
+    0
+  );
+  let done = 0;
+  const onSegment = () => options.onProgress?.(++done, total);
+
+  const episodes: EpisodeData[] = [];
+  for (const playlist of playlists) {
+    let key: CryptoKey | null = null;
+    if (playlist.key) {
+      const keyResponse = await fetch(playlist.key.uri, { signal: options.signal });
+      key = await crypto.subtle.importKey('raw', await keyResponse.arrayBuffer(), 'AES-CBC', false, ['decrypt']);
+    }
+    const endingFrom = Math.max(OPENING_WINDOW, playlist.duration - ENDING_WINDOW);
+    episodes.push({
+      duration: playlist.duration,
+      opening: await loadWindow(playlist, 0, OPENING_WINDOW, key, options, onSegment),
+      ending: await loadWindow(playlist, endingFrom, playlist.duration, key, options, onSegment),
+    });
+  }
+
+  const result: SkipDetectionResult = { analyzedEpisodes: episodes.length, analyzedAt: Date.now() };
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const opening = buildConsensus(episodes, (episode) => episode.opening, (time) => time);
+  if (opening) {
+    result.opening = {
+      segment: {
+        type: 'opening',
+        // 离开头很近时从 0 开始，避免开头一两秒漏跳
+        start: opening.start <= TOLERANCE ? 0 : round(opening.start),
+        end: round(opening.end),
+        title: '自动识别片头',
+        autoSkip: true,
+      },
+      confidence: opening.confidence,
+      matchedEpisodes: opening.matchedEpisodes,
+      method: opening.method,
+    };
+  }
+
+  // 片尾统一换算为剩余时间，各集时长不同也能对齐
+  const ending = buildConsensus(
+    episodes,
+    (episode) => episode.ending,
+    (time, episode) => episode.duration - time
+  );
+  if (ending) {
+    const currentDuration = episodes[0].duration;
+    // 换算后 start 是片尾开始时的剩余时间
+    const remainingTime = round(ending.start);
+    result.ending = {
+      segment: {
+        type: 'ending',
+        start: round(Math.max(0, currentDuration - remainingTime)),
+        end: round(currentDuration),
+        title: '自动识别片尾',
+        autoSkip: true,
+        autoNextEpisode: true,
+        mode: 'remaining',
+        remainingTime,
+      },
+      confidence: ending.confidence,
+      matchedEpisodes: ending.matchedEpisodes,
+      method: ending.method,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+import { getConfig } from './config';
+import { db } from './db';
+import { runSourceHealthCheck } from './source-health';
+
+jest.mock('./config', () => ({
+  API_CONFIG: { search: { path: '?ac=videolist&wd=', headers: {} } },
+  applyVideoProxy: (sites: unknown[]) => sites,
+  clearConfigCache: jest.fn(),
+  getConfig: jest.fn(),
+}));
+jest.mock('./db', () => ({
+  db: {
+    getAllSourceHealth: jest.fn(),
+    saveSourceHealth: jest.fn(),
+    deleteSourceHealth: jest.fn(),
+    saveAdminConfig: jest.fn(),
+  },
+}));
+
+const mockDb = db as unknown as Record<string, jest.Mock>;
+const mockGetConfig = getConfig as jest.Mock;
+
+type SavedSource = { key: string; name: string; quarantined?: boolean };
+
+function makeConfig(
+  sources: {
+    key: string;
+    name: string;
+    quarantined?: boolean;
+    disabled?: boolean;
+  }[]
+) {
+  return {
+    SourceHealthConfig: {
+      enabled: true,
+      failureThreshold: 1,
+      autoQuarantine: true,
+    },
+    SourceConfig: sources.map((s) => ({
+      api: `https://${s.key}.example.com/api.php`,
+      from: 'custom',
+      ...s,
+    })),
+  };
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockDb.getAllSourceHealth.mockResolvedValue({});
+  mockDb.saveSourceHealth.mockResolvedValue(undefined);
+  mockDb.deleteSourceHealth.mockResolvedValue(undefined);
+  mockDb.saveAdminConfig.mockResolvedValue(undefined);
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  // good 源搜索正常但无结果，bad 源返回 500
+  global.fetch = jest.fn(async (url: string) => ({
+    ok: !url.includes('bad.'),
+    status: url.includes('bad.') ? 500 : 200,
+    body: { cancel: () => Promise.resolve() },
+    json: async () => ({ code: 1, list: [] }),
+  })) as unknown as typeof fetch;
+});
+
+describe('runSourceHealthCheck', () => {
+  it('writes only the quarantine flags onto the latest config', async () => {
+    const initial = makeConfig([
+      { key: 'good', name: 'Good', quarantined: true },
+      { key: 'bad', name: 'Bad' },
+    ]);
+    // 检测期间管理员改了名称并新增了一个源
+    const latest = makeConfig([
+      { key: 'good', name: 'Good (renamed)', quarantined: true },
+      { key: 'bad', name: 'Bad (renamed)' },
+      { key: 'added', name: 'Added' },
+    ]);
+    mockGetConfig.mockResolvedValueOnce(initial).mockResolvedValueOnce(latest);
+
+    const result = await runSourceHealthCheck();
+
+    expect(result).toMatchObject({
+      total: 2,
+      healthy: 1,
+      failed: 1,
+      quarantined: ['bad'],
+      reinstated: ['good'],
+    });
+    expect(mockDb.saveAdminConfig).toHaveBeenCalledTimes(1);
+    const saved = mockDb.saveAdminConfig.mock.calls[0][0];
+    expect(saved).toBe(latest);
+    expect(
+      saved.SourceConfig.map((s: SavedSource) => [
+        s.key,
+        s.name,
+        !!s.quarantined,
+      ])
+    ).toEqual([
+      ['good', 'Good (renamed)', false],
+      ['bad', 'Bad (renamed)', true],
+      ['added', 'Added', false],
+    ]);
+    expect(
+      initial.SourceConfig.map((s: SavedSource) => !!s.quarantined)
+    ).toEqual([true, false]);
+  });
+
+  it('skips sources deleted during the run and does not save without changes', async () => {
+    mockGetConfig
+      .mockResolvedValueOnce(makeConfig([{ key: 'bad', name: 'Bad' }]))
+      .mockResolvedValueOnce(makeConfig([{ key: 'other', name: 'Other' }]));
+    mockDb.getAllSourceHealth.mockResolvedValue({
+      bad: {
+        consecutiveFailures: 0,
+        quarantinedAt: null,
+        lastCheckedAt: null,
+        history: [],
+      },
+    });
+
+    const result = await runSourceHealthCheck();
+
+    expect(result.quarantined).toEqual([]);
+    expect(mockDb.saveAdminConfig).not.toHaveBeenCalled();
+    expect(mockDb.deleteSourceHealth).toHaveBeenCalledWith('bad');
+  });
+});
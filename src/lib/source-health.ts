@@ -0,0 +1,315 @@
+/* eslint-disable no-console */
+
+import { AdminConfig } from './admin.types';
+import { API_CONFIG, ApiSite, applyVideoProxy, clearConfigCache, getConfig } from './config';
+import { db } from './db';
+import { SourceHealthErrorClass, SourceHealthRecord, SourceHealthState } from './types';
+import { DEFAULT_USER_AGENT } from './user-agent';
+
+// 每个源保留的检测历史条数（按每小时一次约两天）
+const HISTORY_LIMIT = 48;
+// 每次抽检的播放地址数量
+const PLAYABLE_SAMPLE_SIZE = 2;
+const SEARCH_TIMEOUT = 10000;
+const PLAYABLE_TIMEOUT = 8000;
+const PROBE_CONCURRENCY = 5;
+
+export interface SourceHealthSettings {
+  enabled: boolean;
+  probeKeyword: string;
+  failureThreshold: number;
+  autoQuarantine: boolean;
+}
+
+export interface SourceHealthRunResult {
+  total: number;
+  healthy: number;
+  failed: number;
+  quarantined: string[]; // 本次新隔离的源
+  reinstated: string[]; // 本次恢复的源
+}
+
+export interface SourceHealthSummary {
+  key: string;
+  name: string;
+  disabled: boolean;
+  quarantined: boolean;
+  quarantinedAt: number | null;
+  consecutiveFailures: number;
+  lastCheckedAt: number | null;
+  successRate: number | null; // 检测通过率
+  searchSuccessRate: number | null;
+  playableRate: number | null; // 抽检播放地址可用率
+  avgLatencyMs: number | null;
+  history: SourceHealthRecord[];
+}
+
+export function getSourceHealthSettings(config: AdminConfig): SourceHealthSettings {
+  const cfg = config.SourceHealthConfig;
+  return {
+    enabled: cfg?.enabled ?? true,
+    probeKeyword: cfg?.probeKeyword?.trim() || '爱情',
+    failureThreshold: Math.max(1, cfg?.failureThreshold ?? 3),
+    autoQuarantine: cfg?.autoQuarantine ?? true,
+  };
+}
+
+function classifyFetchError(error: any): SourceHealthErrorClass {
+  return error?.name === 'AbortError' ? 'timeout' : 'network';
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// 从 vod_play_url 中取第一个可直接播放的地址（格式：标题$地址#标题$地址$$$下一组）
+function extractFirstPlayUrl(playUrl?: string): string | null {
+  if (!playUrl) return null;
+  for (const group of playUrl.split('$$$')) {
+    for (const episode of group.split('#')) {
+      const parts = episode.split('$');
+      const url = parts.length === 2 ? parts[1] : '';
+      if (/^https?:\/\/.+\.(m3u8|mp4|mkv|flv|webm)(\?.*)?$/i.test(url)) {
+        return url;
+      }
+    }
+  }
+  return null;
+}
+
+async function checkPlayable(url: string): Promise<boolean> {
+  try {
+    const response = await fetchWithTimeout(
+      url,
+      { headers: { 'User-Agent': DEFAULT_USER_AGENT } },
+      PLAYABLE_TIMEOUT
+    );
+    if (!response.ok) {
+      await response.body?.cancel();
+      return false;
+    }
+    // m3u8 需要确认返回的是播放列表而不是错误页面；其他格式只检查状态码
+    if (/\.m3u8(\?.*)?$/i.test(url)) {
+      const text = await response.text();
+      return text.trimStart().startsWith('#EXTM3U');
+    }
+    await response.body?.cancel();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检测单个视频源：搜索接口可用性 + 抽检播放地址
+ */
+export async function probeSource(site: ApiSite, keyword: string): Promise<SourceHealthRecord> {
+  const record: SourceHealthRecord = {
+    timestamp: Date.now(),
+    ok: false,
+    latencyMs: 0,
+    searchOk: false,
+    resultCount: 0,
+    playableChecked: 0,
+    playableOk: 0,
+  };
+
+  const searchUrl = site.api + API_CONFIG.search.path + encodeURIComponent(keyword);
+  const startedAt = Date.now();
+  let data: any;
+  try {
+    const response = await fetchWithTimeout(
+      searchUrl,
+      { headers: API_CONFIG.search.headers },
+      SEARCH_TIMEOUT
+    );
+    record.latencyMs = Date.now() - startedAt;
+    if (!response.ok) {
+      await response.body?.cancel();
+      record.errorClass = 'http';
+      record.error = `HTTP ${response.status}`;
+      return record;
+    }
+    try {
+      data = await response.json();
+    } catch {
+      record.errorClass = 'parse';
+      record.error = '返回内容不是有效的 JSON';
+      return record;
+    }
+  } catch (error: any) {
+    record.latencyMs = Date.now() - startedAt;
+    record.errorClass = classifyFetchError(error);
+    record.error = record.errorClass === 'timeout' ? '请求超时' : error?.message || '网络错误';
+    return record;
+  }
+
+  if (!data || typeof data !== 'object') {
+    record.errorClass = 'parse';
+    record.error = '返回数据格式错误';
+    return record;
+  }
+  if (data.code && data.code !== 1) {
+    record.errorClass = 'api';
+    record.error = data.msg || `错误代码: ${data.code}`;
+    return record;
+  }
+
+  const list: any[] = Array.isArray(data.list) ? data.list : [];
+  record.searchOk = true;
+  record.resultCount = list.length;
+
+  const playUrls = list
+    .map((item) => extractFirstPlayUrl(item?.vod_play_url))
+    .filter((url): url is string => !!url)
+    .slice(0, PLAYABLE_SAMPLE_SIZE);
+  const playable = await Promise.all(playUrls.map(checkPlayable));
+  record.playableChecked = playable.length;
+  record.playableOk = playable.filter(Boolean).length;
+
+  // 关键词无结果不算失败（部分源只收录特定类型），有结果但播放地址全部不可用才算
+  if (record.playableChecked > 0 && record.playableOk === 0) {
+    record.errorClass = 'unplayable';
+    record.error = '抽检的播放地址均不可用';
+    return record;
+  }
+
+  record.ok = true;
+  return record;
+}
+
+/**
+ * 检测所有未禁用的视频源（含已隔离的源，以便恢复），更新健康历史并自动隔离 / 恢复
+ * 检测可能持续数分钟，隔离状态写回前重新读取最新配置，只修改 quarantined 字段，
+ * 避免覆盖检测期间管理员对配置的修改
+ */
+export async function runSourceHealthCheck(): Promise<SourceHealthRunResult> {
+  const config = await getConfig();
+  const settings = getSourceHealthSettings(config);
+  const states = await db.getAllSourceHealth();
+
+  const entries = config.SourceConfig.filter((s) => !s.disabled);
+  const sites = applyVideoProxy(
+    entries.map((s) => ({ key: s.key, name: s.name, api: s.api, detail: s.detail })),
+    config
+  );
+
+  const result: SourceHealthRunResult = {
+    total: sites.length,
+    healthy: 0,
+    failed: 0,
+    quarantined: [],
+    reinstated: [],
+  };
+  // 本次需要变更的隔离状态：源 key → 是否隔离
+  const quarantineChanges = new Map<string, boolean>();
+
+  for (let i = 0; i < sites.length; i += PROBE_CONCURRENCY) {
+    const batch = sites.slice(i, i + PROBE_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (site) => {
+        const record = await probeSource(site, settings.probeKeyword);
+        const entry = entries.find((s) => s.key === site.key);
+        const prev = states[site.key];
+        const state: SourceHealthState = {
+          consecutiveFailures: record.ok ? 0 : (prev?.consecutiveFailures || 0) + 1,
+          quarantinedAt: prev?.quarantinedAt ?? null,
+          lastCheckedAt: record.timestamp,
+          history: [record, ...(prev?.history || [])].slice(0, HISTORY_LIMIT),
+        };
+
+        if (record.ok) {
+          result.healthy++;
+        } else {
+          result.failed++;
+        }
+
+        if (entry && settings.autoQuarantine) {
+          if (!record.ok && !entry.quarantined && state.consecutiveFailures >= settings.failureThreshold) {
+            quarantineChanges.set(site.key, true);
+            state.quarantinedAt = record.timestamp;
+            console.warn(`🩺 视频源 ${site.name} 连续 ${state.consecutiveFailures} 次检测失败，已自动隔离`);
+          } else if (record.ok && entry.quarantined) {
+            quarantineChanges.set(site.key, false);
+            state.quarantinedAt = null;
+            console.log(`🩺 视频源 ${site.name} 已恢复，解除隔离`);
+          }
+        }
+
+        await db.saveSourceHealth(site.key, state);
+      })
+    );
+  }
+
+  // 重新读取最新配置，只写回隔离状态（检测期间被删除的源不再处理）
+  const latest = await getConfig();
+  let configChanged = false;
+  quarantineChanges.forEach((quarantined, key) => {
+    const source = latest.SourceConfig.find((s) => s.key === key);
+    if (!source) return;
+    if (!!source.quarantined !== quarantined) {
+      source.quarantined = quarantined;
+      configChanged = true;
+    }
+    (quarantined ? result.quarantined : result.reinstated).push(key);
+  });
+
+  // 清理已删除源的健康数据
+  const existingKeys = new Set(latest.SourceConfig.map((s) => s.key));
+  await Promise.all(
+    Object.keys(states)
+      .filter((key) => !existingKeys.has(key))
+      .map((key) => db.deleteSourceHealth(key))
+  );
+
+  if (configChanged) {
+    await db.saveAdminConfig(latest);
+    clearConfigCache();
+  }
+
+  return result;
+}
+
+function summarizeHistory(history: SourceHealthRecord[]) {
+  if (history.length === 0) {
+    return { successRate: null, searchSuccessRate: null, playableRate: null, avgLatencyMs: null };
+  }
+  const checked = history.reduce((sum, r) => sum + r.playableChecked, 0);
+  const playable = history.reduce((sum, r) => sum + r.playableOk, 0);
+  const searches = history.filter((r) => r.searchOk);
+  return {
+    successRate: history.filter((r) => r.ok).length / history.length,
+    searchSuccessRate: searches.length / history.length,
+    playableRate: checked > 0 ? playable / checked : null,
+    avgLatencyMs: searches.length > 0
+      ? Math.round(searches.reduce((sum, r) => sum + r.latencyMs, 0) / searches.length)
+      : null,
+  };
+}
+
+/**
+ * 管理面板使用的健康概览（按配置中的源顺序）
+ */
+export async function getSourceHealthOverview(): Promise<SourceHealthSummary[]> {
+  const [config, states] = await Promise.all([getConfig(), db.getAllSourceHealth()]);
+  return config.SourceConfig.map((source) => {
+    const state = states[source.key];
+    return {
+      key: source.key,
+      name: source.name,
+      disabled: !!source.disabled,
+      quarantined: !!source.quarantined,
+      quarantinedAt: state?.quarantinedAt ?? null,
+      consecutiveFailures: state?.consecutiveFailures || 0,
+      lastCheckedAt: state?.lastCheckedAt ?? null,
+      ...summarizeHistory(state?.history || []),
+      history: state?.history || [],
+    };
+  });
+}
@@ -0,0 +1,222 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+import { AdminConfig } from './admin.types';
+import { db } from './db';
+import { PlaybackOutcome, SourcePlaybackStats } from './types';
+
+export type WeightRegion = 'domestic' | 'international';
+
+// 统计按时间衰减，半衰期 7 天，让权重跟随源的近期表现
+const HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+// 样本数达到该值时学习权重的可信度为 50%
+const CONFIDENCE_SAMPLES = 20;
+// 地区统计样本太少时回退到全局统计
+const MIN_REGION_SAMPLES = 5;
+// 首帧耗时评分区间：不超过 1.5 秒满分，超过 10 秒零分
+const TTFF_GOOD_MS = 1500;
+const TTFF_BAD_MS = 10000;
+const MAX_TTFF_MS = 60000;
+const MAX_STALLS = 50;
+
+export interface AdaptiveWeightSettings {
+  enabled: boolean;
+  blend: number;
+  perRegion: boolean;
+}
+
+export interface SourceWeightDetail {
+  key: string;
+  name: string;
+  adminWeight: number;
+  effectiveWeight: number;
+  learnedWeight: number | null; // 没有样本时为 null
+  confidence: number;
+  stats: Partial<Record<'global' | WeightRegion, SourcePlaybackStats>>;
+}
+
+export function getAdaptiveWeightSettings(config: AdminConfig): AdaptiveWeightSettings {
+  const cfg = config.AdaptiveWeightConfig;
+  return {
+    enabled: cfg?.enabled ?? true,
+    blend: Math.min(1, Math.max(0, cfg?.blend ?? 0.5)),
+    perRegion: cfg?.perRegion ?? false,
+  };
+}
+
+function statsKey(region: 'global' | WeightRegion, sourceKey: string) {
+  return `${region}:${sourceKey}`;
+}
+
+function emptyStats(now: number): SourcePlaybackStats {
+  return { samples: 0, started: 0, ttffTotalMs: 0, stalls: 0, fatal: 0, switched: 0, updatedAt: now };
+}
+
+// 按距上次更新的时间衰减所有累计值
+function decayStats(stats: SourcePlaybackStats, now: number): SourcePlaybackStats {
+  const factor = Math.pow(0.5, Math.max(0, now - stats.updatedAt) / HALF_LIFE_MS);
+  return {
+    samples: stats.samples * factor,
+    started: stats.started * factor,
+    ttffTotalMs: stats.ttffTotalMs * factor,
+    stalls: stats.stalls * factor,
+    fatal: stats.fatal * factor,
+    switched: stats.switched * factor,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 校验并规范化播放器上报的数据，无效时返回 null
+ */
+export function normalizePlaybackOutcome(body: any): PlaybackOutcome | null {
+  if (!body || typeof body.source !== 'string' || !body.source) {
+    return null;
+  }
+  const ttff = Number(body.ttffMs);
+  return {
+    source: body.source,
+    ttffMs: Number.isFinite(ttff) && ttff >= 0 ? Math.min(ttff, MAX_TTFF_MS) : null,
+    stalls: Math.min(MAX_STALLS, Math.max(0, Math.floor(Number(body.stalls) || 0))),
+    fatal: body.fatal === true,
+    switched: body.switched === true,
+  };
+}
+
+/**
+ * 记录一次播放结果（同时累计到全局和对应地区）
+ */
+export async function recordPlaybackOutcome(
+  outcome: PlaybackOutcome,
+  region: WeightRegion
+): Promise<void> {
+  const now = Date.now();
+  for (const bucket of ['global', region] as const) {
+    const key = statsKey(bucket, outcome.source);
+    const prev = await db.getSourcePlaybackStats(key);
+    const stats = prev ? decayStats(prev, now) : emptyStats(now);
+
+    stats.samples += 1;
+    if (outcome.ttffMs !== null) {
+      stats.started += 1;
+      stats.ttffTotalMs += outcome.ttffMs;
+    }
+    stats.stalls += outcome.stalls;
+    if (outcome.fatal) stats.fatal += 1;
+    if (outcome.switched) stats.switched += 1;
+
+    await db.saveSourcePlaybackStats(key, stats);
+  }
+}
+
+/**
+ * 根据播放统计计算 0-100 的学习权重
+ */
+export function computeLearnedWeight(stats: SourcePlaybackStats): number {
+  if (stats.samples <= 0) return 50;
+
+  const startRate = Math.min(1, stats.started / stats.samples);
+  const fatalRate = Math.min(1, stats.fatal / stats.samples);
+  const switchRate = Math.min(1, stats.switched / stats.samples);
+  const avgTtff = stats.started > 0 ? stats.ttffTotalMs / stats.started : TTFF_BAD_MS;
+  const ttffScore = Math.min(1, Math.max(0, (TTFF_BAD_MS - avgTtff) / (TTFF_BAD_MS - TTFF_GOOD_MS)));
+  const stallScore = 1 / (1 + stats.stalls / Math.max(1, stats.started));
+
+  const quality =
+    0.3 * (1 - fatalRate) +
+    0.2 * startRate +
+    0.2 * (1 - switchRate) +
+    0.15 * ttffScore +
+    0.15 * stallScore;
+  return Math.round(quality * 100);
+}
+
+function pickStats(
+  all: Record<string, SourcePlaybackStats>,
+  sourceKey: string,
+  region: WeightRegion | null
+): SourcePlaybackStats | undefined {
+  if (region) {
+    const regional = all[statsKey(region, sourceKey)];
+    if (regional && regional.samples >= MIN_REGION_SAMPLES) {
+      return regional;
+    }
+  }
+  return all[statsKey('global', sourceKey)];
+}
+
+function blendWeight(
+  adminWeight: number,
+  stats: SourcePlaybackStats | undefined,
+  settings: AdaptiveWeightSettings
+) {
+  if (!settings.enabled || !stats) {
+    return { effective: adminWeight, learned: null, confidence: 0 };
+  }
+  const decayed = decayStats(stats, Date.now());
+  const learned = computeLearnedWeight(decayed);
+  const confidence = decayed.samples / (decayed.samples + CONFIDENCE_SAMPLES);
+  const ratio = settings.blend * confidence;
+  return {
+    effective: Math.round(adminWeight * (1 - ratio) + learned * ratio),
+    learned,
+    confidence,
+  };
+}
+
+/**
+ * 获取所有启用源的有效权重：管理员权重与学习权重按样本可信度混合
+ * @param region 用户网络地区，仅在开启按地区统计时生效
+ */
+export async function getEffectiveSourceWeights(
+  config: AdminConfig,
+  region: WeightRegion | null
+): Promise<Record<string, number>> {
+  const settings = getAdaptiveWeightSettings(config);
+  let allStats: Record<string, SourcePlaybackStats> = {};
+  if (settings.enabled) {
+    try {
+      allStats = await db.getAllSourcePlaybackStats();
+    } catch (error) {
+      console.error('读取播放统计失败，使用管理员权重:', error);
+    }
+  }
+
+  const weights: Record<string, number> = {};
+  for (const source of config.SourceConfig) {
+    if (source.disabled) continue;
+    const adminWeight = source.weight ?? 50;
+    const stats = pickStats(allStats, source.key, settings.perRegion ? region : null);
+    weights[source.key] = blendWeight(adminWeight, stats, settings).effective;
+  }
+  return weights;
+}
+
+/**
+ * 管理面板使用的权重明细（有效权重按全局统计计算）
+ */
+export async function getSourceWeightDetails(config: AdminConfig): Promise<SourceWeightDetail[]> {
+  const settings = getAdaptiveWeightSettings(config);
+  const allStats = await db.getAllSourcePlaybackStats();
+
+  return config.SourceConfig.map((source) => {
+    const adminWeight = source.weight ?? 50;
+    const globalStats = allStats[statsKey('global', source.key)];
+    const { effective, learned, confidence } = blendWeight(adminWeight, globalStats, settings);
+
+    const stats: SourceWeightDetail['stats'] = {};
+    for (const bucket of ['global', 'domestic', 'international'] as const) {
+      const value = allStats[statsKey(bucket, source.key)];
+      if (value) stats[bucket] = decayStats(value, Date.now());
+    }
+
+    return {
+      key: source.key,
+      name: source.name,
+      adminWeight,
+      effectiveWeight: effective,
+      learnedWeight: learned,
+      confidence,
+      stats,
+    };
+  });
+}
@@ -0,0 +1,1673 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
+
+import { AdminConfig } from './admin.types';
+import {
+  ApiToken,
+  ContentStat,
+  EpisodeSkipConfig,
+  Favorite,
+  IStorage,
+  LiveChannelHealthReport,
+  LivePreferences,
+  LiveRecording,
+  LiveReminder,
+  OfflineDownloadJob,
+  PlayRecord,
+  PlayStatsResult,
+  SearchIndexEntry,
+  SourceHealthState,
+  SourcePlaybackStats,
+  TwoFactorSecret,
+  UserAccountSnapshot,
+  UserPlayStat,
+  UserSession,
+} from './types';
+
+// 搜索历史最大条数
+const SEARCH_HISTORY_LIMIT = 20;
+
+// 连接配置接口
+export interface SqlConnectionConfig {
+  url: string; // SQLite 文件路径或 Postgres 连接串
+  clientName: string; // 用于日志显示，如 "SQLite" 或 "Postgres"
+}
+
+// 单条 SQL 语句（用于批量事务）
+export type SqlStatement = [sql: string, params?: unknown[]];
+
+// SQL 驱动接口：统一 SQLite / Postgres 的最小操作集
+// SQL 中统一使用 ? 占位符，由各驱动自行转换
+export interface SqlDriver {
+  dialect: 'sqlite' | 'postgres';
+  query<T = any>(sql: string, params?: unknown[]): Promise<T[]>;
+  execute(sql: string, params?: unknown[]): Promise<number>; // 返回受影响行数
+  batch(statements: SqlStatement[]): Promise<void>; // 在同一事务中执行
+}
+
+// 建表语句（SQLite 与 Postgres 通用语法）
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS users (
+    username TEXT PRIMARY KEY,
+    password TEXT,
+    password_hash TEXT,
+    role TEXT,
+    banned INTEGER NOT NULL DEFAULT 0,
+    tags TEXT,
+    enabled_apis TEXT,
+    oidc_sub TEXT,
+    created_at BIGINT,
+    is_v2 INTEGER NOT NULL DEFAULT 0
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_users_oidc_sub ON users (oidc_sub)',
+  `CREATE TABLE IF NOT EXISTS play_records (
+    username TEXT NOT NULL,
+    record_key TEXT NOT NULL,
+    data TEXT NOT NULL,
+    save_time BIGINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (username, record_key)
+  )`,
+  `CREATE TABLE IF NOT EXISTS favorites (
+    username TEXT NOT NULL,
+    record_key TEXT NOT NULL,
+    data TEXT NOT NULL,
+    save_time BIGINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (username, record_key)
+  )`,
+  `CREATE TABLE IF NOT EXISTS skip_configs (
+    username TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    record_key TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (username, kind, record_key)
+  )`,
+  `CREATE TABLE IF NOT EXISTS search_history (
+    username TEXT NOT NULL,
+    keyword TEXT NOT NULL,
+    seq BIGINT NOT NULL,
+    PRIMARY KEY (username, keyword)
+  )`,
+  `CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL,
+    created_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_api_tokens_username ON api_tokens (username)',
+  `CREATE TABLE IF NOT EXISTS user_sessions (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    data TEXT NOT NULL,
+    last_seen_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_user_sessions_username ON user_sessions (username)',
+  `CREATE TABLE IF NOT EXISTS source_health (
+    source_key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS source_playback_stats (
+    stats_key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS search_index (
+    entry_key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS live_channel_health (
+    source_key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS live_recordings (
+    recording_id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS live_reminders (
+    reminder_id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS offline_downloads (
+    job_id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at BIGINT NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS kv_store (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at BIGINT
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_kv_store_expires_at ON kv_store (expires_at)',
+];
+
+// 参数规范化：驱动不接受 undefined / boolean
+export function normalizeSqlParams(params: unknown[] = []): unknown[] {
+  return params.map((p) => {
+    if (p === undefined) return null;
+    if (typeof p === 'boolean') return p ? 1 : 0;
+    return p;
+  });
+}
+
+// Redis glob 模式转 LIKE 模式（仅支持 * 和 ?）
+function globToLike(pattern: string): string {
+  return pattern
+    .replace(/[\\%_]/g, (c) => `\\${c}`)
+    .replace(/\*/g, '%')
+    .replace(/\?/g, '_');
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Postgres 的 BIGINT 以字符串返回，统一转为数字
+function toNumber(value: any): number {
+  if (value === null || value === undefined) return 0;
+  return typeof value === 'number' ? value : Number(value);
+}
+
+/**
+ * 兼容 node-redis 字符串命令子集的键值客户端（基于 kv_store 表）
+ * 供直接读写 storage.client 的模块使用（日历缓存、缓存统计、数据迁移等）
+ */
+export class SqlKeyValueClient {
+  constructor(private getDriver: () => Promise<SqlDriver>) {}
+
+  async get(key: string): Promise<string | null> {
+    const driver = await this.getDriver();
+    const rows = await driver.query<{ value: string }>(
+      'SELECT value FROM kv_store WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)',
+      [key, Date.now()]
+    );
+    return rows.length > 0 ? rows[0].value : null;
+  }
+
+  async mGet(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return [];
+    const driver = await this.getDriver();
+    const placeholders = keys.map(() => '?').join(', ');
+    const rows = await driver.query<{ key: string; value: string }>(
+      `SELECT key, value FROM kv_store WHERE key IN (${placeholders}) AND (expires_at IS NULL OR expires_at > ?)`,
+      [...keys, Date.now()]
+    );
+    const map = new Map(rows.map((r) => [r.key, r.value]));
+    return keys.map((k) => map.get(k) ?? null);
+  }
+
+  async set(key: string, value: string): Promise<string> {
+    await this.write(key, value, null);
+    return 'OK';
+  }
+
+  async setEx(key: string, seconds: number, value: string): Promise<string> {
+    await this.write(key, value, Date.now() + seconds * 1000);
+    return 'OK';
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    const list = Array.isArray(keys) ? keys : [keys];
+    if (list.length === 0) return 0;
+    const driver = await this.getDriver();
+    const placeholders = list.map(() => '?').join(', ');
+    return driver.execute(
+      `DELETE FROM kv_store WHERE key IN (${placeholders})`,
+      list
+    );
+  }
+
+  async exists(key: string): Promise<number> {
+    return (await this.get(key)) === null ? 0 : 1;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const driver = await this.getDriver();
+    const rows = await driver.query<{ key: string }>(
+      "SELECT key FROM kv_store WHERE key LIKE ? ESCAPE '\\' AND (expires_at IS NULL OR expires_at > ?)",
+      [globToLike(pattern), Date.now()]
+    );
+    return rows.map((r) => r.key);
+  }
+
+  // 与 Redis 语义一致：-2 不存在，-1 永不过期，否则为剩余秒数
+  async ttl(key: string): Promise<number> {
+    const driver = await this.getDriver();
+    const rows = await driver.query<{ expires_at: any }>(
+      'SELECT expires_at FROM kv_store WHERE key = ?',
+      [key]
+    );
+    if (rows.length === 0) return -2;
+    if (rows[0].expires_at === null) return -1;
+    const remaining = Math.ceil((toNumber(rows[0].expires_at) - Date.now()) / 1000);
+    return remaining > 0 ? remaining : -2;
+  }
+
+  private async write(key: string, value: string, expiresAt: number | null) {
+    const driver = await this.getDriver();
+    await driver.execute(
+      `INSERT INTO kv_store (key, value, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`,
+      [key, value, expiresAt]
+    );
+  }
+}
+
+// 添加SQL操作重试包装器（仅对连接类错误重试）
+function createRetryWrapper(clientName: string) {
+  return async function withRetry<T>(
+    operation: () => Promise<T>,
+    maxRetries = 3
+  ): Promise<T> {
+    for (let i = 0; i < maxRetries; i++) {
+      try {
+        return await operation();
+      } catch (err: any) {
+        const isLastAttempt = i === maxRetries - 1;
+        const isConnectionError =
+          err.message?.includes('Connection') ||
+          err.message?.includes('ECONNREFUSED') ||
+          err.message?.includes('ENOTFOUND') ||
+          err.code === 'ECONNRESET' ||
+          err.code === 'EPIPE' ||
+          err.code === 'SQLITE_BUSY';
+
+        if (isConnectionError && !isLastAttempt) {
+          console.log(
+            `${clientName} operation failed, retrying... (${i + 1}/${maxRetries})`
+          );
+          console.error('Error:', err.message);
+          await new Promise((resolve) => setTimeout(resolve, 1000 * (i + 1)));
+          continue;
+        }
+
+        throw err;
+      }
+    }
+
+    throw new Error('Max retries exceeded');
+  };
+}
+
+// 抽象基类，包含所有通用的SQL操作逻辑，行为与 BaseRedisStorage 保持一致
+export abstract class BaseSqlStorage implements IStorage {
+  public client: SqlKeyValueClient;
+  protected config: SqlConnectionConfig;
+  protected withRetry: <T>(operation: () => Promise<T>, maxRetries?: number) => Promise<T>;
+  private driver: SqlDriver;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(config: SqlConnectionConfig, driver: SqlDriver) {
+    this.config = config;
+    this.driver = driver;
+    this.withRetry = createRetryWrapper(config.clientName);
+    this.client = new SqlKeyValueClient(() => this.conn());
+  }
+
+  // 获取已完成建表的驱动
+  protected async conn(): Promise<SqlDriver> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.driver
+        .batch(SCHEMA_STATEMENTS.map((sql) => [sql] as SqlStatement))
+        .then(() => {
+          console.log(`${this.config.clientName} schema ready`);
+        })
+        .catch((err) => {
+          this.schemaReady = null; // 允许下次重试
+          throw err;
+        });
+    }
+    await this.schemaReady;
+    return this.driver;
+  }
+
+  private async query<T = any>(sql: string, params?: unknown[]): Promise<T[]> {
+    const driver = await this.conn();
+    return this.withRetry(() => driver.query<T>(sql, params));
+  }
+
+  private async execute(sql: string, params?: unknown[]): Promise<number> {
+    const driver = await this.conn();
+    return this.withRetry(() => driver.execute(sql, params));
+  }
+
+  private async batch(statements: SqlStatement[]): Promise<void> {
+    if (statements.length === 0) return;
+    const driver = await this.conn();
+    await this.withRetry(() => driver.batch(statements));
+  }
+
+  // ---------- 播放记录 / 收藏（共用表结构） ----------
+  private async getRecord<T>(
+    table: 'play_records' | 'favorites',
+    userName: string,
+    key: string
+  ): Promise<T | null> {
+    const rows = await this.query<{ data: string }>(
+      `SELECT data FROM ${table} WHERE username = ? AND record_key = ?`,
+      [userName, key]
+    );
+    return rows.length > 0 ? (JSON.parse(rows[0].data) as T) : null;
+  }
+
+  private upsertRecordStatement(
+    table: 'play_records' | 'favorites',
+    userName: string,
+    key: string,
+    value: PlayRecord | Favorite
+  ): SqlStatement {
+    return [
+      `INSERT INTO ${table} (username, record_key, data, save_time) VALUES (?, ?, ?, ?)
+       ON CONFLICT (username, record_key) DO UPDATE SET data = excluded.data, save_time = excluded.save_time`,
+      [userName, key, JSON.stringify(value), value.save_time || 0],
+    ];
+  }
+
+  private async getAllRecords<T>(
+    table: 'play_records' | 'favorites',
+    userName: string
+  ): Promise<Record<string, T>> {
+    const rows = await this.query<{ record_key: string; data: string }>(
+      `SELECT record_key, data FROM ${table} WHERE username = ?`,
+      [userName]
+    );
+    const result: Record<string, T> = {};
+    for (const row of rows) {
+      result[row.record_key] = JSON.parse(row.data) as T;
+    }
+    return result;
+  }
+
+  // ---------- 播放记录 ----------
+  async getPlayRecord(
+    userName: string,
+    key: string
+  ): Promise<PlayRecord | null> {
+    return this.getRecord<PlayRecord>('play_records', userName, key);
+  }
+
+  async setPlayRecord(
+    userName: string,
+    key: string,
+    record: PlayRecord
+  ): Promise<void> {
+    const [sql, params] = this.upsertRecordStatement('play_records', userName, key, record);
+    await this.execute(sql, params);
+  }
+
+  async getAllPlayRecords(
+    userName: string
+  ): Promise<Record<string, PlayRecord>> {
+    return this.getAllRecords<PlayRecord>('play_records', userName);
+  }
+
+  async deletePlayRecord(userName: string, key: string): Promise<void> {
+    await this.execute(
+      'DELETE FROM play_records WHERE username = ? AND record_key = ?',
+      [userName, key]
+    );
+  }
+
+  // ---------- 收藏 ----------
+  async getFavorite(userName: string, key: string): Promise<Favorite | null> {
+    return this.getRecord<Favorite>('favorites', userName, key);
+  }
+
+  async setFavorite(
+    userName: string,
+    key: string,
+    favorite: Favorite
+  ): Promise<void> {
+    const [sql, params] = this.upsertRecordStatement('favorites', userName, key, favorite);
+    await this.execute(sql, params);
+  }
+
+  async getAllFavorites(userName: string): Promise<Record<string, Favorite>> {
+    return this.getAllRecords<Favorite>('favorites', userName);
+  }
+
+  async deleteFavorite(userName: string, key: string): Promise<void> {
+    await this.execute(
+      'DELETE FROM favorites WHERE username = ? AND record_key = ?',
+      [userName, key]
+    );
+  }
+
+  // ---------- 🚀 批量写入方法（单事务，减少往返） ----------
+
+  /**
+   * 批量保存播放记录（单事务）
+   * @param userName 用户名
+   * @param records 键值对 { "source+id": PlayRecord }
+   */
+  async setPlayRecordsBatch(
+    userName: string,
+    records: Record<string, PlayRecord>
+  ): Promise<void> {
+    await this.batch(
+      Object.entries(records).map(([key, record]) =>
+        this.upsertRecordStatement('play_records', userName, key, record)
+      )
+    );
+  }
+
+  /**
+   * 批量保存收藏（单事务）
+   * @param userName 用户名
+   * @param favorites 键值对 { "source+id": Favorite }
+   */
+  async setFavoritesBatch(
+    userName: string,
+    favorites: Record<string, Favorite>
+  ): Promise<void> {
+    await this.batch(
+      Object.entries(favorites).map(([key, favorite]) =>
+        this.upsertRecordStatement('favorites', userName, key, favorite)
+      )
+    );
+  }
+
+  // ---------- 用户注册 / 登录 ----------
+  async registerUser(userName: string, password: string): Promise<void> {
+    // 与 Redis 版本一致，V1 用户存储明文密码
+    await this.execute(
+      `INSERT INTO users (username, password) VALUES (?, ?)
+       ON CONFLICT (username) DO UPDATE SET password = excluded.password`,
+      [userName, password]
+    );
+  }
+
+  async verifyUser(userName: string, password: string): Promise<boolean> {
+    const stored = await this.getV1Password(userName);
+    if (stored === null) return false;
+    return stored === password;
+  }
+
+  // 检查用户是否存在（V1）
+  async checkUserExist(userName: string): Promise<boolean> {
+    return (await this.getV1Password(userName)) !== null;
+  }
+
+  // 修改用户密码
+  async changePassword(userName: string, newPassword: string): Promise<void> {
+    await this.registerUser(userName, newPassword);
+  }
+
+  // 获取 V1 明文密码（数据导出使用）
+  async getV1Password(userName: string): Promise<string | null> {
+    const rows = await this.query<{ password: string | null }>(
+      'SELECT password FROM users WHERE username = ?',
+      [userName]
+    );
+    return rows.length > 0 && rows[0].password !== null ? rows[0].password : null;
+  }
+
+  // 删除 V1 密码（用于 V1→V2 迁移）
+  async deleteV1Password(userName: string): Promise<void> {
+    await this.batch([
+      ['UPDATE users SET password = NULL WHERE username = ?', [userName]],
+      ['DELETE FROM users WHERE username = ? AND is_v2 = 0', [userName]],
+    ]);
+  }
+
+  // 删除用户及其所有数据
+  async deleteUser(userName: string): Promise<void> {
+    await this.batch([
+      ['DELETE FROM users WHERE username = ?', [userName]],
+      ['DELETE FROM search_history WHERE username = ?', [userName]],
+      ['DELETE FROM play_records WHERE username = ?', [userName]],
+      ['DELETE FROM favorites WHERE username = ?', [userName]],
+      ['DELETE FROM skip_configs WHERE username = ?', [userName]],
+      ['DELETE FROM api_tokens WHERE username = ?', [userName]],
+      ['DELETE FROM user_sessions WHERE username = ?', [userName]],
+      ['DELETE FROM kv_store WHERE key = ?', [this.loginStatsKey(userName)]],
+      ['DELETE FROM kv_store WHERE key = ?', [this.twoFactorKey(userName)]],
+      ['DELETE FROM kv_store WHERE key = ?', [this.livePreferencesKey(userName)]],
+    ]);
+  }
+
+  // ---------- 用户相关（新版本 V2，支持 OIDC） ----------
+  // SHA256加密密码
+  private async hashPassword(password: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const data = encoder.encode(password);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // 创建新用户（新版本）
+  async createUserV2(
+    userName: string,
+    password: string,
+    role: 'owner' | 'admin' | 'user' = 'user',
+    tags?: string[],
+    oidcSub?: string,
+    enabledApis?: string[]
+  ): Promise<void> {
+    const hashedPassword = await this.hashPassword(password);
+    await this.execute(
+      `INSERT INTO users (username, password_hash, role, banned, tags, enabled_apis, oidc_sub, created_at, is_v2)
+       VALUES (?, ?, ?, 0, ?, ?, ?, ?, 1)
+       ON CONFLICT (username) DO UPDATE SET
+         password_hash = excluded.password_hash,
+         role = excluded.role,
+         banned = excluded.banned,
+         tags = excluded.tags,
+         enabled_apis = excluded.enabled_apis,
+         oidc_sub = excluded.oidc_sub,
+         created_at = excluded.created_at,
+         is_v2 = 1`,
+      [
+        userName,
+        hashedPassword,
+        role,
+        tags && tags.length > 0 ? JSON.stringify(tags) : null,
+        enabledApis && enabledApis.length > 0 ? JSON.stringify(enabledApis) : null,
+        oidcSub || null,
+        Date.now(),
+      ]
+    );
+  }
+
+  // 验证用户密码（新版本）
+  async verifyUserV2(userName: string, password: string): Promise<boolean> {
+    const rows = await this.query<{ password_hash: string | null }>(
+      'SELECT password_hash FROM users WHERE username = ? AND is_v2 = 1',
+      [userName]
+    );
+    if (rows.length === 0 || !rows[0].password_hash) {
+      return false;
+    }
+    const hashedPassword = await this.hashPassword(password);
+    return rows[0].password_hash === hashedPassword;
+  }
+
+  // 获取用户信息（新版本）
+  async getUserInfoV2(userName: string): Promise<{
+    username: string;
+    role: 'owner' | 'admin' | 'user';
+    banned: boolean;
+    tags?: string[];
+    oidcSub?: string;
+    enabledApis?: string[];
+    createdAt?: number;
+  } | null> {
+    const rows = await this.query<any>(
+      'SELECT role, banned, tags, enabled_apis, oidc_sub, created_at FROM users WHERE username = ? AND is_v2 = 1',
+      [userName]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows[0];
+    const parseList = (raw: string | null): string[] | undefined => {
+      if (!raw) return undefined;
+      try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        return raw.split(',').map((t) => t.trim());
+      }
+    };
+
+    return {
+      username: userName,
+      role: (row.role as 'owner' | 'admin' | 'user') || 'user',
+      banned: toNumber(row.banned) === 1,
+      tags: parseList(row.tags),
+      oidcSub: row.oidc_sub || undefined,
+      enabledApis: parseList(row.enabled_apis),
+      createdAt: row.created_at !== null ? toNumber(row.created_at) : undefined,
+    };
+  }
+
+  // 检查用户是否存在（新版本）
+  async checkUserExistV2(userName: string): Promise<boolean> {
+    const rows = await this.query(
+      'SELECT 1 AS found FROM users WHERE username = ? AND is_v2 = 1',
+      [userName]
+    );
+    return rows.length > 0;
+  }
+
+  // 通过OIDC Sub查找用户名
+  async getUserByOidcSub(oidcSub: string): Promise<string | null> {
+    const rows = await this.query<{ username: string }>(
+      'SELECT username FROM users WHERE oidc_sub = ? ORDER BY created_at DESC LIMIT 1',
+      [oidcSub]
+    );
+    return rows.length > 0 ? rows[0].username : null;
+  }
+
+  // ---------- 搜索历史 ----------
+  async getSearchHistory(userName: string): Promise<string[]> {
+    const rows = await this.query<{ keyword: string }>(
+      'SELECT keyword FROM search_history WHERE username = ? ORDER BY seq DESC',
+      [userName]
+    );
+    return rows.map((r) => String(r.keyword));
+  }
+
+  async addSearchHistory(userName: string, keyword: string): Promise<void> {
+    const value = String(keyword);
+    await this.batch([
+      // 先去重
+      ['DELETE FROM search_history WHERE username = ? AND keyword = ?', [userName, value]],
+      // 插入到最前
+      [
+        `INSERT INTO search_history (username, keyword, seq)
+         SELECT ?, ?, COALESCE(MAX(seq), 0) + 1 FROM search_history WHERE username = ?`,
+        [userName, value, userName],
+      ],
+      // 限制最大长度
+      [
+        `DELETE FROM search_history WHERE username = ? AND seq <= (
+           SELECT seq FROM search_history WHERE username = ? ORDER BY seq DESC LIMIT 1 OFFSET ?
+         )`,
+        [userName, userName, SEARCH_HISTORY_LIMIT],
+      ],
+    ]);
+  }
+
+  async deleteSearchHistory(userName: string, keyword?: string): Promise<void> {
+    if (keyword) {
+      await this.execute(
+        'DELETE FROM search_history WHERE username = ? AND keyword = ?',
+        [userName, String(keyword)]
+      );
+    } else {
+      await this.execute('DELETE FROM search_history WHERE username = ?', [userName]);
+    }
+  }
+
+  // ---------- 获取全部用户 ----------
+  async getAllUsers(): Promise<string[]> {
+    // 包含 V1（仅有明文密码）与 V2 用户
+    const rows = await this.query<{ username: string }>(
+      'SELECT username FROM users WHERE password IS NOT NULL OR is_v2 = 1'
+    );
+    return rows.map((r) => String(r.username));
+  }
+
+  // ---------- 管理员配置 ----------
+  private adminConfigKey() {
+    return 'admin:config';
+  }
+
+  async getAdminConfig(): Promise<AdminConfig | null> {
+    const val = await this.client.get(this.adminConfigKey());
+    return val ? (JSON.parse(val) as AdminConfig) : null;
+  }
+
+  async setAdminConfig(config: AdminConfig): Promise<void> {
+    await this.client.set(this.adminConfigKey(), JSON.stringify(config));
+  }
+
+  // ---------- 跳过片头片尾配置 ----------
+  private async getSkipRow(
+    kind: 'skip' | 'episodeskip',
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<EpisodeSkipConfig | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM skip_configs WHERE username = ? AND kind = ? AND record_key = ?',
+      [userName, kind, `${source}+${id}`]
+    );
+    return rows.length > 0 ? (JSON.parse(rows[0].data) as EpisodeSkipConfig) : null;
+  }
+
+  private async setSkipRow(
+    kind: 'skip' | 'episodeskip',
+    userName: string,
+    source: string,
+    id: string,
+    config: EpisodeSkipConfig
+  ): Promise<void> {
+    await this.execute(
+      `INSERT INTO skip_configs (username, kind, record_key, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (username, kind, record_key) DO UPDATE SET data = excluded.data`,
+      [userName, kind, `${source}+${id}`, JSON.stringify(config)]
+    );
+  }
+
+  private async deleteSkipRow(
+    kind: 'skip' | 'episodeskip',
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<void> {
+    await this.execute(
+      'DELETE FROM skip_configs WHERE username = ? AND kind = ? AND record_key = ?',
+      [userName, kind, `${source}+${id}`]
+    );
+  }
+
+  private async getAllSkipRows(
+    kind: 'skip' | 'episodeskip',
+    userName: string
+  ): Promise<{ [key: string]: EpisodeSkipConfig }> {
+    const rows = await this.query<{ record_key: string; data: string }>(
+      'SELECT record_key, data FROM skip_configs WHERE username = ? AND kind = ?',
+      [userName, kind]
+    );
+    const configs: { [key: string]: EpisodeSkipConfig } = {};
+    for (const row of rows) {
+      configs[row.record_key] = JSON.parse(row.data) as EpisodeSkipConfig;
+    }
+    return configs;
+  }
+
+  async getSkipConfig(
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<EpisodeSkipConfig | null> {
+    return this.getSkipRow('skip', userName, source, id);
+  }
+
+  async setSkipConfig(
+    userName: string,
+    source: string,
+    id: string,
+    config: EpisodeSkipConfig
+  ): Promise<void> {
+    await this.setSkipRow('skip', userName, source, id, config);
+  }
+
+  async deleteSkipConfig(
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<void> {
+    await this.deleteSkipRow('skip', userName, source, id);
+  }
+
+  async getAllSkipConfigs(
+    userName: string
+  ): Promise<{ [key: string]: EpisodeSkipConfig }> {
+    return this.getAllSkipRows('skip', userName);
+  }
+
+  // ---------- 剧集跳过配置（新版，多片段支持）----------
+  async getEpisodeSkipConfig(
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<EpisodeSkipConfig | null> {
+    return this.getSkipRow('episodeskip', userName, source, id);
+  }
+
+  async saveEpisodeSkipConfig(
+    userName: string,
+    source: string,
+    id: string,
+    config: EpisodeSkipConfig
+  ): Promise<void> {
+    await this.setSkipRow('episodeskip', userName, source, id, config);
+  }
+
+  async deleteEpisodeSkipConfig(
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<void> {
+    await this.deleteSkipRow('episodeskip', userName, source, id);
+  }
+
+  async getAllEpisodeSkipConfigs(
+    userName: string
+  ): Promise<{ [key: string]: EpisodeSkipConfig }> {
+    return this.getAllSkipRows('episodeskip', userName);
+  }
+
+  // 清空所有数据（保留通用缓存，与 Redis 版本一致）
+  async clearAllData(): Promise<void> {
+    try {
+      await this.batch([
+        ['DELETE FROM users'],
+        ['DELETE FROM search_history'],
+        ['DELETE FROM play_records'],
+        ['DELETE FROM favorites'],
+        ['DELETE FROM skip_configs'],
+        ['DELETE FROM api_tokens'],
+        ['DELETE FROM user_sessions'],
+        ['DELETE FROM source_health'],
+        ['DELETE FROM live_channel_health'],
+        ['DELETE FROM live_recordings'],
+        ['DELETE FROM live_reminders'],
+        ['DELETE FROM offline_downloads'],
+        ['DELETE FROM source_playback_stats'],
+        ['DELETE FROM search_index'],
+        ['DELETE FROM kv_store WHERE key = ?', [this.adminConfigKey()]],
+        [
+          "DELETE FROM kv_store WHERE key LIKE ? ESCAPE '\\'",
+          [`${escapeLike('user_login_stats:')}%`],
+        ],
+        [
+          "DELETE FROM kv_store WHERE key LIKE ? ESCAPE '\\'",
+          [`${escapeLike('u:')}%${escapeLike(':2fa')}`],
+        ],
+      ]);
+      console.log('所有数据已清空');
+    } catch (error) {
+      console.error('清空数据失败:', error);
+      throw new Error('清空数据失败');
+    }
+  }
+
+  // ---------- 通用缓存方法 ----------
+  private cacheKey(key: string) {
+    return `cache:${key}`;
+  }
+
+  async getCache(key: string): Promise<any | null> {
+    try {
+      const val = await this.client.get(this.cacheKey(key));
+      if (!val) return null;
+      try {
+        return JSON.parse(val);
+      } catch (parseError) {
+        console.warn(`${this.config.clientName} JSON解析失败，返回原字符串 (key: ${key}):`, parseError);
+        return val;
+      }
+    } catch (error: any) {
+      console.error(`${this.config.clientName} getCache error (key: ${key}):`, error);
+      return null;
+    }
+  }
+
+  async setCache(key: string, data: any, expireSeconds?: number): Promise<void> {
+    try {
+      const cacheKey = this.cacheKey(key);
+      const value = JSON.stringify(data);
+
+      if (expireSeconds !== undefined) {
+        if (expireSeconds <= 0) {
+          const error = new Error(
+            `${this.config.clientName} Invalid TTL: ${expireSeconds} seconds. TTL must be positive.`
+          );
+          console.error(error.message);
+          throw error;
+        }
+        await this.client.setEx(cacheKey, Math.floor(expireSeconds), value);
+      } else {
+        await this.client.set(cacheKey, value);
+      }
+    } catch (error) {
+      console.error(`${this.config.clientName} setCache error (key: ${key}):`, error);
+      throw error; // 重新抛出错误以便上层处理
+    }
+  }
+
+  async deleteCache(key: string): Promise<void> {
+    await this.client.del(this.cacheKey(key));
+  }
+
+  async clearExpiredCache(prefix?: string): Promise<void> {
+    // SQL 没有自动过期机制，先物理删除已过期的行
+    await this.execute(
+      'DELETE FROM kv_store WHERE expires_at IS NOT NULL AND expires_at <= ?',
+      [Date.now()]
+    );
+
+    // 与 Redis 版本一致：按前缀手动清理
+    const pattern = prefix ? `cache:${prefix}*` : 'cache:*';
+    const deleted = await this.execute(
+      "DELETE FROM kv_store WHERE key LIKE ? ESCAPE '\\'",
+      [globToLike(pattern)]
+    );
+    if (deleted > 0) {
+      console.log(`Cleared ${deleted} cache entries with pattern: ${pattern}`);
+    }
+  }
+
+  // ---------- 播放统计相关 ----------
+  private loginStatsKey(userName: string) {
+    return `user_login_stats:${userName}`;
+  }
+
+  private async getLoginStats(userName: string): Promise<{
+    loginCount: number;
+    firstLoginTime: number;
+    lastLoginTime: number;
+    lastLoginDate: number;
+  }> {
+    const loginStats = {
+      loginCount: 0,
+      firstLoginTime: 0,
+      lastLoginTime: 0,
+      lastLoginDate: 0,
+    };
+
+    try {
+      const stored = await this.client.get(this.loginStatsKey(userName));
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        loginStats.loginCount = parsed.loginCount || 0;
+        loginStats.firstLoginTime = parsed.firstLoginTime || 0;
+        loginStats.lastLoginTime = parsed.lastLoginTime || 0;
+        loginStats.lastLoginDate = parsed.lastLoginDate || parsed.lastLoginTime || 0;
+      }
+    } catch (error) {
+      console.error(`获取用户 ${userName} 登入统计失败:`, error);
+    }
+
+    return loginStats;
+  }
+
+  // 获取全站播放统计
+  async getPlayStats(): Promise<PlayStatsResult> {
+    try {
+      // 尝试从缓存获取
+      const cached = await this.getCache('play_stats_summary');
+      if (cached) {
+        return cached;
+      }
+
+      const allUsers = await this.getAllUsers();
+      const userStats: PlayStatsResult['userStats'] = [];
+      let totalWatchTime = 0;
+      let totalPlays = 0;
+
+      const now = Date.now();
+      const todayStart = new Date(now).setHours(0, 0, 0, 0);
+      let todayNewUsers = 0;
+      const registrationData: Record<string, number> = {};
+      const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
+
+      // 设置项目开始时间，2025年9月14日
+      const PROJECT_START_DATE = new Date('2025-09-14').getTime();
+
+      for (const username of allUsers) {
+        const userStat = await this.getUserPlayStat(username);
+
+        // 与 Redis 版本一致：使用首次播放时间或项目开始时间推断注册时间
+        const userCreatedAt = userStat.firstWatchDate || PROJECT_START_DATE;
+        const registrationDays = Math.floor((now - userCreatedAt) / (1000 * 60 * 60 * 24)) + 1;
+
+        if (userCreatedAt >= todayStart) {
+          todayNewUsers++;
+        }
+
+        if (userCreatedAt >= sevenDaysAgo) {
+          const regDate = new Date(userCreatedAt).toISOString().split('T')[0];
+          registrationData[regDate] = (registrationData[regDate] || 0) + 1;
+        }
+
+        userStats.push({
+          username: userStat.username,
+          totalWatchTime: userStat.totalWatchTime,
+          totalPlays: userStat.totalPlays,
+          lastPlayTime: userStat.lastPlayTime,
+          recentRecords: userStat.recentRecords,
+          avgWatchTime: userStat.avgWatchTime,
+          mostWatchedSource: userStat.mostWatchedSource,
+          registrationDays,
+          lastLoginTime: userStat.lastPlayTime || userCreatedAt,
+          loginCount: userStat.loginCount || 0,
+          createdAt: userCreatedAt,
+        });
+        totalWatchTime += userStat.totalWatchTime;
+        totalPlays += userStat.totalPlays;
+      }
+
+      // 计算热门来源
+      const sourceMap = new Map<string, number>();
+      for (const user of userStats) {
+        for (const record of user.recentRecords) {
+          sourceMap.set(record.source_name, (sourceMap.get(record.source_name) || 0) + 1);
+        }
+      }
+      const topSources = Array.from(sourceMap.entries())
+        .map(([source, count]) => ({ source, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+
+      // 生成近7天统计（简化版本）与注册趋势
+      const dailyStats = [];
+      const registrationTrend = [];
+      for (let i = 6; i >= 0; i--) {
+        const dateKey = new Date(now - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        dailyStats.push({
+          date: dateKey,
+          watchTime: Math.floor(totalWatchTime / 7),
+          plays: Math.floor(totalPlays / 7),
+        });
+        registrationTrend.push({
+          date: dateKey,
+          newUsers: registrationData[dateKey] || 0,
+        });
+      }
+
+      const oneDayAgo = now - 24 * 60 * 60 * 1000;
+      const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
+
+      const result: PlayStatsResult = {
+        totalUsers: allUsers.length,
+        totalWatchTime,
+        totalPlays,
+        avgWatchTimePerUser: allUsers.length > 0 ? totalWatchTime / allUsers.length : 0,
+        avgPlaysPerUser: allUsers.length > 0 ? totalPlays / allUsers.length : 0,
+        userStats: userStats.sort((a, b) => b.totalWatchTime - a.totalWatchTime),
+        topSources,
+        dailyStats,
+        registrationStats: {
+          todayNewUsers,
+          totalRegisteredUsers: allUsers.length,
+          registrationTrend,
+        },
+        activeUsers: {
+          daily: userStats.filter(user => user.lastLoginTime >= oneDayAgo).length,
+          weekly: userStats.filter(user => user.lastLoginTime >= sevenDaysAgo).length,
+          monthly: userStats.filter(user => user.lastLoginTime >= thirtyDaysAgo).length,
+        },
+      };
+
+      // 缓存结果1小时
+      await this.setCache('play_stats_summary', result, 3600);
+
+      return result;
+    } catch (error) {
+      console.error('获取播放统计失败:', error);
+      return {
+        totalUsers: 0,
+        totalWatchTime: 0,
+        totalPlays: 0,
+        avgWatchTimePerUser: 0,
+        avgPlaysPerUser: 0,
+        userStats: [],
+        topSources: [],
+        dailyStats: [],
+        registrationStats: {
+          todayNewUsers: 0,
+          totalRegisteredUsers: 0,
+          registrationTrend: [],
+        },
+        activeUsers: {
+          daily: 0,
+          weekly: 0,
+          monthly: 0,
+        },
+      };
+    }
+  }
+
+  // 获取用户播放统计
+  async getUserPlayStat(userName: string): Promise<UserPlayStat> {
+    try {
+      const records = Object.values(await this.getAllPlayRecords(userName));
+      const loginStats = await this.getLoginStats(userName);
+
+      if (records.length === 0) {
+        return {
+          username: userName,
+          totalWatchTime: 0,
+          totalPlays: 0,
+          lastPlayTime: 0,
+          recentRecords: [],
+          avgWatchTime: 0,
+          mostWatchedSource: '',
+          totalMovies: 0,
+          firstWatchDate: Date.now(),
+          lastUpdateTime: Date.now(),
+          ...loginStats,
+        };
+      }
+
+      const totalWatchTime = records.reduce((sum, record) => sum + (record.play_time || 0), 0);
+      const totalPlays = records.length;
+      const lastPlayTime = Math.max(...records.map(r => r.save_time || 0));
+      const totalMovies = new Set(records.map(r => `${r.title}_${r.source_name}_${r.year}`)).size;
+      const firstWatchDate = Math.min(...records.map(r => r.save_time || Date.now()));
+      const recentRecords = records
+        .sort((a, b) => (b.save_time || 0) - (a.save_time || 0))
+        .slice(0, 10);
+
+      const sourceMap = new Map<string, number>();
+      records.forEach(record => {
+        const sourceName = record.source_name || '未知来源';
+        sourceMap.set(sourceName, (sourceMap.get(sourceName) || 0) + 1);
+      });
+      const mostWatchedSource = sourceMap.size > 0
+        ? Array.from(sourceMap.entries()).reduce((a, b) => a[1] > b[1] ? a : b)[0]
+        : '';
+
+      return {
+        username: userName,
+        totalWatchTime,
+        totalPlays,
+        lastPlayTime,
+        recentRecords,
+        avgWatchTime: totalPlays > 0 ? totalWatchTime / totalPlays : 0,
+        mostWatchedSource,
+        totalMovies,
+        firstWatchDate,
+        lastUpdateTime: Date.now(),
+        ...loginStats,
+      };
+    } catch (error) {
+      console.error(`获取用户 ${userName} 统计失败:`, error);
+      return {
+        username: userName,
+        totalWatchTime: 0,
+        totalPlays: 0,
+        lastPlayTime: 0,
+        recentRecords: [],
+        avgWatchTime: 0,
+        mostWatchedSource: '',
+        totalMovies: 0,
+        firstWatchDate: Date.now(),
+        lastUpdateTime: Date.now(),
+        loginCount: 0,
+        firstLoginTime: 0,
+        lastLoginTime: 0,
+        lastLoginDate: 0,
+      };
+    }
+  }
+
+  // 获取内容热度统计
+  async getContentStats(limit = 10): Promise<ContentStat[]> {
+    try {
+      const rows = await this.query<{ username: string; record_key: string; data: string }>(
+        'SELECT username, record_key, data FROM play_records'
+      );
+      const contentMap = new Map<string, {
+        record: PlayRecord;
+        playCount: number;
+        totalWatchTime: number;
+        users: Set<string>;
+      }>();
+
+      for (const row of rows) {
+        const record = JSON.parse(row.data) as PlayRecord;
+        if (!contentMap.has(row.record_key)) {
+          contentMap.set(row.record_key, {
+            record,
+            playCount: 0,
+            totalWatchTime: 0,
+            users: new Set(),
+          });
+        }
+        const content = contentMap.get(row.record_key)!;
+        content.playCount++;
+        content.totalWatchTime += record.play_time;
+        content.users.add(row.username);
+      }
+
+      return Array.from(contentMap.entries())
+        .map(([key, data]) => {
+          const [source, id] = key.split('+');
+          return {
+            source,
+            id,
+            title: data.record.title,
+            source_name: data.record.source_name,
+            cover: data.record.cover,
+            year: data.record.year,
+            playCount: data.playCount,
+            totalWatchTime: data.totalWatchTime,
+            averageWatchTime: data.playCount > 0 ? data.totalWatchTime / data.playCount : 0,
+            lastPlayed: data.record.save_time,
+            uniqueUsers: data.users.size,
+          };
+        })
+        .sort((a, b) => b.playCount - a.playCount)
+        .slice(0, limit);
+    } catch (error) {
+      console.error('获取内容统计失败:', error);
+      return [];
+    }
+  }
+
+  // 更新播放统计（当用户播放时调用）
+  async updatePlayStatistics(
+    _userName: string,
+    _source: string,
+    _id: string,
+    _watchTime: number
+  ): Promise<void> {
+    try {
+      // 清除全站统计缓存，下次查询时重新计算
+      await this.deleteCache('play_stats_summary');
+    } catch (error) {
+      console.error('更新播放统计失败:', error);
+    }
+  }
+
+  // 更新用户登入统计
+  async updateUserLoginStats(
+    userName: string,
+    loginTime: number,
+    isFirstLogin?: boolean
+  ): Promise<void> {
+    try {
+      const key = this.loginStatsKey(userName);
+      const current = await this.client.get(key);
+      const loginStats = current ? JSON.parse(current) : {
+        loginCount: 0,
+        firstLoginTime: null,
+        lastLoginTime: null,
+        lastLoginDate: null
+      };
+
+      loginStats.loginCount = (loginStats.loginCount || 0) + 1;
+      loginStats.lastLoginTime = loginTime;
+      loginStats.lastLoginDate = loginTime; // 保持兼容性
+
+      if (isFirstLogin || !loginStats.firstLoginTime) {
+        loginStats.firstLoginTime = loginTime;
+      }
+
+      await this.client.set(key, JSON.stringify(loginStats));
+    } catch (error) {
+      console.error(`更新用户 ${userName} 登入统计失败:`, error);
+      throw error;
+    }
+  }
+
+  // ---------- 个人访问令牌 ----------
+  async getApiTokens(userName: string): Promise<ApiToken[]> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM api_tokens WHERE username = ? ORDER BY created_at DESC',
+      [userName]
+    );
+    return rows.map((row) => JSON.parse(row.data) as ApiToken);
+  }
+
+  async setApiToken(userName: string, token: ApiToken): Promise<void> {
+    await this.execute(
+      `INSERT INTO api_tokens (id, username, token_hash, data, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+      [token.id, userName, token.tokenHash, JSON.stringify(token), token.createdAt]
+    );
+  }
+
+  async deleteApiToken(userName: string, tokenId: string): Promise<void> {
+    await this.execute(
+      'DELETE FROM api_tokens WHERE username = ? AND id = ?',
+      [userName, tokenId]
+    );
+  }
+
+  async getApiTokenOwner(tokenHash: string): Promise<string | null> {
+    const rows = await this.query<{ username: string }>(
+      'SELECT username FROM api_tokens WHERE token_hash = ?',
+      [tokenHash]
+    );
+    return rows.length > 0 ? rows[0].username : null;
+  }
+
+  // ---------- 登录会话 ----------
+  async getUserSessions(userName: string): Promise<UserSession[]> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM user_sessions WHERE username = ? ORDER BY last_seen_at DESC',
+      [userName]
+    );
+    return rows.map((row) => JSON.parse(row.data) as UserSession);
+  }
+
+  async getUserSession(userName: string, sessionId: string): Promise<UserSession | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM user_sessions WHERE username = ? AND id = ?',
+      [userName, sessionId]
+    );
+    return rows.length > 0 ? (JSON.parse(rows[0].data) as UserSession) : null;
+  }
+
+  async setUserSession(userName: string, session: UserSession): Promise<void> {
+    await this.execute(
+      `INSERT INTO user_sessions (id, username, data, last_seen_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data, last_seen_at = excluded.last_seen_at`,
+      [session.id, userName, JSON.stringify(session), session.lastSeenAt]
+    );
+  }
+
+  async deleteUserSession(userName: string, sessionId: string): Promise<void> {
+    await this.execute(
+      'DELETE FROM user_sessions WHERE username = ? AND id = ?',
+      [userName, sessionId]
+    );
+  }
+
+  async deleteAllUserSessions(userName: string): Promise<void> {
+    await this.execute('DELETE FROM user_sessions WHERE username = ?', [userName]);
+  }
+
+  // ---------- 双重验证 ----------
+  private twoFactorKey(userName: string) {
+    return `u:${userName}:2fa`;
+  }
+
+  async getTwoFactor(userName: string): Promise<TwoFactorSecret | null> {
+    const raw = await this.client.get(this.twoFactorKey(userName));
+    return raw ? (JSON.parse(raw) as TwoFactorSecret) : null;
+  }
+
+  async setTwoFactor(userName: string, data: TwoFactorSecret): Promise<void> {
+    await this.client.set(this.twoFactorKey(userName), JSON.stringify(data));
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    await this.client.del(this.twoFactorKey(userName));
+  }
+
+  // ---------- 直播页个人偏好 ----------
+  private livePreferencesKey(userName: string) {
+    return `u:${userName}:live_prefs`;
+  }
+
+  async getLivePreferences(userName: string): Promise<LivePreferences | null> {
+    const raw = await this.client.get(this.livePreferencesKey(userName));
+    return raw ? (JSON.parse(raw) as LivePreferences) : null;
+  }
+
+  async setLivePreferences(userName: string, prefs: LivePreferences): Promise<void> {
+    await this.client.set(this.livePreferencesKey(userName), JSON.stringify(prefs));
+  }
+
+  // ---------- 视频源健康状态 ----------
+  async getAllSourceHealth(): Promise<Record<string, SourceHealthState>> {
+    const rows = await this.query<{ source_key: string; data: string }>(
+      'SELECT source_key, data FROM source_health'
+    );
+    const result: Record<string, SourceHealthState> = {};
+    rows.forEach((row) => {
+      result[row.source_key] = JSON.parse(row.data) as SourceHealthState;
+    });
+    return result;
+  }
+
+  async setSourceHealth(sourceKey: string, state: SourceHealthState): Promise<void> {
+    await this.execute(
+      `INSERT INTO source_health (source_key, data, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT (source_key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [sourceKey, JSON.stringify(state), state.lastCheckedAt]
+    );
+  }
+
+  async deleteSourceHealth(sourceKey: string): Promise<void> {
+    await this.execute('DELETE FROM source_health WHERE source_key = ?', [sourceKey]);
+  }
+
+  // ---------- 直播频道健康状态 ----------
+  async getLiveChannelHealth(sourceKey: string): Promise<LiveChannelHealthReport | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM live_channel_health WHERE source_key = ?',
+      [sourceKey]
+    );
+    return rows[0] ? (JSON.parse(rows[0].data) as LiveChannelHealthReport) : null;
+  }
+
+  async getAllLiveChannelHealth(): Promise<Record<string, LiveChannelHealthReport>> {
+    const rows = await this.query<{ source_key: string; data: string }>(
+      'SELECT source_key, data FROM live_channel_health'
+    );
+    const result: Record<string, LiveChannelHealthReport> = {};
+    rows.forEach((row) => {
+      result[row.source_key] = JSON.parse(row.data) as LiveChannelHealthReport;
+    });
+    return result;
+  }
+
+  async setLiveChannelHealth(sourceKey: string, report: LiveChannelHealthReport): Promise<void> {
+    await this.execute(
+      `INSERT INTO live_channel_health (source_key, data, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT (source_key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [sourceKey, JSON.stringify(report), report.checkedAt]
+    );
+  }
+
+  async deleteLiveChannelHealth(sourceKey: string): Promise<void> {
+    await this.execute('DELETE FROM live_channel_health WHERE source_key = ?', [sourceKey]);
+  }
+
+  // ---------- 直播录制任务 ----------
+  async getLiveRecording(recordingId: string): Promise<LiveRecording | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM live_recordings WHERE recording_id = ?',
+      [recordingId]
+    );
+    return rows[0] ? (JSON.parse(rows[0].data) as LiveRecording) : null;
+  }
+
+  async getAllLiveRecordings(): Promise<Record<string, LiveRecording>> {
+    const rows = await this.query<{ recording_id: string; data: string }>(
+      'SELECT recording_id, data FROM live_recordings'
+    );
+    const result: Record<string, LiveRecording> = {};
+    rows.forEach((row) => {
+      result[row.recording_id] = JSON.parse(row.data) as LiveRecording;
+    });
+    return result;
+  }
+
+  async setLiveRecording(recordingId: string, recording: LiveRecording): Promise<void> {
+    await this.execute(
+      `INSERT INTO live_recordings (recording_id, username, data, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (recording_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [recordingId, recording.username, JSON.stringify(recording), Date.now()]
+    );
+  }
+
+  async deleteLiveRecording(recordingId: string): Promise<void> {
+    await this.execute('DELETE FROM live_recordings WHERE recording_id = ?', [recordingId]);
+  }
+
+  // ---------- 节目提醒 ----------
+  async getLiveReminder(reminderId: string): Promise<LiveReminder | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM live_reminders WHERE reminder_id = ?',
+      [reminderId]
+    );
+    return rows[0] ? (JSON.parse(rows[0].data) as LiveReminder) : null;
+  }
+
+  async getAllLiveReminders(): Promise<Record<string, LiveReminder>> {
+    const rows = await this.query<{ reminder_id: string; data: string }>(
+      'SELECT reminder_id, data FROM live_reminders'
+    );
+    const result: Record<string, LiveReminder> = {};
+    rows.forEach((row) => {
+      result[row.reminder_id] = JSON.parse(row.data) as LiveReminder;
+    });
+    return result;
+  }
+
+  async setLiveReminder(reminderId: string, reminder: LiveReminder): Promise<void> {
+    await this.execute(
+      `INSERT INTO live_reminders (reminder_id, username, data, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (reminder_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [reminderId, reminder.username, JSON.stringify(reminder), Date.now()]
+    );
+  }
+
+  async deleteLiveReminder(reminderId: string): Promise<void> {
+    await this.execute('DELETE FROM live_reminders WHERE reminder_id = ?', [reminderId]);
+  }
+
+  // ---------- 服务器离线下载 ----------
+  async getOfflineDownload(jobId: string): Promise<OfflineDownloadJob | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM offline_downloads WHERE job_id = ?',
+      [jobId]
+    );
+    return rows[0] ? (JSON.parse(rows[0].data) as OfflineDownloadJob) : null;
+  }
+
+  async getAllOfflineDownloads(): Promise<Record<string, OfflineDownloadJob>> {
+    const rows = await this.query<{ job_id: string; data: string }>(
+      'SELECT job_id, data FROM offline_downloads'
+    );
+    const result: Record<string, OfflineDownloadJob> = {};
+    rows.forEach((row) => {
+      result[row.job_id] = JSON.parse(row.data) as OfflineDownloadJob;
+    });
+    return result;
+  }
+
+  async setOfflineDownload(jobId: string, job: OfflineDownloadJob): Promise<void> {
+    await this.execute(
+      `INSERT INTO offline_downloads (job_id, username, data, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (job_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [jobId, job.username, JSON.stringify(job), Date.now()]
+    );
+  }
+
+  async deleteOfflineDownload(jobId: string): Promise<void> {
+    await this.execute('DELETE FROM offline_downloads WHERE job_id = ?', [jobId]);
+  }
+
+  // ---------- 播放效果统计 ----------
+  async getSourcePlaybackStats(statsKey: string): Promise<SourcePlaybackStats | null> {
+    const rows = await this.query<{ data: string }>(
+      'SELECT data FROM source_playback_stats WHERE stats_key = ?',
+      [statsKey]
+    );
+    return rows[0] ? (JSON.parse(rows[0].data) as SourcePlaybackStats) : null;
+  }
+
+  async getAllSourcePlaybackStats(): Promise<Record<string, SourcePlaybackStats>> {
+    const rows = await this.query<{ stats_key: string; data: string }>(
+      'SELECT stats_key, data FROM source_playback_stats'
+    );
+    const result: Record<string, SourcePlaybackStats> = {};
+    rows.forEach((row) => {
+      result[row.stats_key] = JSON.parse(row.data) as SourcePlaybackStats;
+    });
+    return result;
+  }
+
+  async setSourcePlaybackStats(statsKey: string, stats: SourcePlaybackStats): Promise<void> {
+    await this.execute(
+      `INSERT INTO source_playback_stats (stats_key, data, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT (stats_key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [statsKey, JSON.stringify(stats), stats.updatedAt]
+    );
+  }
+
+  // ---------- 本地搜索索引 ----------
+  async getSearchIndexEntries(): Promise<Record<string, SearchIndexEntry>> {
+    const rows = await this.query<{ entry_key: string; data: string }>(
+      'SELECT entry_key, data FROM search_index'
+    );
+    const result: Record<string, SearchIndexEntry> = {};
+    rows.forEach((row) => {
+      result[row.entry_key] = JSON.parse(row.data) as SearchIndexEntry;
+    });
+    return result;
+  }
+
+  async setSearchIndexEntries(entries: Record<string, SearchIndexEntry>): Promise<void> {
+    for (const [key, entry] of Object.entries(entries)) {
+      await this.execute(
+        `INSERT INTO search_index (entry_key, data, updated_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (entry_key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+        [key, JSON.stringify(entry), entry.updatedAt]
+      );
+    }
+  }
+
+  async deleteSearchIndexEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const placeholders = keys.map(() => '?').join(', ');
+    await this.execute(`DELETE FROM search_index WHERE entry_key IN (${placeholders})`, keys);
+  }
+
+  // ---------- 账户快照（在线迁移） ----------
+  async getUserAccountSnapshot(userName: string): Promise<UserAccountSnapshot> {
+    const [v1Password, info, hashRows, rawStats] = await Promise.all([
+      this.getV1Password(userName),
+      this.getUserInfoV2(userName),
+      this.query<{ password_hash: string | null }>(
+        'SELECT password_hash FROM users WHERE username = ? AND is_v2 = 1',
+        [userName]
+      ),
+      this.client.get(this.loginStatsKey(userName)),
+    ]);
+
+    return {
+      v1Password,
+      v2Info: info
+        ? {
+          passwordHash: hashRows[0]?.password_hash ?? null,
+          role: info.role,
+          banned: info.banned,
+          tags: info.tags,
+          oidcSub: info.oidcSub,
+          enabledApis: info.enabledApis,
+          createdAt: info.createdAt,
+        }
+        : null,
+      loginStats: rawStats ? JSON.parse(rawStats) : null,
+    };
+  }
+
+  async restoreUserAccountSnapshot(
+    userName: string,
+    snapshot: UserAccountSnapshot
+  ): Promise<void> {
+    const statements: SqlStatement[] = [];
+
+    if (snapshot.v1Password !== null) {
+      statements.push([
+        `INSERT INTO users (username, password) VALUES (?, ?)
+         ON CONFLICT (username) DO UPDATE SET password = excluded.password`,
+        [userName, snapshot.v1Password],
+      ]);
+    }
+
+    const info = snapshot.v2Info;
+    if (info) {
+      statements.push([
+        `INSERT INTO users (username, password_hash, role, banned, tags, enabled_apis, oidc_sub, created_at, is_v2)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)
+         ON CONFLICT (username) DO UPDATE SET
+           password_hash = excluded.password_hash,
+           role = excluded.role,
+           banned = excluded.banned,
+           tags = excluded.tags,
+           enabled_apis = excluded.enabled_apis,
+           oidc_sub = excluded.oidc_sub,
+           created_at = excluded.created_at,
+           is_v2 = 1`,
+        [
+          userName,
+          info.passwordHash,
+          info.role,
+          info.banned,
+          info.tags && info.tags.length > 0 ? JSON.stringify(info.tags) : null,
+          info.enabledApis && info.enabledApis.length > 0 ? JSON.stringify(info.enabledApis) : null,
+          info.oidcSub || null,
+          info.createdAt || Date.now(),
+        ],
+      ]);
+    }
+
+    if (statements.length > 0) {
+      await this.batch(statements);
+    }
+
+    if (snapshot.loginStats) {
+      await this.client.set(this.loginStatsKey(userName), JSON.stringify(snapshot.loginStats));
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+  BaseSqlStorage,
+  normalizeSqlParams,
+  SqlConnectionConfig,
+  SqlDriver,
+} from './sql-base.db';
+
+// 创建 SQLite 驱动（better-sqlite3 为原生模块，按需加载）
+function createSqliteDriver(config: SqlConnectionConfig, globalSymbol: symbol): SqlDriver {
+  let driver: SqlDriver | undefined = (global as any)[globalSymbol];
+
+  if (!driver) {
+    const dbPromise = (async () => {
+      const { default: Database } = await import('better-sqlite3');
+      fs.mkdirSync(path.dirname(path.resolve(config.url)), { recursive: true });
+      const database = new Database(config.url);
+      // WAL 模式允许读写并发，busy_timeout 避免多进程写入时立即报错
+      database.pragma('journal_mode = WAL');
+      database.pragma('busy_timeout = 5000');
+      console.log(`${config.clientName} connected: ${config.url}`);
+      return database;
+    })();
+
+    dbPromise.catch((err) => {
+      console.error(`${config.clientName} initialization failed:`, err);
+    });
+
+    driver = {
+      dialect: 'sqlite',
+      async query(sql, params) {
+        const database = await dbPromise;
+        return database.prepare(sql).all(...normalizeSqlParams(params)) as any[];
+      },
+      async execute(sql, params) {
+        const database = await dbPromise;
+        return database.prepare(sql).run(...normalizeSqlParams(params)).changes;
+      },
+      async batch(statements) {
+        const database = await dbPromise;
+        // better-sqlite3 为同步 API，事务内不会穿插其他请求的语句
+        database.transaction(() => {
+          for (const [sql, params] of statements) {
+            database.prepare(sql).run(...normalizeSqlParams(params));
+          }
+        })();
+      },
+    };
+
+    (global as any)[globalSymbol] = driver;
+  }
+
+  return driver;
+}
+
+export class SqliteStorage extends BaseSqlStorage {
+  constructor(url?: string) {
+    const config = {
+      url: url || process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'moontv.db'),
+      clientName: 'SQLite'
+    };
+    const globalSymbol = Symbol.for(url ? `__MOONTV_SQLITE_CLIENT__:${url}` : '__MOONTV_SQLITE_CLIENT__');
+    super(config, createSqliteDriver(config, globalSymbol));
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+
+import { migrateStorage, MigrationEvent } from './storage-migration';
+import { IStorage } from './types';
+
+jest.mock('./db', () => ({
+  createStorageInstance: jest.fn(),
+  getStorage: jest.fn(),
+  PERSISTENT_STORAGE_TYPES: [],
+}));
+
+// 只实现迁移用到的方法，用户数据为空，重点覆盖全局数据
+function createMemoryStorage(
+  seed: {
+    reminders?: Record<string, any>;
+    recordings?: Record<string, any>;
+    downloads?: Record<string, any>;
+    sourceHealth?: Record<string, any>;
+  } = {}
+) {
+  const reminders: Record<string, any> = { ...seed.reminders };
+  const recordings: Record<string, any> = { ...seed.recordings };
+  const downloads: Record<string, any> = { ...seed.downloads };
+  const sourceHealth: Record<string, any> = { ...seed.sourceHealth };
+  const storage = {
+    getAdminConfig: async () => null,
+    getAllUsers: async () => [],
+    getAllLiveReminders: async () => ({ ...reminders }),
+    setLiveReminder: async (id: string, value: any) => {
+      reminders[id] = value;
+    },
+    getAllLiveRecordings: async () => ({ ...recordings }),
+    setLiveRecording: async (id: string, value: any) => {
+      recordings[id] = value;
+    },
+    getAllOfflineDownloads: async () => ({ ...downloads }),
+    setOfflineDownload: async (id: string, value: any) => {
+      downloads[id] = value;
+    },
+    getAllSourceHealth: async () => ({ ...sourceHealth }),
+    setSourceHealth: async (key: string, value: any) => {
+      sourceHealth[key] = value;
+    },
+  };
+  return {
+    storage: storage as unknown as IStorage,
+    reminders,
+    recordings,
+    downloads,
+    sourceHealth,
+  };
+}
+
+const SEED = {
+  reminders: { r1: { id: 'r1', username: 'alice', title: '新闻' } },
+  recordings: { rec1: { id: 'rec1', username: 'alice', status: 'done' } },
+  downloads: {
+    job1: { id: 'job1', username: 'bob', status: 'queued' },
+    job2: { id: 'job2', username: 'bob', status: 'done' },
+  },
+  sourceHealth: { demo: { consecutiveFailures: 0, history: [] } },
+};
+
+describe('migrateStorage global data', () => {
+  const originalUsername = process.env.USERNAME;
+
+  beforeAll(() => {
+    // 站长账号会被加入迁移列表，这里只测全局数据
+    delete process.env.USERNAME;
+  });
+
+  afterAll(() => {
+    process.env.USERNAME = originalUsername;
+  });
+
+  it('copies reminders, recordings, downloads and source health', async () => {
+    const source = createMemoryStorage(SEED);
+    const target = createMemoryStorage();
+
+    const summary = await migrateStorage(source.storage, target.storage);
+
+    expect(target.reminders).toEqual(SEED.reminders);
+    expect(target.recordings).toEqual(SEED.recordings);
+    expect(target.downloads).toEqual(SEED.downloads);
+    expect(target.sourceHealth).toEqual(SEED.sourceHealth);
+    expect(summary.liveRemindersMigrated).toBe(1);
+    expect(summary.liveRecordingsMigrated).toBe(1);
+    expect(summary.offlineDownloadsMigrated).toBe(2);
+    expect(summary.sourceHealthMigrated).toBe(1);
+    expect(summary.verified).toBe(true);
+  });
+
+  it('does not write anything in a dry run', async () => {
+    const source = createMemoryStorage(SEED);
+    const target = createMemoryStorage();
+
+    const summary = await migrateStorage(source.storage, target.storage, {
+      dryRun: true,
+    });
+
+    expect(target.downloads).toEqual({});
+    expect(summary.offlineDownloadsMigrated).toBe(2);
+    expect(summary.verified).toBeNull();
+  });
+
+  it('reports entries that did not reach the target', async () => {
+    const source = createMemoryStorage(SEED);
+    const target = createMemoryStorage();
+    // 模拟目标库写入丢失
+    (target.storage as any).setOfflineDownload = async () => undefined;
+
+    const events: MigrationEvent[] = [];
+    const summary = await migrateStorage(source.storage, target.storage, {
+      onProgress: (event) => {
+        events.push(event);
+      },
+    });
+
+    expect(summary.verified).toBe(false);
+    expect(events).toContainEqual({
+      type: 'verify',
+      username: 'global:offlineDownloads',
+      ok: false,
+      mismatches: ['offlineDownloads: 条数 2 → 0'],
+    });
+    expect(events).toContainEqual({
+      type: 'verify',
+      username: 'global:liveReminders',
+      ok: true,
+      mismatches: [],
+    });
+  });
+
+  it('ignores unrelated entries that already exist in the target', async () => {
+    const source = createMemoryStorage(SEED);
+    const target = createMemoryStorage({
+      downloads: { old: { id: 'old', username: 'carol', status: 'done' } },
+    });
+
+    const summary = await migrateStorage(source.storage, target.storage);
+
+    expect(summary.verified).toBe(true);
+    expect(Object.keys(target.downloads).sort()).toEqual([
+      'job1',
+      'job2',
+      'old',
+    ]);
+  });
+});
@@ -0,0 +1,684 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any */
+
+import { createHash } from 'crypto';
+
+import {
+  createStorageInstance,
+  getStorage,
+  PERSISTENT_STORAGE_TYPES,
+  PersistentStorageType,
+} from './db';
+import {
+  ApiToken,
+  EpisodeSkipConfig,
+  Favorite,
+  IStorage,
+  LivePreferences,
+  PlayRecord,
+  TwoFactorSecret,
+  UserAccountSnapshot,
+  UserSession,
+} from './types';
+
+// 迁移端点：current 表示当前站点正在使用的存储
+export interface StorageEndpoint {
+  type: PersistentStorageType | 'current';
+  url?: string; // 连接串（SQLite 为文件路径），为空时读取对应环境变量
+  token?: string; // 仅 Upstash 需要
+}
+
+// 单个用户需要迁移的全部数据
+interface UserDataSnapshot {
+  account: UserAccountSnapshot | null;
+  playRecords: Record<string, PlayRecord>;
+  favorites: Record<string, Favorite>;
+  skipConfigs: Record<string, EpisodeSkipConfig>;
+  episodeSkipConfigs: Record<string, EpisodeSkipConfig>;
+  searchHistory: string[];
+  apiTokens: ApiToken[];
+  sessions: UserSession[];
+  twoFactor: TwoFactorSecret | null;
+  livePreferences: LivePreferences | null;
+}
+
+export type MigrationCategory = keyof UserDataSnapshot;
+
+const CATEGORIES: MigrationCategory[] = [
+  'account',
+  'playRecords',
+  'favorites',
+  'skipConfigs',
+  'episodeSkipConfigs',
+  'searchHistory',
+  'apiTokens',
+  'sessions',
+  'twoFactor',
+  'livePreferences',
+];
+
+// 每类数据的条数与校验和
+export type UserDataDigest = Record<
+  MigrationCategory,
+  { count: number; checksum: string }
+>;
+
+export type MigrationEvent =
+  | { type: 'start'; totalUsers: number; dryRun: boolean }
+  | {
+    type: 'user';
+    username: string;
+    index: number;
+    total: number;
+    digest: UserDataDigest;
+  }
+  | { type: 'user-error'; username: string; index: number; total: number; error: string }
+  | { type: 'admin-config'; migrated: boolean; checksum: string | null }
+  | { type: 'verify'; username: string; ok: boolean; mismatches: string[] }
+  | { type: 'done'; summary: MigrationSummary };
+
+export interface MigrationOptions {
+  dryRun?: boolean; // 只读取源库并统计，不写入目标库
+  verify?: boolean; // 迁移后回读目标库比对条数与校验和，默认开启
+  clearTarget?: boolean; // 迁移前清空目标库
+  users?: string[]; // 只迁移指定用户，为空时迁移全部
+  onProgress?: (event: MigrationEvent) => void | Promise<void>;
+}
+
+export interface MigrationSummary {
+  dryRun: boolean;
+  totalUsers: number;
+  migratedUsers: number;
+  failedUsers: string[];
+  totals: Record<MigrationCategory, number>;
+  adminConfigMigrated: boolean;
+  sourceHealthMigrated: number; // 视频源健康状态条数
+  liveChannelHealthMigrated: number; // 直播频道检测报告条数（按直播源计）
+  liveRecordingsMigrated: number; // 直播录制任务条数（仅元数据，录制文件需自行复制录制目录）
+  liveRemindersMigrated: number; // 节目提醒条数
+  offlineDownloadsMigrated: number; // 服务器离线下载任务条数（仅元数据，视频文件需自行复制下载目录）
+  playbackStatsMigrated: number; // 播放效果统计条数
+  searchIndexMigrated: number; // 本地搜索索引条数
+  verified: boolean | null; // null 表示未执行校验
+  mismatchedUsers: string[];
+  durationMs: number;
+}
+
+// 全局数据（不属于单个用户，逐条复制）：迁移后同样回读目标库校验
+type GlobalSummaryKey =
+  | 'sourceHealthMigrated'
+  | 'liveChannelHealthMigrated'
+  | 'liveRecordingsMigrated'
+  | 'liveRemindersMigrated'
+  | 'offlineDownloadsMigrated'
+  | 'playbackStatsMigrated'
+  | 'searchIndexMigrated';
+
+interface GlobalDataset {
+  name: string;
+  summaryKey: GlobalSummaryKey;
+  // 任一端不支持该类数据时返回 false，直接跳过
+  supported: (source: IStorage, target: IStorage) => boolean;
+  read: (storage: IStorage) => Promise<Record<string, any>>;
+  write: (storage: IStorage, entries: Record<string, any>) => Promise<void>;
+}
+
+const GLOBAL_DATASETS: GlobalDataset[] = [
+  {
+    name: 'sourceHealth',
+    summaryKey: 'sourceHealthMigrated',
+    supported: (source, target) =>
+      typeof source.getAllSourceHealth === 'function' &&
+      typeof target.setSourceHealth === 'function',
+    read: async (storage) => (await storage.getAllSourceHealth?.()) || {},
+    write: async (storage, entries) => {
+      for (const [sourceKey, state] of Object.entries(entries)) {
+        await storage.setSourceHealth!(sourceKey, state);
+      }
+    },
+  },
+  {
+    name: 'liveChannelHealth',
+    summaryKey: 'liveChannelHealthMigrated',
+    supported: (source, target) =>
+      typeof source.getAllLiveChannelHealth === 'function' &&
+      typeof target.setLiveChannelHealth === 'function',
+    read: async (storage) => (await storage.getAllLiveChannelHealth?.()) || {},
+    write: async (storage, entries) => {
+      for (const [sourceKey, report] of Object.entries(entries)) {
+        await storage.setLiveChannelHealth!(sourceKey, report);
+      }
+    },
+  },
+  {
+    // 仅迁移任务元数据，录制文件需自行复制录制目录
+    name: 'liveRecordings',
+    summaryKey: 'liveRecordingsMigrated',
+    supported: (source, target) =>
+      typeof source.getAllLiveRecordings === 'function' &&
+      typeof target.setLiveRecording === 'function',
+    read: async (storage) => (await storage.getAllLiveRecordings?.()) || {},
+    write: async (storage, entries) => {
+      for (const [recordingId, recording] of Object.entries(entries)) {
+        await storage.setLiveRecording!(recordingId, recording);
+      }
+    },
+  },
+  {
+    name: 'liveReminders',
+    summaryKey: 'liveRemindersMigrated',
+    supported: (source, target) =>
+      typeof source.getAllLiveReminders === 'function' &&
+      typeof target.setLiveReminder === 'function',
+    read: async (storage) => (await storage.getAllLiveReminders?.()) || {},
+    write: async (storage, entries) => {
+      for (const [reminderId, reminder] of Object.entries(entries)) {
+        await storage.setLiveReminder!(reminderId, reminder);
+      }
+    },
+  },
+  {
+    // 仅迁移任务元数据，视频文件需自行复制下载目录
+    name: 'offlineDownloads',
+    summaryKey: 'offlineDownloadsMigrated',
+    supported: (source, target) =>
+      typeof source.getAllOfflineDownloads === 'function' &&
+      typeof target.setOfflineDownload === 'function',
+    read: async (storage) => (await storage.getAllOfflineDownloads?.()) || {},
+    write: async (storage, entries) => {
+      for (const [jobId, job] of Object.entries(entries)) {
+        await storage.setOfflineDownload!(jobId, job);
+      }
+    },
+  },
+  {
+    name: 'playbackStats',
+    summaryKey: 'playbackStatsMigrated',
+    supported: (source, target) =>
+      typeof source.getAllSourcePlaybackStats === 'function' &&
+      typeof target.setSourcePlaybackStats === 'function',
+    read: async (storage) => (await storage.getAllSourcePlaybackStats?.()) || {},
+    write: async (storage, entries) => {
+      for (const [statsKey, stats] of Object.entries(entries)) {
+        await storage.setSourcePlaybackStats!(statsKey, stats);
+      }
+    },
+  },
+  {
+    name: 'searchIndex',
+    summaryKey: 'searchIndexMigrated',
+    supported: (source, target) =>
+      typeof source.getSearchIndexEntries === 'function' &&
+      typeof target.setSearchIndexEntries === 'function',
+    read: async (storage) => (await storage.getSearchIndexEntries?.()) || {},
+    write: async (storage, entries) => {
+      await storage.setSearchIndexEntries!(entries);
+    },
+  },
+];
+
+// 各存储类型默认读取的连接环境变量，用于判断两个端点是否指向同一个库
+function defaultConnection(type: PersistentStorageType): string {
+  switch (type) {
+    case 'redis':
+      return process.env.REDIS_URL || '';
+    case 'upstash':
+      return process.env.UPSTASH_URL || '';
+    case 'kvrocks':
+      return process.env.KVROCKS_URL || '';
+    case 'sqlite':
+      return process.env.SQLITE_PATH || 'data/moontv.db';
+    case 'postgres':
+      return process.env.POSTGRES_URL || '';
+  }
+}
+
+function currentStorageType(): PersistentStorageType | null {
+  const type = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  return (PERSISTENT_STORAGE_TYPES as readonly string[]).includes(type)
+    ? (type as PersistentStorageType)
+    : null;
+}
+
+// 校验端点参数，返回错误信息（合法时返回 null）
+export function validateStorageEndpoint(endpoint: any): string | null {
+  if (!endpoint || typeof endpoint !== 'object') {
+    return '缺少存储端点配置';
+  }
+  if (endpoint.type === 'current') {
+    return currentStorageType() ? null : '当前存储类型不支持在线迁移';
+  }
+  if (!(PERSISTENT_STORAGE_TYPES as readonly string[]).includes(endpoint.type)) {
+    return `不支持的存储类型: ${endpoint.type}`;
+  }
+  if (endpoint.url !== undefined && typeof endpoint.url !== 'string') {
+    return '连接地址格式错误';
+  }
+  if (endpoint.type === 'upstash' && endpoint.url && !endpoint.token) {
+    return 'Upstash 需要同时提供 URL 和 Token';
+  }
+  return null;
+}
+
+function endpointIdentity(endpoint: StorageEndpoint): string {
+  const type = endpoint.type === 'current' ? currentStorageType()! : endpoint.type;
+  const url = (endpoint.type !== 'current' && endpoint.url) || defaultConnection(type);
+  return `${type}|${url}`;
+}
+
+export function isSameStorageEndpoint(a: StorageEndpoint, b: StorageEndpoint): boolean {
+  return endpointIdentity(a) === endpointIdentity(b);
+}
+
+export function resolveStorageEndpoint(endpoint: StorageEndpoint): IStorage {
+  if (endpoint.type === 'current') {
+    return getStorage();
+  }
+  if (!endpoint.url) {
+    // 未指定连接串且与当前存储同类型时复用现有连接
+    return endpoint.type === currentStorageType()
+      ? getStorage()
+      : createStorageInstance(endpoint.type);
+  }
+  return createStorageInstance(endpoint.type, {
+    url: endpoint.url,
+    token: endpoint.token,
+  });
+}
+
+// 键排序后的 JSON，保证不同后端读出的同一份数据得到相同的校验和
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const keys = Object.keys(value)
+    .filter((k) => value[k] !== undefined)
+    .sort();
+  return `{${keys
+    .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+    .join(',')}}`;
+}
+
+function checksum(value: any): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex').slice(0, 16);
+}
+
+function countOf(category: MigrationCategory, data: UserDataSnapshot): number {
+  switch (category) {
+    case 'account':
+      return data.account && (data.account.v1Password !== null || data.account.v2Info)
+        ? 1
+        : 0;
+    case 'searchHistory':
+      return data.searchHistory.length;
+    case 'apiTokens':
+      return data.apiTokens.length;
+    case 'sessions':
+      return data.sessions.length;
+    case 'twoFactor':
+      return data.twoFactor ? 1 : 0;
+    case 'livePreferences':
+      return data.livePreferences ? 1 : 0;
+    default:
+      return Object.keys(data[category]).length;
+  }
+}
+
+function digestUserData(data: UserDataSnapshot): UserDataDigest {
+  const digest = {} as UserDataDigest;
+  for (const category of CATEGORIES) {
+    digest[category] = {
+      count: countOf(category, data),
+      checksum: checksum(data[category]),
+    };
+  }
+  return digest;
+}
+
+function compareDigests(expected: UserDataDigest, actual: UserDataDigest): string[] {
+  const mismatches: string[] = [];
+  for (const category of CATEGORIES) {
+    const a = expected[category];
+    const b = actual[category];
+    if (a.count !== b.count) {
+      mismatches.push(`${category}: 条数 ${a.count} → ${b.count}`);
+    } else if (a.checksum !== b.checksum) {
+      mismatches.push(`${category}: 校验和不一致`);
+    }
+  }
+  return mismatches;
+}
+
+async function readUserData(storage: IStorage, username: string): Promise<UserDataSnapshot> {
+  const raw = storage as any;
+  const [
+    account,
+    playRecords,
+    favorites,
+    skipConfigs,
+    episodeSkipConfigs,
+    searchHistory,
+    apiTokens,
+    sessions,
+    twoFactor,
+    livePreferences,
+  ] = await Promise.all([
+      typeof storage.getUserAccountSnapshot === 'function'
+        ? storage.getUserAccountSnapshot(username)
+        : Promise.resolve(null),
+      storage.getAllPlayRecords(username),
+      storage.getAllFavorites(username),
+      storage.getAllSkipConfigs(username),
+      typeof raw.getAllEpisodeSkipConfigs === 'function'
+        ? raw.getAllEpisodeSkipConfigs(username)
+        : Promise.resolve({}),
+      storage.getSearchHistory(username),
+      typeof storage.getApiTokens === 'function'
+        ? storage.getApiTokens(username)
+        : Promise.resolve([]),
+      typeof storage.getUserSessions === 'function'
+        ? storage.getUserSessions(username)
+        : Promise.resolve([]),
+      typeof storage.getTwoFactor === 'function'
+        ? storage.getTwoFactor(username)
+        : Promise.resolve(null),
+      typeof storage.getLivePreferences === 'function'
+        ? storage.getLivePreferences(username)
+        : Promise.resolve(null),
+    ]);
+
+  return {
+    account,
+    playRecords: playRecords || {},
+    favorites: favorites || {},
+    skipConfigs: skipConfigs || {},
+    episodeSkipConfigs: episodeSkipConfigs || {},
+    searchHistory: searchHistory || [],
+    apiTokens: apiTokens || [],
+    sessions: sessions || [],
+    twoFactor: twoFactor || null,
+    livePreferences: livePreferences || null,
+  };
+}
+
+// 拆分 source+id 形式的存储 key（id 中可能包含 +，只按第一个拆分）
+function splitStorageKey(key: string): [string, string] | null {
+  const index = key.indexOf('+');
+  if (index <= 0 || index === key.length - 1) return null;
+  return [key.slice(0, index), key.slice(index + 1)];
+}
+
+async function writeUserData(
+  storage: IStorage,
+  username: string,
+  data: UserDataSnapshot
+): Promise<void> {
+  const raw = storage as any;
+
+  if (data.account) {
+    if (typeof storage.restoreUserAccountSnapshot !== 'function') {
+      throw new Error('目标存储不支持写入账户数据');
+    }
+    await storage.restoreUserAccountSnapshot(username, data.account);
+  }
+
+  if (Object.keys(data.playRecords).length > 0) {
+    if (typeof storage.setPlayRecordsBatch === 'function') {
+      await storage.setPlayRecordsBatch(username, data.playRecords);
+    } else {
+      for (const [key, record] of Object.entries(data.playRecords)) {
+        await storage.setPlayRecord(username, key, record);
+      }
+    }
+  }
+
+  if (Object.keys(data.favorites).length > 0) {
+    if (typeof storage.setFavoritesBatch === 'function') {
+      await storage.setFavoritesBatch(username, data.favorites);
+    } else {
+      for (const [key, favorite] of Object.entries(data.favorites)) {
+        await storage.setFavorite(username, key, favorite);
+      }
+    }
+  }
+
+  for (const [key, config] of Object.entries(data.skipConfigs)) {
+    const parts = splitStorageKey(key);
+    if (parts) {
+      await storage.setSkipConfig(username, parts[0], parts[1], config);
+    }
+  }
+
+  if (typeof raw.saveEpisodeSkipConfig === 'function') {
+    for (const [key, config] of Object.entries(data.episodeSkipConfigs)) {
+      const parts = splitStorageKey(key);
+      if (parts) {
+        await raw.saveEpisodeSkipConfig(username, parts[0], parts[1], config);
+      }
+    }
+  }
+
+  // 搜索历史按从旧到新重新写入，保证目标库中的顺序与源库一致
+  await storage.deleteSearchHistory(username);
+  for (const keyword of [...data.searchHistory].reverse()) {
+    await storage.addSearchHistory(username, keyword);
+  }
+
+  if (data.apiTokens.length > 0 && typeof storage.setApiToken === 'function') {
+    for (const token of data.apiTokens) {
+      await storage.setApiToken(username, token);
+    }
+  }
+
+  // 迁移登录会话，切换存储后已登录设备无需重新登录
+  if (data.sessions.length > 0 && typeof storage.setUserSession === 'function') {
+    for (const session of data.sessions) {
+      await storage.setUserSession(username, session);
+    }
+  }
+
+  if (data.twoFactor) {
+    if (typeof storage.setTwoFactor !== 'function') {
+      throw new Error('目标存储不支持写入双重验证数据');
+    }
+    await storage.setTwoFactor(username, data.twoFactor);
+  }
+
+  // 直播偏好只是个性化设置，目标不支持时跳过
+  if (data.livePreferences && typeof storage.setLivePreferences === 'function') {
+    await storage.setLivePreferences(username, data.livePreferences);
+  }
+}
+
+// 在两个存储实例之间在线迁移全部用户数据与管理员配置
+export async function migrateStorage(
+  source: IStorage,
+  target: IStorage,
+  options: MigrationOptions = {}
+): Promise<MigrationSummary> {
+  const startedAt = Date.now();
+  const dryRun = !!options.dryRun;
+  const shouldVerify = !dryRun && options.verify !== false;
+  const emit = async (event: MigrationEvent) => {
+    if (options.onProgress) {
+      await options.onProgress(event);
+    }
+  };
+
+  // 预检：确保两端都可访问，避免迁移到一半才发现连接失败
+  const [adminConfig] = await Promise.all([source.getAdminConfig(), target.getAdminConfig()]);
+
+  let users = await source.getAllUsers();
+  if (process.env.USERNAME) {
+    users.push(process.env.USERNAME);
+  }
+  users = Array.from(new Set(users));
+  if (options.users && options.users.length > 0) {
+    const wanted = new Set(options.users);
+    users = users.filter((u) => wanted.has(u));
+  }
+
+  const summary: MigrationSummary = {
+    dryRun,
+    totalUsers: users.length,
+    migratedUsers: 0,
+    failedUsers: [],
+    totals: {
+      account: 0,
+      playRecords: 0,
+      favorites: 0,
+      skipConfigs: 0,
+      episodeSkipConfigs: 0,
+      searchHistory: 0,
+      apiTokens: 0,
+      sessions: 0,
+      twoFactor: 0,
+      livePreferences: 0,
+    },
+    adminConfigMigrated: false,
+    sourceHealthMigrated: 0,
+    liveChannelHealthMigrated: 0,
+    liveRecordingsMigrated: 0,
+    liveRemindersMigrated: 0,
+    offlineDownloadsMigrated: 0,
+    playbackStatsMigrated: 0,
+    searchIndexMigrated: 0,
+    verified: null,
+    mismatchedUsers: [],
+    durationMs: 0,
+  };
+
+  await emit({ type: 'start', totalUsers: users.length, dryRun });
+
+  if (!dryRun && options.clearTarget) {
+    console.log('在线迁移：清空目标存储');
+    await target.clearAllData();
+  }
+
+  // 只保留每个用户的摘要用于校验，数据本身逐个用户流式处理
+  const expectedDigests = new Map<string, UserDataDigest>();
+
+  for (let i = 0; i < users.length; i++) {
+    const username = users[i];
+    try {
+      const data = await readUserData(source, username);
+      const digest = digestUserData(data);
+
+      if (!dryRun) {
+        await writeUserData(target, username, data);
+      }
+
+      expectedDigests.set(username, digest);
+      for (const category of CATEGORIES) {
+        summary.totals[category] += digest[category].count;
+      }
+      summary.migratedUsers++;
+      await emit({ type: 'user', username, index: i + 1, total: users.length, digest });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`在线迁移用户 ${username} 失败:`, error);
+      summary.failedUsers.push(username);
+      await emit({
+        type: 'user-error',
+        username,
+        index: i + 1,
+        total: users.length,
+        error: message,
+      });
+    }
+  }
+
+  const adminChecksum = adminConfig ? checksum(adminConfig) : null;
+  if (adminConfig && !dryRun) {
+    await target.setAdminConfig(adminConfig);
+    summary.adminConfigMigrated = true;
+  }
+  await emit({
+    type: 'admin-config',
+    migrated: summary.adminConfigMigrated,
+    checksum: adminChecksum,
+  });
+
+  // 全局数据只保留已复制条目的校验和，校验时只比对这些 key（目标库原有的其它条目不影响结果）
+  const expectedGlobals = new Map<GlobalDataset, Record<string, string>>();
+  for (const dataset of GLOBAL_DATASETS) {
+    if (!dataset.supported(source, target)) continue;
+    const entries = await dataset.read(source);
+    if (!dryRun) {
+      await dataset.write(target, entries);
+    }
+    expectedGlobals.set(
+      dataset,
+      Object.fromEntries(Object.entries(entries).map(([key, value]) => [key, checksum(value)]))
+    );
+    summary[dataset.summaryKey] = Object.keys(entries).length;
+  }
+
+  if (shouldVerify) {
+    let allOk = true;
+
+    for (const [username, expected] of Array.from(expectedDigests.entries())) {
+      let mismatches: string[];
+      try {
+        const actual = digestUserData(await readUserData(target, username));
+        mismatches = compareDigests(expected, actual);
+      } catch (error) {
+        mismatches = [`读取目标数据失败: ${error instanceof Error ? error.message : String(error)}`];
+      }
+
+      if (mismatches.length > 0) {
+        allOk = false;
+        summary.mismatchedUsers.push(username);
+      }
+      await emit({ type: 'verify', username, ok: mismatches.length === 0, mismatches });
+    }
+
+    if (adminConfig) {
+      const targetConfig = await target.getAdminConfig();
+      const ok = !!targetConfig && checksum(targetConfig) === adminChecksum;
+      if (!ok) allOk = false;
+      await emit({
+        type: 'verify',
+        username: 'admin:config',
+        ok,
+        mismatches: ok ? [] : ['adminConfig: 校验和不一致'],
+      });
+    }
+
+    for (const [dataset, expected] of Array.from(expectedGlobals.entries())) {
+      let mismatches: string[] = [];
+      try {
+        const actual = await dataset.read(target);
+        const keys = Object.keys(expected);
+        const missing = keys.filter((key) => actual[key] === undefined);
+        const changed = keys.filter(
+          (key) => actual[key] !== undefined && checksum(actual[key]) !== expected[key]
+        );
+        if (missing.length > 0) {
+          mismatches.push(`${dataset.name}: 条数 ${keys.length} → ${keys.length - missing.length}`);
+        }
+        if (changed.length > 0) {
+          mismatches.push(`${dataset.name}: ${changed.length} 条校验和不一致`);
+        }
+      } catch (error) {
+        mismatches = [`读取目标数据失败: ${error instanceof Error ? error.message : String(error)}`];
+      }
+
+      if (mismatches.length > 0) allOk = false;
+      await emit({
+        type: 'verify',
+        username: `global:${dataset.name}`,
+        ok: mismatches.length === 0,
+        mismatches,
+      });
+    }
+
+    summary.verified = allOk && summary.failedUsers.length === 0;
+  }
+
+  summary.durationMs = Date.now() - startedAt;
+  await emit({ type: 'done', summary });
+  return summary;
+}
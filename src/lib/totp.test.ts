@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  matchTotp,
+} from './totp';
+
+// RFC 6238 附录 B 的 SHA1 测试密钥 "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('base32', () => {
+  it('round-trips arbitrary bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('encodes the RFC test secret', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+  });
+
+  it('ignores case, spaces, dashes and padding', () => {
+    expect(base32Decode('gezd gnbv-gy3t qojq==')).toEqual(base32Decode('GEZDGNBVGY3TQOJQ'));
+  });
+
+  it('rejects invalid characters', () => {
+    expect(() => base32Decode('ABC1')).toThrow('无效的 Base32 字符');
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe('matchTotp', () => {
+  const time = 1234567890 * 1000;
+  const step = getTotpStep(time);
+
+  it('returns the matched step', () => {
+    expect(matchTotp(RFC_SECRET, '005924', time)).toBe(step);
+  });
+
+  it('allows one step of clock drift in either direction', () => {
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), time)).toBe(step - 1);
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), time)).toBe(step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), time)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(matchTotp(RFC_SECRET, '5924', time)).toBeNull();
+    expect(matchTotp(RFC_SECRET, '00592a', time)).toBeNull();
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('builds an authenticator-compatible url', () => {
+    const link = buildOtpauthUrl('Luna TV', 'alice', RFC_SECRET);
+    expect(link.startsWith('otpauth://totp/Luna%20TV%3Aalice?')).toBe(true);
+    const url = new URL(link);
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(url.searchParams.get('issuer')).toBe('Luna TV');
+    expect(url.searchParams.get('digits')).toBe('6');
+    expect(url.searchParams.get('period')).toBe('30');
+  });
+});
@@ -0,0 +1,102 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// RFC 6238 TOTP：HMAC-SHA1、30 秒时间步、6 位数字（与主流验证器 App 的默认值一致）
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('无效的 Base32 字符');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 位随机密钥（RFC 4226 推荐长度）
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getTotpStep(time = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD);
+}
+
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// 校验验证码，允许前后各 window 个时间步的时钟偏差；返回匹配的时间步，不匹配返回 null
+export function matchTotp(
+  secret: string,
+  code: string,
+  time = Date.now(),
+  window = 1
+): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  const current = getTotpStep(time);
+  for (let delta = -window; delta <= window; delta++) {
+    if (generateTotp(secret, current + delta) === code) {
+      return current + delta;
+    }
+  }
+  return null;
+}
+
+// 生成验证器 App 可识别的 otpauth:// 链接（用于二维码）
+export function buildOtpauthUrl(issuer: string, account: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+
+import { AdminConfig } from './admin.types';
+import {
+  filterTVBoxSources,
+  isTVBoxTokenAllowed,
+  resolveTVBoxAdultAccess,
+  resolveTVBoxUser,
+} from './tvbox-access';
+
+function makeConfig(enableAuth: boolean): AdminConfig {
+  return {
+    SiteConfig: { ShowAdultContent: false },
+    TVBoxSecurityConfig: { enableAuth, token: 'global-token' },
+    UserConfig: {
+      Users: [
+        {
+          username: 'kid',
+          role: 'user',
+          tvboxToken: 'kid-token',
+          tvboxEnabledSources: ['a'],
+        },
+        {
+          username: 'grown',
+          role: 'user',
+          tvboxToken: 'grown-token',
+          tags: ['adults'],
+        },
+        { username: 'plain', role: 'user', tvboxToken: 'plain-token' },
+      ],
+      Tags: [{ name: 'adults', enabledApis: [], showAdultContent: true }],
+    },
+  } as unknown as AdminConfig;
+}
+
+const SOURCES = [
+  { key: 'a', name: 'A' },
+  { key: 'b', name: 'B' },
+  { key: 'x', name: 'X', is_adult: true },
+];
+
+describe('token checks', () => {
+  it('accepts user and global tokens when auth is enabled', () => {
+    const config = makeConfig(true);
+    expect(
+      isTVBoxTokenAllowed(
+        config,
+        'kid-token',
+        resolveTVBoxUser(config, 'kid-token')
+      )
+    ).toBe(true);
+    expect(
+      isTVBoxTokenAllowed(
+        config,
+        'global-token',
+        resolveTVBoxUser(config, 'global-token')
+      )
+    ).toBe(true);
+    expect(
+      isTVBoxTokenAllowed(config, 'nope', resolveTVBoxUser(config, 'nope'))
+    ).toBe(false);
+    expect(isTVBoxTokenAllowed(config, null, null)).toBe(false);
+  });
+
+  it('allows anything when auth is disabled', () => {
+    expect(isTVBoxTokenAllowed(makeConfig(false), null, null)).toBe(true);
+  });
+});
+
+describe('filterTVBoxSources', () => {
+  const config = makeConfig(true);
+  const keys = (token: string | null, filterAdult = true) =>
+    filterTVBoxSources(
+      SOURCES,
+      config,
+      resolveTVBoxUser(config, token),
+      filterAdult
+    ).map((s) => s.key);
+
+  it('applies the per-user source allow-list', () => {
+    expect(keys('kid-token')).toEqual(['a']);
+  });
+
+  it('hides adult sources unless the user or one of their tags allows them', () => {
+    expect(keys('plain-token')).toEqual(['a', 'b']);
+    expect(keys('global-token')).toEqual(['a', 'b']);
+    expect(keys('grown-token')).toEqual(['a', 'b', 'x']);
+    expect(
+      resolveTVBoxAdultAccess(config, resolveTVBoxUser(config, 'grown-token'))
+    ).toBe(true);
+  });
+
+  it('keeps adult sources when filtering is turned off', () => {
+    expect(keys('plain-token', false)).toEqual(['a', 'b', 'x']);
+    expect(keys('kid-token', false)).toEqual(['a']);
+  });
+});
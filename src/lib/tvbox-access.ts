@@ -0,0 +1,82 @@
+import { AdminConfig } from './admin.types';
+
+/**
+ * TVBox 订阅的访问控制：订阅接口（/api/tvbox）和苹果 CMS 转发接口（/api/tvbox/cms）共用，
+ * 保证 Token 对应的用户在两处看到的视频源一致
+ */
+
+export interface TVBoxUser {
+  username: string;
+  tvboxEnabledSources?: string[];
+  showAdultContent?: boolean;
+}
+
+/**
+ * 根据用户专属 Token 识别用户，全局 Token 或无 Token 时返回 null
+ */
+export function resolveTVBoxUser(config: AdminConfig, token: string | null): TVBoxUser | null {
+  if (!token) return null;
+  const user = config.UserConfig.Users.find((u) => u.tvboxToken === token);
+  if (!user) return null;
+  return {
+    username: user.username,
+    tvboxEnabledSources: user.tvboxEnabledSources,
+    showAdultContent: user.showAdultContent,
+  };
+}
+
+/**
+ * 开启 Token 验证时，必须是用户专属 Token 或全局 Token
+ */
+export function isTVBoxTokenAllowed(config: AdminConfig, token: string | null, user: TVBoxUser | null): boolean {
+  const securityConfig = config.TVBoxSecurityConfig;
+  if (!securityConfig?.enableAuth) return true;
+  return !!user || (!!token && token === securityConfig.token);
+}
+
+/**
+ * 成人内容显示权限，优先级：用户 > 用户组 > 全局
+ */
+export function resolveTVBoxAdultAccess(config: AdminConfig, user: TVBoxUser | null): boolean {
+  let showAdultContent = config.SiteConfig.ShowAdultContent;
+  if (!user) return showAdultContent;
+
+  // 用户级别优先
+  if (user.showAdultContent !== undefined) {
+    return user.showAdultContent;
+  }
+  // 如果用户没有设置，检查用户组设置
+  const userConfig = config.UserConfig.Users.find((u) => u.username === user.username);
+  if (userConfig?.tags && userConfig.tags.length > 0 && config.UserConfig.Tags) {
+    const tagConfigs = userConfig.tags.map((tagName) => config.UserConfig.Tags?.find((t) => t.name === tagName));
+    // 如果用户有多个用户组，只要有一个用户组允许就允许（取并集）
+    if (tagConfigs.some((tag) => tag?.showAdultContent === true)) {
+      showAdultContent = true;
+    } else if (tagConfigs.some((tag) => tag?.showAdultContent === false)) {
+      // 检查是否有任何用户组明确禁止
+      showAdultContent = false;
+    }
+  }
+  return showAdultContent;
+}
+
+/**
+ * 过滤用户可见的视频源：成人源（filterAdult 且无权限时）和用户的 TVBox 源限制
+ * 不处理 disabled，由调用方决定
+ */
+export function filterTVBoxSources<T extends { key: string; is_adult?: boolean }>(
+  sources: T[],
+  config: AdminConfig,
+  user: TVBoxUser | null,
+  filterAdult: boolean
+): T[] {
+  let visible = sources;
+  if (filterAdult && !resolveTVBoxAdultAccess(config, user)) {
+    visible = visible.filter((source) => !source.is_adult);
+  }
+  if (user?.tvboxEnabledSources && user.tvboxEnabledSources.length > 0) {
+    const allowedSourceKeys = new Set(user.tvboxEnabledSources);
+    visible = visible.filter((source) => allowedSourceKeys.has(source.key));
+  }
+  return visible;
+}
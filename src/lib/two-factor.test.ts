@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+
+import { db } from './db';
+import {
+  consumeLoginChallenge,
+  createLoginChallenge,
+  isLoginChallengeConsumed,
+  readLoginChallenge,
+  recordTwoFactorAttempt,
+  resetTwoFactorAttempts,
+} from './two-factor';
+
+jest.mock('./db', () => ({
+  db: {
+    getCache: jest.fn(),
+    setCache: jest.fn(),
+    deleteCache: jest.fn(),
+  },
+}));
+jest.mock('./config', () => ({ getConfig: jest.fn() }));
+
+const mockDb = db as unknown as jest.Mocked<
+  Pick<typeof db, 'getCache' | 'setCache' | 'deleteCache'>
+>;
+
+describe('two-factor attempt limit', () => {
+  let cache: Map<string, unknown>;
+
+  beforeEach(() => {
+    cache = new Map();
+    mockDb.getCache.mockImplementation(async (key) => cache.get(key) ?? null);
+    mockDb.setCache.mockImplementation(async (key, data) => {
+      cache.set(key, data);
+    });
+    mockDb.deleteCache.mockImplementation(async (key) => {
+      cache.delete(key);
+    });
+  });
+
+  it('locks the user after five attempts, across challenges', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await recordTwoFactorAttempt('alice')).toBe(true);
+    }
+    expect(await recordTwoFactorAttempt('alice')).toBe(false);
+    expect(await recordTwoFactorAttempt('bob')).toBe(true);
+    expect(mockDb.setCache).toHaveBeenLastCalledWith(
+      '2fa-attempts:bob',
+      1,
+      15 * 60
+    );
+  });
+
+  it('clears the counter after a successful verification', async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordTwoFactorAttempt('alice');
+    }
+    await resetTwoFactorAttempts('alice');
+    for (let i = 0; i < 5; i++) {
+      expect(await recordTwoFactorAttempt('alice')).toBe(true);
+    }
+  });
+
+  it('rejects a challenge once it has been consumed', async () => {
+    const challenge = readLoginChallenge(
+      createLoginChallenge({
+        username: 'alice',
+        role: 'user',
+        method: 'password',
+        step: 'verify',
+      })
+    );
+    expect(challenge).not.toBeNull();
+    if (!challenge) return;
+    expect(await isLoginChallengeConsumed(challenge)).toBe(false);
+    await consumeLoginChallenge(challenge);
+    expect(await isLoginChallengeConsumed(challenge)).toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+/* eslint-disable no-console */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { AdminConfig } from './admin.types';
+import { getConfig } from './config';
+import { db } from './db';
+import { buildOtpauthUrl, generateTotpSecret, matchTotp } from './totp';
+import { SessionLoginMethod } from './types';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// 登录挑战有效期
+const CHALLENGE_TTL = 5 * 60 * 1000;
+
+// 按用户名限制验证失败次数（防止反复登录换挑战来暴力枚举 6 位验证码）
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPTS_TTL = 15 * 60;
+
+export type UserRole = 'owner' | 'admin' | 'user';
+
+// verify：已启用，需输入验证码；setup：策略要求但尚未启用，需先完成绑定
+export type TwoFactorStep = 'verify' | 'setup';
+
+export interface TwoFactorPolicy {
+  requireForAdmins: boolean;
+  trustedNetworkBypass: boolean;
+  oidcBypass: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface LoginChallenge {
+  username: string;
+  role: UserRole;
+  method: SessionLoginMethod;
+  step: TwoFactorStep;
+  nonce: string;
+  expiresAt: number;
+}
+
+export function getTwoFactorPolicy(config: AdminConfig): TwoFactorPolicy {
+  const policy = config.UserConfig.TwoFactor || {};
+  return {
+    requireForAdmins: policy.RequireForAdmins ?? false,
+    trustedNetworkBypass: policy.TrustedNetworkBypass ?? true,
+    oidcBypass: policy.OIDCBypass ?? true,
+  };
+}
+
+export function isTwoFactorRequiredForRole(role: UserRole, policy: TwoFactorPolicy): boolean {
+  return policy.requireForAdmins && (role === 'owner' || role === 'admin');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// 角色以配置为准（cookie 中的 role 未签名，不可信）
+function getConfigUserRole(username: string, config: AdminConfig): UserRole {
+  if (username === process.env.USERNAME) {
+    return 'owner';
+  }
+  const user = config.UserConfig.Users.find((u) => u.username === username);
+  return user?.role === 'admin' ? 'admin' : 'user';
+}
+
+export async function getTwoFactorStatus(username: string): Promise<TwoFactorStatus> {
+  const [data, config] = await Promise.all([db.getTwoFactor(username), getConfig()]);
+  const role = getConfigUserRole(username, config);
+  return {
+    enabled: !!data?.enabled,
+    required: isTwoFactorRequiredForRole(role, getTwoFactorPolicy(config)),
+    recoveryCodesRemaining: data?.enabled ? data.recoveryCodes.length : 0,
+  };
+}
+
+// 登录时判断是否需要第二步验证，不需要时返回 null
+export async function getRequiredTwoFactorStep(
+  username: string,
+  role: UserRole,
+  method: SessionLoginMethod
+): Promise<TwoFactorStep | null> {
+  const config = await getConfig();
+  const policy = getTwoFactorPolicy(config);
+  if (method === 'oidc' && policy.oidcBypass) {
+    return null;
+  }
+
+  const data = await db.getTwoFactor(username);
+  if (data?.enabled) {
+    return 'verify';
+  }
+  return isTwoFactorRequiredForRole(role, policy) ? 'setup' : null;
+}
+
+// 生成新的待验证密钥（覆盖未完成的绑定），已启用时需先关闭
+export async function startTwoFactorSetup(
+  username: string
+): Promise<{ secret: string; otpauthUrl: string }> {
+  const existing = await db.getTwoFactor(username);
+  if (existing?.enabled) {
+    throw new Error('双重验证已启用');
+  }
+
+  const secret = generateTotpSecret();
+  await db.saveTwoFactor(username, {
+    secret,
+    enabled: false,
+    recoveryCodes: [],
+    lastUsedStep: 0,
+    createdAt: Date.now(),
+    enabledAt: null,
+  });
+
+  const config = await getConfig();
+  const issuer = config.SiteConfig.SiteName || 'MoonTV';
+  return { secret, otpauthUrl: buildOtpauthUrl(issuer, username, secret) };
+}
+
+// 用首个验证码确认绑定，返回一次性展示的恢复码
+export async function enableTwoFactor(username: string, code: string): Promise<string[]> {
+  const data = await db.getTwoFactor(username);
+  if (!data) {
+    throw new Error('请先生成双重验证密钥');
+  }
+  if (data.enabled) {
+    throw new Error('双重验证已启用');
+  }
+
+  const step = matchTotp(data.secret, code.trim());
+  if (step === null) {
+    throw new Error('验证码错误');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.saveTwoFactor(username, {
+    ...data,
+    enabled: true,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+    enabledAt: Date.now(),
+  });
+  return recoveryCodes;
+}
+
+// 校验验证码或恢复码（恢复码使用后作废）
+export async function verifyTwoFactorCode(username: string, code: string): Promise<boolean> {
+  const data = await db.getTwoFactor(username);
+  if (!data?.enabled) {
+    return false;
+  }
+
+  const input = code.trim();
+  const step = matchTotp(data.secret, input);
+  if (step !== null) {
+    // 同一时间步的验证码只能使用一次
+    if (step <= data.lastUsedStep) {
+      return false;
+    }
+    await db.saveTwoFactor(username, { ...data, lastUsedStep: step });
+    return true;
+  }
+
+  const hashed = hashRecoveryCode(input);
+  if (data.recoveryCodes.includes(hashed)) {
+    await db.saveTwoFactor(username, {
+      ...data,
+      recoveryCodes: data.recoveryCodes.filter((c) => c !== hashed),
+    });
+    console.log(`用户 ${username} 使用了双重验证恢复码`);
+    return true;
+  }
+
+  return false;
+}
+
+export async function regenerateRecoveryCodes(username: string): Promise<string[]> {
+  const data = await db.getTwoFactor(username);
+  if (!data?.enabled) {
+    throw new Error('双重验证未启用');
+  }
+  const recoveryCodes = generateRecoveryCodes();
+  await db.saveTwoFactor(username, {
+    ...data,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+  });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(username: string): Promise<void> {
+  await db.deleteTwoFactor(username);
+}
+
+// ---------- 登录挑战（密码 / OIDC 通过后、第二步验证前的临时凭证） ----------
+function challengeSignature(payload: string): Buffer {
+  return createHmac('sha256', `${process.env.PASSWORD || ''}:2fa-challenge`)
+    .update(payload)
+    .digest();
+}
+
+export function createLoginChallenge(
+  params: Omit<LoginChallenge, 'nonce' | 'expiresAt'>
+): string {
+  const challenge: LoginChallenge = {
+    ...params,
+    nonce: randomBytes(12).toString('hex'),
+    expiresAt: Date.now() + CHALLENGE_TTL,
+  };
+  const payload = Buffer.from(JSON.stringify(challenge)).toString('base64url');
+  return `${payload}.${challengeSignature(payload).toString('base64url')}`;
+}
+
+export function readLoginChallenge(token: string): LoginChallenge | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = challengeSignature(payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const challenge = JSON.parse(Buffer.from(payload, 'base64url').toString()) as LoginChallenge;
+    return challenge.expiresAt > Date.now() ? challenge : null;
+  } catch {
+    return null;
+  }
+}
+
+// 挑战只能成功使用一次，防止重放
+export async function isLoginChallengeConsumed(challenge: LoginChallenge): Promise<boolean> {
+  return !!(await db.getCache(`2fa-challenge:${challenge.nonce}`));
+}
+
+export async function consumeLoginChallenge(challenge: LoginChallenge): Promise<void> {
+  await db.setCache(`2fa-challenge:${challenge.nonce}`, true, Math.ceil(CHALLENGE_TTL / 1000));
+}
+
+// 验证前先占用一次尝试，达到上限返回 false；验证成功后调用 resetTwoFactorAttempts 清零
+// 先计数再验证，避免并发请求在计数写入前绕过上限
+export async function recordTwoFactorAttempt(username: string): Promise<boolean> {
+  const key = `2fa-attempts:${username}`;
+  const attempts = Number((await db.getCache(key)) || 0);
+  if (attempts >= MAX_FAILED_ATTEMPTS) {
+    return false;
+  }
+  await db.setCache(key, attempts + 1, FAILED_ATTEMPTS_TTL);
+  return true;
+}
+
+export async function resetTwoFactorAttempts(username: string): Promise<void> {
+  await db.deleteCache(`2fa-attempts:${username}`);
+}
@@ -16,6 +16,8 @@ export interface PlayRecord {
   remarks?: string; // 备注信息（如"已完结"、"更新至20集"等）
   douban_id?: number; // 豆瓣ID（用于准确识别视频）
   type?: string; // 内容类型（anime/tv/movie）用于继续播放时正确请求详情
+  work_id?: string; // 作品 ID（见 work-identity.ts），换源后仍能找到同一作品的记录
+  work_key?: string;
 }
 
 // 收藏数据结构
@@ -31,6 +33,8 @@ export interface Favorite {
   type?: string; // 内容类型（movie/tv/variety/shortdrama等）
   releaseDate?: string; // 上映日期 (YYYY-MM-DD)，用于即将上映内容
   remarks?: string; // 备注信息（如"X天后上映"、"已上映"等）
+  work_id?: string; // 作品 ID（见 work-identity.ts）
+  work_key?: string;
 }
 
 // 短剧分类数据结构
@@ -181,6 +185,319 @@ export interface IStorage {
     loginTime: number,
     isFirstLogin?: boolean
   ): Promise<void>;
+
+  // 🔑 个人访问令牌（第三方客户端 Bearer 认证）
+  getApiTokens?(userName: string): Promise<ApiToken[]>;
+  setApiToken?(userName: string, token: ApiToken): Promise<void>;
+  deleteApiToken?(userName: string, tokenId: string): Promise<void>;
+  // 通过令牌哈希反查所属用户
+  getApiTokenOwner?(tokenHash: string): Promise<string | null>;
+
+  // 🖥️ 登录会话（设备管理、远程登出）
+  getUserSessions?(userName: string): Promise<UserSession[]>;
+  getUserSession?(userName: string, sessionId: string): Promise<UserSession | null>;
+  setUserSession?(userName: string, session: UserSession): Promise<void>;
+  deleteUserSession?(userName: string, sessionId: string): Promise<void>;
+  deleteAllUserSessions?(userName: string): Promise<void>;
+
+  // 🔐 双重验证（TOTP 密钥与恢复码）
+  getTwoFactor?(userName: string): Promise<TwoFactorSecret | null>;
+  setTwoFactor?(userName: string, data: TwoFactorSecret): Promise<void>;
+  deleteTwoFactor?(userName: string): Promise<void>;
+
+  // 📺 直播页个人偏好（置顶分组、频道重命名与排序，导出播放列表时使用）
+  getLivePreferences?(userName: string): Promise<LivePreferences | null>;
+  setLivePreferences?(userName: string, prefs: LivePreferences): Promise<void>;
+
+  // 🩺 视频源健康状态（定时检测历史、连续失败次数）
+  getAllSourceHealth?(): Promise<Record<string, SourceHealthState>>;
+  setSourceHealth?(sourceKey: string, state: SourceHealthState): Promise<void>;
+  deleteSourceHealth?(sourceKey: string): Promise<void>;
+
+  // 📡 直播频道健康状态（按直播源保存最近一次批量检测结果）
+  getLiveChannelHealth?(sourceKey: string): Promise<LiveChannelHealthReport | null>;
+  getAllLiveChannelHealth?(): Promise<Record<string, LiveChannelHealthReport>>;
+  setLiveChannelHealth?(sourceKey: string, report: LiveChannelHealthReport): Promise<void>;
+  deleteLiveChannelHealth?(sourceKey: string): Promise<void>;
+
+  // ⏺️ 直播录制任务（全局保存，recordingId -> LiveRecording，录制文件保存在服务器磁盘）
+  getLiveRecording?(recordingId: string): Promise<LiveRecording | null>;
+  getAllLiveRecordings?(): Promise<Record<string, LiveRecording>>;
+  setLiveRecording?(recordingId: string, recording: LiveRecording): Promise<void>;
+  deleteLiveRecording?(recordingId: string): Promise<void>;
+
+  // 🔔 节目提醒（全局保存，reminderId -> LiveReminder，便于服务端统一推送）
+  getLiveReminder?(reminderId: string): Promise<LiveReminder | null>;
+  getAllLiveReminders?(): Promise<Record<string, LiveReminder>>;
+  setLiveReminder?(reminderId: string, reminder: LiveReminder): Promise<void>;
+  deleteLiveReminder?(reminderId: string): Promise<void>;
+
+  // 📥 服务器离线下载任务（全局保存，jobId -> OfflineDownloadJob，视频文件保存在服务器磁盘）
+  getOfflineDownload?(jobId: string): Promise<OfflineDownloadJob | null>;
+  getAllOfflineDownloads?(): Promise<Record<string, OfflineDownloadJob>>;
+  setOfflineDownload?(jobId: string, job: OfflineDownloadJob): Promise<void>;
+  deleteOfflineDownload?(jobId: string): Promise<void>;
+
+  // ⚖️ 播放效果统计（自适应源权重），statsKey 格式为 `${region}:${sourceKey}`
+  getSourcePlaybackStats?(statsKey: string): Promise<SourcePlaybackStats | null>;
+  getAllSourcePlaybackStats?(): Promise<Record<string, SourcePlaybackStats>>;
+  setSourcePlaybackStats?(statsKey: string, stats: SourcePlaybackStats): Promise<void>;
+
+  // 🔎 本地搜索索引，key 为 `${source}+${id}`
+  getSearchIndexEntries?(): Promise<Record<string, SearchIndexEntry>>;
+  setSearchIndexEntries?(entries: Record<string, SearchIndexEntry>): Promise<void>;
+  deleteSearchIndexEntries?(keys: string[]): Promise<void>;
+
+  // 🔄 账户原始数据（在线迁移使用，密码保持原始存储形式）
+  getUserAccountSnapshot?(userName: string): Promise<UserAccountSnapshot>;
+  restoreUserAccountSnapshot?(
+    userName: string,
+    snapshot: UserAccountSnapshot
+  ): Promise<void>;
+}
+
+// 个人访问令牌权限范围
+export type ApiTokenScope =
+  | 'playrecords:read'
+  | 'favorites:write'
+  | 'search'
+  | 'live:read'
+  | 'admin';
+
+// 个人访问令牌（只保存哈希，明文仅在创建时返回一次）
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenHash: string; // SHA-256(明文令牌)
+  prefix: string; // 明文前缀，用于列表中辨认
+  scopes: ApiTokenScope[];
+  createdAt: number;
+  expiresAt: number | null; // null 表示永不过期
+  lastUsedAt: number | null;
+}
+
+// 登录方式
+export type SessionLoginMethod = 'password' | 'register' | 'oidc' | 'telegram';
+
+// 服务端登录会话，cookie 中只保存会话 ID
+export interface UserSession {
+  id: string;
+  loginMethod: SessionLoginMethod;
+  userAgent: string;
+  ip: string;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+}
+
+// 双重验证数据
+export interface TwoFactorSecret {
+  secret: string; // Base32 编码的 TOTP 密钥
+  enabled: boolean; // false 表示已生成密钥但尚未完成验证
+  recoveryCodes: string[]; // SHA-256(恢复码)，使用后移除
+  lastUsedStep: number; // 最近一次通过的 TOTP 时间步，防止验证码重放
+  createdAt: number;
+  enabledAt: number | null;
+}
+
+// 直播页个人偏好（频道以直播页使用的频道 id 标识，与收藏的 key 一致）
+export interface LivePreferences {
+  pinnedGroups: string[]; // 置顶分组，按置顶先后排列
+  channelNames: Record<string, string>; // 频道 id -> 自定义名称
+  channelOrder: string[]; // 收藏频道的自定义顺序
+  telegramChatId?: number; // 通过机器人绑定的 Telegram 会话，用于推送节目提醒
+  quality?: LiveQualityPreference; // 默认画质上限和音轨语言
+  updatedAt: number;
+}
+
+// 直播默认画质偏好（分辨率高度，0 为不限）
+export interface LiveQualityPreference {
+  maxHeight: number;
+  mobileMaxHeight: number; // 手机上的画质上限，节省流量
+  audioLanguage?: string; // 主播放列表有多个音轨时优先选择的语言或名称
+}
+
+// 视频源健康检测失败原因分类
+export type SourceHealthErrorClass =
+  | 'timeout' // 请求超时
+  | 'network' // DNS / 连接失败
+  | 'http' // 非 2xx 状态码
+  | 'parse' // 返回内容不是有效 JSON
+  | 'api' // 接口返回错误码
+  | 'unplayable'; // 搜索正常但抽检的播放地址全部不可用
+
+// 单次健康检测记录
+export interface SourceHealthRecord {
+  timestamp: number;
+  ok: boolean;
+  latencyMs: number; // 搜索接口耗时
+  searchOk: boolean; // 搜索接口是否正常返回
+  resultCount: number;
+  playableChecked: number; // 抽检的播放地址数量
+  playableOk: number; // 抽检通过数量
+  errorClass?: SourceHealthErrorClass;
+  error?: string;
+}
+
+// 视频源健康状态（history 按时间倒序，只保留最近若干次）
+export interface SourceHealthState {
+  consecutiveFailures: number;
+  quarantinedAt: number | null; // 自动隔离时间，null 表示未隔离
+  lastCheckedAt: number;
+  history: SourceHealthRecord[];
+}
+
+// 播放器上报的单次播放结果（不含用户信息）
+export interface PlaybackOutcome {
+  source: string;
+  ttffMs: number | null; // 首帧耗时，未出画面为 null
+  stalls: number; // 出画面后的卡顿次数
+  fatal: boolean; // 是否发生无法恢复的播放错误
+  switched: boolean; // 用户是否因此换源
+}
+
+// 播放效果累计统计（按时间衰减，数值可以是小数）
+export interface SourcePlaybackStats {
+  samples: number;
+  started: number; // 成功出画面的次数
+  ttffTotalMs: number; // started 次播放的首帧耗时之和
+  stalls: number;
+  fatal: number;
+  switched: number;
+  updatedAt: number;
+}
+
+// 本地搜索索引条目（来自搜索结果、详情刷新和源浏览抓取）
+export interface SearchIndexEntry {
+  result: SearchResult; // 简介会被截断；仅由源浏览抓取的条目没有剧集列表
+  updatedAt: number;
+}
+
+// 直播频道检测失败原因分类
+export type LiveChannelErrorClass =
+  | 'timeout' // 请求超时
+  | 'network' // DNS / 连接失败
+  | 'http' // 非 2xx 状态码
+  | 'manifest' // m3u8 内容无效（非播放列表、无分片）
+  | 'empty'; // 返回内容为空
+
+// 单个直播频道的检测结果
+export interface LiveChannelHealth {
+  name?: string; // 频道名（同一地址出现多次时取第一个）
+  ok: boolean;
+  checkedAt: number;
+  latencyMs: number;
+  streamType: 'm3u8' | 'mp4' | 'flv' | 'unknown';
+  manifestValid: boolean | null; // 仅 m3u8 校验播放列表，其他格式为 null
+  bitrate?: number; // 码率（bps），来自 BANDWIDTH 或按分片大小估算
+  resolution?: string; // 如 1920x1080
+  consecutiveFailures: number;
+  errorClass?: LiveChannelErrorClass;
+  error?: string;
+}
+
+// 直播源的频道检测报告（channels 以频道地址为键，频道 id 按序号生成不稳定）
+export interface LiveChannelHealthReport {
+  checkedAt: number;
+  total: number;
+  healthy: number;
+  channels: Record<string, LiveChannelHealth>;
+}
+
+// 直播录制状态
+export type LiveRecordingStatus =
+  | 'scheduled' // 等待开始
+  | 'recording' // 录制中
+  | 'completed' // 已完成
+  | 'failed' // 录制失败（没有录到任何分片）
+  | 'cancelled'; // 开始前被取消
+
+// 直播录制任务（来自节目单或手动创建）
+export interface LiveRecording {
+  id: string;
+  username: string;
+  sourceKey: string;
+  channelId: string;
+  channelName: string;
+  channelUrl: string;
+  title: string; // 节目名，手动录制时为频道名 + 开始时间
+  startAt: number;
+  endAt: number;
+  status: LiveRecordingStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  segments: number; // 已录制分片数
+  bytes: number; // 已占用磁盘空间
+  duration: number; // 已录制时长（秒，按 EXTINF 累加）
+  container?: 'ts' | 'mp4'; // 分片格式，fMP4 分片为 mp4
+  error?: string; // 失败原因，或提前结束的原因（如达到配额）
+}
+
+// 节目提醒（来自节目单）
+export interface LiveReminder {
+  id: string;
+  username: string;
+  sourceKey: string;
+  channelId: string;
+  channelName: string;
+  title: string;
+  startAt: number;
+  endAt: number;
+  createdAt: number;
+  notifiedAt?: number; // Telegram 推送时间，未绑定 Telegram 时也会记录，避免重复处理
+}
+
+// 服务器离线下载状态
+export type OfflineDownloadStatus =
+  | 'queued' // 排队中
+  | 'downloading' // 下载中
+  | 'paused' // 已暂停
+  | 'completed' // 已完成（已转为 MP4）
+  | 'failed'; // 失败，可重试并从已下载的分片继续
+
+// 服务器离线下载任务，整季下载时每集一个任务
+export interface OfflineDownloadJob {
+  id: string;
+  username: string;
+  source: string;
+  sourceName: string;
+  videoId: string;
+  title: string;
+  cover: string;
+  year: string;
+  episodeIndex: number; // 第几集（0 开始）
+  episodeTitle: string;
+  url: string; // 该集的 m3u8 地址
+  status: OfflineDownloadStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  totalSegments: number;
+  doneSegments: number;
+  bytes: number; // 已占用磁盘空间
+  duration: number; // 视频时长（秒，按 EXTINF 累加）
+  error?: string;
+}
+
+// 用户账户快照（V1 明文密码 / V2 哈希信息 / 登入统计）
+export interface UserAccountSnapshot {
+  v1Password: string | null;
+  v2Info: {
+    passwordHash: string | null;
+    role: 'owner' | 'admin' | 'user';
+    banned: boolean;
+    tags?: string[];
+    oidcSub?: string;
+    enabledApis?: string[];
+    createdAt?: number;
+  } | null;
+  loginStats: {
+    loginCount?: number;
+    firstLoginTime?: number | null;
+    lastLoginTime?: number | null;
+    lastLoginDate?: number | null;
+  } | null;
 }
 
 // 搜索结果数据结构
@@ -196,9 +513,12 @@ export interface SearchResult {
   year: string;
   desc?: string;
   type_name?: string;
+  area?: string; // 地区（如"大陆"、"美国"），用于本地搜索索引按地区筛选
   douban_id?: number;
   remarks?: string; // 备注信息（如"已完结"、"更新至20集"等）
   drama_name?: string; // 短剧名称（用于备用API fallback）
+  work_id?: string; // 跨源稳定的作品 ID：douban:<id> 或 title:<work_key>
+  work_key?: string; // 规范化标题|年份|movie|tv，用于聚合没有豆瓣 ID 的结果
   subtitles?: any[]; // 字幕信息
   proxyMode?: boolean; // 代理模式
   metadata?: {
@@ -4,13 +4,25 @@ import { Redis } from '@upstash/redis';
 
 import { AdminConfig } from './admin.types';
 import {
+  ApiToken,
   ContentStat,
   EpisodeSkipConfig,
   Favorite,
   IStorage,
+  LiveChannelHealthReport,
+  LivePreferences,
+  LiveRecording,
+  LiveReminder,
+  OfflineDownloadJob,
   PlayRecord,
   PlayStatsResult,
+  SearchIndexEntry,
+  SourceHealthState,
+  SourcePlaybackStats,
+  TwoFactorSecret,
+  UserAccountSnapshot,
   UserPlayStat,
+  UserSession,
 } from './types';
 
 // 搜索历史最大条数
@@ -64,8 +76,8 @@ async function withRetry<T>(
 export class UpstashRedisStorage implements IStorage {
   private client: Redis;
 
-  constructor() {
-    this.client = getUpstashRedisClient();
+  constructor(url?: string, token?: string) {
+    this.client = getUpstashRedisClient(url, token);
   }
 
   // ---------- 播放记录 ----------
@@ -302,6 +314,22 @@ export class UpstashRedisStorage implements IStorage {
       await withRetry(() => this.client.del(...episodeSkipKeys));
     }
 
+    // 删除个人访问令牌及其反查索引
+    const tokens = await this.getApiTokens(userName);
+    for (const token of tokens) {
+      await withRetry(() => this.client.del(this.apiTokenIndexKey(token.tokenHash)));
+    }
+    await withRetry(() => this.client.del(this.apiTokensKey(userName)));
+
+    // 删除登录会话
+    await withRetry(() => this.client.del(this.sessionsKey(userName)));
+
+    // 删除双重验证密钥
+    await withRetry(() => this.client.del(this.twoFactorKey(userName)));
+
+    // 删除直播页个人偏好
+    await withRetry(() => this.client.del(this.livePreferencesKey(userName)));
+
     // 删除用户登入统计数据
     const loginStatsKey = `user_login_stats:${userName}`;
     await withRetry(() => this.client.del(loginStatsKey));
@@ -718,6 +746,13 @@ export class UpstashRedisStorage implements IStorage {
 
       // 删除管理员配置
       await withRetry(() => this.client.del(this.adminConfigKey()));
+      await withRetry(() => this.client.del(this.sourceHealthKey()));
+      await withRetry(() => this.client.del(this.liveChannelHealthKey()));
+      await withRetry(() => this.client.del(this.liveRecordingsKey()));
+      await withRetry(() => this.client.del(this.liveRemindersKey()));
+      await withRetry(() => this.client.del(this.offlineDownloadsKey()));
+      await withRetry(() => this.client.del(this.sourcePlaybackStatsKey()));
+      await withRetry(() => this.client.del(this.searchIndexKey()));
 
       console.log('所有数据已清空');
     } catch (error) {
@@ -1277,16 +1312,434 @@ export class UpstashRedisStorage implements IStorage {
       throw error;
     }
   }
+
+  // ---------- 个人访问令牌 ----------
+  private apiTokensKey(user: string) {
+    return `u:${user}:apitokens`; // Hash: tokenId -> ApiToken
+  }
+
+  private apiTokenIndexKey(tokenHash: string) {
+    return `apitoken:${tokenHash}`;
+  }
+
+  async getApiTokens(userName: string): Promise<ApiToken[]> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, ApiToken | string>>(this.apiTokensKey(userName))
+    );
+    // Upstash 会自动反序列化 JSON，兼容字符串与对象两种返回
+    return Object.values(raw || {})
+      .map((v) => (typeof v === 'string' ? JSON.parse(v) : v) as ApiToken)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async setApiToken(userName: string, token: ApiToken): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.apiTokensKey(userName), { [token.id]: JSON.stringify(token) })
+    );
+    await withRetry(() => this.client.set(this.apiTokenIndexKey(token.tokenHash), userName));
+  }
+
+  async deleteApiToken(userName: string, tokenId: string): Promise<void> {
+    const raw = await withRetry(() =>
+      this.client.hget<ApiToken | string>(this.apiTokensKey(userName), tokenId)
+    );
+    if (!raw) return;
+    const token = (typeof raw === 'string' ? JSON.parse(raw) : raw) as ApiToken;
+    await withRetry(() => this.client.del(this.apiTokenIndexKey(token.tokenHash)));
+    await withRetry(() => this.client.hdel(this.apiTokensKey(userName), tokenId));
+  }
+
+  async getApiTokenOwner(tokenHash: string): Promise<string | null> {
+    const owner = await withRetry(() => this.client.get(this.apiTokenIndexKey(tokenHash)));
+    return owner ? ensureString(owner) : null;
+  }
+
+  // ---------- 登录会话 ----------
+  private sessionsKey(user: string) {
+    return `u:${user}:sessions`; // Hash: sessionId -> UserSession
+  }
+
+  async getUserSessions(userName: string): Promise<UserSession[]> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, UserSession | string>>(this.sessionsKey(userName))
+    );
+    return Object.values(raw || {})
+      .map((v) => (typeof v === 'string' ? JSON.parse(v) : v) as UserSession)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  async getUserSession(userName: string, sessionId: string): Promise<UserSession | null> {
+    const raw = await withRetry(() =>
+      this.client.hget<UserSession | string>(this.sessionsKey(userName), sessionId)
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as UserSession;
+  }
+
+  async setUserSession(userName: string, session: UserSession): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.sessionsKey(userName), { [session.id]: JSON.stringify(session) })
+    );
+  }
+
+  async deleteUserSession(userName: string, sessionId: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.sessionsKey(userName), sessionId));
+  }
+
+  async deleteAllUserSessions(userName: string): Promise<void> {
+    await withRetry(() => this.client.del(this.sessionsKey(userName)));
+  }
+
+  // ---------- 双重验证 ----------
+  private twoFactorKey(user: string) {
+    return `u:${user}:2fa`;
+  }
+
+  async getTwoFactor(userName: string): Promise<TwoFactorSecret | null> {
+    const raw = await withRetry(() =>
+      this.client.get<TwoFactorSecret | string>(this.twoFactorKey(userName))
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as TwoFactorSecret;
+  }
+
+  async setTwoFactor(userName: string, data: TwoFactorSecret): Promise<void> {
+    await withRetry(() => this.client.set(this.twoFactorKey(userName), JSON.stringify(data)));
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    await withRetry(() => this.client.del(this.twoFactorKey(userName)));
+  }
+
+  // ---------- 直播页个人偏好 ----------
+  private livePreferencesKey(user: string) {
+    return `u:${user}:live_prefs`;
+  }
+
+  async getLivePreferences(userName: string): Promise<LivePreferences | null> {
+    const raw = await withRetry(() =>
+      this.client.get<LivePreferences | string>(this.livePreferencesKey(userName))
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as LivePreferences;
+  }
+
+  async setLivePreferences(userName: string, prefs: LivePreferences): Promise<void> {
+    await withRetry(() => this.client.set(this.livePreferencesKey(userName), JSON.stringify(prefs)));
+  }
+
+  // ---------- 视频源健康状态 ----------
+  private sourceHealthKey() {
+    return 'source_health'; // Hash: sourceKey -> SourceHealthState JSON
+  }
+
+  async getAllSourceHealth(): Promise<Record<string, SourceHealthState>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, SourceHealthState | string>>(this.sourceHealthKey())
+    );
+    const result: Record<string, SourceHealthState> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as SourceHealthState;
+    });
+    return result;
+  }
+
+  async setSourceHealth(sourceKey: string, state: SourceHealthState): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.sourceHealthKey(), { [sourceKey]: JSON.stringify(state) })
+    );
+  }
+
+  async deleteSourceHealth(sourceKey: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.sourceHealthKey(), sourceKey));
+  }
+
+  // ---------- 直播频道健康状态 ----------
+  private liveChannelHealthKey() {
+    return 'live_channel_health'; // Hash: liveSourceKey -> LiveChannelHealthReport JSON
+  }
+
+  async getLiveChannelHealth(sourceKey: string): Promise<LiveChannelHealthReport | null> {
+    const raw = await withRetry(() =>
+      this.client.hget<LiveChannelHealthReport | string>(this.liveChannelHealthKey(), sourceKey)
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as LiveChannelHealthReport;
+  }
+
+  async getAllLiveChannelHealth(): Promise<Record<string, LiveChannelHealthReport>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, LiveChannelHealthReport | string>>(this.liveChannelHealthKey())
+    );
+    const result: Record<string, LiveChannelHealthReport> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as LiveChannelHealthReport;
+    });
+    return result;
+  }
+
+  async setLiveChannelHealth(sourceKey: string, report: LiveChannelHealthReport): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.liveChannelHealthKey(), { [sourceKey]: JSON.stringify(report) })
+    );
+  }
+
+  async deleteLiveChannelHealth(sourceKey: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.liveChannelHealthKey(), sourceKey));
+  }
+
+  // ---------- 直播录制任务 ----------
+  private liveRecordingsKey() {
+    return 'live_recordings'; // Hash: recordingId -> LiveRecording JSON
+  }
+
+  async getLiveRecording(recordingId: string): Promise<LiveRecording | null> {
+    const raw = await withRetry(() =>
+      this.client.hget<LiveRecording | string>(this.liveRecordingsKey(), recordingId)
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as LiveRecording;
+  }
+
+  async getAllLiveRecordings(): Promise<Record<string, LiveRecording>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, LiveRecording | string>>(this.liveRecordingsKey())
+    );
+    const result: Record<string, LiveRecording> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as LiveRecording;
+    });
+    return result;
+  }
+
+  async setLiveRecording(recordingId: string, recording: LiveRecording): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.liveRecordingsKey(), { [recordingId]: JSON.stringify(recording) })
+    );
+  }
+
+  async deleteLiveRecording(recordingId: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.liveRecordingsKey(), recordingId));
+  }
+
+  // ---------- 节目提醒 ----------
+  private liveRemindersKey() {
+    return 'live_reminders'; // Hash: reminderId -> LiveReminder JSON
+  }
+
+  async getLiveReminder(reminderId: string): Promise<LiveReminder | null> {
+    const raw = await withRetry(() =>
+      this.client.hget<LiveReminder | string>(this.liveRemindersKey(), reminderId)
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as LiveReminder;
+  }
+
+  async getAllLiveReminders(): Promise<Record<string, LiveReminder>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, LiveReminder | string>>(this.liveRemindersKey())
+    );
+    const result: Record<string, LiveReminder> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as LiveReminder;
+    });
+    return result;
+  }
+
+  async setLiveReminder(reminderId: string, reminder: LiveReminder): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.liveRemindersKey(), { [reminderId]: JSON.stringify(reminder) })
+    );
+  }
+
+  async deleteLiveReminder(reminderId: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.liveRemindersKey(), reminderId));
+  }
+
+  // ---------- 服务器离线下载 ----------
+  private offlineDownloadsKey() {
+    return 'offline_downloads'; // Hash: jobId -> OfflineDownloadJob JSON
+  }
+
+  async getOfflineDownload(jobId: string): Promise<OfflineDownloadJob | null> {
+    const raw = await withRetry(() =>
+      this.client.hget<OfflineDownloadJob | string>(this.offlineDownloadsKey(), jobId)
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as OfflineDownloadJob;
+  }
+
+  async getAllOfflineDownloads(): Promise<Record<string, OfflineDownloadJob>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, OfflineDownloadJob | string>>(this.offlineDownloadsKey())
+    );
+    const result: Record<string, OfflineDownloadJob> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as OfflineDownloadJob;
+    });
+    return result;
+  }
+
+  async setOfflineDownload(jobId: string, job: OfflineDownloadJob): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.offlineDownloadsKey(), { [jobId]: JSON.stringify(job) })
+    );
+  }
+
+  async deleteOfflineDownload(jobId: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.offlineDownloadsKey(), jobId));
+  }
+
+  // ---------- 播放效果统计 ----------
+  private sourcePlaybackStatsKey() {
+    return 'source_playback_stats'; // Hash: region:sourceKey -> SourcePlaybackStats JSON
+  }
+
+  async getSourcePlaybackStats(statsKey: string): Promise<SourcePlaybackStats | null> {
+    const raw = await withRetry(() =>
+      this.client.hget<SourcePlaybackStats | string>(this.sourcePlaybackStatsKey(), statsKey)
+    );
+    if (!raw) return null;
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as SourcePlaybackStats;
+  }
+
+  async getAllSourcePlaybackStats(): Promise<Record<string, SourcePlaybackStats>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, SourcePlaybackStats | string>>(this.sourcePlaybackStatsKey())
+    );
+    const result: Record<string, SourcePlaybackStats> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as SourcePlaybackStats;
+    });
+    return result;
+  }
+
+  async setSourcePlaybackStats(statsKey: string, stats: SourcePlaybackStats): Promise<void> {
+    await withRetry(() =>
+      this.client.hset(this.sourcePlaybackStatsKey(), { [statsKey]: JSON.stringify(stats) })
+    );
+  }
+
+  // ---------- 本地搜索索引 ----------
+  private searchIndexKey() {
+    return 'search_index'; // Hash: source+id -> SearchIndexEntry JSON
+  }
+
+  async getSearchIndexEntries(): Promise<Record<string, SearchIndexEntry>> {
+    const raw = await withRetry(() =>
+      this.client.hgetall<Record<string, SearchIndexEntry | string>>(this.searchIndexKey())
+    );
+    const result: Record<string, SearchIndexEntry> = {};
+    Object.entries(raw || {}).forEach(([key, value]) => {
+      result[key] = (typeof value === 'string' ? JSON.parse(value) : value) as SearchIndexEntry;
+    });
+    return result;
+  }
+
+  async setSearchIndexEntries(entries: Record<string, SearchIndexEntry>): Promise<void> {
+    const fields: Record<string, string> = {};
+    Object.entries(entries).forEach(([key, entry]) => {
+      fields[key] = JSON.stringify(entry);
+    });
+    if (Object.keys(fields).length === 0) return;
+    await withRetry(() => this.client.hset(this.searchIndexKey(), fields));
+  }
+
+  async deleteSearchIndexEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await withRetry(() => this.client.hdel(this.searchIndexKey(), ...keys));
+  }
+
+  // ---------- 账户快照（在线迁移） ----------
+  async getUserAccountSnapshot(userName: string): Promise<UserAccountSnapshot> {
+    const [v1Password, rawInfo, loginStats] = await Promise.all([
+      withRetry(() => this.client.get(this.userPwdKey(userName))),
+      withRetry(() => this.client.hgetall(this.userInfoKey(userName))),
+      withRetry(() =>
+        this.client.get<UserAccountSnapshot['loginStats']>(`user_login_stats:${userName}`)
+      ),
+    ]);
+
+    let v2Info: UserAccountSnapshot['v2Info'] = null;
+    if (rawInfo && Object.keys(rawInfo).length > 0) {
+      const info = await this.getUserInfoV2(userName);
+      if (info) {
+        v2Info = {
+          passwordHash: rawInfo.password ? ensureString(rawInfo.password) : null,
+          role: info.role,
+          banned: info.banned,
+          tags: info.tags,
+          oidcSub: info.oidcSub,
+          enabledApis: info.enabledApis,
+          createdAt: info.createdAt,
+        };
+      }
+    }
+
+    return {
+      v1Password: v1Password !== null ? ensureString(v1Password) : null,
+      v2Info,
+      loginStats: loginStats || null,
+    };
+  }
+
+  async restoreUserAccountSnapshot(
+    userName: string,
+    snapshot: UserAccountSnapshot
+  ): Promise<void> {
+    if (snapshot.v1Password !== null) {
+      await withRetry(() =>
+        this.client.set(this.userPwdKey(userName), snapshot.v1Password)
+      );
+    }
+
+    const info = snapshot.v2Info;
+    if (info) {
+      const createdAt = info.createdAt || Date.now();
+      const userInfo: Record<string, string> = {
+        role: info.role,
+        banned: info.banned ? 'true' : 'false',
+        created_at: createdAt.toString(),
+      };
+      if (info.passwordHash) userInfo.password = info.passwordHash;
+      if (info.tags && info.tags.length > 0) userInfo.tags = JSON.stringify(info.tags);
+      if (info.enabledApis && info.enabledApis.length > 0) {
+        userInfo.enabledApis = JSON.stringify(info.enabledApis);
+      }
+      if (info.oidcSub) {
+        userInfo.oidcSub = info.oidcSub;
+        await withRetry(() => this.client.set(this.oidcSubKey(info.oidcSub!), userName));
+      }
+
+      // 先删除再写入，避免目标库残留旧字段
+      await withRetry(() => this.client.del(this.userInfoKey(userName)));
+      await withRetry(() => this.client.hset(this.userInfoKey(userName), userInfo));
+      await withRetry(() => this.client.zadd(this.userListKey(), {
+        score: createdAt,
+        member: userName,
+      }));
+    }
+
+    if (snapshot.loginStats) {
+      // Upstash 会自动序列化对象
+      await withRetry(() =>
+        this.client.set(`user_login_stats:${userName}`, snapshot.loginStats)
+      );
+    }
+  }
 }
 
 // 单例 Upstash Redis 客户端
-function getUpstashRedisClient(): Redis {
-  const globalKey = Symbol.for('__MOONTV_UPSTASH_REDIS_CLIENT__');
+// 显式传入 url/token 时（如在线迁移的源库）创建独立的客户端，不影响主存储
+function getUpstashRedisClient(url?: string, token?: string): Redis {
+  const globalKey = Symbol.for(
+    url ? `__MOONTV_UPSTASH_REDIS_CLIENT__:${url}` : '__MOONTV_UPSTASH_REDIS_CLIENT__'
+  );
   let client: Redis | undefined = (global as any)[globalKey];
 
   if (!client) {
-    const upstashUrl = process.env.UPSTASH_URL;
-    const upstashToken = process.env.UPSTASH_TOKEN;
+    const upstashUrl = url || process.env.UPSTASH_URL;
+    const upstashToken = token || process.env.UPSTASH_TOKEN;
 
     if (!upstashUrl || !upstashToken) {
       throw new Error(
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  buildSignedVodProxyUrl,
+  signVodProxyUrl,
+  verifyVodProxySignature,
+} from './vod-proxy-sign';
+
+const PLAYLIST = 'https://cdn.example.com/vod/index.m3u8';
+
+describe('vod-proxy-sign', () => {
+  const originalPassword = process.env.PASSWORD;
+
+  beforeEach(() => {
+    process.env.PASSWORD = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.PASSWORD = originalPassword;
+  });
+
+  it('accepts a signature issued for the same source and url', () => {
+    const signature = signVodProxyUrl('demo', PLAYLIST);
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyVodProxySignature('demo', PLAYLIST, signature)).toBe(true);
+  });
+
+  it('rejects a tampered url or a different source', () => {
+    const signature = signVodProxyUrl('demo', PLAYLIST);
+    expect(
+      verifyVodProxySignature('demo', 'http://127.0.0.1/index.m3u8', signature)
+    ).toBe(false);
+    expect(verifyVodProxySignature('other', PLAYLIST, signature)).toBe(false);
+  });
+
+  it('rejects missing or malformed signatures', () => {
+    expect(verifyVodProxySignature('demo', PLAYLIST, null)).toBe(false);
+    expect(verifyVodProxySignature('demo', PLAYLIST, 'abc')).toBe(false);
+    expect(verifyVodProxySignature('demo', PLAYLIST, 'z'.repeat(64))).toBe(
+      false
+    );
+  });
+
+  it('rejects everything when no secret is configured', () => {
+    const signature = signVodProxyUrl('demo', PLAYLIST);
+    delete process.env.PASSWORD;
+    expect(signVodProxyUrl('demo', PLAYLIST)).toBe('');
+    expect(verifyVodProxySignature('demo', PLAYLIST, signature)).toBe(false);
+  });
+
+  it('appends the signature to the proxy url', () => {
+    const proxyUrl = new URL(
+      buildSignedVodProxyUrl('https://tv.example.org/', 'demo', PLAYLIST)
+    );
+    expect(proxyUrl.pathname).toBe('/api/proxy/vod/demo/index.m3u8');
+    expect(proxyUrl.searchParams.get('url')).toBe(PLAYLIST);
+    expect(
+      verifyVodProxySignature(
+        'demo',
+        PLAYLIST,
+        proxyUrl.searchParams.get('sig')
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+
+import { DEFAULT_AD_FILTER_RULES } from './ad-filter';
+import {
+  buildVodProxyUrl,
+  getBaseDomain,
+  getSiteBaseUrl,
+  getVodPlaylist,
+  isM3U8Url,
+  isVodProxySource,
+  NotPlaylistError,
+  rewriteVodPlayUrl,
+} from './vod-proxy';
+
+const SITE = 'https://tv.example.org';
+const proxyUrl = (url: string) => buildVodProxyUrl(SITE, 'demo', url);
+
+function mockFetch(
+  routes: Record<
+    string,
+    { body: string; contentType?: string; status?: number }
+  >
+) {
+  const fetchMock = jest.fn(async (url: string) => {
+    const route = routes[url];
+    if (!route) throw new Error(`unexpected fetch ${url}`);
+    return {
+      ok: (route.status ?? 200) < 400,
+      status: route.status ?? 200,
+      url,
+      headers: {
+        get: () => route.contentType || 'application/vnd.apple.mpegurl',
+      },
+      body: { cancel: () => Promise.resolve() },
+      text: async () => route.body,
+    };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+let seq = 0;
+// 每个用例使用不同的地址，避免命中模块内的缓存
+function uniqueBase() {
+  seq += 1;
+  return `https://cdn${seq}.example.com/vod/${seq}`;
+}
+
+describe('url helpers', () => {
+  it('builds proxy urls ending in .m3u8', () => {
+    expect(
+      buildVodProxyUrl(`${SITE}/`, 'a b', 'https://x.com/1.m3u8?k=1')
+    ).toBe(
+      `${SITE}/api/proxy/vod/a%20b/index.m3u8?url=${encodeURIComponent('https://x.com/1.m3u8?k=1')}`
+    );
+  });
+
+  it('detects m3u8 urls', () => {
+    expect(isM3U8Url('https://x.com/index.m3u8')).toBe(true);
+    expect(isM3U8Url('https://x.com/index.M3U8?token=1')).toBe(true);
+    expect(isM3U8Url('https://x.com/movie.mp4')).toBe(false);
+    expect(isM3U8Url('https://x.com/index.m3u8.mp4')).toBe(false);
+  });
+
+  it('only proxies configured sources', () => {
+    expect(isVodProxySource('dyttzy')).toBe(true);
+    expect(isVodProxySource('shortdrama')).toBe(false);
+    expect(isVodProxySource('emby')).toBe(false);
+    expect(isVodProxySource('emby_home')).toBe(false);
+    expect(isVodProxySource('')).toBe(false);
+  });
+
+  it('derives the site base url from SITE_BASE or the request headers', () => {
+    const request = new Request('http://internal:3000/api/x', {
+      headers: { host: 'tv.example.org', 'x-forwarded-proto': 'https' },
+    });
+    expect(getSiteBaseUrl(request)).toBe('https://tv.example.org');
+    process.env.SITE_BASE = 'https://site.example.org/';
+    try {
+      expect(getSiteBaseUrl(request)).toBe('https://site.example.org');
+    } finally {
+      delete process.env.SITE_BASE;
+    }
+  });
+
+  it.each([
+    ['caiji.example.com', 'example.com'],
+    ['a.b.example.com.cn', 'example.com.cn'],
+    ['example.com.', 'example.com'],
+    ['192.168.1.2', '192.168.1.2'],
+    ['localhost', 'localhost'],
+  ])('base domain of %s is %s', (host, domain) => {
+    expect(getBaseDomain(host)).toBe(domain);
+  });
+});
+
+describe('rewriteVodPlayUrl', () => {
+  it('proxies m3u8 episodes across play groups and keeps the rest', () => {
+    const playUrl = [
+      '第01集$https://v.example.com/1/index.m3u8#第02集$https://v.example.com/2/index.m3u8',
+      '正片$https://v.example.com/movie.mp4',
+      'https://v.example.com/bare.m3u8',
+    ].join('$$$');
+    expect(rewriteVodPlayUrl(playUrl, proxyUrl)).toBe(
+      [
+        `第01集$${proxyUrl('https://v.example.com/1/index.m3u8')}#第02集$${proxyUrl('https://v.example.com/2/index.m3u8')}`,
+        '正片$https://v.example.com/movie.mp4',
+        proxyUrl('https://v.example.com/bare.m3u8'),
+      ].join('$$$')
+    );
+  });
+
+  it('leaves relative and web page urls untouched', () => {
+    const playUrl =
+      '第1集$/play/1.m3u8#第2集$https://www.example.com/play/2.html';
+    expect(rewriteVodPlayUrl(playUrl, proxyUrl)).toBe(playUrl);
+  });
+});
+
+describe('getVodPlaylist', () => {
+  const options = { source: 'demo', rules: DEFAULT_AD_FILTER_RULES, proxyUrl };
+
+  it('follows the best variant, strips ads and absolutizes uris', async () => {
+    const base = uniqueBase();
+    mockFetch({
+      [`${base}/index.m3u8`]: {
+        body: [
+          '#EXTM3U',
+          '#EXT-X-STREAM-INF:BANDWIDTH=800000',
+          'low/index.m3u8',
+          '#EXT-X-STREAM-INF:BANDWIDTH=2500000',
+          'high/index.m3u8',
+        ].join('\n'),
+      },
+      [`${base}/high/index.m3u8`]: {
+        body: [
+          '#EXTM3U',
+          '#EXT-X-KEY:METHOD=AES-128,URI="key.key"',
+          '#EXTINF:10,',
+          'a.ts',
+          '#EXT-X-DISCONTINUITY',
+          '#EXTINF:5,',
+          '/adjump/ad.ts',
+          '#EXT-X-DISCONTINUITY',
+          '#EXTINF:10,',
+          'b.ts',
+          '#EXT-X-ENDLIST',
+        ].join('\n'),
+      },
+    });
+
+    const result = await getVodPlaylist(`${base}/index.m3u8`, options);
+    expect(result.finalUrl).toBe(`${base}/high/index.m3u8`);
+    expect(result.removedCount).toBe(1);
+    expect(result.content).toContain(`URI="${base}/high/key.key"`);
+    expect(result.content).toContain(`${base}/high/a.ts`);
+    expect(result.content).toContain(`${base}/high/b.ts`);
+    expect(result.content).not.toContain('adjump');
+  });
+
+  it('keeps masters with separate audio renditions and proxies their playlists', async () => {
+    const base = uniqueBase();
+    mockFetch({
+      [`${base}/master.m3u8`]: {
+        body: [
+          '#EXTM3U',
+          '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="zh",URI="audio/zh.m3u8"',
+          '#EXT-X-STREAM-INF:BANDWIDTH=2500000,AUDIO="aud"',
+          'video/index.m3u8',
+        ].join('\n'),
+      },
+    });
+
+    const result = await getVodPlaylist(`${base}/master.m3u8`, options);
+    expect(result.content).toContain(
+      `URI="${proxyUrl(`${base}/audio/zh.m3u8`)}"`
+    );
+    expect(result.content).toContain(proxyUrl(`${base}/video/index.m3u8`));
+  });
+
+  it('rejects responses that are not playlists', async () => {
+    const base = uniqueBase();
+    mockFetch({
+      [`${base}/movie.m3u8`]: { body: '', contentType: 'video/mp4' },
+      [`${base}/page.m3u8`]: {
+        body: '<html></html>',
+        contentType: 'text/html',
+      },
+    });
+
+    await expect(
+      getVodPlaylist(`${base}/movie.m3u8`, options)
+    ).rejects.toBeInstanceOf(NotPlaylistError);
+    await expect(
+      getVodPlaylist(`${base}/page.m3u8`, options)
+    ).rejects.toBeInstanceOf(NotPlaylistError);
+  });
+
+  it('shares one upstream request between concurrent callers and does not cache failures', async () => {
+    const base = uniqueBase();
+    const fetchMock = mockFetch({
+      [`${base}/index.m3u8`]: {
+        body: '#EXTM3U\n#EXTINF:10,\na.ts\n#EXT-X-ENDLIST',
+      },
+      [`${base}/broken.m3u8`]: { body: '', status: 500 },
+    });
+
+    await Promise.all([
+      getVodPlaylist(`${base}/index.m3u8`, options),
+      getVodPlaylist(`${base}/index.m3u8`, options),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await expect(
+      getVodPlaylist(`${base}/broken.m3u8`, options)
+    ).rejects.toThrow('HTTP 500');
+    await expect(
+      getVodPlaylist(`${base}/broken.m3u8`, options)
+    ).rejects.toThrow('HTTP 500');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * 点播 m3u8 代理
+ * 服务器端解析嵌套的主播放列表、补全分片/密钥地址并按站点规则去广告，
+ * 供无法运行前端去广告逻辑的 TVBox 客户端和 Chromecast 投屏使用
+ */
+
+import { AdFilterRule, applyAdFilterRules } from './ad-filter';
+import { DEFAULT_USER_AGENT } from './user-agent';
+
+const FETCH_TIMEOUT = 15000;
+const MAX_MASTER_DEPTH = 3;
+const CACHE_TTL = 60 * 1000;
+const MAX_CACHE_SIZE = 300;
+
+export interface VodPlaylistResult {
+  content: string;
+  /** 跟随主播放列表和重定向后的实际地址 */
+  finalUrl: string;
+  removedCount: number;
+  removedDuration: number;
+}
+
+export interface VodPlaylistOptions {
+  source: string;
+  rules: AdFilterRule[];
+  /** 规则版本，参与缓存键，规则修改后立即生效 */
+  rulesVersion?: number;
+  /** 带变体的主播放列表需要把子列表指回代理，传入代理地址生成函数 */
+  proxyUrl: (url: string) => string;
+}
+
+/**
+ * 生成代理地址，路径以 .m3u8 结尾，便于只看扩展名的播放器识别为 HLS
+ */
+export function buildVodProxyUrl(siteBaseUrl: string, source: string, url: string): string {
+  return `${siteBaseUrl.replace(/\/$/, '')}/api/proxy/vod/${encodeURIComponent(source)}/index.m3u8?url=${encodeURIComponent(url)}`;
+}
+
+/**
+ * 本站对外地址：优先使用环境变量 SITE_BASE，否则按请求头推断（反向代理需传 x-forwarded-proto）
+ */
+export function getSiteBaseUrl(request: Request): string {
+  const envBase = (process.env.SITE_BASE || '').trim().replace(/\/$/, '');
+  if (envBase) return envBase;
+  const host = request.headers.get('host') || 'localhost:3000';
+  const protocol = request.headers.get('x-forwarded-proto') || 'http';
+  return `${protocol}://${host}`;
+}
+
+export function isM3U8Url(url: string): boolean {
+  return /\.m3u8(?:$|[?#])/i.test(url);
+}
+
+/**
+ * 只有后台配置的采集源可以走代理，Emby、短剧等来源没有对应的视频源配置
+ */
+export function isVodProxySource(source: string): boolean {
+  return !!source && source !== 'shortdrama' && source !== 'emby' && !source.startsWith('emby_');
+}
+
+/**
+ * 改写苹果 CMS 的 vod_play_url（线路以 $$$ 分隔、剧集以 # 分隔、每集为 `名称$地址`），
+ * 其中的 m3u8 地址改为经过代理
+ */
+export function rewriteVodPlayUrl(playUrl: string, proxyUrl: (url: string) => string): string {
+  return playUrl
+    .split('$$$')
+    .map((group) =>
+      group
+        .split('#')
+        .map((episode) => {
+          const index = episode.lastIndexOf('$');
+          const url = episode.slice(index + 1).trim();
+          if (!/^https?:\/\//i.test(url) || !isM3U8Url(url)) return episode;
+          return `${episode.slice(0, index + 1)}${proxyUrl(url)}`;
+        })
+        .join('#')
+    )
+    .join('$$$');
+}
+
+/**
+ * 粗略取主域名（example.com、example.com.cn），用于判断地址是否属于视频源
+ */
+export function getBaseDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return host;
+  const labels = host.split('.');
+  const secondLevel = labels[labels.length - 2];
+  const count =
+    labels.length > 2 && labels[labels.length - 1].length === 2 && ['com', 'net', 'org', 'gov', 'edu'].includes(secondLevel)
+      ? 3
+      : 2;
+  return labels.slice(-count).join('.');
+}
+
+/**
+ * 上游返回的不是 m3u8（如 mp4 直链），由调用方直接跳转到原地址
+ */
+export class NotPlaylistError extends Error {
+  constructor(public url: string) {
+    super('不是 m3u8 播放列表');
+    this.name = 'NotPlaylistError';
+  }
+}
+
+const cache = new Map<string, { timestamp: number; promise: Promise<VodPlaylistResult> }>();
+
+function cleanupCache() {
+  const now = Date.now();
+  Array.from(cache.entries()).forEach(([key, entry]) => {
+    if (now - entry.timestamp > CACHE_TTL) cache.delete(key);
+  });
+  // 仍然过多时删除最早的条目（Map 按插入顺序迭代）
+  const overflow = cache.size - MAX_CACHE_SIZE;
+  if (overflow > 0) {
+    Array.from(cache.keys())
+      .slice(0, overflow)
+      .forEach((key) => cache.delete(key));
+  }
+}
+
+async function fetchPlaylist(url: string): Promise<{ text: string; finalUrl: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      redirect: 'follow',
+      headers: { 'User-Agent': DEFAULT_USER_AGENT, Accept: '*/*' },
+    });
+    if (!response.ok) {
+      response.body?.cancel().catch(() => undefined);
+      throw new Error(`上游返回 HTTP ${response.status}`);
+    }
+    const contentType = (response.headers.get('Content-Type') || '').toLowerCase();
+    if (/^(video|audio)\//.test(contentType)) {
+      response.body?.cancel().catch(() => undefined);
+      throw new NotPlaylistError(url);
+    }
+    const text = await response.text();
+    if (!text.trimStart().startsWith('#EXTM3U')) {
+      throw new NotPlaylistError(url);
+    }
+    return { text, finalUrl: response.url || url };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function absolutize(uri: string, baseUrl: string): string {
+  try {
+    return new URL(uri, baseUrl).href;
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * 选择码率最高的变体
+ */
+function pickBestVariant(lines: string[], baseUrl: string): string | null {
+  let best: { url: string; bandwidth: number } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line.startsWith('#EXT-X-STREAM-INF')) continue;
+    const bandwidth = parseInt(line.match(/[:,]BANDWIDTH=(\d+)/)?.[1] || '0', 10);
+    const next = lines.slice(i + 1).find((l) => l.trim() && !l.trim().startsWith('#'));
+    if (next && (!best || bandwidth > best.bandwidth)) {
+      best = { url: absolutize(next.trim(), baseUrl), bandwidth };
+    }
+  }
+  return best?.url ?? null;
+}
+
+/**
+ * 补全地址：分片、EXT-X-KEY / EXT-X-MAP 等标签中的 URI 一律改为绝对地址
+ * 子播放列表（主播放列表中的变体和音轨）改为经过代理
+ */
+function rewriteUris(content: string, baseUrl: string, proxyUrl?: (url: string) => string): string {
+  let expectPlaylist = false;
+  return content
+    .split(/\r?\n/)
+    .map((raw) => {
+      const line = raw.trim();
+      if (!line) return line;
+      if (line.startsWith('#')) {
+        expectPlaylist = line.startsWith('#EXT-X-STREAM-INF');
+        return line.replace(/URI="([^"]+)"/, (_match, uri: string) => {
+          const url = absolutize(uri, baseUrl);
+          const isPlaylist = proxyUrl && (line.startsWith('#EXT-X-MEDIA:') || line.startsWith('#EXT-X-I-FRAME-STREAM-INF'));
+          return `URI="${isPlaylist ? proxyUrl(url) : url}"`;
+        });
+      }
+      const url = absolutize(line, baseUrl);
+      const isPlaylist = expectPlaylist && proxyUrl;
+      expectPlaylist = false;
+      return isPlaylist ? proxyUrl(url) : url;
+    })
+    .join('\n');
+}
+
+async function resolveVodPlaylist(url: string, options: VodPlaylistOptions): Promise<VodPlaylistResult> {
+  let current = url;
+  for (let depth = 0; ; depth++) {
+    const { text, finalUrl } = await fetchPlaylist(current);
+    if (!text.includes('#EXT-X-STREAM-INF')) {
+      const filtered = applyAdFilterRules(text, options.rules, { source: options.source, baseUrl: finalUrl });
+      return {
+        content: rewriteUris(filtered.content, finalUrl),
+        finalUrl,
+        removedCount: filtered.removedCount,
+        removedDuration: filtered.removedDuration,
+      };
+    }
+
+    // 有独立音轨时不能只保留一个变体，保留主播放列表，子列表再经过代理
+    const lines = text.split(/\r?\n/);
+    const hasRenditions = lines.some((line) => line.startsWith('#EXT-X-MEDIA:') && line.includes('URI="'));
+    const variant = pickBestVariant(lines, finalUrl);
+    if (hasRenditions || !variant || depth >= MAX_MASTER_DEPTH) {
+      return {
+        content: rewriteUris(text, finalUrl, options.proxyUrl),
+        finalUrl,
+        removedCount: 0,
+        removedDuration: 0,
+      };
+    }
+    current = variant;
+  }
+}
+
+/**
+ * 获取去广告并补全地址后的播放列表，结果短暂缓存，相同请求并发时只拉取一次
+ */
+export function getVodPlaylist(url: string, options: VodPlaylistOptions): Promise<VodPlaylistResult> {
+  cleanupCache();
+  const key = `${options.source}|${options.rulesVersion ?? 0}|${url}`;
+  const cached = cache.get(key);
+  if (cached) return cached.promise;
+
+  const promise = resolveVodPlaylist(url, options);
+  cache.set(key, { timestamp: Date.now(), promise });
+  promise.catch(() => cache.delete(key));
+  return promise;
+}
@@ -0,0 +1,169 @@
+import {
+  clusterByWork,
+  findStableWorkEntries,
+  findWorkEntries,
+  getWorkIdentity,
+  isSameWork,
+  splitWorkEntryKey,
+} from './work-identity';
+
+describe('getWorkIdentity', () => {
+  it('prefers the douban id and normalizes the title', () => {
+    expect(
+      getWorkIdentity({
+        title: ' 流浪地球 2！',
+        year: '2023',
+        douban_id: 35267208,
+        episodes: ['a'],
+      })
+    ).toEqual({
+      work_id: 'douban:35267208',
+      work_key: '流浪地球2|2023|movie',
+    });
+  });
+
+  it('falls back to the work key without a douban id', () => {
+    expect(
+      getWorkIdentity({ title: 'Show', year: '', episodes: ['1', '2'] }).work_id
+    ).toBe('title:show|unknown|tv');
+  });
+});
+
+describe('isSameWork', () => {
+  it('matches by work id or work key', () => {
+    expect(
+      isSameWork(
+        { work_id: 'douban:1', work_key: 'a|2020|tv' },
+        { work_id: 'douban:1', work_key: 'b|2020|tv' }
+      )
+    ).toBe(true);
+    expect(
+      isSameWork(
+        { work_id: 'title:a|2020|tv', work_key: 'a|2020|tv' },
+        { work_id: 'douban:2', work_key: 'a|2020|tv' }
+      )
+    ).toBe(true);
+  });
+
+  it('falls back to title and year for legacy records', () => {
+    expect(
+      isSameWork(
+        { title: '三体', year: '2023', work_key: '三体|2023|tv' },
+        { title: '三 体', year: '2023' }
+      )
+    ).toBe(true);
+    expect(
+      isSameWork(
+        { title: '三体', year: '2023' },
+        { title: '三体', year: '2024' }
+      )
+    ).toBe(false);
+  });
+
+  it('does not merge a movie and a series with the same title and year', () => {
+    expect(
+      isSameWork(
+        { title: '三体', year: '2023', work_key: '三体|2023|tv' },
+        { title: '三体', year: '2023', total_episodes: 1 }
+      )
+    ).toBe(false);
+    expect(
+      isSameWork(
+        { title: '三体', year: '2023', total_episodes: 30 },
+        { title: '三体', year: '2023', total_episodes: 1 }
+      )
+    ).toBe(false);
+    expect(
+      isSameWork(
+        { title: '三体', year: '2023', total_episodes: 30 },
+        { title: '三体', year: '2023', total_episodes: 24 }
+      )
+    ).toBe(true);
+  });
+
+  it('still matches by douban id regardless of kind', () => {
+    expect(
+      isSameWork(
+        { douban_id: 7, total_episodes: 1 },
+        { douban_id: 7, total_episodes: 12 }
+      )
+    ).toBe(true);
+  });
+});
+
+describe('clusterByWork', () => {
+  it('groups results of the same work in first-seen order', () => {
+    const groups = clusterByWork([
+      { title: 'A', work_id: 'douban:1', work_key: 'a|2020|tv' },
+      { title: 'B', work_id: 'title:b|2020|movie', work_key: 'b|2020|movie' },
+      { title: 'A2', work_id: 'title:a|2020|tv', work_key: 'a|2020|tv' },
+    ]);
+    expect(groups.map(([, items]) => items.map((item) => item.title))).toEqual([
+      ['A', 'A2'],
+      ['B'],
+    ]);
+  });
+});
+
+describe('splitWorkEntryKey', () => {
+  it('splits on the first plus only', () => {
+    expect(splitWorkEntryKey('emby+abc+def')).toEqual(['emby', 'abc+def']);
+  });
+
+  it('rejects keys without a source or id', () => {
+    expect(splitWorkEntryKey('noplus')).toBeNull();
+    expect(splitWorkEntryKey('+id')).toBeNull();
+    expect(splitWorkEntryKey('source+')).toBeNull();
+  });
+});
+
+describe('findWorkEntries', () => {
+  it('finds other records of the same work and skips the excluded key', () => {
+    const records = {
+      'a+1': { title: '三体', year: '2023', total_episodes: 30 },
+      'b+2': { title: '三体', year: '2023', total_episodes: 1 },
+      'c+3': { title: '三体', year: '2023', total_episodes: 30 },
+    };
+    const entries = findWorkEntries(
+      records,
+      { title: '三体', year: '2023', total_episodes: 30 },
+      'a+1'
+    );
+    expect(entries.map(([key]) => key)).toEqual(['c+3']);
+  });
+});
+
+describe('findStableWorkEntries', () => {
+  it('matches other sources only by douban id', () => {
+    const records = {
+      'a+1': { title: '三体', year: '2023', work_id: 'douban:26647087' },
+      'b+2': { title: '三体 国语', year: '2023', douban_id: 26647087 },
+      'c+3': {
+        title: '三体',
+        year: '2023',
+        work_id: 'title:三体|2023|tv',
+        work_key: '三体|2023|tv',
+      },
+    };
+    const entries = findStableWorkEntries(
+      records,
+      { title: '三体', year: '2023', work_id: 'douban:26647087' },
+      'a+1'
+    );
+    expect(entries.map(([key]) => key)).toEqual(['b+2']);
+  });
+
+  it('matches nothing without a douban id', () => {
+    const records = {
+      'a+1': { title: '三体', year: '2023', work_key: '三体|2023|tv' },
+    };
+    expect(
+      findStableWorkEntries(records, {
+        title: '三体',
+        year: '2023',
+        work_id: 'title:三体|2023|tv',
+        work_key: '三体|2023|tv',
+      })
+    ).toEqual([]);
+  });
+});
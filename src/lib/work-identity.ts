@@ -0,0 +1,202 @@
+/**
+ * 作品身份：把不同视频源返回的同一部作品归为一类
+ *
+ * - work_id：有豆瓣 ID 时为 `douban:<id>`，否则为 `title:<work_key>`
+ * - work_key：`<规范化标题>|<年份>|<movie|tv>`，规范化会去掉空白和标点并统一繁简
+ *
+ * 两个结果只要 work_id 或 work_key 任一相同就视为同一作品。
+ * 本模块不依赖繁简转换库，服务端计算时传入转换函数，客户端直接使用接口返回的字段。
+ */
+
+export type WorkKind = 'movie' | 'tv';
+
+export interface WorkRef {
+  title?: string;
+  year?: string;
+  douban_id?: number;
+  work_id?: string;
+  work_key?: string;
+  /** 播放记录、收藏中的总集数，旧记录没有 work_key 时用于区分电影和剧集 */
+  total_episodes?: number;
+}
+
+export interface WorkIdentity {
+  work_id: string;
+  work_key: string;
+}
+
+// 年份未知时的占位，与搜索结果中的 'unknown' 保持一致
+const UNKNOWN_YEAR = 'unknown';
+
+/**
+ * 规范化标题：全角转半角、去掉空白和标点、转小写，可选统一为简体
+ */
+export function normalizeWorkTitle(
+  title: string,
+  toSimplified?: (text: string) => string
+): string {
+  let normalized = (title || '').normalize('NFKC').toLowerCase();
+  if (toSimplified) {
+    normalized = toSimplified(normalized);
+  }
+  return normalized.replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+export function getWorkKind(episodeCount: number): WorkKind {
+  return episodeCount === 1 ? 'movie' : 'tv';
+}
+
+function normalizeYear(year?: string): string {
+  const match = (year || '').match(/\d{4}/);
+  return match ? match[0] : UNKNOWN_YEAR;
+}
+
+function normalizeDoubanId(doubanId?: number | string): number {
+  const id = Number(doubanId);
+  return Number.isFinite(id) && id > 0 ? id : 0;
+}
+
+export function buildWorkKey(normalizedTitle: string, year: string | undefined, kind: WorkKind) {
+  return `${normalizedTitle}|${normalizeYear(year)}|${kind}`;
+}
+
+/**
+ * 计算单个结果的作品身份
+ */
+export function getWorkIdentity(
+  item: { title: string; year?: string; douban_id?: number; episodes?: string[] },
+  toSimplified?: (text: string) => string
+): WorkIdentity {
+  const workKey = buildWorkKey(
+    normalizeWorkTitle(item.title, toSimplified),
+    item.year,
+    getWorkKind(item.episodes?.length ?? 0)
+  );
+  const doubanId = normalizeDoubanId(item.douban_id);
+  return {
+    work_id: doubanId ? `douban:${doubanId}` : `title:${workKey}`,
+    work_key: workKey,
+  };
+}
+
+// 没有服务端作品身份时（旧数据、Emby 等来源）退回到简单的标题键
+function fallbackWorkKey(ref: WorkRef): string | null {
+  if (!ref.title) return null;
+  return `${normalizeWorkTitle(ref.title)}|${normalizeYear(ref.year)}`;
+}
+
+// 作品类型：优先取 work_key 中的类型，其次按总集数推断，都没有时未知
+function workKindOf(ref: WorkRef): WorkKind | null {
+  const kind = ref.work_key?.split('|')[2];
+  if (kind === 'movie' || kind === 'tv') return kind;
+  return ref.total_episodes && ref.total_episodes > 0 ? getWorkKind(ref.total_episodes) : null;
+}
+
+function isSameKind(a: WorkRef, b: WorkRef): boolean {
+  const kindA = workKindOf(a);
+  const kindB = workKindOf(b);
+  return !kindA || !kindB || kindA === kindB;
+}
+
+function workKeysOf(ref: WorkRef): string[] {
+  const keys: string[] = [];
+  if (ref.work_id) keys.push(`id:${ref.work_id}`);
+  const doubanId = normalizeDoubanId(ref.douban_id);
+  if (doubanId) keys.push(`id:douban:${doubanId}`);
+  if (ref.work_key) keys.push(`key:${ref.work_key}`);
+  if (!ref.work_id && !ref.work_key) {
+    const fallback = fallbackWorkKey(ref);
+    if (fallback) keys.push(`fallback:${fallback}`);
+  }
+  return keys;
+}
+
+/**
+ * 判断两条记录是否属于同一作品
+ */
+export function isSameWork(a: WorkRef, b: WorkRef): boolean {
+  const keysA = workKeysOf(a);
+  if (keysA.length === 0) return false;
+  const keysB = new Set(workKeysOf(b));
+  // 标题 + 年份兜底时还需类型一致，避免同名同年的电影和剧集被合并
+  const sameKind = isSameKind(a, b);
+  if (keysA.some((key) => keysB.has(key) && (sameKind || !key.startsWith('fallback:')))) return true;
+
+  // 一方没有作品身份（旧记录）时按标题 + 年份 + 类型兜底比较
+  if (!(a.work_key && b.work_key) && sameKind) {
+    const fallbackA = fallbackWorkKey(a);
+    return !!fallbackA && fallbackA === fallbackWorkKey(b);
+  }
+  return false;
+}
+
+/**
+ * 按作品聚类，保持首次出现的顺序
+ * 新结果加入第一个命中的已有分组，不会合并已有分组，保证流式搜索时分组键稳定
+ */
+export function clusterByWork<T extends WorkRef>(items: T[]): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  const keyToGroup = new Map<string, string>();
+  const order: string[] = [];
+
+  items.forEach((item, index) => {
+    const keys = workKeysOf(item);
+    let groupKey = keys.map((key) => keyToGroup.get(key)).find(Boolean);
+    if (!groupKey) {
+      groupKey = keys[0] || `item:${index}`;
+      order.push(groupKey);
+      groups.set(groupKey, []);
+    }
+    groups.get(groupKey)!.push(item);
+    keys.forEach((key) => {
+      if (!keyToGroup.has(key)) keyToGroup.set(key, groupKey!);
+    });
+  });
+
+  return order.map((key) => [key, groups.get(key)!] as [string, T[]]);
+}
+
+/**
+ * 拆分 `source+id` 形式的记录键，只按第一个 '+' 拆分（id 中可能含有 '+'）
+ */
+export function splitWorkEntryKey(key: string): [string, string] | null {
+  const index = key.indexOf('+');
+  if (index <= 0 || index === key.length - 1) return null;
+  return [key.slice(0, index), key.slice(index + 1)];
+}
+
+/**
+ * 在以 `source+id` 为键的记录（播放记录、收藏）中查找同一作品的条目
+ */
+export function findWorkEntries<T extends WorkRef>(
+  records: Record<string, T>,
+  ref: WorkRef,
+  excludeKey?: string
+): Array<[string, T]> {
+  return Object.entries(records).filter(
+    ([key, record]) => key !== excludeKey && isSameWork(ref, record)
+  );
+}
+
+// 稳定的作品 ID：只认豆瓣 ID，标题键可能把同名作品误判为同一部
+function stableWorkIdOf(ref: WorkRef): string | null {
+  if (ref.work_id?.startsWith('douban:')) return ref.work_id;
+  const doubanId = normalizeDoubanId(ref.douban_id);
+  return doubanId ? `douban:${doubanId}` : null;
+}
+
+/**
+ * 按稳定的作品 ID 查找同一作品的条目，用于删除等不可撤销的跨源操作
+ * 没有豆瓣 ID 时不匹配任何条目
+ */
+export function findStableWorkEntries<T extends WorkRef>(
+  records: Record<string, T>,
+  ref: WorkRef,
+  excludeKey?: string
+): Array<[string, T]> {
+  const workId = stableWorkIdOf(ref);
+  if (!workId) return [];
+  return Object.entries(records).filter(
+    ([key, record]) => key !== excludeKey && stableWorkIdOf(record) === workId
+  );
+}
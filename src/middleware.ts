@@ -2,10 +2,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { isApiTokenAllowed } from '@/lib/api-token-scope';
 import { getAuthInfoFromCookie } from '@/lib/auth';
+import type { ApiTokenScope } from '@/lib/types';
+
+// requireTwoFactor：双重验证策略不允许信任网络跳过时，关闭自动登录
+interface TrustedNetworkSettings {
+  enabled: boolean;
+  trustedIPs: string[];
+  requireTwoFactor?: boolean;
+}
 
 // 信任网络配置缓存（从 API 获取）
-let trustedNetworkCache: { enabled: boolean; trustedIPs: string[] } | null = null;
+let trustedNetworkCache: TrustedNetworkSettings | null = null;
 let trustedNetworkCacheTime = 0;
 let trustedNetworkFetched = false;
 let trustedNetworkVersion = ''; // 跟踪配置版本，用于立即失效缓存
@@ -13,18 +22,19 @@ let trustedNetworkVersion = ''; // 跟踪配置版本，用于立即失效缓存
 const CACHE_TTL = 86400000; // 24 小时缓存（配置变化时通过 cookie 版本号立即刷新）
 
 // 从环境变量获取信任网络配置（优先）
-function getTrustedNetworkFromEnv(): { enabled: boolean; trustedIPs: string[] } | null {
+function getTrustedNetworkFromEnv(): TrustedNetworkSettings | null {
   const trustedIPs = process.env.TRUSTED_NETWORK_IPS;
   if (!trustedIPs) return null;
 
   return {
     enabled: true,
     trustedIPs: trustedIPs.split(',').map(ip => ip.trim()).filter(Boolean),
+    requireTwoFactor: process.env.TRUSTED_NETWORK_REQUIRE_2FA === 'true',
   };
 }
 
 // 从 API 获取信任网络配置（数据库）
-async function getTrustedNetworkFromAPI(request: NextRequest): Promise<{ enabled: boolean; trustedIPs: string[] } | null> {
+async function getTrustedNetworkFromAPI(request: NextRequest): Promise<TrustedNetworkSettings | null> {
   const now = Date.now();
 
   // 检查缓存是否有效
@@ -63,6 +73,7 @@ async function getTrustedNetworkFromAPI(request: NextRequest): Promise<{ enabled
         trustedNetworkCache = {
           enabled: data.TrustedNetworkConfig.enabled ?? false,
           trustedIPs: data.TrustedNetworkConfig.trustedIPs || [],
+          requireTwoFactor: data.TrustedNetworkConfig.requireTwoFactor ?? false,
         };
 
         if (!trustedNetworkCache.enabled) {
@@ -84,7 +95,7 @@ async function getTrustedNetworkFromAPI(request: NextRequest): Promise<{ enabled
 }
 
 // 获取信任网络配置（环境变量优先，然后数据库）
-async function getTrustedNetworkConfig(request: NextRequest): Promise<{ enabled: boolean; trustedIPs: string[] } | null> {
+async function getTrustedNetworkConfig(request: NextRequest): Promise<TrustedNetworkSettings | null> {
   // 环境变量优先
   const envConfig = getTrustedNetworkFromEnv();
   if (envConfig) return envConfig;
@@ -103,6 +114,179 @@ async function getTrustedNetworkConfig(request: NextRequest): Promise<{ enabled:
   return await getTrustedNetworkFromAPI(request);
 }
 
+// ---------- 个人访问令牌（Authorization: Bearer） ----------
+interface VerifiedApiToken {
+  username: string;
+  role: 'owner' | 'admin' | 'user';
+  tokenId: string;
+  scopes: ApiTokenScope[];
+}
+
+// 校验结果短暂缓存，撤销后最多延迟 API_TOKEN_CACHE_TTL 生效
+const API_TOKEN_CACHE_TTL = 30000;
+const apiTokenCache = new Map<string, { result: VerifiedApiToken | null; expiresAt: number }>();
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+async function verifyApiTokenFromAPI(
+  request: NextRequest,
+  token: string
+): Promise<VerifiedApiToken | null> {
+  const now = Date.now();
+  const cached = apiTokenCache.get(token);
+  if (cached && cached.expiresAt > now) {
+    return cached.result;
+  }
+
+  let result: VerifiedApiToken | null = null;
+  try {
+    const response = await fetch(new URL('/api/tokens/verify', request.url).toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-internal-request': 'true',
+      },
+      body: JSON.stringify({ token }),
+    });
+    if (response.ok) {
+      result = await response.json();
+    } else if (response.status >= 500) {
+      // 服务端错误不缓存，下次请求重试
+      return null;
+    }
+  } catch (error) {
+    console.error('[Middleware] API token verification failed:', error);
+    return null;
+  }
+
+  if (apiTokenCache.size > 1000) {
+    apiTokenCache.clear();
+  }
+  apiTokenCache.set(token, { result, expiresAt: now + API_TOKEN_CACHE_TTL });
+  return result;
+}
+
+// 生成签名（与登录接口 cookie 签名一致）
+async function generateSignature(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// 使用 Bearer 令牌认证：校验通过后注入与登录一致的 user_auth cookie，下游接口无需改动
+async function handleApiTokenAuth(
+  request: NextRequest,
+  pathname: string,
+  token: string,
+  response?: NextResponse
+): Promise<NextResponse> {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage' || !process.env.PASSWORD) {
+    return NextResponse.json({ error: '当前部署不支持访问令牌' }, { status: 401 });
+  }
+
+  const verified = await verifyApiTokenFromAPI(request, token);
+  if (!verified) {
+    return NextResponse.json({ error: '访问令牌无效或已过期' }, { status: 401 });
+  }
+
+  if (!isApiTokenAllowed(verified.scopes, pathname, request.method)) {
+    return NextResponse.json({ error: '访问令牌权限不足' }, { status: 403 });
+  }
+
+  const now = Date.now();
+  const authInfo = {
+    username: verified.username,
+    role: verified.role,
+    signature: await generateSignature(verified.username, process.env.PASSWORD),
+    timestamp: now,
+    loginTime: now,
+    apiTokenId: verified.tokenId,
+  };
+
+  const headers = new Headers(request.headers);
+  headers.set('cookie', `user_auth=${encodeURIComponent(JSON.stringify(authInfo))}`);
+
+  if (response) {
+    // /adult/ 前缀的请求需要保留重写
+    const rewritten = NextResponse.rewrite(request.nextUrl, { request: { headers } });
+    const contentMode = response.headers.get('X-Content-Mode');
+    if (contentMode) {
+      rewritten.headers.set('X-Content-Mode', contentMode);
+    }
+    return rewritten;
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
+// ---------- 服务端登录会话 ----------
+// 只缓存校验接口明确返回的结果，远程登出、封禁后最多延迟 SESSION_CACHE_TTL 生效
+// middleware 运行在 Edge，无法直接访问存储，缓存时间需尽量短
+const SESSION_CACHE_TTL = 5000;
+const sessionCache = new Map<string, { valid: boolean; expiresAt: number }>();
+
+type SessionCheckResult = 'valid' | 'invalid' | 'unavailable';
+
+async function verifySessionFromAPI(
+  request: NextRequest,
+  authInfo: { username: string; signature: string; sessionId?: string }
+): Promise<SessionCheckResult> {
+  const now = Date.now();
+  const cacheKey = `${authInfo.username}:${authInfo.sessionId || ''}`;
+  const cached = sessionCache.get(cacheKey);
+  if (cached && cached.expiresAt > now) {
+    return cached.valid ? 'valid' : 'invalid';
+  }
+
+  let valid: boolean;
+  try {
+    const response = await fetch(new URL('/api/sessions/verify', request.url).toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-internal-request': 'true',
+      },
+      body: JSON.stringify({
+        username: authInfo.username,
+        signature: authInfo.signature,
+        sessionId: authInfo.sessionId,
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || '',
+      }),
+    });
+    if (response.status !== 200 && response.status !== 401) {
+      // 存储故障时无法确认会话是否已撤销，拒绝访问但不缓存结果
+      console.error('[Middleware] Session verification unavailable:', response.status);
+      return 'unavailable';
+    }
+    valid = response.status === 200;
+  } catch (error) {
+    console.error('[Middleware] Session verification failed:', error);
+    return 'unavailable';
+  }
+
+  if (sessionCache.size > 1000) {
+    sessionCache.clear();
+  }
+  sessionCache.set(cacheKey, { valid, expiresAt: now + SESSION_CACHE_TTL });
+  return valid ? 'valid' : 'invalid';
+}
+
 // 获取客户端 IP
 function getClientIP(request: NextRequest): string {
   // 按优先级获取客户端 IP
@@ -257,9 +441,19 @@ async function handleAuthentication(
   pathname: string,
   response?: NextResponse
 ) {
+  // 🔑 第三方客户端使用个人访问令牌，优先于 cookie 认证
+  const bearerToken = pathname.startsWith('/api') ? getBearerToken(request) : null;
+  if (bearerToken) {
+    return handleApiTokenAuth(request, pathname, bearerToken, response);
+  }
+
   // 🔥 检查信任网络模式（环境变量优先，然后数据库）
   const trustedNetworkConfig = await getTrustedNetworkConfig(request);
-  if (trustedNetworkConfig?.enabled && trustedNetworkConfig.trustedIPs.length > 0) {
+  if (
+    trustedNetworkConfig?.enabled &&
+    trustedNetworkConfig.trustedIPs.length > 0 &&
+    !trustedNetworkConfig.requireTwoFactor
+  ) {
     const clientIP = getClientIP(request);
 
     if (isIPTrusted(clientIP, trustedNetworkConfig.trustedIPs)) {
@@ -302,6 +496,12 @@ async function handleAuthentication(
   // 其他模式：验证签名或信任网络标记
   // 🔥 信任网络模式：检查 trustedNetwork 标记
   if (authInfo.trustedNetwork) {
+    // 策略要求双重验证后，之前自动签发的信任网络 cookie 一并失效
+    if (trustedNetworkConfig?.requireTwoFactor) {
+      const failure = handleAuthFailure(request, pathname);
+      failure.cookies.delete('user_auth');
+      return failure;
+    }
     return response || NextResponse.next();
   }
 
@@ -318,8 +518,25 @@ async function handleAuthentication(
       process.env.PASSWORD || ''
     );
 
-    // 签名验证通过即可
     if (isValidSignature) {
+      // 签名只绑定用户名，还需确认会话未被撤销（远程登出、封禁）
+      const sessionResult = await verifySessionFromAPI(request, {
+        username: authInfo.username,
+        signature: authInfo.signature,
+        sessionId: authInfo.sessionId,
+      });
+      if (sessionResult === 'unavailable') {
+        // 暂时无法校验时保留 cookie，恢复后无需重新登录
+        return new NextResponse('Session verification unavailable', {
+          status: 503,
+          headers: { 'Retry-After': '5' },
+        });
+      }
+      if (sessionResult === 'invalid') {
+        const failure = handleAuthFailure(request, pathname);
+        failure.cookies.delete('user_auth');
+        return failure;
+      }
       return response || NextResponse.next();
     }
   }
@@ -403,6 +620,6 @@ function shouldSkipAuth(pathname: string): boolean {
 // 配置middleware匹配规则
 export const config = {
   matcher: [
-    '/((?!_next/static|_next/image|favicon.ico|login|register|oidc-register|warning|api/login|api/register|api/logout|api/cron|api/server-config|api/tvbox|api/emby/cms-proxy|api/emby/play|api/emby/sources|api/live/merged|api/parse|api/bing-wallpaper|api/proxy/|api/telegram/|api/auth/oidc/|api/watch-room/).*)',
+    '/((?!_next/static|_next/image|favicon.ico|login|register|oidc-register|warning|api/login|api/register|api/logout|api/cron|api/server-config|api/tvbox|api/emby/cms-proxy|api/emby/play|api/emby/sources|api/live/merged|api/live/export|api/parse|api/bing-wallpaper|api/proxy/|api/telegram/|api/auth/oidc/|api/watch-room/|api/tokens/verify|api/sessions/verify).*)',
   ],
 };
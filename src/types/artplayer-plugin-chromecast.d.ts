@@ -3,6 +3,7 @@ declare module '@/lib/artplayer-plugin-chromecast' {
     icon?: string;
     sdk?: string;
     url?: string;
+    resolveUrl?: (url: string) => string | Promise<string>;
     mimeType?: string;
     title?: string;
     poster?: string;